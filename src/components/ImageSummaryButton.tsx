@@ -7,11 +7,13 @@ import { useImageSummary } from '@/hooks/useImageSummary';
 import ImageSummaryButtonUI from './summary/ImageSummaryButtonUI';
 
 interface ImageSummaryButtonProps {
+  imageId: string;
   imageUrl: string;
   imageName: string;
 }
 
 const ImageSummaryButton: React.FC<ImageSummaryButtonProps> = ({
+  imageId,
   imageUrl,
   imageName
 }) => {
@@ -38,6 +40,7 @@ const ImageSummaryButton: React.FC<ImageSummaryButtonProps> = ({
     generateSummary, 
     setIsNoteSaved 
   } = useImageSummary({
+    imageId,
     imageUrl,
     projectId
   });
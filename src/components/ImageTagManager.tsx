@@ -15,11 +15,12 @@ import {
 } from "@/components/ui/popover";
 
 interface ImageTagManagerProps {
+  imageId: string;
   imageUrl: string;
   projectId: string | undefined;
 }
 
-const ImageTagManager: React.FC<ImageTagManagerProps> = ({ imageUrl, projectId }) => {
+const ImageTagManager: React.FC<ImageTagManagerProps> = ({ imageId, imageUrl, projectId }) => {
   const [isTagPopoverOpen, setIsTagPopoverOpen] = useState(false);
   
   const {
@@ -31,7 +32,7 @@ const ImageTagManager: React.FC<ImageTagManagerProps> = ({ imageUrl, projectId }
     setSortOption,
     addTag,
     removeTag
-  } = useImageTags(imageUrl, projectId);
+  } = useImageTags(imageId, imageUrl, projectId);
 
   return (
     <Popover open={isTagPopoverOpen} onOpenChange={setIsTagPopoverOpen}>
@@ -10,7 +10,9 @@ import { useUserFeatures } from '@/hooks/useUserFeatures';
 import Logo from './navbar/Logo';
 import NavLinks from './navbar/NavLinks';
 import ProfileButton from './navbar/ProfileButton';
+import SearchButton from './navbar/SearchButton';
 import MobileMenu from './navbar/MobileMenu';
+import WorkspaceSwitcher from './workspace/WorkspaceSwitcher';
 import ProfileDialog from './navbar/ProfileDialog';
 import SettingsDialog from './navbar/SettingsDialog';
 
@@ -54,7 +56,11 @@ const Navbar = () => {
         </div>
 
         <div className="flex items-center space-x-6">
+          <div className="hidden md:block">
+            <WorkspaceSwitcher />
+          </div>
           <NavLinks />
+          <SearchButton />
           <div className="hidden md:block">
             <ProfileButton 
               onClick={() => setProfileDialogOpen(true)} 
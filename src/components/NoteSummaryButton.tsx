@@ -34,7 +34,8 @@ const NoteSummaryButton: React.FC<NoteSummaryButtonProps> = ({
     hasSummary,
     isDialogOpen,
     setIsDialogOpen,
-    generateSummary
+    generateSummary,
+    cancelGeneration
   } = useNoteSummary({
     noteId,
     noteContent,
@@ -57,8 +58,9 @@ const NoteSummaryButton: React.FC<NoteSummaryButtonProps> = ({
     return null;
   }
 
-  // Safe close handler
+  // Safe close handler; closing also stops a summary that is still being written
   const handleClose = () => {
+    cancelGeneration();
     setIsDialogOpen(false);
     resetBodyStyles();
   };
@@ -96,6 +98,7 @@ const NoteSummaryButton: React.FC<NoteSummaryButtonProps> = ({
         isLoading={isGenerating && !hasSummary}
         hasSavedVersion={hasSummary}
         projectId={finalProjectId}
+        onCancel={handleClose}
       />
     </>
   );
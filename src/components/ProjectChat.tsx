@@ -1,5 +1,5 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Card, CardContent } from '@/components/ui/card';
@@ -14,6 +14,8 @@ import ProjectChatMessage from '@/components/project/chat/ProjectChatMessage';
 import ProjectChatInput from '@/components/project/chat/ProjectChatInput';
 import ProjectChatSuggestions from '@/components/project/chat/ProjectChatSuggestions';
 import ProjectChatWelcome from '@/components/project/chat/ProjectChatWelcome';
+import ChatCitationViewer from '@/components/project/chat/ChatCitationViewer';
+import { Citation } from '@/components/project/chat/types';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { useNavigate } from 'react-router-dom';
 
@@ -23,8 +25,18 @@ interface ProjectChatProps {
 }
 
 const ProjectChat: React.FC<ProjectChatProps> = ({ projectId, disableAutoScroll = false }) => {
-  const { messages, isLoading, error, predefinedQuestions, sendMessage } = useProjectChat(projectId);
+  const {
+    messages,
+    isLoading,
+    isStreaming,
+    error,
+    predefinedQuestions,
+    sendMessage,
+    cancelMessage
+  } = useProjectChat(projectId);
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [activeCitation, setActiveCitation] = useState<Citation | null>(null);
+  const closeCitation = useCallback(() => setActiveCitation(null), []);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const isMobile = useIsMobile();
   const navigate = useNavigate();
@@ -103,6 +115,9 @@ const ProjectChat: React.FC<ProjectChatProps> = ({ projectId, disableAutoScroll
                     Items marked as favorites or important are prioritized in responses.
                     Archived items are included but deprioritized.
                   </p>
+                  <p className="text-sm text-muted-foreground">
+                    Answers cite their sources with numbers like [1]; click a source to open it.
+                  </p>
                 </div>
               </PopoverContent>
             </Popover>
@@ -111,9 +126,14 @@ const ProjectChat: React.FC<ProjectChatProps> = ({ projectId, disableAutoScroll
         <ScrollArea className="flex-1 py-6 px-4 bg-gradient-to-b from-background/50 to-background/30">
           <div className="space-y-6">
             {messages.map((message, index) => (
-              <ProjectChatMessage key={index} message={message} />
+              <ProjectChatMessage
+                key={index}
+                message={message}
+                onCitationClick={setActiveCitation}
+                isStreaming={isStreaming && index === messages.length - 1}
+              />
             ))}
-            {isLoading && (
+            {isLoading && !isStreaming && (
               <div className="flex justify-start">
                 <div className="glass-panel p-3 rounded-lg flex items-center space-x-2.5">
                   <Loader2 className="h-5 w-5 text-primary animate-spin" />
@@ -145,9 +165,15 @@ const ProjectChat: React.FC<ProjectChatProps> = ({ projectId, disableAutoScroll
               />
             </div>
           )}
-          <ProjectChatInput onSendMessage={sendMessage} isLoading={isLoading} />
+          <ProjectChatInput onSendMessage={sendMessage} isLoading={isLoading} onCancel={cancelMessage} />
         </div>
       </Card>
+
+      <ChatCitationViewer
+        projectId={projectId}
+        citation={activeCitation}
+        onClose={closeCitation}
+      />
     </>
   );
 };
@@ -18,7 +18,6 @@ interface ProjectImageUploadProps {
   maxWidth?: number;
   maxHeight?: number;
   maxSizeInMB?: number;
-  deletedImagePaths?: string[];
 }
 
 const ProjectImageUpload: React.FC<ProjectImageUploadProps> = ({
@@ -26,8 +25,7 @@ const ProjectImageUpload: React.FC<ProjectImageUploadProps> = ({
   onUploadComplete,
   maxWidth = 1600,
   maxHeight = 1600,
-  maxSizeInMB = 5,
-  deletedImagePaths = []
+  maxSizeInMB = 5
 }) => {
   const { user } = useAuth();
   
@@ -52,8 +50,7 @@ const ProjectImageUpload: React.FC<ProjectImageUploadProps> = ({
     maxWidth,
     maxHeight,
     maxSizeInMB,
-    onUploadComplete,
-    deletedImagePaths
+    onUploadComplete
   });
   
   const onDeleteImage = async (imagePath: string) => {
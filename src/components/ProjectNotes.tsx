@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useProjectNotes } from '@/hooks/useProjectNotes';
 import { useNoteForm } from '@/hooks/useNoteForm';
 import { useNotesSearch } from '@/hooks/notes/useNotesSearch';
@@ -9,7 +9,16 @@ import EmptyNotesList from './notes/EmptyNotesList';
 import NotesLoading from './notes/NotesLoading';
 import NotesToolbar from './notes/NotesToolbar';
 import NotesList from './notes/NotesList';
+import NotionSyncBar from './notes/NotionSyncBar';
+import NotionConflictDialog from './notes/NotionConflictDialog';
 import { resetBodyStyles } from '@/utils/dialogUtils';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useNotionSync } from '@/hooks/useNotionSync';
+import { useNoteLinks } from '@/hooks/useNoteLinks';
+import ChatCitationViewer from '@/components/project/chat/ChatCitationViewer';
+import { Citation } from '@/components/project/chat/types';
+import { LinkTarget } from '@/utils/noteLinks';
+import { Note } from './notes/types';
 
 interface ProjectNotesProps {
   projectId: string;
@@ -30,6 +39,7 @@ const ProjectNotes: React.FC<ProjectNotesProps> = ({ projectId }) => {
     setAiModel,
     handleDeleteNote,
     formatDate,
+    fetchNotes,
     user
   } = useProjectNotes(projectId);
 
@@ -45,6 +55,7 @@ const ProjectNotes: React.FC<ProjectNotesProps> = ({ projectId }) => {
     setTitle,
     content,
     setContent,
+    handleTextCleaned,
     tagInput,
     setTagInput,
     tags,
@@ -64,6 +75,47 @@ const ProjectNotes: React.FC<ProjectNotesProps> = ({ projectId }) => {
   } = useNoteForm(projectId, notes, setNotes, allTags, setAllTags);
 
   const { filteredNotes } = useNotesSearch(notes, searchQuery);
+  const { canEditContent } = usePermissions(projectId);
+  const { conflicts, syncing, resolvingId, syncNow, resolveConflict } = useNotionSync(projectId, fetchNotes);
+  const [reviewingNoteId, setReviewingNoteId] = useState<string | null>(null);
+  const { targets: linkTargets, refresh: refreshLinks, backlinksTo } = useNoteLinks(projectId);
+  const [openedLink, setOpenedLink] = useState<Citation | null>(null);
+  const closeOpenedLink = useCallback(() => setOpenedLink(null), []);
+
+  // Links are stored by the database when notes are saved or renamed
+  useEffect(() => {
+    refreshLinks();
+  }, [notes, refreshLinks]);
+
+  // Follow a [[link]]: notes in this list open in place, anything else in the
+  // viewer chat citations use
+  const handleOpenLinkTarget = (target: LinkTarget) => {
+    const note = target.type === 'note' && notes.find(item => item.id === target.id);
+    if (note) {
+      openViewDialog(note);
+      return;
+    }
+
+    setIsViewOpen(false);
+    setOpenedLink({ index: 0, type: target.type, id: target.id, title: target.name, url: target.url });
+  };
+
+  const handleReviewConflict = (noteId: string) => {
+    // The note may be hidden by the tag filter
+    if (!notes.some(note => note.id === noteId)) setActiveTag(null);
+    setReviewingNoteId(noteId);
+  };
+
+  // Show the restored version in the list and in the open note
+  const handleNoteRestored = (restored: Note) => {
+    setNotes(prev => prev.map(note => note.id === restored.id ? { ...note, ...restored } : note));
+    openViewDialog(restored);
+  };
+
+  const handleResolveConflict = async (noteId: string, useNotion: boolean) => {
+    await resolveConflict(noteId, useNotion);
+    setReviewingNoteId(null);
+  };
 
   // Ensure cleanup when component unmounts
   useEffect(() => {
@@ -100,12 +152,13 @@ const ProjectNotes: React.FC<ProjectNotesProps> = ({ projectId }) => {
   }
 
   if (notes.length === 0) {
-    return <EmptyNotesList onCreateNote={handleOpenCreateDialog} />;
+    return <EmptyNotesList onCreateNote={handleOpenCreateDialog} readOnly={!canEditContent} />;
   }
 
   return (
     <div className="space-y-4">
       <NotesToolbar
+        projectId={projectId}
         searchQuery={searchQuery}
         onSearchChange={setSearchQuery}
         onCreateNote={handleOpenCreateDialog}
@@ -114,6 +167,15 @@ const ProjectNotes: React.FC<ProjectNotesProps> = ({ projectId }) => {
         setActiveTag={setActiveTag}
       />
 
+      <NotionSyncBar
+        notes={notes}
+        conflicts={conflicts}
+        syncing={syncing}
+        onSync={syncNow}
+        onReview={handleReviewConflict}
+        readOnly={!canEditContent}
+      />
+
       <NotesList
         notes={filteredNotes}
         userId={user?.id}
@@ -123,6 +185,18 @@ const ProjectNotes: React.FC<ProjectNotesProps> = ({ projectId }) => {
         onEdit={openEditDialog}
         onDelete={handleDeleteNote}
         formatDate={formatDate}
+        readOnly={!canEditContent}
+      />
+
+      <NotionConflictDialog
+        note={notes.find(note => note.id === reviewingNoteId) || null}
+        conflict={conflicts.find(conflict => conflict.note_id === reviewingNoteId) || null}
+        onOpenChange={(open) => {
+          if (!open) setReviewingNoteId(null);
+        }}
+        onResolve={handleResolveConflict}
+        resolving={resolvingId !== null}
+        readOnly={!canEditContent}
       />
 
       <NotesViewDialog
@@ -134,6 +208,17 @@ const ProjectNotes: React.FC<ProjectNotesProps> = ({ projectId }) => {
         onDelete={handleDeleteNote}
         formatDate={formatDate}
         userId={user?.id}
+        onNoteRestored={handleNoteRestored}
+        linkTargets={linkTargets}
+        backlinks={currentNote ? backlinksTo('note', currentNote.id) : []}
+        onOpenLinkTarget={handleOpenLinkTarget}
+        readOnly={!canEditContent}
+      />
+
+      <ChatCitationViewer
+        projectId={projectId}
+        citation={openedLink}
+        onClose={closeOpenedLink}
       />
       
       <NotesDialog
@@ -151,6 +236,7 @@ const ProjectNotes: React.FC<ProjectNotesProps> = ({ projectId }) => {
         aiModel={aiModel}
         onTitleChange={setTitle}
         onContentChange={setContent}
+        onContentCleaned={handleTextCleaned}
         onTagInputChange={setTagInput}
         onTagInputKeyDown={handleTagInputKeyDown}
         addTag={addTag}
@@ -161,6 +247,8 @@ const ProjectNotes: React.FC<ProjectNotesProps> = ({ projectId }) => {
         handleRegenerateBoth={handleRegenerateBoth}
         onModelChange={setAiModel}
         allProjectTags={allTags}
+        linkTargets={linkTargets}
+        projectId={projectId}
       />
       
       <NotesDialog
@@ -178,6 +266,7 @@ const ProjectNotes: React.FC<ProjectNotesProps> = ({ projectId }) => {
         aiModel={aiModel}
         onTitleChange={setTitle}
         onContentChange={setContent}
+        onContentCleaned={handleTextCleaned}
         onTagInputChange={setTagInput}
         onTagInputKeyDown={handleTagInputKeyDown}
         addTag={addTag}
@@ -188,6 +277,8 @@ const ProjectNotes: React.FC<ProjectNotesProps> = ({ projectId }) => {
         handleRegenerateBoth={handleRegenerateBoth}
         onModelChange={setAiModel}
         allProjectTags={allTags}
+        linkTargets={linkTargets}
+        projectId={projectId}
       />
     </div>
   );
@@ -5,7 +5,11 @@ import { Input } from '@/components/ui/input';
 import { useAuth } from '@/contexts/AuthContext';
 import { Loader2 } from 'lucide-react';
 
-const LoginForm = () => {
+interface LoginFormProps {
+  redirectTo?: string;
+}
+
+const LoginForm: React.FC<LoginFormProps> = ({ redirectTo }) => {
   const { signIn } = useAuth();
   const [loading, setLoading] = useState(false);
   const [loginEmail, setLoginEmail] = useState('');
@@ -16,7 +20,7 @@ const LoginForm = () => {
     if (!loginEmail || !loginPassword) return;
     
     setLoading(true);
-    await signIn(loginEmail, loginPassword);
+    await signIn(loginEmail, loginPassword, redirectTo);
     setLoading(false);
   };
 
@@ -6,10 +6,15 @@ import { useAuth } from '@/contexts/AuthContext';
 import { Loader2 } from 'lucide-react';
 import { Link } from 'react-router-dom';
 
-const RegisterForm = () => {
+interface RegisterFormProps {
+  redirectTo?: string;
+  defaultEmail?: string;
+}
+
+const RegisterForm: React.FC<RegisterFormProps> = ({ redirectTo, defaultEmail = '' }) => {
   const { signUp } = useAuth();
   const [loading, setLoading] = useState(false);
-  const [registerEmail, setRegisterEmail] = useState('');
+  const [registerEmail, setRegisterEmail] = useState(defaultEmail);
   const [registerPassword, setRegisterPassword] = useState('');
   const [registerFullName, setRegisterFullName] = useState('');
 
@@ -18,7 +23,7 @@ const RegisterForm = () => {
     if (!registerEmail || !registerPassword || !registerFullName) return;
     
     setLoading(true);
-    await signUp(registerEmail, registerPassword, registerFullName);
+    await signUp(registerEmail, registerPassword, registerFullName, redirectTo);
     setLoading(false);
   };
 
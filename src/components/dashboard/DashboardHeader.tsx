@@ -9,6 +9,8 @@ import { useIsMobile } from '@/hooks/use-mobile';
 import { useUserFeatures } from '@/hooks/useUserFeatures';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import ApiUsageAlert from './ApiUsageAlert';
+import WorkspaceSwitcher from '@/components/workspace/WorkspaceSwitcher';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
 
 interface DashboardHeaderProps {
   className?: string;
@@ -18,6 +20,7 @@ const DashboardHeader: React.FC<DashboardHeaderProps> = ({ className }) => {
   const navigate = useNavigate();
   const isMobile = useIsMobile();
   const { userFeatures, isLoading } = useUserFeatures();
+  const { currentWorkspace } = useWorkspace();
 
   const brainLimitReached = !isLoading && userFeatures.brainLimitReached && userFeatures.maxBrains !== Infinity;
   
@@ -31,9 +34,12 @@ const DashboardHeader: React.FC<DashboardHeaderProps> = ({ className }) => {
           <div className="flex items-center gap-2">
             <h1 className="text-2xl sm:text-3xl font-bold" id="dashboard-heading">Brains</h1>
             <Sparkles className="h-5 w-5 text-primary/70" />
+            <WorkspaceSwitcher className="ml-2" />
           </div>
           <p className="text-muted-foreground mt-1">
-            Manage and organize your intelligent workspaces
+            {currentWorkspace
+              ? `Brains shared with everyone in ${currentWorkspace.name}`
+              : 'Manage and organize your intelligent workspaces'}
           </p>
         </div>
         
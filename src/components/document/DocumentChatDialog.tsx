@@ -8,9 +8,10 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { SendHorizontal, Loader2 } from 'lucide-react';
+import { SendHorizontal, Loader2, Square } from 'lucide-react';
 import { toast } from 'sonner';
-import { supabase } from '@/integrations/supabase/client';
+import { invokeStreamingFunction } from '@/utils/streamingUtils';
+import { useQuotaPrompt } from '@/hooks/useQuotaPrompt';
 import { Textarea } from '@/components/ui/textarea';
 import ProjectChatMessage from '@/components/project/chat/ProjectChatMessage';
 import { documentPrompts } from '@/utils/aiPrompts';
@@ -36,7 +37,10 @@ const DocumentChatDialog: React.FC<DocumentChatDialogProps> = ({
   const [messages, setMessages] = useState<{ role: 'user' | 'assistant'; content: string }[]>([]);
   const [messageInput, setMessageInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const promptQuota = useQuotaPrompt();
   
   // Add welcome message when dialog opens
   useEffect(() => {
@@ -70,35 +74,44 @@ const DocumentChatDialog: React.FC<DocumentChatDialogProps> = ({
     setMessages(prev => [...prev, { role: 'user', content: userMessage }]);
     setIsLoading(true);
     
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let hasAnswer = false;
+    
+    // The first delta adds the assistant message, later ones replace it with the longer text
+    const showAnswer = (answer: string) => {
+      setMessages(prev => hasAnswer
+        ? [...prev.slice(0, -1), { role: 'assistant', content: answer }]
+        : [...prev, { role: 'assistant', content: answer }]);
+      hasAnswer = true;
+      setIsStreaming(true);
+    };
+    
     try {
       // Use centralized prompt from aiPrompts.ts
-      const { data, error } = await supabase.functions.invoke('chat-with-pdf', {
-        body: {
-          pdfUrl: document.file_url,
-          fileName: document.file_name,
-          message: userMessage,
-          documentContext: document.content_text || '',
-          projectId,
-          systemPrompt: documentPrompts.pdfQuestion(document.file_name)
-        }
+      const { text, result, cancelled } = await invokeStreamingFunction<{ answer: string }>('chat-with-pdf', {
+        pdfUrl: document.file_url,
+        fileName: document.file_name,
+        message: userMessage,
+        documentContext: document.content_text || '',
+        projectId,
+        documentId: document.id,
+        systemPrompt: documentPrompts.pdfQuestion(document.file_name)
+      }, {
+        signal: abortController.signal,
+        onDelta: (_delta, answer) => showAnswer(answer)
       });
       
-      if (error) {
-        console.error('Function invocation error:', error);
-        throw new Error(`Error calling function: ${error.message}`);
+      if (result) {
+        showAnswer(result.answer);
+      } else if (cancelled && !text) {
+        setMessages(prev => [...prev, { role: 'assistant', content: '_Response cancelled._' }]);
       }
-      
-      if (!data || !data.success || !data.answer) {
-        const errorMsg = data?.error || 'Invalid response from chat service';
-        console.error('Service error:', errorMsg);
-        throw new Error(errorMsg);
-      }
-      
-      // Add assistant message to chat
-      setMessages(prev => [...prev, { role: 'assistant', content: data.answer }]);
     } catch (error: any) {
       console.error('Error chatting with PDF:', error);
-      toast.error(`Failed to get response: ${error.message || 'Unknown error'}`);
+      if (!(await promptQuota(error))) {
+        toast.error(`Failed to get response: ${error.message || 'Unknown error'}`);
+      }
       
       // Add error message
       setMessages(prev => [...prev, { 
@@ -106,10 +119,23 @@ const DocumentChatDialog: React.FC<DocumentChatDialogProps> = ({
         content: "I'm sorry, I encountered an error processing your request. Please try again." 
       }]);
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
+      setIsStreaming(false);
     }
   };
   
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+  
+  // Closing the dialog stops an answer that is still being generated
+  useEffect(() => {
+    if (!isOpen) {
+      abortControllerRef.current?.abort();
+    }
+  }, [isOpen]);
+  
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -133,10 +159,14 @@ const DocumentChatDialog: React.FC<DocumentChatDialogProps> = ({
           <ScrollArea ref={scrollAreaRef} className="flex-1 pr-4">
             <div className="space-y-4 p-2">
               {messages.map((message, index) => (
-                <ProjectChatMessage key={index} message={message} />
+                <ProjectChatMessage
+                  key={index}
+                  message={message}
+                  isStreaming={isStreaming && index === messages.length - 1}
+                />
               ))}
               
-              {isLoading && (
+              {isLoading && !isStreaming && (
                 <div className="flex justify-start">
                   <div className="bg-muted rounded-lg p-3">
                     <Loader2 className="h-5 w-5 animate-spin" />
@@ -156,13 +186,24 @@ const DocumentChatDialog: React.FC<DocumentChatDialogProps> = ({
                 onKeyDown={handleKeyDown}
                 disabled={isLoading}
               />
-              <Button
-                onClick={handleSendMessage}
-                disabled={isLoading || !messageInput.trim()}
-                className="px-3"
-              >
-                <SendHorizontal className="h-5 w-5" />
-              </Button>
+              {isLoading ? (
+                <Button
+                  onClick={handleCancel}
+                  variant="outline"
+                  className="px-3"
+                  aria-label="Stop generating"
+                >
+                  <Square className="h-4 w-4 fill-current" />
+                </Button>
+              ) : (
+                <Button
+                  onClick={handleSendMessage}
+                  disabled={!messageInput.trim()}
+                  className="px-3"
+                >
+                  <SendHorizontal className="h-5 w-5" />
+                </Button>
+              )}
             </div>
             <p className="text-xs text-muted-foreground mt-2">
               Press Enter to send. Use Shift+Enter for a new line.
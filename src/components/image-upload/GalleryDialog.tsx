@@ -10,25 +10,20 @@ import {
 import ImageGrid from './ImageGrid';
 import { Image } from 'lucide-react';
 import { useState, useEffect } from 'react';
+import { UploadedImage } from '@/types/project';
 
-export interface UploadedImage {
-  url: string;
-  path: string;
-  size: number;
-  name: string;
-  createdAt: Date;
-  tags?: Array<{ id: string; tag: string }>;
-  summary?: string;
-}
+export type { UploadedImage };
 
 interface GalleryDialogProps {
   isOpen: boolean;
   onOpenChange: (open: boolean) => void;
   uploadedImages: UploadedImage[];
   isLoading: boolean;
-  onDeleteImage: (imagePath: string) => Promise<void>;
+  onDeleteImage?: (imagePath: string) => Promise<void>;
   projectId: string;
   onImageRenamed?: () => void;
+  // Pre-fill the search with this image name when the dialog opens
+  focusImageName?: string;
 }
 
 const GalleryDialog: React.FC<GalleryDialogProps> = ({
@@ -38,7 +33,8 @@ const GalleryDialog: React.FC<GalleryDialogProps> = ({
   isLoading,
   onDeleteImage,
   projectId,
-  onImageRenamed
+  onImageRenamed,
+  focusImageName
 }) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
@@ -53,6 +49,13 @@ const GalleryDialog: React.FC<GalleryDialogProps> = ({
     )
   );
 
+  useEffect(() => {
+    if (isOpen && focusImageName) {
+      setSearchQuery(focusImageName);
+      setSelectedTags([]);
+    }
+  }, [isOpen, focusImageName]);
+
   // Filter images when search query or selected tags change
   useEffect(() => {
     let filtered = [...uploadedImages];
@@ -60,8 +63,9 @@ const GalleryDialog: React.FC<GalleryDialogProps> = ({
     // Apply search filter
     if (searchQuery) {
       const query = searchQuery.toLowerCase();
+      // Citations refer to images by their file in storage, which keeps its name on rename
       filtered = filtered.filter(img => 
-        img.name.toLowerCase().includes(query)
+        img.name.toLowerCase().includes(query) || img.path.toLowerCase().includes(query)
       );
     }
     
@@ -26,7 +26,7 @@ import ImageFilters from './ImageFilters';
 interface ImageGridProps {
   uploadedImages: UploadedImage[];
   isLoading: boolean;
-  onDeleteImage: (imagePath: string) => Promise<void>;
+  onDeleteImage?: (imagePath: string) => Promise<void>;
   projectId: string;
   onImageRenamed?: () => void;
   inGalleryDialog?: boolean;
@@ -92,7 +92,7 @@ const ImageGrid: React.FC<ImageGridProps> = ({
     if (!imageToRename) return false;
     
     const success = await renameImage(
-      imageToRename.path,
+      imageToRename.id,
       imageToRename.name,
       newName
     );
@@ -148,30 +148,32 @@ const ImageGrid: React.FC<ImageGridProps> = ({
       ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
           {filteredImages.map((image) => (
-            <Card key={image.path} className="overflow-hidden">
+            <Card key={image.id} className="overflow-hidden">
               <div className="relative h-48 sm:h-40">
                 <img 
                   src={image.url} 
                   alt={image.name} 
                   className="w-full h-full object-cover" 
                 />
-                <div className="absolute top-2 right-2 flex space-x-1">
-                  <TooltipProvider>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <Button 
-                          variant="destructive" 
-                          size="icon"
-                          className="h-7 w-7 opacity-80 hover:opacity-100"
-                          onClick={() => onDeleteImage(image.path)}
-                        >
-                          <Trash2 className="h-3 w-3" />
-                        </Button>
-                      </TooltipTrigger>
-                      <TooltipContent>Delete</TooltipContent>
-                    </Tooltip>
-                  </TooltipProvider>
-                </div>
+                {onDeleteImage && (
+                  <div className="absolute top-2 right-2 flex space-x-1">
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button 
+                            variant="destructive" 
+                            size="icon"
+                            className="h-7 w-7 opacity-80 hover:opacity-100"
+                            onClick={() => onDeleteImage(image.path)}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>Delete</TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </div>
+                )}
               </div>
               <CardContent className="p-3">
                 <div className="truncate">
@@ -197,6 +199,7 @@ const ImageGrid: React.FC<ImageGridProps> = ({
                   </div>
                   <p className="text-muted-foreground text-xs">
                     {formatFileSize(image.size)}
+                    {image.width && image.height ? ` · ${image.width} × ${image.height}` : ''}
                   </p>
                   {image.tags && image.tags.length > 0 && (
                     <div className="flex flex-wrap gap-1 mt-1">
@@ -216,13 +219,15 @@ const ImageGrid: React.FC<ImageGridProps> = ({
                 
                 <div className="flex flex-wrap gap-2 mt-3">
                   <ImageSummaryButton 
+                    imageId={image.id}
                     imageUrl={image.url}
                     imageName={image.name}
                   />
                   
                   <ImageTagManager 
+                    imageId={image.id}
                     imageUrl={image.url}
-                    projectId={image.path.split('/')[0]}
+                    projectId={projectId}
                   />
                     
                   <Button
@@ -2,8 +2,11 @@
 import { useState, useCallback, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
-import { compressImage, sanitizeFileName } from './utils/imageProcessing';
+import { compressImage, getImageDimensions, sanitizeFileName } from './utils/imageProcessing';
 import { UploadedImage } from './GalleryDialog';
+import { IMAGES_BUCKET, createProjectImage, fetchProjectImageRecords } from '@/utils/imageUtils';
+import { moveToTrash } from '@/utils/trashUtils';
+import { useQuotaPrompt } from '@/hooks/useQuotaPrompt';
 
 interface UseImageUploadProps {
   projectId: string;
@@ -12,7 +15,6 @@ interface UseImageUploadProps {
   maxHeight?: number;
   maxSizeInMB?: number;
   onUploadComplete?: (imageUrl: string, imagePath: string) => void;
-  deletedImagePaths?: string[];
 }
 
 export const useImageUpload = ({
@@ -21,8 +23,7 @@ export const useImageUpload = ({
   maxWidth = 1200,
   maxHeight = 1200,
   maxSizeInMB = 2,
-  onUploadComplete,
-  deletedImagePaths = []
+  onUploadComplete
 }: UseImageUploadProps) => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [preview, setPreview] = useState<string | null>(null);
@@ -33,90 +34,23 @@ export const useImageUpload = ({
   const [isGalleryDialogOpen, setIsGalleryDialogOpen] = useState(true);
   const [isLoading, setIsLoading] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [localDeletedImagePaths, setLocalDeletedImagePaths] = useState<string[]>(deletedImagePaths);
-
-  // Sync with parent component's deletedImagePaths
-  useEffect(() => {
-    setLocalDeletedImagePaths(deletedImagePaths);
-  }, [deletedImagePaths]);
+  const promptQuota = useQuotaPrompt();
 
   const maxSizeInBytes = maxSizeInMB * 1024 * 1024;
 
-  // Update deleted paths in localStorage when they change
-  useEffect(() => {
-    if (projectId) {
-      localStorage.setItem(`deletedImages-${projectId}`, JSON.stringify(localDeletedImagePaths));
-    }
-  }, [localDeletedImagePaths, projectId]);
-
   const fetchUploadedImages = useCallback(async () => {
     if (!projectId || !userId) return;
 
     try {
       setIsLoading(true);
-      
-      const { data, error } = await supabase
-        .storage
-        .from('project_images')
-        .list(`${projectId}`);
-
-      if (error) throw error;
-
-      if (data) {
-        console.log('useImageUpload fetched images:', data.length);
-        console.log('useImageUpload deleted paths:', localDeletedImagePaths);
-        
-        const imagesWithPaths = await Promise.all(
-          data.map(async (item) => {
-            const imagePath = `${projectId}/${item.name}`;
-            
-            // Skip this image if it's in our deletedImagePaths array
-            if (localDeletedImagePaths.includes(imagePath)) {
-              console.log('useImageUpload skipping deleted image:', imagePath);
-              return null;
-            }
-
-            const { data: urlData } = await supabase
-              .storage
-              .from('project_images')
-              .getPublicUrl(imagePath);
-
-            const imageUrl = urlData.publicUrl;
-            
-            const { data: tagData, error: tagError } = await supabase
-              .from('image_tags')
-              .select('*')
-              .eq('image_url', imageUrl)
-              .eq('project_id', projectId);
-
-            if (tagError) {
-              console.error('Error fetching tags for image:', tagError);
-            }
-
-            return {
-              url: imageUrl,
-              path: imagePath,
-              size: item.metadata?.size || 0,
-              name: item.name,
-              createdAt: new Date(item.created_at || Date.now()),
-              tags: tagData || []
-            };
-          })
-        );
-
-        // Filter out null values (deleted images)
-        const filteredImages = imagesWithPaths.filter(img => img !== null) as UploadedImage[];
-        console.log('useImageUpload processed images after filtering:', filteredImages.length);
-        
-        setUploadedImages(filteredImages);
-      }
-    } catch (error: any) {
+      setUploadedImages(await fetchProjectImageRecords(projectId));
+    } catch (error) {
       console.error('Error fetching images:', error);
       toast.error('Failed to load uploaded images');
     } finally {
       setIsLoading(false);
     }
-  }, [projectId, userId, localDeletedImagePaths]);
+  }, [projectId, userId]);
 
   useEffect(() => {
     if (projectId && userId) {
@@ -166,32 +100,53 @@ export const useImageUpload = ({
       setUploadProgress(10);
       
       const compressedImage = await compressImage(selectedFile, maxWidth, maxHeight);
+      const dimensions = await getImageDimensions(compressedImage).catch(() => null);
       setUploadProgress(40);
 
+      // Check the brain owner's storage before uploading anything
+      const { error: quotaError } = await supabase.rpc('check_upload_quota', {
+        p_project_id: projectId,
+        p_bytes: compressedImage.size,
+        p_is_document: false
+      });
+      if (quotaError) throw quotaError;
+
       const sanitizedFileName = sanitizeFileName(`${Date.now()}-${selectedFile.name}`);
       const filePath = `${projectId}/${sanitizedFileName}`;
       
-      const { data, error } = await supabase
+      const { error } = await supabase
         .storage
-        .from('project_images')
+        .from(IMAGES_BUCKET)
         .upload(filePath, compressedImage, {
           cacheControl: '3600',
           upsert: false,
         });
       
-      setUploadProgress(90);
+      setUploadProgress(80);
 
       if (error) throw error;
 
-      const { data: urlData } = await supabase
-        .storage
-        .from('project_images')
-        .getPublicUrl(filePath);
+      let image: UploadedImage;
+      try {
+        image = await createProjectImage({
+          projectId,
+          userId,
+          storagePath: filePath,
+          fileName: selectedFile.name,
+          file: compressedImage,
+          width: dimensions?.width,
+          height: dimensions?.height
+        });
+      } catch (recordError) {
+        // Without its record nobody can see the file, so do not leave it behind
+        await supabase.storage.from(IMAGES_BUCKET).remove([filePath]);
+        throw recordError;
+      }
 
       setUploadProgress(100);
       
       if (onUploadComplete) {
-        onUploadComplete(urlData.publicUrl, filePath);
+        onUploadComplete(image.url, filePath);
       }
       
       toast.success('Image uploaded successfully');
@@ -203,7 +158,9 @@ export const useImageUpload = ({
     } catch (error: any) {
       console.error('Error uploading image:', error);
       setErrorMessage(error.message || 'Failed to upload image');
-      toast.error('Failed to upload image: ' + (error.message || 'Unknown error'));
+      if (!(await promptQuota(error))) {
+        toast.error('Failed to upload image: ' + (error.message || 'Unknown error'));
+      }
     } finally {
       setIsUploading(false);
     }
@@ -216,7 +173,6 @@ export const useImageUpload = ({
     if (!confirmed) return;
     
     try {
-      // First, find the image and its URL in our local state
       const imageToDelete = uploadedImages.find(img => img.path === imagePath);
       
       if (!imageToDelete) {
@@ -224,51 +180,11 @@ export const useImageUpload = ({
         return;
       }
       
-      // Delete the image from storage
-      const { error: storageError } = await supabase
-        .storage
-        .from('project_images')
-        .remove([imagePath]);
-        
-      if (storageError) throw storageError;
-      
-      // Delete any tags associated with this image
-      const { error: tagError } = await supabase
-        .from('image_tags')
-        .delete()
-        .eq('image_url', imageToDelete.url)
-        .eq('project_id', projectId);
-      
-      if (tagError) {
-        console.error('Error deleting image tags:', tagError);
-      }
+      await moveToTrash('image', imageToDelete.id);
       
-      // Delete any summaries associated with this image
-      const { error: summaryError } = await supabase
-        .from('image_summaries')
-        .delete()
-        .eq('image_url', imageToDelete.url)
-        .eq('project_id', projectId);
-      
-      if (summaryError) {
-        console.error('Error deleting image summary:', summaryError);
-      }
-      
-      // Update our local state by filtering out the deleted image
-      setUploadedImages(prev => prev.filter(img => img.path !== imagePath));
-      
-      // Add the path to our deletedImagePaths array to prevent it from reappearing
-      const updatedDeletedPaths = [...localDeletedImagePaths, imagePath];
-      setLocalDeletedImagePaths(updatedDeletedPaths);
-      
-      // Persist to localStorage
-      localStorage.setItem(`deletedImages-${projectId}`, JSON.stringify(updatedDeletedPaths));
-      
-      console.log('Image deleted successfully:', imagePath);
-      console.log('Updated deleted paths:', updatedDeletedPaths);
-      
-      toast.success('Image deleted successfully');
-    } catch (error: any) {
+      setUploadedImages(prev => prev.filter(img => img.id !== imageToDelete.id));
+      toast.success('Image moved to trash');
+    } catch (error) {
       console.error('Error deleting image:', error);
       toast.error('Failed to delete image');
     }
@@ -71,3 +71,25 @@ export const sanitizeFileName = (fileName: string): string => {
     
   return `${sanitized}.${ext}`;
 };
+
+/**
+ * Reads the pixel dimensions of an image
+ */
+export const getImageDimensions = (image: Blob): Promise<{ width: number; height: number }> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(image);
+    const img = new window.Image();
+    
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    };
+    
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to load image'));
+    };
+    
+    img.src = url;
+  });
+};
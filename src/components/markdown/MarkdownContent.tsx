@@ -0,0 +1,88 @@
+import React, { useMemo } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import { cn } from '@/lib/utils';
+import { isExternalLink, markdownRehypePlugins, markdownRemarkPlugins } from '@/utils/markdown';
+import { LinkTarget, noteLinkLabel, resolveLinkTarget } from '@/utils/noteLinks';
+
+interface MarkdownContentProps {
+  content: string | null;
+  className?: string;
+  // Shown instead when there is no content
+  emptyText?: string;
+  // Follows a [[link]]; without it links between notes are shown as text
+  onNoteLinkClick?: (label: string) => void;
+  // When given, [[links]] to names nothing in the brain has are greyed out
+  linkTargets?: LinkTarget[];
+}
+
+// Renders notes, summaries and chat answers through the shared, sanitised
+// Markdown pipeline (see utils/markdown.ts)
+const MarkdownContent: React.FC<MarkdownContentProps> = ({
+  content,
+  className,
+  emptyText,
+  onNoteLinkClick,
+  linkTargets
+}) => {
+  const components = useMemo<Components>(() => ({
+    a: ({ node: _node, href, children, ...props }) => {
+      const label = noteLinkLabel(href);
+
+      if (label !== null && !onNoteLinkClick) return <span>{children}</span>;
+
+      if (label !== null) {
+        const missing = linkTargets && !resolveLinkTarget(linkTargets, label);
+        return (
+          <a
+            href={href}
+            title={missing ? `Nothing in this brain is called "${label}" yet` : label}
+            className={cn(
+              'no-underline border-b border-dashed',
+              missing ? 'text-muted-foreground border-muted-foreground/50' : 'border-primary/60'
+            )}
+            onClick={e => {
+              e.preventDefault();
+              if (!missing) onNoteLinkClick(label);
+            }}
+          >
+            {children}
+          </a>
+        );
+      }
+
+      return (
+        <a
+          href={href}
+          {...(isExternalLink(href) ? { target: '_blank', rel: 'noopener noreferrer' } : {})}
+          {...props}
+        >
+          {children}
+        </a>
+      );
+    },
+    img: ({ node: _node, alt, ...props }) => <img alt={alt || ''} loading="lazy" {...props} />,
+    table: ({ node: _node, ...props }) => (
+      <div className="overflow-x-auto">
+        <table {...props} />
+      </div>
+    ),
+  }), [onNoteLinkClick, linkTargets]);
+
+  if (!content) {
+    return emptyText ? <div className="text-muted-foreground italic">{emptyText}</div> : null;
+  }
+
+  return (
+    <div className={cn('prose prose-sm max-w-none break-words overflow-wrap-anywhere', className)}>
+      <ReactMarkdown
+        remarkPlugins={markdownRemarkPlugins}
+        rehypePlugins={markdownRehypePlugins}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+};
+
+export default MarkdownContent;
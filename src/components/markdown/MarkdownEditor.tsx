@@ -0,0 +1,294 @@
+import React, { useRef, useState } from 'react';
+import {
+  Bold,
+  Code,
+  Columns2,
+  Eye,
+  Heading2,
+  Image,
+  Italic,
+  Link,
+  List,
+  ListChecks,
+  ListOrdered,
+  PenLine,
+  Quote,
+  SquareCode,
+  Strikethrough,
+  Table,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+import {
+  MarkdownAction,
+  TextEdit,
+  applyMarkdownAction,
+  findSlashCommand,
+  matchSlashCommands,
+  runSlashCommand,
+} from '@/utils/markdownEditing';
+import { LinkTarget, LinkTargetType, findLinkQuery, insertNoteLink, matchLinkTargets } from '@/utils/noteLinks';
+import MarkdownContent from './MarkdownContent';
+
+type EditorView = 'write' | 'split' | 'preview';
+
+interface MarkdownEditorProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+  // Names offered after typing "[[", to link to other notes, documents and images
+  linkTargets?: LinkTarget[];
+}
+
+// What is being typed: a "/" command or the name of a [[link]]
+interface EditorMenu {
+  kind: 'command' | 'link';
+  start: number;
+  query: string;
+}
+
+interface Suggestion {
+  key: string;
+  label: string;
+  detail?: string;
+  edit: (caret: number) => TextEdit;
+}
+
+const TARGET_LABELS: Record<LinkTargetType, string> = {
+  note: 'Note',
+  document: 'Document',
+  image: 'Image',
+};
+
+const TOOLBAR: { action: MarkdownAction; label: string; icon: React.ElementType }[][] = [
+  [
+    { action: 'bold', label: 'Bold', icon: Bold },
+    { action: 'italic', label: 'Italic', icon: Italic },
+    { action: 'strikethrough', label: 'Strikethrough', icon: Strikethrough },
+    { action: 'code', label: 'Inline code', icon: Code },
+    { action: 'link', label: 'Link', icon: Link },
+  ],
+  [
+    { action: 'heading2', label: 'Heading', icon: Heading2 },
+    { action: 'quote', label: 'Quote', icon: Quote },
+    { action: 'bulletList', label: 'Bulleted list', icon: List },
+    { action: 'numberedList', label: 'Numbered list', icon: ListOrdered },
+    { action: 'checklist', label: 'Checklist', icon: ListChecks },
+  ],
+  [
+    { action: 'codeBlock', label: 'Code block', icon: SquareCode },
+    { action: 'table', label: 'Table', icon: Table },
+    { action: 'image', label: 'Image', icon: Image },
+  ],
+];
+
+// Markdown textarea with a formatting toolbar, "/" commands at the start of a
+// line, [[link]] completion, and a preview next to or instead of the text
+const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
+  id,
+  value,
+  onChange,
+  placeholder,
+  className,
+  linkTargets = []
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [view, setView] = useState<EditorView>('write');
+  const [menu, setMenu] = useState<EditorMenu | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestionsFor = (current: EditorMenu | null, text: string): Suggestion[] => {
+    if (!current) return [];
+
+    if (current.kind === 'link') {
+      return matchLinkTargets(linkTargets, current.query).map(target => ({
+        key: `${target.type}-${target.id}`,
+        label: target.name,
+        detail: TARGET_LABELS[target.type],
+        edit: caret => insertNoteLink(text, current, caret, target.name),
+      }));
+    }
+
+    return matchSlashCommands(current.query).map(command => ({
+      key: command.action,
+      label: command.label,
+      edit: caret => runSlashCommand(text, current, caret, command.action),
+    }));
+  };
+
+  const suggestions = suggestionsFor(menu, value);
+
+  const applyEdit = (edit: TextEdit) => {
+    onChange(edit.text);
+    setMenu(null);
+
+    // Restore the selection once React has rendered the new value
+    requestAnimationFrame(() => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+      textarea.focus();
+      textarea.setSelectionRange(edit.selection.start, edit.selection.end);
+    });
+  };
+
+  const handleAction = (action: MarkdownAction) => {
+    const textarea = textareaRef.current;
+    const selection = textarea
+      ? { start: textarea.selectionStart, end: textarea.selectionEnd }
+      : { start: value.length, end: value.length };
+
+    if (view === 'preview') setView('write');
+    applyEdit(applyMarkdownAction(value, selection, action));
+  };
+
+  const handleSuggestion = (suggestion: Suggestion) => {
+    applyEdit(suggestion.edit(textareaRef.current?.selectionStart ?? value.length));
+  };
+
+  const updateMenu = (text: string, caret: number) => {
+    const link = linkTargets.length > 0 ? findLinkQuery(text, caret) : null;
+    const command = findSlashCommand(text, caret);
+    const next: EditorMenu | null = link
+      ? { kind: 'link', ...link }
+      : command && { kind: 'command', ...command };
+
+    setMenu(next && suggestionsFor(next, text).length > 0 ? next : null);
+    setActiveIndex(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!menu || suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((activeIndex + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      handleSuggestion(suggestions[activeIndex]);
+    } else if (e.key === 'Escape') {
+      // Only close the menu, not the dialog around the editor
+      e.preventDefault();
+      e.stopPropagation();
+      setMenu(null);
+    }
+  };
+
+  const showEditor = view !== 'preview';
+  const showPreview = view !== 'write';
+
+  return (
+    <div className={cn('rounded-md border', className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b bg-muted/30 px-2 py-1">
+        <TooltipProvider>
+          <div className="flex flex-wrap items-center">
+            {TOOLBAR.map((group, groupIndex) => (
+              <div key={groupIndex} className={cn('flex items-center', groupIndex > 0 && 'ml-1 pl-1 border-l')}>
+                {group.map(({ action, label, icon: Icon }) => (
+                  <Tooltip key={action}>
+                    <TooltipTrigger asChild>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        aria-label={label}
+                        onMouseDown={e => e.preventDefault()}
+                        onClick={() => handleAction(action)}
+                      >
+                        <Icon className="h-4 w-4" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>{label}</TooltipContent>
+                  </Tooltip>
+                ))}
+              </div>
+            ))}
+          </div>
+        </TooltipProvider>
+
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={view}
+          onValueChange={next => next && setView(next as EditorView)}
+        >
+          <ToggleGroupItem value="write" aria-label="Write" className="h-8 px-2">
+            <PenLine className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="split" aria-label="Write and preview side by side" className="h-8 px-2 hidden sm:inline-flex">
+            <Columns2 className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="preview" aria-label="Preview" className="h-8 px-2">
+            <Eye className="h-4 w-4" />
+          </ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <div className={cn('grid', view === 'split' && 'sm:grid-cols-2 sm:divide-x')}>
+        {showEditor && (
+          <div className="relative">
+            <Textarea
+              ref={textareaRef}
+              id={id}
+              placeholder={placeholder}
+              value={value}
+              onChange={e => {
+                onChange(e.target.value);
+                updateMenu(e.target.value, e.target.selectionStart);
+              }}
+              onKeyDown={handleKeyDown}
+              onBlur={() => setMenu(null)}
+              className="min-h-[240px] max-h-[50vh] rounded-none border-0 font-mono text-sm focus-visible:ring-0 focus-visible:ring-offset-0"
+            />
+
+            {menu && suggestions.length > 0 && (
+              <div
+                role="listbox"
+                aria-label={menu.kind === 'link' ? 'Link to' : 'Insert block'}
+                className="absolute left-2 bottom-2 z-10 w-56 max-h-60 overflow-y-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+              >
+                {suggestions.map((suggestion, index) => (
+                  <button
+                    key={suggestion.key}
+                    type="button"
+                    role="option"
+                    aria-selected={index === activeIndex}
+                    onMouseDown={e => e.preventDefault()}
+                    onClick={() => handleSuggestion(suggestion)}
+                    className={cn(
+                      'flex w-full items-center rounded-sm px-2 py-1.5 text-sm text-left',
+                      index === activeIndex ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50'
+                    )}
+                  >
+                    <span className="truncate">{suggestion.label}</span>
+                    {suggestion.detail && (
+                      <span className="ml-auto pl-2 text-xs text-muted-foreground">{suggestion.detail}</span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {showPreview && (
+          <div className="min-h-[240px] max-h-[50vh] overflow-y-auto px-3 py-2">
+            <MarkdownContent content={value} emptyText="Nothing to preview yet." />
+          </div>
+        )}
+      </div>
+
+      <div className="border-t px-3 py-1.5 text-xs text-muted-foreground">
+        Markdown is supported. Type / at the start of a line for tables, checklists, code blocks and more{linkTargets.length > 0 && ', or [[ to link to a note, document or image'}.
+      </div>
+    </div>
+  );
+};
+
+export default MarkdownEditor;
@@ -11,6 +11,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Loader2 } from 'lucide-react';
+import { isProjectRole, MEMBER_ROLES, ROLE_DESCRIPTIONS, ROLE_LABELS } from '@/utils/permissions';
 
 interface MemberInviteFormProps {
   email: string;
@@ -58,13 +59,15 @@ const MemberInviteForm: React.FC<MemberInviteFormProps> = ({
             <SelectValue placeholder="Select a role" />
           </SelectTrigger>
           <SelectContent>
-            <SelectItem value="admin">Admin</SelectItem>
-            <SelectItem value="editor">Editor</SelectItem>
-            <SelectItem value="viewer">Viewer</SelectItem>
+            {MEMBER_ROLES.map(memberRole => (
+              <SelectItem key={memberRole} value={memberRole}>{ROLE_LABELS[memberRole]}</SelectItem>
+            ))}
           </SelectContent>
         </Select>
         <p className="text-xs text-muted-foreground">
-          Admins can manage members, Editors can edit content, Viewers can only view
+          {isProjectRole(role)
+            ? ROLE_DESCRIPTIONS[role]
+            : 'Admins can manage members, Editors can edit content, Viewers can only view'}
         </p>
       </div>
       
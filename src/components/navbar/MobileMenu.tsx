@@ -2,7 +2,7 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { cn } from "@/lib/utils";
-import { User, LogOut, LayoutDashboard, Link2 } from "lucide-react";
+import { User, LogOut, LayoutDashboard, Link2, Trash2 } from "lucide-react";
 import { useAuth } from '@/contexts/AuthContext';
 
 type MobileMenuProps = {
@@ -24,6 +24,11 @@ const MobileMenu = ({ isOpen, onProfileClick, onSignOutClick }: MobileMenuProps)
       name: 'Integrations',
       path: '/integrations',
       icon: <Link2 className="h-4 w-4 mr-2" />
+    },
+    {
+      name: 'Trash',
+      path: '/trash',
+      icon: <Trash2 className="h-4 w-4 mr-2" />
     }
   ];
 
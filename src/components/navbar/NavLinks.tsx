@@ -2,7 +2,7 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { Button } from "@/components/ui/button";
-import { LayoutDashboard, Link2 } from "lucide-react";
+import { LayoutDashboard, Link2, Trash2 } from "lucide-react";
 
 const NavLinks = () => {
   const location = useLocation();
@@ -17,6 +17,11 @@ const NavLinks = () => {
       name: 'Integrations',
       path: '/integrations',
       icon: <Link2 className="h-4 w-4 mr-2" />
+    },
+    {
+      name: 'Trash',
+      path: '/trash',
+      icon: <Trash2 className="h-4 w-4 mr-2" />
     }
   ];
 
@@ -14,7 +14,8 @@ import { useSubscription } from '@/hooks/useSubscription';
 import SubscriptionDialog from '@/components/subscription/SubscriptionDialog';
 import UserAvatar from './UserAvatar';
 import UserProfileInfo from './UserProfileInfo';
-import UserStatsManager, { getUserStats } from './UserStatsManager';
+import UserStatsManager from './UserStatsManager';
+import { getUserStats } from '@/utils/userStatsStore';
 import ProfileFooter from './ProfileFooter';
 
 type ProfileDialogProps = {
@@ -27,7 +28,7 @@ const ProfileDialog = ({ open, onOpenChange, onOpenSettings }: ProfileDialogProp
   const { user, profile, signOut } = useAuth();
   const [subscriptionDialogOpen, setSubscriptionDialogOpen] = useState(false);
   const { planDetails, isLoading: subscriptionLoading } = useSubscription();
-  const { apiCalls, ownedBrains, sharedBrains } = getUserStats();
+  const { apiCalls, ownedBrains, sharedBrains, usage, quotas } = getUserStats();
 
   const handleSignOut = async () => {
     try {
@@ -90,6 +91,8 @@ const ProfileDialog = ({ open, onOpenChange, onOpenSettings }: ProfileDialogProp
         onOpenChange={setSubscriptionDialogOpen}
         userBrainCount={ownedBrains + sharedBrains}
         apiCallsUsed={apiCalls}
+        usage={usage}
+        quotas={quotas}
       />
     </>
   );
@@ -2,6 +2,9 @@
 import React from 'react';
 import { Loader2, AlertCircle, Brain, FileText, Zap, Users } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
+import UsageCharts from '@/components/subscription/UsageCharts';
+import { UsageBreakdown } from '@/types/user';
+import { formatCost } from '@/utils/usageFormat';
 
 type ProfileStatsProps = {
   isLoading: boolean;
@@ -11,6 +14,7 @@ type ProfileStatsProps = {
   ownedBrains?: number;
   sharedBrains?: number;
   documents?: number;
+  usage?: UsageBreakdown | null;
 };
 
 const ProfileStats = ({ 
@@ -20,7 +24,8 @@ const ProfileStats = ({
   dailyApiCalls,
   ownedBrains = 0, 
   sharedBrains = 0, 
-  documents = 0 
+  documents = 0,
+  usage
 }: ProfileStatsProps) => {
   if (isLoading) {
     return (
@@ -79,7 +84,10 @@ const ProfileStats = ({
             <Zap className="h-4 w-4 text-primary" />
             <span className="text-sm font-medium">AI API Calls (Today)</span>
           </div>
-          <span className="text-sm">{dailyApiCalls}</span>
+          <span className="text-sm">
+            {dailyApiCalls}
+            {usage && <span className="text-muted-foreground"> · {formatCost(usage.today.costUsd)}</span>}
+          </span>
         </div>
         
         <div className="flex justify-between p-3 bg-muted rounded-md">
@@ -87,12 +95,19 @@ const ProfileStats = ({
             <Zap className="h-4 w-4 text-primary" />
             <span className="text-sm font-medium">AI API Calls (This Month)</span>
           </div>
-          <span className="text-sm">{apiCalls}</span>
+          <span className="text-sm">
+            {apiCalls}
+            {usage && <span className="text-muted-foreground"> · {formatCost(usage.totals.costUsd)}</span>}
+          </span>
         </div>
       </div>
       <p className="text-xs text-muted-foreground">
-        AI calls are used for document/note summarization and chat responses.
+        AI calls are used for document/note summarization and chat responses. Costs are estimates.
       </p>
+      <div className="pt-2">
+        <div className="text-sm font-medium mb-2">AI Usage This Month</div>
+        <UsageCharts usage={usage} compact />
+      </div>
     </div>
   );
 };
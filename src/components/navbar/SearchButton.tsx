@@ -0,0 +1,31 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Search } from "lucide-react";
+import { useAuth } from '@/contexts/AuthContext';
+import { useSearch } from '@/contexts/SearchContext';
+
+const SearchButton = () => {
+  const { user } = useAuth();
+  const { openSearch } = useSearch();
+
+  if (!user) return null;
+
+  const shortcut = /Mac|iPhone|iPad/.test(navigator.platform) ? '⌘K' : 'Ctrl K';
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={openSearch}
+      className="flex items-center gap-2 text-muted-foreground"
+    >
+      <Search className="h-4 w-4" />
+      <span>Search</span>
+      <kbd className="hidden lg:inline-flex h-5 items-center rounded border bg-muted px-1.5 font-mono text-[10px]">
+        {shortcut}
+      </kbd>
+    </Button>
+  );
+};
+
+export default SearchButton;
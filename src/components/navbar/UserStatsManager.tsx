@@ -1,6 +1,7 @@
 
 import React, { useEffect, useState } from 'react';
-import { UserStats } from '@/types/user';
+import { UsageBreakdown } from '@/types/user';
+import { storeUserStats } from '@/utils/userStatsStore';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import ProfileStats from './ProfileStats';
@@ -10,19 +11,6 @@ interface UserStatsManagerProps {
   isOpen: boolean;
 }
 
-// Initialize global stats with default values
-let globalUserStats: UserStats = {
-  apiCalls: 0,
-  dailyApiCalls: 0,
-  ownedBrains: 0,
-  sharedBrains: 0,
-  documents: 0
-};
-
-export const getUserStats = (): UserStats => {
-  return globalUserStats;
-};
-
 const UserStatsManager: React.FC<UserStatsManagerProps> = ({ userId, isOpen }) => {
   const [statsLoading, setStatsLoading] = useState(true);
   const [apiCalls, setApiCalls] = useState(0);
@@ -30,6 +18,7 @@ const UserStatsManager: React.FC<UserStatsManagerProps> = ({ userId, isOpen }) =
   const [ownedBrainCount, setOwnedBrainCount] = useState(0);
   const [sharedBrainCount, setSharedBrainCount] = useState(0);
   const [documentCount, setDocumentCount] = useState(0);
+  const [usage, setUsage] = useState<UsageBreakdown | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -65,25 +54,14 @@ const UserStatsManager: React.FC<UserStatsManagerProps> = ({ userId, isOpen }) =
           return;
         }
         
-        const apiCallsCount = data.apiCalls ?? 0;
-        const dailyApiCallsCount = data.dailyApiCalls ?? 0;
-        const ownedBrains = data.ownedBrains ?? 0;
-        const sharedBrains = data.sharedBrains ?? 0;
-        const docs = data.documents ?? 0;
-        
-        setApiCalls(apiCallsCount);
-        setDailyApiCalls(dailyApiCallsCount);
-        setOwnedBrainCount(ownedBrains);
-        setSharedBrainCount(sharedBrains);
-        setDocumentCount(docs);
+        const stats = storeUserStats(data);
         
-        globalUserStats = {
-          apiCalls: apiCallsCount,
-          dailyApiCalls: dailyApiCallsCount,
-          ownedBrains: ownedBrains,
-          sharedBrains: sharedBrains,
-          documents: docs
-        };
+        setApiCalls(stats.apiCalls);
+        setDailyApiCalls(stats.dailyApiCalls);
+        setOwnedBrainCount(stats.ownedBrains);
+        setSharedBrainCount(stats.sharedBrains);
+        setDocumentCount(stats.documents);
+        setUsage(stats.usage);
         
       } catch (error) {
         console.error('Error fetching user stats:', error);
@@ -106,6 +84,7 @@ const UserStatsManager: React.FC<UserStatsManagerProps> = ({ userId, isOpen }) =
       ownedBrains={ownedBrainCount}
       sharedBrains={sharedBrainCount}
       documents={documentCount}
+      usage={usage}
     />
   );
 };
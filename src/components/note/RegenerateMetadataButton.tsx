@@ -15,14 +15,16 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useRegenerateNoteMetadata } from '@/hooks/useRegenerateNoteMetadata';
+import { DEFAULT_MODEL, ModelType } from '@/utils/aiPrompts';
 
 interface RegenerateMetadataButtonProps {
   noteContent: string | null;
   onRegenerateTitle: (title: string) => void;
   onRegenerateTags: (tags: string[]) => void;
   onRegenerateBoth: (data: { title: string; tags: string[] }) => void;
-  model?: 'claude' | 'openai';
-  onModelChange?: (model: 'claude' | 'openai') => void;
+  model?: ModelType;
+  onModelChange?: (model: ModelType) => void;
+  projectId?: string;
 }
 
 const RegenerateMetadataButton: React.FC<RegenerateMetadataButtonProps> = ({
@@ -30,8 +32,9 @@ const RegenerateMetadataButton: React.FC<RegenerateMetadataButtonProps> = ({
   onRegenerateTitle,
   onRegenerateTags,
   onRegenerateBoth,
-  model = 'claude',
-  onModelChange
+  model = DEFAULT_MODEL,
+  onModelChange,
+  projectId
 }) => {
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   
@@ -40,7 +43,7 @@ const RegenerateMetadataButton: React.FC<RegenerateMetadataButtonProps> = ({
     regenerateTitle,
     regenerateTags,
     regenerateBoth
-  } = useRegenerateNoteMetadata({ model });
+  } = useRegenerateNoteMetadata({ model, projectId });
 
   const handleRegenerateTitle = async () => {
     const title = await regenerateTitle(noteContent);
@@ -6,9 +6,10 @@ import { FileText, PlusCircle } from 'lucide-react';
 
 interface EmptyNotesListProps {
   onCreateNote: () => void;
+  readOnly?: boolean;
 }
 
-const EmptyNotesList: React.FC<EmptyNotesListProps> = ({ onCreateNote }) => {
+const EmptyNotesList: React.FC<EmptyNotesListProps> = ({ onCreateNote, readOnly = false }) => {
   return (
     <Card className="bg-gradient-to-b from-muted/30 to-muted/50 border-dashed border-2">
       <CardContent className="flex flex-col items-center justify-center py-12">
@@ -17,12 +18,16 @@ const EmptyNotesList: React.FC<EmptyNotesListProps> = ({ onCreateNote }) => {
         </div>
         <h3 className="text-lg font-medium text-slate-700 mb-2">No notes yet</h3>
         <p className="text-muted-foreground text-center max-w-md mb-4">
-          Create your first note to capture ideas, information, and updates related to this project.
+          {readOnly
+            ? 'Notes added by editors of this brain will appear here.'
+            : 'Create your first note to capture ideas, information, and updates related to this project.'}
         </p>
-        <Button className="mt-2 animate-pulse" onClick={onCreateNote}>
-          <PlusCircle className="h-4 w-4 mr-2" />
-          Create Your First Note
-        </Button>
+        {!readOnly && (
+          <Button className="mt-2 animate-pulse" onClick={onCreateNote}>
+            <PlusCircle className="h-4 w-4 mr-2" />
+            Create Your First Note
+          </Button>
+        )}
       </CardContent>
     </Card>
   );
@@ -27,6 +27,8 @@ interface NotesCardProps {
   setActiveTag?: Dispatch<SetStateAction<string>>;
   formatDate?: (dateString: string) => string;
   isLast?: boolean;
+  // Viewers can open notes but not change them
+  readOnly?: boolean;
 }
 
 const NotesCard: React.FC<NotesCardProps> = ({ 
@@ -38,7 +40,8 @@ const NotesCard: React.FC<NotesCardProps> = ({
   activeTag,
   setActiveTag,
   formatDate: propFormatDate,
-  isLast = false
+  isLast = false,
+  readOnly = false
 }) => {
   const { formatDate: hookFormatDate } = useNoteDateFormat();
   const formatDateFn = propFormatDate || hookFormatDate;
@@ -116,40 +119,42 @@ const NotesCard: React.FC<NotesCardProps> = ({
               </div>
             )}
 
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
-                <Button 
-                  variant="ghost" 
-                  size="icon" 
-                  className="h-6 w-6 ml-1"
-                >
-                  <MoreVertical className="h-4 w-4" />
-                </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent align="end">
-                <DropdownMenuItem onClick={(e) => {
-                  e.stopPropagation();
-                  onEdit(note);
-                }}>
-                  <Pencil className="h-4 w-4 mr-2" /> Edit
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={(e) => {
-                  e.stopPropagation();
-                  handleDuplicate();
-                }}>
-                  <Copy className="h-4 w-4 mr-2" /> Duplicate
-                </DropdownMenuItem>
-                <DropdownMenuItem 
-                  className="text-destructive focus:text-destructive" 
-                  onClick={(e) => {
+            {!readOnly && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+                  <Button 
+                    variant="ghost" 
+                    size="icon" 
+                    className="h-6 w-6 ml-1"
+                  >
+                    <MoreVertical className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={(e) => {
+                    e.stopPropagation();
+                    onEdit(note);
+                  }}>
+                    <Pencil className="h-4 w-4 mr-2" /> Edit
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={(e) => {
                     e.stopPropagation();
-                    onDelete(note.id);
-                  }}
-                >
-                  <Trash2 className="h-4 w-4 mr-2" /> Delete
-                </DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
+                    handleDuplicate();
+                  }}>
+                    <Copy className="h-4 w-4 mr-2" /> Duplicate
+                  </DropdownMenuItem>
+                  <DropdownMenuItem 
+                    className="text-destructive focus:text-destructive" 
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onDelete(note.id);
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" /> Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
           </div>
         </div>
       </div>
@@ -3,14 +3,15 @@ import React from 'react';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
-import { Textarea } from '@/components/ui/textarea';
 import { Badge } from "@/components/ui/badge";
 import { Button } from '@/components/ui/button';
 import { Loader2, Tag, X } from 'lucide-react';
 import RegenerateMetadataButton from '../note/RegenerateMetadataButton';
 import CleanTextButton from '../note/CleanTextButton';
-import NotesFormatting from './NotesFormatting';
 import TagRecommendations from './TagRecommendations';
+import MarkdownEditor from '@/components/markdown/MarkdownEditor';
+import { ModelType } from '@/utils/aiPrompts';
+import { LinkTarget } from '@/utils/noteLinks';
 
 interface NotesDialogProps {
   isOpen: boolean;
@@ -21,9 +22,11 @@ interface NotesDialogProps {
   tagInput: string;
   tags: string[];
   saving: boolean;
-  aiModel: 'claude' | 'openai';
+  aiModel: ModelType;
   onTitleChange: (title: string) => void;
   onContentChange: (content: string) => void;
+  // Replaces the content with the AI-cleaned text
+  onContentCleaned?: (content: string) => void;
   onTagInputChange: (input: string) => void;
   onTagInputKeyDown: (e: React.KeyboardEvent<HTMLInputElement>) => void;
   addTag: () => void;
@@ -32,8 +35,11 @@ interface NotesDialogProps {
   handleRegenerateTitle: (title: string) => void;
   handleRegenerateTags: (tags: string[]) => void;
   handleRegenerateBoth: (data: { title: string; tags: string[] }) => void;
-  onModelChange: (model: 'claude' | 'openai') => void;
+  onModelChange: (model: ModelType) => void;
   allProjectTags?: string[];
+  // Offered when typing [[ in the content
+  linkTargets?: LinkTarget[];
+  projectId?: string;
 }
 
 const NotesDialog: React.FC<NotesDialogProps> = ({
@@ -48,6 +54,7 @@ const NotesDialog: React.FC<NotesDialogProps> = ({
   aiModel,
   onTitleChange,
   onContentChange,
+  onContentCleaned,
   onTagInputChange,
   onTagInputKeyDown,
   addTag,
@@ -57,7 +64,9 @@ const NotesDialog: React.FC<NotesDialogProps> = ({
   handleRegenerateTags,
   handleRegenerateBoth,
   onModelChange,
-  allProjectTags = []
+  allProjectTags = [],
+  linkTargets,
+  projectId
 }) => {
   const dialogTitle = type === 'create' ? 'Create New Note' : 'Edit Note';
   const dialogDescription = type === 'create' 
@@ -78,7 +87,7 @@ const NotesDialog: React.FC<NotesDialogProps> = ({
   
   return (
     <Dialog open={isOpen} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[800px] md:max-w-[900px] lg:max-w-[1000px] w-[calc(100vw-3rem)]">
+      <DialogContent className="sm:max-w-[800px] md:max-w-[900px] lg:max-w-[1000px] w-[calc(100vw-3rem)] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>{dialogTitle}</DialogTitle>
           <DialogDescription>
@@ -96,6 +105,7 @@ const NotesDialog: React.FC<NotesDialogProps> = ({
                 onRegenerateBoth={handleRegenerateBoth} 
                 model={aiModel} 
                 onModelChange={onModelChange} 
+                projectId={projectId}
               />
             </div>
             <Input 
@@ -108,26 +118,21 @@ const NotesDialog: React.FC<NotesDialogProps> = ({
           <div className="grid gap-2">
             <div className="flex justify-between items-center">
               <Label htmlFor={contentId}>Content</Label>
-              <div className="flex items-center gap-2">
-                <CleanTextButton 
-                  noteContent={content}
-                  onTextCleaned={onContentChange}
-                  model={aiModel}
-                  onModelChange={onModelChange}
-                />
-                <NotesFormatting contentId={contentId} />
-              </div>
+              <CleanTextButton 
+                noteContent={content}
+                onTextCleaned={onContentCleaned || onContentChange}
+                model={aiModel}
+                onModelChange={onModelChange}
+                projectId={projectId}
+              />
             </div>
-            <Textarea 
+            <MarkdownEditor 
               id={contentId} 
               placeholder="Enter note content" 
               value={content} 
-              onChange={e => onContentChange(e.target.value)} 
-              className="min-h-[200px] font-mono" 
+              onChange={onContentChange} 
+              linkTargets={linkTargets}
             />
-            <div className="text-xs text-muted-foreground">
-              Use **bold**, *italic*, or __underline__ to format your text.
-            </div>
           </div>
           <div className="grid gap-2">
             <div className="flex items-center gap-2">
@@ -12,6 +12,7 @@ interface NotesListProps {
   onEdit: (note: Note) => void;
   onDelete: (id: string) => void;
   formatDate?: (dateString: string) => string;
+  readOnly?: boolean;
 }
 
 const NotesList: React.FC<NotesListProps> = ({
@@ -22,7 +23,8 @@ const NotesList: React.FC<NotesListProps> = ({
   onView,
   onEdit,
   onDelete,
-  formatDate
+  formatDate,
+  readOnly = false
 }) => {
   if (notes.length === 0) {
     return (
@@ -45,6 +47,7 @@ const NotesList: React.FC<NotesListProps> = ({
           onEdit={onEdit}
           onDelete={onDelete}
           formatDate={formatDate}
+          readOnly={readOnly}
           isLast={index === notes.length - 1}
         />
       ))}
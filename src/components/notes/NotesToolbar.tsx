@@ -4,8 +4,10 @@ import { Button } from '@/components/ui/button';
 import { PlusCircle, Tag } from 'lucide-react';
 import { SearchBar } from '@/components/ui/search-bar';
 import TagFilter from './TagFilter';
+import { usePermissions } from '@/hooks/usePermissions';
 
 interface NotesToolbarProps {
+  projectId: string;
   searchQuery: string;
   onSearchChange: (query: string) => void;
   onCreateNote: () => void;
@@ -15,6 +17,7 @@ interface NotesToolbarProps {
 }
 
 const NotesToolbar: React.FC<NotesToolbarProps> = ({
+  projectId,
   searchQuery,
   onSearchChange,
   onCreateNote,
@@ -22,6 +25,8 @@ const NotesToolbar: React.FC<NotesToolbarProps> = ({
   activeTag,
   setActiveTag
 }) => {
+  const { canEditContent } = usePermissions(projectId);
+
   return (
     <div className="mb-6 space-y-4">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
@@ -31,10 +36,12 @@ const NotesToolbar: React.FC<NotesToolbarProps> = ({
           onChange={onSearchChange}
           className="flex-1"
         />
-        <Button onClick={onCreateNote} className="flex items-center gap-1 shrink-0">
-          <PlusCircle className="h-4 w-4" />
-          New Note
-        </Button>
+        {canEditContent && (
+          <Button onClick={onCreateNote} className="flex items-center gap-1 shrink-0">
+            <PlusCircle className="h-4 w-4" />
+            New Note
+          </Button>
+        )}
       </div>
       
       {allTags.length > 0 && (
@@ -6,6 +6,8 @@ import { useIsMobile } from '@/hooks/use-mobile';
 import MobileNoteView from './view-dialog/MobileNoteView';
 import DesktopNoteView from './view-dialog/DesktopNoteView';
 import { resetBodyStyles } from '@/utils/dialogUtils';
+import { LinkTarget } from '@/utils/noteLinks';
+import { Backlink } from '@/hooks/useNoteLinks';
 
 interface NotesViewDialogProps {
   isOpen: boolean;
@@ -16,6 +18,15 @@ interface NotesViewDialogProps {
   onDelete: (id: string) => void;
   formatDate?: (dateString: string) => string;
   userId?: string;
+  // Called with the note after an earlier version of it was restored
+  onNoteRestored?: (note: Note) => void;
+  // Everything in the brain the note can link to, to follow its [[links]]
+  linkTargets?: LinkTarget[];
+  // Notes linking to this one, shown under it
+  backlinks?: Backlink[];
+  onOpenLinkTarget?: (target: LinkTarget) => void;
+  // Hide edit/delete actions, e.g. when a note is opened from a chat citation
+  readOnly?: boolean;
 }
 
 const NotesViewDialog: React.FC<NotesViewDialogProps> = ({
@@ -26,7 +37,12 @@ const NotesViewDialog: React.FC<NotesViewDialogProps> = ({
   onEdit,
   onDelete,
   formatDate,
-  userId
+  userId,
+  onNoteRestored,
+  linkTargets,
+  backlinks,
+  onOpenLinkTarget,
+  readOnly
 }) => {
   const finalSetIsOpen = onOpenChange || setIsOpen;
   const isMobile = useIsMobile();
@@ -63,6 +79,11 @@ const NotesViewDialog: React.FC<NotesViewDialogProps> = ({
         formatDate={formatDate}
         userId={userId}
         onClose={handleClose}
+        onNoteRestored={onNoteRestored}
+        linkTargets={linkTargets}
+        backlinks={backlinks}
+        onOpenLinkTarget={onOpenLinkTarget}
+        readOnly={readOnly}
       />
     );
   }
@@ -77,6 +98,11 @@ const NotesViewDialog: React.FC<NotesViewDialogProps> = ({
       formatDate={formatDate}
       userId={userId}
       onClose={handleClose}
+      onNoteRestored={onNoteRestored}
+      linkTargets={linkTargets}
+      backlinks={backlinks}
+      onOpenLinkTarget={onOpenLinkTarget}
+      readOnly={readOnly}
     />
   );
 };
@@ -0,0 +1,104 @@
+import React, { useMemo } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { diffLines, diffStats } from '@/utils/textDiff';
+import { NotionSyncConflict } from '@/hooks/useNotionSync';
+import { Note } from './types';
+
+interface NotionConflictDialogProps {
+  note: Note | null;
+  conflict: NotionSyncConflict | null;
+  onOpenChange: (open: boolean) => void;
+  onResolve: (noteId: string, useNotion: boolean) => void;
+  resolving: boolean;
+  readOnly?: boolean;
+}
+
+const LINE_STYLES = {
+  same: 'text-muted-foreground',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800 line-through decoration-red-300',
+};
+
+const LINE_PREFIX = { same: ' ', added: '+', removed: '-' };
+
+// Shows what syncing would change in a note that was also edited here:
+// removed lines are the local text, added lines the Notion version
+const NotionConflictDialog: React.FC<NotionConflictDialogProps> = ({
+  note,
+  conflict,
+  onOpenChange,
+  onResolve,
+  resolving,
+  readOnly
+}) => {
+  const lines = useMemo(
+    () => note && conflict ? diffLines(note.content || '', conflict.incoming_content) : [],
+    [note, conflict]
+  );
+  const stats = diffStats(lines);
+
+  if (!note || !conflict) return null;
+
+  const titleChanged = note.title !== conflict.incoming_title;
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>"{note.title}" changed in Notion</DialogTitle>
+          <DialogDescription>
+            This note was also edited here, so the Notion version was not applied.
+            Notion edited it on {new Date(conflict.notion_last_edited_time).toLocaleString()}:
+            {' '}{stats.added} lines added and {stats.removed} removed compared to this note.
+          </DialogDescription>
+        </DialogHeader>
+
+        {titleChanged && (
+          <p className="text-sm">
+            Title: <span className="line-through text-red-800">{note.title}</span>
+            {' → '}<span className="text-green-800">{conflict.incoming_title}</span>
+          </p>
+        )}
+
+        <ScrollArea className="h-96 rounded-md border">
+          <pre className="p-3 text-xs font-mono whitespace-pre-wrap">
+            {lines.map((line, index) => (
+              <div key={index} className={cn('px-1', LINE_STYLES[line.type])}>
+                {LINE_PREFIX[line.type]} {line.text}
+              </div>
+            ))}
+          </pre>
+        </ScrollArea>
+
+        <DialogFooter className="gap-2">
+          {readOnly ? (
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onResolve(note.id, false)} disabled={resolving}>
+                Keep my version
+              </Button>
+              <Button onClick={() => onResolve(note.id, true)} disabled={resolving}>
+                {resolving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Use Notion version
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NotionConflictDialog;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, Loader2, RefreshCw } from 'lucide-react';
+import { NotionSyncConflict } from '@/hooks/useNotionSync';
+import { Note } from './types';
+
+interface NotionSyncBarProps {
+  notes: Note[];
+  conflicts: NotionSyncConflict[];
+  syncing: boolean;
+  onSync: () => void;
+  onReview: (noteId: string) => void;
+  readOnly?: boolean;
+}
+
+// Sync status for brains with notes imported from Notion
+const NotionSyncBar: React.FC<NotionSyncBarProps> = ({
+  notes,
+  conflicts,
+  syncing,
+  onSync,
+  onReview,
+  readOnly
+}) => {
+  const syncedCount = notes.filter(note => note.notion_page_id).length;
+  if (syncedCount === 0 && conflicts.length === 0) return null;
+
+  const titleOf = (noteId: string) => notes.find(note => note.id === noteId)?.title;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-4 rounded-md border px-3 py-2 text-sm">
+        <span className="text-muted-foreground">
+          {syncedCount} {syncedCount === 1 ? 'note is' : 'notes are'} kept in sync with Notion
+        </span>
+        {!readOnly && (
+          <Button variant="outline" size="sm" onClick={onSync} disabled={syncing}>
+            {syncing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            Sync from Notion
+          </Button>
+        )}
+      </div>
+
+      {conflicts.length > 0 && (
+        <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800 space-y-2">
+          <div className="flex items-center font-medium">
+            <AlertTriangle className="h-4 w-4 mr-2" />
+            {conflicts.length === 1 ? 'A note was' : `${conflicts.length} notes were`} edited both here and in Notion
+          </div>
+          {conflicts.map(conflict => (
+            <div key={conflict.note_id} className="flex items-center justify-between gap-3">
+              <span className="truncate">{titleOf(conflict.note_id) || conflict.incoming_title}</span>
+              <Button variant="outline" size="sm" onClick={() => onReview(conflict.note_id)}>
+                Review changes
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotionSyncBar;
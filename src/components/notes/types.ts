@@ -10,9 +10,29 @@ export interface Note {
   creator_name?: string;
   creator_avatar?: string;
   tags?: string[];
+  // Set for notes imported from Notion, which notion-sync keeps up to date
+  notion_page_id?: string | null;
   source_document?: {
     type: 'pdf' | 'image';
     url: string;
     name: string;
   } | null;
 }
+
+// Why a note changed: edited by hand, rewritten by the AI clean-up, given an
+// AI title or tags, imported (or synced from Notion), or restored
+export type RevisionCause = 'manual' | 'ai_clean' | 'ai_metadata' | 'import' | 'restore';
+
+// A note as it was after one change
+export interface NoteRevision {
+  id: string;
+  note_id: string;
+  title: string | null;
+  content: string | null;
+  tags: string[] | null;
+  cause: RevisionCause;
+  author_id: string | null;
+  author_name?: string;
+  restored_from: string | null;
+  created_at: string;
+}
@@ -1,5 +1,5 @@
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Note } from '../types';
 import {
   Dialog,
@@ -11,8 +11,12 @@ import {
 import NoteInfo from './NoteInfo';
 import NoteActions from './NoteActions';
 import NoteSourceDocument from './NoteSourceDocument';
-import NotesFormatter from '../NotesFormatter';
+import NoteHistory from './NoteHistory';
+import NoteBacklinks from './NoteBacklinks';
+import MarkdownContent from '@/components/markdown/MarkdownContent';
 import { resetBodyStyles } from '@/utils/dialogUtils';
+import { LinkTarget, resolveLinkTarget } from '@/utils/noteLinks';
+import { Backlink } from '@/hooks/useNoteLinks';
 
 interface DesktopNoteViewProps {
   isOpen: boolean;
@@ -23,6 +27,11 @@ interface DesktopNoteViewProps {
   formatDate?: (dateString: string) => string;
   userId?: string;
   onClose?: () => void;
+  onNoteRestored?: (note: Note) => void;
+  linkTargets?: LinkTarget[];
+  backlinks?: Backlink[];
+  onOpenLinkTarget?: (target: LinkTarget) => void;
+  readOnly?: boolean;
 }
 
 const DesktopNoteView: React.FC<DesktopNoteViewProps> = ({
@@ -33,8 +42,25 @@ const DesktopNoteView: React.FC<DesktopNoteViewProps> = ({
   onDelete,
   formatDate,
   userId,
-  onClose
+  onClose,
+  onNoteRestored,
+  linkTargets,
+  backlinks,
+  onOpenLinkTarget,
+  readOnly = false
 }) => {
+  const [showHistory, setShowHistory] = useState(false);
+
+  const handleNoteLinkClick = (label: string) => {
+    const target = linkTargets && resolveLinkTarget(linkTargets, label);
+    if (target) onOpenLinkTarget?.(target);
+  };
+
+  // Every note opens on its content
+  useEffect(() => {
+    setShowHistory(false);
+  }, [note.id]);
+
   // Enhanced cleanup on unmount
   useEffect(() => {
     return resetBodyStyles;
@@ -72,18 +98,46 @@ const DesktopNoteView: React.FC<DesktopNoteViewProps> = ({
           />
         </DialogHeader>
         
-        <NoteActions
-          note={note}
-          onEdit={onEdit}
-          onDelete={onDelete}
-          isMobile={false}
-        />
-        
-        <NoteSourceDocument sourceDocument={note.source_document} />
+        {!readOnly && (
+          <NoteActions
+            note={note}
+            onEdit={onEdit}
+            onDelete={onDelete}
+            onToggleHistory={() => setShowHistory(!showHistory)}
+            showingHistory={showHistory}
+            isMobile={false}
+          />
+        )}
         
-        <div className="prose prose-sm sm:prose prose-slate max-w-none mt-2 text-xs sm:text-sm overflow-x-hidden break-words hyphens-auto">
-          <NotesFormatter content={note.content} />
-        </div>
+        {showHistory ? (
+          <NoteHistory
+            note={note}
+            onRestored={(restored) => {
+              onNoteRestored?.(restored);
+              setShowHistory(false);
+            }}
+            isMobile={false}
+            readOnly={readOnly || !onNoteRestored}
+          />
+        ) : (
+          <>
+            <NoteSourceDocument sourceDocument={note.source_document} />
+
+            <MarkdownContent
+              content={note.content}
+              emptyText="No content provided."
+              className="mt-2 text-xs sm:text-sm overflow-x-hidden hyphens-auto"
+              onNoteLinkClick={onOpenLinkTarget ? handleNoteLinkClick : undefined}
+              linkTargets={linkTargets}
+            />
+
+            <NoteBacklinks
+              backlinks={backlinks}
+              onOpenNote={(backlink) => onOpenLinkTarget?.({ type: 'note', id: backlink.noteId, name: backlink.title })}
+              className="mt-6 pt-3 border-t"
+            />
+          </>
+        )}
       </DialogContent>
     </Dialog>
   );
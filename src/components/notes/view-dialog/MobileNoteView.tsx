@@ -1,12 +1,16 @@
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Note } from '../types';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from "@/components/ui/sheet";
 import NoteInfo from './NoteInfo';
 import NoteActions from './NoteActions';
 import NoteSourceDocument from './NoteSourceDocument';
-import NotesFormatter from '../NotesFormatter';
+import NoteHistory from './NoteHistory';
+import NoteBacklinks from './NoteBacklinks';
+import MarkdownContent from '@/components/markdown/MarkdownContent';
 import { resetBodyStyles } from '@/utils/dialogUtils';
+import { LinkTarget, resolveLinkTarget } from '@/utils/noteLinks';
+import { Backlink } from '@/hooks/useNoteLinks';
 
 interface MobileNoteViewProps {
   isOpen: boolean;
@@ -17,6 +21,11 @@ interface MobileNoteViewProps {
   formatDate?: (dateString: string) => string;
   userId?: string;
   onClose?: () => void;
+  onNoteRestored?: (note: Note) => void;
+  linkTargets?: LinkTarget[];
+  backlinks?: Backlink[];
+  onOpenLinkTarget?: (target: LinkTarget) => void;
+  readOnly?: boolean;
 }
 
 const MobileNoteView: React.FC<MobileNoteViewProps> = ({
@@ -27,8 +36,25 @@ const MobileNoteView: React.FC<MobileNoteViewProps> = ({
   onDelete,
   formatDate,
   userId,
-  onClose
+  onClose,
+  onNoteRestored,
+  linkTargets,
+  backlinks,
+  onOpenLinkTarget,
+  readOnly = false
 }) => {
+  const [showHistory, setShowHistory] = useState(false);
+
+  const handleNoteLinkClick = (label: string) => {
+    const target = linkTargets && resolveLinkTarget(linkTargets, label);
+    if (target) onOpenLinkTarget?.(target);
+  };
+
+  // Every note opens on its content
+  useEffect(() => {
+    setShowHistory(false);
+  }, [note.id]);
+
   // Ensure we clean up everything when sheet closes or unmounts
   useEffect(() => {
     // On unmount, ensure all cleanup happens
@@ -69,18 +95,48 @@ const MobileNoteView: React.FC<MobileNoteViewProps> = ({
           formatDate={formatDate}
         />
         
-        <NoteActions
-          note={note}
-          onEdit={onEdit}
-          onDelete={onDelete}
-          isMobile={true}
-        />
+        {!readOnly && (
+          <NoteActions
+            note={note}
+            onEdit={onEdit}
+            onDelete={onDelete}
+            onToggleHistory={() => setShowHistory(!showHistory)}
+            showingHistory={showHistory}
+            isMobile={true}
+          />
+        )}
         
-        <NoteSourceDocument sourceDocument={note.source_document} />
-        
-        <div className="prose prose-sm max-w-none mt-2 text-xs overflow-hidden overflow-wrap-anywhere break-words hyphens-auto pb-10" style={{wordBreak: 'break-word'}}>
-          <NotesFormatter content={note.content} />
-        </div>
+        {showHistory ? (
+          <NoteHistory
+            note={note}
+            onRestored={(restored) => {
+              onNoteRestored?.(restored);
+              setShowHistory(false);
+            }}
+            isMobile={true}
+            readOnly={readOnly || !onNoteRestored}
+          />
+        ) : (
+          <>
+            <NoteSourceDocument sourceDocument={note.source_document} />
+
+            <MarkdownContent
+              content={note.content}
+              emptyText="No content provided."
+              className="mt-2 text-xs overflow-hidden hyphens-auto"
+              onNoteLinkClick={onOpenLinkTarget ? handleNoteLinkClick : undefined}
+              linkTargets={linkTargets}
+            />
+
+            <NoteBacklinks
+              backlinks={backlinks}
+              onOpenNote={(backlink) => onOpenLinkTarget?.({ type: 'note', id: backlink.noteId, name: backlink.title })}
+              className="mt-6 pt-3 border-t"
+            />
+
+            <div className="pb-10" />
+          </>
+        )}
       </SheetContent>
     </Sheet>
   );
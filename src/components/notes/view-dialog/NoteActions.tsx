@@ -1,7 +1,7 @@
 
 import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { Pencil, Trash2, Copy } from 'lucide-react';
+import { Pencil, Trash2, Copy, History } from 'lucide-react';
 import { Note } from '../types';
 
 interface NoteActionsProps {
@@ -9,6 +9,9 @@ interface NoteActionsProps {
   onEdit: (note: Note) => void;
   onDelete: (id: string) => void;
   onDuplicate?: (note: Note) => void;
+  // Switches between the note and its version history
+  onToggleHistory?: () => void;
+  showingHistory?: boolean;
   isMobile: boolean;
 }
 
@@ -17,6 +20,8 @@ const NoteActions: React.FC<NoteActionsProps> = ({
   onEdit, 
   onDelete,
   onDuplicate,
+  onToggleHistory,
+  showingHistory = false,
   isMobile
 }) => {
   const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
@@ -66,6 +71,17 @@ const NoteActions: React.FC<NoteActionsProps> = ({
         <Copy className="h-3.5 w-3.5 mr-1.5" /> Duplicate
       </Button>
       
+      {onToggleHistory && (
+        <Button 
+          variant={showingHistory ? "secondary" : "outline"} 
+          size="sm" 
+          onClick={onToggleHistory}
+          className="h-8"
+        >
+          <History className="h-3.5 w-3.5 mr-1.5" /> {showingHistory ? 'Back to note' : 'History'}
+        </Button>
+      )}
+      
       <Button 
         variant={isConfirmingDelete ? "destructive" : "outline"} 
         size="sm" 
@@ -0,0 +1,38 @@
+import React from 'react';
+import { Link2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Backlink } from '@/hooks/useNoteLinks';
+
+interface NoteBacklinksProps {
+  backlinks: Backlink[] | undefined;
+  onOpenNote: (backlink: Backlink) => void;
+  className?: string;
+}
+
+// "Linked from" list of the notes that mention a note, document or image
+const NoteBacklinks: React.FC<NoteBacklinksProps> = ({ backlinks, onOpenNote, className }) => {
+  if (!backlinks || backlinks.length === 0) return null;
+
+  return (
+    <div className={cn('text-sm', className)}>
+      <div className="flex items-center text-muted-foreground mb-1">
+        <Link2 className="h-4 w-4 mr-1 flex-shrink-0" />
+        <span>Linked from</span>
+      </div>
+      <div className="flex flex-wrap gap-x-3 gap-y-1">
+        {backlinks.map(backlink => (
+          <button
+            key={backlink.noteId}
+            type="button"
+            onClick={() => onOpenNote(backlink)}
+            className="text-primary hover:underline text-left break-words"
+          >
+            {backlink.title || 'Untitled Note'}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default NoteBacklinks;
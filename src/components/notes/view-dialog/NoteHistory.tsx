@@ -0,0 +1,213 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { cn } from '@/lib/utils';
+import { DiffLine, diffLines, diffStats, sideBySide } from '@/utils/textDiff';
+import { useNoteRevisions } from '@/hooks/notes/useNoteRevisions';
+import { Note, NoteRevision, RevisionCause } from '../types';
+
+interface NoteHistoryProps {
+  note: Note;
+  onRestored: (note: Note) => void;
+  isMobile: boolean;
+  readOnly?: boolean;
+}
+
+type Comparison = 'previous' | 'current';
+
+const CAUSE_LABELS: Record<RevisionCause, string> = {
+  manual: 'Edited',
+  ai_clean: 'AI clean-up',
+  ai_metadata: 'AI title & tags',
+  import: 'Imported',
+  restore: 'Restored',
+};
+
+const LINE_STYLES = {
+  same: 'text-muted-foreground',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800',
+};
+
+const LINE_PREFIX = { same: ' ', added: '+', removed: '-' };
+
+const DiffCell: React.FC<{ line: DiffLine | null }> = ({ line }) => (
+  <div className={cn('px-2 min-h-[1.25rem] whitespace-pre-wrap break-words', line ? LINE_STYLES[line.type] : 'bg-muted/40')}>
+    {line?.text}
+  </div>
+);
+
+// Versions of a note, newest first, with what each one changed and a way back
+// to any of them
+const NoteHistory: React.FC<NoteHistoryProps> = ({ note, onRestored, isMobile, readOnly }) => {
+  const { revisions, loading, restoringId, restoreRevision } = useNoteRevisions(note.id, true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<Comparison>('previous');
+
+  // Start with the latest change once the history has loaded
+  useEffect(() => {
+    if (revisions.length > 0 && !revisions.some(revision => revision.id === selectedId)) {
+      setSelectedId(revisions[0].id);
+    }
+  }, [revisions, selectedId]);
+
+  const selectedIndex = revisions.findIndex(revision => revision.id === selectedId);
+  const selected: NoteRevision | undefined = revisions[selectedIndex];
+  const previous: NoteRevision | undefined = revisions[selectedIndex + 1];
+  const isCurrent = selectedIndex === 0;
+
+  // "previous": what this version changed; "current": what restoring it would change
+  const [before, after] = useMemo(() => {
+    if (!selected) return [null, null];
+    return comparison === 'current'
+      ? [{ title: note.title, content: note.content, tags: note.tags || [] }, selected]
+      : [previous || { title: '', content: '', tags: [] }, selected];
+  }, [comparison, note, selected, previous]);
+
+  const lines = useMemo(
+    () => (before && after ? diffLines(before.content || '', after.content || '') : []),
+    [before, after]
+  );
+  const stats = diffStats(lines);
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    const restored = await restoreRevision(selected, note);
+    if (restored) onRestored(restored);
+  };
+
+  if (loading && revisions.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-10 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" /> Loading history...
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-10 text-sm text-muted-foreground">
+        <History className="h-6 w-6 mb-2" />
+        No earlier versions of this note yet.
+      </div>
+    );
+  }
+
+  const beforeTags = before?.tags || [];
+  const afterTags = after?.tags || [];
+  const addedTags = afterTags.filter(tag => !beforeTags.includes(tag));
+  const removedTags = beforeTags.filter(tag => !afterTags.includes(tag));
+
+  return (
+    <div className={cn('grid gap-4', !isMobile && 'grid-cols-[220px_1fr]')}>
+      <ScrollArea className={cn('rounded-md border', isMobile ? 'max-h-48' : 'h-[55vh]')}>
+        <div className="p-1">
+          {revisions.map((revision, index) => (
+            <button
+              key={revision.id}
+              type="button"
+              onClick={() => setSelectedId(revision.id)}
+              className={cn(
+                'w-full rounded-sm px-2 py-1.5 text-left text-xs transition-colors',
+                revision.id === selectedId ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50'
+              )}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{CAUSE_LABELS[revision.cause] || revision.cause}</span>
+                {index === 0 && <Badge variant="secondary" className="h-4 px-1.5 text-[10px]">Current</Badge>}
+              </div>
+              <div className="text-muted-foreground truncate">
+                {revision.author_name} · {new Date(revision.created_at).toLocaleString()}
+              </div>
+            </button>
+          ))}
+        </div>
+      </ScrollArea>
+
+      {selected && (
+        <div className="space-y-3 min-w-0">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex rounded-md border p-0.5 text-xs">
+              {(['previous', 'current'] as Comparison[]).map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setComparison(option)}
+                  className={cn(
+                    'rounded-sm px-2 py-1',
+                    comparison === option ? 'bg-primary text-primary-foreground' : 'text-muted-foreground hover:text-foreground'
+                  )}
+                >
+                  {option === 'previous' ? 'Changes in this version' : 'Compare with current'}
+                </button>
+              ))}
+            </div>
+
+            {!readOnly && !isCurrent && (
+              <Button size="sm" className="h-8" onClick={handleRestore} disabled={restoringId !== null}>
+                {restoringId === selected.id
+                  ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />
+                  : <RotateCcw className="h-3.5 w-3.5 mr-1.5" />}
+                Restore this version
+              </Button>
+            )}
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {stats.added} lines added, {stats.removed} removed
+            {comparison === 'current' ? ' if this version is restored' : ''}
+          </p>
+
+          {before && after && before.title !== after.title && (
+            <p className="text-sm break-words">
+              Title: <span className="line-through text-red-800">{before.title || 'Untitled'}</span>
+              {' → '}<span className="text-green-800">{after.title || 'Untitled'}</span>
+            </p>
+          )}
+
+          {(addedTags.length > 0 || removedTags.length > 0) && (
+            <div className="flex flex-wrap gap-1 text-xs">
+              {removedTags.map(tag => (
+                <Badge key={`-${tag}`} variant="outline" className="line-through text-red-800">#{tag}</Badge>
+              ))}
+              {addedTags.map(tag => (
+                <Badge key={`+${tag}`} variant="outline" className="text-green-800">#{tag}</Badge>
+              ))}
+            </div>
+          )}
+
+          <ScrollArea className="h-[45vh] rounded-md border">
+            {isMobile ? (
+              <pre className="p-2 text-xs font-mono whitespace-pre-wrap">
+                {lines.map((line, index) => (
+                  <div key={index} className={cn('px-1', LINE_STYLES[line.type])}>
+                    {LINE_PREFIX[line.type]} {line.text}
+                  </div>
+                ))}
+              </pre>
+            ) : (
+              <div className="grid grid-cols-2 divide-x text-xs font-mono">
+                <div className="px-2 py-1 font-sans font-medium text-muted-foreground border-b">
+                  {comparison === 'current' ? 'Current note' : 'Before'}
+                </div>
+                <div className="px-2 py-1 font-sans font-medium text-muted-foreground border-b">
+                  {comparison === 'current' ? 'This version' : 'After'}
+                </div>
+                {sideBySide(lines).map((row, index) => (
+                  <React.Fragment key={index}>
+                    <DiffCell line={row.before} />
+                    <DiffCell line={row.after} />
+                  </React.Fragment>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NoteHistory;
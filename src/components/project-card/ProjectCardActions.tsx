@@ -16,6 +16,7 @@ import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { moveToTrash, TRASH_RETENTION_DAYS } from '@/utils/trashUtils';
 
 interface ProjectCardActionsProps {
   id: string;
@@ -85,100 +86,20 @@ const ProjectCardActions: React.FC<ProjectCardActionsProps> = ({
     if (!isOwner) return;
 
     const confirmed = window.confirm(
-      "Are you sure you want to permanently delete this brain? This action cannot be undone."
+      `Move this brain to the trash? You can restore it from the Trash page within ${TRASH_RETENTION_DAYS} days.`
     );
 
     if (!confirmed) return;
 
     try {
-      toast.loading('Deleting brain and related data...');
-      
-      // Delete associated data first - image_summaries
-      const { error: imageSummaryError } = await supabase
-        .from('image_summaries')
-        .delete()
-        .eq('project_id', id);
-        
-      if (imageSummaryError) {
-        console.warn('Error deleting image summaries:', imageSummaryError);
-      }
-      
-      // Delete associated note summaries
-      const { error: noteSummaryError } = await supabase
-        .from('note_summaries')
-        .delete()
-        .eq('project_id', id);
-        
-      if (noteSummaryError) {
-        console.warn('Error deleting note summaries:', noteSummaryError);
-      }
-      
-      // Delete associated image tags
-      const { error: imageTagsError } = await supabase
-        .from('image_tags')
-        .delete()
-        .eq('project_id', id);
-        
-      if (imageTagsError) {
-        console.warn('Error deleting image tags:', imageTagsError);
-      }
-      
-      // Delete project documents
-      const { error: documentsError } = await supabase
-        .from('project_documents')
-        .delete()
-        .eq('project_id', id);
-        
-      if (documentsError) {
-        console.warn('Error deleting project documents:', documentsError);
-      }
-      
-      // Delete project notes
-      const { error: notesError } = await supabase
-        .from('project_notes')
-        .delete()
-        .eq('project_id', id);
-        
-      if (notesError) {
-        console.warn('Error deleting project notes:', notesError);
-      }
-      
-      // Delete project updates
-      const { error: updatesError } = await supabase
-        .from('project_updates')
-        .delete()
-        .eq('project_id', id);
-        
-      if (updatesError) {
-        console.warn('Error deleting project updates:', updatesError);
-      }
-      
-      // Delete project members
-      const { error: membersError } = await supabase
-        .from('project_members')
-        .delete()
-        .eq('project_id', id);
-        
-      if (membersError) {
-        console.warn('Error deleting project members:', membersError);
-      }
-      
-      // Finally delete the project
-      const { error } = await supabase
-        .from('projects')
-        .delete()
-        .eq('id', id);
-
-      if (error) throw error;
+      await moveToTrash('project', id);
 
-      toast.dismiss();
-      toast.success('Brain deleted successfully');
+      toast.success('Brain moved to trash');
       
       if (onArchiveStatusChange) {
         onArchiveStatusChange();
       }
     } catch (error) {
-      toast.dismiss();
       console.error('Error deleting brain:', error);
       toast.error('Failed to delete brain');
     }
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, Database, Loader2, X } from 'lucide-react';
+import { usePermissions } from '@/hooks/usePermissions';
+import { useNotionConnection } from '@/hooks/useNotionConnection';
+import { useNotionDatabases } from '@/hooks/useNotionDatabases';
+import { useNotionSyncedDatabases } from '@/hooks/useNotionSyncedDatabases';
+
+interface NotionSyncSettingsProps {
+  projectId: string;
+}
+
+// Per-brain list of Notion databases whose new rows become notes automatically
+const NotionSyncSettings: React.FC<NotionSyncSettingsProps> = ({ projectId }) => {
+  const { canEditSettings } = usePermissions(projectId);
+  const { isConnected, isCheckingConnection } = useNotionConnection();
+  const { databases: notionDatabases, isLoading: isLoadingNotion, fetchDatabases } = useNotionDatabases();
+  const { databases, loading, busyId, addDatabase, removeDatabase } = useNotionSyncedDatabases(projectId);
+  const [selectedDatabaseId, setSelectedDatabaseId] = useState<string>('');
+  const [listRequested, setListRequested] = useState(false);
+
+  // The Notion databases are only listed once someone opens the picker
+  const handlePickerOpen = (open: boolean) => {
+    if (open && !listRequested) {
+      setListRequested(true);
+      fetchDatabases();
+    }
+  };
+
+  const available = notionDatabases.filter(
+    database => !databases.some(synced => synced.database_id === database.id)
+  );
+
+  const handleAdd = async () => {
+    const database = notionDatabases.find(db => db.id === selectedDatabaseId);
+    if (!database) return;
+    await addDatabase(database);
+    setSelectedDatabaseId('');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Synced Notion databases</CardTitle>
+        <CardDescription>
+          New rows of these databases are imported as notes automatically, and imported notes pick up edits made in Notion.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : databases.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No databases are synced with this brain.</p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {databases.map(database => (
+              <div key={database.id} className="flex items-center justify-between gap-3 p-3">
+                <div className="min-w-0">
+                  <div className="flex items-center font-medium">
+                    <Database className="h-4 w-4 mr-2 shrink-0" />
+                    <span className="truncate">{database.database_title}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {database.last_synced_at
+                      ? `Last synced ${new Date(database.last_synced_at).toLocaleString()}`
+                      : 'Not synced yet'}
+                  </p>
+                  {database.last_error && (
+                    <p className="flex items-center text-xs text-amber-700">
+                      <AlertTriangle className="h-3 w-3 mr-1" />
+                      {database.last_error}
+                    </p>
+                  )}
+                </div>
+                {canEditSettings && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeDatabase(database.id)}
+                    disabled={busyId === database.id}
+                    aria-label={`Stop syncing ${database.database_title}`}
+                  >
+                    {busyId === database.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canEditSettings && !isCheckingConnection && (
+          isConnected ? (
+            <div className="flex flex-col sm:flex-row gap-2 max-w-xl">
+              <Select value={selectedDatabaseId} onValueChange={setSelectedDatabaseId} onOpenChange={handlePickerOpen}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a Notion database" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(!listRequested || isLoadingNotion) ? (
+                    <div className="p-2 text-sm text-muted-foreground">Loading Notion databases…</div>
+                  ) : available.length === 0 && (
+                    <div className="p-2 text-sm text-muted-foreground">No other databases found</div>
+                  )}
+                  {available.map(database => (
+                    <SelectItem key={database.id} value={database.id}>
+                      {database.title || 'Untitled Database'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handleAdd} disabled={!selectedDatabaseId || busyId !== null}>
+                Sync database
+              </Button>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              <Link to="/notion-connect" className="underline">Connect Notion</Link> to sync a database with this brain.
+            </p>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NotionSyncSettings;
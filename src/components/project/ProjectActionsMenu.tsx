@@ -9,14 +9,16 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
-import { MoreHorizontal, Edit, Archive, ArchiveRestore, Trash, LogOut } from "lucide-react";
+import { MoreHorizontal, Edit, Archive, ArchiveRestore, Trash, LogOut, Download } from "lucide-react";
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { useAuth } from '@/contexts/AuthContext';
+import { moveToTrash, TRASH_RETENTION_DAYS } from '@/utils/trashUtils';
+import { exportBrain } from '@/utils/brainArchive';
+import { usePermissions } from '@/hooks/usePermissions';
 
 interface ProjectActionsMenuProps {
   projectId: string;
-  userRole: string | null;
   onEdit?: () => void;
   isArchived?: boolean;
   onArchiveStatusChange?: () => void;
@@ -24,16 +26,15 @@ interface ProjectActionsMenuProps {
 
 const ProjectActionsMenu: React.FC<ProjectActionsMenuProps> = ({ 
   projectId, 
-  userRole,
   onEdit,
   isArchived = false,
   onArchiveStatusChange
 }) => {
   const navigate = useNavigate();
   const { user } = useAuth();
-  const isOwnerOrAdmin = userRole === 'owner' || userRole === 'admin';
-  const isOwner = userRole === 'owner';
-  const isMember = userRole === 'member' || userRole === 'admin' || userRole === 'editor' || userRole === 'viewer';
+  const { role, can, canEditSettings, isOwner } = usePermissions(projectId);
+  const canArchive = can('archiveProject');
+  const isMember = !!role && !isOwner;
   
   const handleArchiveToggle = async () => {
     try {
@@ -58,101 +59,49 @@ const ProjectActionsMenu: React.FC<ProjectActionsMenuProps> = ({
     }
   };
 
+  const handleExportBrain = async () => {
+    const toastId = toast.loading('Preparing export...');
+
+    try {
+      const { blob, fileName, skippedFiles } = await exportBrain(projectId, message => {
+        toast.loading(message, { id: toastId });
+      });
+
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      if (skippedFiles > 0) {
+        toast.warning(`Brain exported, but ${skippedFiles} ${skippedFiles === 1 ? 'file' : 'files'} could not be downloaded`, { id: toastId });
+      } else {
+        toast.success('Brain exported', { id: toastId });
+      }
+    } catch (error) {
+      console.error('Error exporting brain:', error);
+      toast.error('Failed to export brain', { id: toastId });
+    }
+  };
+
   const handleDeleteBrain = async () => {
-    if (!isOwner) return;
+    if (!can('deleteProject')) return;
 
     const confirmed = window.confirm(
-      "Are you sure you want to permanently delete this brain? This action cannot be undone."
+      `Move this brain to the trash? You can restore it from the Trash page within ${TRASH_RETENTION_DAYS} days.`
     );
 
     if (!confirmed) return;
 
     try {
-      toast.loading('Deleting brain and related data...');
-      
-      // Delete associated data first - image_summaries
-      const { error: imageSummaryError } = await supabase
-        .from('image_summaries')
-        .delete()
-        .eq('project_id', projectId);
-        
-      if (imageSummaryError) {
-        console.warn('Error deleting image summaries:', imageSummaryError);
-      }
-      
-      // Delete associated note summaries
-      const { error: noteSummaryError } = await supabase
-        .from('note_summaries')
-        .delete()
-        .eq('project_id', projectId);
-        
-      if (noteSummaryError) {
-        console.warn('Error deleting note summaries:', noteSummaryError);
-      }
-      
-      // Delete associated image tags
-      const { error: imageTagsError } = await supabase
-        .from('image_tags')
-        .delete()
-        .eq('project_id', projectId);
-        
-      if (imageTagsError) {
-        console.warn('Error deleting image tags:', imageTagsError);
-      }
-      
-      // Delete project documents
-      const { error: documentsError } = await supabase
-        .from('project_documents')
-        .delete()
-        .eq('project_id', projectId);
-        
-      if (documentsError) {
-        console.warn('Error deleting project documents:', documentsError);
-      }
-      
-      // Delete project notes
-      const { error: notesError } = await supabase
-        .from('project_notes')
-        .delete()
-        .eq('project_id', projectId);
-        
-      if (notesError) {
-        console.warn('Error deleting project notes:', notesError);
-      }
-      
-      // Delete project updates
-      const { error: updatesError } = await supabase
-        .from('project_updates')
-        .delete()
-        .eq('project_id', projectId);
-        
-      if (updatesError) {
-        console.warn('Error deleting project updates:', updatesError);
-      }
-      
-      // Delete project members
-      const { error: membersError } = await supabase
-        .from('project_members')
-        .delete()
-        .eq('project_id', projectId);
-        
-      if (membersError) {
-        console.warn('Error deleting project members:', membersError);
-      }
-      
-      // Finally delete the project
-      const { error } = await supabase
-        .from('projects')
-        .delete()
-        .eq('id', projectId);
+      await moveToTrash('project', projectId);
 
-      if (error) throw error;
-
-      toast.dismiss();
-      toast.success('Brain deleted successfully');
+      toast.success('Brain moved to trash');
       navigate('/dashboard');
     } catch (error) {
-      toast.dismiss();
       console.error('Error deleting brain:', error);
       toast.error('Failed to delete brain');
     }
@@ -198,16 +147,16 @@ const ProjectActionsMenu: React.FC<ProjectActionsMenuProps> = ({
         </Button>
       </DropdownMenuTrigger>
       <DropdownMenuContent align="end" className="w-[200px]">
-        {onEdit && !isArchived && (
+        {onEdit && canEditSettings && !isArchived && (
           <DropdownMenuItem onClick={onEdit}>
             <Edit className="h-4 w-4 mr-2" />
             Edit Brain
           </DropdownMenuItem>
         )}
         
-        {isOwnerOrAdmin && !isArchived && <DropdownMenuSeparator />}
+        {onEdit && canEditSettings && canArchive && !isArchived && <DropdownMenuSeparator />}
         
-        {isOwnerOrAdmin && (
+        {canArchive && (
           <DropdownMenuItem 
             className={isArchived ? "text-green-600 focus:text-green-600" : "text-destructive focus:text-destructive"}
             onClick={handleArchiveToggle}
@@ -226,7 +175,14 @@ const ProjectActionsMenu: React.FC<ProjectActionsMenuProps> = ({
           </DropdownMenuItem>
         )}
 
-        {isOwner && (
+        {can('read') && (
+          <DropdownMenuItem onClick={handleExportBrain}>
+            <Download className="h-4 w-4 mr-2" />
+            Export Brain
+          </DropdownMenuItem>
+        )}
+
+        {can('deleteProject') && (
           <DropdownMenuItem 
             className="text-destructive focus:text-destructive"
             onClick={handleDeleteBrain}
@@ -236,7 +192,7 @@ const ProjectActionsMenu: React.FC<ProjectActionsMenuProps> = ({
           </DropdownMenuItem>
         )}
 
-        {isMember && !isOwner && (
+        {isMember && (
           <DropdownMenuItem 
             onClick={handleQuitBrain}
           >
@@ -1,10 +1,11 @@
 import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { UserPlus, Star, Users, Calendar, Image } from 'lucide-react';
+import { UserPlus, Star, Users, Calendar, Image, Search } from 'lucide-react';
 import { Separator } from '@/components/ui/separator';
 import { format } from 'date-fns';
 import MemberInvite from '@/components/MemberInvite';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { useSearch } from '@/contexts/SearchContext';
 
 interface ProjectHeaderProps {
   project: {
@@ -37,6 +38,7 @@ const ProjectHeader: React.FC<ProjectHeaderProps> = ({
 }) => {
   const [favorite, setFavorite] = useState(project.is_favorite || false);
   const isMobile = useIsMobile();
+  const { openSearch } = useSearch();
   
   const toggleFavorite = async () => {
     // This would be implemented with a database update
@@ -63,6 +65,15 @@ const ProjectHeader: React.FC<ProjectHeaderProps> = ({
             <p className="text-muted-foreground text-sm line-clamp-2">{project.description}</p>
           )}
         </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-muted-foreground"
+          onClick={openSearch}
+        >
+          <Search className="h-4 w-4 sm:h-5 sm:w-5" />
+          <span className="sr-only">Search all brains</span>
+        </Button>
       </div>
       
       <div className="flex flex-wrap items-center gap-x-4 gap-y-2 pt-4">
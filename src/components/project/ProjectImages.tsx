@@ -1,27 +1,11 @@
-
-import React, { useState, useEffect } from 'react';
-import { 
-  Card, 
-  CardHeader, 
-  CardTitle, 
-  CardDescription, 
-  CardContent 
-} from '@/components/ui/card';
-import { supabase } from '@/integrations/supabase/client';
+import React, { useState, useEffect, useCallback } from 'react';
 import ProjectImageUpload from '@/components/ProjectImageUpload';
 import { toast } from 'sonner';
 import { useAuth } from '@/contexts/AuthContext';
 import GalleryDialog from '@/components/image-upload/GalleryDialog';
-
-interface UploadedImage {
-  url: string;
-  path: string;
-  size: number;
-  name: string;
-  createdAt: Date;
-  summary?: string;
-  tags?: Array<{ id: string; tag: string }>;
-}
+import { UploadedImage } from '@/types/project';
+import { fetchProjectImageRecords } from '@/utils/imageUtils';
+import { moveToTrash } from '@/utils/trashUtils';
 
 interface ProjectImagesProps {
   projectId: string;
@@ -33,95 +17,26 @@ const ProjectImages: React.FC<ProjectImagesProps> = ({ projectId, onImagesUpdate
   const [isImagesLoading, setIsImagesLoading] = useState(false);
   const [uploadedImages, setUploadedImages] = useState<UploadedImage[]>([]);
   const [isGalleryOpen, setIsGalleryOpen] = useState(false);
-  const [deletedImagePaths, setDeletedImagePaths] = useState<string[]>([]);
-  
-  // Use localStorage to persist deleted image paths across sessions
-  useEffect(() => {
-    // Load deleted image paths from localStorage on component mount
-    const storedDeletedPaths = localStorage.getItem(`deletedImages-${projectId}`);
-    if (storedDeletedPaths) {
-      setDeletedImagePaths(JSON.parse(storedDeletedPaths));
-    }
-  }, [projectId]);
 
-  // Fetch images when component mounts or after deletion
-  useEffect(() => {
-    fetchProjectImages();
-  }, [projectId, deletedImagePaths]);
-
-  const fetchProjectImages = async () => {
+  const fetchProjectImages = useCallback(async () => {
     if (!projectId || !user) return;
 
     try {
       setIsImagesLoading(true);
       
-      const { data, error } = await supabase
-        .storage
-        .from('project_images')
-        .list(`${projectId}`);
-
-      if (error) throw error;
-
-      if (data) {
-        console.log('Fetched images:', data);
-        console.log('Currently deleted paths:', deletedImagePaths);
-        
-        const imagePromises = data.map(async (item) => {
-          const imagePath = `${projectId}/${item.name}`;
-          
-          // Skip images that have been deleted
-          if (deletedImagePaths.includes(imagePath)) {
-            console.log('Skipping deleted image:', imagePath);
-            return null;
-          }
-          
-          const { data: urlData } = await supabase
-            .storage
-            .from('project_images')
-            .getPublicUrl(imagePath);
-          
-          // Fetch summary if exists
-          const { data: summaryData } = await supabase
-            .from('image_summaries')
-            .select('summary')
-            .eq('image_url', urlData.publicUrl)
-            .eq('project_id', projectId)
-            .maybeSingle();
-
-          // Fetch tags if they exist
-          const { data: tagsData } = await supabase
-            .from('image_tags')
-            .select('id, tag')
-            .eq('image_url', urlData.publicUrl);
-
-          return {
-            url: urlData.publicUrl,
-            path: imagePath,
-            size: item.metadata?.size || 0,
-            name: item.name,
-            createdAt: new Date(item.created_at || Date.now()),
-            summary: summaryData?.summary || undefined,
-            tags: tagsData || []
-          };
-        });
-        
-        const imageResults = await Promise.all(imagePromises);
-        const filteredImages = imageResults.filter(img => img !== null) as UploadedImage[];
-        
-        const sortedImages = filteredImages.sort((a, b) => 
-          b.createdAt.getTime() - a.createdAt.getTime()
-        );
-
-        console.log('Processed images after filtering deleted:', sortedImages.length);
-        setUploadedImages(sortedImages);
-        onImagesUpdated(sortedImages, sortedImages.slice(0, 3));
-      }
-    } catch (error: any) {
+      const images = await fetchProjectImageRecords(projectId);
+      setUploadedImages(images);
+      onImagesUpdated(images, images.slice(0, 3));
+    } catch (error) {
       console.error('Error fetching images:', error);
     } finally {
       setIsImagesLoading(false);
     }
-  };
+  }, [projectId, user, onImagesUpdated]);
+
+  useEffect(() => {
+    fetchProjectImages();
+  }, [fetchProjectImages]);
 
   const handleImageUploadComplete = async (imageUrl: string) => {
     // Refresh the project images
@@ -131,7 +46,6 @@ const ProjectImages: React.FC<ProjectImagesProps> = ({ projectId, onImagesUpdate
 
   const handleDeleteImage = async (imagePath: string) => {
     try {
-      // Find the image in our current state
       const imageToDelete = uploadedImages.find(img => img.path === imagePath);
       
       if (!imageToDelete) {
@@ -139,51 +53,16 @@ const ProjectImages: React.FC<ProjectImagesProps> = ({ projectId, onImagesUpdate
         return;
       }
       
-      // Delete from storage
-      const { error } = await supabase
-        .storage
-        .from('project_images')
-        .remove([imagePath]);
-
-      if (error) throw error;
-      
-      // Delete any related tags
-      const { error: tagError } = await supabase
-        .from('image_tags')
-        .delete()
-        .eq('image_url', imageToDelete.url);
-        
-      if (tagError) {
-        console.error('Error deleting image tags:', tagError);
-      }
-      
-      // Delete any related summaries
-      const { error: summaryError } = await supabase
-        .from('image_summaries')
-        .delete()
-        .eq('image_url', imageToDelete.url);
-        
-      if (summaryError) {
-        console.error('Error deleting image summary:', summaryError);
-      }
-
-      // Add to deleted paths and persist to localStorage
-      const updatedDeletedPaths = [...deletedImagePaths, imagePath];
-      setDeletedImagePaths(updatedDeletedPaths);
-      localStorage.setItem(`deletedImages-${projectId}`, JSON.stringify(updatedDeletedPaths));
-      
-      console.log('Image deleted:', imagePath);
-      console.log('Updated deleted paths:', updatedDeletedPaths);
+      await moveToTrash('image', imageToDelete.id);
       
-      // Update our local state
-      const updatedImages = uploadedImages.filter(img => img.path !== imagePath);
+      const updatedImages = uploadedImages.filter(img => img.id !== imageToDelete.id);
       
       // Update both our local state and parent component state
       setUploadedImages(updatedImages);
       onImagesUpdated(updatedImages, updatedImages.slice(0, 3));
       
-      toast.success('Image deleted successfully');
-    } catch (error: any) {
+      toast.success('Image moved to trash');
+    } catch (error) {
       console.error('Error deleting image:', error);
       toast.error('Failed to delete image');
     }
@@ -194,7 +73,6 @@ const ProjectImages: React.FC<ProjectImagesProps> = ({ projectId, onImagesUpdate
       <ProjectImageUpload 
         projectId={projectId} 
         onUploadComplete={handleImageUploadComplete}
-        deletedImagePaths={deletedImagePaths}
       />
       
       <GalleryDialog
@@ -2,10 +2,13 @@
 import React from 'react';
 import MembersList from './members/MembersList';
 import EmptyMembersList from './members/EmptyMembersList';
+import PendingInvitationsList from './members/PendingInvitationsList';
 import { Loader2 } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { useUserFeatures } from '@/hooks/useUserFeatures';
 import { useProjectMembers } from '@/hooks/useProjectMembers';
+import { useProjectInvitations } from '@/hooks/useProjectInvitations';
+import { hasPermission } from '@/utils/permissions';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import MemberInvite from '@/components/MemberInvite';
@@ -24,10 +27,18 @@ const ProjectMembers: React.FC<ProjectMembersProps> = ({ projectId, userRole })
     setShowInviteDialog,
     handleAddMember 
   } = useProjectMembers(projectId, undefined, undefined);
+  const canManageMembers = hasPermission(userRole, 'manageMembers');
+  const {
+    invitations,
+    busyId,
+    refresh: refreshInvitations,
+    resendInvitation,
+    revokeInvitation
+  } = useProjectInvitations(projectId, canManageMembers);
 
   const handleInviteSuccess = () => {
-    // Refresh happens automatically via useProjectMembers
-    toast.success('Member invited successfully');
+    // Members refresh automatically via useProjectMembers; email invitations are listed separately
+    refreshInvitations();
   };
 
   const handleUpdateMemberRole = async (memberId: string, newRole: string) => {
@@ -111,6 +122,15 @@ const ProjectMembers: React.FC<ProjectMembersProps> = ({ projectId, userRole })
           onAddMember={handleAddMember}
         />
       )}
+
+      {canManageMembers && (
+        <PendingInvitationsList
+          invitations={invitations}
+          busyId={busyId}
+          onResend={resendInvitation}
+          onRevoke={revokeInvitation}
+        />
+      )}
     </div>
   );
 };
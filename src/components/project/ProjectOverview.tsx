@@ -5,6 +5,7 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { hasPermission } from '@/utils/permissions';
 
 interface ProjectMember {
   id: string;
@@ -160,7 +161,7 @@ const ProjectOverview: React.FC<ProjectOverviewProps> = ({
                   </div>
                 )}
                 
-                {userRole === 'owner' && (
+                {hasPermission(userRole, 'manageMembers') && (
                   <Button 
                     variant="outline" 
                     size="icon"
@@ -8,6 +8,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { Loader2 } from 'lucide-react';
 import CleanUpdateButton from './update/CleanUpdateButton';
+import { useNoteAiModel } from '@/hooks/notes/useNoteAiModel';
 
 interface ProjectQuickUpdateProps {
   projectId: string;
@@ -20,7 +21,7 @@ const ProjectQuickUpdate: React.FC<ProjectQuickUpdateProps> = ({
 }) => {
   const [updateContent, setUpdateContent] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [aiModel, setAiModel] = useState<'claude' | 'openai'>('claude');
+  const { aiModel, setAiModel } = useNoteAiModel(projectId);
   const { user } = useAuth();
   
   const handleSubmit = async (e: React.FormEvent) => {
@@ -82,6 +83,7 @@ const ProjectQuickUpdate: React.FC<ProjectQuickUpdateProps> = ({
                 onTextCleaned={handleCleanedText}
                 model={aiModel}
                 onModelChange={setAiModel}
+                projectId={projectId}
               />
               
               <Button 
@@ -4,9 +4,15 @@ import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/com
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Loader2 } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { isModelType, MODEL_LABELS, MODEL_TYPES, ModelType } from '@/utils/aiPrompts';
+import { usePermissions } from '@/hooks/usePermissions';
+
+// Select value for "no brain default"; stored as NULL
+const FEATURE_DEFAULT = 'feature-default';
 
 interface ProjectSettingsProps {
   projectId: string;
@@ -17,7 +23,10 @@ const ProjectSettings: React.FC<ProjectSettingsProps> = ({ projectId }) => {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [aiPersona, setAiPersona] = useState('');
+  const [defaultModel, setDefaultModel] = useState<ModelType | typeof FEATURE_DEFAULT>(FEATURE_DEFAULT);
   const { toast } = useToast();
+  const { canEditSettings, loading: permissionsLoading } = usePermissions(projectId);
+  const readOnly = !permissionsLoading && !canEditSettings;
 
   // Fetch project details when component mounts
   useEffect(() => {
@@ -25,7 +34,7 @@ const ProjectSettings: React.FC<ProjectSettingsProps> = ({ projectId }) => {
       try {
         const { data, error } = await supabase
           .from('projects')
-          .select('title, description, ai_persona')
+          .select('title, description, ai_persona, default_model')
           .eq('id', projectId)
           .single();
 
@@ -35,6 +44,7 @@ const ProjectSettings: React.FC<ProjectSettingsProps> = ({ projectId }) => {
           setTitle(data.title);
           setDescription(data.description || '');
           setAiPersona(data.ai_persona || '');
+          setDefaultModel(isModelType(data.default_model) ? data.default_model : FEATURE_DEFAULT);
         }
       } catch (error) {
         console.error('Error fetching project:', error);
@@ -51,6 +61,7 @@ const ProjectSettings: React.FC<ProjectSettingsProps> = ({ projectId }) => {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!canEditSettings) return;
     setLoading(true);
 
     try {
@@ -60,6 +71,7 @@ const ProjectSettings: React.FC<ProjectSettingsProps> = ({ projectId }) => {
           title: title.trim(),
           description: description.trim(),
           ai_persona: aiPersona.trim(),
+          default_model: defaultModel === FEATURE_DEFAULT ? null : defaultModel,
           updated_at: new Date().toISOString(),
         })
         .eq('id', projectId);
@@ -87,62 +99,92 @@ const ProjectSettings: React.FC<ProjectSettingsProps> = ({ projectId }) => {
       <CardHeader>
         <CardTitle>Project Settings</CardTitle>
         <CardDescription>
-          Configure your project's basic information
+          {readOnly
+            ? 'Only admins and the owner of this brain can change its settings'
+            : "Configure your project's basic information"}
         </CardDescription>
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-6">
-          <div className="space-y-2">
-            <label htmlFor="title" className="text-sm font-medium">
-              Project Name
-            </label>
-            <Input
-              id="title"
-              value={title}
-              onChange={(e) => setTitle(e.target.value)}
-              placeholder="Enter project name"
-              className="max-w-md"
-              required
-            />
-          </div>
-
-          <div className="space-y-2">
-            <label htmlFor="description" className="text-sm font-medium">
-              Description
-            </label>
-            <Textarea
-              id="description"
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              placeholder="Enter project description"
-              className="max-w-md"
-              rows={4}
-            />
-          </div>
-
-          <div className="space-y-2">
-            <label htmlFor="aiPersona" className="text-sm font-medium">
-              AI Persona
-            </label>
-            <Textarea
-              id="aiPersona"
-              value={aiPersona}
-              onChange={(e) => setAiPersona(e.target.value)}
-              placeholder="Describe how you want the AI assistant to behave, e.g., 'Act as a helpful project manager who prioritizes tasks and suggests next steps'"
-              className="max-w-md"
-              rows={4}
-            />
-            <p className="text-xs text-muted-foreground mt-1">
-              This will guide how the AI assistant responds when discussing your project.
-            </p>
-          </div>
-
-          <div className="flex items-center gap-4">
-            <Button type="submit" disabled={loading}>
-              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              Save Changes
-            </Button>
-          </div>
+          <fieldset disabled={readOnly} className="space-y-6">
+            <div className="space-y-2">
+              <label htmlFor="title" className="text-sm font-medium">
+                Project Name
+              </label>
+              <Input
+                id="title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="Enter project name"
+                className="max-w-md"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="description" className="text-sm font-medium">
+                Description
+              </label>
+              <Textarea
+                id="description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Enter project description"
+                className="max-w-md"
+                rows={4}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="aiPersona" className="text-sm font-medium">
+                AI Persona
+              </label>
+              <Textarea
+                id="aiPersona"
+                value={aiPersona}
+                onChange={(e) => setAiPersona(e.target.value)}
+                placeholder="Describe how you want the AI assistant to behave, e.g., 'Act as a helpful project manager who prioritizes tasks and suggests next steps'"
+                className="max-w-md"
+                rows={4}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                This will guide how the AI assistant responds when discussing your project.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="defaultModel" className="text-sm font-medium">
+                Default AI Model
+              </label>
+              <Select
+                value={defaultModel}
+                onValueChange={(value) => setDefaultModel(value as ModelType | typeof FEATURE_DEFAULT)}
+              >
+                <SelectTrigger id="defaultModel" className="max-w-md">
+                  <SelectValue placeholder="Select AI model" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={FEATURE_DEFAULT}>Each feature's default</SelectItem>
+                  {MODEL_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{MODEL_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                Used for chat, summaries and note tools in this brain unless you pick a different model for a single action.
+              </p>
+            </div>
+
+          </fieldset>
+
+          {!readOnly && (
+            <div className="flex items-center gap-4">
+              <Button type="submit" disabled={loading || permissionsLoading}>
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save Changes
+              </Button>
+            </div>
+          )}
         </form>
       </CardContent>
     </Card>
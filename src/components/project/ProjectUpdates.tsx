@@ -77,13 +77,17 @@ const ProjectUpdates: React.FC<ProjectUpdatesProps> = ({ projectId }) => {
 
   const handleDeleteUpdate = async (updateId: string) => {
     try {
-      const { error } = await supabase
+      // Editors can delete any update; row level security removes nothing otherwise
+      const { data: deleted, error } = await supabase
         .from('project_updates')
         .delete()
         .eq('id', updateId)
-        .eq('user_id', user?.id); // Ensure only the owner can delete
+        .select('id');
       
       if (error) throw error;
+      if (!deleted || deleted.length === 0) {
+        throw new Error('You do not have permission to delete this update');
+      }
       
       // Update local state
       setUpdates(updates.filter(update => update.id !== updateId));
@@ -0,0 +1,125 @@
+
+import React, { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProjectImages } from '@/hooks/useProjectImages';
+import NotesViewDialog from '@/components/notes/NotesViewDialog';
+import GalleryDialog from '@/components/image-upload/GalleryDialog';
+import DocumentViewerDialog from '@/components/project/document/DocumentViewerDialog';
+import { Note } from '@/components/notes/types';
+import { Citation } from './types';
+
+interface ChatCitationViewerProps {
+  projectId: string;
+  citation: Citation | null;
+  onClose: () => void;
+}
+
+const CitedNote: React.FC<{ noteId: string; onClose: () => void }> = ({ noteId, onClose }) => {
+  const [note, setNote] = useState<Note | null>(null);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    const fetchNote = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('project_notes')
+          .select('*')
+          .eq('id', noteId)
+          .maybeSingle();
+
+        if (error) throw error;
+
+        if (!data) {
+          toast.error('This note no longer exists');
+          onClose();
+          return;
+        }
+
+        const docData = data.source_document as { type?: string; url?: string; name?: string } | null;
+        setNote({
+          ...data,
+          source_document: docData?.type && docData?.url && docData?.name ? {
+            type: docData.type as 'pdf' | 'image',
+            url: docData.url as string,
+            name: docData.name as string
+          } : null
+        });
+      } catch (error) {
+        console.error('Error fetching cited note:', error);
+        toast.error('Failed to open note');
+        onClose();
+      }
+    };
+
+    fetchNote();
+  }, [noteId, onClose]);
+
+  return (
+    <NotesViewDialog
+      isOpen={!!note}
+      setIsOpen={(open) => !open && onClose()}
+      note={note}
+      onEdit={() => {}}
+      onDelete={() => {}}
+      userId={user?.id}
+      readOnly
+    />
+  );
+};
+
+const CitedImage: React.FC<{ projectId: string; citation: Citation; onClose: () => void }> = ({
+  projectId,
+  citation,
+  onClose
+}) => {
+  const { user } = useAuth();
+  const { projectImages, isImagesLoading, fetchProjectImages } = useProjectImages(projectId, user?.id);
+  const imageName = citation.url
+    ? decodeURIComponent(citation.url.split('?')[0].split('/').pop() || '')
+    : citation.title;
+
+  return (
+    <GalleryDialog
+      isOpen
+      onOpenChange={(open) => !open && onClose()}
+      uploadedImages={projectImages}
+      isLoading={isImagesLoading}
+      projectId={projectId}
+      onImageRenamed={fetchProjectImages}
+      focusImageName={imageName}
+    />
+  );
+};
+
+// Opens the item behind a chat citation: notes in the note view, PDFs in the
+// document viewer at the cited page and images in the gallery
+const ChatCitationViewer: React.FC<ChatCitationViewerProps> = ({ projectId, citation, onClose }) => {
+  if (!citation) return null;
+
+  switch (citation.type) {
+    case 'note':
+      return <CitedNote key={citation.id} noteId={citation.id} onClose={onClose} />;
+
+    case 'document':
+      if (!citation.url) return null;
+      return (
+        <DocumentViewerDialog
+          isOpen
+          onClose={onClose}
+          fileName={citation.title}
+          fileUrl={citation.url}
+          page={citation.page}
+        />
+      );
+
+    case 'image':
+      return <CitedImage key={citation.id} projectId={projectId} citation={citation} onClose={onClose} />;
+
+    default:
+      return null;
+  }
+};
+
+export default ChatCitationViewer;
@@ -0,0 +1,187 @@
+
+import React, { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { MessageSquarePlus, MoreHorizontal, Pencil, Trash2, Users, Lock, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import { ChatConversation } from './types';
+
+interface ChatConversationListProps {
+  conversations: ChatConversation[];
+  activeConversationId: string | null;
+  isLoading: boolean;
+  onSelect: (conversationId: string) => void;
+  onNewConversation: () => void;
+  onRename: (conversationId: string, title: string) => Promise<boolean>;
+  onToggleShared: (conversationId: string, isShared: boolean) => Promise<boolean>;
+  onDelete: (conversationId: string) => Promise<boolean>;
+}
+
+const ChatConversationList: React.FC<ChatConversationListProps> = ({
+  conversations,
+  activeConversationId,
+  isLoading,
+  onSelect,
+  onNewConversation,
+  onRename,
+  onToggleShared,
+  onDelete
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  const startEditing = (conversation: ChatConversation) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title);
+  };
+
+  const submitRename = async () => {
+    if (editingId && editingTitle.trim()) {
+      await onRename(editingId, editingTitle);
+    }
+    setEditingId(null);
+  };
+
+  const ownConversations = conversations.filter(conversation => conversation.is_own);
+  const sharedConversations = conversations.filter(conversation => !conversation.is_own);
+
+  const renderConversation = (conversation: ChatConversation) => {
+    const isActive = conversation.id === activeConversationId;
+
+    if (editingId === conversation.id) {
+      return (
+        <form
+          key={conversation.id}
+          onSubmit={(e) => {
+            e.preventDefault();
+            submitRename();
+          }}
+          className="px-2 py-1"
+        >
+          <Input
+            autoFocus
+            value={editingTitle}
+            onChange={(e) => setEditingTitle(e.target.value)}
+            onBlur={submitRename}
+            onKeyDown={(e) => e.key === 'Escape' && setEditingId(null)}
+            className="h-8 text-sm"
+          />
+        </form>
+      );
+    }
+
+    return (
+      <div
+        key={conversation.id}
+        className={cn(
+          "group flex items-center rounded-md px-2 py-2 cursor-pointer transition-colors",
+          isActive ? "bg-primary/10 text-primary" : "hover:bg-accent/60"
+        )}
+        onClick={() => onSelect(conversation.id)}
+      >
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center text-sm font-medium">
+            <span className="truncate">{conversation.title}</span>
+            {conversation.is_shared && conversation.is_own && (
+              <Users className="h-3 w-3 ml-1.5 flex-shrink-0 text-muted-foreground" />
+            )}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {formatDistanceToNow(new Date(conversation.updated_at), { addSuffix: true })}
+          </div>
+        </div>
+
+        {conversation.is_own && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 opacity-0 group-hover:opacity-100 focus:opacity-100"
+              >
+                <MoreHorizontal className="h-4 w-4" />
+                <span className="sr-only">Conversation actions</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-[180px]" onClick={(e) => e.stopPropagation()}>
+              <DropdownMenuItem onClick={() => startEditing(conversation)}>
+                <Pencil className="h-4 w-4 mr-2" />
+                Rename
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onToggleShared(conversation.id, !conversation.is_shared)}>
+                {conversation.is_shared ? (
+                  <>
+                    <Lock className="h-4 w-4 mr-2" />
+                    Make private
+                  </>
+                ) : (
+                  <>
+                    <Users className="h-4 w-4 mr-2" />
+                    Share with members
+                  </>
+                )}
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                className="text-red-600"
+                onClick={() => onDelete(conversation.id)}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-3 border-b">
+        <Button onClick={onNewConversation} variant="outline" className="w-full justify-start">
+          <MessageSquarePlus className="h-4 w-4 mr-2" />
+          New conversation
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-2 space-y-1">
+          {isLoading && conversations.length === 0 && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {!isLoading && conversations.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-6 px-2">
+              Your conversations will appear here
+            </p>
+          )}
+
+          {ownConversations.map(renderConversation)}
+
+          {sharedConversations.length > 0 && (
+            <>
+              <div className="pt-4 pb-1 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                Shared by members
+              </div>
+              {sharedConversations.map(renderConversation)}
+            </>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default ChatConversationList;
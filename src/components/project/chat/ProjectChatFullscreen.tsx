@@ -1,6 +1,6 @@
 
-import React, { useRef, useEffect } from 'react';
-import { X, Send, Loader2, AlertCircle, ZapOff } from 'lucide-react';
+import React, { useRef, useEffect, useState, useCallback } from 'react';
+import { X, Send, Loader2, AlertCircle, ZapOff, History, MessageSquarePlus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Dialog, DialogContent, DialogTitle, DialogDescription } from '@/components/ui/dialog';
@@ -8,6 +8,9 @@ import { useProjectChat } from '@/hooks/useProjectChat';
 import ProjectChatMessage from './ProjectChatMessage';
 import ProjectChatInput from './ProjectChatInput';
 import ProjectChatSuggestions from './ProjectChatSuggestions';
+import ChatConversationList from './ChatConversationList';
+import ChatCitationViewer from './ChatCitationViewer';
+import { Citation } from './types';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { useNavigate } from 'react-router-dom';
 
@@ -22,7 +25,29 @@ const ProjectChatFullscreen: React.FC<ProjectChatFullscreenProps> = ({
   isOpen,
   onClose
 }) => {
-  const { messages, isLoading, error, predefinedQuestions, sendMessage } = useProjectChat(projectId);
+  const {
+    messages,
+    isLoading,
+    isStreaming,
+    isLoadingMessages,
+    error,
+    quotaExceeded,
+    predefinedQuestions,
+    sendMessage,
+    cancelMessage,
+    conversationId,
+    isReadOnly,
+    conversations,
+    isLoadingConversations,
+    loadConversation,
+    startNewConversation,
+    renameConversation,
+    setConversationShared,
+    deleteConversation
+  } = useProjectChat(projectId);
+  const [showHistory, setShowHistory] = useState(false);
+  const [activeCitation, setActiveCitation] = useState<Citation | null>(null);
+  const closeCitation = useCallback(() => setActiveCitation(null), []);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const isMobile = useIsMobile();
   const navigate = useNavigate();
@@ -54,8 +79,18 @@ const ProjectChatFullscreen: React.FC<ProjectChatFullscreenProps> = ({
     sendMessage(question);
   };
 
-  // Check if error is related to API limit
-  const isApiLimitError = error?.includes('Daily API limit reached');
+  const handleSelectConversation = (id: string) => {
+    loadConversation(id);
+    setShowHistory(false);
+  };
+
+  const handleNewConversation = () => {
+    startNewConversation();
+    setShowHistory(false);
+  };
+
+  // The plan's monthly AI call limit stopped the last message
+  const isApiLimitError = quotaExceeded?.quota === 'api_calls';
 
   // Render error message if one exists
   const renderError = () => {
@@ -70,7 +105,7 @@ const ProjectChatFullscreen: React.FC<ProjectChatFullscreenProps> = ({
         )}
         <div className="space-y-2 flex-1">
           <p className="font-medium text-destructive">
-            {isApiLimitError ? 'Daily AI API Limit Reached' : 'Error sending message'}
+            {isApiLimitError ? quotaExceeded.message : 'Error sending message'}
           </p>
           <p className="text-sm text-muted-foreground">{error}</p>
           
@@ -82,7 +117,7 @@ const ProjectChatFullscreen: React.FC<ProjectChatFullscreenProps> = ({
                 onClick={() => navigate('/subscription')}
                 className="w-full sm:w-auto mt-1"
               >
-                Upgrade to Pro for unlimited API calls
+                View plans
               </Button>
             </div>
           )}
@@ -104,55 +139,126 @@ const ProjectChatFullscreen: React.FC<ProjectChatFullscreenProps> = ({
             </span>
             Project Assistant
           </h2>
-          <Button 
-            variant="ghost" 
-            size="icon" 
-            onClick={onClose} 
-            className="rounded-full hover:bg-background/80 transition-colors"
-          >
-            <X className="h-5 w-5" />
-            <span className="sr-only">Close</span>
-          </Button>
-        </div>
-        
-        <ScrollArea className="flex-1 py-8 px-6 md:px-10 bg-gradient-to-b from-background/50 to-background/30">
-          <div className="space-y-8 max-w-3xl mx-auto">
-            {messages.map((message, index) => (
-              <ProjectChatMessage key={index} message={message} />
-            ))}
-            {isLoading && (
-              <div className="flex justify-start">
-                <div className="glass-panel p-4 rounded-lg shadow-sm flex items-center space-x-3">
-                  <Loader2 className="h-6 w-6 text-primary animate-spin" />
-                  <span className="text-muted-foreground">Thinking...</span>
-                </div>
-              </div>
+          <div className="flex items-center space-x-1">
+            {isMobile && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={handleNewConversation}
+                  className="rounded-full hover:bg-background/80 transition-colors"
+                >
+                  <MessageSquarePlus className="h-5 w-5" />
+                  <span className="sr-only">New conversation</span>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setShowHistory(!showHistory)}
+                  className="rounded-full hover:bg-background/80 transition-colors"
+                >
+                  <History className="h-5 w-5" />
+                  <span className="sr-only">Conversation history</span>
+                </Button>
+              </>
             )}
-            {renderError()}
-            <div ref={messagesEndRef} />
+            <Button 
+              variant="ghost" 
+              size="icon" 
+              onClick={onClose} 
+              className="rounded-full hover:bg-background/80 transition-colors"
+            >
+              <X className="h-5 w-5" />
+              <span className="sr-only">Close</span>
+            </Button>
           </div>
-        </ScrollArea>
+        </div>
         
-        <div className="p-6 border-t bg-white shadow-sm">
-          {!isMobile && (
-            <div className="mb-5">
-              <div className="mb-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Suggested questions</div>
-              <ProjectChatSuggestions 
-                questions={predefinedQuestions} 
-                onSelectQuestion={handlePredefinedQuestion} 
-                compact 
+        <div className="flex flex-1 min-h-0">
+          {(!isMobile || showHistory) && (
+            <aside className={isMobile ? "flex-1 bg-white" : "w-64 flex-shrink-0 border-r bg-white/60"}>
+              <ChatConversationList
+                conversations={conversations}
+                activeConversationId={conversationId}
+                isLoading={isLoadingConversations}
+                onSelect={handleSelectConversation}
+                onNewConversation={handleNewConversation}
+                onRename={renameConversation}
+                onToggleShared={setConversationShared}
+                onDelete={deleteConversation}
               />
+            </aside>
+          )}
+          
+          {!(isMobile && showHistory) && (
+            <div className="flex flex-col flex-1 min-w-0">
+              <ScrollArea className="flex-1 py-8 px-6 md:px-10 bg-gradient-to-b from-background/50 to-background/30">
+                <div className="space-y-8 max-w-3xl mx-auto">
+                  {isLoadingMessages && (
+                    <div className="flex justify-center py-8">
+                      <Loader2 className="h-6 w-6 text-primary animate-spin" />
+                    </div>
+                  )}
+                  {messages.map((message, index) => (
+                    <ProjectChatMessage
+                      key={index}
+                      message={message}
+                      onCitationClick={setActiveCitation}
+                      isStreaming={isStreaming && index === messages.length - 1}
+                    />
+                  ))}
+                  {isLoading && !isStreaming && (
+                    <div className="flex justify-start">
+                      <div className="glass-panel p-4 rounded-lg shadow-sm flex items-center space-x-3">
+                        <Loader2 className="h-6 w-6 text-primary animate-spin" />
+                        <span className="text-muted-foreground">Thinking...</span>
+                      </div>
+                    </div>
+                  )}
+                  {renderError()}
+                  <div ref={messagesEndRef} />
+                </div>
+              </ScrollArea>
+              
+              {isReadOnly ? (
+                <div className="p-6 border-t bg-white shadow-sm text-center text-sm text-muted-foreground">
+                  This conversation was shared by another member and is read-only.{' '}
+                  <Button variant="link" className="px-1 h-auto" onClick={handleNewConversation}>
+                    Start a new conversation
+                  </Button>
+                </div>
+              ) : (
+                <div className="p-6 border-t bg-white shadow-sm">
+                  {!isMobile && (
+                    <div className="mb-5">
+                      <div className="mb-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Suggested questions</div>
+                      <ProjectChatSuggestions 
+                        questions={predefinedQuestions} 
+                        onSelectQuestion={handlePredefinedQuestion} 
+                        compact 
+                      />
+                    </div>
+                  )}
+                  <div className="max-w-3xl mx-auto">
+                    <ProjectChatInput 
+                      onSendMessage={sendMessage} 
+                      isLoading={isLoading} 
+                      disabled={isApiLimitError} 
+                      onCancel={cancelMessage}
+                    />
+                  </div>
+                </div>
+              )}
             </div>
           )}
-          <div className="max-w-3xl mx-auto">
-            <ProjectChatInput 
-              onSendMessage={sendMessage} 
-              isLoading={isLoading} 
-              disabled={isApiLimitError} 
-            />
-          </div>
         </div>
       </DialogContent>
+
+      <ChatCitationViewer
+        projectId={projectId}
+        citation={activeCitation}
+        onClose={closeCitation}
+      />
     </Dialog>
   );
 };
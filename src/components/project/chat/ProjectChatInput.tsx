@@ -2,19 +2,22 @@
 import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import { SendHorizontal, Loader2 } from 'lucide-react';
+import { SendHorizontal, Loader2, Square } from 'lucide-react';
 import { useIsMobile } from '@/hooks/use-mobile';
 
 interface ProjectChatInputProps {
   onSendMessage: (message: string) => void;
   isLoading: boolean;
   disabled?: boolean;
+  // When set, the send button turns into a stop button while an answer is generated
+  onCancel?: () => void;
 }
 
 const ProjectChatInput: React.FC<ProjectChatInputProps> = ({ 
   onSendMessage, 
   isLoading,
-  disabled = false
+  disabled = false,
+  onCancel
 }) => {
   const [input, setInput] = useState('');
   const isMobile = useIsMobile();
@@ -47,18 +50,29 @@ const ProjectChatInput: React.FC<ProjectChatInputProps> = ({
           disabled={disabled}
         />
         <div className="flex flex-col gap-2">
-          <Button
-            onClick={handleSend}
-            disabled={isLoading || !input.trim() || disabled}
-            className="h-12 w-12 rounded-full flex-shrink-0 shadow-sm"
-            aria-label="Send message"
-          >
-            {isLoading ? (
-              <Loader2 className="h-5 w-5 animate-spin" />
-            ) : (
-              <SendHorizontal className="h-5 w-5" />
-            )}
-          </Button>
+          {isLoading && onCancel ? (
+            <Button
+              onClick={onCancel}
+              variant="outline"
+              className="h-12 w-12 rounded-full flex-shrink-0 shadow-sm"
+              aria-label="Stop generating"
+            >
+              <Square className="h-4 w-4 fill-current" />
+            </Button>
+          ) : (
+            <Button
+              onClick={handleSend}
+              disabled={isLoading || !input.trim() || disabled}
+              className="h-12 w-12 rounded-full flex-shrink-0 shadow-sm"
+              aria-label="Send message"
+            >
+              {isLoading ? (
+                <Loader2 className="h-5 w-5 animate-spin" />
+              ) : (
+                <SendHorizontal className="h-5 w-5" />
+              )}
+            </Button>
+          )}
         </div>
       </div>
     </div>
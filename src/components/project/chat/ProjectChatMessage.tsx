@@ -1,19 +1,26 @@
 
 import React from 'react';
-import ReactMarkdown from 'react-markdown';
-import { User, Bot } from 'lucide-react';
-
-interface Message {
-  role: 'user' | 'assistant';
-  content: string;
-}
+import { User, Bot, FileText, StickyNote, Image, Clock } from 'lucide-react';
+import { Citation, CitationType, Message } from './types';
+import MarkdownContent from '@/components/markdown/MarkdownContent';
 
 interface ProjectChatMessageProps {
   message: Message;
+  onCitationClick?: (citation: Citation) => void;
+  // The answer is still being generated and grows as text arrives
+  isStreaming?: boolean;
 }
 
-const ProjectChatMessage: React.FC<ProjectChatMessageProps> = ({ message }) => {
+const citationIcons: Record<CitationType, React.ElementType> = {
+  note: StickyNote,
+  document: FileText,
+  image: Image,
+  update: Clock,
+};
+
+const ProjectChatMessage: React.FC<ProjectChatMessageProps> = ({ message, onCitationClick, isStreaming = false }) => {
   const isUser = message.role === 'user';
+  const citations = message.citations || [];
   
   return (
     <div className={`flex items-start ${isUser ? 'justify-end' : 'justify-start'}`}>
@@ -33,10 +40,39 @@ const ProjectChatMessage: React.FC<ProjectChatMessageProps> = ({ message }) => {
         {isUser ? (
           <div>{message.content}</div>
         ) : (
-          <div className="prose prose-sm max-w-none">
-            <ReactMarkdown>
-              {message.content}
-            </ReactMarkdown>
+          <div>
+            <MarkdownContent content={message.content} />
+            {isStreaming && (
+              <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-primary/60 animate-pulse" />
+            )}
+          </div>
+        )}
+        
+        {!isUser && citations.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mt-3 pt-3 border-t border-border/40">
+            {citations.map(citation => {
+              const Icon = citationIcons[citation.type] || FileText;
+              // Updates have no dedicated view, so their chips are informational only
+              const isClickable = !!onCitationClick && citation.type !== 'update';
+              
+              return (
+                <button
+                  key={`${citation.index}-${citation.id}`}
+                  type="button"
+                  disabled={!isClickable}
+                  onClick={() => onCitationClick?.(citation)}
+                  title={citation.title}
+                  className="inline-flex items-center max-w-[220px] rounded-full border bg-background px-2.5 py-1 text-xs text-foreground/80 transition-colors enabled:hover:bg-primary/10 enabled:hover:text-primary disabled:cursor-default"
+                >
+                  <span className="font-medium mr-1">[{citation.index}]</span>
+                  <Icon className="h-3 w-3 mr-1 flex-shrink-0" />
+                  <span className="truncate">{citation.title}</span>
+                  {citation.page && (
+                    <span className="ml-1 flex-shrink-0 text-muted-foreground">p. {citation.page}</span>
+                  )}
+                </button>
+              );
+            })}
           </div>
         )}
       </div>
@@ -0,0 +1,30 @@
+
+export type CitationType = 'note' | 'document' | 'update' | 'image';
+
+export interface Citation {
+  // Number used in the answer text, e.g. [2]
+  index: number;
+  type: CitationType;
+  id: string;
+  title: string;
+  page?: number;
+  url?: string;
+}
+
+export interface Message {
+  role: 'user' | 'assistant';
+  content: string;
+  citations?: Citation[];
+}
+
+export interface ChatConversation {
+  id: string;
+  project_id: string;
+  user_id: string;
+  title: string;
+  is_shared: boolean;
+  created_at: string;
+  updated_at: string;
+  // Whether the current user started this thread (only they can continue it)
+  is_own: boolean;
+}
@@ -9,18 +9,23 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { toast } from 'sonner';
+import { usePermissions } from '@/hooks/usePermissions';
 
 interface DocumentActionsProps {
+  projectId: string;
   fileName: string;
   fileUrl: string | null;
   onDelete: () => void;
 }
 
 const DocumentActions: React.FC<DocumentActionsProps> = ({
+  projectId,
   fileName,
   fileUrl,
   onDelete
 }) => {
+  const { canEditContent } = usePermissions(projectId);
+
   const handleDownload = () => {
     if (fileUrl) {
       window.open(fileUrl, '_blank');
@@ -41,10 +46,12 @@ const DocumentActions: React.FC<DocumentActionsProps> = ({
           <Download className="h-4 w-4 mr-2" />
           Download
         </DropdownMenuItem>
-        <DropdownMenuItem onClick={onDelete} className="text-destructive">
-          <Trash2 className="h-4 w-4 mr-2" />
-          Delete
-        </DropdownMenuItem>
+        {canEditContent && (
+          <DropdownMenuItem onClick={onDelete} className="text-destructive">
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </DropdownMenuItem>
+        )}
       </DropdownMenuContent>
     </DropdownMenu>
   );
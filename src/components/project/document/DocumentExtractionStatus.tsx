@@ -0,0 +1,118 @@
+
+import React, { useState } from 'react';
+import { toast } from 'sonner';
+import { AlertCircle, Loader2, RotateCcw } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { usePermissions } from '@/hooks/usePermissions';
+import { isExtractionInProgress, isExtractionStalled } from '@/hooks/useProjectDocuments';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+
+interface DocumentExtractionStatusProps {
+  documentId: string;
+  projectId: string;
+  status?: string;
+  error?: string | null;
+  createdAt: string;
+  startedAt?: string | null;
+  pageCount?: number | null;
+  onRefresh?: () => void;
+}
+
+const DocumentExtractionStatus: React.FC<DocumentExtractionStatusProps> = ({
+  documentId,
+  projectId,
+  status,
+  error,
+  createdAt,
+  startedAt,
+  pageCount,
+  onRefresh
+}) => {
+  const { canEditContent } = usePermissions(projectId);
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  const handleRetry = async () => {
+    setIsRetrying(true);
+
+    try {
+      const { data, error: invokeError } = await supabase.functions.invoke('extract-document-text', {
+        body: { documentId, retry: true }
+      });
+
+      if (invokeError) throw invokeError;
+
+      if (data?.status === 'failed') {
+        toast.error(`Text extraction failed: ${data.error || 'Unknown error'}`);
+      } else if (data?.status !== 'ready') {
+        toast.info('Text extraction is still running');
+      } else {
+        toast.success('Text extracted successfully');
+      }
+    } catch (retryError) {
+      console.error('Error retrying text extraction:', retryError);
+      toast.error(`Failed to retry text extraction: ${retryError.message}`);
+    } finally {
+      setIsRetrying(false);
+      onRefresh?.();
+    }
+  };
+
+  const extraction = { created_at: createdAt, extraction_status: status, extraction_started_at: startedAt };
+  const isStalled = isExtractionStalled(extraction);
+
+  if (isRetrying || isExtractionInProgress(extraction)) {
+    return (
+      <Badge variant="secondary" className="gap-1 font-normal">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Extracting text…
+      </Badge>
+    );
+  }
+
+  if (status === 'failed' || isStalled) {
+    return (
+      <div className="flex items-center gap-1">
+        <TooltipProvider>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Badge variant="destructive" className="gap-1 font-normal">
+                <AlertCircle className="h-3 w-3" />
+                {isStalled ? 'Extraction stalled' : 'Extraction failed'}
+              </Badge>
+            </TooltipTrigger>
+            <TooltipContent className="max-w-[300px]">
+              {isStalled
+                ? 'Text extraction has not finished in time'
+                : error || 'The text of this document could not be extracted'}
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+        {canEditContent && (
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={handleRetry}>
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Retry
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  if (status === 'ready' && pageCount) {
+    return (
+      <span className="text-xs text-muted-foreground">
+        {pageCount} {pageCount === 1 ? 'page' : 'pages'}
+      </span>
+    );
+  }
+
+  return null;
+};
+
+export default DocumentExtractionStatus;
@@ -1,12 +1,15 @@
 
 import React from 'react';
 import { toast } from 'sonner';
-import { supabase } from '@/integrations/supabase/client';
+import { moveToTrash } from '@/utils/trashUtils';
 import DocumentActions from './DocumentActions';
 import DocumentPdfActions from './DocumentPdfActions';
 import DocumentItemHeader from './DocumentItemHeader';
+import DocumentExtractionStatus from './DocumentExtractionStatus';
 import useDocumentSummary from './DocumentSummaryHandler';
 import { Separator } from '@/components/ui/separator';
+import NoteBacklinks from '@/components/notes/view-dialog/NoteBacklinks';
+import { Backlink } from '@/hooks/useNoteLinks';
 
 interface DocumentItemProps {
   document: {
@@ -17,6 +20,10 @@ interface DocumentItemProps {
     document_type?: string;
     file_size?: number;
     content_text?: string;
+    extraction_status?: string;
+    extraction_error?: string | null;
+    extraction_started_at?: string | null;
+    page_count?: number | null;
     metadata?: {
       pdf_url?: string;
     };
@@ -25,6 +32,9 @@ interface DocumentItemProps {
   onRefresh?: () => void;
   projectId: string;
   isLast?: boolean;
+  // Notes that link to this document with [[its name]]
+  backlinks?: Backlink[];
+  onOpenNote?: (backlink: Backlink) => void;
 }
 
 const DocumentItem: React.FC<DocumentItemProps> = ({ 
@@ -32,7 +42,9 @@ const DocumentItem: React.FC<DocumentItemProps> = ({
   onDelete, 
   onRefresh,
   projectId,
-  isLast = false
+  isLast = false,
+  backlinks,
+  onOpenNote
 }) => {
   const fileExtension = document.file_name.split('.').pop()?.toLowerCase();
   const isPdf = fileExtension === 'pdf';
@@ -44,7 +56,8 @@ const DocumentItem: React.FC<DocumentItemProps> = ({
     fileName: document.file_name,
     fileUrl: pdfUrl,
     isPdf,
-    projectId
+    projectId,
+    documentId: document.id
   });
 
   const handleDelete = async () => {
@@ -54,14 +67,9 @@ const DocumentItem: React.FC<DocumentItemProps> = ({
     if (!confirmed) return;
     
     try {
-      const { error } = await supabase
-        .from('project_documents')
-        .delete()
-        .eq('id', document.id);
+      await moveToTrash('document', document.id);
       
-      if (error) throw error;
-      
-      toast.success(`"${document.file_name}" deleted successfully`);
+      toast.success(`"${document.file_name}" moved to trash`);
       onDelete(document.id);
       
       if (onRefresh) {
@@ -80,7 +88,20 @@ const DocumentItem: React.FC<DocumentItemProps> = ({
           <DocumentItemHeader
             fileName={document.file_name}
             createdAt={document.created_at}
-          />
+          >
+            {isPdf && (
+              <DocumentExtractionStatus
+                documentId={document.id}
+                projectId={projectId}
+                status={document.extraction_status}
+                error={document.extraction_error}
+                createdAt={document.created_at}
+                startedAt={document.extraction_started_at}
+                pageCount={document.page_count}
+                onRefresh={onRefresh}
+              />
+            )}
+          </DocumentItemHeader>
           
           <div className="flex items-center justify-end gap-2 ml-auto mt-2 sm:mt-0">
             {isPdf && (
@@ -88,16 +109,25 @@ const DocumentItem: React.FC<DocumentItemProps> = ({
                 pdfUrl={pdfUrl}
                 fileName={document.file_name}
                 projectId={projectId}
+                documentId={document.id}
               />
             )}
             
             <DocumentActions
+              projectId={projectId}
               fileName={document.file_name}
               fileUrl={document.file_url}
               onDelete={handleDelete}
             />
           </div>
         </div>
+        {onOpenNote && (
+          <NoteBacklinks
+            backlinks={backlinks}
+            onOpenNote={onOpenNote}
+            className="px-4 pb-4 -mt-3 text-xs sm:text-sm"
+          />
+        )}
         {!isLast && <Separator className="my-1 opacity-40" />}
       </div>
       
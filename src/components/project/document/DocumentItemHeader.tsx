@@ -6,11 +6,13 @@ import { formatDistanceToNow } from 'date-fns';
 interface DocumentItemHeaderProps {
   fileName: string;
   createdAt: string;
+  children?: React.ReactNode;
 }
 
 const DocumentItemHeader: React.FC<DocumentItemHeaderProps> = ({ 
   fileName, 
-  createdAt 
+  createdAt,
+  children
 }) => {
   const formatDate = (dateString: string) => {
     try {
@@ -28,9 +30,12 @@ const DocumentItemHeader: React.FC<DocumentItemHeaderProps> = ({
       </div>
       <div className="min-w-0 flex-1">
         <h4 className="font-medium text-sm sm:text-base truncate">{fileName}</h4>
-        <p className="text-xs text-muted-foreground">
-          {formatDate(createdAt)}
-        </p>
+        <div className="flex items-center gap-2">
+          <p className="text-xs text-muted-foreground">
+            {formatDate(createdAt)}
+          </p>
+          {children}
+        </div>
       </div>
     </div>
   );
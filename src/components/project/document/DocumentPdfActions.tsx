@@ -15,12 +15,14 @@ interface DocumentPdfActionsProps {
   pdfUrl: string;
   fileName: string;
   projectId?: string;
+  documentId?: string;
 }
 
 const DocumentPdfActions: React.FC<DocumentPdfActionsProps> = ({
   pdfUrl,
   fileName,
-  projectId
+  projectId,
+  documentId
 }) => {
   const {
     showTextModal,
@@ -39,7 +41,7 @@ const DocumentPdfActions: React.FC<DocumentPdfActionsProps> = ({
     handleSummarizeText,
     toggleTextView,
     handleRetryExtraction
-  } = usePdfTextExtraction({ pdfUrl, fileName, projectId });
+  } = usePdfTextExtraction({ pdfUrl, fileName, projectId, documentId });
 
   return (
     <>
@@ -15,6 +15,7 @@ import { SendHorizontal, Loader2, Copy, Download, ArrowRight } from 'lucide-reac
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { useDialog } from '@/hooks/useDialog';
+import { useQuotaPrompt } from '@/hooks/useQuotaPrompt';
 import SummaryFeedback from '@/components/summary/SummaryFeedback';
 
 interface DocumentQuestionDialogProps {
@@ -44,6 +45,7 @@ const DocumentQuestionDialog: React.FC<DocumentQuestionDialogProps> = ({
   const [isLoading, setIsLoading] = useState(false);
   const [isCopied, setIsCopied] = useState(false);
   const [feedbackGiven, setFeedbackGiven] = useState(false);
+  const promptQuota = useQuotaPrompt();
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const answerRef = useRef<HTMLDivElement>(null);
   
@@ -67,7 +69,8 @@ const DocumentQuestionDialog: React.FC<DocumentQuestionDialogProps> = ({
           pdfUrl: document.file_url,
           fileName: document.file_name,
           userQuestion: userQuestion.trim(),
-          documentContext: document.content_text || ''
+          documentContext: document.content_text || '',
+          projectId
         }
       });
       
@@ -85,7 +88,9 @@ const DocumentQuestionDialog: React.FC<DocumentQuestionDialogProps> = ({
       setAnswer(data.answer);
     } catch (error: any) {
       console.error('Error asking PDF question:', error);
-      toast.error(`Failed to get answer: ${error.message || 'Unknown error'}`);
+      if (!(await promptQuota(error))) {
+        toast.error(`Failed to get answer: ${error.message || 'Unknown error'}`);
+      }
       setAnswer("I'm sorry, I encountered an error processing your question. Please try again.");
     } finally {
       setIsLoading(false);
@@ -1,14 +1,17 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import SummaryDialog from '@/components/summary/SummaryDialog';
+import { invokeStreamingFunction } from '@/utils/streamingUtils';
+import { useQuotaPrompt } from '@/hooks/useQuotaPrompt';
 
 interface DocumentSummaryHandlerProps {
   fileName: string;
   fileUrl: string;
   isPdf: boolean;
   projectId: string;
+  documentId?: string;
 }
 
 // Changed from React.FC to a custom hook
@@ -16,12 +19,15 @@ const useDocumentSummary = ({
   fileName,
   fileUrl,
   isPdf,
-  projectId
+  projectId,
+  documentId
 }: DocumentSummaryHandlerProps) => {
   const [isGenerating, setIsGenerating] = useState(false);
   const [summary, setSummary] = useState('');
   const [isSummaryOpen, setIsSummaryOpen] = useState(false);
   const [hasSavedSummary, setHasSavedSummary] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const promptQuota = useQuotaPrompt();
 
   useEffect(() => {
     const checkForExistingSummary = async () => {
@@ -77,33 +83,50 @@ const useDocumentSummary = ({
     setSummary('');
     
     try {
-      const { data, error } = await supabase.functions.invoke('summarize-pdf', {
-        body: {
-          pdfUrl: fileUrl,
-          fileName: fileName,
-          projectId
-        }
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      
+      const { result, cancelled } = await invokeStreamingFunction<{ success: boolean; summary: string }>('summarize-pdf', {
+        pdfUrl: fileUrl,
+        fileName: fileName,
+        projectId,
+        documentId
+      }, {
+        signal: abortController.signal,
+        onDelta: (_delta, text) => setSummary(text)
       });
       
-      if (error) throw error;
+      if (cancelled) {
+        setSummary('');
+        return;
+      }
       
-      if (!data.success || !data.summary) {
+      if (!result?.success || !result.summary) {
         throw new Error('Failed to generate summary');
       }
       
-      setSummary(data.summary);
+      setSummary(result.summary);
     } catch (error: any) {
       console.error('Error generating summary:', error);
-      toast.error(`Failed to generate summary: ${error.message}`);
+      if (!(await promptQuota(error))) {
+        toast.error(`Failed to generate summary: ${error.message}`);
+      }
     } finally {
+      abortControllerRef.current = null;
       setIsGenerating(false);
     }
   };
 
+  // Closing the dialog while the summary is written stops the generation
+  const handleCloseSummary = () => {
+    abortControllerRef.current?.abort();
+    setIsSummaryOpen(false);
+  };
+
   const SummaryDialogComponent = () => (
     <SummaryDialog
       isOpen={isSummaryOpen}
-      onClose={() => setIsSummaryOpen(false)}
+      onClose={handleCloseSummary}
       title={fileName}
       summary={summary}
       isLoading={isGenerating}
@@ -112,6 +135,7 @@ const useDocumentSummary = ({
       hasSavedVersion={hasSavedSummary}
       sourceUrl={fileUrl}
       sourceType="pdf"
+      onCancel={handleCloseSummary}
     />
   );
 
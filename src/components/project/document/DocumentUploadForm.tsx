@@ -11,6 +11,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { DEFAULT_MODEL, MODEL_LABELS, MODEL_TYPES, ModelType } from '@/utils/aiPrompts';
 
 interface DocumentUploadFormProps {
   files: File[];
@@ -19,8 +20,8 @@ interface DocumentUploadFormProps {
   onFilesChange: (files: File[]) => void;
   onCreateNoteChange: (checked: boolean) => void;
   onUpload: () => void;
-  model?: string;
-  onModelChange?: (model: string) => void;
+  model?: ModelType;
+  onModelChange?: (model: ModelType) => void;
 }
 
 export const DocumentUploadForm: React.FC<DocumentUploadFormProps> = ({
@@ -105,13 +106,14 @@ export const DocumentUploadForm: React.FC<DocumentUploadFormProps> = ({
 
       {onModelChange && (
         <div className="flex justify-end mt-2">
-          <Select value={model || 'claude'} onValueChange={(value: 'claude' | 'openai') => onModelChange(value)}>
+          <Select value={model || DEFAULT_MODEL} onValueChange={(value: ModelType) => onModelChange(value)}>
             <SelectTrigger className="w-[180px] h-8">
               <SelectValue placeholder="Select AI Model" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="claude">Claude</SelectItem>
-              <SelectItem value="openai">OpenAI (GPT-4o mini)</SelectItem>
+              {MODEL_TYPES.map(type => (
+                <SelectItem key={type} value={type}>{MODEL_LABELS[type]}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
@@ -0,0 +1,62 @@
+
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription
+} from "@/components/ui/dialog";
+import { Button } from '@/components/ui/button';
+import { ExternalLink } from 'lucide-react';
+
+interface DocumentViewerDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  fileName: string;
+  fileUrl: string;
+  page?: number;
+}
+
+// Shows a PDF with the browser's built-in viewer, opened at the given page
+const DocumentViewerDialog: React.FC<DocumentViewerDialogProps> = ({
+  isOpen,
+  onClose,
+  fileName,
+  fileUrl,
+  page
+}) => {
+  const viewerUrl = page ? `${fileUrl}#page=${page}` : fileUrl;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl h-[90vh] flex flex-col p-4 sm:p-6">
+        <DialogHeader>
+          <DialogTitle className="pr-8 truncate">{fileName}</DialogTitle>
+          <DialogDescription className="flex items-center justify-between">
+            <span>{page ? `Page ${page}` : 'Document preview'}</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7"
+              onClick={() => window.open(viewerUrl, '_blank')}
+            >
+              <ExternalLink className="h-3.5 w-3.5 mr-1.5" />
+              Open in new tab
+            </Button>
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Keyed on the URL so changing page reloads the viewer at the new anchor */}
+        <iframe
+          key={viewerUrl}
+          src={viewerUrl}
+          title={fileName}
+          className="flex-1 w-full rounded-md border bg-muted"
+        />
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DocumentViewerDialog;
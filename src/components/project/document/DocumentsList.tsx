@@ -1,9 +1,12 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useCallback } from 'react';
 import { Loader2, RefreshCw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import DocumentItem from './DocumentItem';
 import { SearchBar } from '@/components/ui/search-bar';
+import ChatCitationViewer from '@/components/project/chat/ChatCitationViewer';
+import { Citation } from '@/components/project/chat/types';
+import { useNoteLinks } from '@/hooks/useNoteLinks';
 
 interface DocumentsListProps {
   documents: any[];
@@ -21,6 +24,9 @@ export const DocumentsList: React.FC<DocumentsListProps> = ({
   projectId
 }) => {
   const [searchQuery, setSearchQuery] = useState('');
+  const { backlinksTo } = useNoteLinks(projectId);
+  const [openedNote, setOpenedNote] = useState<Citation | null>(null);
+  const closeOpenedNote = useCallback(() => setOpenedNote(null), []);
 
   // Filter documents based on search query
   const filteredDocuments = useMemo(() => {
@@ -86,10 +92,23 @@ export const DocumentsList: React.FC<DocumentsListProps> = ({
               onRefresh={onRefresh}
               projectId={projectId}
               isLast={index === filteredDocuments.length - 1}
+              backlinks={backlinksTo('document', document.id)}
+              onOpenNote={(backlink) => setOpenedNote({
+                index: 0,
+                type: 'note',
+                id: backlink.noteId,
+                title: backlink.title
+              })}
             />
           ))}
         </div>
       )}
+
+      <ChatCitationViewer
+        projectId={projectId}
+        citation={openedNote}
+        onClose={closeOpenedNote}
+      />
     </div>
   );
 };
@@ -8,6 +8,7 @@ import TextExtractionHeader from './components/TextExtractionHeader';
 import TextExtractionContent from './components/TextExtractionContent';
 import TextExtractionFooter from './components/TextExtractionFooter';
 import { useNoteCreationFromText } from '@/hooks/useNoteCreationFromText';
+import { ModelType } from '@/utils/aiPrompts';
 
 interface TextExtractionDialogProps {
   showTextModal: boolean;
@@ -22,7 +23,7 @@ interface TextExtractionDialogProps {
   fileName: string;
   pdfUrl: string;
   onRetryExtraction: () => void;
-  handleSummarizeText: (model: 'claude' | 'openai') => void;
+  handleSummarizeText: (model: ModelType) => void;
   isSummarizing: boolean;
   summary: string;
   showSummary: boolean;
@@ -161,6 +162,8 @@ const TextExtractionDialog: React.FC<TextExtractionDialogProps> = ({
               showSummary={showSummary}
               onRetryExtraction={onRetryExtraction}
               handleOpenPdfDirectly={handleOpenPdfDirectly}
+              fileName={fileName}
+              projectId={projectId}
             />
           </div>
           
@@ -202,6 +205,7 @@ const TextExtractionDialog: React.FC<TextExtractionDialogProps> = ({
         handleRegenerateTags={noteCreation.handleRegenerateTags}
         handleRegenerateBoth={noteCreation.handleRegenerateBoth}
         onModelChange={noteCreation.setAiModel}
+        projectId={projectId}
       />
     </>
   );
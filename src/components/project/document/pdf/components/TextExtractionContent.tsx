@@ -16,6 +16,8 @@ interface TextExtractionContentProps {
   showSummary: boolean;
   onRetryExtraction: () => void;
   handleOpenPdfDirectly: () => void;
+  fileName?: string;
+  projectId?: string;
 }
 
 const TextExtractionContent: React.FC<TextExtractionContentProps> = ({
@@ -26,7 +28,9 @@ const TextExtractionContent: React.FC<TextExtractionContentProps> = ({
   summary,
   showSummary,
   onRetryExtraction,
-  handleOpenPdfDirectly
+  handleOpenPdfDirectly,
+  fileName,
+  projectId
 }) => {
   const [question, setQuestion] = useState('');
   const [isAskingQuestion, setIsAskingQuestion] = useState(false);
@@ -59,7 +63,8 @@ const TextExtractionContent: React.FC<TextExtractionContentProps> = ({
         body: {
           userQuestion: question,
           documentContext: extractedText,
-          fileName: 'PDF Document' // You might want to pass the actual filename
+          fileName: fileName || 'PDF Document',
+          projectId
         }
       });
 
@@ -2,6 +2,7 @@
 import React from 'react';
 import { Users, Plus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { hasPermission } from '@/utils/permissions';
 
 interface EmptyMembersListProps {
   userRole: string | null;
@@ -16,7 +17,7 @@ const EmptyMembersList: React.FC<EmptyMembersListProps> = ({
     <div className="text-center p-6 border border-dashed rounded-md">
       <Users className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
       <p className="text-muted-foreground">No members yet</p>
-      {userRole === 'owner' && (
+      {hasPermission(userRole, 'manageMembers') && (
         <Button 
           variant="outline" 
           size="sm" 
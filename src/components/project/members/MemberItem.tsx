@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button';
 import { MoreHorizontal } from 'lucide-react';
 import MemberActionsMenu from './MemberActionsMenu';
 import { ProjectMember } from '@/types/project';
+import { hasPermission } from '@/utils/permissions';
 
 interface MemberItemProps {
   member: ProjectMember;
@@ -34,7 +35,7 @@ const MemberItem: React.FC<MemberItemProps> = ({
         </div>
       </div>
       
-      {userRole === 'owner' && member.role !== 'owner' && (
+      {hasPermission(userRole, 'manageMembers') && member.role !== 'owner' && (
         <MemberActionsMenu 
           memberId={member.id}
           onUpdateRole={onUpdateRole}
@@ -0,0 +1,82 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Mail, RefreshCw, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ProjectInvitation } from '@/hooks/useProjectInvitations';
+import { ROLE_LABELS, isProjectRole } from '@/utils/permissions';
+
+interface PendingInvitationsListProps {
+  invitations: ProjectInvitation[];
+  busyId: string | null;
+  onResend: (invitationId: string) => Promise<void>;
+  onRevoke: (invitationId: string) => Promise<void>;
+}
+
+const PendingInvitationsList: React.FC<PendingInvitationsListProps> = ({
+  invitations,
+  busyId,
+  onResend,
+  onRevoke
+}) => {
+  if (invitations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium text-muted-foreground">Pending invitations</h3>
+      {invitations.map((invitation) => {
+        const expired = new Date(invitation.expires_at).getTime() < Date.now();
+        const busy = busyId === invitation.id;
+
+        return (
+          <div
+            key={invitation.id}
+            className="flex items-center justify-between p-3 rounded-md hover:bg-accent/40"
+          >
+            <div className="flex items-center space-x-3 min-w-0">
+              <div className="h-8 w-8 rounded-full bg-muted flex items-center justify-center shrink-0">
+                <Mail className="h-4 w-4 text-muted-foreground" />
+              </div>
+              <div className="min-w-0">
+                <p className="font-medium text-sm truncate">{invitation.email}</p>
+                <p className="text-xs text-muted-foreground">
+                  {expired
+                    ? 'Expired'
+                    : `Expires ${formatDistanceToNow(new Date(invitation.expires_at), { addSuffix: true })}`}
+                </p>
+              </div>
+              <Badge variant="outline">
+                {isProjectRole(invitation.role) ? ROLE_LABELS[invitation.role] : invitation.role}
+              </Badge>
+            </div>
+
+            <div className="flex items-center space-x-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={busy}
+                onClick={() => onResend(invitation.id)}
+              >
+                <RefreshCw className="h-4 w-4 mr-1" />
+                Resend
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={busy}
+                onClick={() => onRevoke(invitation.id)}
+              >
+                <X className="h-4 w-4 mr-1" />
+                Revoke
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PendingInvitationsList;
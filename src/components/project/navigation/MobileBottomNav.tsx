@@ -2,6 +2,7 @@
 import React from 'react';
 import { LayoutDashboard, Pencil, Bell, File, Image, Users, Settings } from 'lucide-react';
 import { cn } from "@/lib/utils";
+import { hasPermission } from '@/utils/permissions';
 
 interface MobileBottomNavProps {
   activeTab: string;
@@ -23,8 +24,8 @@ const MobileBottomNav: React.FC<MobileBottomNavProps> = ({
     { id: 'members', label: 'Team', icon: Users },
   ];
   
-  // Only show settings tab for owners
-  if (userRole === 'owner') {
+  // Only show settings tab to members who can change them
+  if (hasPermission(userRole, 'editSettings')) {
     tabs.push({ id: 'settings', label: 'Settings', icon: Settings });
   }
 
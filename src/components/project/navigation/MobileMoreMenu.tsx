@@ -7,6 +7,7 @@ import {
   DrawerTrigger,
 } from "@/components/ui/drawer";
 import { cn } from "@/lib/utils";
+import { hasPermission } from '@/utils/permissions';
 
 interface MobileMoreMenuProps {
   activeTab: string;
@@ -24,8 +25,8 @@ const MobileMoreMenu: React.FC<MobileMoreMenuProps> = ({
     { id: 'members', label: 'Team Members', icon: Users },
   ];
   
-  // Only show settings tab for owners
-  if (userRole === 'owner') {
+  // Only show settings tab to members who can change them
+  if (hasPermission(userRole, 'editSettings')) {
     overflowTabs.push({ id: 'settings', label: 'Project Settings', icon: Settings });
   }
 
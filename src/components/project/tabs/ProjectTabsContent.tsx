@@ -8,6 +8,7 @@ import ProjectDocumentsTab from '../ProjectDocumentsTab';
 import ProjectImages from '../ProjectImages';
 import ProjectMembers from '../ProjectMembers';
 import ProjectSettings from '../ProjectSettings';
+import NotionSyncSettings from '../NotionSyncSettings';
 
 interface ProjectTabsContentProps {
   activeTab: string;
@@ -104,6 +105,7 @@ const ProjectTabsContent: React.FC<ProjectTabsContentProps> = ({
       
       <TabsContent value="settings" className="space-y-6">
         {project && projectId && <ProjectSettings projectId={projectId} />}
+        {project && projectId && <NotionSyncSettings projectId={projectId} />}
       </TabsContent>
     </>
   );
@@ -5,6 +5,7 @@ import ProjectTutorial from '@/components/tutorial/ProjectTutorial';
 import StartOnboardingButton from '@/components/onboarding/StartOnboardingButton';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { hasPermission } from '@/utils/permissions';
 
 interface ProjectTabsNavigationProps {
   activeTab: string;
@@ -76,7 +77,7 @@ const ProjectTabsNavigation: React.FC<ProjectTabsNavigationProps> = ({
           >
             Members
           </TabsTrigger>
-          {userRole === 'owner' && (
+          {hasPermission(userRole, 'editSettings') && (
             <TabsTrigger 
               value="settings" 
               id="tab-settings" 
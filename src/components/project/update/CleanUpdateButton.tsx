@@ -15,19 +15,22 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useCleanNoteText } from '@/hooks/useCleanNoteText';
+import { DEFAULT_MODEL, ModelType } from '@/utils/aiPrompts';
 
 interface CleanUpdateButtonProps {
   updateContent: string;
   onTextCleaned: (cleanedText: string) => void;
-  model?: 'claude' | 'openai';
-  onModelChange?: (model: 'claude' | 'openai') => void;
+  model?: ModelType;
+  onModelChange?: (model: ModelType) => void;
+  projectId?: string;
 }
 
 const CleanUpdateButton: React.FC<CleanUpdateButtonProps> = ({
   updateContent,
   onTextCleaned,
-  model = 'claude',
-  onModelChange
+  model = DEFAULT_MODEL,
+  onModelChange,
+  projectId
 }) => {
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   
@@ -36,7 +39,7 @@ const CleanUpdateButton: React.FC<CleanUpdateButtonProps> = ({
     formatText,
     summarizeText,
     enhanceText
-  } = useCleanNoteText({ model });
+  } = useCleanNoteText({ model, projectId });
 
   const handleFormatText = async () => {
     const cleanedText = await formatText(updateContent);
@@ -0,0 +1,213 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { FileText, Image, Loader2, Megaphone, StickyNote } from 'lucide-react';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Badge } from '@/components/ui/badge';
+import ChatCitationViewer from '@/components/project/chat/ChatCitationViewer';
+import { Citation } from '@/components/project/chat/types';
+import { supabase } from '@/integrations/supabase/client';
+import { SearchResult, useGlobalSearch } from '@/hooks/useGlobalSearch';
+import {
+  SEARCH_DATE_RANGE_LABELS,
+  SEARCH_RESULT_LABELS,
+  SEARCH_RESULT_TYPES,
+  SearchDateRange,
+  SearchResultType,
+  splitHighlights
+} from '@/utils/searchUtils';
+
+interface GlobalSearchProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const RESULT_ICONS: Record<SearchResultType, React.ReactNode> = {
+  note: <StickyNote className="h-4 w-4 text-muted-foreground" />,
+  document: <FileText className="h-4 w-4 text-muted-foreground" />,
+  image: <Image className="h-4 w-4 text-muted-foreground" />,
+  update: <Megaphone className="h-4 w-4 text-muted-foreground" />
+};
+
+const HighlightedSnippet: React.FC<{ snippet: string }> = ({ snippet }) => (
+  <p className="text-xs text-muted-foreground line-clamp-2">
+    {splitHighlights(snippet).map((segment, index) =>
+      segment.highlighted ? (
+        <mark key={index} className="bg-yellow-200/70 text-foreground rounded-sm px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    )}
+  </p>
+);
+
+// Command palette searching notes, documents, image summaries and updates in
+// every brain. Results open in place; updates open their brain.
+const GlobalSearch: React.FC<GlobalSearchProps> = ({ open, onOpenChange }) => {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const [types, setTypes] = useState<SearchResultType[]>([]);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [dateRange, setDateRange] = useState<SearchDateRange>('any');
+  const [projects, setProjects] = useState<{ id: string; title: string }[]>([]);
+  const [openResult, setOpenResult] = useState<{ projectId: string; citation: Citation } | null>(null);
+
+  const { results, loading, error } = useGlobalSearch(query, { types, projectId, dateRange }, open);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchProjects = async () => {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('id, title')
+        .order('title');
+
+      if (error) {
+        console.error('Error fetching brains for search:', error);
+        return;
+      }
+      setProjects(data || []);
+    };
+
+    fetchProjects();
+  }, [open]);
+
+  const handleSelect = (result: SearchResult) => {
+    onOpenChange(false);
+
+    if (result.result_type === 'update') {
+      navigate(`/project/${result.project_id}`);
+      return;
+    }
+
+    setOpenResult({
+      projectId: result.project_id,
+      citation: {
+        index: 0,
+        type: result.result_type,
+        id: result.id,
+        title: result.title,
+        url: result.url || undefined
+      }
+    });
+  };
+
+  const closeResult = useCallback(() => setOpenResult(null), []);
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg sm:max-w-2xl">
+          <DialogTitle className="sr-only">Search all brains</DialogTitle>
+          <Command shouldFilter={false} className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-input]]:h-12">
+            <CommandInput
+              value={query}
+              onValueChange={setQuery}
+              placeholder="Search notes, documents, images and updates… (#tag to filter)"
+            />
+
+            <div className="flex flex-wrap items-center gap-2 border-b px-3 py-2">
+              <ToggleGroup
+                type="multiple"
+                size="sm"
+                value={types}
+                onValueChange={(value) => setTypes(value as SearchResultType[])}
+                className="justify-start"
+              >
+                {SEARCH_RESULT_TYPES.map(type => (
+                  <ToggleGroupItem key={type} value={type} className="h-7 px-2 text-xs">
+                    {SEARCH_RESULT_LABELS[type]}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+
+              <Select value={projectId || 'all'} onValueChange={(value) => setProjectId(value === 'all' ? null : value)}>
+                <SelectTrigger className="h-7 w-[160px] text-xs">
+                  <SelectValue placeholder="All brains" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All brains</SelectItem>
+                  {projects.map(project => (
+                    <SelectItem key={project.id} value={project.id}>{project.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select value={dateRange} onValueChange={(value) => setDateRange(value as SearchDateRange)}>
+                <SelectTrigger className="h-7 w-[120px] text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SEARCH_DATE_RANGE_LABELS) as SearchDateRange[]).map(range => (
+                    <SelectItem key={range} value={range}>{SEARCH_DATE_RANGE_LABELS[range]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <CommandList className="max-h-[420px]">
+              {loading && (
+                <div className="flex items-center justify-center py-6 text-sm text-muted-foreground">
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Searching…
+                </div>
+              )}
+
+              {!loading && query.trim() && (
+                <CommandEmpty>{error || 'No results found.'}</CommandEmpty>
+              )}
+
+              {/* One list in rank order so the best match comes first whatever its type */}
+              {!loading && results.length > 0 && (
+                <CommandGroup heading={`${results.length} result${results.length !== 1 ? 's' : ''}`}>
+                  {results.map(result => (
+                    <CommandItem
+                      key={`${result.result_type}-${result.id}`}
+                      value={`${result.result_type}-${result.id}`}
+                      onSelect={() => handleSelect(result)}
+                      className="items-start gap-3"
+                    >
+                      <div className="mt-0.5 shrink-0">{RESULT_ICONS[result.result_type]}</div>
+                      <div className="min-w-0 flex-1 space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="truncate font-medium">{result.title || SEARCH_RESULT_LABELS[result.result_type]}</span>
+                          <span className="ml-auto shrink-0 text-xs text-muted-foreground">
+                            {result.project_title} · {format(new Date(result.created_at), 'MMM d, yyyy')}
+                          </span>
+                        </div>
+                        <HighlightedSnippet snippet={result.snippet} />
+                        {result.tags && result.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {result.tags.map(tag => (
+                              <Badge key={tag} variant="secondary" className="text-[10px] px-1.5 py-0">#{tag}</Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+
+      {openResult && (
+        <ChatCitationViewer
+          projectId={openResult.projectId}
+          citation={openResult.citation}
+          onClose={closeResult}
+        />
+      )}
+    </>
+  );
+};
+
+export default GlobalSearch;
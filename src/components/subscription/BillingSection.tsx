@@ -0,0 +1,211 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { CreditCard, Download, ExternalLink, Loader2, Receipt } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useBillingHistory } from '@/hooks/useBillingHistory';
+import { BillingInvoice, BillingSummary } from '@/types/subscription';
+
+const formatDate = (date: string) => format(new Date(date), 'MMM d, yyyy');
+
+// Stripe amounts are in the smallest unit of the currency, which is not
+// cents for every currency
+const formatAmount = (amount: number, currency: string) => {
+  const formatter = new Intl.NumberFormat(undefined, { style: 'currency', currency: currency.toUpperCase() });
+  return formatter.format(amount / 10 ** (formatter.resolvedOptions().maximumFractionDigits ?? 2));
+};
+
+const invoiceStatus = (invoice: BillingInvoice): { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' } => {
+  if (invoice.status === 'paid' && invoice.amount_refunded > 0) {
+    return {
+      label: invoice.amount_refunded >= invoice.amount_paid ? 'Refunded' : 'Partially refunded',
+      variant: 'outline'
+    };
+  }
+
+  switch (invoice.status) {
+    case 'paid': return { label: 'Paid', variant: 'default' };
+    case 'open': return { label: 'Due', variant: 'secondary' };
+    case 'uncollectible': return { label: 'Failed', variant: 'destructive' };
+    default: return { label: 'Void', variant: 'outline' };
+  }
+};
+
+// The next thing that happens to the subscription
+const renewalDetails = (summary: BillingSummary): { label: string; date: string | null; warning?: string } | null => {
+  if (summary.status === 'past_due') {
+    return {
+      label: 'Payment failed',
+      date: summary.grace_period_ends_at,
+      warning: summary.grace_period_ends_at
+        ? `Update your payment method before ${formatDate(summary.grace_period_ends_at)} to keep Pro.`
+        : 'Update your payment method to keep Pro.'
+    };
+  }
+  if (summary.cancel_at_period_end) return { label: 'Ends on', date: summary.current_period_end };
+  if (summary.status === 'trialing') return { label: 'Trial ends', date: summary.trial_ends_at };
+  if (summary.status === 'active') return { label: 'Renews on', date: summary.current_period_end };
+  return null;
+};
+
+interface BillingSectionProps {
+  // A workspace the user administers; the user's own billing otherwise
+  workspaceId?: string;
+  onManageBilling: () => void;
+  isOpeningPortal?: boolean;
+}
+
+// Renewal, card on file, cancel and resume, and past invoices with their
+// receipts. Cards are changed in the Stripe billing portal.
+const BillingSection = ({ workspaceId, onManageBilling, isOpeningPortal = false }: BillingSectionProps) => {
+  const { summary, invoices, loading, updating, cancelSubscription, resumeSubscription } = useBillingHistory(workspaceId);
+
+  if (loading) {
+    return (
+      <div className="mt-8 flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!summary?.status && invoices.length === 0) {
+    return null;
+  }
+
+  const renewal = summary ? renewalDetails(summary) : null;
+  const card = summary?.payment_method;
+
+  const handleCancel = () => {
+    const ends = summary?.current_period_end ? ` on ${formatDate(summary.current_period_end)}` : '';
+    if (window.confirm(`Cancel your subscription? You keep Pro until it ends${ends}.`)) {
+      cancelSubscription();
+    }
+  };
+
+  return (
+    <section className="mt-8 space-y-4">
+      <h3 className="text-lg font-medium">Billing</h3>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="rounded-lg border p-4 space-y-2">
+          <p className="text-sm text-muted-foreground">{renewal?.label || 'Subscription'}</p>
+          <p className="font-medium">
+            {renewal?.date ? formatDate(renewal.date) : summary?.status === 'canceled' ? 'Ended' : '—'}
+          </p>
+          {renewal?.warning && <p className="text-sm text-red-600">{renewal.warning}</p>}
+
+          {summary?.cancel_at_period_end ? (
+            <Button size="sm" onClick={resumeSubscription} disabled={updating}>
+              {updating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Resume subscription
+            </Button>
+          ) : (summary?.status === 'active' || summary?.status === 'trialing' || summary?.status === 'past_due') && (
+            <Button size="sm" variant="outline" onClick={handleCancel} disabled={updating}>
+              {updating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Cancel subscription
+            </Button>
+          )}
+        </div>
+
+        <div className="rounded-lg border p-4 space-y-2">
+          <p className="text-sm text-muted-foreground">Payment method</p>
+          {card ? (
+            <>
+              <p className="font-medium flex items-center gap-2">
+                <CreditCard className="h-4 w-4" />
+                <span className="capitalize">{card.brand}</span> ending in {card.last4}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Expires {String(card.exp_month).padStart(2, '0')}/{card.exp_year}
+              </p>
+            </>
+          ) : (
+            <p className="font-medium">—</p>
+          )}
+          <Button size="sm" variant="outline" onClick={onManageBilling} disabled={isOpeningPortal}>
+            {isOpeningPortal && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {card ? 'Update payment method' : 'Manage billing'}
+          </Button>
+        </div>
+      </div>
+
+      {invoices.length > 0 ? (
+        <div className="rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Receipts</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invoices.map(invoice => {
+                const status = invoiceStatus(invoice);
+                return (
+                  <TableRow key={invoice.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {formatDate(invoice.created_at)}
+                      {invoice.number && <div className="text-xs text-muted-foreground">{invoice.number}</div>}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-sm text-muted-foreground">
+                      {invoice.period_start && invoice.period_end
+                        ? `${format(new Date(invoice.period_start), 'MMM d')} – ${formatDate(invoice.period_end)}`
+                        : '—'}
+                    </TableCell>
+                    <TableCell>
+                      {formatAmount(invoice.status === 'paid' ? invoice.amount_paid : invoice.amount_due, invoice.currency)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        {invoice.status === 'open' && invoice.hosted_invoice_url && (
+                          <Button asChild size="sm" variant="outline">
+                            <a href={invoice.hosted_invoice_url} target="_blank" rel="noopener noreferrer">
+                              <ExternalLink className="mr-1 h-3.5 w-3.5" />
+                              Pay
+                            </a>
+                          </Button>
+                        )}
+                        {invoice.receipt_url && (
+                          <Button asChild size="icon" variant="ghost" className="h-8 w-8">
+                            <a href={invoice.receipt_url} target="_blank" rel="noopener noreferrer" aria-label="View receipt">
+                              <Receipt className="h-4 w-4" />
+                            </a>
+                          </Button>
+                        )}
+                        {invoice.invoice_pdf && (
+                          <Button asChild size="icon" variant="ghost" className="h-8 w-8">
+                            <a href={invoice.invoice_pdf} target="_blank" rel="noopener noreferrer" aria-label="Download invoice PDF">
+                              <Download className="h-4 w-4" />
+                            </a>
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No invoices yet.</p>
+      )}
+    </section>
+  );
+};
+
+export default BillingSection;
@@ -18,6 +18,7 @@ const ProPlanBenefits = ({ isPro = false }: ProPlanBenefitsProps) => {
     <div className="mt-8 p-4 bg-primary/5 rounded-lg">
       {isPro ? (
         <>
+          {/* Only shown for Pro plans without a Stripe subscription, which the billing section manages */}
           <h3 className="text-lg font-medium mb-3">Manage Your Pro Plan</h3>
           <p className="text-sm text-muted-foreground mb-3">
             To cancel your Pro subscription, please send an email to{' '}
@@ -34,6 +35,7 @@ const ProPlanBenefits = ({ isPro = false }: ProPlanBenefitsProps) => {
             <BenefitItem text="Unlimited AI calls per month" />
             <BenefitItem text="Create and manage unlimited brains" />
             <BenefitItem text="Share brains with team members" />
+            <BenefitItem text="Team workspaces with one subscription billed per seat" />
             <BenefitItem text="Early access to new features" />
             <BenefitItem text="Priority support" />
           </ul>
@@ -9,24 +9,39 @@ import {
 } from '@/components/ui/dialog';
 import SubscriptionInfo from './SubscriptionInfo';
 import ProPlanBenefits from './ProPlanBenefits';
+import BillingSection from './BillingSection';
 import { useSubscription } from '@/hooks/useSubscription';
 import { X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { QuotaStatus, UsageBreakdown } from '@/types/user';
 
 interface SubscriptionDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   userBrainCount: number;
   apiCallsUsed: number;
+  usage?: UsageBreakdown | null;
+  quotas?: QuotaStatus[];
 }
 
 const SubscriptionDialog = ({ 
   open, 
   onOpenChange,
   userBrainCount = 0,
-  apiCallsUsed = 0
+  apiCallsUsed = 0,
+  usage,
+  quotas
 }: SubscriptionDialogProps) => {
-  const { planDetails, isLoading, error, upgradeToProPlan, isUpgrading } = useSubscription();
+  const {
+    planDetails,
+    userSubscription,
+    isLoading,
+    error,
+    upgradeToProPlan,
+    isUpgrading,
+    openBillingPortal,
+    isOpeningPortal
+  } = useSubscription();
   const isPro = planDetails?.plan_type === 'pro';
 
   return (
@@ -51,11 +66,17 @@ const SubscriptionDialog = ({
             error={error}
             userBrainCount={userBrainCount}
             apiCallsUsed={apiCallsUsed}
+            usage={usage}
+            quotas={quotas}
             upgradeToProPlan={upgradeToProPlan}
             isUpgrading={isUpgrading}
           />
           
-          <ProPlanBenefits isPro={isPro} />
+          {userSubscription?.status && (
+            <BillingSection onManageBilling={() => openBillingPortal()} isOpeningPortal={isOpeningPortal} />
+          )}
+
+          {!(isPro && userSubscription?.status) && <ProPlanBenefits isPro={isPro} />}
         </div>
       </DialogContent>
     </Dialog>
@@ -1,6 +1,7 @@
 
 import React from 'react';
 import { SubscriptionTier } from '@/types/subscription';
+import { QuotaStatus, UsageBreakdown } from '@/types/user';
 import { useUserFeatures } from '@/hooks/useUserFeatures';
 import PlanHeader from './PlanHeader';
 import UsageSummary from './UsageSummary';
@@ -17,6 +18,8 @@ interface SubscriptionInfoProps {
   userBrainCount?: number;
   userDocumentCount?: number;
   apiCallsUsed?: number;
+  usage?: UsageBreakdown | null;
+  quotas?: QuotaStatus[];
   upgradeToProPlan?: (priceId?: string) => Promise<void>;
   isUpgrading?: boolean;
 }
@@ -28,6 +31,8 @@ const SubscriptionInfo = ({
   userBrainCount = 0,
   userDocumentCount = 0,
   apiCallsUsed = 0,
+  usage,
+  quotas,
   upgradeToProPlan,
   isUpgrading = false
 }: SubscriptionInfoProps) => {
@@ -54,6 +59,8 @@ const SubscriptionInfo = ({
       <UsageSummary 
         userBrainCount={userBrainCount}
         apiCallsUsed={apiCallsUsed}
+        usage={usage}
+        quotas={quotas}
         maxBrains={planDetails.max_brains}
         isPro={isPro}
       />
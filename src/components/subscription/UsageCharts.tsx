@@ -0,0 +1,153 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis } from 'recharts';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { cn } from '@/lib/utils';
+import { UsageBreakdown, UsageFeature, UsageTotals } from '@/types/user';
+import { FEATURE_LABELS, formatCost, formatTokens } from '@/utils/usageFormat';
+
+interface UsageChartsProps {
+  usage: UsageBreakdown | null | undefined;
+  // Smaller chart and no per-brain list, for the profile dialog
+  compact?: boolean;
+}
+
+const FEATURE_COLORS: Record<UsageFeature, string> = {
+  chat: '#6366f1',
+  summary: '#0ea5e9',
+  clean: '#10b981',
+  metadata: '#f59e0b',
+  image_analysis: '#ec4899',
+  indexing: '#8b5cf6',
+  other: '#94a3b8',
+};
+
+const chartConfig: ChartConfig = Object.fromEntries(
+  (Object.keys(FEATURE_LABELS) as UsageFeature[]).map(feature => [
+    feature,
+    { label: FEATURE_LABELS[feature], color: FEATURE_COLORS[feature] },
+  ])
+);
+
+const dayLabel = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+interface BreakdownRow extends UsageTotals {
+  key: string;
+  label: string;
+  color?: string;
+}
+
+// Rows with a bar scaled to the most expensive one (or the heaviest, when
+// everything was free)
+const BreakdownList: React.FC<{ title: string; rows: BreakdownRow[] }> = ({ title, rows }) => {
+  const byCost = rows.some(row => row.costUsd > 0);
+  const measure = (row: UsageTotals) => byCost ? row.costUsd : row.inputTokens + row.outputTokens;
+  const largest = Math.max(...rows.map(measure), 0);
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium">{title}</div>
+      {rows.map(row => (
+        <div key={row.key} className="space-y-1">
+          <div className="flex items-center justify-between gap-2 text-xs">
+            <span className="truncate">{row.label}</span>
+            <span className="text-muted-foreground whitespace-nowrap">
+              {row.calls} calls · {formatTokens(row.inputTokens + row.outputTokens)} tokens · {formatCost(row.costUsd)}
+            </span>
+          </div>
+          <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+            <div
+              className={cn('h-full rounded-full', !row.color && 'bg-primary')}
+              style={{
+                width: `${largest > 0 ? Math.max((measure(row) / largest) * 100, 2) : 0}%`,
+                backgroundColor: row.color,
+              }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// This month's model usage: tokens per day stacked by feature, then where the
+// tokens and estimated cost went by feature and by brain
+const UsageCharts = ({ usage, compact = false }: UsageChartsProps) => {
+  if (!usage || usage.totals.calls === 0) {
+    return <p className="text-xs text-muted-foreground">No AI usage yet this month.</p>;
+  }
+
+  const features = usage.byFeature
+    .filter(row => row.inputTokens + row.outputTokens > 0)
+    .map(row => row.feature);
+  const daily = usage.byDay.map(day => ({ label: dayLabel(day.day), ...day.tokensByFeature }));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="rounded-md bg-muted p-2">
+          <div className="text-sm font-medium">{formatTokens(usage.totals.inputTokens)}</div>
+          <div className="text-xs text-muted-foreground">Input tokens</div>
+        </div>
+        <div className="rounded-md bg-muted p-2">
+          <div className="text-sm font-medium">{formatTokens(usage.totals.outputTokens)}</div>
+          <div className="text-xs text-muted-foreground">Output tokens</div>
+        </div>
+        <div className="rounded-md bg-muted p-2">
+          <div className="text-sm font-medium">{formatCost(usage.totals.costUsd)}</div>
+          <div className="text-xs text-muted-foreground">Estimated cost</div>
+        </div>
+      </div>
+
+      {features.length > 0 && (
+        <ChartContainer config={chartConfig} className={cn('w-full', compact ? 'h-36' : 'h-52')}>
+          <BarChart data={daily} margin={{ left: 0, right: 0 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            {!compact && <ChartLegend content={<ChartLegendContent />} />}
+            {features.map((feature, index) => (
+              <Bar
+                key={feature}
+                dataKey={feature}
+                stackId="tokens"
+                fill={`var(--color-${feature})`}
+                radius={index === features.length - 1 ? [3, 3, 0, 0] : 0}
+              />
+            ))}
+          </BarChart>
+        </ChartContainer>
+      )}
+
+      <BreakdownList
+        title="By feature"
+        rows={usage.byFeature.map(row => ({
+          ...row,
+          key: row.feature,
+          label: FEATURE_LABELS[row.feature],
+          color: FEATURE_COLORS[row.feature],
+        }))}
+      />
+
+      {!compact && (
+        <BreakdownList
+          title="By brain"
+          rows={usage.byProject.map(row => ({
+            ...row,
+            key: row.projectId || 'other',
+            label: row.projectName || 'Outside a brain or deleted',
+          }))}
+        />
+      )}
+    </div>
+  );
+};
+
+export default UsageCharts;
@@ -1,50 +1,85 @@
 
 import React from 'react';
-import { Brain, Zap } from 'lucide-react';
+import { Brain, FileText, HardDrive, Zap } from 'lucide-react';
 import { Progress } from '@/components/ui/progress';
+import { QuotaName, QuotaStatus, UsageBreakdown } from '@/types/user';
+import { formatCost, formatTokens } from '@/utils/usageFormat';
+import { QUOTA_LABELS, formatQuotaAmount, isUnlimited } from '@/utils/quotas';
+import UsageCharts from './UsageCharts';
 
 interface UsageSummaryProps {
   userBrainCount: number;
   apiCallsUsed: number;
+  usage?: UsageBreakdown | null;
+  // The limits the server enforces; the brain count above is shown until they load
+  quotas?: QuotaStatus[];
   maxBrains: number | null;
   isPro: boolean;
 }
 
-const UsageSummary = ({ 
-  userBrainCount, 
-  apiCallsUsed, 
-  maxBrains, 
-  isPro 
+const QUOTA_ICONS: Record<QuotaName, React.ElementType> = {
+  brains: Brain,
+  documents: FileText,
+  storage: HardDrive,
+  api_calls: Zap,
+};
+
+const QUOTA_ORDER: QuotaName[] = ['brains', 'documents', 'storage', 'api_calls'];
+
+const UsageSummary = ({
+  userBrainCount,
+  apiCallsUsed,
+  usage,
+  quotas = [],
+  maxBrains,
+  isPro
 }: UsageSummaryProps) => {
-  const brainPercentage = !isPro && maxBrains 
-    ? Math.min(Math.round((userBrainCount / maxBrains) * 100), 100) 
-    : 0;
+  const fallbackQuotas: QuotaStatus[] = [
+    { quota: 'brains', planType: null, limit: isPro ? null : maxBrains, used: userBrainCount, overridden: false },
+    { quota: 'api_calls', planType: null, limit: null, used: apiCallsUsed, overridden: false },
+  ];
+  const shown = (quotas.length > 0 ? quotas : fallbackQuotas)
+    .slice()
+    .sort((a, b) => QUOTA_ORDER.indexOf(a.quota) - QUOTA_ORDER.indexOf(b.quota));
 
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
-      <div className="rounded-lg border p-4">
-        <div className="flex justify-between items-center mb-2">
-          <div className="flex items-center">
-            <Brain className="h-4 w-4 text-primary mr-2" />
-            <span className="font-medium">Brains</span>
-          </div>
-          <span>
-            {userBrainCount} / {isPro ? 'Unlimited' : maxBrains}
-          </span>
-        </div>
-        {!isPro && (
-          <Progress value={brainPercentage} className="h-2" />
-        )}
-      </div>
-      
-      <div className="rounded-lg border p-4">
-        <div className="flex justify-between items-center mb-2">
-          <div className="flex items-center">
-            <Zap className="h-4 w-4 text-primary mr-2" />
-            <span className="font-medium">AI API Calls</span>
+      {shown.map(quota => {
+        const Icon = QUOTA_ICONS[quota.quota];
+        const unlimited = isUnlimited(quota);
+        const percentage = !unlimited && quota.limit
+          ? Math.min(Math.round((quota.used / quota.limit) * 100), 100)
+          : 0;
+
+        return (
+          <div key={quota.quota} className="rounded-lg border p-4">
+            <div className="flex justify-between items-center mb-2">
+              <div className="flex items-center">
+                <Icon className="h-4 w-4 text-primary mr-2" />
+                <span className="font-medium">{QUOTA_LABELS[quota.quota]}</span>
+              </div>
+              <span>
+                {formatQuotaAmount(quota.quota, quota.used)} / {unlimited ? 'Unlimited' : formatQuotaAmount(quota.quota, quota.limit!)}
+              </span>
+            </div>
+            {!unlimited && (
+              <Progress value={percentage} className="h-2" />
+            )}
+            {quota.quota === 'api_calls' && usage && (
+              <p className="text-xs text-muted-foreground mt-2">
+                {formatTokens(usage.totals.inputTokens + usage.totals.outputTokens)} tokens, about {formatCost(usage.totals.costUsd)} this month
+              </p>
+            )}
+            {quota.overridden && (
+              <p className="text-xs text-muted-foreground mt-2">Custom limit for your account</p>
+            )}
           </div>
-          <span>{apiCallsUsed} / Unlimited</span>
-        </div>
+        );
+      })}
+
+      <div className="rounded-lg border p-4 md:col-span-2">
+        <div className="font-medium mb-3">AI usage this month</div>
+        <UsageCharts usage={usage} />
       </div>
     </div>
   );
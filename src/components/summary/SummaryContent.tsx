@@ -1,28 +1,42 @@
 
 import React from 'react';
-import { Loader2, Save, AlertCircle } from 'lucide-react';
+import { Loader2, Save, AlertCircle, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { useIsMobile } from '@/hooks/use-mobile';
+import MarkdownContent from '@/components/markdown/MarkdownContent';
 
 interface SummaryContentProps {
   isLoading: boolean;
   summary: string;
   hasSummary: boolean;
   error?: string | null;
+  // Stops a summary that is still being generated
+  onCancel?: () => void;
 }
 
 const SummaryContent: React.FC<SummaryContentProps> = ({
   isLoading,
   summary,
   hasSummary,
-  error
+  error,
+  onCancel
 }) => {
   const isMobile = useIsMobile();
 
-  if (isLoading) {
+  const cancelButton = onCancel && (
+    <Button variant="ghost" size="sm" className="h-7 gap-1" onClick={onCancel}>
+      <Square className="h-3 w-3 fill-current" />
+      Stop
+    </Button>
+  );
+
+  // Waiting for the first words of the summary
+  if (isLoading && !summary) {
     return (
       <div className="flex flex-col items-center justify-center py-8 space-y-4">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
         <p className="text-sm text-muted-foreground">Generating summary...</p>
+        {cancelButton}
       </div>
     );
   } 
@@ -47,15 +61,24 @@ const SummaryContent: React.FC<SummaryContentProps> = ({
   if (summary) {
     return (
       <>
-        {!isMobile && (
+        {isLoading ? (
+          <div className="mb-2 px-2 text-sm text-muted-foreground flex items-center justify-between">
+            <span className="flex items-center">
+              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+              Generating summary...
+            </span>
+            {cancelButton}
+          </div>
+        ) : !isMobile && (
           <div className="mb-2 px-2 text-sm text-muted-foreground flex items-center">
             <Save className="h-3 w-3 mr-1" />
             <span>Summary is saved and will be available instantly next time</span>
           </div>
         )}
-        <div className="p-4 bg-accent/20 rounded-md whitespace-pre-wrap max-h-[55vh] overflow-y-auto prose prose-sm dark:prose-invert">
-          {summary}
-        </div>
+        <MarkdownContent
+          content={summary}
+          className="p-4 bg-accent/20 rounded-md max-h-[55vh] overflow-y-auto"
+        />
       </>
     );
   }
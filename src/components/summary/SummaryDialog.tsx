@@ -23,6 +23,7 @@ export interface SummaryDialogProps {
   onNoteSaved?: () => void;
   error?: string | null;
   onRetry?: () => void;
+  onCancel?: () => void;
 }
 
 const SummaryDialog: React.FC<SummaryDialogProps> = ({
@@ -38,7 +39,8 @@ const SummaryDialog: React.FC<SummaryDialogProps> = ({
   sourceType = 'pdf',
   onNoteSaved,
   error,
-  onRetry
+  onRetry,
+  onCancel
 }) => {
   const {
     feedbackGiven,
@@ -96,12 +98,13 @@ const SummaryDialog: React.FC<SummaryDialogProps> = ({
             summary={summary} 
             hasSummary={hasSummary} 
             error={error}
+            onCancel={onCancel}
           />
         </div>
         
         <div className="p-6 pt-2 flex-shrink-0">
           <SummaryAlert 
-            hasSummary={hasSummary}
+            hasSummary={hasSummary && !isLoading}
             localHasSavedVersion={localHasSavedVersion}
             projectId={projectId}
           />
@@ -0,0 +1,243 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Trash2, UserPlus } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { useSubscription } from '@/hooks/useSubscription';
+import { useWorkspaceMembers } from '@/hooks/useWorkspaceMembers';
+import BillingSection from '@/components/subscription/BillingSection';
+import { Workspace, WorkspaceRole } from '@/types/workspace';
+
+const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member'
+};
+
+const WORKSPACE_ROLE_DESCRIPTIONS: Record<Exclude<WorkspaceRole, 'owner'>, string> = {
+  admin: 'Manages members, seats and every brain in the workspace',
+  member: 'Edits every brain in the workspace'
+};
+
+interface WorkspaceSettingsDialogProps {
+  workspace: Workspace;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const WorkspaceSettingsDialog: React.FC<WorkspaceSettingsDialogProps> = ({ workspace, open, onOpenChange }) => {
+  const { user } = useAuth();
+  const { refreshWorkspaces, switchWorkspace } = useWorkspace();
+  const { purchaseWorkspaceSeats, isUpgrading, openBillingPortal, isOpeningPortal } = useSubscription();
+  const { members, loading, saving, addMember, updateRole, removeMember } = useWorkspaceMembers(
+    open ? workspace.id : undefined
+  );
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<Exclude<WorkspaceRole, 'owner'>>('member');
+  const [seats, setSeats] = useState(workspace.seats);
+
+  const isAdmin = workspace.role === 'owner' || workspace.role === 'admin';
+  const isPro = workspace.plan_type === 'pro' && workspace.is_active;
+  // Without a subscription the workspace only has a seat for its owner
+  const paidSeats = isPro ? workspace.seats : 1;
+  const seatsFull = members.length >= paidSeats;
+
+  useEffect(() => {
+    setSeats(Math.max(workspace.seats, members.length));
+  }, [workspace.seats, members.length]);
+
+  const handleAddMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    if (await addMember(email, role)) {
+      setEmail('');
+      setRole('member');
+    }
+  };
+
+  const handlePurchaseSeats = async () => {
+    const updatedSeats = await purchaseWorkspaceSeats(workspace.id, seats);
+    if (updatedSeats !== null) {
+      await refreshWorkspaces();
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!user || !window.confirm(`Leave ${workspace.name}? You will lose access to its brains.`)) return;
+
+    await removeMember(user.id);
+    switchWorkspace(null);
+    await refreshWorkspaces();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {workspace.name}
+            <Badge variant={isPro ? 'default' : 'secondary'}>{isPro ? 'Pro' : 'Starter'}</Badge>
+          </DialogTitle>
+          <DialogDescription>
+            Every member takes a seat, and every seat of a Pro workspace gets the Pro plan.
+          </DialogDescription>
+        </DialogHeader>
+
+        <section className="space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">Seats</span>
+            <span>{members.length} of {paidSeats} used</span>
+          </div>
+          <Progress value={Math.min(100, Math.round((members.length / paidSeats) * 100))} className="h-2" />
+
+          {isAdmin && (
+            <div className="flex items-end gap-2">
+              <div className="space-y-1 flex-1">
+                <Label htmlFor="workspace-seats">{isPro ? 'Change seats' : 'Pro seats to buy'}</Label>
+                <Input
+                  id="workspace-seats"
+                  type="number"
+                  min={Math.max(1, members.length)}
+                  value={seats}
+                  onChange={(e) => setSeats(Number(e.target.value))}
+                  disabled={isUpgrading}
+                />
+              </div>
+              <Button
+                onClick={handlePurchaseSeats}
+                disabled={isUpgrading || seats < Math.max(1, members.length) || (isPro && seats === workspace.seats)}
+              >
+                {isUpgrading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isPro ? 'Update seats' : 'Upgrade to Pro'}
+              </Button>
+            </div>
+          )}
+
+        </section>
+
+        {isAdmin && open && (
+          <BillingSection
+            workspaceId={workspace.id}
+            onManageBilling={() => openBillingPortal(workspace.id)}
+            isOpeningPortal={isOpeningPortal}
+          />
+        )}
+
+        <section className="space-y-3 pt-2">
+          <h3 className="text-sm font-medium">Members</h3>
+
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <ul className="divide-y rounded-md border">
+              {members.map(member => (
+                <li key={member.user_id} className="flex items-center justify-between gap-2 p-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {member.full_name || member.email || 'Unknown user'}
+                      {member.user_id === user?.id && <span className="text-muted-foreground"> (you)</span>}
+                    </p>
+                    {member.full_name && member.email && (
+                      <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+                    )}
+                  </div>
+
+                  {isAdmin && member.role !== 'owner' && member.user_id !== user?.id ? (
+                    <div className="flex items-center gap-1">
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) => updateRole(member.user_id, value as Exclude<WorkspaceRole, 'owner'>)}
+                      >
+                        <SelectTrigger className="h-8 w-[110px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="admin">{WORKSPACE_ROLE_LABELS.admin}</SelectItem>
+                          <SelectItem value="member">{WORKSPACE_ROLE_LABELS.member}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => removeMember(member.user_id)}
+                        aria-label={`Remove ${member.full_name || member.email || 'member'}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">{WORKSPACE_ROLE_LABELS[member.role]}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {isAdmin && (
+            <form onSubmit={handleAddMember} className="space-y-2">
+              <div className="flex gap-2">
+                <Input
+                  type="email"
+                  placeholder="colleague@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  disabled={saving || seatsFull}
+                />
+                <Select value={role} onValueChange={(value) => setRole(value as Exclude<WorkspaceRole, 'owner'>)}>
+                  <SelectTrigger className="w-[120px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="member">{WORKSPACE_ROLE_LABELS.member}</SelectItem>
+                    <SelectItem value="admin">{WORKSPACE_ROLE_LABELS.admin}</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button type="submit" disabled={saving || seatsFull || !email.trim()}>
+                  {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {seatsFull
+                  ? 'Every seat is taken. Add seats to invite more members.'
+                  : WORKSPACE_ROLE_DESCRIPTIONS[role]}
+              </p>
+            </form>
+          )}
+        </section>
+
+        {workspace.role !== 'owner' && (
+          <div className="pt-2">
+            <Button variant="outline" className="text-red-600" onClick={handleLeave}>
+              Leave workspace
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WorkspaceSettingsDialog;
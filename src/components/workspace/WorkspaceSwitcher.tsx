@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Building2, Check, ChevronsUpDown, Plus, Settings, User } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import CreateWorkspaceDialog from './CreateWorkspaceDialog';
+import WorkspaceSettingsDialog from './WorkspaceSettingsDialog';
+
+interface WorkspaceSwitcherProps {
+  className?: string;
+}
+
+// Switches between the personal space and team workspaces. The dashboard
+// lists the brains of the selected one and new brains are created in it.
+const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({ className }) => {
+  const { user } = useAuth();
+  const { workspaces, currentWorkspace, switchWorkspace } = useWorkspace();
+  const [createOpen, setCreateOpen] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+
+  if (!user) return null;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className={cn('max-w-[220px] justify-between gap-2', className)}>
+            {currentWorkspace ? <Building2 className="h-4 w-4 shrink-0" /> : <User className="h-4 w-4 shrink-0" />}
+            <span className="truncate">{currentWorkspace?.name || 'Personal'}</span>
+            <ChevronsUpDown className="h-3.5 w-3.5 shrink-0 opacity-50" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-[240px]">
+          <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+          <DropdownMenuItem onClick={() => switchWorkspace(null)}>
+            <User className="h-4 w-4 mr-2" />
+            <span className="flex-1">Personal</span>
+            {!currentWorkspace && <Check className="h-4 w-4" />}
+          </DropdownMenuItem>
+          {workspaces.map(workspace => (
+            <DropdownMenuItem key={workspace.id} onClick={() => switchWorkspace(workspace.id)}>
+              <Building2 className="h-4 w-4 mr-2" />
+              <span className="flex-1 truncate">{workspace.name}</span>
+              {currentWorkspace?.id === workspace.id && <Check className="h-4 w-4" />}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          {currentWorkspace && (
+            <DropdownMenuItem onClick={() => setSettingsOpen(true)}>
+              <Settings className="h-4 w-4 mr-2" />
+              Members and seats
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={() => setCreateOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New workspace
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <CreateWorkspaceDialog open={createOpen} onOpenChange={setCreateOpen} />
+      {currentWorkspace && (
+        <WorkspaceSettingsDialog
+          workspace={currentWorkspace}
+          open={settingsOpen}
+          onOpenChange={setSettingsOpen}
+        />
+      )}
+    </>
+  );
+};
+
+export default WorkspaceSwitcher;
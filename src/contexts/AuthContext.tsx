@@ -10,8 +10,8 @@ type AuthContextType = {
   user: User | null;
   profile: any | null;
   isLoading: boolean;
-  signIn: (email: string, password: string) => Promise<void>;
-  signUp: (email: string, password: string, fullName: string) => Promise<void>;
+  signIn: (email: string, password: string, redirectTo?: string) => Promise<void>;
+  signUp: (email: string, password: string, fullName: string, redirectTo?: string) => Promise<void>;
   signOut: () => Promise<void>;
   fetchProfile: () => Promise<void>;
 };
@@ -79,7 +79,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  const signIn = async (email: string, password: string) => {
+  const signIn = async (email: string, password: string, redirectTo = '/dashboard') => {
     try {
       const { error } = await supabase.auth.signInWithPassword({
         email,
@@ -91,14 +91,15 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         return;
       }
 
-      navigate('/dashboard');
+      navigate(redirectTo);
       toast.success('Signed in successfully');
     } catch (error: any) {
       toast.error(error.message || 'An unexpected error occurred');
     }
   };
 
-  const signUp = async (email: string, password: string, fullName: string) => {
+  // redirectTo is where the confirmation link lands, e.g. back on an invitation
+  const signUp = async (email: string, password: string, fullName: string, redirectTo?: string) => {
     try {
       const { error } = await supabase.auth.signUp({
         email,
@@ -107,6 +108,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           data: {
             full_name: fullName,
           },
+          ...(redirectTo && { emailRedirectTo: `${window.location.origin}${redirectTo}` }),
         },
       });
 
@@ -0,0 +1,128 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { useAuth } from './AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { SubscriptionPlan } from '@/types/subscription';
+import { Workspace, WorkspaceRole } from '@/types/workspace';
+
+interface WorkspaceContextType {
+  workspaces: Workspace[];
+  // Null while the personal space is selected
+  currentWorkspace: Workspace | null;
+  isLoading: boolean;
+  switchWorkspace: (workspaceId: string | null) => void;
+  createWorkspace: (name: string) => Promise<Workspace | null>;
+  refreshWorkspaces: () => Promise<void>;
+}
+
+const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined);
+
+const storageKey = (userId: string) => `currentWorkspace-${userId}`;
+
+// Loads the workspaces of the signed-in user and remembers which one the
+// dashboard and new brains use, per user and browser
+export const WorkspaceProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [currentWorkspaceId, setCurrentWorkspaceId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refreshWorkspaces = useCallback(async () => {
+    if (!user) {
+      setWorkspaces([]);
+      setCurrentWorkspaceId(null);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('workspace_members')
+        .select('role, workspaces (id, name, plan_type, is_active, seats)')
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+
+      const loaded: Workspace[] = (data || [])
+        .filter(row => row.workspaces)
+        .map(row => ({
+          id: row.workspaces.id,
+          name: row.workspaces.name,
+          plan_type: row.workspaces.plan_type as SubscriptionPlan,
+          is_active: row.workspaces.is_active,
+          seats: row.workspaces.seats,
+          role: row.role as WorkspaceRole
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+      setWorkspaces(loaded);
+
+      // Fall back to the personal space when the saved workspace is gone
+      const savedId = localStorage.getItem(storageKey(user.id));
+      setCurrentWorkspaceId(loaded.some(workspace => workspace.id === savedId) ? savedId : null);
+    } catch (error) {
+      console.error('Error fetching workspaces:', error);
+      toast.error('Could not load your workspaces');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refreshWorkspaces();
+  }, [refreshWorkspaces]);
+
+  const switchWorkspace = useCallback((workspaceId: string | null) => {
+    if (!user) return;
+
+    if (workspaceId) {
+      localStorage.setItem(storageKey(user.id), workspaceId);
+    } else {
+      localStorage.removeItem(storageKey(user.id));
+    }
+    setCurrentWorkspaceId(workspaceId);
+  }, [user]);
+
+  const createWorkspace = useCallback(async (name: string): Promise<Workspace | null> => {
+    try {
+      const { data: workspaceId, error } = await supabase.rpc('create_workspace', { p_name: name });
+      if (error) throw error;
+
+      const workspace: Workspace = {
+        id: workspaceId,
+        name: name.trim(),
+        plan_type: 'starter',
+        is_active: false,
+        seats: 1,
+        role: 'owner'
+      };
+
+      setWorkspaces(prev => [...prev, workspace].sort((a, b) => a.name.localeCompare(b.name)));
+      switchWorkspace(workspace.id);
+      toast.success(`Created ${workspace.name}`);
+      return workspace;
+    } catch (error) {
+      console.error('Error creating workspace:', error);
+      toast.error('Failed to create workspace');
+      return null;
+    }
+  }, [switchWorkspace]);
+
+  const currentWorkspace = workspaces.find(workspace => workspace.id === currentWorkspaceId) || null;
+
+  return (
+    <WorkspaceContext.Provider
+      value={{ workspaces, currentWorkspace, isLoading, switchWorkspace, createWorkspace, refreshWorkspaces }}
+    >
+      {children}
+    </WorkspaceContext.Provider>
+  );
+};
+
+export const useWorkspace = () => {
+  const context = useContext(WorkspaceContext);
+  if (context === undefined) {
+    throw new Error('useWorkspace must be used within a WorkspaceProvider');
+  }
+  return context;
+};
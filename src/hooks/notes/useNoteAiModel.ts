@@ -1,8 +1,16 @@
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import { ModelType } from '@/utils/aiPrompts';
+import { useProjectDefaultModel } from '../useProjectDefaultModel';
 
-export function useNoteAiModel() {
-  const [aiModel, setAiModel] = useState<'claude' | 'openai'>('claude');
+// Starts from the brain's default model; the user can still switch per action
+export function useNoteAiModel(projectId?: string) {
+  const { defaultModel } = useProjectDefaultModel(projectId);
+  const [aiModel, setAiModel] = useState<ModelType>(defaultModel);
+
+  useEffect(() => {
+    setAiModel(defaultModel);
+  }, [defaultModel]);
 
   return {
     aiModel,
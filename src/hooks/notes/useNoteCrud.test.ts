@@ -0,0 +1,73 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useNoteCrud } from './useNoteCrud';
+import { Note } from '@/components/notes/types';
+
+const filters: [string, unknown][] = [];
+
+vi.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({ user: { id: 'editor-1', user_metadata: {} } })
+}));
+
+vi.mock('sonner', () => ({
+  toast: { success: vi.fn(), error: vi.fn() }
+}));
+
+// Row level security lets editors update any note of the brain, so the
+// update succeeds unless the query narrows it to the caller's own notes
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: () => {
+      let values: Record<string, unknown> = {};
+      const query = {
+        update: (next: Record<string, unknown>) => {
+          values = next;
+          return query;
+        },
+        eq: (column: string, value: unknown) => {
+          filters.push([column, value]);
+          return query;
+        },
+        select: () => query,
+        single: async () => filters.some(([column]) => column === 'user_id')
+          ? { data: null, error: { message: 'JSON object requested, multiple (or no) rows returned' } }
+          : { data: { ...note, ...values }, error: null }
+      };
+      return query;
+    }
+  }
+}));
+
+const note = {
+  id: 'note-1',
+  project_id: 'brain-1',
+  user_id: 'author-1',
+  title: 'Kickoff',
+  content: 'Agenda',
+  tags: null,
+  source_document: null,
+  creator_name: 'Author'
+} as unknown as Note;
+
+describe('useNoteCrud', () => {
+  beforeEach(() => {
+    filters.length = 0;
+  });
+
+  it('lets an editor update a note they did not write', async () => {
+    const setNotes = vi.fn();
+    const { result } = renderHook(() => useNoteCrud('brain-1', [note], setNotes, [], vi.fn()));
+
+    let saved = false;
+    await act(async () => {
+      saved = await result.current.handleEditNote('note-1', 'Kickoff notes', 'Agenda and owners', [], note);
+    });
+
+    expect(saved).toBe(true);
+    expect(filters).toEqual([['id', 'note-1']]);
+    expect(setNotes).toHaveBeenCalledWith([
+      expect.objectContaining({ id: 'note-1', user_id: 'author-1', title: 'Kickoff notes' })
+    ]);
+  });
+});
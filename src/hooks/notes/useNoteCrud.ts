@@ -3,7 +3,7 @@ import { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
-import { Note } from '@/components/notes/types';
+import { Note, RevisionCause } from '@/components/notes/types';
 
 export function useNoteCrud(
   projectId: string,
@@ -15,7 +15,8 @@ export function useNoteCrud(
   const { user } = useAuth();
   const [saving, setSaving] = useState(false);
 
-  const handleCreateNote = async (title: string, content: string, tags: string[]) => {
+  // `revisionCause` tells the note's history why it changed; manual by default
+  const handleCreateNote = async (title: string, content: string, tags: string[], revisionCause?: RevisionCause) => {
     if (!title.trim() || !projectId || !user) {
       toast.error('Please enter a title for your note');
       return false;
@@ -30,7 +31,8 @@ export function useNoteCrud(
           content,
           project_id: projectId,
           user_id: user.id,
-          tags: tags.length > 0 ? tags : null
+          tags: tags.length > 0 ? tags : null,
+          revision_cause: revisionCause
         })
         .select()
         .single();
@@ -66,7 +68,14 @@ export function useNoteCrud(
     }
   };
 
-  const handleEditNote = async (noteId: string, title: string, content: string, tags: string[], currentNote: Note) => {
+  const handleEditNote = async (
+    noteId: string,
+    title: string,
+    content: string,
+    tags: string[],
+    currentNote: Note,
+    revisionCause?: RevisionCause
+  ) => {
     if (!title.trim() || !noteId || !user) {
       toast.error('Please enter a title for your note');
       return false;
@@ -80,10 +89,11 @@ export function useNoteCrud(
           title,
           content,
           updated_at: new Date().toISOString(),
-          tags: tags.length > 0 ? tags : null
+          tags: tags.length > 0 ? tags : null,
+          revision_cause: revisionCause
         })
+        // Any editor of the brain can edit any note; row level security decides
         .eq('id', noteId)
-        .eq('user_id', user.id)
         .select()
         .single();
         
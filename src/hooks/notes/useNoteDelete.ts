@@ -1,8 +1,8 @@
 
 import { useState } from 'react';
-import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { Note } from '@/components/notes/types';
+import { moveToTrash } from '@/utils/trashUtils';
 
 export function useNoteDelete(userId: string | undefined, notes: Note[], setNotes: React.Dispatch<React.SetStateAction<Note[]>>, setAllTags: React.Dispatch<React.SetStateAction<string[]>>) {
   const handleDeleteNote = async (noteId: string) => {
@@ -12,16 +12,10 @@ export function useNoteDelete(userId: string | undefined, notes: Note[], setNote
     if (!confirmed) return;
     
     try {
-      const { error } = await supabase
-        .from('project_notes')
-        .delete()
-        .eq('id', noteId)
-        .eq('user_id', userId);
-        
-      if (error) throw error;
+      await moveToTrash('note', noteId);
       
       setNotes(notes.filter(note => note.id !== noteId));
-      toast.success('Note deleted successfully');
+      toast.success('Note moved to trash');
       
       const remainingTags = new Set<string>();
       notes
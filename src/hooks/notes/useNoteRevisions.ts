@@ -0,0 +1,90 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Note, NoteRevision } from '@/components/notes/types';
+
+// Revisions shown in a note's history, newest first
+const REVISION_LIMIT = 100;
+
+// History of a note, loaded while `enabled`, and restoring one of its versions
+export function useNoteRevisions(noteId: string | undefined, enabled: boolean) {
+  const [revisions, setRevisions] = useState<NoteRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const fetchRevisions = useCallback(async () => {
+    if (!noteId) return;
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('note_revisions')
+        .select('id, note_id, title, content, tags, cause, author_id, restored_from, created_at')
+        .eq('note_id', noteId)
+        .order('created_at', { ascending: false })
+        .limit(REVISION_LIMIT);
+
+      if (error) throw error;
+
+      const authorIds = [...new Set((data || []).map(revision => revision.author_id).filter(Boolean))];
+      let profiles: { id: string; full_name: string | null }[] = [];
+      if (authorIds.length > 0) {
+        const { data: profilesData, error: profilesError } = await supabase
+          .from('profiles')
+          .select('id, full_name')
+          .in('id', authorIds);
+
+        if (profilesError) throw profilesError;
+        profiles = profilesData || [];
+      }
+
+      setRevisions((data || []).map(revision => ({
+        ...revision,
+        cause: revision.cause as NoteRevision['cause'],
+        author_name: profiles.find(profile => profile.id === revision.author_id)?.full_name || 'Unknown User',
+      })));
+    } catch (error) {
+      console.error('Error fetching note history:', error);
+      toast.error('Failed to load the note history');
+    } finally {
+      setLoading(false);
+    }
+  }, [noteId]);
+
+  useEffect(() => {
+    if (enabled) fetchRevisions();
+  }, [enabled, fetchRevisions]);
+
+  // Returns the note as restored, or null when the restore failed
+  const restoreRevision = async (revision: NoteRevision, note: Note): Promise<Note | null> => {
+    setRestoringId(revision.id);
+    try {
+      const { error } = await supabase.rpc('restore_note_revision', { p_revision_id: revision.id });
+      if (error) throw error;
+
+      toast.success('Note restored to the selected version');
+      await fetchRevisions();
+
+      return {
+        ...note,
+        title: revision.title || '',
+        content: revision.content,
+        tags: revision.tags || [],
+        updated_at: new Date().toISOString(),
+      };
+    } catch (error) {
+      console.error('Error restoring note version:', error);
+      toast.error(error.message || 'Failed to restore this version');
+      return null;
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return {
+    revisions,
+    loading,
+    restoringId,
+    refresh: fetchRevisions,
+    restoreRevision
+  };
+}
@@ -56,8 +56,11 @@ export const fetchUserSubscriptionAndPlan = async (userId: string): Promise<{
       };
     }
     
-    // We have subscription data, convert to our type
-    const planType = subscriptionData.plan_type as SubscriptionPlan;
+    // We have subscription data, convert to our type. A past-due plan
+    // ends with its grace period even before Stripe gives up on the payment.
+    const graceExpired = !!subscriptionData.grace_period_ends_at &&
+      new Date(subscriptionData.grace_period_ends_at) <= new Date();
+    const planType = (graceExpired ? 'starter' : subscriptionData.plan_type) as SubscriptionPlan;
     
     console.log(`Found subscription for user ${userId} with plan type: ${planType}`);
     
@@ -67,7 +70,11 @@ export const fetchUserSubscriptionAndPlan = async (userId: string): Promise<{
       plan_type: planType,
       is_active: subscriptionData.is_active,
       trial_ends_at: subscriptionData.trial_ends_at,
-      created_at: subscriptionData.created_at
+      created_at: subscriptionData.created_at,
+      status: subscriptionData.status,
+      current_period_end: subscriptionData.current_period_end,
+      cancel_at_period_end: subscriptionData.cancel_at_period_end,
+      grace_period_ends_at: subscriptionData.grace_period_ends_at
     };
     
     // Get plan details
@@ -57,7 +57,7 @@ export const useSubscriptionData = (): SubscriptionData => {
     }
   }, [user]);
 
-  // Function to manually register subscription after checkout
+  // Applies a finished checkout right away instead of waiting for the webhook
   const registerStripeSubscription = useCallback(async (sessionId: string) => {
     if (!user) {
       console.error('Cannot register subscription without a logged in user');
@@ -67,17 +67,14 @@ export const useSubscriptionData = (): SubscriptionData => {
     try {
       toast.loading('Finalizing your subscription...', { id: 'subscription-update' });
       
-      console.log(`Registering subscription for session ${sessionId} and user ${user.id}`);
+      console.log(`Confirming checkout session ${sessionId} for user ${user.id}`);
       
-      const { data, error } = await supabase.functions.invoke('process-stripe-webhook', {
-        body: { 
-          userId: user.id,
-          sessionId
-        }
+      const { data, error } = await supabase.functions.invoke('confirm-stripe-checkout', {
+        body: { sessionId }
       });
       
       if (error) {
-        console.error('Error invoking webhook function:', error);
+        console.error('Error confirming checkout:', error);
         toast.error('Failed to finalize subscription. Please contact support.', { 
           id: 'subscription-update' 
         });
@@ -86,7 +83,7 @@ export const useSubscriptionData = (): SubscriptionData => {
       
       if (data?.success) {
         console.log('Subscription registered successfully');
-        toast.success('Your subscription has been upgraded to Pro!', { 
+        toast.success(data.workspaceId ? 'Your workspace seats are ready!' : 'Your subscription has been upgraded to Pro!', { 
           id: 'subscription-update',
           duration: 5000
         });
@@ -11,6 +11,7 @@ export const getDefaultPlan = (): SubscriptionTier => ({
   max_api_calls: 25,
   max_brains: 3,
   max_documents: 9999,
+  max_storage_bytes: 1024 * 1024 * 1024,
   features: ['Create up to 3 brains', '25 AI API calls per month', 'Document uploads', 'Image analysis'],
   is_default: true
 });
@@ -24,6 +25,7 @@ export const createPlanFromData = (planData: any): SubscriptionTier => ({
   max_api_calls: planData.max_api_calls,
   max_brains: planData.max_brains,
   max_documents: planData.max_documents,
+  max_storage_bytes: planData.max_storage_bytes,
   features: convertJsonToStringArray(planData.features),
   is_default: planData.is_default
 });
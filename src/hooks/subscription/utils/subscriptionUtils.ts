@@ -9,7 +9,11 @@ export const createDefaultSubscription = (userId: string): UserSubscription => (
   plan_type: 'starter',
   is_active: true,
   trial_ends_at: null,
-  created_at: new Date().toISOString()
+  created_at: new Date().toISOString(),
+  status: null,
+  current_period_end: null,
+  cancel_at_period_end: false,
+  grace_period_ends_at: null
 });
 
 // Helper to create a default user subscription in the database
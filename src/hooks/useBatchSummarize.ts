@@ -3,10 +3,11 @@ import { useState } from 'react';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { DEFAULT_MODEL, ModelType } from '@/utils/aiPrompts';
 
 interface UseBatchSummarizeProps {
   projectId: string;
-  model?: 'claude' | 'openai';
+  model?: ModelType;
 }
 
 interface SummaryResult {
@@ -21,7 +22,7 @@ interface ErrorResult {
   error: string;
 }
 
-export function useBatchSummarize({ projectId, model = 'claude' }: UseBatchSummarizeProps) {
+export function useBatchSummarize({ projectId, model = DEFAULT_MODEL }: UseBatchSummarizeProps) {
   const { user } = useAuth();
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
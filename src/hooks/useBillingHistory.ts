@@ -0,0 +1,120 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { BillingInvoice, BillingSummary, InvoiceStatus, PaymentMethodSummary } from '@/types/subscription';
+
+// How many invoices the billing section lists
+const INVOICE_LIMIT = 24;
+
+// The subscription, card and invoices of the signed-in user, or of a
+// workspace for its admins. Everything is read from what the Stripe webhook
+// mirrored into the database; only cancel and resume call Stripe.
+export const useBillingHistory = (workspaceId?: string) => {
+  const { user } = useAuth();
+  const [summary, setSummary] = useState<BillingSummary | null>(null);
+  const [invoices, setInvoices] = useState<BillingInvoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+
+  const fetchBilling = useCallback(async () => {
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const summaryColumns = 'status, current_period_end, cancel_at_period_end, trial_ends_at, grace_period_ends_at, payment_method';
+      const { data: billing, error: summaryError } = workspaceId
+        ? await supabase.from('workspaces').select(summaryColumns).eq('id', workspaceId).maybeSingle()
+        : await supabase.from('user_subscriptions').select(summaryColumns).eq('user_id', user.id).maybeSingle();
+
+      if (summaryError) throw summaryError;
+
+      const invoiceQuery = supabase
+        .from('billing_invoices')
+        .select('id, number, status, currency, amount_due, amount_paid, amount_refunded, period_start, period_end, hosted_invoice_url, invoice_pdf, receipt_url, stripe_created_at')
+        .neq('status', 'draft')
+        .order('stripe_created_at', { ascending: false })
+        .limit(INVOICE_LIMIT);
+
+      const { data: rows, error: invoicesError } = workspaceId
+        ? await invoiceQuery.eq('workspace_id', workspaceId)
+        : await invoiceQuery.eq('user_id', user.id);
+
+      if (invoicesError) throw invoicesError;
+
+      setSummary(billing ? {
+        status: billing.status,
+        current_period_end: billing.current_period_end,
+        cancel_at_period_end: billing.cancel_at_period_end,
+        trial_ends_at: billing.trial_ends_at,
+        grace_period_ends_at: billing.grace_period_ends_at,
+        payment_method: billing.payment_method as unknown as PaymentMethodSummary | null
+      } : null);
+
+      setInvoices((rows || []).map(row => ({
+        id: row.id,
+        number: row.number,
+        status: row.status as InvoiceStatus,
+        currency: row.currency,
+        amount_due: row.amount_due,
+        amount_paid: row.amount_paid,
+        amount_refunded: row.amount_refunded,
+        period_start: row.period_start,
+        period_end: row.period_end,
+        hosted_invoice_url: row.hosted_invoice_url,
+        invoice_pdf: row.invoice_pdf,
+        receipt_url: row.receipt_url,
+        created_at: row.stripe_created_at
+      })));
+    } catch (error) {
+      console.error('Error fetching billing history:', error);
+      toast.error('Failed to load billing history');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, workspaceId]);
+
+  useEffect(() => {
+    fetchBilling();
+  }, [fetchBilling]);
+
+  // Cancels at the end of the paid period, or undoes that before it ends
+  const setCancelAtPeriodEnd = async (cancel: boolean) => {
+    try {
+      setUpdating(true);
+
+      const { data, error } = await supabase.functions.invoke('update-stripe-subscription', {
+        body: { action: cancel ? 'cancel' : 'resume', workspaceId }
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      const periodEnd = format(new Date(data.currentPeriodEnd), 'MMM d, yyyy');
+      toast.success(cancel
+        ? `Your subscription will end on ${periodEnd}`
+        : `Your subscription will renew on ${periodEnd}`);
+      await fetchBilling();
+    } catch (error) {
+      console.error('Error updating subscription:', error);
+      toast.error(cancel ? 'Failed to cancel the subscription' : 'Failed to resume the subscription');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  return {
+    summary,
+    invoices,
+    loading,
+    updating,
+    cancelSubscription: () => setCancelAtPeriodEnd(true),
+    resumeSubscription: () => setCancelAtPeriodEnd(false),
+    refreshBilling: fetchBilling
+  };
+};
@@ -0,0 +1,116 @@
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { ChatConversation } from '@/components/project/chat/types';
+
+export function useChatConversations(projectId: string) {
+  const [conversations, setConversations] = useState<ChatConversation[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const { user } = useAuth();
+
+  const fetchConversations = useCallback(async () => {
+    if (!projectId || !user) return;
+
+    try {
+      setIsLoading(true);
+
+      // RLS returns the user's own threads plus threads shared by other members
+      const { data, error } = await supabase
+        .from('chat_conversations')
+        .select('id, project_id, user_id, title, is_shared, created_at, updated_at')
+        .eq('project_id', projectId)
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+
+      setConversations((data || []).map(conversation => ({
+        ...conversation,
+        is_own: conversation.user_id === user.id
+      })));
+    } catch (error) {
+      console.error('Error fetching conversations:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId, user]);
+
+  useEffect(() => {
+    setConversations([]);
+    fetchConversations();
+  }, [fetchConversations]);
+
+  const renameConversation = async (conversationId: string, title: string) => {
+    const trimmed = title.trim();
+    if (!trimmed) return false;
+
+    try {
+      const { error } = await supabase
+        .from('chat_conversations')
+        .update({ title: trimmed })
+        .eq('id', conversationId);
+
+      if (error) throw error;
+
+      setConversations(prev => prev.map(conversation =>
+        conversation.id === conversationId ? { ...conversation, title: trimmed } : conversation
+      ));
+      return true;
+    } catch (error) {
+      console.error('Error renaming conversation:', error);
+      toast.error('Failed to rename conversation');
+      return false;
+    }
+  };
+
+  const setConversationShared = async (conversationId: string, isShared: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('chat_conversations')
+        .update({ is_shared: isShared })
+        .eq('id', conversationId);
+
+      if (error) throw error;
+
+      setConversations(prev => prev.map(conversation =>
+        conversation.id === conversationId ? { ...conversation, is_shared: isShared } : conversation
+      ));
+      toast.success(isShared ? 'Conversation shared with brain members' : 'Conversation is now private');
+      return true;
+    } catch (error) {
+      console.error('Error updating conversation sharing:', error);
+      toast.error('Failed to update conversation');
+      return false;
+    }
+  };
+
+  const deleteConversation = async (conversationId: string) => {
+    try {
+      // Messages are removed by the foreign key cascade
+      const { error } = await supabase
+        .from('chat_conversations')
+        .delete()
+        .eq('id', conversationId);
+
+      if (error) throw error;
+
+      setConversations(prev => prev.filter(conversation => conversation.id !== conversationId));
+      toast.success('Conversation deleted');
+      return true;
+    } catch (error) {
+      console.error('Error deleting conversation:', error);
+      toast.error('Failed to delete conversation');
+      return false;
+    }
+  };
+
+  return {
+    conversations,
+    isLoading,
+    fetchConversations,
+    renameConversation,
+    setConversationShared,
+    deleteConversation
+  };
+}
@@ -2,15 +2,20 @@
 import { useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { DEFAULT_MODEL, ModelType } from '@/utils/aiPrompts';
+import { useQuotaPrompt } from '@/hooks/useQuotaPrompt';
 
 type CleanType = 'format' | 'summarize' | 'enhance';
 
 interface UseCleanNoteTextProps {
-  model?: 'claude' | 'openai';
+  model?: ModelType;
+  // Brain the usage is counted against
+  projectId?: string;
 }
 
-export function useCleanNoteText({ model = 'claude' }: UseCleanNoteTextProps = {}) {
+export function useCleanNoteText({ model = DEFAULT_MODEL, projectId }: UseCleanNoteTextProps = {}) {
   const [isCleaning, setIsCleaning] = useState(false);
+  const promptQuota = useQuotaPrompt();
 
   const cleanText = async (noteContent: string | null, cleanType: CleanType): Promise<string | null> => {
     if (!noteContent) {
@@ -27,7 +32,8 @@ export function useCleanNoteText({ model = 'claude' }: UseCleanNoteTextProps = {
         body: {
           noteContent,
           cleanType,
-          model
+          model,
+          projectId
         },
       });
 
@@ -46,7 +52,9 @@ export function useCleanNoteText({ model = 'claude' }: UseCleanNoteTextProps = {
       return data.cleanedText;
     } catch (error: any) {
       console.error(`Error ${cleanType}ing text:`, error);
-      toast.error(`Failed to ${cleanType} text: ${error.message || 'Unknown error'}`);
+      if (!(await promptQuota(error))) {
+        toast.error(`Failed to ${cleanType} text: ${error.message || 'Unknown error'}`);
+      }
       return null;
     } finally {
       setIsCleaning(false);
@@ -2,6 +2,8 @@
 import { useState, useEffect } from 'react';
 import { ProjectCardProps } from '@/components/project-card/ProjectCard';
 import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { WORKSPACE_BRAIN_ROLES } from '@/utils/permissions';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 
@@ -20,18 +22,74 @@ interface UseDashboardDataResult {
 
 export const useDashboardData = (): UseDashboardDataResult => {
   const { user } = useAuth();
+  const { workspaces, currentWorkspace, isLoading: workspacesLoading } = useWorkspace();
   const [projects, setProjects] = useState<ProjectCardProps[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [filter, setFilter] = useState<'all' | 'owned' | 'member' | 'favorites' | 'archived'>('all');
   const [sortOrder, setSortOrder] = useState<'newest' | 'oldest' | 'alphabetical'>('newest');
 
+  const countMembers = async (projectList: ProjectCardProps[]) => {
+    await Promise.all(projectList.map(async (project) => {
+      const { count, error: countError } = await supabase
+        .from('project_members')
+        .select('*', { count: 'exact', head: true })
+        .eq('project_id', project.id);
+        
+      if (!countError) {
+        project.memberCount = (count || 0) + 1;
+      }
+    }));
+  };
+
+  // Every brain of a workspace, whoever created it
+  const fetchWorkspaceProjects = async (): Promise<ProjectCardProps[]> => {
+    const { data, error } = await supabase
+      .from('projects')
+      .select(`
+        id,
+        title,
+        description,
+        created_at,
+        updated_at,
+        owner_id,
+        is_favorite,
+        is_archived
+      `)
+      .eq('workspace_id', currentWorkspace.id);
+
+    if (error) throw error;
+
+    return data.map(project => ({
+      id: project.id,
+      title: project.title,
+      description: project.description || '',
+      createdAt: project.created_at,
+      updatedAt: project.updated_at,
+      status: 'active' as const,
+      memberCount: 1,
+      isOwner: project.owner_id === user.id,
+      role: project.owner_id === user.id ? 'owner' : WORKSPACE_BRAIN_ROLES[currentWorkspace.role],
+      isFavorite: project.is_favorite,
+      isArchived: project.is_archived
+    }));
+  };
+
   const fetchProjects = async () => {
-    if (!user) return;
+    if (!user || workspacesLoading) return;
 
     try {
       setLoading(true);
+
+      if (currentWorkspace) {
+        const workspaceProjects = await fetchWorkspaceProjects();
+        await countMembers(workspaceProjects);
+        setProjects(workspaceProjects);
+        return;
+      }
       
+      // The personal space holds brains outside any workspace, plus brains of
+      // other workspaces shared with the user directly
       const { data: ownedProjects, error: ownedError } = await supabase
         .from('projects')
         .select(`
@@ -44,7 +102,8 @@ export const useDashboardData = (): UseDashboardDataResult => {
           is_favorite,
           is_archived
         `)
-        .eq('owner_id', user.id);
+        .eq('owner_id', user.id)
+        .is('workspace_id', null);
 
       if (ownedError) throw ownedError;
 
@@ -61,7 +120,8 @@ export const useDashboardData = (): UseDashboardDataResult => {
             updated_at,
             owner_id,
             is_favorite,
-            is_archived
+            is_archived,
+            workspace_id
           )
         `)
         .eq('user_id', user.id);
@@ -86,7 +146,8 @@ export const useDashboardData = (): UseDashboardDataResult => {
       memberProjects.forEach(item => {
         if (item.projects && item.project_id) {
           const project = item.projects;
-          if (project.owner_id !== user.id) {
+          const inOwnWorkspace = workspaces.some(workspace => workspace.id === project.workspace_id);
+          if (project.owner_id !== user.id && !inOwnWorkspace) {
             memberProjectsMap.set(project.id, {
               id: project.id,
               title: project.title,
@@ -108,16 +169,7 @@ export const useDashboardData = (): UseDashboardDataResult => {
       
       const allProjects = [...formattedOwnedProjects, ...formattedMemberProjects];
       
-      await Promise.all(allProjects.map(async (project) => {
-        const { count, error: countError } = await supabase
-          .from('project_members')
-          .select('*', { count: 'exact', head: true })
-          .eq('project_id', project.id);
-          
-        if (!countError) {
-          project.memberCount = (count || 0) + 1;
-        }
-      }));
+      await countMembers(allProjects);
 
       setProjects(allProjects);
     } catch (error) {
@@ -130,7 +182,7 @@ export const useDashboardData = (): UseDashboardDataResult => {
 
   useEffect(() => {
     fetchProjects();
-  }, [user]);
+  }, [user, currentWorkspace?.id, workspacesLoading]);
 
   const filteredProjects = projects
     .filter(project => {
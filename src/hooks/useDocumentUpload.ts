@@ -3,6 +3,7 @@ import { useState } from 'react';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { useNavigate } from 'react-router-dom';
+import { useQuotaPrompt } from '@/hooks/useQuotaPrompt';
 
 interface UseDocumentUploadProps {
   projectId: string;
@@ -18,6 +19,7 @@ export function useDocumentUpload({ projectId, userId, onDocumentUploaded }: Use
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [currentFileIndex, setCurrentFileIndex] = useState(0);
   const [totalFiles, setTotalFiles] = useState(0);
+  const promptQuota = useQuotaPrompt();
 
   const handleFilesChange = (selectedFiles: File[]) => {
     const validFiles = selectedFiles.filter(file => {
@@ -54,6 +56,8 @@ export function useDocumentUpload({ projectId, userId, onDocumentUploaded }: Use
       
       // Upload each file in sequence
       const uploadedDocuments = [];
+      // The plan's limit was reached; the upgrade prompt already explains it
+      let stoppedByQuota = false;
       
       for (let i = 0; i < files.length; i++) {
         setCurrentFileIndex(i);
@@ -65,6 +69,21 @@ export function useDocumentUpload({ projectId, userId, onDocumentUploaded }: Use
         const pdfPath = `${userId}/${projectId}/${timestamp}_${sanitizedFileName}`;
         const bucketName = 'project_documents';
         
+        // Check the brain owner's plan first so nothing is uploaded that cannot be kept
+        const { error: quotaError } = await supabase.rpc('check_upload_quota', {
+          p_project_id: projectId,
+          p_bytes: file.size
+        });
+        
+        if (quotaError) {
+          if (await promptQuota(quotaError)) {
+            stoppedByQuota = true;
+            break;
+          }
+          // The database still enforces the limits when the document is saved
+          console.error(`Error checking quota for ${file.name}:`, quotaError);
+        }
+        
         // Update progress for current file
         setUploadProgress(20);
         console.log(`Uploading PDF to storage (${i+1}/${files.length}): ${pdfPath}`);
@@ -130,10 +149,24 @@ export function useDocumentUpload({ projectId, userId, onDocumentUploaded }: Use
         
         if (documentError) {
           console.error(`Error saving document ${file.name} to database:`, documentError);
+          // Without its record nobody can see the file, so do not leave it behind
+          await supabase.storage.from(bucketName).remove([pdfPath]);
+          
+          if (await promptQuota(documentError)) {
+            stoppedByQuota = true;
+            break;
+          }
           toast.error(`Database error for ${file.name}: ${documentError.message}`);
           continue; // Continue with next file even if this one fails
         }
         
+        // Extract the text in the background; the document list shows its progress
+        supabase.functions
+          .invoke('extract-document-text', { body: { documentId: documentData.id } })
+          .then(({ error }) => {
+            if (error) console.error(`Error starting text extraction for ${file.name}:`, error);
+          });
+
         uploadedDocuments.push(documentData);
         setUploadProgress(100);
       }
@@ -143,7 +176,7 @@ export function useDocumentUpload({ projectId, userId, onDocumentUploaded }: Use
         toast.success(`${files.length} PDF${files.length > 1 ? 's' : ''} uploaded successfully`);
       } else if (uploadedDocuments.length > 0) {
         toast.success(`${uploadedDocuments.length} of ${files.length} PDFs uploaded successfully`);
-      } else {
+      } else if (!stoppedByQuota) {
         toast.error('Failed to upload any PDFs');
       }
       
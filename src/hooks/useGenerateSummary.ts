@@ -1,7 +1,9 @@
 
-import { useState } from 'react';
+import { useState, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { invokeStreamingFunction } from '@/utils/streamingUtils';
+import { useQuotaPrompt } from '@/hooks/useQuotaPrompt';
 
 interface UseGenerateSummaryProps {
   noteContent: string | null;
@@ -25,6 +27,8 @@ export function useGenerateSummary({
   openDialog
 }: UseGenerateSummaryProps) {
   const [isGenerating, setIsGenerating] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const promptQuota = useQuotaPrompt();
 
   const generateSummary = async () => {
     if (!noteContent) {
@@ -48,40 +52,55 @@ export function useGenerateSummary({
         return;
       }
       
-      const { data, error } = await supabase.functions.invoke('generate-summary', {
-        body: {
-          type: 'note',
-          content: noteContent,
-          projectId,
-          userId: user.user.id,
-          noteId,
-          noteName
-        },
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      
+      // The summary is shown as it is written and saved by the function once complete
+      const { result, cancelled } = await invokeStreamingFunction<{ summary: string }>('generate-summary', {
+        type: 'note',
+        content: noteContent,
+        projectId,
+        userId: user.user.id,
+        noteId,
+        noteName
+      }, {
+        signal: abortController.signal,
+        onDelta: (_delta, text) => setSummary(text)
       });
-
-      if (error) {
-        console.error('Error from generate-summary function:', error);
-        throw error;
+      
+      if (cancelled) {
+        setSummary('');
+        toast.info('Summary generation cancelled');
+        return;
       }
       
-      if (!data || !data.summary) {
+      if (!result?.summary) {
         throw new Error('Received empty or invalid response from the summary generator');
       }
       
-      setSummary(data.summary);
-      setSavedSummary(data.summary);
+      setSummary(result.summary);
+      setSavedSummary(result.summary);
       setHasSummary(true);
     } catch (error: any) {
       console.error('Error generating summary:', error);
-      toast.error(`Failed to generate summary: ${error.message || 'Unknown error'}`);
+      if (!(await promptQuota(error))) {
+        toast.error(`Failed to generate summary: ${error.message || 'Unknown error'}`);
+      }
+      setSummary('');
       setHasSummary(false);
     } finally {
+      abortControllerRef.current = null;
       setIsGenerating(false);
     }
   };
 
+  const cancelGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
   return {
     isGenerating,
-    generateSummary
+    generateSummary,
+    cancelGeneration
   };
 }
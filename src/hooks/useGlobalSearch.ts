@@ -0,0 +1,80 @@
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { SearchDateRange, SearchResultType, dateRangeStart, parseSearchQuery } from '@/utils/searchUtils';
+
+export interface SearchResult {
+  result_type: SearchResultType;
+  id: string;
+  project_id: string;
+  project_title: string;
+  title: string;
+  snippet: string;
+  url: string | null;
+  tags: string[] | null;
+  created_at: string;
+  rank: number;
+}
+
+export interface SearchFilters {
+  types: SearchResultType[];
+  projectId: string | null;
+  dateRange: SearchDateRange;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+// Ranked full-text search across every brain the user can read. Runs after
+// typing pauses and drops responses that arrive for an older query.
+export function useGlobalSearch(query: string, filters: SearchFilters, enabled = true) {
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestIdRef = useRef(0);
+
+  const { text, tag } = parseSearchQuery(query);
+  const typesKey = filters.types.join(',');
+
+  useEffect(() => {
+    const requestId = ++requestIdRef.current;
+
+    if (!enabled || (!text && !tag)) {
+      setResults([]);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    setLoading(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const { data, error } = await supabase.rpc('search_brain_content', {
+          // With only a tag typed, look for the tag word itself
+          p_query: text || tag,
+          p_types: typesKey ? typesKey.split(',') : undefined,
+          p_project_id: filters.projectId || undefined,
+          p_tag: tag || undefined,
+          p_from: dateRangeStart(filters.dateRange) || undefined
+        });
+
+        if (requestId !== requestIdRef.current) return;
+        if (error) throw error;
+
+        setResults((data || []) as SearchResult[]);
+        setError(null);
+      } catch (error) {
+        if (requestId !== requestIdRef.current) return;
+        console.error('Error searching content:', error);
+        setResults([]);
+        setError('Search failed. Please try again.');
+      } finally {
+        if (requestId === requestIdRef.current) {
+          setLoading(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [text, tag, typesKey, filters.projectId, filters.dateRange, enabled]);
+
+  return { results, loading, error };
+}
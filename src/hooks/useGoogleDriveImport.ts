@@ -0,0 +1,89 @@
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+
+export type DriveImportStatus = 'queued' | 'importing' | 'imported' | 'failed';
+
+export interface DriveImportItem {
+  fileId: string;
+  name: string;
+  status: DriveImportStatus;
+  error?: string;
+}
+
+interface DriveImportResult {
+  fileId: string;
+  status: 'imported' | 'failed';
+  kind?: 'document' | 'image';
+  documentId?: string;
+  error?: string;
+}
+
+// Imports Google Drive files into a brain one at a time, so every file shows
+// its own progress and a failure only affects that file
+export function useGoogleDriveImport(userId: string | undefined) {
+  const [items, setItems] = useState<DriveImportItem[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const updateItem = (fileId: string, changes: Partial<DriveImportItem>) => {
+    setItems(prev => prev.map(item => item.fileId === fileId ? { ...item, ...changes } : item));
+  };
+
+  const importFiles = async (projectId: string, files: { id: string; name: string }[]) => {
+    if (!userId || files.length === 0) return;
+
+    setIsImporting(true);
+    setItems(files.map(file => ({ fileId: file.id, name: file.name, status: 'queued' })));
+
+    let imported = 0;
+
+    for (const file of files) {
+      updateItem(file.id, { status: 'importing' });
+
+      try {
+        const { data, error } = await supabase.functions.invoke('google-drive-import', {
+          body: { action: 'import', userId, projectId, fileIds: [file.id] }
+        });
+
+        if (error) throw error;
+        if (data?.error) throw new Error(data.error);
+
+        const result: DriveImportResult | undefined = data?.results?.[0];
+        if (!result || result.status === 'failed') {
+          throw new Error(result?.error || 'Import failed');
+        }
+
+        imported++;
+        updateItem(file.id, { status: 'imported' });
+
+        // Extract the text in the background; the document list shows its progress
+        if (result.documentId) {
+          supabase.functions
+            .invoke('extract-document-text', { body: { documentId: result.documentId } })
+            .then(({ error: extractError }) => {
+              if (extractError) console.error(`Error starting text extraction for ${file.name}:`, extractError);
+            });
+        }
+      } catch (error) {
+        console.error(`Error importing ${file.name} from Google Drive:`, error);
+        updateItem(file.id, { status: 'failed', error: error.message || 'Import failed' });
+      }
+    }
+
+    setIsImporting(false);
+
+    if (imported === files.length) {
+      toast.success(`Imported ${imported} ${imported === 1 ? 'file' : 'files'} from Google Drive`);
+    } else {
+      toast.error(`Imported ${imported} of ${files.length} files; see the list for errors`);
+    }
+  };
+
+  return {
+    items,
+    isImporting,
+    importFiles,
+    clear: () => setItems([])
+  };
+}
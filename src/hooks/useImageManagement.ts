@@ -10,84 +10,37 @@ interface UseImageManagementProps {
 export function useImageManagement({ projectId }: UseImageManagementProps) {
   const [isRenaming, setIsRenaming] = useState(false);
 
+  // Only the display name changes; the file keeps its path so links to it,
+  // its summary and its tags stay valid
   const renameImage = async (
-    imagePath: string, 
+    imageId: string, 
     oldName: string, 
     newName: string
   ): Promise<boolean> => {
-    if (!projectId || !imagePath || newName === oldName || !newName.trim()) {
+    if (!projectId || !imageId || newName === oldName || !newName.trim()) {
       return false;
     }
 
     try {
       setIsRenaming(true);
       
-      // Get the directory part of the path
-      const pathParts = imagePath.split('/');
-      const fileName = pathParts.pop() || '';
-      const directory = pathParts.join('/');
-      
-      // Create new path with the new name
       // Preserve file extension
-      const extension = fileName.includes('.') 
-        ? `.${fileName.split('.').pop()}` 
+      const extension = oldName.includes('.') 
+        ? `.${oldName.split('.').pop()}` 
         : '';
-      const sanitizedNewName = newName.trim().replace(/[^\w\s.-]/g, '_');
-      const newFileName = sanitizedNewName + extension;
-      const newPath = `${directory}/${newFileName}`;
-      
-      // Copy the file to the new path
-      const { data: copyData, error: copyError } = await supabase
-        .storage
-        .from('project_images')
-        .copy(imagePath, newPath);
-      
-      if (copyError) throw copyError;
+      const newFileName = newName.trim() + extension;
       
-      // Update image tags to point to the new URL
-      const { data: urlData } = await supabase
-        .storage
+      const { error } = await supabase
         .from('project_images')
-        .getPublicUrl(newPath);
-      
-      const { data: oldUrlData } = await supabase
-        .storage
-        .from('project_images')
-        .getPublicUrl(imagePath);
-      
-      // Update any tags that reference this image
-      const { error: tagUpdateError } = await supabase
-        .from('image_tags')
-        .update({ image_url: urlData.publicUrl })
-        .eq('image_url', oldUrlData.publicUrl)
+        .update({ file_name: newFileName, updated_at: new Date().toISOString() })
+        .eq('id', imageId)
         .eq('project_id', projectId);
       
-      if (tagUpdateError) {
-        console.error('Error updating image tags:', tagUpdateError);
-      }
-      
-      // Update any summaries that reference this image
-      const { error: summaryUpdateError } = await supabase
-        .from('image_summaries')
-        .update({ image_url: urlData.publicUrl })
-        .eq('image_url', oldUrlData.publicUrl)
-        .eq('project_id', projectId);
-      
-      if (summaryUpdateError) {
-        console.error('Error updating image summaries:', summaryUpdateError);
-      }
-      
-      // Delete the original file
-      const { error: deleteError } = await supabase
-        .storage
-        .from('project_images')
-        .remove([imagePath]);
-      
-      if (deleteError) throw deleteError;
+      if (error) throw error;
       
       toast.success('Image renamed successfully');
       return true;
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error renaming image:', error);
       toast.error('Failed to rename image');
       return false;
@@ -5,11 +5,12 @@ import { toast } from 'sonner';
 import { useAuth } from '@/contexts/AuthContext';
 
 interface UseImageSummaryProps {
+  imageId: string;
   imageUrl: string;
   projectId: string | undefined;
 }
 
-export function useImageSummary({ imageUrl, projectId }: UseImageSummaryProps) {
+export function useImageSummary({ imageId, imageUrl, projectId }: UseImageSummaryProps) {
   const [isGenerating, setIsGenerating] = useState(false);
   const [summary, setSummary] = useState('');
   const [hasSummary, setHasSummary] = useState(false);
@@ -19,7 +20,7 @@ export function useImageSummary({ imageUrl, projectId }: UseImageSummaryProps) {
 
   // Reset states when props change
   useEffect(() => {
-    if (imageUrl) {
+    if (imageId) {
       setSummary('');
       setHasSummary(false);
       setIsNoteSaved(false);
@@ -27,24 +28,23 @@ export function useImageSummary({ imageUrl, projectId }: UseImageSummaryProps) {
       fetchExistingSummary();
       checkForExistingNote();
     }
-  }, [imageUrl, projectId]);
+  }, [imageId, projectId]);
 
   const fetchExistingSummary = async () => {
     try {
-      console.log('Fetching existing summary for image:', imageUrl);
+      console.log('Fetching existing summary for image:', imageId);
       console.log('Project ID:', projectId);
       
-      if (!imageUrl || !projectId) {
+      if (!imageId || !projectId) {
         setHasSummary(false);
         setSummary('');
         return;
       }
       
-      // Use exact equality for image_url and project_id when querying
       const { data, error } = await supabase
         .from('image_summaries')
         .select('summary')
-        .eq('image_url', imageUrl)
+        .eq('image_id', imageId)
         .eq('project_id', projectId)
         .maybeSingle();
 
@@ -122,6 +122,7 @@ export function useImageSummary({ imageUrl, projectId }: UseImageSummaryProps) {
           type: 'image',
           content: imageUrl, // Send the URL as content for images
           imageUrl: imageUrl,
+          imageId: imageId,
           userId: user.id,
           projectId: projectId
         },
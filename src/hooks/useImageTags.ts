@@ -11,7 +11,7 @@ export interface ImageTag {
 
 export type SortOption = 'a-z' | 'z-a' | 'newest' | 'oldest';
 
-export function useImageTags(imageUrl: string, projectId: string | undefined) {
+export function useImageTags(imageId: string, imageUrl: string, projectId: string | undefined) {
   const [tags, setTags] = useState<ImageTag[]>([]);
   const [filteredTags, setFilteredTags] = useState<ImageTag[]>([]);
   const [filterText, setFilterText] = useState('');
@@ -19,12 +19,12 @@ export function useImageTags(imageUrl: string, projectId: string | undefined) {
   const [isLoading, setIsLoading] = useState(false);
   const { user } = useAuth();
 
-  // Fetch tags whenever imageUrl or projectId changes
+  // Fetch tags whenever the image or projectId changes
   useEffect(() => {
-    if (imageUrl && projectId) {
+    if (imageId && projectId) {
       fetchImageTags();
     }
-  }, [imageUrl, projectId]);
+  }, [imageId, projectId]);
 
   // Apply filtering and sorting whenever tags, filterText, or sortOption changes
   useEffect(() => {
@@ -60,13 +60,13 @@ export function useImageTags(imageUrl: string, projectId: string | undefined) {
 
   const fetchImageTags = async () => {
     try {
-      console.log('Fetching tags for image:', imageUrl);
+      console.log('Fetching tags for image:', imageId);
       setIsLoading(true);
       
       const { data, error } = await supabase
         .from('image_tags')
         .select('id, tag')
-        .eq('image_url', imageUrl)
+        .eq('image_id', imageId)
         .eq('project_id', projectId);
 
       if (error) {
@@ -96,13 +96,14 @@ export function useImageTags(imageUrl: string, projectId: string | undefined) {
     
     try {
       console.log('Adding new tag:', newTag.trim());
-      console.log('For image:', imageUrl);
+      console.log('For image:', imageId);
       console.log('In project:', projectId);
       
       const { data, error } = await supabase
         .from('image_tags')
         .insert({
           project_id: projectId,
+          image_id: imageId,
           image_url: imageUrl,
           tag: newTag.trim(),
           user_id: user.id
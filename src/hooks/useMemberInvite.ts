@@ -28,9 +28,19 @@ export const useMemberInvite = ({ projectId, onSuccess, onClose }: UseMemberInvi
       // Find the user by email
       const userId = await findUserByEmail(email);
       
-      // If we still couldn't find the user, they don't exist in our system
+      // People without an account get an email invitation they can accept after signing up
       if (!userId) {
-        throw new Error('User with this email not found. Please ensure they have created an account first.');
+        const { data, error: inviteError } = await supabase.functions.invoke('send-project-invitation', {
+          body: { projectId, email, role }
+        });
+        
+        if (inviteError) throw inviteError;
+        if (data?.error) throw new Error(data.error);
+        
+        toast.success(`Invitation sent to ${email}`);
+        onSuccess();
+        onClose();
+        return;
       }
       
       // Check if the user is already a member of this project
@@ -2,6 +2,7 @@
 import { useState } from 'react';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
+import { useNoteAiModel } from './notes/useNoteAiModel';
 
 interface UseNoteCreationProps {
   projectId?: string;
@@ -16,7 +17,7 @@ export function useNoteCreationFromText({ projectId, fileName, pdfUrl }: UseNote
   const [noteTags, setNoteTags] = useState<string[]>([]);
   const [tagInput, setTagInput] = useState('');
   const [saving, setSaving] = useState(false);
-  const [aiModel, setAiModel] = useState<'claude' | 'openai'>('claude');
+  const { aiModel, setAiModel } = useNoteAiModel(projectId);
 
   const handleCreateNote = (text: string, isTextSummary: boolean) => {
     const cleanFileName = fileName.replace('.pdf', '');
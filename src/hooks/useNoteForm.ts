@@ -1,10 +1,11 @@
 
+import { useState } from 'react';
 import { useNoteTags } from './notes/useNoteTags';
 import { useNoteDialog } from './notes/useNoteDialog';
 import { useNoteContent } from './notes/useNoteContent';
 import { useNoteCrud } from './notes/useNoteCrud';
 import { useNoteRegeneration } from './notes/useNoteRegeneration';
-import { Note } from '@/components/notes/types';
+import { Note, RevisionCause } from '@/components/notes/types';
 
 export function useNoteForm(
   projectId: string, 
@@ -61,6 +62,10 @@ export function useNoteForm(
     handleEditNote: editNote
   } = useNoteCrud(projectId, notes, setNotes, allTags, setAllTags);
 
+  // Set when the AI rewrote the text or suggested a title or tags, so the
+  // saved revision says so; a clean-up outweighs new metadata
+  const [aiCause, setAiCause] = useState<RevisionCause | null>(null);
+
   // Combined handlers that use multiple hooks
   const handleOpenCreateDialog = () => {
     resetForm();
@@ -75,7 +80,7 @@ export function useNoteForm(
   };
 
   const handleCreateNote = async () => {
-    const success = await createNote(title, content, tags);
+    const success = await createNote(title, content, tags, aiCause ?? undefined);
     if (success) {
       setIsCreateOpen(false);
       resetForm();
@@ -85,7 +90,7 @@ export function useNoteForm(
   const handleEditNote = async () => {
     if (!currentNote) return;
     
-    const success = await editNote(currentNote.id, title, content, tags, currentNote);
+    const success = await editNote(currentNote.id, title, content, tags, currentNote, aiCause ?? undefined);
     if (success) {
       setIsEditOpen(false);
       resetForm();
@@ -96,19 +101,28 @@ export function useNoteForm(
     resetContent();
     resetTags();
     setCurrentNote(null);
+    setAiCause(null);
+  };
+
+  const handleTextCleaned = (cleanedText: string) => {
+    setContent(cleanedText);
+    setAiCause('ai_clean');
   };
 
   // Wrapper regeneration handlers
   const handleRegenerateTitle = (newTitle: string) => {
     regenerateTitle(newTitle, setTitle);
+    setAiCause(cause => cause ?? 'ai_metadata');
   };
 
   const handleRegenerateTags = (newTags: string[]) => {
     regenerateTags(newTags, setTags);
+    setAiCause(cause => cause ?? 'ai_metadata');
   };
 
   const handleRegenerateBoth = (data: { title: string; tags: string[] }) => {
     regenerateBoth(data, setTitle, setTags);
+    setAiCause(cause => cause ?? 'ai_metadata');
   };
 
   return {
@@ -123,6 +137,7 @@ export function useNoteForm(
     setTitle,
     content,
     setContent,
+    handleTextCleaned,
     tagInput,
     setTagInput,
     tags,
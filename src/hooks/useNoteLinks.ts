@@ -0,0 +1,84 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { LinkTarget, LinkTargetType } from '@/utils/noteLinks';
+
+export interface NoteLink {
+  id: string;
+  source_note_id: string;
+  label: string;
+  target_type: LinkTargetType | null;
+  target_id: string | null;
+}
+
+export interface Backlink {
+  noteId: string;
+  title: string;
+}
+
+// Link graph of a brain: everything notes can link to by name, for
+// autocomplete and following links, and the stored links between them
+export function useNoteLinks(projectId: string) {
+  const [targets, setTargets] = useState<LinkTarget[]>([]);
+  const [links, setLinks] = useState<NoteLink[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchLinks = useCallback(async () => {
+    if (!projectId) return;
+    try {
+      const [notesResult, documentsResult, imagesResult, linksResult] = await Promise.all([
+        supabase.from('project_notes').select('id, title').eq('project_id', projectId),
+        supabase.from('project_documents').select('id, file_name, file_url, metadata').eq('project_id', projectId),
+        supabase.from('project_images').select('id, file_name').eq('project_id', projectId),
+        supabase
+          .from('note_links')
+          .select('id, source_note_id, label, target_type, target_id')
+          .eq('project_id', projectId),
+      ]);
+
+      if (notesResult.error) throw notesResult.error;
+      if (documentsResult.error) throw documentsResult.error;
+      if (imagesResult.error) throw imagesResult.error;
+      if (linksResult.error) throw linksResult.error;
+
+      setTargets([
+        ...(notesResult.data || []).map(note => ({ type: 'note' as const, id: note.id, name: note.title })),
+        ...(documentsResult.data || []).map(document => ({
+          type: 'document' as const,
+          id: document.id,
+          name: document.file_name,
+          url: (document.metadata as { pdf_url?: string } | null)?.pdf_url || document.file_url,
+        })),
+        ...(imagesResult.data || []).map(image => ({ type: 'image' as const, id: image.id, name: image.file_name })),
+      ]);
+      setLinks((linksResult.data || []) as NoteLink[]);
+    } catch (error) {
+      console.error('Error fetching note links:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchLinks();
+  }, [fetchLinks]);
+
+  // Notes linking to a note, document or image, by title
+  const backlinksTo = useCallback((type: LinkTargetType, id: string): Backlink[] => {
+    const sources = new Set(
+      links.filter(link => link.target_type === type && link.target_id === id).map(link => link.source_note_id)
+    );
+
+    return targets
+      .filter(target => target.type === 'note' && sources.has(target.id) && !(type === 'note' && target.id === id))
+      .map(target => ({ noteId: target.id, title: target.name }))
+      .sort((a, b) => a.title.localeCompare(b.title));
+  }, [links, targets]);
+
+  return {
+    targets,
+    links,
+    loading,
+    refresh: fetchLinks,
+    backlinksTo
+  };
+}
@@ -22,7 +22,7 @@ export function useNoteSummary({ noteId, noteContent, noteName, projectId }: Use
     setHasSummary 
   } = useSummaryState({ noteId, projectId });
   
-  const { isGenerating, generateSummary } = useGenerateSummary({
+  const { isGenerating, generateSummary, cancelGeneration } = useGenerateSummary({
     noteContent,
     projectId,
     noteId,
@@ -40,6 +40,7 @@ export function useNoteSummary({ noteId, noteContent, noteName, projectId }: Use
     hasSummary,
     isDialogOpen,
     setIsDialogOpen,
-    generateSummary
+    generateSummary,
+    cancelGeneration
   };
 }
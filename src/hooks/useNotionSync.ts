@@ -0,0 +1,106 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface NotionSyncConflict {
+  note_id: string;
+  incoming_title: string;
+  incoming_content: string;
+  notion_last_edited_time: string;
+  detected_at: string;
+}
+
+interface NotionSyncResult {
+  notes: { unchanged: number; updated: number; conflict: number; removed: number; failed: number };
+  imported: number;
+}
+
+// Notes of a brain that changed both here and in Notion, and a way to pull
+// Notion edits now instead of waiting for the scheduled sync.
+// `onNotesChanged` runs whenever notes were rewritten, to reload the list.
+export function useNotionSync(projectId: string, onNotesChanged?: () => void) {
+  const [conflicts, setConflicts] = useState<NotionSyncConflict[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const loadConflicts = useCallback(async () => {
+    if (!projectId) return;
+    try {
+      const { data, error } = await supabase
+        .from('notion_sync_conflicts')
+        .select('note_id, incoming_title, incoming_content, notion_last_edited_time, detected_at')
+        .eq('project_id', projectId)
+        .order('detected_at', { ascending: false });
+
+      if (error) throw error;
+      setConflicts(data || []);
+    } catch (error) {
+      console.error('Error fetching Notion sync conflicts:', error);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadConflicts();
+  }, [loadConflicts]);
+
+  const syncNow = async () => {
+    setSyncing(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('notion-sync', { body: { projectId } });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      const { notes, imported } = data as NotionSyncResult;
+      const changed = notes.updated + imported;
+      const parts = [
+        `${notes.updated} updated`,
+        imported > 0 && `${imported} new from synced databases`,
+        notes.conflict > 0 && `${notes.conflict} changed on both sides`,
+        notes.failed > 0 && `${notes.failed} failed`,
+      ].filter(Boolean);
+
+      if (notes.failed > 0) {
+        toast.warning(`Notion sync: ${parts.join(', ')}`);
+      } else {
+        toast.success(`Notion sync: ${parts.join(', ')}`);
+      }
+
+      await loadConflicts();
+      if (changed > 0) onNotesChanged?.();
+    } catch (error) {
+      console.error('Error syncing from Notion:', error);
+      toast.error(error.message || 'Failed to sync from Notion');
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const resolveConflict = async (noteId: string, useNotion: boolean) => {
+    setResolvingId(noteId);
+    try {
+      const { error } = await supabase.rpc('resolve_notion_conflict', {
+        p_note_id: noteId,
+        p_use_notion: useNotion,
+      });
+      if (error) throw error;
+
+      setConflicts(prev => prev.filter(conflict => conflict.note_id !== noteId));
+      toast.success(useNotion ? 'Note replaced with the Notion version' : 'Kept your version of the note');
+      if (useNotion) onNotesChanged?.();
+    } catch (error) {
+      console.error('Error resolving Notion conflict:', error);
+      toast.error(error.message || 'Failed to resolve the Notion changes');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return {
+    conflicts,
+    syncing,
+    resolvingId,
+    refresh: loadConflicts,
+    syncNow,
+    resolveConflict
+  };
+}
@@ -0,0 +1,97 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { NotionDatabase } from '@/hooks/useNotionDatabases';
+
+export interface NotionSyncedDatabase {
+  id: string;
+  user_id: string;
+  database_id: string;
+  database_title: string;
+  last_synced_at: string | null;
+  last_error: string | null;
+}
+
+// Notion databases whose new rows are imported into a brain by notion-sync
+export function useNotionSyncedDatabases(projectId: string) {
+  const { user } = useAuth();
+  const [databases, setDatabases] = useState<NotionSyncedDatabase[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadDatabases = useCallback(async () => {
+    if (!projectId) return;
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('notion_synced_databases')
+        .select('id, user_id, database_id, database_title, last_synced_at, last_error')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setDatabases(data || []);
+    } catch (error) {
+      console.error('Error fetching synced Notion databases:', error);
+      toast.error('Failed to load synced Notion databases');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadDatabases();
+  }, [loadDatabases]);
+
+  const addDatabase = async (database: NotionDatabase) => {
+    if (!user) return;
+    setBusyId(database.id);
+    try {
+      const { data, error } = await supabase
+        .from('notion_synced_databases')
+        .insert({
+          project_id: projectId,
+          user_id: user.id,
+          database_id: database.id,
+          database_title: database.title || 'Untitled Database',
+        })
+        .select('id, user_id, database_id, database_title, last_synced_at, last_error')
+        .single();
+
+      if (error) throw error;
+      setDatabases(prev => [...prev, data]);
+      toast.success(`New rows of "${data.database_title}" will be imported automatically`);
+    } catch (error) {
+      console.error('Error adding synced Notion database:', error);
+      toast.error(error.code === '23505' ? 'This database is already synced' : error.message || 'Failed to sync the database');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const removeDatabase = async (id: string) => {
+    setBusyId(id);
+    try {
+      const { error } = await supabase.from('notion_synced_databases').delete().eq('id', id);
+      if (error) throw error;
+
+      setDatabases(prev => prev.filter(database => database.id !== id));
+      toast.success('Stopped syncing the database; imported notes stay in the brain');
+    } catch (error) {
+      console.error('Error removing synced Notion database:', error);
+      toast.error(error.message || 'Failed to stop syncing the database');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return {
+    databases,
+    loading,
+    busyId,
+    refresh: loadDatabases,
+    addDatabase,
+    removeDatabase
+  };
+}
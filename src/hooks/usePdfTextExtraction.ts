@@ -1,16 +1,19 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
 import { extractPdfText, getPdfInfo } from '@/utils/pdfUtils';
 import { summarizeText, SummaryModel } from '@/utils/summaryUtils';
+import { DEFAULT_MODEL } from '@/utils/aiPrompts';
 
 interface UsePdfTextExtractionProps {
   pdfUrl: string;
   fileName: string;
   projectId?: string;
+  documentId?: string;
 }
 
-export const usePdfTextExtraction = ({ pdfUrl, fileName, projectId }: UsePdfTextExtractionProps) => {
+export const usePdfTextExtraction = ({ pdfUrl, fileName, projectId, documentId }: UsePdfTextExtractionProps) => {
   const [showTextModal, setShowTextModal] = useState(false);
   const [extractedText, setExtractedText] = useState('');
   const [isExtracting, setIsExtracting] = useState(false);
@@ -65,6 +68,25 @@ export const usePdfTextExtraction = ({ pdfUrl, fileName, projectId }: UsePdfText
     }
   };
 
+  // Text extracted when the document was uploaded, if it is ready
+  const loadStoredText = async (): Promise<{ text: string; pageCount: number } | null> => {
+    if (!documentId) return null;
+
+    const { data, error } = await supabase
+      .from('project_documents')
+      .select('content_text, page_count, extraction_status')
+      .eq('id', documentId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading stored document text:', error);
+      return null;
+    }
+
+    if (data?.extraction_status !== 'ready' || !data.content_text) return null;
+    return { text: data.content_text, pageCount: data.page_count || 0 };
+  };
+
   const handleExtractText = async () => {
     setIsExtracting(true);
     setExtractionError(null);
@@ -81,6 +103,15 @@ export const usePdfTextExtraction = ({ pdfUrl, fileName, projectId }: UsePdfText
         duration: 10000,
       });
       
+      const stored = await loadStoredText();
+      if (stored) {
+        setExtractedText(stored.text);
+        setPageCount(stored.pageCount);
+        setTextLength(stored.text.length);
+        toast.dismiss(toastId);
+        return;
+      }
+
       console.log('PDF URL to extract:', pdfUrl);
       
       const isUrlValid = await verifyPdfUrl(pdfUrl);
@@ -140,7 +171,7 @@ export const usePdfTextExtraction = ({ pdfUrl, fileName, projectId }: UsePdfText
     }
   };
 
-  const handleSummarizeText = async (model: SummaryModel = 'claude') => {
+  const handleSummarizeText = async (model: SummaryModel = DEFAULT_MODEL) => {
     if (!extractedText) {
       toast.error('No text available to summarize', {
         description: "Text must be extracted before it can be summarized.",
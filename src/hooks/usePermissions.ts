@@ -0,0 +1,81 @@
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { ProjectRole } from '@/types/project';
+import { hasPermission, isProjectRole, ProjectPermission } from '@/utils/permissions';
+
+// Lists render one action menu per row, so concurrent lookups for the same
+// brain share a single request
+const pendingRoles = new Map<string, Promise<ProjectRole | null>>();
+
+// project_role() is the role the row level security policies check, including
+// what a workspace seat grants, so the UI never works it out on its own
+async function fetchProjectRole(projectId: string): Promise<ProjectRole | null> {
+  const { data: role, error } = await supabase.rpc('project_role', { p_project_id: projectId });
+
+  if (error) throw error;
+  return isProjectRole(role) ? role : null;
+}
+
+function loadProjectRole(projectId: string, userId: string): Promise<ProjectRole | null> {
+  const key = `${userId}:${projectId}`;
+  let pending = pendingRoles.get(key);
+
+  if (!pending) {
+    pending = fetchProjectRole(projectId).finally(() => pendingRoles.delete(key));
+    pendingRoles.set(key, pending);
+  }
+
+  return pending;
+}
+
+// The current user's role in a brain and what it allows. The database enforces
+// the same rules; this only hides actions the user could not complete.
+export function usePermissions(projectId?: string) {
+  const { user } = useAuth();
+  const [role, setRole] = useState<ProjectRole | null>(null);
+  const [loading, setLoading] = useState(!!projectId);
+
+  useEffect(() => {
+    if (!projectId || !user) {
+      setRole(null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    loadProjectRole(projectId, user.id)
+      .then(projectRole => {
+        if (!cancelled) setRole(projectRole);
+      })
+      .catch(error => {
+        console.error('Error fetching brain permissions:', error);
+        if (!cancelled) setRole(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, user]);
+
+  const can = useCallback(
+    (permission: ProjectPermission) => hasPermission(role, permission),
+    [role]
+  );
+
+  return {
+    role,
+    loading,
+    can,
+    canEditContent: hasPermission(role, 'editContent'),
+    canManageMembers: hasPermission(role, 'manageMembers'),
+    canEditSettings: hasPermission(role, 'editSettings'),
+    isOwner: role === 'owner'
+  };
+}
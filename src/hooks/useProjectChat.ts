@@ -1,19 +1,31 @@
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
 import { chatPrompts } from '@/utils/aiPrompts';
+import { Message } from '@/components/project/chat/types';
+import { useChatConversations } from './useChatConversations';
+import { invokeStreamingFunction } from '@/utils/streamingUtils';
+import { QuotaExceeded, describeQuotaExceeded, parseQuotaError } from '@/utils/quotas';
 
-interface Message {
-  role: 'user' | 'assistant';
-  content: string;
+interface ProjectChatResult {
+  response: string;
+  citations?: Message['citations'];
+  conversationId?: string;
+  conversationTitle?: string;
 }
 
 interface ProjectChatState {
   messages: Message[];
   isLoading: boolean;
+  // True once the first tokens of an answer have arrived
+  isStreaming: boolean;
+  isLoadingMessages: boolean;
   error: string | null;
+  // Set when the plan's AI call limit stopped the message
+  quotaExceeded: QuotaExceeded | null;
+  conversationId: string | null;
   projectData: {
     description: string | null;
     aiPersona: string | null;
@@ -24,10 +36,72 @@ export function useProjectChat(projectId: string) {
   const [state, setState] = useState<ProjectChatState>({
     messages: [],
     isLoading: false,
+    isStreaming: false,
+    isLoadingMessages: false,
     error: null,
+    quotaExceeded: null,
+    conversationId: null,
     projectData: { description: null, aiPersona: null },
   });
   const { user } = useAuth();
+  const {
+    conversations,
+    isLoading: isLoadingConversations,
+    fetchConversations,
+    renameConversation,
+    setConversationShared,
+    deleteConversation: removeConversation
+  } = useChatConversations(projectId);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // The last opened thread is remembered per brain so the chat survives reloads
+  const storageKey = `activeConversation-${projectId}`;
+
+  // Abandon an answer that is still streaming, e.g. when switching threads
+  const stopStreaming = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+  }, []);
+
+  const loadConversation = useCallback(async (conversationId: string) => {
+    stopStreaming();
+    setState(prev => ({
+      ...prev,
+      isLoading: false,
+      isStreaming: false,
+      conversationId,
+      messages: [],
+      error: null,
+      quotaExceeded: null,
+      isLoadingMessages: true
+    }));
+
+    try {
+      const { data, error } = await supabase
+        .from('chat_messages')
+        .select('role, content, citations')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      setState(prev => prev.conversationId === conversationId ? {
+        ...prev,
+        messages: (data || []) as unknown as Message[],
+        isLoadingMessages: false
+      } : prev);
+      localStorage.setItem(storageKey, conversationId);
+    } catch (error) {
+      console.error('Error loading conversation:', error);
+      localStorage.removeItem(storageKey);
+      setState(prev => ({
+        ...prev,
+        conversationId: null,
+        isLoadingMessages: false
+      }));
+      toast.error('Failed to load conversation');
+    }
+  }, [storageKey, stopStreaming]);
 
   // Effect to fetch project data when projectId changes
   useEffect(() => {
@@ -60,12 +134,45 @@ export function useProjectChat(projectId: string) {
       setState(prev => ({
         ...prev,
         messages: [],
-        error: null
+        conversationId: null,
+        error: null,
+        quotaExceeded: null
       }));
       
       fetchProjectData();
+
+      // Resume the thread that was open last time
+      const savedConversationId = localStorage.getItem(`activeConversation-${projectId}`);
+      if (savedConversationId) {
+        loadConversation(savedConversationId);
+      }
     }
-  }, [projectId]);
+  }, [projectId, loadConversation]);
+
+  // Stop any answer still streaming when the chat is closed
+  useEffect(() => stopStreaming, [stopStreaming]);
+
+  const startNewConversation = () => {
+    stopStreaming();
+    localStorage.removeItem(storageKey);
+    setState(prev => ({
+      ...prev,
+      isLoading: false,
+      isStreaming: false,
+      conversationId: null,
+      messages: [],
+      error: null,
+      quotaExceeded: null
+    }));
+  };
+
+  const deleteConversation = async (conversationId: string) => {
+    const deleted = await removeConversation(conversationId);
+    if (deleted && conversationId === state.conversationId) {
+      startNewConversation();
+    }
+    return deleted;
+  };
 
   const sendMessage = async (messageContent: string) => {
     if (!messageContent.trim() || !user) return;
@@ -73,7 +180,8 @@ export function useProjectChat(projectId: string) {
     // Reset any existing errors
     setState(prev => ({
       ...prev,
-      error: null
+      error: null,
+      quotaExceeded: null
     }));
 
     // Add user message to the list
@@ -83,64 +191,110 @@ export function useProjectChat(projectId: string) {
       isLoading: true
     }));
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let hasAssistantMessage = false;
+    // The server removes a new thread again when its first question gets no answer
+    const startsNewThread = !state.conversationId;
+    const forgetNewThread = () => {
+      if (!startsNewThread) return;
+      localStorage.removeItem(storageKey);
+      setState(prev => ({ ...prev, conversationId: null }));
+    };
+
+    // Show the answer as it arrives: the first delta adds the assistant message, later ones extend it
+    const showAnswer = (text: string, citations?: Message['citations']) => {
+      if (abortControllerRef.current !== abortController) return;
+      setState(prev => {
+        const answer: Message = { role: 'assistant', content: text, citations };
+        const messages = hasAssistantMessage
+          ? [...prev.messages.slice(0, -1), answer]
+          : [...prev.messages, answer];
+        return { ...prev, messages, isStreaming: true };
+      });
+      hasAssistantMessage = true;
+    };
+
     try {
       // Get system prompt from centralized prompts
       const systemPrompt = chatPrompts.system(state.projectData.description, state.projectData.aiPersona);
       
-      // Call the Supabase edge function
-      const response = await supabase.functions.invoke('project-chat', {
-        body: {
-          projectId,
-          message: messageContent,
-          userId: user.id,
-          description: state.projectData.description,
-          aiPersona: state.projectData.aiPersona,
-          systemPrompt
+      // Stream the answer from the Supabase edge function
+      const { text, result, cancelled } = await invokeStreamingFunction<ProjectChatResult>('project-chat', {
+        projectId,
+        message: messageContent,
+        userId: user.id,
+        conversationId: state.conversationId,
+        description: state.projectData.description,
+        aiPersona: state.projectData.aiPersona,
+        systemPrompt
+      }, {
+        signal: abortController.signal,
+        onDelta: (_delta, answer) => showAnswer(answer),
+        onEvent: (event, data) => {
+          // The thread exists before the first token, so a cancelled answer still belongs to it
+          if (event === 'start' && data.conversationId && abortControllerRef.current === abortController) {
+            setState(prev => ({ ...prev, conversationId: data.conversationId as string }));
+            localStorage.setItem(storageKey, data.conversationId as string);
+          }
         }
       });
 
-      // Check for errors in the response
-      if (response.error) {
-        console.error('Error from edge function:', response.error);
-        
-        // General error handling
-        setState(prev => ({
-          ...prev,
-          isLoading: false,
-          error: 'Failed to send message. Please try again later.'
-        }));
-        
-        toast.error('Error', {
-          description: 'Failed to send message. Please try again.',
-        });
-        return;
+      // The user switched threads while this answer was streaming
+      if (abortControllerRef.current !== abortController) return;
+
+      if (result) {
+        showAnswer(result.response, result.citations || []);
+      } else if (cancelled && !text) {
+        // Nothing was generated, so the question is not part of the thread either
+        setState(prev => ({ ...prev, messages: prev.messages.slice(0, -1) }));
+        forgetNewThread();
       }
       
-      // Process successful response
-      if (response.data) {
-        setState(prev => ({
-          ...prev,
-          messages: [...prev.messages, { role: 'assistant', content: response.data.response }],
-          isLoading: false
-        }));
-      } else {
-        throw new Error('Invalid response format from server');
+      setState(prev => ({
+        ...prev,
+        conversationId: result?.conversationId || prev.conversationId,
+        isLoading: false,
+        isStreaming: false
+      }));
+      
+      if (result?.conversationId) {
+        localStorage.setItem(storageKey, result.conversationId);
       }
+      
+      // Refresh the thread list so new threads appear and the active one moves to the top
+      fetchConversations();
     } catch (error: any) {
+      if (abortControllerRef.current !== abortController) return;
       console.error('Exception sending message:', error);
+      forgetNewThread();
+      const quotaExceeded = await parseQuotaError(error);
       
       setState(prev => ({ 
         ...prev, 
         isLoading: false,
-        error: 'Failed to send message. Please try again later.'
+        isStreaming: false,
+        error: quotaExceeded ? describeQuotaExceeded(quotaExceeded) : 'Failed to send message. Please try again later.',
+        quotaExceeded
       }));
       
-      toast.error('Error', {
-        description: 'Failed to send message. Please try again.',
-      });
+      if (!quotaExceeded) {
+        toast.error('Error', {
+          description: 'Failed to send message. Please try again.',
+        });
+      }
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
     }
   };
 
+  // Stop the answer that is being generated; the partial text stays in the thread
+  const cancelMessage = () => {
+    abortControllerRef.current?.abort();
+  };
+
   // Predefined questions that are relevant for any project
   const predefinedQuestions = [
     "What's the latest update on this project?",
@@ -152,11 +306,27 @@ export function useProjectChat(projectId: string) {
     "Show me my favorite documents"
   ];
 
+  const activeConversation = conversations.find(conversation => conversation.id === state.conversationId);
+
   return {
     messages: state.messages,
     isLoading: state.isLoading,
+    isStreaming: state.isStreaming,
+    isLoadingMessages: state.isLoadingMessages,
     error: state.error,
+    quotaExceeded: state.quotaExceeded,
     predefinedQuestions,
-    sendMessage
+    sendMessage,
+    cancelMessage,
+    conversationId: state.conversationId,
+    // Shared threads from other members can be read but not continued
+    isReadOnly: !!activeConversation && !activeConversation.is_own,
+    conversations,
+    isLoadingConversations,
+    loadConversation,
+    startNewConversation,
+    renameConversation,
+    setConversationShared,
+    deleteConversation
   };
 }
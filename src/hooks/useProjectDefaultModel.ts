@@ -0,0 +1,49 @@
+
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_MODEL, isModelType, ModelType } from '@/utils/aiPrompts';
+
+// The AI model a brain uses unless the user picks another one for a single action
+export function useProjectDefaultModel(projectId?: string) {
+  const [defaultModel, setDefaultModel] = useState<ModelType>(DEFAULT_MODEL);
+  const [loading, setLoading] = useState(!!projectId);
+
+  useEffect(() => {
+    if (!projectId) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchDefaultModel = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('projects')
+          .select('default_model')
+          .eq('id', projectId)
+          .maybeSingle();
+
+        if (error) throw error;
+
+        if (!cancelled) {
+          setDefaultModel(isModelType(data?.default_model) ? data.default_model : DEFAULT_MODEL);
+        }
+      } catch (error) {
+        // Fall back to the app default rather than blocking AI actions
+        console.error('Error fetching brain default model:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchDefaultModel();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  return { defaultModel, loading };
+}
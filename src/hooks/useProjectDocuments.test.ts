@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { EXTRACTION_STALE_MS, isExtractionInProgress, isExtractionStalled } from './useProjectDocuments';
+
+const now = new Date('2026-10-19T12:00:00.000Z').getTime();
+const ago = (ms: number) => new Date(now - ms).toISOString();
+
+describe('isExtractionStalled', () => {
+  it('keeps a recent upload in progress', () => {
+    const document = { created_at: ago(60 * 1000), extraction_status: 'pending' };
+
+    expect(isExtractionStalled(document, now)).toBe(false);
+    expect(isExtractionInProgress(document, now)).toBe(true);
+  });
+
+  it('stalls a pending document that was never picked up', () => {
+    const document = { created_at: ago(EXTRACTION_STALE_MS + 1000), extraction_status: 'pending' };
+
+    expect(isExtractionStalled(document, now)).toBe(true);
+    expect(isExtractionInProgress(document, now)).toBe(false);
+  });
+
+  it('measures processing from when the extraction started', () => {
+    const created_at = ago(2 * EXTRACTION_STALE_MS);
+
+    expect(isExtractionStalled({ created_at, extraction_status: 'processing', extraction_started_at: ago(1000) }, now)).toBe(false);
+    expect(isExtractionStalled({ created_at, extraction_status: 'processing', extraction_started_at: ago(EXTRACTION_STALE_MS + 1000) }, now)).toBe(true);
+  });
+
+  it('never stalls finished documents', () => {
+    const created_at = ago(2 * EXTRACTION_STALE_MS);
+
+    expect(isExtractionStalled({ created_at, extraction_status: 'ready' }, now)).toBe(false);
+    expect(isExtractionStalled({ created_at, extraction_status: 'failed' }, now)).toBe(false);
+  });
+});
@@ -3,6 +3,8 @@ import { useState, useEffect, useCallback } from 'react';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 
+export type ExtractionStatus = 'pending' | 'processing' | 'ready' | 'failed';
+
 interface Document {
   id: string;
   file_name: string;
@@ -10,8 +12,38 @@ interface Document {
   created_at: string;
   document_type: string;
   file_size?: number;
+  extraction_status?: ExtractionStatus;
+  extraction_error?: string | null;
+  extraction_started_at?: string | null;
+  page_count?: number | null;
 }
 
+interface ExtractionState {
+  created_at: string;
+  extraction_status?: string;
+  extraction_started_at?: string | null;
+}
+
+const EXTRACTION_POLL_INTERVAL_MS = 5000;
+// Polling stops after ten minutes; a refresh picks up anything still running
+const MAX_EXTRACTION_POLLS = 120;
+// Keep in sync with STALE_PROCESSING_MS in supabase/functions/_shared/documentText.ts
+export const EXTRACTION_STALE_MS = 15 * 60 * 1000;
+
+// A document waiting or being extracted for longer than the extraction function
+// allows has stalled; it can be retried instead of spinning forever
+export const isExtractionStalled = (document: ExtractionState, now: number = Date.now()) => {
+  const since = document.extraction_status === 'processing'
+    ? document.extraction_started_at
+    : document.extraction_status === 'pending' ? document.created_at : null;
+
+  return !!since && now - new Date(since).getTime() > EXTRACTION_STALE_MS;
+};
+
+export const isExtractionInProgress = (document: ExtractionState, now: number = Date.now()) =>
+  (document.extraction_status === 'pending' || document.extraction_status === 'processing')
+  && !isExtractionStalled(document, now);
+
 export function useProjectDocuments(projectId: string) {
   const [documents, setDocuments] = useState<Document[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -48,6 +80,39 @@ export function useProjectDocuments(projectId: string) {
     }
   }, [projectId, fetchDocuments]);
 
+  // Text of PDFs is extracted in the background after upload; refresh the status
+  // of the documents until none is waiting any more, or for a bounded time
+  const hasExtractionInProgress = documents.some(doc =>
+    doc.document_type === 'pdf' && isExtractionInProgress(doc)
+  );
+
+  useEffect(() => {
+    if (!projectId || !hasExtractionInProgress) return;
+
+    let polls = 0;
+    const interval = setInterval(async () => {
+      if (++polls >= MAX_EXTRACTION_POLLS) clearInterval(interval);
+
+      const { data, error } = await supabase
+        .from('project_documents')
+        .select('id, extraction_status, extraction_error, extraction_started_at, page_count')
+        .eq('project_id', projectId);
+
+      if (error) {
+        console.error('Error refreshing extraction status:', error);
+        return;
+      }
+
+      const statusById = new Map((data || []).map(row => [row.id, row]));
+      setDocuments(prev => prev.map(doc => {
+        const status = statusById.get(doc.id);
+        return status ? { ...doc, ...status } as Document : doc;
+      }));
+    }, EXTRACTION_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [projectId, hasExtractionInProgress]);
+
   const handleDocumentUploaded = (newDocument: Document) => {
     setDocuments(prev => [newDocument, ...prev]);
   };
@@ -2,8 +2,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { UploadedImage } from '@/types/project';
-import { toast } from 'sonner';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { fetchProjectImageRecords } from '@/utils/imageUtils';
 
 interface UseProjectImagesResult {
   projectImages: UploadedImage[];
@@ -22,107 +22,22 @@ export const useProjectImages = (
   const [isImagesLoading, setIsImagesLoading] = useState(false);
   const isMobile = useIsMobile();
   
-  // Load deleted image paths from localStorage
-  const getDeletedImagePaths = useCallback(() => {
-    if (!projectId) return [];
-    
-    const storedDeletedPaths = localStorage.getItem(`deletedImages-${projectId}`);
-    return storedDeletedPaths ? JSON.parse(storedDeletedPaths) : [];
-  }, [projectId]);
-
   const fetchProjectImages = useCallback(async () => {
     if (!projectId || !userId) return;
 
     try {
       setIsImagesLoading(true);
       
-      // Get deleted image paths from localStorage
-      const deletedImagePaths = getDeletedImagePaths();
+      const images = await fetchProjectImageRecords(projectId);
       
-      // Try to fetch the list of images from the storage bucket
-      const { data, error } = await supabase
-        .storage
-        .from('project_images')
-        .list(`${projectId}`);
-
-      if (error) {
-        // Handle the case where the bucket or folder might not exist yet
-        console.error('Error fetching images:', error);
-        
-        // If this is a 404 or other error, just set empty arrays
-        setProjectImages([]);
-        setRecentImages([]);
-        return;
-      }
-
-      if (data && data.length > 0) {
-        try {
-          const imageUrls = await Promise.all(
-            data.map(async (item) => {
-              try {
-                const imagePath = `${projectId}/${item.name}`;
-                
-                // Skip this image if it's in the deletedImagePaths array
-                if (deletedImagePaths.includes(imagePath)) {
-                  console.log('useProjectImages skipping deleted image:', imagePath);
-                  return null;
-                }
-                
-                const { data: urlData } = await supabase
-                  .storage
-                  .from('project_images')
-                  .getPublicUrl(imagePath);
-                
-                // Fetch summary if exists
-                const { data: summaryData } = await supabase
-                  .from('image_summaries')
-                  .select('summary')
-                  .eq('image_url', urlData.publicUrl)
-                  .eq('project_id', projectId)
-                  .maybeSingle();
-
-                // Add cache-busting for mobile
-                const imageUrl = isMobile 
-                  ? `${urlData.publicUrl}?t=${new Date().getTime()}` 
-                  : urlData.publicUrl;
+      // Add cache-busting for mobile
+      const displayedImages = isMobile
+        ? images.map(image => ({ ...image, url: `${image.url}?t=${new Date().getTime()}` }))
+        : images;
 
-                return {
-                  url: imageUrl,
-                  path: imagePath,
-                  size: item.metadata?.size || 0,
-                  name: item.name,
-                  createdAt: new Date(item.created_at || Date.now()),
-                  summary: summaryData?.summary || undefined
-                };
-              } catch (imageError) {
-                console.error('Error processing image item:', imageError);
-                return null;
-              }
-            })
-          );
-
-          // Filter out any null entries from failed image processing or deleted images
-          const validImages = imageUrls.filter(img => img !== null) as UploadedImage[];
-          
-          const sortedImages = validImages.sort((a, b) => 
-            b.createdAt.getTime() - a.createdAt.getTime()
-          );
-
-          setProjectImages(sortedImages);
-          setRecentImages(sortedImages.slice(0, 3));
-          
-          console.log('useProjectImages processed images after filtering:', sortedImages.length);
-        } catch (processingError) {
-          console.error('Error processing images:', processingError);
-          setProjectImages([]);
-          setRecentImages([]);
-        }
-      } else {
-        // No images found
-        setProjectImages([]);
-        setRecentImages([]);
-      }
-    } catch (error: any) {
+      setProjectImages(displayedImages);
+      setRecentImages(displayedImages.slice(0, 3));
+    } catch (error) {
       console.error('Error fetching images:', error);
       // Set empty arrays to prevent UI issues
       setProjectImages([]);
@@ -130,7 +45,7 @@ export const useProjectImages = (
     } finally {
       setIsImagesLoading(false);
     }
-  }, [projectId, userId, isMobile, getDeletedImagePaths]);
+  }, [projectId, userId, isMobile]);
 
   // Initial fetch of images when hook is initialized
   useEffect(() => {
@@ -139,10 +54,10 @@ export const useProjectImages = (
     }
   }, [projectId, userId, fetchProjectImages]);
 
-  const handleImagesUpdated = (images: UploadedImage[], recent: UploadedImage[]) => {
+  const handleImagesUpdated = useCallback((images: UploadedImage[], recent: UploadedImage[]) => {
     setProjectImages(images);
     setRecentImages(recent);
-  };
+  }, []);
 
   return {
     projectImages,
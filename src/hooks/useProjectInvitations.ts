@@ -0,0 +1,99 @@
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+export interface ProjectInvitation {
+  id: string;
+  email: string;
+  role: string;
+  expires_at: string;
+  last_sent_at: string | null;
+  created_at: string;
+}
+
+// Open email invitations of a brain. Only admins and the owner can read them,
+// so pass enabled=false for everyone else to skip the query.
+export function useProjectInvitations(projectId: string | undefined, enabled = true) {
+  const [invitations, setInvitations] = useState<ProjectInvitation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchInvitations = useCallback(async () => {
+    if (!projectId || !enabled) {
+      setInvitations([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('project_invitations')
+        .select('id, email, role, expires_at, last_sent_at, created_at')
+        .eq('project_id', projectId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setInvitations(data || []);
+    } catch (error) {
+      console.error('Error fetching invitations:', error);
+      toast.error('Failed to load pending invitations');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, enabled]);
+
+  useEffect(() => {
+    fetchInvitations();
+  }, [fetchInvitations]);
+
+  const resendInvitation = async (invitationId: string) => {
+    setBusyId(invitationId);
+    try {
+      const { data, error } = await supabase.functions.invoke('send-project-invitation', {
+        body: { invitationId }
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      toast.success('Invitation sent again');
+      await fetchInvitations();
+    } catch (error) {
+      console.error('Error resending invitation:', error);
+      toast.error(error.message || 'Failed to resend invitation');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const revokeInvitation = async (invitationId: string) => {
+    setBusyId(invitationId);
+    try {
+      const { error } = await supabase
+        .from('project_invitations')
+        .update({ status: 'revoked' })
+        .eq('id', invitationId);
+
+      if (error) throw error;
+
+      setInvitations(prev => prev.filter(invitation => invitation.id !== invitationId));
+      toast.success('Invitation revoked');
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      toast.error(error.message || 'Failed to revoke invitation');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return {
+    invitations,
+    loading,
+    busyId,
+    refresh: fetchInvitations,
+    resendInvitation,
+    revokeInvitation
+  };
+}
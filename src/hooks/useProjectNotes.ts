@@ -10,7 +10,7 @@ import { useNoteTagFilter } from './notes/useNoteTagFilter';
 export function useProjectNotes(projectId: string) {
   const { user } = useAuth();
   const { activeTag, setActiveTag } = useNoteTagFilter();
-  const { aiModel, setAiModel } = useNoteAiModel();
+  const { aiModel, setAiModel } = useNoteAiModel(projectId);
   const { formatDate } = useNoteDateFormat();
   
   const {
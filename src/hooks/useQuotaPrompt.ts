@@ -0,0 +1,25 @@
+import { useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { describeQuotaExceeded, parseQuotaError } from '@/utils/quotas';
+
+// Turns plan limit errors from the server into an upgrade prompt. Resolves to
+// true when it handled the error, so callers can skip their generic message.
+export function useQuotaPrompt() {
+  const navigate = useNavigate();
+
+  return useCallback(async (error: unknown): Promise<boolean> => {
+    const exceeded = await parseQuotaError(error);
+    if (!exceeded) return false;
+
+    toast.error(exceeded.message, {
+      id: `quota-${exceeded.quota}`,
+      description: describeQuotaExceeded(exceeded),
+      action: {
+        label: 'View plans',
+        onClick: () => navigate('/subscription'),
+      },
+    });
+    return true;
+  }, [navigate]);
+}
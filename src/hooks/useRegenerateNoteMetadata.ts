@@ -2,13 +2,18 @@
 import { useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { DEFAULT_MODEL, ModelType } from '@/utils/aiPrompts';
+import { useQuotaPrompt } from '@/hooks/useQuotaPrompt';
 
 interface UseRegenerateNoteMetadataProps {
-  model?: 'claude' | 'openai';
+  model?: ModelType;
+  // Brain the usage is counted against
+  projectId?: string;
 }
 
-export function useRegenerateNoteMetadata({ model = 'claude' }: UseRegenerateNoteMetadataProps = {}) {
+export function useRegenerateNoteMetadata({ model = DEFAULT_MODEL, projectId }: UseRegenerateNoteMetadataProps = {}) {
   const [isRegenerating, setIsRegenerating] = useState(false);
+  const promptQuota = useQuotaPrompt();
 
   const regenerateTitle = async (noteContent: string | null): Promise<string | null> => {
     if (!noteContent) {
@@ -23,7 +28,8 @@ export function useRegenerateNoteMetadata({ model = 'claude' }: UseRegenerateNot
         body: {
           noteContent,
           type: 'title',
-          model
+          model,
+          projectId
         },
       });
 
@@ -39,7 +45,9 @@ export function useRegenerateNoteMetadata({ model = 'claude' }: UseRegenerateNot
       return data.title;
     } catch (error: any) {
       console.error('Error regenerating title:', error);
-      toast.error(`Failed to regenerate title: ${error.message || 'Unknown error'}`);
+      if (!(await promptQuota(error))) {
+        toast.error(`Failed to regenerate title: ${error.message || 'Unknown error'}`);
+      }
       return null;
     } finally {
       setIsRegenerating(false);
@@ -59,7 +67,8 @@ export function useRegenerateNoteMetadata({ model = 'claude' }: UseRegenerateNot
         body: {
           noteContent,
           type: 'tags',
-          model
+          model,
+          projectId
         },
       });
 
@@ -75,7 +84,9 @@ export function useRegenerateNoteMetadata({ model = 'claude' }: UseRegenerateNot
       return data.tags;
     } catch (error: any) {
       console.error('Error regenerating tags:', error);
-      toast.error(`Failed to regenerate tags: ${error.message || 'Unknown error'}`);
+      if (!(await promptQuota(error))) {
+        toast.error(`Failed to regenerate tags: ${error.message || 'Unknown error'}`);
+      }
       return null;
     } finally {
       setIsRegenerating(false);
@@ -95,7 +106,8 @@ export function useRegenerateNoteMetadata({ model = 'claude' }: UseRegenerateNot
         body: {
           noteContent,
           type: 'both',
-          model
+          model,
+          projectId
         },
       });
 
@@ -114,7 +126,9 @@ export function useRegenerateNoteMetadata({ model = 'claude' }: UseRegenerateNot
       };
     } catch (error: any) {
       console.error('Error regenerating metadata:', error);
-      toast.error(`Failed to regenerate metadata: ${error.message || 'Unknown error'}`);
+      if (!(await promptQuota(error))) {
+        toast.error(`Failed to regenerate metadata: ${error.message || 'Unknown error'}`);
+      }
       return null;
     } finally {
       setIsRegenerating(false);
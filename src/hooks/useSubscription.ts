@@ -15,6 +15,7 @@ export const useSubscription = () => {
   const subscriptionData = useSubscriptionData();
   const { user } = useAuth();
   const [isUpgrading, setIsUpgrading] = useState(false);
+  const [isOpeningPortal, setIsOpeningPortal] = useState(false);
 
   const upgradeToProPlan = async (priceId: string = DEFAULT_PRO_PRICE_ID) => {
     if (!user) {
@@ -28,9 +29,10 @@ export const useSubscription = () => {
       
       console.log('Initiating upgrade for user:', user.id);
       
-      // Using direct payment link instead of creating a checkout session
+      // Using direct payment link instead of creating a checkout session. The
+      // webhook finds the buyer through client_reference_id.
       toast.success('Redirecting to secure checkout...', { id: 'stripe-checkout' });
-      window.location.href = STRIPE_PAYMENT_LINK;
+      window.location.href = `${STRIPE_PAYMENT_LINK}?client_reference_id=${encodeURIComponent(user.id)}`;
       
     } catch (err) {
       console.error('Error upgrading to Pro:', err);
@@ -40,9 +42,77 @@ export const useSubscription = () => {
     }
   };
 
+  // Buys Pro seats for a workspace, or changes the seat count of its existing
+  // subscription. Resolves to the new seat count when no checkout is needed.
+  const purchaseWorkspaceSeats = async (workspaceId: string, seats: number): Promise<number | null> => {
+    if (!user) {
+      toast.error('You must be logged in to upgrade');
+      return null;
+    }
+
+    try {
+      setIsUpgrading(true);
+      toast.loading('Preparing checkout...', { id: 'stripe-checkout' });
+
+      const { data, error } = await supabase.functions.invoke('create-stripe-checkout', {
+        body: { workspaceId, seats }
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      if (data?.url) {
+        toast.success('Redirecting to secure checkout...', { id: 'stripe-checkout' });
+        window.location.href = data.url;
+        return null;
+      }
+
+      toast.success(`Your workspace now has ${data.seats} seats`, { id: 'stripe-checkout' });
+      return data.seats;
+    } catch (err) {
+      console.error('Error purchasing workspace seats:', err);
+      toast.error('Failed to update workspace seats. Please try again.', { id: 'stripe-checkout' });
+      return null;
+    } finally {
+      setIsUpgrading(false);
+    }
+  };
+
+  // Opens the Stripe billing portal for the user's own subscription, or for a
+  // workspace the user administers
+  const openBillingPortal = async (workspaceId?: string) => {
+    if (!user) {
+      toast.error('You must be logged in to manage billing');
+      return;
+    }
+
+    try {
+      setIsOpeningPortal(true);
+      toast.loading('Opening billing portal...', { id: 'stripe-portal' });
+
+      const { data, error } = await supabase.functions.invoke('create-billing-portal', {
+        body: { workspaceId }
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      toast.success('Redirecting to billing portal...', { id: 'stripe-portal' });
+      window.location.href = data.url;
+    } catch (err) {
+      console.error('Error opening billing portal:', err);
+      toast.error('Failed to open the billing portal. Please try again.', { id: 'stripe-portal' });
+    } finally {
+      setIsOpeningPortal(false);
+    }
+  };
+
   return {
     ...subscriptionData,
     upgradeToProPlan,
-    isUpgrading
+    purchaseWorkspaceSeats,
+    openBillingPortal,
+    isUpgrading,
+    isOpeningPortal
   };
 };
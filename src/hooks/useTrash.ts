@@ -0,0 +1,79 @@
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import {
+  deleteForever as purgeTrashItem,
+  fetchTrash,
+  restoreFromTrash,
+  TRASH_ITEM_LABELS,
+  TrashItem
+} from '@/utils/trashUtils';
+
+// Trashed brains of the current user and trashed items of brains they can edit
+export function useTrash() {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    setLoading(true);
+    try {
+      setItems(await fetchTrash());
+    } catch (error) {
+      console.error('Error fetching trash:', error);
+      toast.error('Failed to load the trash');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const restore = async (item: TrashItem) => {
+    setBusyId(item.id);
+    try {
+      await restoreFromTrash(item.item_type, item.id);
+
+      // Restoring a brain brings back everything in it, so reload the list
+      if (item.item_type === 'project') {
+        await loadTrash();
+      } else {
+        setItems(prev => prev.filter(existing => existing.id !== item.id));
+      }
+      toast.success(`${TRASH_ITEM_LABELS[item.item_type]} restored`);
+    } catch (error) {
+      console.error('Error restoring from trash:', error);
+      toast.error(error.message || 'Failed to restore');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const deleteForever = async (item: TrashItem) => {
+    setBusyId(item.id);
+    try {
+      await purgeTrashItem(item.item_type, item.id);
+
+      setItems(prev => prev.filter(existing =>
+        existing.id !== item.id && !(item.item_type === 'project' && existing.project_id === item.id)
+      ));
+      toast.success(`${TRASH_ITEM_LABELS[item.item_type]} deleted forever`);
+    } catch (error) {
+      console.error('Error deleting from trash:', error);
+      toast.error(error.message || 'Failed to delete');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return {
+    items,
+    loading,
+    busyId,
+    refresh: loadTrash,
+    restore,
+    deleteForever
+  };
+}
@@ -2,7 +2,8 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSubscription } from '@/hooks/useSubscription';
-import { getUserStats } from '@/components/navbar/UserStatsManager';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { getUserStats } from '@/utils/userStatsStore';
 import { accountFeatures, defaultPlanType } from '@/config/accountFeatures';
 import { UserFeatures } from '@/types/user';
 
@@ -13,6 +14,7 @@ export const useUserFeatures = (): {
 } => {
   const { user } = useAuth();
   const { planDetails, isLoading: isSubscriptionLoading } = useSubscription();
+  const { workspaces } = useWorkspace();
   const [isLoading, setIsLoading] = useState(true);
   const [userFeatures, setUserFeatures] = useState<UserFeatures>({
     canCreateBrains: false,
@@ -37,8 +39,10 @@ export const useUserFeatures = (): {
     }
 
     try {
-      // Get current plan type from subscription
-      const currentPlanType = planDetails?.plan_type || defaultPlanType;
+      // Get current plan type from subscription. A seat in an active Pro
+      // workspace counts as the Pro plan, as it does for the server's limits.
+      const hasProSeat = workspaces.some(workspace => workspace.plan_type === 'pro' && workspace.is_active);
+      const currentPlanType = hasProSeat ? 'pro' : planDetails?.plan_type || defaultPlanType;
       setPlanType(currentPlanType);
 
       // Get user statistics
@@ -91,7 +95,7 @@ export const useUserFeatures = (): {
     } finally {
       setIsLoading(false);
     }
-  }, [user, planDetails, isSubscriptionLoading]);
+  }, [user, planDetails, isSubscriptionLoading, workspaces]);
 
   return { userFeatures, isLoading, planType };
 };
@@ -0,0 +1,151 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { findUserByEmail } from '@/utils/memberUtils';
+import { WorkspaceMember, WorkspaceRole } from '@/types/workspace';
+
+// Members of a workspace and the admin actions on them. Seats are enforced by
+// the database, which rejects a new member once every seat is taken.
+export const useWorkspaceMembers = (workspaceId: string | undefined) => {
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchMembers = useCallback(async () => {
+    if (!workspaceId) {
+      setMembers([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const { data: rows, error } = await supabase
+        .from('workspace_members')
+        .select('user_id, role, created_at')
+        .eq('workspace_id', workspaceId)
+        .order('created_at');
+
+      if (error) throw error;
+
+      const userIds = rows.map(row => row.user_id);
+      const { data: profiles, error: profilesError } = userIds.length > 0
+        ? await supabase.from('profiles').select('id, email, full_name').in('id', userIds)
+        : { data: [], error: null };
+
+      if (profilesError) {
+        console.error('Error fetching workspace member profiles:', profilesError);
+      }
+
+      setMembers(rows.map(row => {
+        const profile = profiles?.find(p => p.id === row.user_id);
+        return {
+          user_id: row.user_id,
+          role: row.role as WorkspaceRole,
+          created_at: row.created_at,
+          email: profile?.email ?? null,
+          full_name: profile?.full_name ?? null
+        };
+      }));
+    } catch (error) {
+      console.error('Error fetching workspace members:', error);
+      toast.error('Failed to load workspace members');
+    } finally {
+      setLoading(false);
+    }
+  }, [workspaceId]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  const addMember = async (email: string, role: Exclude<WorkspaceRole, 'owner'>): Promise<boolean> => {
+    if (!workspaceId) return false;
+
+    try {
+      setSaving(true);
+
+      const userId = await findUserByEmail(email.trim());
+      if (!userId) {
+        toast.error(`Nobody has signed up with ${email} yet`);
+        return false;
+      }
+
+      if (members.some(member => member.user_id === userId)) {
+        toast.error(`${email} is already in this workspace`);
+        return false;
+      }
+
+      const { error } = await supabase
+        .from('workspace_members')
+        .insert({ workspace_id: workspaceId, user_id: userId, role });
+
+      if (error) throw error;
+
+      toast.success(`Added ${email} to the workspace`);
+      await fetchMembers();
+      return true;
+    } catch (error) {
+      console.error('Error adding workspace member:', error);
+      // The seat check explains itself, e.g. "All 3 seats of Acme are taken"
+      const { message, hint } = error as { message?: string; hint?: string };
+      toast.error(message || 'Failed to add member', {
+        description: hint || undefined
+      });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateRole = async (userId: string, role: Exclude<WorkspaceRole, 'owner'>) => {
+    if (!workspaceId) return;
+
+    try {
+      const { error } = await supabase
+        .from('workspace_members')
+        .update({ role })
+        .eq('workspace_id', workspaceId)
+        .eq('user_id', userId);
+
+      if (error) throw error;
+
+      setMembers(prev => prev.map(member => member.user_id === userId ? { ...member, role } : member));
+      toast.success('Role updated');
+    } catch (error) {
+      console.error('Error updating workspace role:', error);
+      toast.error('Failed to update role');
+    }
+  };
+
+  const removeMember = async (userId: string) => {
+    if (!workspaceId) return;
+
+    try {
+      const { error } = await supabase
+        .from('workspace_members')
+        .delete()
+        .eq('workspace_id', workspaceId)
+        .eq('user_id', userId);
+
+      if (error) throw error;
+
+      setMembers(prev => prev.filter(member => member.user_id !== userId));
+      toast.success('Member removed');
+    } catch (error) {
+      console.error('Error removing workspace member:', error);
+      toast.error('Failed to remove member');
+    }
+  };
+
+  return {
+    members,
+    loading,
+    saving,
+    addMember,
+    updateRole,
+    removeMember,
+    refreshMembers: fetchMembers
+  };
+};
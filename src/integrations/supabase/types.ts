@@ -9,6 +9,238 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      billing_invoices: {
+        Row: {
+          amount_due: number
+          amount_paid: number
+          amount_refunded: number
+          billing_reason: string | null
+          currency: string
+          hosted_invoice_url: string | null
+          id: string
+          invoice_pdf: string | null
+          number: string | null
+          period_end: string | null
+          period_start: string | null
+          receipt_url: string | null
+          status: string
+          stripe_created_at: string
+          stripe_customer_id: string | null
+          stripe_synced_at: string | null
+          subscription_id: string | null
+          updated_at: string
+          user_id: string | null
+          workspace_id: string | null
+        }
+        Insert: {
+          amount_due?: number
+          amount_paid?: number
+          amount_refunded?: number
+          billing_reason?: string | null
+          currency: string
+          hosted_invoice_url?: string | null
+          id: string
+          invoice_pdf?: string | null
+          number?: string | null
+          period_end?: string | null
+          period_start?: string | null
+          receipt_url?: string | null
+          status: string
+          stripe_created_at: string
+          stripe_customer_id?: string | null
+          stripe_synced_at?: string | null
+          subscription_id?: string | null
+          updated_at?: string
+          user_id?: string | null
+          workspace_id?: string | null
+        }
+        Update: {
+          amount_due?: number
+          amount_paid?: number
+          amount_refunded?: number
+          billing_reason?: string | null
+          currency?: string
+          hosted_invoice_url?: string | null
+          id?: string
+          invoice_pdf?: string | null
+          number?: string | null
+          period_end?: string | null
+          period_start?: string | null
+          receipt_url?: string | null
+          status?: string
+          stripe_created_at?: string
+          stripe_customer_id?: string | null
+          stripe_synced_at?: string | null
+          subscription_id?: string | null
+          updated_at?: string
+          user_id?: string | null
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "billing_invoices_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_conversations: {
+        Row: {
+          created_at: string
+          id: string
+          is_shared: boolean
+          project_id: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_shared?: boolean
+          project_id: string
+          title?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_shared?: boolean
+          project_id?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_conversations_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_messages: {
+        Row: {
+          citations: Json
+          content: string
+          conversation_id: string
+          created_at: string
+          id: string
+          role: string
+        }
+        Insert: {
+          citations?: Json
+          content: string
+          conversation_id: string
+          created_at?: string
+          id?: string
+          role: string
+        }
+        Update: {
+          citations?: Json
+          content?: string
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "chat_conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      content_chunks: {
+        Row: {
+          chunk_index: number
+          content: string
+          created_at: string
+          embedding: string
+          embedding_model: string
+          id: string
+          metadata: Json
+          project_id: string
+          source_id: string
+          source_type: string
+        }
+        Insert: {
+          chunk_index: number
+          content: string
+          created_at?: string
+          embedding: string
+          embedding_model: string
+          id?: string
+          metadata?: Json
+          project_id: string
+          source_id: string
+          source_type: string
+        }
+        Update: {
+          chunk_index?: number
+          content?: string
+          created_at?: string
+          embedding?: string
+          embedding_model?: string
+          id?: string
+          metadata?: Json
+          project_id?: string
+          source_id?: string
+          source_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_chunks_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      content_index_queue: {
+        Row: {
+          attempts: number
+          last_error: string | null
+          project_id: string
+          queued_at: string
+          source_id: string
+          source_type: string
+        }
+        Insert: {
+          attempts?: number
+          last_error?: string | null
+          project_id: string
+          queued_at?: string
+          source_id: string
+          source_type: string
+        }
+        Update: {
+          attempts?: number
+          last_error?: string | null
+          project_id?: string
+          queued_at?: string
+          source_id?: string
+          source_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_index_queue_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       google_drive_connections: {
         Row: {
           access_token: string
@@ -49,6 +281,7 @@ export type Database = {
         Row: {
           created_at: string
           id: string
+          image_id: string | null
           image_url: string
           is_archived: boolean
           is_favorite: boolean
@@ -61,6 +294,7 @@ export type Database = {
         Insert: {
           created_at?: string
           id?: string
+          image_id?: string | null
           image_url: string
           is_archived?: boolean
           is_favorite?: boolean
@@ -73,6 +307,7 @@ export type Database = {
         Update: {
           created_at?: string
           id?: string
+          image_id?: string | null
           image_url?: string
           is_archived?: boolean
           is_favorite?: boolean
@@ -83,6 +318,13 @@ export type Database = {
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "image_summaries_image_id_fkey"
+            columns: ["image_id"]
+            isOneToOne: false
+            referencedRelation: "project_images"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "image_summaries_project_id_fkey"
             columns: ["project_id"]
@@ -96,6 +338,7 @@ export type Database = {
         Row: {
           created_at: string
           id: string
+          image_id: string | null
           image_url: string
           project_id: string
           tag: string
@@ -104,6 +347,7 @@ export type Database = {
         Insert: {
           created_at?: string
           id?: string
+          image_id?: string | null
           image_url: string
           project_id: string
           tag: string
@@ -112,12 +356,20 @@ export type Database = {
         Update: {
           created_at?: string
           id?: string
+          image_id?: string | null
           image_url?: string
           project_id?: string
           tag?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "image_tags_image_id_fkey"
+            columns: ["image_id"]
+            isOneToOne: false
+            referencedRelation: "project_images"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "image_tags_project_id_fkey"
             columns: ["project_id"]
@@ -127,6 +379,112 @@ export type Database = {
           },
         ]
       }
+      note_links: {
+        Row: {
+          created_at: string
+          id: string
+          label: string
+          project_id: string
+          source_note_id: string
+          target_id: string | null
+          target_type: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          label: string
+          project_id: string
+          source_note_id: string
+          target_id?: string | null
+          target_type?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          label?: string
+          project_id?: string
+          source_note_id?: string
+          target_id?: string | null
+          target_type?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_links_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "note_links_source_note_id_fkey"
+            columns: ["source_note_id"]
+            isOneToOne: false
+            referencedRelation: "project_notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_revisions: {
+        Row: {
+          author_id: string | null
+          cause: string
+          content: string | null
+          created_at: string
+          id: string
+          note_id: string
+          project_id: string
+          restored_from: string | null
+          tags: string[] | null
+          title: string | null
+        }
+        Insert: {
+          author_id?: string | null
+          cause: string
+          content?: string | null
+          created_at?: string
+          id?: string
+          note_id: string
+          project_id: string
+          restored_from?: string | null
+          tags?: string[] | null
+          title?: string | null
+        }
+        Update: {
+          author_id?: string | null
+          cause?: string
+          content?: string | null
+          created_at?: string
+          id?: string
+          note_id?: string
+          project_id?: string
+          restored_from?: string | null
+          tags?: string[] | null
+          title?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_revisions_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "project_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "note_revisions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "note_revisions_restored_from_fkey"
+            columns: ["restored_from"]
+            isOneToOne: false
+            referencedRelation: "note_revisions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       note_summaries: {
         Row: {
           created_at: string
@@ -208,6 +566,89 @@ export type Database = {
         }
         Relationships: []
       }
+      notion_sync_conflicts: {
+        Row: {
+          detected_at: string
+          incoming_content: string
+          incoming_title: string
+          note_id: string
+          notion_last_edited_time: string
+          project_id: string
+        }
+        Insert: {
+          detected_at?: string
+          incoming_content: string
+          incoming_title: string
+          note_id: string
+          notion_last_edited_time: string
+          project_id: string
+        }
+        Update: {
+          detected_at?: string
+          incoming_content?: string
+          incoming_title?: string
+          note_id?: string
+          notion_last_edited_time?: string
+          project_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notion_sync_conflicts_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "project_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notion_sync_conflicts_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notion_synced_databases: {
+        Row: {
+          created_at: string
+          database_id: string
+          database_title: string
+          id: string
+          last_error: string | null
+          last_synced_at: string | null
+          project_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          database_id: string
+          database_title?: string
+          id?: string
+          last_error?: string | null
+          last_synced_at?: string | null
+          project_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          database_id?: string
+          database_title?: string
+          id?: string
+          last_error?: string | null
+          last_synced_at?: string | null
+          project_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notion_synced_databases_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -238,11 +679,57 @@ export type Database = {
         }
         Relationships: []
       }
+      project_document_pages: {
+        Row: {
+          content: string
+          created_at: string
+          document_id: string
+          page_number: number
+          project_id: string
+        }
+        Insert: {
+          content?: string
+          created_at?: string
+          document_id: string
+          page_number: number
+          project_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          document_id?: string
+          page_number?: number
+          project_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_document_pages_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "project_documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_document_pages_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       project_documents: {
         Row: {
           content_text: string | null
           created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
           document_type: string
+          extracted_at: string | null
+          extraction_attempts: number
+          extraction_error: string | null
+          extraction_started_at: string | null
+          extraction_status: string
           file_name: string
           file_path: string
           file_size: number | null
@@ -252,6 +739,7 @@ export type Database = {
           is_favorite: boolean
           is_important: boolean
           metadata: Json | null
+          page_count: number | null
           project_id: string
           updated_at: string
           user_id: string
@@ -259,7 +747,14 @@ export type Database = {
         Insert: {
           content_text?: string | null
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           document_type: string
+          extracted_at?: string | null
+          extraction_attempts?: number
+          extraction_error?: string | null
+          extraction_started_at?: string | null
+          extraction_status?: string
           file_name: string
           file_path: string
           file_size?: number | null
@@ -269,6 +764,7 @@ export type Database = {
           is_favorite?: boolean
           is_important?: boolean
           metadata?: Json | null
+          page_count?: number | null
           project_id: string
           updated_at?: string
           user_id: string
@@ -276,7 +772,14 @@ export type Database = {
         Update: {
           content_text?: string | null
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           document_type?: string
+          extracted_at?: string | null
+          extraction_attempts?: number
+          extraction_error?: string | null
+          extraction_started_at?: string | null
+          extraction_status?: string
           file_name?: string
           file_path?: string
           file_size?: number | null
@@ -286,6 +789,7 @@ export type Database = {
           is_favorite?: boolean
           is_important?: boolean
           metadata?: Json | null
+          page_count?: number | null
           project_id?: string
           updated_at?: string
           user_id?: string
@@ -300,6 +804,127 @@ export type Database = {
           },
         ]
       }
+      project_images: {
+        Row: {
+          caption: string | null
+          created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
+          file_name: string
+          height: number | null
+          id: string
+          is_archived: boolean
+          is_favorite: boolean
+          is_important: boolean
+          mime_type: string | null
+          project_id: string
+          size_bytes: number
+          storage_path: string
+          updated_at: string
+          user_id: string
+          width: number | null
+        }
+        Insert: {
+          caption?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          file_name: string
+          height?: number | null
+          id?: string
+          is_archived?: boolean
+          is_favorite?: boolean
+          is_important?: boolean
+          mime_type?: string | null
+          project_id: string
+          size_bytes?: number
+          storage_path: string
+          updated_at?: string
+          user_id: string
+          width?: number | null
+        }
+        Update: {
+          caption?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          file_name?: string
+          height?: number | null
+          id?: string
+          is_archived?: boolean
+          is_favorite?: boolean
+          is_important?: boolean
+          mime_type?: string | null
+          project_id?: string
+          size_bytes?: number
+          storage_path?: string
+          updated_at?: string
+          user_id?: string
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_images_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          last_sent_at: string | null
+          project_id: string
+          role: string
+          status: string
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          last_sent_at?: string | null
+          project_id: string
+          role?: string
+          status?: string
+          token?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          last_sent_at?: string | null
+          project_id?: string
+          role?: string
+          status?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_invitations_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       project_members: {
         Row: {
           created_at: string
@@ -336,11 +961,18 @@ export type Database = {
         Row: {
           content: string | null
           created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
           id: string
           is_archived: boolean
           is_favorite: boolean
           is_important: boolean
+          notion_checked_at: string | null
+          notion_last_edited_time: string | null
+          notion_page_id: string | null
+          notion_synced_hash: string | null
           project_id: string
+          revision_cause: string | null
           source_document: Json | null
           tags: string[] | null
           title: string
@@ -350,11 +982,18 @@ export type Database = {
         Insert: {
           content?: string | null
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           id?: string
           is_archived?: boolean
           is_favorite?: boolean
           is_important?: boolean
+          notion_checked_at?: string | null
+          notion_last_edited_time?: string | null
+          notion_page_id?: string | null
+          notion_synced_hash?: string | null
           project_id: string
+          revision_cause?: string | null
           source_document?: Json | null
           tags?: string[] | null
           title: string
@@ -364,11 +1003,18 @@ export type Database = {
         Update: {
           content?: string | null
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           id?: string
           is_archived?: boolean
           is_favorite?: boolean
           is_important?: boolean
+          notion_checked_at?: string | null
+          notion_last_edited_time?: string | null
+          notion_page_id?: string | null
+          notion_synced_hash?: string | null
           project_id?: string
+          revision_cause?: string | null
           source_document?: Json | null
           tags?: string[] | null
           title?: string
@@ -430,6 +1076,9 @@ export type Database = {
         Row: {
           ai_persona: string | null
           created_at: string
+          default_model: string | null
+          deleted_at: string | null
+          deleted_by: string | null
           description: string | null
           id: string
           is_archived: boolean
@@ -437,10 +1086,14 @@ export type Database = {
           owner_id: string
           title: string
           updated_at: string
+          workspace_id: string | null
         }
         Insert: {
           ai_persona?: string | null
           created_at?: string
+          default_model?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           id?: string
           is_archived?: boolean
@@ -448,10 +1101,14 @@ export type Database = {
           owner_id: string
           title: string
           updated_at?: string
+          workspace_id?: string | null
         }
         Update: {
           ai_persona?: string | null
           created_at?: string
+          default_model?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           id?: string
           is_archived?: boolean
@@ -459,6 +1116,43 @@ export type Database = {
           owner_id?: string
           title?: string
           updated_at?: string
+          workspace_id?: string | null
+        }
+        Relationships: []
+      }
+      stripe_events: {
+        Row: {
+          attempts: number
+          detail: string | null
+          id: string
+          payload: Json
+          processed_at: string | null
+          received_at: string
+          status: string
+          stripe_created_at: string
+          type: string
+        }
+        Insert: {
+          attempts?: number
+          detail?: string | null
+          id: string
+          payload: Json
+          processed_at?: string | null
+          received_at?: string
+          status?: string
+          stripe_created_at: string
+          type: string
+        }
+        Update: {
+          attempts?: number
+          detail?: string | null
+          id?: string
+          payload?: Json
+          processed_at?: string | null
+          received_at?: string
+          status?: string
+          stripe_created_at?: string
+          type?: string
         }
         Relationships: []
       }
@@ -471,9 +1165,11 @@ export type Database = {
           max_api_calls: number
           max_brains: number
           max_documents: number
+          max_storage_bytes: number
           name: string
           plan_type: string
           price: number
+          stripe_price_ids: string[]
           updated_at: string
         }
         Insert: {
@@ -484,9 +1180,11 @@ export type Database = {
           max_api_calls?: number
           max_brains?: number
           max_documents?: number
+          max_storage_bytes?: number
           name: string
           plan_type: string
           price?: number
+          stripe_price_ids?: string[]
           updated_at?: string
         }
         Update: {
@@ -497,39 +1195,98 @@ export type Database = {
           max_api_calls?: number
           max_brains?: number
           max_documents?: number
+          max_storage_bytes?: number
           name?: string
           plan_type?: string
           price?: number
+          stripe_price_ids?: string[]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      user_quota_overrides: {
+        Row: {
+          created_at: string
+          max_api_calls: number | null
+          max_brains: number | null
+          max_documents: number | null
+          max_storage_bytes: number | null
+          reason: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          max_api_calls?: number | null
+          max_brains?: number | null
+          max_documents?: number | null
+          max_storage_bytes?: number | null
+          reason?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          max_api_calls?: number | null
+          max_brains?: number | null
+          max_documents?: number | null
+          max_storage_bytes?: number | null
+          reason?: string | null
           updated_at?: string
+          user_id?: string
         }
         Relationships: []
       }
       user_subscriptions: {
         Row: {
+          cancel_at_period_end: boolean
           created_at: string
+          current_period_end: string | null
+          grace_period_ends_at: string | null
           id: string
           is_active: boolean
+          payment_method: Json | null
           plan_type: string
+          price_id: string | null
+          status: string | null
+          stripe_customer_id: string | null
+          stripe_synced_at: string | null
           subscription_id: string | null
           trial_ends_at: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          cancel_at_period_end?: boolean
           created_at?: string
+          current_period_end?: string | null
+          grace_period_ends_at?: string | null
           id?: string
           is_active?: boolean
+          payment_method?: Json | null
           plan_type: string
+          price_id?: string | null
+          status?: string | null
+          stripe_customer_id?: string | null
+          stripe_synced_at?: string | null
           subscription_id?: string | null
           trial_ends_at?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          cancel_at_period_end?: boolean
           created_at?: string
+          current_period_end?: string | null
+          grace_period_ends_at?: string | null
           id?: string
           is_active?: boolean
+          payment_method?: Json | null
           plan_type?: string
+          price_id?: string | null
+          status?: string | null
+          stripe_customer_id?: string | null
+          stripe_synced_at?: string | null
           subscription_id?: string | null
           trial_ends_at?: string | null
           updated_at?: string
@@ -540,23 +1297,55 @@ export type Database = {
       user_usage_stats: {
         Row: {
           action_type: string
+          cost_usd: number
           created_at: string
+          estimated: boolean
+          feature: string | null
           id: string
+          input_tokens: number
+          model: string | null
+          output_tokens: number
+          project_id: string | null
+          provider: string | null
           user_id: string
         }
         Insert: {
           action_type: string
+          cost_usd?: number
           created_at?: string
+          estimated?: boolean
+          feature?: string | null
           id?: string
+          input_tokens?: number
+          model?: string | null
+          output_tokens?: number
+          project_id?: string | null
+          provider?: string | null
           user_id: string
         }
         Update: {
           action_type?: string
+          cost_usd?: number
           created_at?: string
+          estimated?: boolean
+          feature?: string | null
           id?: string
+          input_tokens?: number
+          model?: string | null
+          output_tokens?: number
+          project_id?: string | null
+          provider?: string | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "user_usage_stats_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       waitlist: {
         Row: {
@@ -597,15 +1386,176 @@ export type Database = {
         }
         Relationships: []
       }
+      workspace_members: {
+        Row: {
+          created_at: string
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          role?: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          role?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          cancel_at_period_end: boolean
+          created_at: string
+          created_by: string
+          current_period_end: string | null
+          grace_period_ends_at: string | null
+          id: string
+          is_active: boolean
+          name: string
+          payment_method: Json | null
+          plan_type: string
+          price_id: string | null
+          seats: number
+          status: string | null
+          stripe_customer_id: string | null
+          stripe_synced_at: string | null
+          subscription_id: string | null
+          trial_ends_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          cancel_at_period_end?: boolean
+          created_at?: string
+          created_by: string
+          current_period_end?: string | null
+          grace_period_ends_at?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          payment_method?: Json | null
+          plan_type?: string
+          price_id?: string | null
+          seats?: number
+          status?: string | null
+          stripe_customer_id?: string | null
+          stripe_synced_at?: string | null
+          subscription_id?: string | null
+          trial_ends_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          cancel_at_period_end?: boolean
+          created_at?: string
+          created_by?: string
+          current_period_end?: string | null
+          grace_period_ends_at?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          payment_method?: Json | null
+          plan_type?: string
+          price_id?: string | null
+          seats?: number
+          status?: string | null
+          stripe_customer_id?: string | null
+          stripe_synced_at?: string | null
+          subscription_id?: string | null
+          trial_ends_at?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      accept_project_invitation: {
+        Args: { p_token: string }
+        Returns: string
+      }
+      can_access_project: {
+        Args: { p_project_id: string }
+        Returns: boolean
+      }
+      check_upload_quota: {
+        Args: {
+          p_project_id: string
+          p_bytes: number
+          p_is_document?: boolean
+        }
+        Returns: undefined
+      }
+      claim_stripe_event: {
+        Args: {
+          p_event_id: string
+          p_type: string
+          p_created: string
+          p_payload: Json
+        }
+        Returns: boolean
+      }
       create_user_subscription: {
         Args: { p_user_id: string; p_plan_type: string }
         Returns: string
       }
+      create_workspace: {
+        Args: { p_name: string }
+        Returns: string
+      }
+      enforce_quota: {
+        Args: { p_user_id: string; p_quota: string; p_amount?: number }
+        Returns: undefined
+      }
+      get_project_invitation: {
+        Args: { p_token: string }
+        Returns: {
+          project_id: string
+          project_title: string
+          email: string
+          role: string
+          status: string
+          expires_at: string
+          invited_by_name: string | null
+        }[]
+      }
+      get_trash: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          item_type: string
+          id: string
+          project_id: string
+          project_title: string
+          title: string
+          deleted_at: string
+          deleted_by_name: string | null
+        }[]
+      }
+      get_usage_breakdown: {
+        Args: { p_user_id: string; p_since: string }
+        Returns: {
+          day: string
+          feature: string
+          project_id: string
+          calls: number
+          input_tokens: number
+          output_tokens: number
+          cost_usd: number
+        }[]
+      }
       get_user_by_email: {
         Args: { lookup_email: string }
         Returns: {
@@ -626,10 +1576,128 @@ export type Database = {
           updated_at: string
         }[]
       }
+      has_project_role: {
+        Args: { p_project_id: string; p_minimum_role: string }
+        Returns: boolean
+      }
+      has_workspace_role: {
+        Args: { p_workspace_id: string; p_minimum_role: string }
+        Returns: boolean
+      }
       is_project_member: {
         Args: { project_id: string; user_id: string }
         Returns: boolean
       }
+      is_workspace_member: {
+        Args: { p_workspace_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      match_content_chunks: {
+        Args: {
+          p_project_id: string
+          p_query_embedding: string
+          p_embedding_model: string
+          p_match_count?: number
+        }
+        Returns: {
+          id: string
+          source_type: string
+          source_id: string
+          chunk_index: number
+          content: string
+          metadata: Json
+          similarity: number
+        }[]
+      }
+      move_to_trash: {
+        Args: {
+          p_item_type: string
+          p_item_id: string
+        }
+        Returns: undefined
+      }
+      project_role: {
+        Args: { p_project_id: string }
+        Returns: string
+      }
+      purge_project: {
+        Args: {
+          p_project_id: string
+        }
+        Returns: {
+          bucket: string
+          path: string
+        }[]
+      }
+      purge_trash_item: {
+        Args: {
+          p_item_type: string
+          p_item_id: string
+        }
+        Returns: {
+          bucket: string
+          path: string
+        }[]
+      }
+      queue_project_content_indexing: {
+        Args: { p_project_id: string }
+        Returns: number
+      }
+      resolve_notion_conflict: {
+        Args: {
+          p_note_id: string
+          p_use_notion: boolean
+        }
+        Returns: undefined
+      }
+      restore_from_trash: {
+        Args: {
+          p_item_type: string
+          p_item_id: string
+        }
+        Returns: undefined
+      }
+      restore_note_revision: {
+        Args: { p_revision_id: string }
+        Returns: undefined
+      }
+      search_brain_content: {
+        Args: {
+          p_query: string
+          p_types?: string[]
+          p_project_id?: string
+          p_tag?: string
+          p_from?: string
+          p_to?: string
+          p_limit?: number
+        }
+        Returns: {
+          result_type: string
+          id: string
+          project_id: string
+          project_title: string
+          title: string
+          snippet: string
+          url: string | null
+          tags: string[] | null
+          created_at: string
+          rank: number
+        }[]
+      }
+      user_quotas: {
+        Args: { p_user_id: string }
+        Returns: {
+          quota: string
+          plan_type: string
+          quota_limit: number
+          used: number
+          overridden: boolean
+        }[]
+      }
+      workspace_role: {
+        Args: { p_workspace_id: string }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
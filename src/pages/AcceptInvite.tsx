@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2 } from 'lucide-react';
+import { ROLE_DESCRIPTIONS, ROLE_LABELS, isProjectRole } from '@/utils/permissions';
+
+interface InvitationDetails {
+  project_id: string;
+  project_title: string;
+  email: string;
+  role: string;
+  status: string;
+  expires_at: string;
+  invited_by_name: string | null;
+}
+
+const AcceptInvite = () => {
+  const { user, isLoading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [accepting, setAccepting] = useState(false);
+
+  useEffect(() => {
+    const fetchInvitation = async () => {
+      if (!token) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const { data, error } = await supabase.rpc('get_project_invitation', { p_token: token });
+
+        if (error) throw error;
+        setInvitation(data?.[0] || null);
+      } catch (error) {
+        console.error('Error loading invitation:', error);
+        setInvitation(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchInvitation();
+  }, [token]);
+
+  const handleAccept = async () => {
+    if (!token) return;
+
+    setAccepting(true);
+    try {
+      const { data: projectId, error } = await supabase.rpc('accept_project_invitation', { p_token: token });
+
+      if (error) throw error;
+
+      toast.success(`You joined ${invitation?.project_title || 'the brain'}`);
+      navigate(`/project/${projectId}`);
+    } catch (error) {
+      console.error('Error accepting invitation:', error);
+      toast.error(error.message || 'Failed to accept invitation');
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  if (loading || authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const expired = invitation ? new Date(invitation.expires_at).getTime() < Date.now() : false;
+  const authParams = token && invitation
+    ? `invite=${encodeURIComponent(token)}&email=${encodeURIComponent(invitation.email)}`
+    : '';
+  const wrongAccount = !!user?.email && !!invitation
+    && user.email.toLowerCase() !== invitation.email.toLowerCase();
+
+  let title = 'Invitation not found';
+  let description = 'This invitation link is invalid. Ask the person who invited you to send a new one.';
+
+  if (invitation) {
+    if (invitation.status === 'accepted') {
+      title = 'Invitation already accepted';
+      description = `This invitation to ${invitation.project_title} has already been used.`;
+    } else if (invitation.status === 'revoked') {
+      title = 'Invitation revoked';
+      description = 'This invitation is no longer valid. Ask the person who invited you to send a new one.';
+    } else if (expired) {
+      title = 'Invitation expired';
+      description = 'This invitation has expired. Ask the person who invited you to send it again.';
+    } else {
+      title = `Join ${invitation.project_title}`;
+      description = `${invitation.invited_by_name || 'A teammate'} invited ${invitation.email} to collaborate on this brain.`;
+    }
+  }
+
+  const canAccept = invitation?.status === 'pending' && !expired;
+  const role = invitation && isProjectRole(invitation.role) ? invitation.role : null;
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1 text-center">
+          <CardTitle className="text-2xl font-bold">{title}</CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </CardHeader>
+
+        {canAccept && (
+          <CardContent className="space-y-3 text-sm">
+            {role && (
+              <p>
+                You will join as <strong>{ROLE_LABELS[role]}</strong>: {ROLE_DESCRIPTIONS[role]}
+              </p>
+            )}
+            <p className="text-muted-foreground">
+              Expires {formatDistanceToNow(new Date(invitation.expires_at), { addSuffix: true })}
+            </p>
+            {wrongAccount && (
+              <p className="text-destructive">
+                You are signed in as {user.email}. Sign in as {invitation.email} to accept this invitation.
+              </p>
+            )}
+          </CardContent>
+        )}
+
+        <CardFooter className="flex flex-col gap-2">
+          {canAccept && user && (
+            <Button className="w-full" onClick={handleAccept} disabled={accepting || wrongAccount}>
+              {accepting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Accept invitation
+            </Button>
+          )}
+
+          {canAccept && !user && (
+            <>
+              <Button className="w-full" asChild>
+                <Link to={`/auth?${authParams}&tab=register`}>Create an account</Link>
+              </Button>
+              <Button className="w-full" variant="outline" asChild>
+                <Link to={`/auth?${authParams}`}>I already have an account</Link>
+              </Button>
+            </>
+          )}
+
+          {!canAccept && (
+            <Button className="w-full" variant="outline" asChild>
+              <Link to={user ? '/dashboard' : '/'}>{user ? 'Go to dashboard' : 'Back to Home'}</Link>
+            </Button>
+          )}
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default AcceptInvite;
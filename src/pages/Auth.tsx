@@ -21,11 +21,19 @@ const Auth = () => {
   const navigate = useNavigate();
   const location = useLocation();
   const [activeTab, setActiveTab] = useState<'login' | 'register'>('login');
+
+  // Coming from an invitation link: return to it once signed in
+  const params = new URLSearchParams(location.search);
+  const inviteToken = params.get('invite');
+  const inviteEmail = params.get('email') || '';
+  const redirectTo = inviteToken
+    ? `/accept-invite?token=${encodeURIComponent(inviteToken)}`
+    : '/dashboard';
   
   useEffect(() => {
-    // Redirect to dashboard if already logged in
+    // Redirect to dashboard (or the pending invitation) if already logged in
     if (session && !isLoading) {
-      navigate('/dashboard');
+      navigate(redirectTo);
     }
     
     // Check URL params for tab selection
@@ -34,7 +42,7 @@ const Auth = () => {
     if (tab === 'register') {
       setActiveTab('register');
     }
-  }, [session, isLoading, navigate, location]);
+  }, [session, isLoading, navigate, location, redirectTo]);
 
   if (isLoading) {
     return (
@@ -63,7 +71,9 @@ const Auth = () => {
         <CardHeader className="space-y-1 text-center">
           <CardTitle className="text-2xl font-bold">Bra3n</CardTitle>
           <CardDescription>
-            Sign in to your account or create a new one
+            {inviteToken
+              ? 'Sign in or create an account to accept your invitation'
+              : 'Sign in to your account or create a new one'}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -74,11 +84,11 @@ const Auth = () => {
             </TabsList>
             
             <TabsContent value="login">
-              <LoginForm />
+              <LoginForm redirectTo={redirectTo} />
             </TabsContent>
             
             <TabsContent value="register">
-              <RegisterForm />
+              <RegisterForm redirectTo={redirectTo} defaultEmail={inviteEmail} />
             </TabsContent>
           </Tabs>
         </CardContent>
@@ -8,6 +8,7 @@ import DashboardToolbar from '@/components/dashboard/DashboardToolbar';
 import ProjectGrid from '@/components/dashboard/ProjectGrid';
 import { useDashboardData } from '@/hooks/useDashboardData';
 import { useSubscription } from '@/hooks/useSubscription';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
 
 const Dashboard = () => {
   const {
@@ -24,6 +25,7 @@ const Dashboard = () => {
   
   // Get subscription data to trigger active processing of URL parameters
   const { refetch: refetchSubscription } = useSubscription();
+  const { refreshWorkspaces } = useWorkspace();
   
   // Check URL parameters for subscription status
   const location = useLocation();
@@ -43,8 +45,10 @@ const Dashboard = () => {
       
       // Trigger an immediate subscription refresh - this will process URL parameters
       refetchSubscription();
+      // Workspace checkouts add seats rather than changing the user's own plan
+      refreshWorkspaces();
     }
-  }, [location.search, refetchSubscription]);
+  }, [location.search, refetchSubscription, refreshWorkspaces]);
 
   return (
     <div className="min-h-screen bg-background pb-12 animate-fade-in">
@@ -10,10 +10,14 @@ import FooterSection from '@/components/landing/FooterSection';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
 import { 
-  ArrowLeft, ArrowRight, File, FileText, FolderOpen, 
-  Loader2, RefreshCw, Search, X
+  AlertCircle, ArrowLeft, ArrowRight, CheckCircle2, Clock, ExternalLink, File, FileText, FolderOpen, 
+  Image, Import, Loader2, RefreshCw, Search, X
 } from 'lucide-react';
+import ProjectSelector from '@/components/notion-import/ProjectSelector';
+import { useNotionProjects } from '@/hooks/useNotionProjects';
+import { DriveImportStatus, useGoogleDriveImport } from '@/hooks/useGoogleDriveImport';
 
 interface GoogleDriveFile {
   id: string;
@@ -25,61 +29,115 @@ interface GoogleDriveFile {
   modifiedTime: string;
 }
 
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+// Keep in sync with classifyDriveFile in supabase/functions/_shared/googleDrive.ts
+const isImportable = (mimeType: string) =>
+  mimeType === 'application/pdf' ||
+  mimeType.startsWith('image/') ||
+  [
+    'application/vnd.google-apps.document',
+    'application/vnd.google-apps.presentation',
+    'application/vnd.google-apps.spreadsheet',
+    'application/vnd.google-apps.drawing',
+  ].includes(mimeType);
+
+const STATUS_ICONS: Record<DriveImportStatus, React.ReactNode> = {
+  queued: <Clock className="h-4 w-4 text-muted-foreground" />,
+  importing: <Loader2 className="h-4 w-4 animate-spin text-primary" />,
+  imported: <CheckCircle2 className="h-4 w-4 text-green-600" />,
+  failed: <AlertCircle className="h-4 w-4 text-destructive" />,
+};
+
 const GoogleDriveImport = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
   const { isConnected, isCheckingConnection } = useGoogleDriveConnection();
   
+  const { userProjects = [] } = useNotionProjects();
+  const { items: importItems, isImporting, importFiles } = useGoogleDriveImport(user?.id);
+  
   const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [files, setFiles] = useState<GoogleDriveFile[]>([]);
+  const [nextPageToken, setNextPageToken] = useState<string | null>(null);
   const [currentFolder, setCurrentFolder] = useState<string | null>(null);
   const [folderStack, setFolderStack] = useState<{ id: string | null; name: string }[]>([{ id: null, name: 'My Drive' }]);
   const [searchQuery, setSearchQuery] = useState('');
-  const [filteredFiles, setFilteredFiles] = useState<GoogleDriveFile[]>([]);
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [selectedFiles, setSelectedFiles] = useState<Record<string, GoogleDriveFile>>({});
+  const [selectedProject, setSelectedProject] = useState<string | null>(null);
+  
+  // Search all of Drive once the user stops typing
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 400);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
   
-  // Load files when component mounts or folder changes
+  // Load files when component mounts, the folder or the search changes
   useEffect(() => {
     if (isConnected && user) {
       fetchFiles(currentFolder);
     }
-  }, [isConnected, user, currentFolder]);
+  }, [isConnected, user, currentFolder, debouncedSearch]);
   
-  // Filter files based on search query
-  useEffect(() => {
-    if (searchQuery.trim() === '') {
-      setFilteredFiles(files);
+  const fetchFiles = async (folderId: string | null, pageToken: string | null = null) => {
+    if (!user) return;
+    
+    if (pageToken) {
+      setIsLoadingMore(true);
     } else {
-      const query = searchQuery.toLowerCase();
-      setFilteredFiles(files.filter(file => 
-        file.name.toLowerCase().includes(query)
-      ));
+      setIsLoading(true);
     }
-  }, [files, searchQuery]);
-  
-  const fetchFiles = async (folderId: string | null) => {
-    if (!user) return;
     
-    setIsLoading(true);
     try {
       const { data, error } = await supabase.functions.invoke('google-drive-import', {
         body: { 
           userId: user.id,
-          folderId 
+          folderId,
+          pageToken,
+          search: debouncedSearch || null
         }
       });
       
       if (error) throw error;
+      if (data?.error) throw new Error(data.error);
       
-      setFiles(data.files || []);
+      setFiles(prev => pageToken ? [...prev, ...(data.files || [])] : (data.files || []));
+      setNextPageToken(data.nextPageToken || null);
     } catch (err) {
       console.error("Error fetching Google Drive files:", err);
       toast.error(`Failed to fetch files: ${err instanceof Error ? err.message : 'Unknown error'}`);
     } finally {
       setIsLoading(false);
+      setIsLoadingMore(false);
     }
   };
   
+  const toggleFile = (file: GoogleDriveFile) => {
+    setSelectedFiles(prev => {
+      const next = { ...prev };
+      if (next[file.id]) {
+        delete next[file.id];
+      } else {
+        next[file.id] = file;
+      }
+      return next;
+    });
+  };
+  
+  const selectedList = Object.values(selectedFiles);
+  
+  const handleImport = async () => {
+    if (!selectedProject || selectedList.length === 0) return;
+    
+    await importFiles(selectedProject, selectedList.map(file => ({ id: file.id, name: file.name })));
+    setSelectedFiles({});
+  };
+  
   const navigateToFolder = (folderId: string, folderName: string) => {
+    setSearchQuery('');
+    setDebouncedSearch('');
     setCurrentFolder(folderId);
     setFolderStack([...folderStack, { id: folderId, name: folderName }]);
   };
@@ -103,8 +161,10 @@ const GoogleDriveImport = () => {
   };
   
   const getMimeTypeIcon = (mimeType: string) => {
-    if (mimeType === 'application/vnd.google-apps.folder') {
+    if (mimeType === FOLDER_MIME_TYPE) {
       return <FolderOpen className="h-6 w-6 text-blue-500" />;
+    } else if (mimeType.startsWith('image/')) {
+      return <Image className="h-6 w-6 text-purple-500" />;
     } else if (mimeType.includes('pdf')) {
       return <FileText className="h-6 w-6 text-red-500" />;
     } else if (mimeType.includes('document')) {
@@ -217,7 +277,7 @@ const GoogleDriveImport = () => {
             
             <h1 className="text-3xl font-bold tracking-tight">Google Drive Files</h1>
             <p className="text-muted-foreground mt-2">
-              Browse and import files from your Google Drive
+              Select PDFs, Google Docs, Slides, Sheets and images to import into a brain
             </p>
           </div>
           
@@ -276,7 +336,7 @@ const GoogleDriveImport = () => {
                 <Input
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
-                  placeholder="Search files..."
+                  placeholder="Search all of Drive..."
                   className="pl-9 pr-9 w-full"
                 />
                 {searchQuery && (
@@ -298,13 +358,14 @@ const GoogleDriveImport = () => {
               <div className="py-12 flex justify-center">
                 <Loader2 className="h-8 w-8 animate-spin text-primary" />
               </div>
-            ) : filteredFiles.length === 0 ? (
+            ) : files.length === 0 ? (
               <div className="py-12 text-center text-muted-foreground">
                 {searchQuery ? 'No files match your search query' : 'No files found in this folder'}
               </div>
             ) : (
               <div className="border rounded-md">
-                <div className="grid grid-cols-[auto_1fr_auto_auto] gap-4 p-3 border-b bg-muted/50 font-medium text-sm">
+                <div className="grid grid-cols-[auto_auto_1fr_auto_auto] gap-4 p-3 border-b bg-muted/50 font-medium text-sm">
+                  <div className="w-4"></div>
                   <div className="w-10"></div>
                   <div>Name</div>
                   <div className="w-32 text-right">Size</div>
@@ -313,9 +374,10 @@ const GoogleDriveImport = () => {
                 
                 {folderStack.length > 1 && !searchQuery && (
                   <div 
-                    className="grid grid-cols-[auto_1fr_auto_auto] gap-4 p-3 border-b hover:bg-muted/50 cursor-pointer"
+                    className="grid grid-cols-[auto_auto_1fr_auto_auto] gap-4 p-3 border-b hover:bg-muted/50 cursor-pointer"
                     onClick={navigateUp}
                   >
+                    <div className="w-4"></div>
                     <div className="flex justify-center">
                       <FolderOpen className="h-6 w-6 text-blue-500" />
                     </div>
@@ -327,36 +389,125 @@ const GoogleDriveImport = () => {
                   </div>
                 )}
                 
-                {filteredFiles.map((file) => (
-                  <div 
-                    key={file.id}
-                    className="grid grid-cols-[auto_1fr_auto_auto] gap-4 p-3 border-b hover:bg-muted/50 cursor-pointer"
-                    onClick={() => {
-                      if (file.mimeType === 'application/vnd.google-apps.folder') {
-                        navigateToFolder(file.id, file.name);
-                      } else {
-                        window.open(file.webViewLink, '_blank');
-                      }
-                    }}
-                  >
-                    <div className="flex justify-center">
-                      {getMimeTypeIcon(file.mimeType)}
-                    </div>
-                    <div className="flex items-center truncate">
-                      <span className="truncate">{file.name}</span>
-                    </div>
-                    <div className="text-right text-sm text-muted-foreground">
-                      {file.mimeType === 'application/vnd.google-apps.folder' 
-                        ? '—' 
-                        : formatFileSize(file.size)}
-                    </div>
-                    <div className="text-right text-sm text-muted-foreground">
-                      {formatDate(file.modifiedTime)}
+                {files.map((file) => {
+                  const isFolder = file.mimeType === FOLDER_MIME_TYPE;
+                  const canImport = isImportable(file.mimeType);
+                  
+                  return (
+                    <div 
+                      key={file.id}
+                      className="grid grid-cols-[auto_auto_1fr_auto_auto] gap-4 p-3 border-b hover:bg-muted/50 cursor-pointer"
+                      onClick={() => {
+                        if (isFolder) {
+                          navigateToFolder(file.id, file.name);
+                        } else if (canImport) {
+                          toggleFile(file);
+                        }
+                      }}
+                    >
+                      <div className="flex items-center w-4" onClick={(e) => e.stopPropagation()}>
+                        {canImport && (
+                          <Checkbox
+                            checked={!!selectedFiles[file.id]}
+                            onCheckedChange={() => toggleFile(file)}
+                            aria-label={`Select ${file.name}`}
+                          />
+                        )}
+                      </div>
+                      <div className="flex justify-center">
+                        {getMimeTypeIcon(file.mimeType)}
+                      </div>
+                      <div className={`flex items-center gap-2 truncate ${!isFolder && !canImport ? 'text-muted-foreground' : ''}`}>
+                        <span className="truncate">{file.name}</span>
+                        {!isFolder && file.webViewLink && (
+                          <a
+                            href={file.webViewLink}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            onClick={(e) => e.stopPropagation()}
+                            className="text-muted-foreground hover:text-foreground"
+                            aria-label={`Open ${file.name} in Google Drive`}
+                          >
+                            <ExternalLink className="h-3.5 w-3.5" />
+                          </a>
+                        )}
+                      </div>
+                      <div className="text-right text-sm text-muted-foreground">
+                        {isFolder ? '—' : formatFileSize(file.size)}
+                      </div>
+                      <div className="text-right text-sm text-muted-foreground">
+                        {formatDate(file.modifiedTime)}
+                      </div>
                     </div>
+                  );
+                })}
+                
+                {nextPageToken && (
+                  <div className="p-3 flex justify-center">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => fetchFiles(currentFolder, nextPageToken)}
+                      disabled={isLoadingMore}
+                    >
+                      {isLoadingMore && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                      Load more
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+        
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle>Import into a brain</CardTitle>
+            <CardDescription>
+              PDFs and Google files become documents and have their text extracted; images go to the brain's gallery
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-end">
+              <ProjectSelector
+                userProjects={userProjects}
+                selectedProject={selectedProject}
+                setSelectedProject={setSelectedProject}
+              />
+              <div className="mb-6 flex items-center justify-between gap-4">
+                <span className="text-sm text-muted-foreground">
+                  {selectedList.length} {selectedList.length === 1 ? 'file' : 'files'} selected
+                </span>
+                <Button
+                  onClick={handleImport}
+                  disabled={!selectedProject || selectedList.length === 0 || isImporting}
+                >
+                  {isImporting ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Import className="h-4 w-4 mr-2" />}
+                  Import
+                </Button>
+              </div>
+            </div>
+            
+            {importItems.length > 0 && (
+              <div className="border rounded-md divide-y">
+                {importItems.map(item => (
+                  <div key={item.fileId} className="flex items-center gap-3 p-3 text-sm">
+                    {STATUS_ICONS[item.status]}
+                    <span className="truncate flex-1">{item.name}</span>
+                    <span className={item.status === 'failed' ? 'text-destructive' : 'text-muted-foreground'}>
+                      {item.status === 'failed' ? item.error : item.status}
+                    </span>
                   </div>
                 ))}
               </div>
             )}
+            
+            {!isImporting && selectedProject && importItems.some(item => item.status === 'imported') && (
+              <Button variant="outline" onClick={() => navigate(`/project/${selectedProject}`)}>
+                Open brain
+                <ArrowRight className="ml-2 h-4 w-4" />
+              </Button>
+            )}
           </CardContent>
         </Card>
       </main>
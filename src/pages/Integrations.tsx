@@ -5,7 +5,7 @@ import Navbar from '@/components/Navbar';
 import FooterSection from '@/components/landing/FooterSection';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
-import { Check, ExternalLink, Import, Link2 } from 'lucide-react';
+import { Check, ExternalLink, FolderArchive, Import, Link2 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import useNotionConnection from '@/hooks/useNotionConnection';
 import useGoogleDriveConnection from '@/hooks/useGoogleDriveConnection';
@@ -44,6 +44,16 @@ const Integrations = () => {
       isConnected: isGoogleDriveConnected,
       connectPath: '/google-drive-connect',
       importPath: '/google-drive-import'
+    },
+    {
+      id: 'markdown-vault',
+      name: 'Obsidian / Markdown',
+      description: 'Import a zipped Obsidian vault or folder of Markdown notes',
+      icon: <FolderArchive className="h-12 w-12" />,
+      // Nothing to connect: the vault is uploaded as a zip
+      isConnected: false,
+      connectPath: null,
+      importPath: '/vault-import'
     }
     // More integrations can be added here in the future
   ];
@@ -89,7 +99,15 @@ const Integrations = () => {
                 </ul>
               </CardContent>
               <CardFooter className="pt-3">
-                {integration.isConnected ? (
+                {!integration.connectPath ? (
+                  <Button 
+                    onClick={() => navigate(integration.importPath)} 
+                    className="w-full"
+                  >
+                    <Import className="mr-2 h-4 w-4" />
+                    Import
+                  </Button>
+                ) : integration.isConnected ? (
                   <div className="flex gap-3 w-full">
                     <Button 
                       variant="outline" 
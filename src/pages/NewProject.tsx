@@ -1,5 +1,5 @@
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import Navbar from '@/components/Navbar';
 import { Button } from '@/components/ui/button';
@@ -14,14 +14,21 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { toast } from "sonner";
-import { ArrowLeft, Info, Loader2 } from 'lucide-react';
+import { ArrowLeft, Info, Loader2, Upload } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { useQuotaPrompt } from '@/hooks/useQuotaPrompt';
 import { supabase } from '@/integrations/supabase/client';
+import { BrainArchiveError, importBrain } from '@/utils/brainArchive';
 
 const NewProject = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { currentWorkspace } = useWorkspace();
   const [loading, setLoading] = useState(false);
+  const [importProgress, setImportProgress] = useState<string | null>(null);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
+  const promptQuota = useQuotaPrompt();
   const [formData, setFormData] = useState({
     title: '',
     description: '',
@@ -59,6 +66,7 @@ const NewProject = () => {
           description: formData.description.trim(),
           ai_persona: formData.aiPersona.trim(),
           owner_id: user.id,
+          workspace_id: currentWorkspace?.id ?? null,
         })
         .select()
         .single();
@@ -69,12 +77,48 @@ const NewProject = () => {
       navigate(`/project/${data.id}`);
     } catch (error: any) {
       console.error("Error creating brain:", error);
-      toast.error(error.message || "Failed to create brain. Please try again.");
+      if (!(await promptQuota(error))) {
+        toast.error(error.message || "Failed to create brain. Please try again.");
+      }
     } finally {
       setLoading(false);
     }
   };
 
+  const handleImportArchive = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+
+    if (!file) return;
+
+    if (!user) {
+      toast.error("You must be logged in to import a brain");
+      return;
+    }
+
+    setImportProgress('Reading archive…');
+
+    try {
+      const { projectId, skippedFiles } = await importBrain(file, user.id, setImportProgress, currentWorkspace?.id ?? null);
+
+      if (skippedFiles > 0) {
+        toast.warning(`Brain imported, but ${skippedFiles} ${skippedFiles === 1 ? 'file' : 'files'} could not be uploaded`);
+      } else {
+        toast.success("Brain imported successfully!");
+      }
+      navigate(`/project/${projectId}`);
+    } catch (error) {
+      console.error("Error importing brain:", error);
+      if (!(await promptQuota(error))) {
+        toast.error(error instanceof BrainArchiveError ? error.message : "Failed to import brain. Please try again.");
+      }
+    } finally {
+      setImportProgress(null);
+    }
+  };
+
+  const isBusy = loading || importProgress !== null;
+
   return (
     <div className="min-h-screen bg-background pb-12 animate-fade-in">
       <Navbar />
@@ -93,7 +137,9 @@ const NewProject = () => {
           
           <h1 className="text-3xl font-bold">Create a New Brain</h1>
           <p className="text-muted-foreground mt-1">
-            Set up your brain and start collaborating with your team
+            {currentWorkspace
+              ? `Everyone in ${currentWorkspace.name} will be able to work in this brain`
+              : 'Set up your brain and start collaborating with your team'}
           </p>
         </div>
         
@@ -171,18 +217,52 @@ const NewProject = () => {
                 type="button"
                 variant="outline"
                 onClick={() => navigate('/dashboard')}
-                disabled={loading}
+                disabled={isBusy}
               >
                 Cancel
               </Button>
               
-              <Button type="submit" disabled={loading}>
+              <Button type="submit" disabled={isBusy}>
                 {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
                 Create Brain
               </Button>
             </CardFooter>
           </form>
         </Card>
+
+        <Card className="shadow-sm mt-6">
+          <CardHeader>
+            <CardTitle>Import a Brain</CardTitle>
+            <CardDescription>
+              Recreate a brain from a .zip archive exported from another brain, including its notes, updates, documents and images
+            </CardDescription>
+          </CardHeader>
+          <CardFooter className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              {importProgress || 'Tags, favorites and important flags are kept'}
+            </p>
+            <input
+              ref={archiveInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              className="hidden"
+              onChange={handleImportArchive}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => archiveInputRef.current?.click()}
+              disabled={isBusy}
+            >
+              {importProgress ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Upload className="h-4 w-4 mr-2" />
+              )}
+              Import Archive
+            </Button>
+          </CardFooter>
+        </Card>
       </main>
     </div>
   );
@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import Navbar from '@/components/Navbar';
+import FooterSection from '@/components/landing/FooterSection';
+import SubscriptionInfo from '@/components/subscription/SubscriptionInfo';
+import ProPlanBenefits from '@/components/subscription/ProPlanBenefits';
+import BillingSection from '@/components/subscription/BillingSection';
+import { getUserStats, storeUserStats } from '@/utils/userStatsStore';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSubscription } from '@/hooks/useSubscription';
+import { supabase } from '@/integrations/supabase/client';
+import { UserStats } from '@/types/user';
+
+// The plan, its limits and this month's usage, and the billing history of
+// subscribers; upgrade prompts link here
+const Subscription = () => {
+  const { user } = useAuth();
+  const {
+    planDetails,
+    userSubscription,
+    isLoading,
+    error,
+    upgradeToProPlan,
+    isUpgrading,
+    openBillingPortal,
+    isOpeningPortal
+  } = useSubscription();
+  const [stats, setStats] = useState<UserStats>(getUserStats());
+  const isPro = planDetails?.plan_type === 'pro';
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchStats = async () => {
+      const { data, error: functionError } = await supabase.functions.invoke('user-statistics', {
+        body: { userId: user.id },
+      });
+
+      if (functionError || !data || data.status === 'error') {
+        console.error('Error fetching user statistics:', functionError || data?.error);
+        return;
+      }
+
+      setStats(storeUserStats(data));
+    };
+
+    fetchStats();
+  }, [user]);
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Navbar />
+
+      <main className="flex-1 container max-w-3xl mx-auto py-12 px-4 pt-32">
+        <h1 className="text-3xl font-bold tracking-tight mb-2">Subscription</h1>
+        <p className="text-muted-foreground mb-8">
+          Your plan, its limits and what you have used this month
+        </p>
+
+        <SubscriptionInfo
+          planDetails={planDetails}
+          isLoading={isLoading}
+          error={error}
+          userBrainCount={stats.ownedBrains}
+          apiCallsUsed={stats.apiCalls}
+          usage={stats.usage}
+          quotas={stats.quotas}
+          upgradeToProPlan={upgradeToProPlan}
+          isUpgrading={isUpgrading}
+        />
+
+        {userSubscription?.status && (
+          <BillingSection onManageBilling={() => openBillingPortal()} isOpeningPortal={isOpeningPortal} />
+        )}
+
+        {!(isPro && userSubscription?.status) && <ProPlanBenefits isPro={isPro} />}
+      </main>
+
+      <FooterSection />
+    </div>
+  );
+};
+
+export default Subscription;
@@ -0,0 +1,112 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import Navbar from '@/components/Navbar';
+import FooterSection from '@/components/landing/FooterSection';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Brain, FileText, Image, Loader2, RotateCcw, StickyNote, Trash2 } from 'lucide-react';
+import { useTrash } from '@/hooks/useTrash';
+import { daysUntilPurge, TRASH_ITEM_LABELS, TRASH_RETENTION_DAYS, TrashItem, TrashItemType } from '@/utils/trashUtils';
+
+const ITEM_ICONS: Record<TrashItemType, React.ReactNode> = {
+  project: <Brain className="h-5 w-5 text-muted-foreground" />,
+  note: <StickyNote className="h-5 w-5 text-muted-foreground" />,
+  document: <FileText className="h-5 w-5 text-muted-foreground" />,
+  image: <Image className="h-5 w-5 text-muted-foreground" />,
+};
+
+const Trash = () => {
+  const { items, loading, busyId, restore, deleteForever } = useTrash();
+
+  const handleDeleteForever = (item: TrashItem) => {
+    const message = item.item_type === 'project'
+      ? `Permanently delete "${item.title}" and everything in it? This cannot be undone.`
+      : `Permanently delete "${item.title}"? This cannot be undone.`;
+
+    if (window.confirm(message)) {
+      deleteForever(item);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Navbar />
+
+      <main className="flex-1 container max-w-4xl mx-auto py-12 px-4 pt-32">
+        <h1 className="text-3xl font-bold tracking-tight mb-2">Trash</h1>
+        <p className="text-muted-foreground mb-8">
+          Deleted brains, notes, documents and images are kept for {TRASH_RETENTION_DAYS} days before they are removed for good
+        </p>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : items.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+              <Trash2 className="h-10 w-10 text-muted-foreground mb-3" />
+              <p className="font-medium">The trash is empty</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="divide-y p-0">
+              {items.map(item => {
+                const daysLeft = daysUntilPurge(item.deleted_at);
+                const isBusy = busyId === item.id;
+
+                return (
+                  <div key={`${item.item_type}-${item.id}`} className="flex flex-col sm:flex-row sm:items-center gap-3 p-4">
+                    <div className="flex items-start gap-3 flex-1 min-w-0">
+                      {ITEM_ICONS[item.item_type]}
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium truncate">{item.title || 'Untitled'}</span>
+                          <Badge variant="secondary">{TRASH_ITEM_LABELS[item.item_type]}</Badge>
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          {item.item_type !== 'project' && <>In {item.project_title} · </>}
+                          Deleted {formatDistanceToNow(new Date(item.deleted_at), { addSuffix: true })}
+                          {item.deleted_by_name && <> by {item.deleted_by_name}</>}
+                          {' · '}
+                          {daysLeft === 0 ? 'Removed today' : `${daysLeft} ${daysLeft === 1 ? 'day' : 'days'} left`}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex gap-2 sm:ml-auto">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isBusy}
+                        onClick={() => restore(item)}
+                      >
+                        {isBusy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-2" />}
+                        Restore
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive hover:text-destructive"
+                        disabled={isBusy}
+                        onClick={() => handleDeleteForever(item)}
+                      >
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Delete forever
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+
+      <FooterSection />
+    </div>
+  );
+};
+
+export default Trash;
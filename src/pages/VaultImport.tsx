@@ -0,0 +1,225 @@
+import React, { useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import Navbar from '@/components/Navbar';
+import FooterSection from '@/components/landing/FooterSection';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertTriangle, ArrowLeft, FileText, Image, Link2, Loader2, Upload } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import ProjectSelector from '@/components/notion-import/ProjectSelector';
+import { useNotionProjects } from '@/hooks/useNotionProjects';
+import { importVault, planVaultImport, VaultImportError, VaultImportPlan } from '@/utils/vaultImport';
+
+const VaultImport = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { userProjects = [] } = useNotionProjects();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [selectedProject, setSelectedProject] = useState<string | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [plan, setPlan] = useState<VaultImportPlan | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [importProgress, setImportProgress] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setPlan(null);
+    setIsPlanning(true);
+
+    try {
+      setPlan(await planVaultImport(file));
+    } catch (error) {
+      console.error('Error reading vault:', error);
+      toast.error(error instanceof VaultImportError ? error.message : 'Failed to read the archive');
+      setFileName(null);
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan || !selectedProject || !user) return;
+
+    setImportProgress('Starting import…');
+
+    try {
+      const { notesCreated, imagesUploaded, failedImages } = await importVault(plan, selectedProject, user.id, setImportProgress);
+
+      const summary = `Imported ${notesCreated} notes and ${imagesUploaded} images`;
+      if (failedImages > 0) {
+        toast.warning(`${summary}; ${failedImages} images could not be uploaded`);
+      } else {
+        toast.success(summary);
+      }
+      navigate(`/project/${selectedProject}`);
+    } catch (error) {
+      console.error('Error importing vault:', error);
+      toast.error(error.message || 'Failed to import the vault');
+    } finally {
+      setImportProgress(null);
+    }
+  };
+
+  const isImporting = importProgress !== null;
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Navbar />
+
+      <main className="flex-1 container max-w-5xl mx-auto py-12 px-4 pt-32">
+        <div className="mb-6">
+          <Button
+            variant="ghost"
+            onClick={() => navigate('/integrations')}
+            className="flex items-center text-muted-foreground mb-4"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Integrations
+          </Button>
+
+          <h1 className="text-3xl font-bold tracking-tight">Import a Markdown vault</h1>
+          <p className="text-muted-foreground mt-2">
+            Upload a zip of an Obsidian vault or any folder of Markdown files. Each file becomes a note, folders and front-matter tags become tags, and embedded images go to the brain's gallery.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+          <div>
+            <ProjectSelector
+              userProjects={userProjects}
+              selectedProject={selectedProject}
+              setSelectedProject={setSelectedProject}
+            />
+
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isPlanning || isImporting}
+            >
+              {isPlanning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              {fileName ? 'Choose another zip' : 'Choose a zip'}
+            </Button>
+            {fileName && <p className="text-sm text-muted-foreground mt-2 truncate">{fileName}</p>}
+          </div>
+
+          <div className="md:col-span-2">
+            {plan ? (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Preview</CardTitle>
+                  <CardDescription>Nothing has been imported yet. Check what will be created, then import.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-3 gap-3 text-center">
+                    <div className="rounded-md border p-3">
+                      <FileText className="h-5 w-5 mx-auto text-muted-foreground" />
+                      <p className="text-2xl font-semibold">{plan.notes.length}</p>
+                      <p className="text-xs text-muted-foreground">notes</p>
+                    </div>
+                    <div className="rounded-md border p-3">
+                      <Image className="h-5 w-5 mx-auto text-muted-foreground" />
+                      <p className="text-2xl font-semibold">{plan.images.length}</p>
+                      <p className="text-xs text-muted-foreground">images</p>
+                    </div>
+                    <div className="rounded-md border p-3">
+                      <Link2 className="h-5 w-5 mx-auto text-muted-foreground" />
+                      <p className="text-2xl font-semibold">{plan.notes.reduce((total, note) => total + note.linkCount, 0)}</p>
+                      <p className="text-xs text-muted-foreground">links</p>
+                    </div>
+                  </div>
+
+                  {(plan.unresolvedLinks.length > 0 || plan.missingImages.length > 0 || plan.skippedFiles.length > 0) && (
+                    <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800 space-y-1">
+                      <div className="flex items-center font-medium">
+                        <AlertTriangle className="h-4 w-4 mr-2" />
+                        Some content will not come across
+                      </div>
+                      {plan.unresolvedLinks.length > 0 && (
+                        <p>
+                          {plan.unresolvedLinks.length} links point to notes that are not in the vault and will become plain text
+                          {' '}({[...new Set(plan.unresolvedLinks.map(link => link.target))].slice(0, 5).join(', ')}
+                          {plan.unresolvedLinks.length > 5 ? ', …' : ''})
+                        </p>
+                      )}
+                      {plan.missingImages.length > 0 && (
+                        <p>{plan.missingImages.length} embedded images are missing from the zip</p>
+                      )}
+                      {plan.skippedFiles.length > 0 && (
+                        <p>{plan.skippedFiles.length} files are neither notes nor embedded images and will be skipped</p>
+                      )}
+                    </div>
+                  )}
+
+                  <ScrollArea className="h-80 rounded-md border">
+                    <div className="divide-y">
+                      {plan.notes.map(note => (
+                        <div key={note.path} className="p-3">
+                          <div className="flex items-center justify-between gap-3">
+                            <span className="font-medium truncate">{note.title}</span>
+                            <span className="text-xs text-muted-foreground whitespace-nowrap">
+                              {note.linkCount > 0 && `${note.linkCount} links`}
+                              {note.linkCount > 0 && note.imagePaths.length > 0 && ' · '}
+                              {note.imagePaths.length > 0 && `${note.imagePaths.length} images`}
+                            </span>
+                          </div>
+                          <p className="text-xs text-muted-foreground truncate">{note.path}</p>
+                          {note.tags.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {note.tags.map(tag => (
+                                <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                </CardContent>
+                <CardFooter className="flex items-center justify-between gap-4">
+                  <p className="text-sm text-muted-foreground">
+                    {importProgress || (!selectedProject ? 'Select a brain to import into' : '')}
+                  </p>
+                  <Button onClick={handleImport} disabled={!selectedProject || isImporting}>
+                    {isImporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Import {plan.notes.length} notes
+                  </Button>
+                </CardFooter>
+              </Card>
+            ) : (
+              <Card>
+                <CardContent className="flex flex-col items-center justify-center py-16 text-center text-muted-foreground">
+                  {isPlanning ? (
+                    <Loader2 className="h-8 w-8 animate-spin mb-3" />
+                  ) : (
+                    <FileText className="h-8 w-8 mb-3" />
+                  )}
+                  <p>{isPlanning ? 'Reading the vault…' : 'Choose a zip to preview what will be imported'}</p>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </main>
+
+      <FooterSection />
+    </div>
+  );
+};
+
+export default VaultImport;
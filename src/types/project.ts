@@ -1,9 +1,12 @@
 
+// Keep in sync with ProjectRole in supabase/functions/_shared/auth.ts
+export type ProjectRole = 'owner' | 'admin' | 'editor' | 'viewer';
+
 export interface ProjectMember {
   id: string;
   name: string;
   email: string;
-  role: 'owner' | 'admin' | 'editor' | 'viewer';
+  role: ProjectRole;
   avatar?: string;
 }
 
@@ -17,10 +20,16 @@ export interface Project {
 }
 
 export interface UploadedImage {
+  id: string;
   url: string;
   path: string;
   size: number;
   name: string;
   createdAt: Date;
+  width?: number | null;
+  height?: number | null;
+  caption?: string | null;
+  uploadedBy?: string;
   summary?: string;
+  tags?: Array<{ id: string; tag: string }>;
 }
@@ -9,6 +9,7 @@ export interface SubscriptionTier {
   max_api_calls: number;
   max_brains: number;
   max_documents: number;
+  max_storage_bytes: number;
   features: string[];
   is_default: boolean;
 }
@@ -20,4 +21,47 @@ export interface UserSubscription {
   is_active: boolean;
   trial_ends_at: string | null;
   created_at: string;
+  // Mirrored from Stripe by process-stripe-webhook; null without a Stripe subscription
+  status: string | null;
+  current_period_end: string | null;
+  cancel_at_period_end: boolean;
+  grace_period_ends_at: string | null;
+}
+
+// The card on file, as mirrored from Stripe; only its display details are kept
+export interface PaymentMethodSummary {
+  brand: string;
+  last4: string;
+  exp_month: number;
+  exp_year: number;
+}
+
+export type InvoiceStatus = 'draft' | 'open' | 'paid' | 'uncollectible' | 'void';
+
+// A Stripe invoice mirrored into billing_invoices. Amounts are in the
+// smallest currency unit.
+export interface BillingInvoice {
+  id: string;
+  number: string | null;
+  status: InvoiceStatus;
+  currency: string;
+  amount_due: number;
+  amount_paid: number;
+  amount_refunded: number;
+  period_start: string | null;
+  period_end: string | null;
+  hosted_invoice_url: string | null;
+  invoice_pdf: string | null;
+  receipt_url: string | null;
+  created_at: string;
+}
+
+// What the billing section shows about a user's or workspace's subscription
+export interface BillingSummary {
+  status: string | null;
+  current_period_end: string | null;
+  cancel_at_period_end: boolean;
+  trial_ends_at: string | null;
+  grace_period_ends_at: string | null;
+  payment_method: PaymentMethodSummary | null;
 }
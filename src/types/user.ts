@@ -1,10 +1,45 @@
 
+// Keep in sync with UsageFeature in supabase/functions/_shared/usage.ts;
+// 'other' collects calls recorded before usage was metered
+export type UsageFeature = 'chat' | 'summary' | 'clean' | 'metadata' | 'image_analysis' | 'indexing' | 'other';
+
+export type UsageTotals = {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+};
+
+// Model usage for the current month, as returned by user-statistics
+export type UsageBreakdown = {
+  totals: UsageTotals;
+  today: UsageTotals;
+  byFeature: (UsageTotals & { feature: UsageFeature })[];
+  // A null projectId collects calls outside a brain and deleted brains
+  byProject: (UsageTotals & { projectId: string | null; projectName: string | null })[];
+  byDay: (UsageTotals & { day: string; tokensByFeature: Partial<Record<UsageFeature, number>> })[];
+};
+
+// Keep in sync with QuotaName in supabase/functions/_shared/quotas.ts
+export type QuotaName = 'brains' | 'documents' | 'storage' | 'api_calls';
+
+// A plan limit the server enforces and how much of it is used; storage is in bytes
+export type QuotaStatus = {
+  quota: QuotaName;
+  planType: string | null;
+  limit: number | null; // null means not enforced
+  used: number;
+  overridden: boolean; // Raised or lowered by an admin
+};
+
 export type UserStats = {
   apiCalls: number;
   dailyApiCalls: number; // New field for daily tracking
   ownedBrains: number;
   sharedBrains: number;
   documents: number;
+  usage?: UsageBreakdown | null;
+  quotas?: QuotaStatus[];
 };
 
 export type UserFeatures = {
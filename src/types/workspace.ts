@@ -0,0 +1,22 @@
+import { SubscriptionPlan } from './subscription';
+
+// Keep in sync with WorkspaceRole in supabase/functions/_shared/workspaces.ts
+export type WorkspaceRole = 'owner' | 'admin' | 'member';
+
+// A team workspace as seen by one of its members
+export interface Workspace {
+  id: string;
+  name: string;
+  plan_type: SubscriptionPlan;
+  is_active: boolean;
+  seats: number;
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceMember {
+  user_id: string;
+  role: WorkspaceRole;
+  created_at: string;
+  email: string | null;
+  full_name: string | null;
+}
@@ -11,6 +11,21 @@
 export type ModelType = 'claude' | 'openai';
 export type PromptType = 'summary' | 'tagging' | 'formatting' | 'metadata' | 'chat' | 'image' | 'pdf';
 
+// Keep in sync with ModelType in supabase/functions/_shared/models.ts
+export const MODEL_TYPES: ModelType[] = ['claude', 'openai'];
+
+// Used when neither the user nor the brain settings pick a model
+export const DEFAULT_MODEL: ModelType = 'claude';
+
+export const MODEL_LABELS: Record<ModelType, string> = {
+  claude: 'Claude',
+  openai: 'OpenAI (GPT-4o mini)'
+};
+
+export function isModelType(value: unknown): value is ModelType {
+  return typeof value === 'string' && (MODEL_TYPES as string[]).includes(value);
+}
+
 // Text processing prompts
 export const textPrompts = {
   // Summarization prompts
@@ -114,7 +129,7 @@ FORMAT YOUR SUMMARY AS CLEAN MARKDOWN with these exact section headings. Maintai
 // Helper function to get the appropriate prompt
 export function getPrompt(
   type: PromptType, 
-  model: ModelType = 'claude', 
+  model: ModelType = DEFAULT_MODEL, 
   subtype?: string,
   params?: Record<string, any>
 ): string {
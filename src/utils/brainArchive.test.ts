@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import {
+  BrainArchive,
+  noteToMarkdown,
+  parseNoteMarkdown,
+  parseUpdatesLog,
+  readBrainArchive,
+  uniqueArchiveName,
+  updatesToLog,
+  writeBrainArchive
+} from './brainArchive';
+
+const note = {
+  title: 'Launch plan: Q3',
+  content: '# Goals\n\n---\n\nShip it.',
+  tags: ['launch', 'q3'],
+  is_favorite: true,
+  is_important: false,
+  is_archived: false,
+  created_at: '2026-10-01T09:00:00.000Z',
+  source_document: { type: 'pdf', url: 'https://cdn.example/plan.pdf', name: 'plan.pdf' },
+};
+
+describe('note Markdown', () => {
+  it('round-trips title, tags, flags and the source document', () => {
+    const markdown = noteToMarkdown(note);
+
+    expect(markdown.startsWith('---\ntitle: "Launch plan: Q3"\ntags: ["launch","q3"]\n')).toBe(true);
+    expect(parseNoteMarkdown(markdown, 'fallback')).toEqual(note);
+  });
+
+  it('reads hand-written front-matter and plain Markdown files', () => {
+    expect(parseNoteMarkdown('---\ntitle: Ideas\ntags: [a, b]\nis_important: true\n---\nBody', 'x')).toMatchObject({
+      title: 'Ideas',
+      content: 'Body',
+      tags: ['a', 'b'],
+      is_important: true,
+    });
+    expect(parseNoteMarkdown('Just text', 'Scratch')).toMatchObject({ title: 'Scratch', content: 'Just text', tags: [] });
+  });
+});
+
+describe('updates log', () => {
+  it('writes updates oldest first and reads them back', () => {
+    const updates = [
+      { content: 'Second', created_at: '2026-10-02T10:00:00+00:00', tags: [], is_important: true, is_archived: false },
+      { content: 'First\n\nwith two paragraphs', created_at: '2026-10-01T10:00:00.000Z', tags: ['kickoff'], is_important: false, is_archived: false },
+    ];
+
+    const log = updatesToLog(updates);
+
+    expect(log.indexOf('First')).toBeLessThan(log.indexOf('Second'));
+    expect(parseUpdatesLog(log)).toEqual([
+      { ...updates[1] },
+      { ...updates[0], created_at: '2026-10-02T10:00:00.000Z' },
+    ]);
+  });
+});
+
+describe('uniqueArchiveName', () => {
+  it('strips unsafe characters and numbers duplicates', () => {
+    const used = new Set<string>();
+
+    expect(uniqueArchiveName('a/b: c?.md', used)).toBe('a-b- c-.md');
+    expect(uniqueArchiveName('Notes.md', used)).toBe('Notes.md');
+    expect(uniqueArchiveName('notes.md', used)).toBe('notes (2).md');
+  });
+});
+
+describe('brain archives', () => {
+  const archive: BrainArchive = {
+    project: { title: 'Research', description: 'Papers', ai_persona: null, default_model: null, is_favorite: true },
+    notes: [
+      { ...note, summary: 'A plan to ship in Q3' },
+      { ...note, title: 'Launch plan: Q3', tags: [], source_document: null, created_at: undefined },
+    ],
+    updates: [{ content: 'Kickoff', created_at: '2026-10-01T10:00:00.000Z', tags: [], is_important: false, is_archived: false }],
+    documents: [{ name: 'paper.pdf', document_type: 'pdf', is_favorite: false, is_important: true, is_archived: false, data: new Uint8Array([37, 80, 68, 70]) }],
+    images: [{
+      name: 'chart.png', mime_type: 'image/png', caption: null, width: 10, height: 20, tags: ['figure'],
+      is_favorite: false, is_important: false, is_archived: false, summary: 'A bar chart', data: new Uint8Array([1, 2, 3])
+    }],
+  };
+
+  it('keeps everything across a write and read', async () => {
+    const restored = await readBrainArchive(await writeBrainArchive(archive));
+
+    expect(restored.project).toEqual(archive.project);
+    expect(restored.notes).toHaveLength(2);
+    expect(restored.notes.find(restoredNote => restoredNote.summary)).toEqual({ ...note, summary: 'A plan to ship in Q3' });
+    expect(restored.updates).toEqual(archive.updates);
+    expect(restored.documents[0]).toMatchObject({ name: 'paper.pdf', is_important: true });
+    expect(Array.from(restored.documents[0].data)).toEqual([37, 80, 68, 70]);
+    expect(restored.images[0]).toMatchObject({ name: 'chart.png', tags: ['figure'], summary: 'A bar chart', width: 10 });
+  });
+
+  it('lays out files people can browse', async () => {
+    const zip = await JSZip.loadAsync(await writeBrainArchive(archive));
+
+    expect(Object.keys(zip.files).filter(path => !zip.files[path].dir).sort()).toEqual([
+      'brain.json',
+      'documents/paper.pdf',
+      'images/chart.png',
+      'images/chart.png.summary.md',
+      'notes/Launch plan- Q3 (2).md',
+      'notes/Launch plan- Q3.md',
+      'notes/Launch plan- Q3.summary.md',
+      'updates.md',
+    ]);
+  });
+
+  it('accepts archives that were re-zipped inside a folder', async () => {
+    const original = await JSZip.loadAsync(await writeBrainArchive(archive));
+    const nested = new JSZip();
+    for (const [path, file] of Object.entries(original.files)) {
+      if (!file.dir) nested.file(`Research/${path}`, await file.async('uint8array'));
+    }
+
+    const restored = await readBrainArchive(await nested.generateAsync({ type: 'uint8array' }));
+
+    expect(restored.notes).toHaveLength(2);
+    expect(restored.images[0].summary).toBe('A bar chart');
+  });
+
+  it('rejects zips that are not brain archives', async () => {
+    const zip = new JSZip();
+    zip.file('readme.txt', 'hello');
+
+    await expect(readBrainArchive(await zip.generateAsync({ type: 'uint8array' }))).rejects.toThrow('brain.json');
+    await expect(readBrainArchive(new Uint8Array([1, 2, 3]))).rejects.toThrow('not a zip');
+  });
+});
@@ -0,0 +1,686 @@
+import JSZip from 'jszip';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { sanitizeFileName } from '@/components/image-upload/utils/imageProcessing';
+import { IMAGES_BUCKET, createProjectImage, getImageUrl } from '@/utils/imageUtils';
+
+// A brain archive is a zip that people can read without the app:
+//
+//   brain.json                  manifest: brain settings, documents and images
+//   notes/<title>.md            one note per file, flags in the front-matter
+//   notes/<title>.summary.md    the note's AI summary, when it has one
+//   updates.md                  every update as a dated log, oldest first
+//   documents/<file>            documents as they were uploaded
+//   images/<file>               images as they were uploaded
+//   images/<file>.summary.md    the image's AI summary, when it has one
+
+export const BRAIN_ARCHIVE_FORMAT = 'brain-archive';
+export const BRAIN_ARCHIVE_VERSION = 1;
+
+const DOCUMENTS_BUCKET = 'project_documents';
+const MANIFEST_FILE = 'brain.json';
+const UPDATES_FILE = 'updates.md';
+const SUMMARY_SUFFIX = '.summary.md';
+
+export interface ArchiveNote {
+  title: string;
+  content: string;
+  tags: string[];
+  is_favorite: boolean;
+  is_important: boolean;
+  is_archived: boolean;
+  created_at?: string;
+  source_document?: Json | null;
+  summary?: string;
+}
+
+export interface ArchiveUpdate {
+  content: string;
+  created_at: string;
+  tags: string[];
+  is_important: boolean;
+  is_archived: boolean;
+}
+
+export interface ArchiveDocument {
+  name: string;
+  document_type: string;
+  is_favorite: boolean;
+  is_important: boolean;
+  is_archived: boolean;
+  data: Uint8Array;
+}
+
+export interface ArchiveImage {
+  name: string;
+  mime_type: string | null;
+  caption: string | null;
+  width: number | null;
+  height: number | null;
+  tags: string[];
+  is_favorite: boolean;
+  is_important: boolean;
+  is_archived: boolean;
+  summary?: string;
+  data: Uint8Array;
+}
+
+export interface BrainArchive {
+  project: {
+    title: string;
+    description: string | null;
+    ai_persona: string | null;
+    default_model: string | null;
+    is_favorite: boolean;
+  };
+  notes: ArchiveNote[];
+  updates: ArchiveUpdate[];
+  documents: ArchiveDocument[];
+  images: ArchiveImage[];
+}
+
+type ArchiveFileEntry<T> = Omit<T, 'data' | 'summary'> & { path: string };
+
+interface BrainArchiveManifest {
+  format: typeof BRAIN_ARCHIVE_FORMAT;
+  version: number;
+  exported_at: string;
+  project: BrainArchive['project'];
+  documents: ArchiveFileEntry<ArchiveDocument>[];
+  images: ArchiveFileEntry<ArchiveImage>[];
+}
+
+export class BrainArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BrainArchiveError';
+  }
+}
+
+/**
+ * A file name that is safe in every zip tool and not yet used in the archive
+ */
+export const uniqueArchiveName = (name: string, used: Set<string>): string => {
+  const extensionIndex = name.lastIndexOf('.');
+  const hasExtension = extensionIndex > 0 && extensionIndex < name.length - 1;
+  const base = (hasExtension ? name.slice(0, extensionIndex) : name)
+    .replace(/[\\/:*?"<>|]/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 100) || 'untitled';
+  const extension = hasExtension ? name.slice(extensionIndex) : '';
+
+  let candidate = `${base}${extension}`;
+  for (let i = 2; used.has(candidate.toLowerCase()); i++) {
+    candidate = `${base} (${i})${extension}`;
+  }
+
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+/**
+ * A note as Markdown with its title, tags and flags in the front-matter.
+ * Values are written as JSON, which YAML readers accept as well.
+ */
+export const noteToMarkdown = (note: ArchiveNote): string => {
+  const frontMatter: Record<string, unknown> = {
+    title: note.title,
+    tags: note.tags,
+    is_favorite: note.is_favorite,
+    is_important: note.is_important,
+    is_archived: note.is_archived,
+  };
+  if (note.created_at) frontMatter.created_at = note.created_at;
+  if (note.source_document) frontMatter.source_document = note.source_document;
+
+  const lines = Object.entries(frontMatter).map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+
+  return `---\n${lines.join('\n')}\n---\n\n${note.content || ''}\n`;
+};
+
+const parseFrontMatterValue = (value: string): unknown => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    // Hand-edited files may use plain YAML scalars
+    return value.replace(/^'(.*)'$/, '$1');
+  }
+};
+
+const toTags = (value: unknown): string[] => {
+  const tags = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.replace(/^\[|\]$/g, '').split(',')
+      : [];
+
+  return tags.map(tag => String(tag).trim()).filter(Boolean);
+};
+
+/**
+ * Reads a note written by noteToMarkdown. Files without front-matter become a
+ * note titled after the file.
+ */
+export const parseNoteMarkdown = (markdown: string, fallbackTitle: string): ArchiveNote => {
+  const text = markdown.replace(/\r\n/g, '\n');
+  const match = text.match(/^---\n([\s\S]*?)\n---\n?/);
+  const fields: Record<string, unknown> = {};
+
+  if (match) {
+    for (const line of match[1].split('\n')) {
+      const field = line.match(/^([A-Za-z_]+):\s*(.*)$/);
+      if (field) fields[field[1]] = parseFrontMatterValue(field[2].trim());
+    }
+  }
+
+  const title = typeof fields.title === 'string' && fields.title.trim() ? fields.title.trim() : fallbackTitle;
+
+  return {
+    title,
+    content: (match ? text.slice(match[0].length) : text).replace(/^\n/, '').replace(/\n$/, ''),
+    tags: toTags(fields.tags),
+    is_favorite: fields.is_favorite === true,
+    is_important: fields.is_important === true,
+    is_archived: fields.is_archived === true,
+    created_at: typeof fields.created_at === 'string' ? fields.created_at : undefined,
+    source_document: (fields.source_document as Json) ?? null,
+  };
+};
+
+const UPDATE_HEADING = /^## (\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z)[ \t]*$/gm;
+
+/**
+ * Updates as one Markdown log, oldest first, each under its ISO date
+ */
+export const updatesToLog = (updates: ArchiveUpdate[]): string => {
+  const entries = [...updates]
+    .map(update => ({ ...update, created_at: new Date(update.created_at).toISOString() }))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map(update => {
+      const meta = [
+        update.tags.length > 0 ? `Tags: ${update.tags.join(', ')}` : null,
+        update.is_important ? 'Important: yes' : null,
+        update.is_archived ? 'Archived: yes' : null,
+      ].filter(Boolean);
+
+      return [`## ${update.created_at}`, ...meta, '', update.content.trim(), ''].join('\n');
+    });
+
+  return ['# Updates', '', ...entries].join('\n');
+};
+
+/**
+ * Reads the log written by updatesToLog
+ */
+export const parseUpdatesLog = (log: string): ArchiveUpdate[] => {
+  const text = log.replace(/\r\n/g, '\n');
+  const headings = [...text.matchAll(UPDATE_HEADING)];
+
+  return headings.map((heading, index) => {
+    const start = heading.index! + heading[0].length;
+    const end = index + 1 < headings.length ? headings[index + 1].index! : text.length;
+    const lines = text.slice(start, end).replace(/^\n/, '').split('\n');
+
+    const update: ArchiveUpdate = {
+      content: '',
+      created_at: heading[1],
+      tags: [],
+      is_important: false,
+      is_archived: false,
+    };
+
+    let bodyStart = 0;
+    for (; bodyStart < lines.length; bodyStart++) {
+      const meta = lines[bodyStart].match(/^(Tags|Important|Archived):\s*(.*)$/);
+      if (!meta) break;
+
+      if (meta[1] === 'Tags') update.tags = toTags(meta[2]);
+      if (meta[1] === 'Important') update.is_important = meta[2].trim() === 'yes';
+      if (meta[1] === 'Archived') update.is_archived = meta[2].trim() === 'yes';
+    }
+
+    update.content = lines.slice(bodyStart).join('\n').trim();
+    return update;
+  }).filter(update => update.content);
+};
+
+const summaryPath = (path: string) => `${path.replace(/\.md$/, '')}${SUMMARY_SUFFIX}`;
+
+/**
+ * Packs a brain into a zip
+ */
+export const writeBrainArchive = async (archive: BrainArchive, exportedAt = new Date()): Promise<Uint8Array> => {
+  const zip = new JSZip();
+
+  const noteNames = new Set<string>();
+  for (const note of archive.notes) {
+    const path = `notes/${uniqueArchiveName(`${note.title || 'Untitled'}.md`, noteNames)}`;
+    zip.file(path, noteToMarkdown(note));
+    if (note.summary) zip.file(summaryPath(path), `${note.summary.trim()}\n`);
+  }
+
+  zip.file(UPDATES_FILE, updatesToLog(archive.updates));
+
+  const documentNames = new Set<string>();
+  const documents = archive.documents.map(({ data, ...document }) => {
+    const path = `documents/${uniqueArchiveName(document.name, documentNames)}`;
+    zip.file(path, data);
+    return { ...document, path };
+  });
+
+  const imageNames = new Set<string>();
+  const images = archive.images.map(({ data, summary, ...image }) => {
+    const path = `images/${uniqueArchiveName(image.name, imageNames)}`;
+    zip.file(path, data);
+    if (summary) zip.file(`${path}${SUMMARY_SUFFIX}`, `${summary.trim()}\n`);
+    return { ...image, path };
+  });
+
+  const manifest: BrainArchiveManifest = {
+    format: BRAIN_ARCHIVE_FORMAT,
+    version: BRAIN_ARCHIVE_VERSION,
+    exported_at: exportedAt.toISOString(),
+    project: archive.project,
+    documents,
+    images,
+  };
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+};
+
+const readText = async (zip: JSZip, path: string): Promise<string | undefined> => {
+  const file = zip.file(path);
+  return file ? file.async('string') : undefined;
+};
+
+/**
+ * Unpacks a zip written by writeBrainArchive
+ */
+export const readBrainArchive = async (data: Blob | ArrayBuffer | Uint8Array): Promise<BrainArchive> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new BrainArchiveError('This file is not a zip archive');
+  }
+
+  // Tolerate archives that were re-zipped with an enclosing folder
+  const manifestFile = zip.file(/(^|\/)brain\.json$/)[0];
+  if (!manifestFile) {
+    throw new BrainArchiveError('This archive has no brain.json, so it was not exported from a brain');
+  }
+
+  const root = manifestFile.name.slice(0, -MANIFEST_FILE.length);
+  if (root) zip = zip.folder(root.replace(/\/$/, ''))!;
+
+  let manifest: BrainArchiveManifest;
+  try {
+    manifest = JSON.parse(await manifestFile.async('string'));
+  } catch {
+    throw new BrainArchiveError('brain.json is not valid JSON');
+  }
+
+  if (manifest.format !== BRAIN_ARCHIVE_FORMAT || !manifest.project?.title) {
+    throw new BrainArchiveError('brain.json does not describe a brain');
+  }
+  if (manifest.version > BRAIN_ARCHIVE_VERSION) {
+    throw new BrainArchiveError('This archive was made by a newer version of the app');
+  }
+
+  const notes: ArchiveNote[] = [];
+  const notePaths = zip
+    .filter(path => path.startsWith('notes/') && path.endsWith('.md') && !path.endsWith(SUMMARY_SUFFIX))
+    .map(file => file.name.slice(root.length))
+    .sort();
+
+  for (const path of notePaths) {
+    const note = parseNoteMarkdown(await readText(zip, path) || '', path.slice('notes/'.length, -'.md'.length));
+    const summary = (await readText(zip, summaryPath(path)))?.trim();
+    notes.push(summary ? { ...note, summary } : note);
+  }
+
+  const updates = parseUpdatesLog(await readText(zip, UPDATES_FILE) || '');
+
+  const documents: ArchiveDocument[] = [];
+  for (const { path, ...document } of manifest.documents || []) {
+    const file = zip.file(path);
+    if (!file) continue;
+    documents.push({ ...document, data: await file.async('uint8array') });
+  }
+
+  const images: ArchiveImage[] = [];
+  for (const { path, ...image } of manifest.images || []) {
+    const file = zip.file(path);
+    if (!file) continue;
+    const summary = (await readText(zip, `${path}${SUMMARY_SUFFIX}`))?.trim();
+    images.push({ ...image, tags: image.tags || [], summary: summary || undefined, data: await file.async('uint8array') });
+  }
+
+  return { project: manifest.project, notes, updates, documents, images };
+};
+
+const downloadFile = async (bucket: string, path: string): Promise<Uint8Array | null> => {
+  const { data, error } = await supabase.storage.from(bucket).download(path);
+
+  if (error || !data) {
+    console.error(`Error downloading ${path} from ${bucket}:`, error);
+    return null;
+  }
+
+  return new Uint8Array(await data.arrayBuffer());
+};
+
+/**
+ * Collects everything in a brain and packs it into a zip. Files that cannot be
+ * downloaded are left out rather than failing the whole export.
+ */
+export const exportBrain = async (
+  projectId: string,
+  onProgress?: (message: string) => void
+): Promise<{ blob: Blob; fileName: string; skippedFiles: number }> => {
+  onProgress?.('Collecting notes and updates…');
+
+  const [projectResult, notesResult, noteSummariesResult, updatesResult, documentsResult, imagesResult] = await Promise.all([
+    supabase
+      .from('projects')
+      .select('title, description, ai_persona, default_model, is_favorite')
+      .eq('id', projectId)
+      .single(),
+    supabase
+      .from('project_notes')
+      .select('id, title, content, tags, is_favorite, is_important, is_archived, created_at, source_document')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('note_summaries')
+      .select('note_id, summary')
+      .eq('project_id', projectId),
+    supabase
+      .from('project_updates')
+      .select('content, created_at, tags, is_important, is_archived')
+      .eq('project_id', projectId),
+    supabase
+      .from('project_documents')
+      .select('file_name, file_path, document_type, is_favorite, is_important, is_archived')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('project_images')
+      .select('storage_path, file_name, mime_type, caption, width, height, is_favorite, is_important, is_archived, image_tags(tag), image_summaries(summary)')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true }),
+  ]);
+
+  for (const result of [projectResult, notesResult, noteSummariesResult, updatesResult, documentsResult, imagesResult]) {
+    if (result.error) throw result.error;
+  }
+
+  const summaries = new Map((noteSummariesResult.data || []).map(row => [row.note_id, row.summary]));
+  let skippedFiles = 0;
+
+  const documents: ArchiveDocument[] = [];
+  for (const [index, document] of (documentsResult.data || []).entries()) {
+    onProgress?.(`Downloading documents (${index + 1}/${documentsResult.data!.length})…`);
+    const data = document.file_path ? await downloadFile(DOCUMENTS_BUCKET, document.file_path) : null;
+    if (!data) {
+      skippedFiles++;
+      continue;
+    }
+
+    documents.push({
+      name: document.file_name,
+      document_type: document.document_type,
+      is_favorite: document.is_favorite,
+      is_important: document.is_important,
+      is_archived: document.is_archived,
+      data,
+    });
+  }
+
+  const images: ArchiveImage[] = [];
+  for (const [index, image] of (imagesResult.data || []).entries()) {
+    onProgress?.(`Downloading images (${index + 1}/${imagesResult.data!.length})…`);
+    const data = await downloadFile(IMAGES_BUCKET, image.storage_path);
+    if (!data) {
+      skippedFiles++;
+      continue;
+    }
+
+    images.push({
+      name: image.file_name,
+      mime_type: image.mime_type,
+      caption: image.caption,
+      width: image.width,
+      height: image.height,
+      tags: (image.image_tags || []).map(tag => tag.tag),
+      is_favorite: image.is_favorite,
+      is_important: image.is_important,
+      is_archived: image.is_archived,
+      summary: image.image_summaries?.find(summary => summary.summary?.trim())?.summary,
+      data,
+    });
+  }
+
+  onProgress?.('Creating archive…');
+
+  const project = projectResult.data!;
+  const zipData = await writeBrainArchive({
+    project,
+    notes: (notesResult.data || []).map(note => ({
+      title: note.title,
+      content: note.content || '',
+      tags: note.tags || [],
+      is_favorite: note.is_favorite,
+      is_important: note.is_important,
+      is_archived: note.is_archived,
+      created_at: note.created_at,
+      source_document: note.source_document,
+      summary: summaries.get(note.id),
+    })),
+    updates: (updatesResult.data || []).map(update => ({
+      ...update,
+      tags: update.tags || [],
+    })),
+    documents,
+    images,
+  });
+
+  const date = new Date().toISOString().slice(0, 10);
+  return {
+    blob: new Blob([zipData], { type: 'application/zip' }),
+    fileName: uniqueArchiveName(`${project.title} ${date}.zip`, new Set()),
+    skippedFiles,
+  };
+};
+
+/**
+ * Recreates a brain from an archive for the current user, who becomes its
+ * owner, in the given workspace or their personal space. Returns the new
+ * brain's id. Files that fail to upload are skipped so one bad file does not
+ * lose the rest of the brain.
+ */
+export const importBrain = async (
+  file: Blob,
+  userId: string,
+  onProgress?: (message: string) => void,
+  workspaceId: string | null = null
+): Promise<{ projectId: string; skippedFiles: number }> => {
+  onProgress?.('Reading archive…');
+  const archive = await readBrainArchive(file);
+
+  onProgress?.('Creating brain…');
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .insert({
+      title: archive.project.title,
+      description: archive.project.description,
+      ai_persona: archive.project.ai_persona,
+      default_model: archive.project.default_model,
+      is_favorite: archive.project.is_favorite,
+      owner_id: userId,
+      workspace_id: workspaceId,
+    })
+    .select('id')
+    .single();
+
+  if (projectError) throw projectError;
+  const projectId = project.id;
+
+  onProgress?.(`Importing ${archive.notes.length} notes…`);
+  for (const note of archive.notes) {
+    const { data: created, error } = await supabase
+      .from('project_notes')
+      .insert({
+        project_id: projectId,
+        user_id: userId,
+        title: note.title,
+        content: note.content,
+        tags: note.tags,
+        is_favorite: note.is_favorite,
+        is_important: note.is_important,
+        is_archived: note.is_archived,
+        source_document: note.source_document,
+        ...(note.created_at ? { created_at: note.created_at } : {}),
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+
+    if (note.summary) {
+      const { error: summaryError } = await supabase
+        .from('note_summaries')
+        .insert({ note_id: created.id, project_id: projectId, user_id: userId, summary: note.summary });
+
+      if (summaryError) console.error('Error importing note summary:', summaryError);
+    }
+  }
+
+  if (archive.updates.length > 0) {
+    onProgress?.(`Importing ${archive.updates.length} updates…`);
+    const { error } = await supabase
+      .from('project_updates')
+      .insert(archive.updates.map(update => ({ ...update, project_id: projectId, user_id: userId })));
+
+    if (error) throw error;
+  }
+
+  let skippedFiles = 0;
+
+  for (const [index, document] of archive.documents.entries()) {
+    onProgress?.(`Uploading documents (${index + 1}/${archive.documents.length})…`);
+    const path = `${userId}/${projectId}/${Date.now()}_${document.name.replace(/[^a-zA-Z0-9.-]/g, '_')}`;
+    const contentType = document.document_type === 'pdf' ? 'application/pdf' : undefined;
+
+    const { error: uploadError } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .upload(path, new Blob([document.data], { type: contentType }), { contentType, upsert: false });
+
+    if (uploadError) {
+      console.error(`Error uploading ${document.name}:`, uploadError);
+      skippedFiles++;
+      continue;
+    }
+
+    const { data: { publicUrl } } = supabase.storage.from(DOCUMENTS_BUCKET).getPublicUrl(path);
+
+    const { data: created, error } = await supabase
+      .from('project_documents')
+      .insert({
+        project_id: projectId,
+        user_id: userId,
+        file_name: document.name,
+        file_url: publicUrl,
+        file_path: path,
+        document_type: document.document_type,
+        file_size: document.data.byteLength,
+        is_favorite: document.is_favorite,
+        is_important: document.is_important,
+        is_archived: document.is_archived,
+        metadata: { pdf_url: publicUrl },
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error(`Error saving ${document.name}:`, error);
+      await supabase.storage.from(DOCUMENTS_BUCKET).remove([path]);
+      skippedFiles++;
+      continue;
+    }
+
+    if (document.document_type === 'pdf') {
+      supabase.functions
+        .invoke('extract-document-text', { body: { documentId: created.id } })
+        .then(({ error: extractError }) => {
+          if (extractError) console.error(`Error starting text extraction for ${document.name}:`, extractError);
+        });
+    }
+  }
+
+  for (const [index, image] of archive.images.entries()) {
+    onProgress?.(`Uploading images (${index + 1}/${archive.images.length})…`);
+    const path = `${projectId}/${sanitizeFileName(`${Date.now()}-${image.name}`)}`;
+    const blob = new Blob([image.data], { type: image.mime_type || undefined });
+
+    const { error: uploadError } = await supabase.storage
+      .from(IMAGES_BUCKET)
+      .upload(path, blob, { cacheControl: '3600', upsert: false });
+
+    if (uploadError) {
+      console.error(`Error uploading ${image.name}:`, uploadError);
+      skippedFiles++;
+      continue;
+    }
+
+    try {
+      const created = await createProjectImage({
+        projectId,
+        userId,
+        storagePath: path,
+        fileName: image.name,
+        file: blob,
+        width: image.width ?? undefined,
+        height: image.height ?? undefined,
+      });
+
+      const { error: flagsError } = await supabase
+        .from('project_images')
+        .update({
+          caption: image.caption,
+          is_favorite: image.is_favorite,
+          is_important: image.is_important,
+          is_archived: image.is_archived,
+        })
+        .eq('id', created.id);
+
+      if (flagsError) console.error(`Error importing flags of ${image.name}:`, flagsError);
+
+      const imageUrl = getImageUrl(path);
+
+      if (image.tags.length > 0) {
+        const { error: tagsError } = await supabase
+          .from('image_tags')
+          .insert(image.tags.map(tag => ({ image_id: created.id, image_url: imageUrl, project_id: projectId, user_id: userId, tag })));
+
+        if (tagsError) console.error(`Error importing tags of ${image.name}:`, tagsError);
+      }
+
+      if (image.summary) {
+        const { error: summaryError } = await supabase
+          .from('image_summaries')
+          .insert({ image_id: created.id, image_url: imageUrl, project_id: projectId, user_id: userId, summary: image.summary });
+
+        if (summaryError) console.error(`Error importing summary of ${image.name}:`, summaryError);
+      }
+    } catch (error) {
+      console.error(`Error saving ${image.name}:`, error);
+      await supabase.storage.from(IMAGES_BUCKET).remove([path]);
+      skippedFiles++;
+    }
+  }
+
+  return { projectId, skippedFiles };
+};
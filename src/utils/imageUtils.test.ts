@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { toUploadedImage } from './imageUtils';
+
+const row = {
+  id: 'image-1',
+  user_id: 'user-1',
+  storage_path: 'brain-1/1700000000000-whiteboard.jpg',
+  file_name: 'Whiteboard.jpg',
+  size_bytes: 2048,
+  width: 1600,
+  height: 900,
+  caption: null,
+  created_at: '2026-10-19T12:00:00.000Z',
+};
+
+describe('toUploadedImage', () => {
+  it('uses the recorded name and keeps the storage path', () => {
+    const image = toUploadedImage(row, 'https://cdn.example/brain-1/1700000000000-whiteboard.jpg');
+
+    expect(image).toMatchObject({
+      id: 'image-1',
+      name: 'Whiteboard.jpg',
+      path: 'brain-1/1700000000000-whiteboard.jpg',
+      size: 2048,
+      width: 1600,
+      height: 900,
+      uploadedBy: 'user-1',
+      tags: [],
+    });
+    expect(image.createdAt.toISOString()).toBe('2026-10-19T12:00:00.000Z');
+    expect(image.summary).toBeUndefined();
+  });
+
+  it('includes its tags and first non-empty summary', () => {
+    const image = toUploadedImage(
+      {
+        ...row,
+        image_tags: [{ id: 'tag-1', tag: 'roadmap' }],
+        image_summaries: [{ summary: '  ' }, { summary: 'A whiteboard with the Q3 roadmap' }],
+      },
+      'https://cdn.example/whiteboard.jpg'
+    );
+
+    expect(image.tags).toEqual([{ id: 'tag-1', tag: 'roadmap' }]);
+    expect(image.summary).toBe('A whiteboard with the Q3 roadmap');
+  });
+});
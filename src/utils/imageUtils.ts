@@ -0,0 +1,95 @@
+
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { UploadedImage } from '@/types/project';
+
+export const IMAGES_BUCKET = 'project_images';
+
+const IMAGE_COLUMNS = 'id, user_id, storage_path, file_name, size_bytes, width, height, caption, created_at, image_tags(id, tag), image_summaries(summary)';
+
+type ImageRow = Pick<
+  Tables<'project_images'>,
+  'id' | 'user_id' | 'storage_path' | 'file_name' | 'size_bytes' | 'width' | 'height' | 'caption' | 'created_at'
+> & {
+  image_tags?: Array<{ id: string; tag: string }> | null;
+  image_summaries?: Array<{ summary: string }> | null;
+};
+
+/**
+ * Public URL of an object in the images bucket
+ */
+export const getImageUrl = (storagePath: string): string =>
+  supabase.storage.from(IMAGES_BUCKET).getPublicUrl(storagePath).data.publicUrl;
+
+/**
+ * Maps a project_images row with its tags and summary to the shape the UI uses
+ */
+export const toUploadedImage = (row: ImageRow, url: string): UploadedImage => ({
+  id: row.id,
+  url,
+  path: row.storage_path,
+  size: row.size_bytes || 0,
+  name: row.file_name,
+  createdAt: new Date(row.created_at),
+  width: row.width,
+  height: row.height,
+  caption: row.caption,
+  uploadedBy: row.user_id,
+  summary: row.image_summaries?.find(summary => summary.summary?.trim())?.summary || undefined,
+  tags: (row.image_tags || []).map(tag => ({ id: tag.id, tag: tag.tag }))
+});
+
+/**
+ * All images of a project, newest first
+ */
+export const fetchProjectImageRecords = async (projectId: string): Promise<UploadedImage[]> => {
+  const { data, error } = await supabase
+    .from('project_images')
+    .select(IMAGE_COLUMNS)
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(row => toUploadedImage(row, getImageUrl(row.storage_path)));
+};
+
+/**
+ * Records an image that was just uploaded to the bucket
+ */
+export const createProjectImage = async ({
+  projectId,
+  userId,
+  storagePath,
+  fileName,
+  file,
+  width,
+  height
+}: {
+  projectId: string;
+  userId: string;
+  storagePath: string;
+  fileName: string;
+  file: Blob;
+  width?: number;
+  height?: number;
+}): Promise<UploadedImage> => {
+  const { data, error } = await supabase
+    .from('project_images')
+    .insert({
+      project_id: projectId,
+      user_id: userId,
+      storage_path: storagePath,
+      file_name: fileName,
+      mime_type: file.type || null,
+      size_bytes: file.size,
+      width: width ?? null,
+      height: height ?? null
+    })
+    .select(IMAGE_COLUMNS)
+    .single();
+
+  if (error) throw error;
+
+  return toUploadedImage(data, getImageUrl(data.storage_path));
+};
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import Markdown from 'react-markdown';
+import { isExternalLink, markdownRehypePlugins, markdownRemarkPlugins } from './markdown';
+
+const render = (markdown: string) =>
+  renderToStaticMarkup(
+    createElement(Markdown, { remarkPlugins: markdownRemarkPlugins, rehypePlugins: markdownRehypePlugins }, markdown)
+  );
+
+describe('markdown pipeline', () => {
+  it('renders tables, task lists and strikethrough', () => {
+    const html = render('| Task | Owner |\n| --- | --- |\n| Ship | Sam |\n\n- [x] done\n- [ ] ~~dropped~~');
+
+    expect(html).toContain('<th>Task</th>');
+    expect(html).toContain('<td>Sam</td>');
+    expect(html).toContain('<input type="checkbox" disabled="" checked=""/> done');
+    expect(html).toContain('<del>dropped</del>');
+  });
+
+  it('highlights fenced code with a language', () => {
+    const html = render('```js\nconst answer = 42;\n```');
+
+    expect(html).toContain('class="hljs language-js"');
+    expect(html).toContain('<span class="hljs-keyword">const</span>');
+  });
+
+  it('keeps harmless HTML from imported notes and drops anything that runs script', () => {
+    const html = render([
+      '<details><summary>More</summary>hidden <u>text</u></details>',
+      '<script>alert(1)</script>',
+      '<img src="x" onerror="alert(2)">',
+      '<a href="javascript:alert(3)">click</a> [also](javascript:alert(4))',
+      '<iframe src="https://evil.example"></iframe><div style="position:fixed">styled</div>',
+    ].join('\n\n'));
+
+    expect(html).toContain('<details><summary>More</summary>hidden <u>text</u></details>');
+    expect(html).not.toMatch(/<script|onerror|javascript:|<iframe|style=/);
+    expect(html).toContain('<img src="x"/>');
+  });
+
+  it('turns [[links]] into note links, except in code', () => {
+    const html = render('See [[Weekly sync]] and [[Q3 report.pdf|the report]], not `[[code]]`');
+
+    expect(html).toContain('<a href="#note-link:Weekly%20sync">Weekly sync</a>');
+    expect(html).toContain('<a href="#note-link:Q3%20report.pdf">the report</a>');
+    expect(html).toContain('<code>[[code]]</code>');
+  });
+});
+
+describe('isExternalLink', () => {
+  it('is true only for links that leave the app', () => {
+    expect(isExternalLink('https://example.com')).toBe(true);
+    expect(isExternalLink('//cdn.example/a.png')).toBe(true);
+    expect(isExternalLink('/projects/1')).toBe(false);
+    expect(isExternalLink('#section')).toBe(false);
+  });
+});
@@ -0,0 +1,32 @@
+import remarkGfm from 'remark-gfm';
+import rehypeRaw from 'rehype-raw';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import rehypeHighlight from 'rehype-highlight';
+import type { Options } from 'react-markdown';
+import { remarkNoteLinks } from './noteLinks';
+
+/**
+ * Markdown pipeline shared by notes, summaries and chat answers: GitHub
+ * flavoured Markdown (tables, task lists, strikethrough, autolinks), [[links]]
+ * between notes, and the HTML that imported notes often contain.
+ *
+ * Raw HTML is parsed and then sanitised with GitHub's rules, so tags like
+ * <details>, <sub> or <kbd> survive while scripts, event handlers, iframes,
+ * styles and javascript: URLs are dropped. Highlighting runs after
+ * sanitising; its classes are generated by us and never come from the note.
+ */
+export const markdownSanitizeSchema = {
+  ...defaultSchema,
+  tagNames: [...(defaultSchema.tagNames || []), 'u', 'mark'],
+};
+
+export const markdownRemarkPlugins: Options['remarkPlugins'] = [remarkGfm, remarkNoteLinks];
+
+export const markdownRehypePlugins: Options['rehypePlugins'] = [
+  rehypeRaw,
+  [rehypeSanitize, markdownSanitizeSchema],
+  [rehypeHighlight, { detect: false }],
+];
+
+// Links that leave the app open in a new tab
+export const isExternalLink = (href?: string) => !!href && /^(https?:)?\/\//i.test(href);
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { applyMarkdownAction, findSlashCommand, matchSlashCommands, runSlashCommand } from './markdownEditing';
+
+// Shows the selection of an edit as [brackets] inside the text
+const show = ({ text, selection }: { text: string; selection: { start: number; end: number } }) =>
+  `${text.slice(0, selection.start)}[${text.slice(selection.start, selection.end)}]${text.slice(selection.end)}`;
+
+describe('applyMarkdownAction', () => {
+  it('wraps the selection and unwraps it when applied again', () => {
+    const bold = applyMarkdownAction('ship it today', { start: 8, end: 13 }, 'bold');
+    expect(show(bold)).toBe('ship it **[today]**');
+
+    expect(show(applyMarkdownAction(bold.text, bold.selection, 'bold'))).toBe('ship it [today]');
+  });
+
+  it('inserts a placeholder to type over when nothing is selected', () => {
+    expect(show(applyMarkdownAction('See ', { start: 4, end: 4 }, 'link'))).toBe('See [[link text]](https://)');
+    expect(show(applyMarkdownAction('See docs', { start: 4, end: 8 }, 'link'))).toBe('See [docs]([https://])');
+  });
+
+  it('turns selected lines into a list, replacing other markers, and back', () => {
+    const text = 'Plan\n- milk\n- eggs\nDone';
+    const checklist = applyMarkdownAction(text, { start: 6, end: 18 }, 'checklist');
+    expect(checklist.text).toBe('Plan\n- [ ] milk\n- [ ] eggs\nDone');
+
+    const numbered = applyMarkdownAction(checklist.text, checklist.selection, 'numberedList');
+    expect(numbered.text).toBe('Plan\n1. milk\n2. eggs\nDone');
+
+    expect(applyMarkdownAction(numbered.text, numbered.selection, 'numberedList').text).toBe('Plan\nmilk\neggs\nDone');
+  });
+
+  it('puts blocks on lines of their own', () => {
+    expect(show(applyMarkdownAction('Intro\nOutro', { start: 5, end: 5 }, 'table')))
+      .toBe('Intro\n\n| [Column 1] | Column 2 |\n| --- | --- |\n| Cell | Cell |\n\nOutro');
+    expect(show(applyMarkdownAction('x = 1', { start: 0, end: 5 }, 'codeBlock'))).toBe('```\n[x = 1]\n```');
+  });
+});
+
+describe('slash commands', () => {
+  it('are only typed at the start of a line', () => {
+    expect(findSlashCommand('Intro\n/tab', 10)).toEqual({ start: 6, query: 'tab' });
+    expect(findSlashCommand('Intro\n  /', 9)).toEqual({ start: 8, query: '' });
+    expect(findSlashCommand('see 1/2', 7)).toBeNull();
+    expect(findSlashCommand('https://example.com', 19)).toBeNull();
+  });
+
+  it('match labels and keywords by their first letters', () => {
+    expect(matchSlashCommands('todo').map(command => command.action)).toEqual(['checklist']);
+    expect(matchSlashCommands('list').map(command => command.action)).toEqual(['bulletList', 'numberedList']);
+    expect(matchSlashCommands('')).toHaveLength(16);
+  });
+
+  it('replace the typed command with what it inserts', () => {
+    const text = 'Intro\n/head';
+    const slash = findSlashCommand(text, text.length)!;
+
+    expect(show(runSlashCommand(text, slash, text.length, 'heading2'))).toBe('Intro\n## []');
+  });
+});
@@ -0,0 +1,208 @@
+export interface TextSelection {
+  start: number;
+  end: number;
+}
+
+export interface TextEdit {
+  text: string;
+  selection: TextSelection;
+}
+
+export type MarkdownAction =
+  | 'bold'
+  | 'italic'
+  | 'strikethrough'
+  | 'code'
+  | 'link'
+  | 'heading1'
+  | 'heading2'
+  | 'heading3'
+  | 'quote'
+  | 'bulletList'
+  | 'numberedList'
+  | 'checklist'
+  | 'codeBlock'
+  | 'table'
+  | 'image'
+  | 'divider';
+
+export interface MarkdownCommand {
+  action: MarkdownAction;
+  label: string;
+  // Extra words the slash menu matches besides the label
+  keywords: string[];
+}
+
+// Everything the editor can insert, in slash menu order
+export const MARKDOWN_COMMANDS: MarkdownCommand[] = [
+  { action: 'heading1', label: 'Heading 1', keywords: ['h1', 'title'] },
+  { action: 'heading2', label: 'Heading 2', keywords: ['h2', 'subtitle'] },
+  { action: 'heading3', label: 'Heading 3', keywords: ['h3'] },
+  { action: 'bulletList', label: 'Bulleted list', keywords: ['ul', 'unordered'] },
+  { action: 'numberedList', label: 'Numbered list', keywords: ['ol', 'ordered'] },
+  { action: 'checklist', label: 'Checklist', keywords: ['todo', 'task', 'checkbox'] },
+  { action: 'quote', label: 'Quote', keywords: ['blockquote'] },
+  { action: 'codeBlock', label: 'Code block', keywords: ['snippet', 'pre'] },
+  { action: 'table', label: 'Table', keywords: ['grid'] },
+  { action: 'image', label: 'Image', keywords: ['picture', 'photo'] },
+  { action: 'link', label: 'Link', keywords: ['url'] },
+  { action: 'divider', label: 'Divider', keywords: ['hr', 'rule', 'separator'] },
+  { action: 'bold', label: 'Bold', keywords: ['strong'] },
+  { action: 'italic', label: 'Italic', keywords: ['emphasis'] },
+  { action: 'strikethrough', label: 'Strikethrough', keywords: ['strike', 'delete'] },
+  { action: 'code', label: 'Inline code', keywords: ['monospace'] },
+];
+
+const LINE_PREFIXES: Partial<Record<MarkdownAction, string | ((index: number) => string)>> = {
+  heading1: '# ',
+  heading2: '## ',
+  heading3: '### ',
+  quote: '> ',
+  bulletList: '- ',
+  numberedList: (index) => `${index + 1}. `,
+  checklist: '- [ ] ',
+};
+
+// Any list, quote or heading marker a line may already start with
+const LINE_MARKER = /^(#{1,6} |> |[-*+] \[[ xX]\] |[-*+] |\d+[.)] )/;
+
+const TABLE_TEMPLATE = '| Column 1 | Column 2 |\n| --- | --- |\n| Cell | Cell |';
+
+// Surrounds the selection with markers, or a placeholder when nothing is
+// selected; applying the same markers again removes them
+function wrapSelection(text: string, { start, end }: TextSelection, marker: string, placeholder: string): TextEdit {
+  const before = text.slice(0, start);
+  const after = text.slice(end);
+
+  if (before.endsWith(marker) && after.startsWith(marker)) {
+    return {
+      text: before.slice(0, -marker.length) + text.slice(start, end) + after.slice(marker.length),
+      selection: { start: start - marker.length, end: end - marker.length },
+    };
+  }
+
+  const selected = text.slice(start, end) || placeholder;
+  return {
+    text: before + marker + selected + marker + after,
+    selection: { start: start + marker.length, end: start + marker.length + selected.length },
+  };
+}
+
+// Gives every selected line the action's marker, replacing other markers.
+// When all lines already have it, it is taken off instead.
+function prefixLines(text: string, { start, end }: TextSelection, prefix: string | ((index: number) => string)): TextEdit {
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const nextBreak = text.indexOf('\n', end > start && text[end - 1] === '\n' ? end - 1 : end);
+  const lineEnd = nextBreak === -1 ? text.length : nextBreak;
+
+  const lines = text.slice(lineStart, lineEnd).split('\n');
+  const prefixFor = (index: number) => (typeof prefix === 'string' ? prefix : prefix(index));
+  const hasPrefix = lines.every((line, index) => line.startsWith(prefixFor(index)));
+
+  const updated = lines
+    .map((line, index) => {
+      const content = line.replace(LINE_MARKER, '');
+      return hasPrefix ? content : prefixFor(index) + content;
+    })
+    .join('\n');
+
+  const caret = lineStart + updated.length;
+  return {
+    text: text.slice(0, lineStart) + updated + text.slice(lineEnd),
+    selection: start === end ? { start: caret, end: caret } : { start: lineStart, end: caret },
+  };
+}
+
+// Puts a block on lines of its own, separated from the text around it by a
+// blank line, and selects `select` within it
+function insertBlock(text: string, { start, end }: TextSelection, block: string, select?: string): TextEdit {
+  let before = text.slice(0, start);
+  let after = text.slice(end);
+
+  if (before && !before.endsWith('\n\n')) before += before.endsWith('\n') ? '\n' : '\n\n';
+  if (after && !after.startsWith('\n\n')) after = (after.startsWith('\n') ? '\n' : '\n\n') + after;
+
+  const offset = select ? block.indexOf(select) : block.length;
+  const selectionStart = before.length + offset;
+  return {
+    text: before + block + after,
+    selection: { start: selectionStart, end: selectionStart + (select ? select.length : 0) },
+  };
+}
+
+/**
+ * Applies a toolbar or slash command to the text, returning the new text and
+ * what should be selected afterwards.
+ */
+export function applyMarkdownAction(text: string, selection: TextSelection, action: MarkdownAction): TextEdit {
+  const selected = text.slice(selection.start, selection.end);
+  const linePrefix = LINE_PREFIXES[action];
+
+  if (linePrefix) return prefixLines(text, selection, linePrefix);
+
+  switch (action) {
+    case 'bold':
+      return wrapSelection(text, selection, '**', 'bold text');
+    case 'italic':
+      return wrapSelection(text, selection, '*', 'italic text');
+    case 'strikethrough':
+      return wrapSelection(text, selection, '~~', 'struck text');
+    case 'code':
+      return wrapSelection(text, selection, '`', 'code');
+    case 'link': {
+      const label = selected || 'link text';
+      const inserted = `[${label}](https://)`;
+      const urlStart = selection.start + label.length + 3;
+      return {
+        text: text.slice(0, selection.start) + inserted + text.slice(selection.end),
+        selection: selected
+          ? { start: urlStart, end: urlStart + 'https://'.length }
+          : { start: selection.start + 1, end: selection.start + 1 + label.length },
+      };
+    }
+    case 'image': {
+      const alt = selected || 'description';
+      return insertBlock(text, selection, `![${alt}](https://)`, 'https://');
+    }
+    case 'codeBlock': {
+      const code = selected || 'code';
+      return insertBlock(text, selection, `\`\`\`\n${code}\n\`\`\``, code);
+    }
+    case 'table':
+      return insertBlock(text, selection, TABLE_TEMPLATE, 'Column 1');
+    case 'divider':
+      return insertBlock(text, selection, '---');
+    default:
+      return { text, selection };
+  }
+}
+
+/**
+ * The slash command being typed at the caret: a "/" at the start of a line
+ * followed by the words typed so far, or null when there is none.
+ */
+export function findSlashCommand(text: string, caret: number): { start: number; query: string } | null {
+  const lineStart = text.lastIndexOf('\n', caret - 1) + 1;
+  const match = /^(\s*)\/([\w ]{0,30})$/.exec(text.slice(lineStart, caret));
+  if (!match) return null;
+
+  return { start: lineStart + match[1].length, query: match[2] };
+}
+
+// Commands whose label or keywords start with the words typed after "/"
+export function matchSlashCommands(query: string): MarkdownCommand[] {
+  const search = query.trim().toLowerCase();
+  if (!search) return MARKDOWN_COMMANDS;
+
+  return MARKDOWN_COMMANDS.filter(command =>
+    [command.label, ...command.keywords].some(word =>
+      word.toLowerCase().split(' ').some(part => part.startsWith(search)) || word.toLowerCase().startsWith(search)
+    )
+  );
+}
+
+// Replaces the typed "/query" with the chosen command
+export function runSlashCommand(text: string, slash: { start: number }, caret: number, action: MarkdownAction): TextEdit {
+  const withoutCommand = text.slice(0, slash.start) + text.slice(caret);
+  return applyMarkdownAction(withoutCommand, { start: slash.start, end: slash.start }, action);
+}
@@ -3,7 +3,8 @@ import { supabase } from '@/integrations/supabase/client';
 
 /**
  * Find a user by their email address
- * Searches in profiles table first, then falls back to the RPC function
+ * Searches in profiles table first, then falls back to the RPC function.
+ * Returns null when nobody has signed up with that address yet.
  */
 export const findUserByEmail = async (email: string): Promise<string | null> => {
   console.log('Looking up user by email:', email);
@@ -50,7 +51,7 @@ export const findUserByEmail = async (email: string): Promise<string | null> =>
       return authProfiles[0].id;
     }
     
-    throw new Error('User with this email not found. Please ensure they have created an account first.');
+    return null;
   } catch (error) {
     console.error('Error finding user:', error);
     throw error;
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LinkTarget,
+  findLinkQuery,
+  insertNoteLink,
+  matchLinkTargets,
+  noteLinkHref,
+  noteLinkLabel,
+  parseNoteLinks,
+  resolveLinkTarget,
+} from './noteLinks';
+
+const targets: LinkTarget[] = [
+  { type: 'image', id: 'img-1', name: 'Roadmap' },
+  { type: 'document', id: 'doc-1', name: 'Q3 report.pdf' },
+  { type: 'note', id: 'note-1', name: 'Roadmap' },
+  { type: 'note', id: 'note-2', name: 'Weekly sync' },
+];
+
+describe('parseNoteLinks', () => {
+  it('finds each linked name once, with or without shown text', () => {
+    expect(parseNoteLinks('See [[Roadmap]], [[ Q3 report.pdf |the report]] and [[Roadmap|again]].\n[[]] [[a\nb]]'))
+      .toEqual(['Roadmap', 'Q3 report.pdf']);
+  });
+});
+
+describe('resolveLinkTarget', () => {
+  it('prefers notes over documents over images and ignores case', () => {
+    expect(resolveLinkTarget(targets, 'roadmap')?.id).toBe('note-1');
+    expect(resolveLinkTarget(targets, 'Q3 REPORT.pdf')?.id).toBe('doc-1');
+    expect(resolveLinkTarget(targets, 'Missing')).toBeUndefined();
+  });
+});
+
+describe('link hrefs', () => {
+  it('round-trip names with spaces and symbols', () => {
+    expect(noteLinkLabel(noteLinkHref('Q3 report #2.pdf'))).toBe('Q3 report #2.pdf');
+    expect(noteLinkLabel('https://example.com')).toBeNull();
+  });
+});
+
+describe('link autocomplete', () => {
+  it('finds the unclosed link being typed', () => {
+    expect(findLinkQuery('See [[Week', 10)).toEqual({ start: 4, query: 'Week' });
+    expect(findLinkQuery('See [[Week]] and', 16)).toBeNull();
+    expect(findLinkQuery('[[Week\nnext', 11)).toBeNull();
+  });
+
+  it('lists names starting with the query first', () => {
+    expect(matchLinkTargets(targets, 'r').map(target => target.id)).toEqual(['note-1', 'img-1', 'doc-1']);
+  });
+
+  it('completes the link and skips brackets the editor closed', () => {
+    expect(insertNoteLink('See [[We and', { start: 4 }, 8, 'Weekly sync'))
+      .toEqual({ text: 'See [[Weekly sync]] and', selection: { start: 19, end: 19 } });
+    expect(insertNoteLink('See [[We]]', { start: 4 }, 8, 'Weekly sync').text).toBe('See [[Weekly sync]]');
+  });
+});
@@ -0,0 +1,143 @@
+import type { TextEdit } from './markdownEditing';
+
+export type LinkTargetType = 'note' | 'document' | 'image';
+
+// Something in a brain a note can link to by name
+export interface LinkTarget {
+  type: LinkTargetType;
+  id: string;
+  name: string;
+  url?: string;
+}
+
+/**
+ * [[Name]] or [[Name|shown text]]. Matches the pattern sync_note_links() uses
+ * in the database, which keeps the stored link graph.
+ */
+export const NOTE_LINK_PATTERN = /\[\[([^\]|\n]+)(?:\|([^\]\n]*))?\]\]/g;
+
+const TYPE_PREFERENCE: Record<LinkTargetType, number> = { note: 0, document: 1, image: 2 };
+
+// In-page hrefs the Markdown pipeline gives links, read back when clicked
+const LINK_HREF_PREFIX = '#note-link:';
+
+export const noteLinkHref = (label: string) => `${LINK_HREF_PREFIX}${encodeURIComponent(label)}`;
+
+export const noteLinkLabel = (href?: string): string | null => {
+  if (!href?.startsWith(LINK_HREF_PREFIX)) return null;
+  try {
+    return decodeURIComponent(href.slice(LINK_HREF_PREFIX.length));
+  } catch {
+    return null;
+  }
+};
+
+// Names linked from a text, each once, in order of appearance
+export function parseNoteLinks(content: string | null): string[] {
+  const labels: string[] = [];
+  for (const match of (content || '').matchAll(NOTE_LINK_PATTERN)) {
+    const label = match[1].trim();
+    if (label && !labels.includes(label)) labels.push(label);
+  }
+  return labels;
+}
+
+/**
+ * What a name links to, the way resolve_link_target() decides it: a note with
+ * that title first, then a document, then an image, ignoring case.
+ */
+export function resolveLinkTarget(targets: LinkTarget[], label: string): LinkTarget | undefined {
+  const name = label.trim().toLowerCase();
+  return targets
+    .filter(target => target.name.toLowerCase() === name)
+    .sort((a, b) => TYPE_PREFERENCE[a.type] - TYPE_PREFERENCE[b.type])[0];
+}
+
+interface MarkdownNode {
+  type: string;
+  value?: string;
+  url?: string;
+  children?: MarkdownNode[];
+}
+
+// Node types whose text is shown as written
+const LITERAL_PARENTS = new Set(['link', 'linkReference', 'code', 'inlineCode', 'html']);
+
+const splitText = (value: string): MarkdownNode[] => {
+  const nodes: MarkdownNode[] = [];
+  let last = 0;
+
+  for (const match of value.matchAll(NOTE_LINK_PATTERN)) {
+    const label = match[1].trim();
+    if (!label) continue;
+
+    if (match.index! > last) nodes.push({ type: 'text', value: value.slice(last, match.index) });
+    nodes.push({
+      type: 'link',
+      url: noteLinkHref(label),
+      children: [{ type: 'text', value: match[2]?.trim() || label }],
+    });
+    last = match.index! + match[0].length;
+  }
+
+  if (last < value.length) nodes.push({ type: 'text', value: value.slice(last) });
+  return nodes;
+};
+
+const linkText = (node: MarkdownNode) => {
+  if (!node.children) return;
+
+  node.children = node.children.flatMap(child => {
+    if (child.type === 'text' && child.value?.includes('[[')) return splitText(child.value);
+    if (!LITERAL_PARENTS.has(child.type)) linkText(child);
+    return [child];
+  });
+};
+
+// Remark plugin turning [[links]] outside of code into links with
+// noteLinkHref() addresses
+export function remarkNoteLinks() {
+  return (tree: MarkdownNode) => linkText(tree);
+}
+
+/**
+ * The link being typed at the caret: an unclosed "[[" on the same line and
+ * the name typed after it so far, or null when there is none.
+ */
+export function findLinkQuery(text: string, caret: number): { start: number; query: string } | null {
+  const lineStart = text.lastIndexOf('\n', caret - 1) + 1;
+  const line = text.slice(lineStart, caret);
+  const open = line.lastIndexOf('[[');
+  if (open === -1) return null;
+
+  const query = line.slice(open + 2);
+  if (/[\]|]/.test(query) || query.length > 80) return null;
+
+  return { start: lineStart + open, query };
+}
+
+// Targets whose name contains the typed text, names starting with it first
+export function matchLinkTargets(targets: LinkTarget[], query: string, limit = 8): LinkTarget[] {
+  const search = query.trim().toLowerCase();
+  return targets
+    .filter(target => target.name.toLowerCase().includes(search))
+    .sort((a, b) => {
+      const aStarts = a.name.toLowerCase().startsWith(search) ? 0 : 1;
+      const bStarts = b.name.toLowerCase().startsWith(search) ? 0 : 1;
+      return aStarts - bStarts || TYPE_PREFERENCE[a.type] - TYPE_PREFERENCE[b.type] || a.name.localeCompare(b.name);
+    })
+    .slice(0, limit);
+}
+
+// Replaces the typed "[[query" with a complete link to `name`
+export function insertNoteLink(text: string, link: { start: number }, caret: number, name: string): TextEdit {
+  // Editors that closed the brackets already leave "]]" after the caret
+  const end = text.startsWith(']]', caret) ? caret + 2 : caret;
+  const inserted = `[[${name}]]`;
+  const position = link.start + inserted.length;
+
+  return {
+    text: text.slice(0, link.start) + inserted + text.slice(end),
+    selection: { start: position, end: position },
+  };
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { hasPermission, isProjectRole } from './permissions';
+
+describe('hasPermission', () => {
+  it('lets viewers read and chat but not change content', () => {
+    expect(hasPermission('viewer', 'read')).toBe(true);
+    expect(hasPermission('viewer', 'chat')).toBe(true);
+    expect(hasPermission('viewer', 'editContent')).toBe(false);
+  });
+
+  it('lets editors change content but not manage the brain', () => {
+    expect(hasPermission('editor', 'editContent')).toBe(true);
+    expect(hasPermission('editor', 'manageMembers')).toBe(false);
+    expect(hasPermission('editor', 'editSettings')).toBe(false);
+  });
+
+  it('reserves deleting the brain for its owner', () => {
+    expect(hasPermission('admin', 'manageMembers')).toBe(true);
+    expect(hasPermission('admin', 'archiveProject')).toBe(true);
+    expect(hasPermission('admin', 'deleteProject')).toBe(false);
+    expect(hasPermission('owner', 'deleteProject')).toBe(true);
+  });
+
+  it('grants nothing without a known role', () => {
+    expect(hasPermission(null, 'read')).toBe(false);
+    expect(hasPermission('member', 'read')).toBe(false);
+    expect(isProjectRole('constructor')).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+
+import { ProjectRole } from '@/types/project';
+import { WorkspaceRole } from '@/types/workspace';
+
+// What each role can do in a brain. Keep in sync with the row level security
+// policies in supabase/migrations/20261019130000_project_role_permissions.sql
+
+export type ProjectPermission =
+  | 'read'
+  | 'chat'
+  | 'editContent'
+  | 'manageMembers'
+  | 'editSettings'
+  | 'archiveProject'
+  | 'deleteProject';
+
+// Roles that can be given to invited members; every brain has exactly one owner
+export const MEMBER_ROLES: Exclude<ProjectRole, 'owner'>[] = ['viewer', 'editor', 'admin'];
+
+export const ROLE_LABELS: Record<ProjectRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  editor: 'Editor',
+  viewer: 'Viewer'
+};
+
+export const ROLE_DESCRIPTIONS: Record<ProjectRole, string> = {
+  owner: 'Full control, including deleting the brain',
+  admin: 'Manage members and brain settings',
+  editor: 'Create, edit and delete notes, documents and images',
+  viewer: 'Read content and chat with the brain'
+};
+
+// The lowest role that grants each permission
+const MINIMUM_ROLE: Record<ProjectPermission, ProjectRole> = {
+  read: 'viewer',
+  chat: 'viewer',
+  editContent: 'editor',
+  manageMembers: 'admin',
+  editSettings: 'admin',
+  archiveProject: 'admin',
+  deleteProject: 'owner'
+};
+
+const ROLE_RANK: Record<ProjectRole, number> = {
+  viewer: 1,
+  editor: 2,
+  admin: 3,
+  owner: 4
+};
+
+export function isProjectRole(value: unknown): value is ProjectRole {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ROLE_RANK, value);
+}
+
+// Accepts raw role strings from the database; unknown roles get no permissions
+export function hasPermission(role: string | null | undefined, permission: ProjectPermission): boolean {
+  if (!isProjectRole(role)) return false;
+  return ROLE_RANK[role] >= ROLE_RANK[MINIMUM_ROLE[permission]];
+}
+
+// The role a workspace role grants in every brain of the workspace, for
+// labelling workspace brains in lists. Keep in sync with project_role() in
+// supabase/migrations/20261019240000_workspaces.sql, which decides access.
+export const WORKSPACE_BRAIN_ROLES: Record<WorkspaceRole, ProjectRole> = {
+  owner: 'admin',
+  admin: 'admin',
+  member: 'editor'
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  QuotaExceeded,
+  QuotaExceededError,
+  describeQuotaExceeded,
+  formatBytes,
+  isUnlimited,
+  parseQuotaError,
+} from './quotas';
+
+const brainLimit: QuotaExceeded = {
+  code: 'quota_exceeded',
+  quota: 'brains',
+  limit: 2,
+  used: 2,
+  requested: 1,
+  planType: 'starter',
+  message: 'Your plan allows 2 brains',
+  hint: 'Upgrade to Pro to raise your limit',
+};
+
+const { message, hint, ...details } = brainLimit;
+
+describe('parseQuotaError', () => {
+  it('reads the PT402 error of a database insert', async () => {
+    const error = { code: 'PT402', message, hint, details: JSON.stringify(details) };
+    expect(await parseQuotaError(error)).toEqual(brainLimit);
+  });
+
+  it('reads the 429 response of an edge function and leaves its body readable', async () => {
+    const response = new Response(
+      JSON.stringify({ error: 'Your plan allows 25 AI calls a month', ...details, quota: 'api_calls', message: 'Your plan allows 25 AI calls a month', hint }),
+      { status: 429 }
+    );
+
+    expect(await parseQuotaError({ message: 'Edge Function returned a non-2xx status code', context: response }))
+      .toMatchObject({ quota: 'api_calls', message: 'Your plan allows 25 AI calls a month' });
+    expect((await response.json()).quota).toBe('api_calls');
+  });
+
+  it('returns the payload of a QuotaExceededError and ignores other errors', async () => {
+    expect(await parseQuotaError(new QuotaExceededError(brainLimit))).toBe(brainLimit);
+    expect(await parseQuotaError(new Error('Network error'))).toBeNull();
+    expect(await parseQuotaError({ code: '23505', message: 'duplicate key' })).toBeNull();
+    expect(await parseQuotaError({ context: new Response('{"error":"Too many requests"}', { status: 429 }) })).toBeNull();
+  });
+});
+
+describe('describeQuotaExceeded', () => {
+  it('says how much is used and what to do', () => {
+    expect(describeQuotaExceeded(brainLimit))
+      .toBe('You have used 2 of 2 brains. Upgrade to Pro to raise your limit.');
+    expect(describeQuotaExceeded({ ...brainLimit, quota: 'storage', used: 1073000000, limit: 1073741824, hint: null }))
+      .toBe('You have used 1023.3 MB of your 1 GB of storage.');
+  });
+});
+
+describe('formatBytes', () => {
+  it('uses the largest whole unit', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1572864)).toBe('1.5 MB');
+    expect(formatBytes(53687091200)).toBe('50 GB');
+  });
+});
+
+describe('isUnlimited', () => {
+  it('treats the 9999 placeholder as unlimited except for storage bytes', () => {
+    expect(isUnlimited({ quota: 'documents', limit: 9999 })).toBe(true);
+    expect(isUnlimited({ quota: 'brains', limit: null })).toBe(true);
+    expect(isUnlimited({ quota: 'brains', limit: 2 })).toBe(false);
+    expect(isUnlimited({ quota: 'storage', limit: 9999 })).toBe(false);
+  });
+});
@@ -0,0 +1,111 @@
+import { QuotaName, QuotaStatus } from '@/types/user';
+
+// Keep in sync with QuotaExceeded in supabase/functions/_shared/quotas.ts
+export type QuotaExceeded = {
+  code: 'quota_exceeded';
+  quota: QuotaName;
+  limit: number;
+  used: number;
+  requested: number;
+  planType: string | null;
+  message: string;
+  hint: string | null;
+};
+
+export const QUOTA_LABELS: Record<QuotaName, string> = {
+  brains: 'Brains',
+  documents: 'Documents',
+  storage: 'Storage',
+  api_calls: 'AI calls this month',
+};
+
+const QUOTA_UNITS: Record<Exclude<QuotaName, 'storage'>, string> = {
+  brains: 'brains',
+  documents: 'documents',
+  api_calls: 'AI calls this month',
+};
+
+// Plans store 9999 for "effectively unlimited" brains, documents and calls
+const UNLIMITED = 9999;
+
+export const isUnlimited = (quota: Pick<QuotaStatus, 'quota' | 'limit'>) =>
+  quota.limit === null || (quota.quota !== 'storage' && quota.limit >= UNLIMITED);
+
+// 512 -> "512 B", 1_572_864 -> "1.5 MB", 53_687_091_200 -> "50 GB"
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1).replace(/\.0$/, '')} ${units[unit]}`;
+}
+
+export const formatQuotaAmount = (quota: QuotaName, amount: number) =>
+  quota === 'storage' ? formatBytes(amount) : amount.toLocaleString();
+
+// "You have used 2 of 2 brains." plus what to do about it
+export function describeQuotaExceeded(exceeded: QuotaExceeded): string {
+  const used = formatQuotaAmount(exceeded.quota, exceeded.used);
+  const limit = formatQuotaAmount(exceeded.quota, exceeded.limit);
+  const usage = exceeded.quota === 'storage'
+    ? `You have used ${used} of your ${limit} of storage.`
+    : `You have used ${used} of ${limit} ${QUOTA_UNITS[exceeded.quota]}.`;
+  return exceeded.hint ? `${usage} ${exceeded.hint}.` : usage;
+}
+
+// Thrown by client helpers that already read a quota error from a response
+export class QuotaExceededError extends Error {
+  constructor(public exceeded: QuotaExceeded) {
+    super(exceeded.message);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+type ErrorLike = {
+  code?: string;
+  message?: string;
+  details?: string | null;
+  hint?: string | null;
+  context?: unknown;
+};
+
+const fromDatabaseError = (error: ErrorLike): QuotaExceeded | null => {
+  try {
+    const details = JSON.parse(error.details || '');
+    if (details?.code !== 'quota_exceeded') return null;
+    return { ...details, message: error.message || '', hint: error.hint ?? null };
+  } catch {
+    return null;
+  }
+};
+
+// The plan limit behind an error, or null for any other error. Handles the
+// PT402/PT429 errors of database inserts and rpc calls, and the 402/429
+// responses of edge functions.
+export async function parseQuotaError(error: unknown): Promise<QuotaExceeded | null> {
+  if (error instanceof QuotaExceededError) return error.exceeded;
+  if (!error || typeof error !== 'object') return null;
+
+  const candidate = error as ErrorLike;
+  if (candidate.code === 'PT402' || candidate.code === 'PT429') {
+    return fromDatabaseError(candidate);
+  }
+
+  const response = candidate.context;
+  if (response instanceof Response && (response.status === 402 || response.status === 429)) {
+    try {
+      // Clone so callers can still read the body themselves
+      const body = await response.clone().json();
+      if (body?.code !== 'quota_exceeded') return null;
+      const { error: message, ...exceeded } = body;
+      return { ...exceeded, message: exceeded.message || message };
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
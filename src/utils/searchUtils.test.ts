@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { dateRangeStart, parseSearchQuery, splitHighlights } from './searchUtils';
+
+describe('splitHighlights', () => {
+  it('separates marked matches from the surrounding text', () => {
+    expect(splitHighlights('the <mark>quarterly</mark> plan and <mark>budget</mark>')).toEqual([
+      { text: 'the ', highlighted: false },
+      { text: 'quarterly', highlighted: true },
+      { text: ' plan and ', highlighted: false },
+      { text: 'budget', highlighted: true }
+    ]);
+  });
+
+  it('keeps any other markup as plain text', () => {
+    expect(splitHighlights('<b>bold</b> <mark>x</mark>')).toEqual([
+      { text: '<b>bold</b> ', highlighted: false },
+      { text: 'x', highlighted: true }
+    ]);
+    expect(splitHighlights(null)).toEqual([]);
+  });
+});
+
+describe('parseSearchQuery', () => {
+  it('extracts the first tag and keeps the rest as search text', () => {
+    expect(parseSearchQuery('roadmap #planning q3 #later')).toEqual({ text: 'roadmap q3', tag: 'planning' });
+  });
+
+  it('ignores hashes inside words', () => {
+    expect(parseSearchQuery('issue c#sharp')).toEqual({ text: 'issue c#sharp', tag: null });
+  });
+});
+
+describe('dateRangeStart', () => {
+  it('counts back from now for the preset ranges', () => {
+    const now = new Date('2026-10-19T12:00:00.000Z');
+    expect(dateRangeStart('week', now)).toBe('2026-10-12T12:00:00.000Z');
+    expect(dateRangeStart('any', now)).toBeNull();
+  });
+});
@@ -0,0 +1,80 @@
+// Helpers for the global search palette and the search_brain_content RPC
+
+export type SearchResultType = 'note' | 'document' | 'image' | 'update';
+
+export const SEARCH_RESULT_TYPES: SearchResultType[] = ['note', 'document', 'image', 'update'];
+
+export const SEARCH_RESULT_LABELS: Record<SearchResultType, string> = {
+  note: 'Notes',
+  document: 'Documents',
+  image: 'Images',
+  update: 'Updates'
+};
+
+export type SearchDateRange = 'any' | 'week' | 'month' | 'year';
+
+export const SEARCH_DATE_RANGE_LABELS: Record<SearchDateRange, string> = {
+  any: 'Any time',
+  week: 'Past week',
+  month: 'Past month',
+  year: 'Past year'
+};
+
+const DATE_RANGE_DAYS: Record<Exclude<SearchDateRange, 'any'>, number> = {
+  week: 7,
+  month: 30,
+  year: 365
+};
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+// Splits a snippet from ts_headline into plain and highlighted parts so it can
+// be rendered as text nodes instead of HTML
+export function splitHighlights(snippet: string | null | undefined): HighlightSegment[] {
+  if (!snippet) return [];
+
+  const segments: HighlightSegment[] = [];
+  const pattern = /<mark>([\s\S]*?)<\/mark>/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(snippet)) !== null) {
+    if (match.index > lastIndex) {
+      segments.push({ text: snippet.slice(lastIndex, match.index), highlighted: false });
+    }
+    if (match[1]) {
+      segments.push({ text: match[1], highlighted: true });
+    }
+    lastIndex = pattern.lastIndex;
+  }
+
+  if (lastIndex < snippet.length) {
+    segments.push({ text: snippet.slice(lastIndex), highlighted: false });
+  }
+
+  return segments;
+}
+
+// Pulls a "#tag" out of the typed query; the remaining words are the search text.
+// Only the first tag is used because results are filtered by a single tag.
+export function parseSearchQuery(input: string): { text: string; tag: string | null } {
+  let tag: string | null = null;
+
+  const text = input
+    .replace(/(^|\s)#([^\s#]+)/g, (_match, leading: string, name: string) => {
+      if (!tag) tag = name;
+      return leading;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return { text, tag };
+}
+
+export function dateRangeStart(range: SearchDateRange, now: Date = new Date()): string | null {
+  if (range === 'any') return null;
+  return new Date(now.getTime() - DATE_RANGE_DAYS[range] * 24 * 60 * 60 * 1000).toISOString();
+}
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { parseStreamEvents } from './streamingUtils';
+
+describe('parseStreamEvents', () => {
+  it('returns complete events and keeps the partial remainder', () => {
+    const { events, rest } = parseStreamEvents(
+      'event: start\ndata: {"conversationId":"c1"}\n\nevent: delta\ndata: {"text":"Hel'
+    );
+
+    expect(events).toEqual([{ event: 'start', data: '{"conversationId":"c1"}' }]);
+    expect(rest).toBe('event: delta\ndata: {"text":"Hel');
+  });
+
+  it('parses the remainder once the rest of the event arrives', () => {
+    const { events, rest } = parseStreamEvents('event: delta\ndata: {"text":"Hel' + 'lo"}\n\n');
+
+    expect(events).toEqual([{ event: 'delta', data: '{"text":"Hello"}' }]);
+    expect(rest).toBe('');
+  });
+
+  it('defaults the event name and skips blocks without data', () => {
+    const { events } = parseStreamEvents(': keep-alive\n\ndata: plain\n\n');
+
+    expect(events).toEqual([{ event: 'message', data: 'plain' }]);
+  });
+});
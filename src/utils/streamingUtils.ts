@@ -0,0 +1,140 @@
+import { supabase } from '@/integrations/supabase/client';
+import { QuotaExceededError, parseQuotaError } from './quotas';
+
+export interface StreamEvent {
+  event: string;
+  data: string;
+}
+
+export interface StreamOptions {
+  // Aborting closes the connection, which also cancels the model request server-side
+  signal?: AbortSignal;
+  // Called with each new piece of text and everything received so far
+  onDelta?: (delta: string, text: string) => void;
+  // Called for metadata events such as `start`
+  onEvent?: (event: string, data: Record<string, unknown>) => void;
+}
+
+export interface StreamResult<T> {
+  text: string;
+  // Payload of the final `done` event, null when the stream was cancelled
+  result: T | null;
+  cancelled: boolean;
+}
+
+/**
+ * Split server-sent events out of a buffer
+ * @returns Complete events and the incomplete remainder to prepend to the next chunk
+ */
+export function parseStreamEvents(buffer: string): { events: StreamEvent[]; rest: string } {
+  const blocks = buffer.replace(/\r\n/g, '\n').split('\n\n');
+  const rest = blocks.pop() || '';
+  const events: StreamEvent[] = [];
+
+  for (const block of blocks) {
+    let event = 'message';
+    const dataLines: string[] = [];
+
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+
+    if (dataLines.length > 0) {
+      events.push({ event, data: dataLines.join('\n') });
+    }
+  }
+
+  return { events, rest };
+}
+
+/**
+ * Invoke an edge function with `stream: true` and consume its event stream
+ * @param functionName Name of the Supabase edge function
+ * @param body Request body; `stream: true` is added automatically
+ * @param options Abort signal and progress callbacks
+ * @returns The streamed text plus the final payload from the `done` event
+ */
+export async function invokeStreamingFunction<T = Record<string, unknown>>(
+  functionName: string,
+  body: Record<string, unknown>,
+  { signal, onDelta, onEvent }: StreamOptions = {}
+): Promise<StreamResult<T>> {
+  const { data, error } = await supabase.functions.invoke(functionName, {
+    body: { ...body, stream: true }
+  });
+
+  if (error) {
+    // Validation and limit errors are still sent as JSON before the stream starts
+    const exceeded = await parseQuotaError(error);
+    if (exceeded) throw new QuotaExceededError(exceeded);
+
+    let message = error.message;
+    try {
+      const details = await error.context?.json();
+      if (details?.error) message = details.error;
+    } catch {
+      // Keep the generic message
+    }
+    throw new Error(message);
+  }
+
+  if (!(data instanceof Response) || !data.body) {
+    throw new Error('Invalid response format from server');
+  }
+
+  const reader = data.body.getReader();
+  const decoder = new TextDecoder();
+  const cancelReader = () => {
+    reader.cancel().catch(() => {});
+  };
+
+  if (signal?.aborted) {
+    cancelReader();
+    return { text: '', result: null, cancelled: true };
+  }
+  signal?.addEventListener('abort', cancelReader);
+
+  let buffer = '';
+  let text = '';
+  let result: T | null = null;
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      const parsed = parseStreamEvents(buffer + decoder.decode(value, { stream: true }));
+      buffer = parsed.rest;
+
+      for (const { event, data: rawData } of parsed.events) {
+        const payload = JSON.parse(rawData);
+
+        if (event === 'delta') {
+          text += payload.text;
+          onDelta?.(payload.text, text);
+        } else if (event === 'done') {
+          result = payload as T;
+        } else if (event === 'error') {
+          throw new Error(payload.error || 'Streaming failed');
+        } else {
+          onEvent?.(event, payload);
+        }
+      }
+    }
+  } catch (streamError) {
+    if (!signal?.aborted) throw streamError;
+  } finally {
+    signal?.removeEventListener('abort', cancelReader);
+  }
+
+  const cancelled = !!signal?.aborted;
+  if (!cancelled && !result) {
+    throw new Error('The response ended unexpectedly');
+  }
+
+  return { text, result: cancelled ? null : result, cancelled };
+}
@@ -1,7 +1,7 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
-import { getPrompt, ModelType } from './aiPrompts';
+import { DEFAULT_MODEL, getPrompt, ModelType } from './aiPrompts';
 
 export type SummaryModel = ModelType;
 
@@ -15,7 +15,7 @@ export interface SummarizeTextOptions {
 
 export async function summarizeText({
   text,
-  model = 'claude',
+  model = DEFAULT_MODEL,
   maxLength = 1500,
   title,
   projectId
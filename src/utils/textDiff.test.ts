@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines, diffStats, sideBySide } from './textDiff';
+
+describe('diffLines', () => {
+  it('marks identical texts as unchanged', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'same', text: 'b' },
+    ]);
+  });
+
+  it('shows removed lines before the lines that replace them', () => {
+    expect(diffLines('# Plan\nship in May\nowner: Sam', '# Plan\nship in June\nowner: Sam')).toEqual([
+      { type: 'same', text: '# Plan' },
+      { type: 'removed', text: 'ship in May' },
+      { type: 'added', text: 'ship in June' },
+      { type: 'same', text: 'owner: Sam' },
+    ]);
+  });
+
+  it('keeps lines common to both texts in between changes', () => {
+    const lines = diffLines('one\ntwo\nthree\nfour', 'zero\none\nthree\nfour\nfive');
+
+    expect(lines.map(line => `${line.type[0]} ${line.text}`)).toEqual([
+      'a zero', 's one', 'r two', 's three', 's four', 'a five',
+    ]);
+    expect(diffStats(lines)).toEqual({ added: 2, removed: 1 });
+  });
+});
+
+describe('sideBySide', () => {
+  it('puts replaced lines next to their replacements', () => {
+    const rows = sideBySide(diffLines('title\nold one\nold two\nend', 'title\nnew one\nend\nextra'));
+
+    expect(rows.map(row => [row.before?.text ?? null, row.after?.text ?? null])).toEqual([
+      ['title', 'title'],
+      ['old one', 'new one'],
+      ['old two', null],
+      ['end', 'end'],
+      [null, 'extra'],
+    ]);
+  });
+});
@@ -0,0 +1,118 @@
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+// Above this many changed lines on each side the diff stops looking for
+// matches in the middle and shows the section as replaced
+const MAX_DIFF_LINES = 2000;
+
+/**
+ * Line-by-line diff of two texts, in reading order: lines only in `before` are
+ * removed, lines only in `after` are added.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Lines shared at the start and end need no table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const head: DiffLine[] = a.slice(0, start).map(text => ({ type: 'same', text }));
+  const tail: DiffLine[] = a.slice(endA).map(text => ({ type: 'same', text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length > MAX_DIFF_LINES || midB.length > MAX_DIFF_LINES) {
+    return [
+      ...head,
+      ...midA.map(text => ({ type: 'removed' as const, text })),
+      ...midB.map(text => ({ type: 'added' as const, text })),
+      ...tail,
+    ];
+  }
+
+  // lengths[i * width + j]: longest common subsequence of midA[i..] and midB[j..]
+  const width = midB.length + 1;
+  const lengths = new Uint32Array((midA.length + 1) * width);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = midA[i] === midB[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      middle.push({ type: 'same', text: midA[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      middle.push({ type: 'removed', text: midA[i++] });
+    } else {
+      middle.push({ type: 'added', text: midB[j++] });
+    }
+  }
+  while (i < midA.length) middle.push({ type: 'removed', text: midA[i++] });
+  while (j < midB.length) middle.push({ type: 'added', text: midB[j++] });
+
+  return [...head, ...middle, ...tail];
+}
+
+export function diffStats(lines: DiffLine[]): { added: number; removed: number } {
+  return {
+    added: lines.filter(line => line.type === 'added').length,
+    removed: lines.filter(line => line.type === 'removed').length,
+  };
+}
+
+export interface SideBySideRow {
+  before: DiffLine | null;
+  after: DiffLine | null;
+}
+
+/**
+ * Lays a diff out in two columns: unchanged lines on both sides, and each run
+ * of changes with its removed lines on the left next to the lines that
+ * replaced them on the right.
+ */
+export function sideBySide(lines: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flushChanges = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ before: removed[k] ?? null, after: added[k] ?? null });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === 'removed') {
+      removed.push(line);
+    } else if (line.type === 'added') {
+      added.push(line);
+    } else {
+      flushChanges();
+      rows.push({ before: line, after: line });
+    }
+  }
+  flushChanges();
+
+  return rows;
+}
@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import { daysUntilPurge } from './trashUtils';
+
+describe('daysUntilPurge', () => {
+  const now = new Date('2026-10-19T12:00:00.000Z');
+
+  it('counts whole days left in the retention window', () => {
+    expect(daysUntilPurge('2026-10-19T12:00:00.000Z', now)).toBe(30);
+    expect(daysUntilPurge('2026-10-09T18:00:00.000Z', now)).toBe(21);
+  });
+
+  it('never goes below zero for overdue items', () => {
+    expect(daysUntilPurge('2026-08-01T00:00:00.000Z', now)).toBe(0);
+  });
+});
@@ -0,0 +1,81 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type TrashItemType = 'project' | 'note' | 'document' | 'image';
+
+// Keep in sync with TRASH_RETENTION_DAYS in supabase/functions/_shared/trash.ts
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrashItem {
+  item_type: TrashItemType;
+  id: string;
+  project_id: string;
+  project_title: string;
+  title: string;
+  deleted_at: string;
+  deleted_by_name: string | null;
+}
+
+export const TRASH_ITEM_LABELS: Record<TrashItemType, string> = {
+  project: 'Brain',
+  note: 'Note',
+  document: 'Document',
+  image: 'Image',
+};
+
+/**
+ * Moves a brain, note, document or image to the trash. It disappears for every
+ * member of the brain and can be restored until it is purged.
+ */
+export const moveToTrash = async (itemType: TrashItemType, itemId: string): Promise<void> => {
+  const { error } = await supabase.rpc('move_to_trash', {
+    p_item_type: itemType,
+    p_item_id: itemId
+  });
+
+  if (error) throw error;
+};
+
+/**
+ * Puts a trashed item back where it was
+ */
+export const restoreFromTrash = async (itemType: TrashItemType, itemId: string): Promise<void> => {
+  const { error } = await supabase.rpc('restore_from_trash', {
+    p_item_type: itemType,
+    p_item_id: itemId
+  });
+
+  if (error) throw error;
+};
+
+/**
+ * Permanently deletes a trashed item, its dependent rows and its files
+ */
+export const deleteForever = async (itemType: TrashItemType, itemId: string): Promise<void> => {
+  const { data, error } = await supabase.functions.invoke('purge-trash', {
+    body: { itemType, itemId }
+  });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+};
+
+/**
+ * Everything the current user can see in the trash, most recently deleted first
+ */
+export const fetchTrash = async (): Promise<TrashItem[]> => {
+  const { data, error } = await supabase.rpc('get_trash');
+
+  if (error) throw error;
+
+  return (data || []) as TrashItem[];
+};
+
+/**
+ * Whole days left before a trashed item is purged, never below zero
+ */
+export const daysUntilPurge = (deletedAt: string, now: Date = new Date()): number => {
+  const purgeAt = new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS;
+  return Math.max(0, Math.ceil((purgeAt - now.getTime()) / DAY_MS));
+};
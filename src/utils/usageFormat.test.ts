@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { formatCost, formatTokens } from './usageFormat';
+
+describe('formatTokens', () => {
+  it('abbreviates thousands and millions', () => {
+    expect(formatTokens(950)).toBe('950');
+    expect(formatTokens(12345)).toBe('12.3k');
+    expect(formatTokens(40000)).toBe('40k');
+    expect(formatTokens(2500000)).toBe('2.5M');
+  });
+});
+
+describe('formatCost', () => {
+  it('shows cents and flags amounts below a cent', () => {
+    expect(formatCost(0)).toBe('$0');
+    expect(formatCost(0.0027)).toBe('<$0.01');
+    expect(formatCost(1.5)).toBe('$1.50');
+  });
+});
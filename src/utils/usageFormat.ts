@@ -0,0 +1,27 @@
+import { UsageFeature } from '@/types/user';
+
+export const FEATURE_LABELS: Record<UsageFeature, string> = {
+  chat: 'Chat',
+  summary: 'Summaries',
+  clean: 'Text clean-up',
+  metadata: 'Titles & tags',
+  image_analysis: 'Image analysis',
+  indexing: 'Search indexing',
+  other: 'Other',
+};
+
+// 950 -> "950", 12_345 -> "12.3k", 2_500_000 -> "2.5M"
+export function formatTokens(tokens: number): string {
+  if (tokens < 1000) return String(Math.round(tokens));
+  if (tokens < 1_000_000) return `${trimZero(tokens / 1000)}k`;
+  return `${trimZero(tokens / 1_000_000)}M`;
+}
+
+// Estimated dollars; amounts that round to nothing still show they are not free
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0';
+  if (usd < 0.01) return '<$0.01';
+  return `$${usd.toFixed(2)}`;
+}
+
+const trimZero = (value: number) => value.toFixed(1).replace(/\.0$/, '');
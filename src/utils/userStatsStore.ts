@@ -0,0 +1,31 @@
+import { UserStats } from '@/types/user';
+
+// The last user-statistics response, shared by the profile dialog, the
+// subscription page and feature checks
+let globalUserStats: UserStats = {
+  apiCalls: 0,
+  dailyApiCalls: 0,
+  ownedBrains: 0,
+  sharedBrains: 0,
+  documents: 0,
+  usage: null,
+  quotas: []
+};
+
+export const getUserStats = (): UserStats => {
+  return globalUserStats;
+};
+
+// Reads a user-statistics response and remembers it for getUserStats()
+export const storeUserStats = (data: Partial<UserStats>): UserStats => {
+  globalUserStats = {
+    apiCalls: data.apiCalls ?? 0,
+    dailyApiCalls: data.dailyApiCalls ?? 0,
+    ownedBrains: data.ownedBrains ?? 0,
+    sharedBrains: data.sharedBrains ?? 0,
+    documents: data.documents ?? 0,
+    usage: data.usage ?? null,
+    quotas: data.quotas ?? []
+  };
+  return globalUserStats;
+};
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { parseFrontMatter, planVaultImport, rewriteVaultNote, vaultNoteTags } from './vaultImport';
+
+const zipOf = async (files: Record<string, string | Uint8Array>) => {
+  const zip = new JSZip();
+  for (const [path, content] of Object.entries(files)) zip.file(path, content);
+  return zip.generateAsync({ type: 'uint8array' });
+};
+
+describe('parseFrontMatter', () => {
+  it('reads scalars, flow lists and block lists', () => {
+    const { fields, body } = parseFrontMatter('---\ntitle: "Weekly review"\naliases: [review]\ntags:\n  - work\n  - "#planning"\n---\nBody text');
+
+    expect(fields).toEqual({ title: 'Weekly review', aliases: '[review]', tags: ['work', '#planning'] });
+    expect(body).toBe('Body text');
+  });
+
+  it('leaves notes without front-matter alone', () => {
+    expect(parseFrontMatter('# Heading\n---\ntext')).toEqual({ fields: {}, body: '# Heading\n---\ntext' });
+  });
+});
+
+describe('vaultNoteTags', () => {
+  it('combines front-matter tags with folder names', () => {
+    expect(vaultNoteTags({ tags: ['work', '#planning'] }, 'Projects/Alpha/Kickoff.md')).toEqual(['work', 'planning', 'Projects', 'Alpha']);
+    expect(vaultNoteTags({ tags: 'a, b #c', tag: 'A' }, 'Inbox.md')).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('planVaultImport', () => {
+  it('plans notes, links and embedded images without writing anything', async () => {
+    const plan = await planVaultImport(await zipOf({
+      'Vault/.obsidian/app.json': '{}',
+      'Vault/Home.md': '---\ntags: [index]\n---\nSee [[Projects/Alpha|the alpha]], [[Beta#Goals]] and [[Gamma]].\n![[diagram.png]]',
+      'Vault/Projects/Alpha.md': '---\ntitle: Alpha project\n---\nBack to [Home](../Home.md). ![chart](../assets/chart%201.png)',
+      'Vault/Beta.md': 'Beta notes',
+      'Vault/assets/diagram.png': new Uint8Array([1]),
+      'Vault/assets/chart 1.png': new Uint8Array([2]),
+      'Vault/assets/unused.png': new Uint8Array([3]),
+      'Vault/attachments/report.pdf': new Uint8Array([4]),
+    }));
+
+    expect(plan.notes.map(note => [note.path, note.title, note.tags, note.linkCount])).toEqual([
+      ['Beta.md', 'Beta', [], 0],
+      ['Home.md', 'Home', ['index'], 2],
+      ['Projects/Alpha.md', 'Alpha project', ['Projects'], 1],
+    ]);
+    expect(plan.images.map(image => image.path).sort()).toEqual(['assets/chart 1.png', 'assets/diagram.png']);
+    expect(plan.unresolvedLinks).toEqual([{ notePath: 'Home.md', target: 'Gamma' }]);
+    expect(plan.missingImages).toEqual([]);
+    expect(plan.skippedFiles).toEqual(['assets/unused.png', 'attachments/report.pdf']);
+  });
+
+  it('rewrites links to imported titles and images to their uploaded URLs', async () => {
+    const plan = await planVaultImport(await zipOf({
+      'Home.md': 'See [[Projects/Alpha|the alpha]], [[Beta#Goals]] and [[Gamma]].\n![[diagram.png|300]]',
+      'Projects/Alpha.md': '---\ntitle: Alpha project\n---\nBack to [Home](../Home.md).',
+      'Beta.md': 'Beta notes',
+      'diagram.png': new Uint8Array([1]),
+    }));
+
+    const home = plan.notes.find(note => note.path === 'Home.md')!;
+    const alpha = plan.notes.find(note => note.path === 'Projects/Alpha.md')!;
+    const urls = new Map([['diagram.png', 'https://cdn.example/diagram.png']]);
+
+    expect(rewriteVaultNote(home.body, home.path, plan.index, urls).content).toBe(
+      'See [[Alpha project|the alpha]], [[Beta]] and Gamma.\n![diagram](https://cdn.example/diagram.png)'
+    );
+    expect(rewriteVaultNote(alpha.body, alpha.path, plan.index).content).toBe('Back to [[Home]].');
+    // Not uploaded yet, so the embed keeps its original form
+    expect(rewriteVaultNote(home.body, home.path, plan.index).content).toContain('![[diagram.png|300]]');
+  });
+
+  it('rejects archives without Markdown files', async () => {
+    await expect(planVaultImport(await zipOf({ 'photo.png': new Uint8Array([1]) }))).rejects.toThrow('No Markdown files');
+  });
+});
@@ -0,0 +1,421 @@
+import JSZip from 'jszip';
+import { supabase } from '@/integrations/supabase/client';
+import { sanitizeFileName } from '@/components/image-upload/utils/imageProcessing';
+import { IMAGES_BUCKET, createProjectImage } from '@/utils/imageUtils';
+
+// Imports a zipped Markdown folder, such as an Obsidian vault, into a brain.
+// planVaultImport() reads the zip without touching the database so the page
+// can show what will be created; importVault() then carries the plan out.
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  bmp: 'image/bmp',
+  avif: 'image/avif',
+};
+
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+const NOTE_INSERT_BATCH_SIZE = 50;
+
+// Obsidian settings, trash and archive-tool folders are never content
+const IGNORED_PATH = /(^|\/)(\.[^/]*|__MACOSX)(\/|$)/;
+
+export interface VaultNotePlan {
+  path: string;
+  title: string;
+  tags: string[];
+  body: string;
+  linkCount: number;
+  imagePaths: string[];
+}
+
+export interface VaultImagePlan {
+  path: string;
+  name: string;
+  mimeType: string;
+  data: Uint8Array;
+}
+
+export interface VaultImportPlan {
+  notes: VaultNotePlan[];
+  index: VaultIndex;
+  images: VaultImagePlan[];
+  unresolvedLinks: { notePath: string; target: string }[];
+  missingImages: { notePath: string; target: string }[];
+  skippedFiles: string[];
+}
+
+export class VaultImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultImportError';
+  }
+}
+
+const extensionOf = (path: string) => path.split('.').pop()?.toLowerCase() || '';
+const baseName = (path: string) => path.split('/').pop() || path;
+const dirName = (path: string) => path.split('/').slice(0, -1).join('/');
+const stripMarkdownExtension = (path: string) => path.replace(/\.md$/i, '');
+
+const normalizePath = (path: string): string => {
+  const parts: string[] = [];
+  for (const part of path.split('/')) {
+    if (!part || part === '.') continue;
+    if (part === '..') parts.pop();
+    else parts.push(part);
+  }
+  return parts.join('/');
+};
+
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+const toTagList = (value: string): string[] =>
+  value
+    .replace(/^\[|\]$/g, '')
+    .split(/[,\s]+/)
+    .map(tag => tag.replace(/^["']|["']$/g, '').replace(/^#/, '').trim())
+    .filter(Boolean);
+
+/**
+ * Splits a note into its YAML front-matter fields and body. Only the parts of
+ * YAML that vaults use for metadata are understood: scalars, flow lists and
+ * block lists.
+ */
+export const parseFrontMatter = (markdown: string): { fields: Record<string, string | string[]>; body: string } => {
+  const text = markdown.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n');
+  const match = text.match(/^---\n([\s\S]*?)\n---[ \t]*(\n|$)/);
+  if (!match) return { fields: {}, body: text };
+
+  const fields: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+
+  for (const line of match[1].split('\n')) {
+    const item = line.match(/^\s+-\s*(.*)$/) || line.match(/^-\s+(.*)$/);
+    if (item && listKey) {
+      const list = Array.isArray(fields[listKey]) ? fields[listKey] as string[] : [];
+      fields[listKey] = [...list, item[1].replace(/^["']|["']$/g, '').trim()];
+      continue;
+    }
+
+    const field = line.match(/^([A-Za-z0-9_-]+):\s*(.*)$/);
+    if (!field) continue;
+
+    const value = field[2].trim();
+    listKey = value ? null : field[1];
+    fields[field[1]] = value.replace(/^"(.*)"$/, '$1').replace(/^'(.*)'$/, '$1');
+  }
+
+  return { fields, body: text.slice(match[0].length) };
+};
+
+/**
+ * Tags from the front-matter (`tags` or `tag`) and from the folders the note
+ * sits in, without duplicates
+ */
+export const vaultNoteTags = (fields: Record<string, string | string[]>, path: string): string[] => {
+  const tags: string[] = [];
+
+  for (const key of ['tags', 'tag']) {
+    const value = fields[key];
+    if (Array.isArray(value)) tags.push(...value.flatMap(toTagList));
+    else if (value) tags.push(...toTagList(value));
+  }
+
+  tags.push(...dirName(path).split('/').map(folder => folder.trim()).filter(Boolean));
+
+  const seen = new Set<string>();
+  return tags.filter(tag => {
+    const key = tag.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export interface VaultIndex {
+  // lower-cased path without .md, and lower-cased file name without .md
+  notesByPath: Map<string, string>;
+  notesByName: Map<string, string>;
+  titles: Map<string, string>;
+  imagesByPath: Map<string, string>;
+  imagesByName: Map<string, string>;
+}
+
+const resolveNote = (index: VaultIndex, target: string, fromPath: string): string | undefined => {
+  const key = stripMarkdownExtension(safeDecode(target)).toLowerCase();
+  return index.notesByPath.get(normalizePath(`${dirName(fromPath)}/${key}`).toLowerCase())
+    || index.notesByPath.get(normalizePath(key))
+    || index.notesByName.get(baseName(key));
+};
+
+const resolveImage = (index: VaultIndex, target: string, fromPath: string): string | undefined => {
+  const key = safeDecode(target).toLowerCase();
+  return index.imagesByPath.get(normalizePath(`${dirName(fromPath)}/${key}`).toLowerCase())
+    || index.imagesByPath.get(normalizePath(key))
+    || index.imagesByName.get(baseName(key));
+};
+
+interface RewriteResult {
+  content: string;
+  linkCount: number;
+  imagePaths: string[];
+  unresolvedLinks: string[];
+  missingImages: string[];
+}
+
+/**
+ * Rewrites a note body for the brain: links between notes become [[Title]]
+ * links to the imported notes, and embedded images point at `imageUrls` once
+ * they are uploaded. Links to notes outside the vault are left as plain text.
+ */
+export const rewriteVaultNote = (
+  body: string,
+  notePath: string,
+  index: VaultIndex,
+  imageUrls: Map<string, string> = new Map()
+): RewriteResult => {
+  const result: RewriteResult = { content: '', linkCount: 0, imagePaths: [], unresolvedLinks: [], missingImages: [] };
+
+  // Until an image is uploaded the note keeps its original reference
+  const embedImage = (imagePath: string, alt: string, original: string) => {
+    if (!result.imagePaths.includes(imagePath)) result.imagePaths.push(imagePath);
+    const url = imageUrls.get(imagePath);
+    return url ? `![${alt}](${url})` : original;
+  };
+
+  // [[Note]], [[Note#Heading|Alias]], ![[image.png|300]] and ![[Note]]
+  let content = body.replace(/(!?)\[\[([^\]|#\n]*)(#[^\]|\n]*)?(?:\|([^\]\n]*))?\]\]/g, (whole, embed, target, _heading, alias) => {
+    const name = target.trim();
+
+    if (embed && IMAGE_TYPES[extensionOf(name)]) {
+      const imagePath = resolveImage(index, name, notePath);
+      if (!imagePath) {
+        result.missingImages.push(name);
+        return whole;
+      }
+      return embedImage(imagePath, baseName(imagePath).replace(/\.[^.]+$/, ''), whole);
+    }
+
+    const linkedPath = name ? resolveNote(index, name, notePath) : undefined;
+    if (!linkedPath) {
+      if (name) result.unresolvedLinks.push(name);
+      return alias?.trim() || name;
+    }
+
+    result.linkCount++;
+    const title = index.titles.get(linkedPath)!;
+    return alias?.trim() && alias.trim() !== title ? `[[${title}|${alias.trim()}]]` : `[[${title}]]`;
+  });
+
+  // ![alt](relative/image.png) and [text](Other%20note.md)
+  content = content.replace(/(!?)\[([^\]\n]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (whole, embed, text, href) => {
+    if (/^[a-z][a-z0-9+.-]*:/i.test(href) || href.startsWith('#')) return whole;
+
+    const target = href.split('#')[0];
+
+    if (embed) {
+      if (!IMAGE_TYPES[extensionOf(target)]) return whole;
+      const imagePath = resolveImage(index, target, notePath);
+      if (!imagePath) {
+        result.missingImages.push(safeDecode(target));
+        return whole;
+      }
+      return embedImage(imagePath, text, whole);
+    }
+
+    if (!/\.md$/i.test(target)) return whole;
+
+    const linkedPath = resolveNote(index, target, notePath);
+    if (!linkedPath) {
+      result.unresolvedLinks.push(safeDecode(target));
+      return text;
+    }
+
+    result.linkCount++;
+    const title = index.titles.get(linkedPath)!;
+    return text && text !== title ? `[[${title}|${text}]]` : `[[${title}]]`;
+  });
+
+  result.content = content;
+  return result;
+};
+
+const buildIndex = (notes: { path: string; title: string }[], imagePaths: string[]): VaultIndex => {
+  const index: VaultIndex = {
+    notesByPath: new Map(),
+    notesByName: new Map(),
+    titles: new Map(),
+    imagesByPath: new Map(),
+    imagesByName: new Map(),
+  };
+
+  for (const note of notes) {
+    const key = stripMarkdownExtension(note.path).toLowerCase();
+    index.notesByPath.set(key, note.path);
+    // Like Obsidian, a bare name links to the first note with that name
+    if (!index.notesByName.has(baseName(key))) index.notesByName.set(baseName(key), note.path);
+    index.titles.set(note.path, note.title);
+  }
+
+  for (const path of imagePaths) {
+    index.imagesByPath.set(path.toLowerCase(), path);
+    if (!index.imagesByName.has(baseName(path).toLowerCase())) index.imagesByName.set(baseName(path).toLowerCase(), path);
+  }
+
+  return index;
+};
+
+/**
+ * Reads a zipped vault and works out what importing it would create, without
+ * writing anything
+ */
+export const planVaultImport = async (data: Blob | ArrayBuffer | Uint8Array): Promise<VaultImportPlan> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new VaultImportError('This file is not a zip archive');
+  }
+
+  const entries = Object.values(zip.files).filter(file => !file.dir && !IGNORED_PATH.test(file.name));
+
+  // A vault zipped as a folder has every file under one top-level directory,
+  // which is the vault's name rather than a folder worth tagging
+  const topLevel = new Set(entries.map(file => file.name.split('/')[0]));
+  const root = topLevel.size === 1 && entries.every(file => file.name.includes('/')) ? `${[...topLevel][0]}/` : '';
+  const relative = (name: string) => name.slice(root.length);
+
+  const skippedFiles: string[] = [];
+  const rawNotes: { path: string; title: string; tags: string[]; body: string }[] = [];
+  const imageFiles = new Map<string, JSZip.JSZipObject>();
+
+  for (const file of entries) {
+    const path = relative(file.name);
+    const extension = extensionOf(path);
+
+    if (extension === 'md') {
+      const { fields, body } = parseFrontMatter(await file.async('string'));
+      const title = typeof fields.title === 'string' && fields.title.trim()
+        ? fields.title.trim()
+        : stripMarkdownExtension(baseName(path));
+
+      rawNotes.push({ path, title, tags: vaultNoteTags(fields, path), body: body.replace(/^\n+/, '') });
+    } else if (IMAGE_TYPES[extension]) {
+      imageFiles.set(path, file);
+    } else {
+      skippedFiles.push(path);
+    }
+  }
+
+  if (rawNotes.length === 0) {
+    throw new VaultImportError('No Markdown files were found in this archive');
+  }
+
+  rawNotes.sort((a, b) => a.path.localeCompare(b.path));
+
+  const index = buildIndex(rawNotes, [...imageFiles.keys()]);
+  const unresolvedLinks: VaultImportPlan['unresolvedLinks'] = [];
+  const missingImages: VaultImportPlan['missingImages'] = [];
+  const embeddedImages = new Set<string>();
+
+  const notes = rawNotes.map(note => {
+    const rewritten = rewriteVaultNote(note.body, note.path, index);
+
+    rewritten.imagePaths.forEach(path => embeddedImages.add(path));
+    unresolvedLinks.push(...rewritten.unresolvedLinks.map(target => ({ notePath: note.path, target })));
+    missingImages.push(...rewritten.missingImages.map(target => ({ notePath: note.path, target })));
+
+    return { ...note, linkCount: rewritten.linkCount, imagePaths: rewritten.imagePaths };
+  });
+
+  // Only images that notes embed go to the gallery
+  const images: VaultImagePlan[] = [];
+  for (const [path, file] of imageFiles) {
+    if (!embeddedImages.has(path)) {
+      skippedFiles.push(path);
+      continue;
+    }
+
+    const imageData = await file.async('uint8array');
+    if (imageData.byteLength > MAX_IMAGE_SIZE) {
+      skippedFiles.push(path);
+      continue;
+    }
+
+    images.push({ path, name: baseName(path), mimeType: IMAGE_TYPES[extensionOf(path)], data: imageData });
+  }
+
+  return { notes, images, unresolvedLinks, missingImages, skippedFiles: skippedFiles.sort(), index };
+};
+
+/**
+ * Uploads the plan's images to the brain's gallery and creates its notes.
+ * Images that fail to upload keep their original reference in the note.
+ */
+export const importVault = async (
+  plan: VaultImportPlan,
+  projectId: string,
+  userId: string,
+  onProgress?: (message: string) => void
+): Promise<{ notesCreated: number; imagesUploaded: number; failedImages: number }> => {
+  const imageUrls = new Map<string, string>();
+  let failedImages = 0;
+
+  for (const [i, image] of plan.images.entries()) {
+    onProgress?.(`Uploading images (${i + 1}/${plan.images.length})…`);
+
+    const storagePath = `${projectId}/${sanitizeFileName(`${Date.now()}-${image.name}`)}`;
+    const blob = new Blob([image.data], { type: image.mimeType });
+
+    const { error: uploadError } = await supabase.storage
+      .from(IMAGES_BUCKET)
+      .upload(storagePath, blob, { cacheControl: '3600', upsert: false });
+
+    if (uploadError) {
+      console.error(`Error uploading ${image.path}:`, uploadError);
+      failedImages++;
+      continue;
+    }
+
+    try {
+      const created = await createProjectImage({ projectId, userId, storagePath, fileName: image.name, file: blob });
+      imageUrls.set(image.path, created.url);
+    } catch (error) {
+      console.error(`Error saving ${image.path}:`, error);
+      await supabase.storage.from(IMAGES_BUCKET).remove([storagePath]);
+      failedImages++;
+    }
+  }
+
+  const rows = plan.notes.map(note => ({
+    project_id: projectId,
+    user_id: userId,
+    title: note.title,
+    content: rewriteVaultNote(note.body, note.path, plan.index, imageUrls).content,
+    tags: note.tags,
+  }));
+
+  let notesCreated = 0;
+  for (let i = 0; i < rows.length; i += NOTE_INSERT_BATCH_SIZE) {
+    onProgress?.(`Creating notes (${Math.min(i + NOTE_INSERT_BATCH_SIZE, rows.length)}/${rows.length})…`);
+
+    const { error } = await supabase
+      .from('project_notes')
+      .insert(rows.slice(i, i + NOTE_INSERT_BATCH_SIZE));
+
+    if (error) throw error;
+    notesCreated += Math.min(NOTE_INSERT_BATCH_SIZE, rows.length - i);
+  }
+
+  return { notesCreated, imagesUploaded: imageUrls.size, failedImages };
+};
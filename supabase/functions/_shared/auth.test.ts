@@ -0,0 +1,185 @@
+
+import { describe, it, expect } from 'vitest';
+import { readdirSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import {
+  AuthError,
+  authenticateRequest,
+  authErrorResponse,
+  requireProjectAccess,
+  resolveActingUserId,
+} from './auth.ts';
+
+const SERVICE_KEY = 'service-role-key';
+
+interface FakeData {
+  users?: Record<string, { id: string; email: string }>;
+  projects?: { id: string; owner_id: string; deleted_at?: string; workspace_id?: string }[];
+  members?: { project_id: string; user_id: string; role: string }[];
+  seats?: { workspace_id: string; user_id: string; role: string }[];
+}
+
+// Just enough of the client for auth.getUser and the maybeSingle lookups in auth.ts
+const fakeSupabase = ({ users = {}, projects = [], members = [], seats = [] }: FakeData) => {
+  const tables: Record<string, Record<string, string>[]> = {
+    projects,
+    project_members: members,
+    workspace_members: seats,
+  };
+
+  return {
+    auth: {
+      getUser: async (token: string) => users[token]
+        ? { data: { user: users[token] }, error: null }
+        : { data: { user: null }, error: { message: 'invalid JWT' } },
+    },
+    from: (table: string) => {
+      const filters: [string, string][] = [];
+      const query = {
+        select: () => query,
+        eq: (column: string, value: string) => {
+          filters.push([column, value]);
+          return query;
+        },
+        maybeSingle: async () => ({
+          data: tables[table].find(row => filters.every(([column, value]) => row[column] === value)) ?? null,
+          error: null,
+        }),
+      };
+      return query;
+    },
+  } as unknown as SupabaseClient;
+};
+
+const requestWith = (authorization?: string) =>
+  new Request('http://localhost/fn', { headers: authorization ? { Authorization: authorization } : {} });
+
+const alice = { userId: 'alice', email: 'alice@example.com', isServiceRole: false };
+const service = { userId: null, email: null, isServiceRole: true };
+
+const supabase = fakeSupabase({
+  users: { 'alice-token': { id: 'alice', email: 'alice@example.com' } },
+  projects: [
+    { id: 'brain-1', owner_id: 'bob' },
+    { id: 'brain-2', owner_id: 'alice' },
+    { id: 'brain-3', owner_id: 'alice', deleted_at: '2026-10-01T00:00:00Z' },
+    { id: 'brain-4', owner_id: 'bob', workspace_id: 'acme' },
+    { id: 'brain-5', owner_id: 'carol', workspace_id: 'acme' },
+  ],
+  members: [
+    { project_id: 'brain-1', user_id: 'alice', role: 'viewer' },
+    { project_id: 'brain-5', user_id: 'alice', role: 'admin' },
+  ],
+  seats: [{ workspace_id: 'acme', user_id: 'alice', role: 'member' }],
+});
+
+describe('authenticateRequest', () => {
+  it('resolves the user behind a session token', async () => {
+    await expect(authenticateRequest(supabase, requestWith('Bearer alice-token'), SERVICE_KEY))
+      .resolves.toEqual(alice);
+  });
+
+  it('recognises the service-role key', async () => {
+    await expect(authenticateRequest(supabase, requestWith(`Bearer ${SERVICE_KEY}`), SERVICE_KEY))
+      .resolves.toEqual(service);
+  });
+
+  it('rejects missing and invalid tokens with 401', async () => {
+    await expect(authenticateRequest(supabase, requestWith(), SERVICE_KEY))
+      .rejects.toMatchObject({ status: 401 });
+    await expect(authenticateRequest(supabase, requestWith('Bearer anon-key'), SERVICE_KEY))
+      .rejects.toMatchObject({ status: 401, message: 'Invalid or expired session' });
+  });
+});
+
+describe('resolveActingUserId', () => {
+  it('lets users act only as themselves', () => {
+    expect(resolveActingUserId(alice)).toBe('alice');
+    expect(resolveActingUserId(alice, 'alice')).toBe('alice');
+    expect(() => resolveActingUserId(alice, 'bob')).toThrow(AuthError);
+  });
+
+  it('requires an explicit user for service-role calls', () => {
+    expect(resolveActingUserId(service, 'bob')).toBe('bob');
+    expect(() => resolveActingUserId(service)).toThrow(AuthError);
+  });
+});
+
+describe('requireProjectAccess', () => {
+  it('returns the caller role when it meets the minimum', async () => {
+    await expect(requireProjectAccess(supabase, alice, 'brain-2', 'editor')).resolves.toBe('owner');
+    await expect(requireProjectAccess(supabase, alice, 'brain-1')).resolves.toBe('viewer');
+  });
+
+  it('rejects members below the required role', async () => {
+    await expect(requireProjectAccess(supabase, alice, 'brain-1', 'editor'))
+      .rejects.toMatchObject({ status: 403 });
+  });
+
+  it('rejects non-members and unknown projects', async () => {
+    const mallory = { userId: 'mallory', email: null, isServiceRole: false };
+    await expect(requireProjectAccess(supabase, mallory, 'brain-2')).rejects.toMatchObject({ status: 403 });
+    await expect(requireProjectAccess(supabase, alice, 'missing')).rejects.toMatchObject({ status: 404 });
+    await expect(requireProjectAccess(supabase, alice, undefined)).rejects.toMatchObject({ status: 403 });
+  });
+
+  it('gives workspace members a role in the workspace brains, keeping a higher brain role', async () => {
+    await expect(requireProjectAccess(supabase, alice, 'brain-4', 'editor')).resolves.toBe('editor');
+    await expect(requireProjectAccess(supabase, alice, 'brain-4', 'admin')).rejects.toMatchObject({ status: 403 });
+    await expect(requireProjectAccess(supabase, alice, 'brain-5', 'admin')).resolves.toBe('admin');
+  });
+
+  it('treats brains in the trash as missing, even for their owner', async () => {
+    await expect(requireProjectAccess(supabase, alice, 'brain-3')).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('trusts the service role', async () => {
+    await expect(requireProjectAccess(supabase, service, 'brain-1', 'admin')).resolves.toBe('owner');
+  });
+});
+
+describe('authErrorResponse', () => {
+  it('only converts auth errors', async () => {
+    const response = authErrorResponse(new AuthError('Nope', 403), {});
+    expect(response?.status).toBe(403);
+    expect(await response?.json()).toEqual({ error: 'Nope' });
+    expect(authErrorResponse(new Error('boom'), {})).toBeNull();
+  });
+});
+
+// Every deployed function must authenticate its caller, ignore user ids from
+// the body unless they match the caller, and check the role of any project it
+// touches. The Stripe webhook is called by Stripe itself and verifies the
+// event signature instead.
+const PUBLIC_FUNCTIONS = ['process-stripe-webhook'];
+
+describe('edge function coverage', () => {
+  const functionsDir = join(__dirname, '..');
+  const functionSources = readdirSync(functionsDir)
+    .filter(name => !name.startsWith('_') && !PUBLIC_FUNCTIONS.includes(name))
+    .filter(name => statSync(join(functionsDir, name)).isDirectory())
+    .map(name => [name, readdirSync(join(functionsDir, name))
+      .filter(file => file.endsWith('.ts') && !file.endsWith('.test.ts'))
+      .map(file => readFileSync(join(functionsDir, name, file), 'utf8'))
+      .join('\n')] as const);
+
+  it.each(functionSources)('%s authenticates its caller', (_name, sources) => {
+    expect(sources).toContain('authenticateRequest(');
+  });
+
+  // caller.userId is already the authenticated user
+  it.each(functionSources.filter(([, sources]) => /(?<!caller\.)\buserId\b/.test(sources)))(
+    '%s resolves the acting user from the session',
+    (_name, sources) => {
+      expect(sources).toContain('resolveActingUserId(');
+    }
+  );
+
+  it.each(functionSources.filter(([, sources]) => sources.includes('projectId')))(
+    '%s checks project access',
+    (_name, sources) => {
+      expect(sources).toContain('requireProjectAccess(');
+    }
+  );
+});
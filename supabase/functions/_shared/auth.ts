@@ -0,0 +1,166 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+// Request authentication and project authorization shared by the edge functions.
+//
+// Functions run with the service-role key, which bypasses row level security,
+// so they must never trust a user id or project id from the request body.
+// authenticateRequest derives the caller from the Authorization JWT and
+// requireProjectAccess checks ownership, project_members or the brain's
+// workspace before any project data is read or written.
+
+export type ProjectRole = 'owner' | 'admin' | 'editor' | 'viewer';
+
+// Higher ranks include every permission of the lower ones
+const ROLE_RANK: Record<ProjectRole, number> = {
+  viewer: 1,
+  editor: 2,
+  admin: 3,
+  owner: 4,
+};
+
+// The brain role a workspace role grants in the workspace's brains.
+// Keep in sync with project_role() in the workspaces migration.
+const WORKSPACE_BRAIN_ROLES: Record<string, ProjectRole> = {
+  owner: 'admin',
+  admin: 'admin',
+  member: 'editor',
+};
+
+export interface AuthenticatedCaller {
+  // Null for trusted server-to-server calls made with the service-role key
+  userId: string | null;
+  email: string | null;
+  isServiceRole: boolean;
+}
+
+export class AuthError extends Error {
+  constructor(message: string, public status: 401 | 403 | 404) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+function bearerToken(req: Request): string | null {
+  const header = req.headers.get('Authorization') || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+// Resolves the caller from the Authorization header. The anon key is not a
+// user session, so it is rejected like a missing header.
+export async function authenticateRequest(
+  supabase: SupabaseClient,
+  req: Request,
+  serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+): Promise<AuthenticatedCaller> {
+  const token = bearerToken(req);
+  if (!token) {
+    throw new AuthError('Missing authorization header', 401);
+  }
+
+  if (serviceRoleKey && token === serviceRoleKey) {
+    return { userId: null, email: null, isServiceRole: true };
+  }
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data?.user) {
+    throw new AuthError('Invalid or expired session', 401);
+  }
+
+  return { userId: data.user.id, email: data.user.email ?? null, isServiceRole: false };
+}
+
+// The user a request acts for. Users always act as themselves; a userId in
+// the body is only honoured for service-role calls from other functions.
+export function resolveActingUserId(caller: AuthenticatedCaller, requestedUserId?: string | null): string {
+  if (caller.isServiceRole) {
+    if (!requestedUserId) {
+      throw new AuthError('A userId is required for service-role requests', 403);
+    }
+    return requestedUserId;
+  }
+
+  if (requestedUserId && requestedUserId !== caller.userId) {
+    throw new AuthError('You cannot act on behalf of another user', 403);
+  }
+
+  return caller.userId!;
+}
+
+// The caller's role in a project, or null when they have no access
+export async function getProjectRole(
+  supabase: SupabaseClient,
+  projectId: string,
+  userId: string
+): Promise<ProjectRole | null> {
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .select('owner_id, deleted_at, workspace_id')
+    .eq('id', projectId)
+    .maybeSingle();
+
+  if (projectError) throw projectError;
+  // A brain in the trash is gone for everyone until its owner restores it
+  if (!project || project.deleted_at) {
+    throw new AuthError('Project not found', 404);
+  }
+  if (project.owner_id === userId) return 'owner';
+
+  const { data: member, error: memberError } = await supabase
+    .from('project_members')
+    .select('role')
+    .eq('project_id', projectId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (memberError) throw memberError;
+  const memberRole = member && member.role in ROLE_RANK ? member.role as ProjectRole : null;
+  if (!project.workspace_id) return memberRole;
+
+  // Workspace members work in every brain of the workspace; the higher role wins
+  const { data: seat, error: seatError } = await supabase
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', project.workspace_id)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (seatError) throw seatError;
+  const workspaceRole: ProjectRole | null = seat ? WORKSPACE_BRAIN_ROLES[seat.role] ?? null : null;
+  if (!memberRole || !workspaceRole) return memberRole || workspaceRole;
+  return ROLE_RANK[workspaceRole] > ROLE_RANK[memberRole] ? workspaceRole : memberRole;
+}
+
+// Throws 403 unless the caller has at least `minimumRole` in the project.
+// Service-role callers are trusted and skip the membership check.
+export async function requireProjectAccess(
+  supabase: SupabaseClient,
+  caller: AuthenticatedCaller,
+  projectId: string | null | undefined,
+  minimumRole: ProjectRole = 'viewer'
+): Promise<ProjectRole> {
+  if (!projectId) {
+    throw new AuthError('Project ID is required', 403);
+  }
+  if (caller.isServiceRole) return 'owner';
+
+  const role = await getProjectRole(supabase, projectId, caller.userId!);
+  if (!role) {
+    throw new AuthError('You do not have access to this project', 403);
+  }
+  if (ROLE_RANK[role] < ROLE_RANK[minimumRole]) {
+    throw new AuthError(`This action requires the ${minimumRole} role in this project`, 403);
+  }
+
+  return role;
+}
+
+// JSON error response for AuthError, or null so callers can fall through to their own handling
+export function authErrorResponse(error: unknown, headers: Record<string, string>): Response | null {
+  if (!(error instanceof AuthError)) return null;
+
+  return new Response(
+    JSON.stringify({ error: error.message }),
+    { status: error.status, headers: { ...headers, 'Content-Type': 'application/json' } }
+  );
+}
@@ -0,0 +1,71 @@
+
+import { describe, it, expect } from 'vitest';
+import { chunkText, chunkPages, cosineSimilarity, rankBySimilarity } from './chunking.ts';
+
+describe('chunkText', () => {
+  it('returns a single chunk for short text', () => {
+    expect(chunkText('A short note.')).toEqual(['A short note.']);
+  });
+
+  it('returns no chunks for empty text', () => {
+    expect(chunkText('')).toEqual([]);
+    expect(chunkText('   \n\n  ')).toEqual([]);
+  });
+
+  it('keeps every chunk within the chunk size', () => {
+    const paragraphs = Array.from({ length: 30 }, (_, i) => `Paragraph ${i}. ${'Lorem ipsum dolor sit amet. '.repeat(8)}`);
+    const chunks = chunkText(paragraphs.join('\n\n'), { chunkSize: 500, overlap: 50 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => expect(chunk.length).toBeLessThanOrEqual(500));
+  });
+
+  it('hard-splits text without any boundaries', () => {
+    const chunks = chunkText('x'.repeat(2500), { chunkSize: 1000, overlap: 0 });
+    expect(chunks).toHaveLength(3);
+    expect(chunks.join('')).toBe('x'.repeat(2500));
+  });
+
+  it('overlaps consecutive chunks', () => {
+    const text = ['First paragraph about budgets.', 'Second paragraph about timelines.', 'Third paragraph about risks.'].join('\n\n');
+    const chunks = chunkText(text, { chunkSize: 70, overlap: 20 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[1]).toContain(chunks[0].slice(-20));
+  });
+});
+
+describe('chunkPages', () => {
+  it('tags chunks with their page number', () => {
+    const chunks = chunkPages([
+      { page: 1, text: 'Introduction' },
+      { page: 40, text: 'Appendix' },
+    ]);
+
+    expect(chunks).toEqual([
+      { index: 0, content: 'Introduction', page: 1 },
+      { index: 1, content: 'Appendix', page: 40 },
+    ]);
+  });
+});
+
+describe('rankBySimilarity', () => {
+  it('orders candidates by cosine similarity', () => {
+    const ranked = rankBySimilarity(
+      [1, 0],
+      [
+        { id: 'orthogonal', embedding: [0, 1] },
+        { id: 'same', embedding: [2, 0] },
+        { id: 'close', embedding: [1, 1] },
+      ],
+      2
+    );
+
+    expect(ranked.map(r => r.id)).toEqual(['same', 'close']);
+    expect(ranked[0].similarity).toBeCloseTo(1);
+  });
+
+  it('treats zero vectors as unrelated', () => {
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+  });
+});
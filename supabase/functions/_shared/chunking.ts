@@ -0,0 +1,149 @@
+
+// Default chunk sizes are measured in characters, not tokens (roughly 4 chars per token)
+export const DEFAULT_CHUNK_SIZE = 1500;
+export const DEFAULT_CHUNK_OVERLAP = 200;
+
+export interface ChunkOptions {
+  chunkSize?: number;
+  overlap?: number;
+}
+
+export interface TextChunk {
+  index: number;
+  content: string;
+  page?: number;
+}
+
+// Split a long paragraph on sentence boundaries so no piece exceeds the chunk size
+function splitLongParagraph(paragraph: string, chunkSize: number): string[] {
+  const sentences = paragraph.match(/[^.!?]+[.!?]+[\s]*|[^.!?]+$/g) || [paragraph];
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    if (sentence.length > chunkSize) {
+      // A single "sentence" longer than a chunk (tables, code, minified text): hard split
+      if (current) {
+        pieces.push(current);
+        current = '';
+      }
+      for (let i = 0; i < sentence.length; i += chunkSize) {
+        pieces.push(sentence.substring(i, i + chunkSize));
+      }
+      continue;
+    }
+
+    if ((current + sentence).length > chunkSize) {
+      pieces.push(current);
+      current = sentence;
+    } else {
+      current += sentence;
+    }
+  }
+
+  if (current) {
+    pieces.push(current);
+  }
+
+  return pieces;
+}
+
+// Split text into overlapping chunks, preferring paragraph and sentence boundaries
+export function chunkText(text: string, options: ChunkOptions = {}): string[] {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const overlap = Math.min(options.overlap ?? DEFAULT_CHUNK_OVERLAP, Math.floor(chunkSize / 2));
+
+  const normalized = (text || '').replace(/\r\n/g, '\n').trim();
+  if (!normalized) {
+    return [];
+  }
+
+  if (normalized.length <= chunkSize) {
+    return [normalized];
+  }
+
+  const paragraphs = normalized
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(Boolean)
+    .flatMap(p => (p.length > chunkSize ? splitLongParagraph(p, chunkSize) : [p]));
+
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const paragraph of paragraphs) {
+    const candidate = current ? `${current}\n\n${paragraph}` : paragraph;
+
+    if (candidate.length <= chunkSize) {
+      current = candidate;
+      continue;
+    }
+
+    chunks.push(current);
+
+    // Carry the tail of the previous chunk over so context isn't lost at the boundary
+    const tail = overlap > 0 ? current.slice(-overlap) : '';
+    const withOverlap = tail ? `${tail}\n\n${paragraph}` : paragraph;
+    current = withOverlap.length <= chunkSize ? withOverlap : paragraph;
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks.filter(chunk => chunk.trim().length > 0);
+}
+
+// Chunk a list of pages, keeping track of which page each chunk came from
+export function chunkPages(
+  pages: { page: number; text: string }[],
+  options: ChunkOptions = {}
+): TextChunk[] {
+  const chunks: TextChunk[] = [];
+
+  for (const { page, text } of pages) {
+    for (const content of chunkText(text, options)) {
+      chunks.push({ index: chunks.length, content, page });
+    }
+  }
+
+  return chunks;
+}
+
+// Cosine similarity between two vectors of the same length
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`Vector length mismatch: ${a.length} vs ${b.length}`);
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// Rank candidates by similarity to the query embedding and keep the top k
+export function rankBySimilarity<T extends { embedding: number[] }>(
+  queryEmbedding: number[],
+  candidates: T[],
+  topK: number
+): (T & { similarity: number })[] {
+  return candidates
+    .map(candidate => ({
+      ...candidate,
+      similarity: cosineSimilarity(queryEmbedding, candidate.embedding),
+    }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, topK);
+}
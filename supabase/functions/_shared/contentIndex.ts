@@ -0,0 +1,320 @@
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { chunkPages, chunkText } from './chunking.ts';
+import { loadDocumentPages } from './documentText.ts';
+import { EmbeddingProvider } from './embeddings.ts';
+
+export type ContentSourceType = 'note' | 'document' | 'update' | 'image';
+
+export interface ChunkMetadata {
+  title: string;
+  page?: number;
+  tags?: string[];
+  is_favorite?: boolean;
+  is_important?: boolean;
+  is_archived?: boolean;
+  created_at?: string;
+}
+
+export interface SourceChunk {
+  content: string;
+  metadata: ChunkMetadata;
+}
+
+export interface RetrievedChunk {
+  id: string;
+  source_type: ContentSourceType;
+  source_id: string;
+  chunk_index: number;
+  content: string;
+  metadata: ChunkMetadata;
+  similarity: number;
+}
+
+interface LoadedSource {
+  projectId: string;
+  chunks: SourceChunk[];
+}
+
+// Embedding requests are batched to stay well under the API's input limits
+const EMBEDDING_BATCH_SIZE = 64;
+const MAX_INDEX_ATTEMPTS = 3;
+
+function chunksFor(text: string | null, metadata: ChunkMetadata): SourceChunk[] {
+  return chunkText(text || '').map(content => ({ content, metadata }));
+}
+
+// Load a source item and split it into chunks. Returns null if it no longer
+// exists or is in the trash.
+async function loadSource(
+  supabase: SupabaseClient,
+  sourceType: ContentSourceType,
+  sourceId: string
+): Promise<LoadedSource | null> {
+  switch (sourceType) {
+    case 'note': {
+      const { data, error } = await supabase
+        .from('project_notes')
+        .select('project_id, title, content, tags, is_favorite, is_important, is_archived, created_at, deleted_at')
+        .eq('id', sourceId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data || data.deleted_at) return null;
+
+      return {
+        projectId: data.project_id,
+        chunks: chunksFor(data.content, {
+          title: data.title,
+          tags: data.tags || [],
+          is_favorite: data.is_favorite,
+          is_important: data.is_important,
+          is_archived: data.is_archived,
+          created_at: data.created_at,
+        }),
+      };
+    }
+
+    case 'document': {
+      const { data, error } = await supabase
+        .from('project_documents')
+        .select('project_id, file_name, content_text, is_favorite, is_important, is_archived, created_at, deleted_at')
+        .eq('id', sourceId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data || data.deleted_at) return null;
+
+      const metadata: ChunkMetadata = {
+        title: data.file_name,
+        is_favorite: data.is_favorite,
+        is_important: data.is_important,
+        is_archived: data.is_archived,
+        created_at: data.created_at,
+      };
+
+      // Extracted PDFs are chunked page by page so citations can point at the page
+      const pages = await loadDocumentPages(supabase, sourceId);
+
+      return {
+        projectId: data.project_id,
+        chunks: pages.length > 0
+          ? chunkPages(pages).map(chunk => ({ content: chunk.content, metadata: { ...metadata, page: chunk.page } }))
+          : chunksFor(data.content_text, metadata),
+      };
+    }
+
+    case 'update': {
+      const { data, error } = await supabase
+        .from('project_updates')
+        .select('project_id, content, tags, user_id, is_important, is_archived, created_at')
+        .eq('id', sourceId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('full_name')
+        .eq('id', data.user_id)
+        .maybeSingle();
+
+      const date = new Date(data.created_at).toLocaleDateString();
+
+      return {
+        projectId: data.project_id,
+        chunks: chunksFor(data.content, {
+          title: `Update by ${profile?.full_name || 'Unknown User'} on ${date}`,
+          tags: data.tags || [],
+          is_important: data.is_important,
+          is_archived: data.is_archived,
+          created_at: data.created_at,
+        }),
+      };
+    }
+
+    case 'image': {
+      const { data, error } = await supabase
+        .from('image_summaries')
+        .select('project_id, image_url, summary, is_favorite, is_important, is_archived, created_at')
+        .eq('id', sourceId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data || !data.project_id) return null;
+
+      const fileName = decodeURIComponent(data.image_url.split('/').pop() || 'Image');
+
+      return {
+        projectId: data.project_id,
+        chunks: chunksFor(data.summary, {
+          title: fileName,
+          is_favorite: data.is_favorite,
+          is_important: data.is_important,
+          is_archived: data.is_archived,
+          created_at: data.created_at,
+        }),
+      };
+    }
+  }
+}
+
+// Text that is actually embedded: the chunk prefixed with where it came from,
+// so a question mentioning a note's title also matches its body
+export function embeddingInput(sourceType: ContentSourceType, chunk: SourceChunk): string {
+  const tags = chunk.metadata.tags?.length ? `\nTags: ${chunk.metadata.tags.join(', ')}` : '';
+  return `${sourceType}: ${chunk.metadata.title}${tags}\n\n${chunk.content}`;
+}
+
+async function embedInBatches(provider: EmbeddingProvider, inputs: string[]): Promise<number[][]> {
+  const embeddings: number[][] = [];
+
+  for (let i = 0; i < inputs.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = inputs.slice(i, i + EMBEDDING_BATCH_SIZE);
+    embeddings.push(...(await provider.embed(batch)).embeddings);
+  }
+
+  return embeddings;
+}
+
+// (Re)build the chunks of a single source item
+export async function indexSource(
+  supabase: SupabaseClient,
+  provider: EmbeddingProvider,
+  sourceType: ContentSourceType,
+  sourceId: string
+): Promise<number> {
+  const source = await loadSource(supabase, sourceType, sourceId);
+
+  const { error: deleteError } = await supabase
+    .from('content_chunks')
+    .delete()
+    .eq('source_type', sourceType)
+    .eq('source_id', sourceId);
+
+  if (deleteError) throw deleteError;
+
+  if (!source || source.chunks.length === 0) {
+    return 0;
+  }
+
+  const embeddings = await embedInBatches(
+    provider,
+    source.chunks.map(chunk => embeddingInput(sourceType, chunk))
+  );
+
+  const rows = source.chunks.map((chunk, index) => ({
+    project_id: source.projectId,
+    source_type: sourceType,
+    source_id: sourceId,
+    chunk_index: index,
+    content: chunk.content,
+    metadata: chunk.metadata,
+    embedding: embeddings[index],
+    embedding_model: provider.model,
+  }));
+
+  const { error: insertError } = await supabase.from('content_chunks').insert(rows);
+  if (insertError) throw insertError;
+
+  return rows.length;
+}
+
+// Index queued items, optionally limited to one project. Failed items stay
+// queued with their error until they have been attempted MAX_INDEX_ATTEMPTS times.
+export async function processIndexQueue(
+  supabase: SupabaseClient,
+  provider: EmbeddingProvider,
+  options: { projectId?: string; limit?: number } = {}
+): Promise<{ indexed: number; failed: number; chunks: number }> {
+  let query = supabase
+    .from('content_index_queue')
+    .select('source_type, source_id, attempts')
+    .lt('attempts', MAX_INDEX_ATTEMPTS)
+    .order('queued_at', { ascending: true })
+    .limit(options.limit ?? 50);
+
+  if (options.projectId) {
+    query = query.eq('project_id', options.projectId);
+  }
+
+  const { data: queued, error } = await query;
+  if (error) throw error;
+
+  let indexed = 0;
+  let failed = 0;
+  let chunks = 0;
+
+  for (const item of queued || []) {
+    try {
+      chunks += await indexSource(supabase, provider, item.source_type, item.source_id);
+      indexed++;
+
+      await supabase
+        .from('content_index_queue')
+        .delete()
+        .eq('source_type', item.source_type)
+        .eq('source_id', item.source_id);
+    } catch (err) {
+      failed++;
+      console.error(`Error indexing ${item.source_type} ${item.source_id}:`, err);
+
+      await supabase
+        .from('content_index_queue')
+        .update({ attempts: item.attempts + 1, last_error: err.message || String(err) })
+        .eq('source_type', item.source_type)
+        .eq('source_id', item.source_id);
+    }
+  }
+
+  return { indexed, failed, chunks };
+}
+
+// Queue every item of a project if it has never been indexed
+export async function ensureProjectQueued(supabase: SupabaseClient, projectId: string): Promise<void> {
+  const { count: chunkCount } = await supabase
+    .from('content_chunks')
+    .select('id', { count: 'exact', head: true })
+    .eq('project_id', projectId);
+
+  if (chunkCount && chunkCount > 0) {
+    return;
+  }
+
+  const { count: queueCount } = await supabase
+    .from('content_index_queue')
+    .select('source_id', { count: 'exact', head: true })
+    .eq('project_id', projectId);
+
+  if (queueCount && queueCount > 0) {
+    return;
+  }
+
+  const { error } = await supabase.rpc('queue_project_content_indexing', { p_project_id: projectId });
+  if (error) {
+    console.error('Error queueing project content for indexing:', error);
+  }
+}
+
+// Fetch the chunks of a project most relevant to the query
+export async function retrieveRelevantChunks(
+  supabase: SupabaseClient,
+  provider: EmbeddingProvider,
+  projectId: string,
+  query: string,
+  topK = 8
+): Promise<RetrievedChunk[]> {
+  const { embeddings: [queryEmbedding] } = await provider.embed([query]);
+
+  const { data, error } = await supabase.rpc('match_content_chunks', {
+    p_project_id: projectId,
+    p_query_embedding: queryEmbedding,
+    p_embedding_model: provider.model,
+    p_match_count: topK,
+  });
+
+  if (error) throw error;
+
+  return (data || []) as RetrievedChunk[];
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { extractDocumentText, joinPages, normalizePageText } from './documentText.ts';
+
+interface Write {
+  table: string;
+  op: 'update' | 'insert' | 'delete';
+  values?: unknown;
+}
+
+// Records writes; the claiming update returns `claimed` and storage returns `file`
+const fakeSupabase = (claimed: Record<string, unknown> | null, file: Blob | null) => {
+  const writes: Write[] = [];
+
+  const client = {
+    from: (table: string) => {
+      let write: Write | null = null;
+      const query = {
+        update: (values: unknown) => {
+          write = { table, op: 'update', values };
+          writes.push(write);
+          return query;
+        },
+        insert: async (values: unknown) => {
+          writes.push({ table, op: 'insert', values });
+          return { error: null };
+        },
+        delete: () => {
+          writes.push({ table, op: 'delete' });
+          return query;
+        },
+        eq: () => query,
+        or: () => query,
+        select: () => query,
+        maybeSingle: async () => ({ data: claimed, error: null }),
+        then: (resolve: (value: { error: null }) => void) => resolve({ error: null }),
+      };
+      return query;
+    },
+    storage: {
+      from: () => ({
+        download: async () => file
+          ? { data: file, error: null }
+          : { data: null, error: { message: 'Object not found' } },
+      }),
+    },
+  } as unknown as SupabaseClient;
+
+  return { client, writes };
+};
+
+const pdfDocument = {
+  id: 'doc-1',
+  project_id: 'brain-1',
+  file_path: 'user/brain-1/report.pdf',
+  document_type: 'pdf',
+  extraction_attempts: 0,
+};
+
+describe('normalizePageText', () => {
+  it('collapses spacing between text items but keeps paragraphs', () => {
+    expect(normalizePageText('  Quarterly   report \n\n\n\nRevenue\tgrew  ')).toBe('Quarterly report\n\nRevenue grew');
+  });
+
+  it('joins pages with a blank line and skips empty ones', () => {
+    expect(joinPages([{ page: 1, text: 'One' }, { page: 2, text: '' }, { page: 3, text: 'Three' }])).toBe('One\n\nThree');
+  });
+});
+
+describe('extractDocumentText', () => {
+  it('stores every page and marks the document ready', async () => {
+    const { client, writes } = fakeSupabase(pdfDocument, new Blob(['%PDF']));
+    const extractPages = async () => [{ page: 1, text: 'Intro  text' }, { page: 2, text: 'Results' }];
+
+    const result = await extractDocumentText(client, 'doc-1', extractPages);
+
+    expect(result).toEqual({ documentId: 'doc-1', status: 'ready', pageCount: 2 });
+    expect(writes.find(write => write.op === 'insert')?.values).toEqual([
+      { document_id: 'doc-1', project_id: 'brain-1', page_number: 1, content: 'Intro text' },
+      { document_id: 'doc-1', project_id: 'brain-1', page_number: 2, content: 'Results' },
+    ]);
+    expect(writes[writes.length - 1].values).toMatchObject({
+      content_text: 'Intro text\n\nResults',
+      page_count: 2,
+      extraction_status: 'ready',
+    });
+  });
+
+  it('records the error and counts the attempt when extraction fails', async () => {
+    const { client, writes } = fakeSupabase(pdfDocument, null);
+
+    const result = await extractDocumentText(client, 'doc-1', async () => []);
+
+    expect(result?.status).toBe('failed');
+    expect(writes[writes.length - 1].values).toMatchObject({
+      extraction_status: 'failed',
+      extraction_error: 'Failed to download document: Object not found',
+      extraction_attempts: 1,
+    });
+  });
+
+  it('keeps earlier text readable when extracting its pages fails', async () => {
+    const { client, writes } = fakeSupabase({ ...pdfDocument, extracted_at: '2026-10-01T09:00:00Z' }, null);
+
+    const result = await extractDocumentText(client, 'doc-1', async () => []);
+
+    expect(result?.status).toBe('failed');
+    expect(writes[writes.length - 1].values).toMatchObject({
+      extraction_status: 'ready',
+      extraction_attempts: 1,
+    });
+  });
+
+  it('leaves documents another run has claimed alone', async () => {
+    const { client, writes } = fakeSupabase(null, new Blob(['%PDF']));
+
+    expect(await extractDocumentText(client, 'doc-1', async () => [])).toBeNull();
+    expect(writes).toHaveLength(1);
+  });
+});
@@ -0,0 +1,243 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+// Stored text of uploaded documents. extract-document-text fills it right
+// after upload; everything else reads it through loadDocumentText().
+
+export type ExtractionStatus = 'pending' | 'processing' | 'ready' | 'failed';
+
+export interface DocumentPage {
+  page: number;
+  text: string;
+}
+
+export type ExtractPages = (data: Uint8Array) => Promise<DocumentPage[]>;
+
+export const MAX_EXTRACTION_ATTEMPTS = 3;
+
+// A run that has not finished after this long is assumed to have crashed
+export const STALE_PROCESSING_MS = 15 * 60 * 1000;
+
+const DOCUMENTS_BUCKET = 'project_documents';
+const PAGE_INSERT_BATCH_SIZE = 200;
+
+// pdf.js returns a text item per run of glyphs; collapse the spacing between
+// them but keep line breaks so paragraphs survive
+export function normalizePageText(text: string): string {
+  return (text || '')
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.replace(/[ \t\f\v\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function normalizePages(pages: DocumentPage[]): DocumentPage[] {
+  return pages.map(page => ({ page: page.page, text: normalizePageText(page.text) }));
+}
+
+// Pages are separated by a blank line so chunking treats each as its own paragraph
+export function joinPages(pages: DocumentPage[]): string {
+  return pages
+    .map(page => page.text)
+    .filter(text => text.length > 0)
+    .join('\n\n');
+}
+
+export interface ExtractionResult {
+  documentId: string;
+  status: ExtractionStatus;
+  pageCount?: number;
+  error?: string;
+}
+
+// Documents whose text was stored before pages were (page_count is null) are
+// extracted again so their chunks and citations carry page numbers
+const WITHOUT_PAGES = 'and(extraction_status.eq.ready,page_count.is.null)';
+
+// Claims the document by moving it to 'processing' so concurrent runs skip it.
+// Returns null if it is already being extracted, is done or no longer exists.
+async function claimDocument(supabase: SupabaseClient, documentId: string, force: boolean) {
+  const staleBefore = new Date(Date.now() - STALE_PROCESSING_MS).toISOString();
+
+  let query = supabase
+    .from('project_documents')
+    .update({
+      extraction_status: 'processing',
+      extraction_started_at: new Date().toISOString(),
+      extraction_error: null,
+    })
+    .eq('id', documentId);
+
+  query = force
+    ? query.or(`extraction_status.neq.processing,extraction_started_at.lt.${staleBefore}`)
+    : query.or(`extraction_status.in.(pending,failed),and(extraction_status.eq.processing,extraction_started_at.lt.${staleBefore}),${WITHOUT_PAGES}`);
+
+  const { data, error } = await query
+    .select('id, project_id, file_path, document_type, extraction_attempts, extracted_at')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+async function replacePages(
+  supabase: SupabaseClient,
+  documentId: string,
+  projectId: string,
+  pages: DocumentPage[]
+): Promise<void> {
+  const { error: deleteError } = await supabase
+    .from('project_document_pages')
+    .delete()
+    .eq('document_id', documentId);
+
+  if (deleteError) throw deleteError;
+
+  const rows = pages.map(page => ({
+    document_id: documentId,
+    project_id: projectId,
+    page_number: page.page,
+    content: page.text,
+  }));
+
+  for (let i = 0; i < rows.length; i += PAGE_INSERT_BATCH_SIZE) {
+    const { error } = await supabase
+      .from('project_document_pages')
+      .insert(rows.slice(i, i + PAGE_INSERT_BATCH_SIZE));
+
+    if (error) throw error;
+  }
+}
+
+// Downloads the document, extracts and stores its pages and marks it ready.
+// force re-extracts a document that is already ready, e.g. a manual retry.
+export async function extractDocumentText(
+  supabase: SupabaseClient,
+  documentId: string,
+  extractPages: ExtractPages,
+  options: { force?: boolean } = {}
+): Promise<ExtractionResult | null> {
+  const document = await claimDocument(supabase, documentId, options.force ?? false);
+  if (!document) return null;
+
+  try {
+    if (document.document_type !== 'pdf') {
+      throw new Error(`Text extraction is not supported for ${document.document_type} documents`);
+    }
+
+    const { data: file, error: downloadError } = await supabase
+      .storage
+      .from(DOCUMENTS_BUCKET)
+      .download(document.file_path);
+
+    if (downloadError || !file) {
+      throw new Error(`Failed to download document: ${downloadError?.message || 'file not found'}`);
+    }
+
+    const pages = normalizePages(await extractPages(new Uint8Array(await file.arrayBuffer())));
+
+    await replacePages(supabase, documentId, document.project_id, pages);
+
+    const { error: updateError } = await supabase
+      .from('project_documents')
+      .update({
+        content_text: joinPages(pages),
+        page_count: pages.length,
+        extraction_status: 'ready',
+        extraction_error: null,
+        extracted_at: new Date().toISOString(),
+      })
+      .eq('id', documentId);
+
+    if (updateError) throw updateError;
+
+    return { documentId, status: 'ready', pageCount: pages.length };
+  } catch (err) {
+    const message = err.message || String(err);
+    console.error(`Error extracting text of document ${documentId}:`, err);
+
+    // Text from an earlier extraction stays readable; only its pages are missing
+    await supabase
+      .from('project_documents')
+      .update({
+        extraction_status: document.extracted_at ? 'ready' : 'failed',
+        extraction_error: message,
+        extraction_attempts: (document.extraction_attempts || 0) + 1,
+      })
+      .eq('id', documentId);
+
+    return { documentId, status: 'failed', error: message };
+  }
+}
+
+// Extracts documents still waiting for their text or pages, oldest first,
+// optionally limited to one project. Failed documents are retried up to
+// MAX_EXTRACTION_ATTEMPTS times.
+export async function processPendingExtractions(
+  supabase: SupabaseClient,
+  extractPages: ExtractPages,
+  options: { projectId?: string; limit?: number } = {}
+): Promise<{ ready: number; failed: number }> {
+  const staleBefore = new Date(Date.now() - STALE_PROCESSING_MS).toISOString();
+
+  let query = supabase
+    .from('project_documents')
+    .select('id')
+    .eq('document_type', 'pdf')
+    .lt('extraction_attempts', MAX_EXTRACTION_ATTEMPTS)
+    .or(`extraction_status.in.(pending,failed),and(extraction_status.eq.processing,extraction_started_at.lt.${staleBefore}),${WITHOUT_PAGES}`)
+    .order('created_at', { ascending: true })
+    .limit(options.limit ?? 5);
+
+  if (options.projectId) {
+    query = query.eq('project_id', options.projectId);
+  }
+
+  const { data: documents, error } = await query;
+  if (error) throw error;
+
+  let ready = 0;
+  let failed = 0;
+
+  for (const document of documents || []) {
+    const result = await extractDocumentText(supabase, document.id, extractPages);
+    if (result?.status === 'ready') ready++;
+    if (result?.status === 'failed') failed++;
+  }
+
+  return { ready, failed };
+}
+
+// Stored text of a document, or null when it has not been extracted yet
+export async function loadDocumentText(
+  supabase: SupabaseClient,
+  documentId: string
+): Promise<{ projectId: string; fileName: string; text: string } | null> {
+  const { data, error } = await supabase
+    .from('project_documents')
+    .select('project_id, file_name, content_text, extraction_status')
+    .eq('id', documentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data || data.extraction_status !== 'ready' || !data.content_text) return null;
+
+  return { projectId: data.project_id, fileName: data.file_name, text: data.content_text };
+}
+
+// Pages of a document for page-aware chunking; empty if it was never extracted
+export async function loadDocumentPages(
+  supabase: SupabaseClient,
+  documentId: string
+): Promise<DocumentPage[]> {
+  const { data, error } = await supabase
+    .from('project_document_pages')
+    .select('page_number, content')
+    .eq('document_id', documentId)
+    .order('page_number', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({ page: row.page_number, text: row.content }));
+}
@@ -0,0 +1,42 @@
+
+import { describe, it, expect } from 'vitest';
+import { LocalEmbeddingProvider, EMBEDDING_DIMENSIONS } from './embeddings.ts';
+import { rankBySimilarity } from './chunking.ts';
+
+describe('LocalEmbeddingProvider', () => {
+  const provider = new LocalEmbeddingProvider();
+
+  it('produces normalized vectors of the configured size', async () => {
+    const { embeddings: [vector] } = await provider.embed(['Quarterly revenue grew by 12%']);
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+
+    expect(vector).toHaveLength(EMBEDDING_DIMENSIONS);
+    expect(norm).toBeCloseTo(1);
+  });
+
+  it('is deterministic', async () => {
+    const { embeddings: [a] } = await provider.embed(['Hiring plan for the design team']);
+    const { embeddings: [b] } = await provider.embed(['Hiring plan for the design team']);
+    expect(a).toEqual(b);
+  });
+
+  it('ranks the chunk that answers the question first', async () => {
+    const chunks = [
+      'The marketing budget for Q3 is 40,000 euros, split between events and ads.',
+      'Page 40: the warranty covers hardware defects for a period of two years.',
+      'Team offsite is planned in Lisbon in September.',
+    ];
+
+    const { embeddings } = await provider.embed(chunks);
+    const { embeddings: [query] } = await provider.embed(['How long does the warranty cover hardware defects?']);
+
+    const ranked = rankBySimilarity(
+      query,
+      chunks.map((content, i) => ({ content, embedding: embeddings[i] })),
+      3
+    );
+
+    expect(ranked[0].content).toContain('warranty');
+    expect(ranked[0].similarity).toBeGreaterThan(ranked[1].similarity);
+  });
+});
@@ -0,0 +1,145 @@
+import { TokenUsage, estimateTokens } from './models.ts';
+
+// Every provider must produce vectors of this size so they fit the content_chunks.embedding column
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export interface EmbeddingResult {
+  // One vector per input, in input order
+  embeddings: number[][];
+  usage: TokenUsage;
+}
+
+export interface EmbeddingProvider {
+  name: string;
+  // Stored alongside each chunk so vectors from different models are never compared
+  model: string;
+  dimensions: number;
+  embed(texts: string[]): Promise<EmbeddingResult>;
+}
+
+const noUsage = (): TokenUsage => ({ inputTokens: 0, outputTokens: 0, estimated: false });
+
+// OpenAI embeddings (text-embedding-3-small returns 1536 dimensions)
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  name = 'openai';
+  model = 'text-embedding-3-small';
+  dimensions = EMBEDDING_DIMENSIONS;
+
+  constructor(private apiKey: string) {}
+
+  async embed(texts: string[]): Promise<EmbeddingResult> {
+    if (texts.length === 0) {
+      return { embeddings: [], usage: noUsage() };
+    }
+
+    const response = await fetch('https://api.openai.com/v1/embeddings', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        input: texts,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('OpenAI embeddings error:', response.status, errorText);
+      throw new Error(`OpenAI embeddings error (${response.status}): ${errorText}`);
+    }
+
+    const data = await response.json();
+
+    if (!Array.isArray(data.data)) {
+      throw new Error('Invalid response format from OpenAI embeddings API');
+    }
+
+    const promptTokens = data.usage?.prompt_tokens;
+
+    return {
+      // The API returns one entry per input, but sort by index to be safe
+      embeddings: data.data
+        .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+        .map((item: { embedding: number[] }) => item.embedding),
+      usage: typeof promptTokens === 'number'
+        ? { inputTokens: promptTokens, outputTokens: 0, estimated: false }
+        : { inputTokens: texts.reduce((sum, text) => sum + estimateTokens(text), 0), outputTokens: 0, estimated: true },
+    };
+  }
+}
+
+// Simple 32-bit FNV-1a hash, stable across runtimes
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function tokenize(text: string): string[] {
+  return (text || '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1);
+}
+
+// Deterministic, offline stand-in for a real embedding model.
+// Hashes words and word bigrams into a fixed-size vector, so texts sharing
+// vocabulary end up close together. Good enough to exercise ranking in tests
+// and local development without calling OpenAI.
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  name = 'local';
+  model = 'local-hash-v1';
+  dimensions = EMBEDDING_DIMENSIONS;
+
+  embedText(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+    const tokens = tokenize(text);
+
+    const features = [
+      ...tokens,
+      ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`),
+    ];
+
+    for (const feature of features) {
+      const hash = hashToken(feature);
+      const sign = (hash & 1) === 0 ? 1 : -1;
+      vector[hash % this.dimensions] += sign;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingResult> {
+    return { embeddings: texts.map(text => this.embedText(text)), usage: noUsage() };
+  }
+}
+
+// Pick the embedding provider from the environment.
+// EMBEDDING_PROVIDER=local forces the offline provider; otherwise OpenAI is
+// used when a key is configured.
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const configured = Deno.env.get('EMBEDDING_PROVIDER');
+  const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
+
+  if (configured === 'local') {
+    return new LocalEmbeddingProvider();
+  }
+
+  if (!openAIApiKey) {
+    if (configured === 'openai') {
+      throw new Error('OPENAI_API_KEY is not configured');
+    }
+    console.warn('OPENAI_API_KEY is not configured, falling back to local embeddings');
+    return new LocalEmbeddingProvider();
+  }
+
+  return new OpenAIEmbeddingProvider(openAIApiKey);
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { buildListUrl, classifyDriveFile, DriveFetch, importDriveFile, importedFileName } from './googleDrive.ts';
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// Serves file metadata and content; records which URLs were fetched
+const fakeDrive = (file: Record<string, unknown>, content = new Uint8Array([37, 80, 68, 70])) => {
+  const urls: string[] = [];
+  const driveFetch: DriveFetch = async (url) => {
+    urls.push(url);
+    return url.includes('fields=') ? jsonResponse(file) : new Response(content);
+  };
+  return { driveFetch, urls };
+};
+
+// Records uploads, inserts and removals; `insertError` fails every insert
+const fakeSupabase = (insertError: { message: string } | null = null) => {
+  const uploads: { bucket: string; path: string }[] = [];
+  const inserts: { table: string; values: Record<string, unknown> }[] = [];
+  const removals: { bucket: string; paths: string[] }[] = [];
+
+  const client = {
+    from: (table: string) => ({
+      insert: (values: Record<string, unknown>) => {
+        inserts.push({ table, values });
+        return {
+          select: () => ({
+            single: async () => insertError ? { data: null, error: insertError } : { data: { id: `${table}-1` }, error: null },
+          }),
+        };
+      },
+    }),
+    storage: {
+      from: (bucket: string) => ({
+        upload: async (path: string) => {
+          uploads.push({ bucket, path });
+          return { data: { path }, error: null };
+        },
+        getPublicUrl: (path: string) => ({ data: { publicUrl: `https://cdn.example/${bucket}/${path}` } }),
+        remove: async (paths: string[]) => {
+          removals.push({ bucket, paths });
+          return { data: paths, error: null };
+        },
+      }),
+    },
+  } as unknown as SupabaseClient;
+
+  return { client, uploads, inserts, removals };
+};
+
+const target = { projectId: 'brain-1', userId: 'user-1' };
+
+describe('classifyDriveFile', () => {
+  it('sorts Drive files into what the importer can do with them', () => {
+    expect(classifyDriveFile('application/pdf')).toBe('document');
+    expect(classifyDriveFile('application/vnd.google-apps.document')).toBe('export');
+    expect(classifyDriveFile('image/png')).toBe('image');
+    expect(classifyDriveFile('application/vnd.google-apps.folder')).toBe('folder');
+    expect(classifyDriveFile('application/zip')).toBe('unsupported');
+  });
+});
+
+describe('buildListUrl', () => {
+  it('lists one folder at a time and continues from a page token', () => {
+    const url = new URL(buildListUrl({ folderId: 'folder-1', pageToken: 'next' }));
+
+    expect(url.searchParams.get('q')).toBe("trashed = false and 'folder-1' in parents");
+    expect(url.searchParams.get('pageToken')).toBe('next');
+    expect(url.searchParams.get('fields')).toContain('nextPageToken');
+  });
+
+  it('starts at the root of My Drive and escapes searches', () => {
+    expect(new URL(buildListUrl({})).searchParams.get('q')).toBe("trashed = false and 'root' in parents");
+    expect(new URL(buildListUrl({ search: "Bob's notes" })).searchParams.get('q')).toBe("trashed = false and name contains 'Bob\\'s notes'");
+  });
+});
+
+describe('importedFileName', () => {
+  it('gives exported Google files a .pdf name', () => {
+    expect(importedFileName({ name: 'Roadmap', mimeType: 'application/vnd.google-apps.document' })).toBe('Roadmap.pdf');
+    expect(importedFileName({ name: 'paper.pdf', mimeType: 'application/pdf' })).toBe('paper.pdf');
+  });
+});
+
+describe('importDriveFile', () => {
+  it('exports Google Docs as PDF documents', async () => {
+    const { driveFetch, urls } = fakeDrive({ id: 'doc-1', name: 'Roadmap', mimeType: 'application/vnd.google-apps.document' });
+    const { client, uploads, inserts } = fakeSupabase();
+
+    const result = await importDriveFile(client, driveFetch, 'doc-1', target);
+
+    expect(result).toEqual({ fileId: 'doc-1', name: 'Roadmap.pdf', status: 'imported', kind: 'document', documentId: 'project_documents-1' });
+    expect(urls[1]).toContain('/files/doc-1/export?mimeType=application%2Fpdf');
+    expect(uploads[0].bucket).toBe('project_documents');
+    expect(uploads[0].path).toMatch(/^user-1\/brain-1\/\d+_Roadmap\.pdf$/);
+    expect(inserts[0].values).toMatchObject({ project_id: 'brain-1', user_id: 'user-1', file_name: 'Roadmap.pdf', document_type: 'pdf' });
+  });
+
+  it('adds images to the gallery', async () => {
+    const { driveFetch } = fakeDrive({ id: 'img-1', name: 'chart.png', mimeType: 'image/png', size: '3' });
+    const { client, uploads, inserts } = fakeSupabase();
+
+    const result = await importDriveFile(client, driveFetch, 'img-1', target);
+
+    expect(result).toMatchObject({ kind: 'image', imageId: 'project_images-1' });
+    expect(uploads[0].bucket).toBe('project_images');
+    expect(inserts[0]).toMatchObject({ table: 'project_images', values: { file_name: 'chart.png', mime_type: 'image/png' } });
+  });
+
+  it('removes the stored file when its record cannot be saved', async () => {
+    const { driveFetch } = fakeDrive({ id: 'pdf-1', name: 'paper.pdf', mimeType: 'application/pdf' });
+    const { client, uploads, removals } = fakeSupabase({ message: 'permission denied' });
+
+    await expect(importDriveFile(client, driveFetch, 'pdf-1', target)).rejects.toMatchObject({ message: 'permission denied' });
+    expect(removals).toEqual([{ bucket: 'project_documents', paths: [uploads[0].path] }]);
+  });
+
+  it('refuses files that are too large or of another type without downloading them', async () => {
+    const big = fakeDrive({ id: 'pdf-2', name: 'scan.pdf', mimeType: 'application/pdf', size: String(30 * 1024 * 1024) });
+    await expect(importDriveFile(fakeSupabase().client, big.driveFetch, 'pdf-2', target)).rejects.toThrow('larger than 25MB');
+    expect(big.urls).toHaveLength(1);
+
+    const zip = fakeDrive({ id: 'zip-1', name: 'backup.zip', mimeType: 'application/zip' });
+    await expect(importDriveFile(fakeSupabase().client, zip.driveFetch, 'zip-1', target)).rejects.toThrow('cannot be imported');
+  });
+});
@@ -0,0 +1,303 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+// Google Drive access for the importer: listing folders page by page and
+// bringing files into a brain. Access tokens are refreshed when Google
+// rejects them and saved back to google_drive_connections.
+
+const DRIVE_API = 'https://www.googleapis.com/drive/v3';
+const GOOGLE_CLIENT_ID = '312467123740-kapmie1lpqg4h5chlg3lh4pcs6iosfaa.apps.googleusercontent.com';
+
+const DOCUMENTS_BUCKET = 'project_documents';
+const IMAGES_BUCKET = 'project_images';
+
+export const DRIVE_FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+// Same limits as uploads from the app
+export const MAX_DOCUMENT_SIZE = 25 * 1024 * 1024;
+export const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+
+const LIST_FIELDS = 'nextPageToken,files(id,name,mimeType,webViewLink,thumbnailLink,size,modifiedTime)';
+
+// Google's own formats have no file to download; they are exported as PDF so
+// they get the same text extraction as uploaded documents
+const GOOGLE_EXPORT_TYPES = new Set([
+  'application/vnd.google-apps.document',
+  'application/vnd.google-apps.presentation',
+  'application/vnd.google-apps.spreadsheet',
+  'application/vnd.google-apps.drawing',
+]);
+
+const IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/bmp', 'image/svg+xml']);
+
+export interface DriveFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  webViewLink?: string;
+  thumbnailLink?: string;
+  size?: string;
+  modifiedTime?: string;
+}
+
+export type DriveImportKind = 'document' | 'export' | 'image' | 'folder' | 'unsupported';
+
+export interface DriveImportResult {
+  fileId: string;
+  name: string;
+  status: 'imported' | 'failed';
+  kind?: 'document' | 'image';
+  documentId?: string;
+  imageId?: string;
+  error?: string;
+}
+
+export class DriveImportError extends Error {}
+
+export function classifyDriveFile(mimeType: string): DriveImportKind {
+  if (mimeType === DRIVE_FOLDER_MIME_TYPE) return 'folder';
+  if (mimeType === 'application/pdf') return 'document';
+  if (GOOGLE_EXPORT_TYPES.has(mimeType)) return 'export';
+  if (IMAGE_TYPES.has(mimeType)) return 'image';
+  return 'unsupported';
+}
+
+// One page of a folder's contents, folders first. Without a folder this lists
+// the root of My Drive rather than every file the user can see.
+export function buildListUrl(options: { folderId?: string | null; pageToken?: string | null; search?: string | null; pageSize?: number }): string {
+  const conditions = ['trashed = false'];
+
+  if (options.search?.trim()) {
+    conditions.push(`name contains '${options.search.trim().replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`);
+  } else {
+    conditions.push(`'${(options.folderId || 'root').replace(/'/g, "\\'")}' in parents`);
+  }
+
+  const params = new URLSearchParams({
+    q: conditions.join(' and '),
+    fields: LIST_FIELDS,
+    orderBy: 'folder,name',
+    pageSize: String(options.pageSize ?? 100),
+  });
+  if (options.pageToken) params.set('pageToken', options.pageToken);
+
+  return `${DRIVE_API}/files?${params.toString()}`;
+}
+
+// Name to store an imported file under; exports get the extension of their format
+export function importedFileName(file: Pick<DriveFile, 'name' | 'mimeType'>): string {
+  const name = file.name.trim() || 'Untitled';
+  return classifyDriveFile(file.mimeType) === 'export' && !/\.pdf$/i.test(name) ? `${name}.pdf` : name;
+}
+
+export function storageFileName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9.-]/g, '_');
+}
+
+async function refreshAccessToken(refreshToken: string): Promise<{ access_token: string; expires_in: number }> {
+  const clientSecret = Deno.env.get('GOOGLE_DRIVE_CLIENT_SECRET') || '';
+
+  if (!clientSecret) {
+    throw new Error('Missing Google Drive client secret');
+  }
+
+  const response = await fetch('https://oauth2.googleapis.com/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_id: GOOGLE_CLIENT_ID,
+      client_secret: clientSecret,
+      refresh_token: refreshToken,
+      grant_type: 'refresh_token',
+    }).toString(),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Refresh token error: ${await response.text()}`);
+  }
+
+  return await response.json();
+}
+
+export type DriveFetch = (url: string) => Promise<Response>;
+
+// Authorized fetch for one user's Drive. A token that expired is refreshed
+// once and the request retried.
+export async function createDriveFetch(supabase: SupabaseClient, userId: string): Promise<DriveFetch> {
+  const { data: connection, error } = await supabase
+    .from('google_drive_connections')
+    .select('access_token, refresh_token, expires_at')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!connection) throw new DriveImportError('Google Drive connection not found');
+
+  let accessToken: string = connection.access_token;
+
+  const refresh = async () => {
+    if (!connection.refresh_token) {
+      throw new DriveImportError('Google Drive access expired. Please reconnect Google Drive.');
+    }
+
+    const refreshed = await refreshAccessToken(connection.refresh_token);
+    accessToken = refreshed.access_token;
+
+    const { error: updateError } = await supabase
+      .from('google_drive_connections')
+      .update({
+        access_token: refreshed.access_token,
+        expires_at: new Date(Date.now() + refreshed.expires_in * 1000).toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('user_id', userId);
+
+    if (updateError) {
+      console.error('Error saving refreshed Google Drive token:', updateError);
+    }
+  };
+
+  if (connection.expires_at && new Date(connection.expires_at).getTime() <= Date.now()) {
+    await refresh();
+  }
+
+  return async (url: string) => {
+    let response = await fetch(url, { headers: { Authorization: `Bearer ${accessToken}` } });
+
+    if (response.status === 401) {
+      await response.body?.cancel();
+      await refresh();
+      response = await fetch(url, { headers: { Authorization: `Bearer ${accessToken}` } });
+    }
+
+    return response;
+  };
+}
+
+async function driveError(response: Response): Promise<DriveImportError> {
+  let message = `Google Drive returned ${response.status}`;
+  try {
+    const body = await response.json();
+    if (body?.error?.message) message = body.error.message;
+  } catch (_e) {
+    // Not JSON; keep the status
+  }
+  return new DriveImportError(message);
+}
+
+export async function listDriveFiles(
+  driveFetch: DriveFetch,
+  options: { folderId?: string | null; pageToken?: string | null; search?: string | null }
+): Promise<{ files: DriveFile[]; nextPageToken: string | null }> {
+  const response = await driveFetch(buildListUrl(options));
+  if (!response.ok) throw await driveError(response);
+
+  const data = await response.json();
+  return { files: data.files || [], nextPageToken: data.nextPageToken || null };
+}
+
+async function downloadDriveFile(driveFetch: DriveFetch, file: DriveFile, maxSize: number): Promise<Uint8Array> {
+  if (file.size && Number(file.size) > maxSize) {
+    throw new DriveImportError(`File is larger than ${Math.round(maxSize / (1024 * 1024))}MB`);
+  }
+
+  const url = classifyDriveFile(file.mimeType) === 'export'
+    ? `${DRIVE_API}/files/${encodeURIComponent(file.id)}/export?mimeType=${encodeURIComponent('application/pdf')}`
+    : `${DRIVE_API}/files/${encodeURIComponent(file.id)}?alt=media`;
+
+  const response = await driveFetch(url);
+  if (!response.ok) throw await driveError(response);
+
+  const data = new Uint8Array(await response.arrayBuffer());
+  if (data.byteLength > maxSize) {
+    throw new DriveImportError(`File is larger than ${Math.round(maxSize / (1024 * 1024))}MB`);
+  }
+
+  return data;
+}
+
+// Downloads one Drive file into a brain: PDFs and exported Google files become
+// documents (text extraction starts from the pending status), images go to
+// the gallery. The stored file is removed again if its record cannot be saved.
+export async function importDriveFile(
+  supabase: SupabaseClient,
+  driveFetch: DriveFetch,
+  fileId: string,
+  target: { projectId: string; userId: string }
+): Promise<DriveImportResult> {
+  const metadataResponse = await driveFetch(
+    `${DRIVE_API}/files/${encodeURIComponent(fileId)}?fields=id,name,mimeType,size,webViewLink,modifiedTime`
+  );
+  if (!metadataResponse.ok) throw await driveError(metadataResponse);
+
+  const file: DriveFile = await metadataResponse.json();
+  const kind = classifyDriveFile(file.mimeType);
+  const name = importedFileName(file);
+
+  if (kind === 'folder' || kind === 'unsupported') {
+    throw new DriveImportError(kind === 'folder' ? 'Folders cannot be imported' : 'This file type cannot be imported');
+  }
+
+  const source = { provider: 'google_drive', file_id: file.id, web_view_link: file.webViewLink || null };
+
+  if (kind === 'image') {
+    const data = await downloadDriveFile(driveFetch, file, MAX_IMAGE_SIZE);
+    const path = `${target.projectId}/${Date.now()}-${storageFileName(name)}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(IMAGES_BUCKET)
+      .upload(path, data, { contentType: file.mimeType, upsert: false });
+    if (uploadError) throw uploadError;
+
+    const { data: image, error } = await supabase
+      .from('project_images')
+      .insert({
+        project_id: target.projectId,
+        user_id: target.userId,
+        storage_path: path,
+        file_name: name,
+        mime_type: file.mimeType,
+        size_bytes: data.byteLength,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      await supabase.storage.from(IMAGES_BUCKET).remove([path]);
+      throw error;
+    }
+
+    return { fileId, name, status: 'imported', kind: 'image', imageId: image.id };
+  }
+
+  const data = await downloadDriveFile(driveFetch, file, MAX_DOCUMENT_SIZE);
+  const path = `${target.userId}/${target.projectId}/${Date.now()}_${storageFileName(name)}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .upload(path, data, { contentType: 'application/pdf', upsert: false });
+  if (uploadError) throw uploadError;
+
+  const { data: { publicUrl } } = supabase.storage.from(DOCUMENTS_BUCKET).getPublicUrl(path);
+
+  const { data: document, error } = await supabase
+    .from('project_documents')
+    .insert({
+      project_id: target.projectId,
+      user_id: target.userId,
+      file_name: name,
+      file_url: publicUrl,
+      file_path: path,
+      document_type: 'pdf',
+      file_size: data.byteLength,
+      metadata: { pdf_url: publicUrl, source },
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    await supabase.storage.from(DOCUMENTS_BUCKET).remove([path]);
+    throw error;
+  }
+
+  return { fileId, name, status: 'imported', kind: 'document', documentId: document.id };
+}
@@ -0,0 +1,65 @@
+
+import { describe, it, expect } from 'vitest';
+import { ConsoleMailTransport, escapeHtml, FileMailTransport, MailError, ResendMailTransport } from './mail.ts';
+
+const message = { to: 'new.user@example.com', subject: 'Hello', text: 'Open https://app.test/accept' };
+
+describe('ConsoleMailTransport', () => {
+  it('logs the recipient, subject and body', async () => {
+    const lines: unknown[] = [];
+    await new ConsoleMailTransport(line => lines.push(line)).send(message);
+
+    expect(lines[0]).toContain('To: new.user@example.com');
+    expect(lines[0]).toContain('https://app.test/accept');
+  });
+});
+
+describe('FileMailTransport', () => {
+  it('writes each message as JSON named after the send time and recipient', async () => {
+    const files: Record<string, string> = {};
+    const transport = new FileMailTransport(
+      '/tmp/outbox',
+      async (path, data) => { files[path] = data; },
+      () => new Date('2026-10-19T09:30:00.000Z')
+    );
+
+    await transport.send(message);
+
+    const path = '/tmp/outbox/2026-10-19T09-30-00-000Z-new.user@example.com.json';
+    expect(Object.keys(files)).toEqual([path]);
+    expect(JSON.parse(files[path])).toMatchObject({ ...message, sentAt: '2026-10-19T09:30:00.000Z' });
+  });
+});
+
+describe('ResendMailTransport', () => {
+  it('posts the message to the Resend API', async () => {
+    const requests: { url: string; init: RequestInit }[] = [];
+    const fetchImpl = (async (url: string, init: RequestInit) => {
+      requests.push({ url, init });
+      return new Response(JSON.stringify({ id: 'email_1' }), { status: 200 });
+    }) as typeof fetch;
+
+    await new ResendMailTransport('re_key', 'Team <team@example.com>', fetchImpl).send(message);
+
+    expect(requests[0].url).toBe('https://api.resend.com/emails');
+    expect((requests[0].init.headers as Record<string, string>).Authorization).toBe('Bearer re_key');
+    expect(JSON.parse(requests[0].init.body as string)).toMatchObject({
+      from: 'Team <team@example.com>',
+      to: ['new.user@example.com'],
+      subject: 'Hello',
+    });
+  });
+
+  it('reports delivery failures', async () => {
+    const fetchImpl = (async () => new Response('invalid from address', { status: 422 })) as typeof fetch;
+
+    await expect(new ResendMailTransport('re_key', undefined, fetchImpl).send(message))
+      .rejects.toBeInstanceOf(MailError);
+  });
+});
+
+describe('escapeHtml', () => {
+  it('escapes markup in interpolated values', () => {
+    expect(escapeHtml(`<b>"Tom & Jerry's"</b>`)).toBe('&lt;b&gt;&quot;Tom &amp; Jerry&#39;s&quot;&lt;/b&gt;');
+  });
+});
@@ -0,0 +1,125 @@
+// Outgoing email shared by the edge functions.
+//
+// Functions build a MailMessage and hand it to getMailTransport().send().
+// MAIL_TRANSPORT picks where it goes: 'resend' delivers through the Resend
+// API, 'console' logs the message and 'file' writes it as JSON under
+// MAIL_FILE_DIR so local runs and tests can read the links it contains.
+// Without MAIL_TRANSPORT, Resend is used when RESEND_API_KEY is set and the
+// console otherwise.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export class MailError extends Error {
+  constructor(message: string, public status: number = 500) {
+    super(message);
+    this.name = 'MailError';
+  }
+}
+
+const DEFAULT_FROM = 'Bra3n <no-reply@bra3n.app>';
+const DEFAULT_FILE_DIR = '/tmp/mail';
+
+export class ConsoleMailTransport implements MailTransport {
+  name = 'console';
+
+  constructor(private log: (...data: unknown[]) => void = console.log) {}
+
+  async send(message: MailMessage): Promise<void> {
+    this.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n\n${message.text}`);
+  }
+}
+
+type WriteTextFile = (path: string, data: string) => Promise<void>;
+
+const writeTextFileCreatingDirectory: WriteTextFile = async (path, data) => {
+  await Deno.mkdir(path.slice(0, path.lastIndexOf('/')), { recursive: true });
+  await Deno.writeTextFile(path, data);
+};
+
+export class FileMailTransport implements MailTransport {
+  name = 'file';
+
+  constructor(
+    private directory: string = DEFAULT_FILE_DIR,
+    private writeTextFile: WriteTextFile = writeTextFileCreatingDirectory,
+    private now: () => Date = () => new Date()
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    // Timestamp first so a directory listing is in send order
+    const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const path = `${this.directory}/${this.now().toISOString().replace(/[:.]/g, '-')}-${recipient}.json`;
+    await this.writeTextFile(path, JSON.stringify({ ...message, sentAt: this.now().toISOString() }, null, 2));
+  }
+}
+
+export class ResendMailTransport implements MailTransport {
+  name = 'resend';
+
+  constructor(
+    private apiKey: string,
+    private from: string = DEFAULT_FROM,
+    private fetchImpl: typeof fetch = fetch
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const response = await this.fetchImpl('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: this.from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      }),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new MailError(`Email delivery failed (${response.status}): ${detail}`, 502);
+    }
+  }
+}
+
+export function getMailTransport(): MailTransport {
+  const resendApiKey = Deno.env.get('RESEND_API_KEY');
+  const transport = Deno.env.get('MAIL_TRANSPORT') || (resendApiKey ? 'resend' : 'console');
+
+  switch (transport) {
+    case 'resend':
+      if (!resendApiKey) {
+        throw new MailError('RESEND_API_KEY is not configured');
+      }
+      return new ResendMailTransport(resendApiKey, Deno.env.get('MAIL_FROM') || DEFAULT_FROM);
+    case 'file':
+      return new FileMailTransport(Deno.env.get('MAIL_FILE_DIR') || DEFAULT_FILE_DIR);
+    case 'console':
+      return new ConsoleMailTransport();
+    default:
+      throw new MailError(`Unknown MAIL_TRANSPORT: ${transport}`);
+  }
+}
+
+// Escapes text interpolated into HTML email bodies
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
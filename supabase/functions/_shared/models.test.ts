@@ -0,0 +1,211 @@
+
+import { describe, it, expect } from 'vitest';
+import {
+  AnthropicModelProvider,
+  MockModelProvider,
+  ModelProviderError,
+  OpenAIModelProvider,
+  estimateCost,
+  resolveModelType,
+} from './models.ts';
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+const streamOf = (chunks: string[]) => {
+  const encoder = new TextEncoder();
+  return new Response(new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    }
+  }));
+};
+
+interface SentBody {
+  messages: { role: string; content: string | Record<string, unknown>[] }[];
+  max_tokens?: number;
+  temperature?: number;
+  stream_options?: Record<string, unknown>;
+}
+
+// Replays the given responses in order and records every request body
+const fakeFetch = (...responses: (Response | (() => Response | Promise<Response>))[]) => {
+  const calls: SentBody[] = [];
+  const fetchImpl = (async (_url: string, init: RequestInit) => {
+    calls.push(JSON.parse(init.body as string));
+    const next = responses.shift();
+    if (!next) throw new Error('Unexpected request');
+    return typeof next === 'function' ? next() : next;
+  }) as typeof fetch;
+  return { fetchImpl, calls };
+};
+
+const openAIAnswer = (content: string) => json({
+  choices: [{ message: { content } }],
+  usage: { prompt_tokens: 12, completion_tokens: 3 }
+});
+
+const request = { system: 'Be brief', messages: [{ role: 'user' as const, content: 'Hello?' }] };
+
+describe('OpenAIModelProvider', () => {
+  it('sends the system prompt first and reports usage', async () => {
+    const { fetchImpl, calls } = fakeFetch(openAIAnswer('Hi!'));
+    const provider = new OpenAIModelProvider('key', { fetch: fetchImpl });
+
+    const result = await provider.complete({ ...request, temperature: 0.3 });
+
+    expect(result.text).toBe('Hi!');
+    expect(result.model).toBe('gpt-4o-mini');
+    expect(result.usage).toEqual({ inputTokens: 12, outputTokens: 3, estimated: false });
+    expect(calls[0].messages[0]).toEqual({ role: 'system', content: 'Be brief' });
+    expect(calls[0].temperature).toBe(0.3);
+  });
+
+  it('retries rate limits and server errors with backoff', async () => {
+    const { fetchImpl, calls } = fakeFetch(
+      json({ error: 'slow down' }, 429, { 'Retry-After': '0' }),
+      json({ error: 'boom' }, 503),
+      openAIAnswer('Done')
+    );
+    const provider = new OpenAIModelProvider('key', { fetch: fetchImpl, retryDelayMs: 1 });
+
+    const result = await provider.complete(request);
+
+    expect(result.text).toBe('Done');
+    expect(calls).toHaveLength(3);
+  });
+
+  it('does not retry client errors', async () => {
+    const { fetchImpl, calls } = fakeFetch(json({ error: 'bad request' }, 400));
+    const provider = new OpenAIModelProvider('key', { fetch: fetchImpl, retryDelayMs: 1 });
+
+    await expect(provider.complete(request)).rejects.toMatchObject({ status: 400, retryable: false });
+    expect(calls).toHaveLength(1);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const { fetchImpl, calls } = fakeFetch(json({}, 500), json({}, 500));
+    const provider = new OpenAIModelProvider('key', { fetch: fetchImpl, maxRetries: 1, retryDelayMs: 1 });
+
+    await expect(provider.complete(request)).rejects.toBeInstanceOf(ModelProviderError);
+    expect(calls).toHaveLength(2);
+  });
+
+  it('times out hung requests', async () => {
+    const hang = (_url: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+    });
+    const provider = new OpenAIModelProvider('key', { fetch: hang as typeof fetch, maxRetries: 0, timeoutMs: 5 });
+
+    await expect(provider.complete(request)).rejects.toThrow('timed out after 5ms');
+  });
+
+  it('streams deltas and reads usage from the final chunk', async () => {
+    const { fetchImpl, calls } = fakeFetch(streamOf([
+      `data: ${JSON.stringify({ choices: [{ delta: { role: 'assistant' } }] })}\n\n`,
+      `data: ${JSON.stringify({ choices: [{ delta: { content: 'Hel' } }] })}\n\n`,
+      `data: ${JSON.stringify({ choices: [{ delta: { content: 'lo' } }] })}\n\n`,
+      `data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 8, completion_tokens: 2 } })}\n\ndata: [DONE]\n\n`
+    ]));
+    const provider = new OpenAIModelProvider('key', { fetch: fetchImpl });
+    const deltas: string[] = [];
+
+    const result = await provider.stream(request, delta => deltas.push(delta));
+
+    expect(deltas).toEqual(['Hel', 'lo']);
+    expect(result).toMatchObject({ text: 'Hello', cancelled: false });
+    expect(result.usage).toEqual({ inputTokens: 8, outputTokens: 2, estimated: false });
+    expect(calls[0].stream_options).toEqual({ include_usage: true });
+  });
+
+  it('throws on error payloads inside the stream', async () => {
+    const { fetchImpl } = fakeFetch(streamOf([`data: ${JSON.stringify({ error: { message: 'Overloaded' } })}\n\n`]));
+    const provider = new OpenAIModelProvider('key', { fetch: fetchImpl });
+
+    await expect(provider.stream(request, () => {})).rejects.toThrow('Overloaded');
+  });
+});
+
+describe('AnthropicModelProvider', () => {
+  it('uses the fast model for the fast tier and converts data URL images', async () => {
+    const { fetchImpl, calls } = fakeFetch(json({
+      content: [{ type: 'text', text: 'A chart' }],
+      usage: { input_tokens: 20, output_tokens: 2 }
+    }));
+    const provider = new AnthropicModelProvider('key', { fetch: fetchImpl });
+
+    const result = await provider.complete({
+      tier: 'fast',
+      messages: [{
+        role: 'user',
+        content: [{ type: 'text', text: 'Describe' }, { type: 'image', url: 'data:image/png;base64,AAAA' }]
+      }]
+    });
+
+    expect(result.text).toBe('A chart');
+    expect(result.model).toBe('claude-3-haiku-20240307');
+    expect(calls[0].max_tokens).toBe(1500);
+    expect(calls[0].messages[0].content[1]).toEqual({
+      type: 'image',
+      source: { type: 'base64', media_type: 'image/png', data: 'AAAA' }
+    });
+  });
+
+  it('collects usage from message_start and message_delta events', async () => {
+    const { fetchImpl } = fakeFetch(streamOf([
+      `event: message_start\ndata: ${JSON.stringify({ type: 'message_start', message: { usage: { input_tokens: 30 } } })}\n\n`,
+      `event: content_block_delta\ndata: ${JSON.stringify({ type: 'content_block_delta', delta: { type: 'text_delta', text: 'World' } })}\n\n`,
+      `event: ping\ndata: ${JSON.stringify({ type: 'ping' })}\n\n`,
+      `event: message_delta\ndata: ${JSON.stringify({ type: 'message_delta', usage: { output_tokens: 1 } })}\n\n`
+    ]));
+    const provider = new AnthropicModelProvider('key', { fetch: fetchImpl });
+
+    const result = await provider.stream(request, () => {});
+
+    expect(result.text).toBe('World');
+    expect(result.usage).toEqual({ inputTokens: 30, outputTokens: 1, estimated: false });
+  });
+});
+
+describe('MockModelProvider', () => {
+  it('answers deterministically without network access', async () => {
+    const provider = new MockModelProvider('claude');
+
+    const first = await provider.complete(request);
+    const second = await provider.complete(request);
+
+    expect(first.text).toBe('Mock default response to: Hello?');
+    expect(second).toEqual(first);
+    expect(first.usage.estimated).toBe(true);
+  });
+
+  it('stops streaming when the request is aborted', async () => {
+    const controller = new AbortController();
+    const provider = new MockModelProvider('openai', () => 'one two three four');
+    const deltas: string[] = [];
+
+    const result = await provider.stream({ ...request, signal: controller.signal }, delta => {
+      deltas.push(delta);
+      if (deltas.length === 2) controller.abort();
+    });
+
+    expect(result).toMatchObject({ text: 'one two ', cancelled: true });
+  });
+});
+
+describe('resolveModelType', () => {
+  it('prefers the requested model, then the brain default, then the fallback', () => {
+    expect(resolveModelType('openai', 'claude', 'claude')).toBe('openai');
+    expect(resolveModelType(undefined, 'openai', 'claude')).toBe('openai');
+    expect(resolveModelType('gpt-5', null, 'claude')).toBe('claude');
+  });
+});
+
+describe('estimateCost', () => {
+  it('prices input and output tokens per model and treats unknown models as free', () => {
+    expect(estimateCost('gpt-4o-mini', { inputTokens: 10000, outputTokens: 2000 })).toBe(0.0027);
+    expect(estimateCost('claude-3-7-sonnet-20250219', { inputTokens: 1000, outputTokens: 1000 })).toBe(0.018);
+    expect(estimateCost('mock-gpt-4o-mini', { inputTokens: 1000, outputTokens: 1000 })).toBe(0);
+  });
+});
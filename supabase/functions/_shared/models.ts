@@ -0,0 +1,626 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { createSSEParser, SSEMessage } from './streaming.ts';
+
+// Model provider layer shared by every function that calls an LLM.
+//
+// Functions pick a provider with getModelProvider(modelType) and call either
+// `complete` (whole answer) or `stream` (text forwarded as it is generated).
+// Providers retry rate limits and server errors with backoff, time out hung
+// requests and report token usage. MODEL_PROVIDER=mock swaps in an offline
+// provider so functions can be exercised without network access or API keys.
+
+// Keep in sync with ModelType in src/utils/aiPrompts.ts
+export type ModelType = 'claude' | 'openai';
+
+export const MODEL_TYPES: ModelType[] = ['claude', 'openai'];
+
+// default: chat and long-form analysis, fast: short utility tasks
+// (cleanup, titles, tags), vision: prompts that include images
+export type ModelTier = 'default' | 'fast' | 'vision';
+
+export const MODEL_NAMES: Record<ModelType, Record<ModelTier, string>> = {
+  claude: {
+    default: 'claude-3-7-sonnet-20250219',
+    fast: 'claude-3-haiku-20240307',
+    vision: 'claude-3-7-sonnet-20250219',
+  },
+  openai: {
+    default: 'gpt-4o-mini',
+    fast: 'gpt-4o-mini',
+    vision: 'gpt-4o',
+  },
+};
+
+// US dollars per million input and output tokens. Models missing here (the
+// mock provider's) are free.
+export const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'claude-3-7-sonnet-20250219': { input: 3, output: 15 },
+  'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+};
+
+export type ContentPart =
+  | { type: 'text'; text: string }
+  // `url` may be a https URL or a base64 data URL
+  | { type: 'image'; url: string };
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string | ContentPart[];
+}
+
+export interface CompletionRequest {
+  system?: string;
+  messages: ChatMessage[];
+  tier?: ModelTier;
+  maxTokens?: number;
+  temperature?: number;
+  // Aborting cancels the upstream request; streams then resolve with `cancelled: true`
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  // True when the provider did not report usage (e.g. a cancelled stream) and it was approximated
+  estimated: boolean;
+}
+
+export interface CompletionResult {
+  text: string;
+  model: string;
+  provider: string;
+  usage: TokenUsage;
+  cancelled: boolean;
+}
+
+export interface ModelProvider {
+  // Model family the caller asked for; the mock provider reports the one it stands in for
+  type: ModelType;
+  name: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  stream(request: CompletionRequest, onDelta: (text: string) => void): Promise<CompletionResult>;
+}
+
+export interface ProviderOptions {
+  fetch?: typeof fetch;
+  // Retries after the first attempt for 429, 5xx, timeouts and network errors
+  maxRetries?: number;
+  // Per attempt; for streams this covers the wait for the response headers
+  timeoutMs?: number;
+  // First backoff delay, doubled on every retry unless the API sends Retry-After
+  retryDelayMs?: number;
+}
+
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_TIMEOUT_MS = 60000;
+const DEFAULT_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 10000;
+const DEFAULT_MAX_TOKENS = 1500;
+
+export class ModelProviderError extends Error {
+  constructor(
+    message: string,
+    public status: number = 500,
+    public retryable = false,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ModelProviderError';
+  }
+}
+
+export function isModelType(value: unknown): value is ModelType {
+  return typeof value === 'string' && (MODEL_TYPES as string[]).includes(value);
+}
+
+// The explicitly requested model wins, then the brain's default, then the
+// function's own historical default
+export function resolveModelType(
+  requested: unknown,
+  projectDefault: unknown,
+  fallback: ModelType
+): ModelType {
+  if (isModelType(requested)) return requested;
+  if (isModelType(projectDefault)) return projectDefault;
+  return fallback;
+}
+
+// Reads projects.default_model; null when unset, unknown or the lookup fails
+export async function getProjectDefaultModel(
+  supabase: SupabaseClient,
+  projectId?: string | null
+): Promise<ModelType | null> {
+  if (!projectId) return null;
+
+  const { data, error } = await supabase
+    .from('projects')
+    .select('default_model')
+    .eq('id', projectId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching project default model:', error);
+    return null;
+  }
+
+  return isModelType(data?.default_model) ? data.default_model : null;
+}
+
+// Estimated price of a call in US dollars, rounded to the micro-dollar
+export function estimateCost(model: string, usage: Pick<TokenUsage, 'inputTokens' | 'outputTokens'>): number {
+  const price = MODEL_PRICES[model];
+  if (!price) return 0;
+
+  const dollars = (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+  return Math.round(dollars * 1_000_000) / 1_000_000;
+}
+
+// Rough count used when the API does not report usage (~4 characters per token)
+export function estimateTokens(text: string): number {
+  return Math.ceil((text || '').length / 4);
+}
+
+function contentText(content: string | ContentPart[]): string {
+  if (typeof content === 'string') return content;
+  return content.map(part => (part.type === 'text' ? part.text : '')).join('\n');
+}
+
+function estimatePromptTokens(request: CompletionRequest): number {
+  const prompt = [request.system || '', ...request.messages.map(message => contentText(message.content))];
+  return estimateTokens(prompt.join('\n'));
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Resolves early when the signal aborts; the next attempt then fails fast
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
+
+function logUsage(result: CompletionResult) {
+  const { inputTokens, outputTokens, estimated } = result.usage;
+  console.log(
+    `${result.model} used ${inputTokens} input and ${outputTokens} output tokens` +
+    `${estimated ? ' (estimated)' : ''}${result.cancelled ? ' before being cancelled' : ''}`
+  );
+}
+
+interface PendingRequest {
+  response: Response;
+  // Stops the per-attempt timeout once a stream has started
+  stopTimer: () => void;
+  // Detaches the caller's abort signal; call once the body has been read
+  release: () => void;
+}
+
+// Shared HTTP plumbing: retries, timeouts, streaming and usage bookkeeping.
+// Subclasses only describe the wire format of their API.
+abstract class HttpModelProvider implements ModelProvider {
+  abstract type: ModelType;
+  abstract name: string;
+  protected abstract label: string;
+  protected abstract url: string;
+
+  private fetchImpl: typeof fetch;
+  private maxRetries: number;
+  private timeoutMs: number;
+  private retryDelayMs: number;
+
+  constructor(protected apiKey: string, options: ProviderOptions = {}) {
+    this.fetchImpl = options.fetch || ((input, init) => fetch(input, init));
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  }
+
+  protected abstract headers(): Record<string, string>;
+  protected abstract buildBody(request: CompletionRequest, model: string, stream: boolean): Record<string, unknown>;
+  protected abstract parseCompletion(data: unknown): { text: string; usage?: Partial<TokenUsage> };
+  // Returns generated text from one stream message and records any usage it carries
+  protected abstract parseStreamMessage(message: SSEMessage, usage: Partial<TokenUsage>): string | null;
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const model = MODEL_NAMES[this.type][request.tier || 'default'];
+    const { response, release } = await this.send(this.buildBody(request, model, false), request.signal);
+
+    let data;
+    try {
+      data = await response.json();
+    } finally {
+      release();
+    }
+
+    const { text, usage } = this.parseCompletion(data);
+    return this.finish(request, model, text, usage || {}, false);
+  }
+
+  async stream(request: CompletionRequest, onDelta: (text: string) => void): Promise<CompletionResult> {
+    const model = MODEL_NAMES[this.type][request.tier || 'default'];
+    const signal = request.signal;
+    const usage: Partial<TokenUsage> = {};
+    let text = '';
+
+    let pending: PendingRequest;
+    try {
+      pending = await this.send(this.buildBody(request, model, true), signal);
+    } catch (error) {
+      if (signal?.aborted) return this.finish(request, model, text, usage, true);
+      throw error;
+    }
+
+    pending.stopTimer();
+    if (!pending.response.body) {
+      pending.release();
+      throw new ModelProviderError(`${this.label} API returned no body to stream`);
+    }
+
+    const reader = pending.response.body.getReader();
+    const decoder = new TextDecoder();
+    const parser = createSSEParser();
+
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        for (const message of parser.push(decoder.decode(value, { stream: true }))) {
+          const delta = this.parseStreamMessage(message, usage);
+          if (delta) {
+            text += delta;
+            onDelta(delta);
+          }
+        }
+      }
+    } catch (error) {
+      if (!signal?.aborted) throw error;
+    } finally {
+      pending.release();
+    }
+
+    return this.finish(request, model, text, usage, !!signal?.aborted);
+  }
+
+  private finish(
+    request: CompletionRequest,
+    model: string,
+    text: string,
+    usage: Partial<TokenUsage>,
+    cancelled: boolean
+  ): CompletionResult {
+    const reported = usage.inputTokens !== undefined && usage.outputTokens !== undefined;
+    const result: CompletionResult = {
+      text,
+      model,
+      provider: this.name,
+      cancelled,
+      usage: {
+        inputTokens: usage.inputTokens ?? estimatePromptTokens(request),
+        outputTokens: usage.outputTokens ?? estimateTokens(text),
+        estimated: !reported,
+      },
+    };
+
+    logUsage(result);
+    return result;
+  }
+
+  private async send(body: Record<string, unknown>, signal?: AbortSignal): Promise<PendingRequest> {
+    for (let attempt = 0; ; attempt++) {
+      const controller = new AbortController();
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, this.timeoutMs);
+      const forwardAbort = () => controller.abort();
+
+      const stopTimer = () => clearTimeout(timer);
+      const release = () => {
+        stopTimer();
+        signal?.removeEventListener('abort', forwardAbort);
+      };
+
+      if (signal?.aborted) controller.abort();
+      signal?.addEventListener('abort', forwardAbort);
+
+      let failure: ModelProviderError;
+      try {
+        const response = await this.fetchImpl(this.url, {
+          method: 'POST',
+          headers: this.headers(),
+          body: JSON.stringify(body),
+          signal: controller.signal,
+        });
+
+        if (response.ok) {
+          return { response, stopTimer, release };
+        }
+
+        const errorText = await response.text();
+        release();
+        failure = new ModelProviderError(
+          `${this.label} API error: ${response.status}. Details: ${errorText}`,
+          response.status,
+          isRetryableStatus(response.status),
+          parseRetryAfter(response.headers.get('retry-after'))
+        );
+      } catch (error) {
+        release();
+        if (signal?.aborted) throw error;
+
+        failure = timedOut
+          ? new ModelProviderError(`${this.label} API request timed out after ${this.timeoutMs}ms`, 504, true)
+          : new ModelProviderError(`${this.label} API request failed: ${error?.message || error}`, 502, true);
+      }
+
+      if (!failure.retryable || attempt >= this.maxRetries) {
+        console.error(failure.message);
+        throw failure;
+      }
+
+      const delay = Math.min(failure.retryAfterMs ?? this.retryDelayMs * 2 ** attempt, MAX_RETRY_DELAY_MS);
+      console.warn(`${failure.message} - retrying in ${delay}ms (retry ${attempt + 1} of ${this.maxRetries})`);
+      await sleep(delay, signal);
+    }
+  }
+}
+
+interface OpenAICompletion {
+  choices?: { message?: { content?: string } }[];
+  usage?: { prompt_tokens: number; completion_tokens: number };
+}
+
+export class OpenAIModelProvider extends HttpModelProvider {
+  type: ModelType = 'openai';
+  name = 'openai';
+  protected label = 'OpenAI';
+  protected url = 'https://api.openai.com/v1/chat/completions';
+
+  protected headers() {
+    return {
+      'Authorization': `Bearer ${this.apiKey}`,
+      'Content-Type': 'application/json',
+    };
+  }
+
+  protected buildBody(request: CompletionRequest, model: string, stream: boolean) {
+    const messages = request.messages.map(message => ({
+      role: message.role,
+      content: typeof message.content === 'string'
+        ? message.content
+        : message.content.map(part => part.type === 'text'
+          ? { type: 'text', text: part.text }
+          : { type: 'image_url', image_url: { url: part.url } }),
+    }));
+
+    return {
+      model,
+      messages: request.system ? [{ role: 'system', content: request.system }, ...messages] : messages,
+      ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(stream && { stream: true, stream_options: { include_usage: true } }),
+    };
+  }
+
+  protected parseCompletion(data: OpenAICompletion) {
+    const text = data?.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') {
+      console.error('Invalid response from OpenAI API:', data);
+      throw new ModelProviderError('Invalid response format from OpenAI API');
+    }
+
+    return {
+      text,
+      usage: data.usage && {
+        inputTokens: data.usage.prompt_tokens,
+        outputTokens: data.usage.completion_tokens,
+      },
+    };
+  }
+
+  protected parseStreamMessage(message: SSEMessage, usage: Partial<TokenUsage>) {
+    if (message.data === '[DONE]') return null;
+
+    let payload;
+    try {
+      payload = JSON.parse(message.data);
+    } catch {
+      return null;
+    }
+
+    if (payload.error) {
+      throw new ModelProviderError(`OpenAI API error: ${payload.error.message || 'stream failed'}`);
+    }
+    // Sent as a final chunk with no choices because of stream_options.include_usage
+    if (payload.usage) {
+      usage.inputTokens = payload.usage.prompt_tokens;
+      usage.outputTokens = payload.usage.completion_tokens;
+    }
+    return payload.choices?.[0]?.delta?.content || null;
+  }
+}
+
+interface AnthropicCompletion {
+  content?: { type: string; text?: string }[];
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+// Anthropic only accepts base64 data or a plain URL as an image source
+function toAnthropicImage(url: string) {
+  const match = url.match(/^data:([^;]+);base64,(.*)$/);
+  return match
+    ? { type: 'image', source: { type: 'base64', media_type: match[1], data: match[2] } }
+    : { type: 'image', source: { type: 'url', url } };
+}
+
+export class AnthropicModelProvider extends HttpModelProvider {
+  type: ModelType = 'claude';
+  name = 'anthropic';
+  protected label = 'Claude';
+  protected url = 'https://api.anthropic.com/v1/messages';
+
+  protected headers() {
+    return {
+      'Content-Type': 'application/json',
+      'x-api-key': this.apiKey,
+      'anthropic-version': '2023-06-01',
+    };
+  }
+
+  protected buildBody(request: CompletionRequest, model: string, stream: boolean) {
+    return {
+      model,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      ...(request.system && { system: request.system }),
+      messages: request.messages.map(message => ({
+        role: message.role,
+        content: typeof message.content === 'string'
+          ? message.content
+          : message.content.map(part => part.type === 'text'
+            ? { type: 'text', text: part.text }
+            : toAnthropicImage(part.url)),
+      })),
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(stream && { stream: true }),
+    };
+  }
+
+  protected parseCompletion(data: AnthropicCompletion) {
+    const blocks = Array.isArray(data?.content) ? data.content : [];
+    const text = blocks
+      .filter(block => block.type === 'text')
+      .map(block => block.text)
+      .join('');
+
+    if (!text) {
+      console.error('Invalid response from Claude API:', data);
+      throw new ModelProviderError('Invalid response format from Claude API');
+    }
+
+    return {
+      text,
+      usage: data.usage && {
+        inputTokens: data.usage.input_tokens,
+        outputTokens: data.usage.output_tokens,
+      },
+    };
+  }
+
+  protected parseStreamMessage(message: SSEMessage, usage: Partial<TokenUsage>) {
+    let payload;
+    try {
+      payload = JSON.parse(message.data);
+    } catch {
+      return null;
+    }
+
+    if (payload.type === 'error') {
+      throw new ModelProviderError(`Claude API error: ${payload.error?.message || 'stream failed'}`);
+    }
+    // Input tokens arrive with message_start, the running output count with message_delta
+    if (payload.type === 'message_start' && payload.message?.usage) {
+      usage.inputTokens = payload.message.usage.input_tokens;
+    }
+    if (payload.type === 'message_delta' && payload.usage) {
+      usage.outputTokens = payload.usage.output_tokens;
+    }
+    if (payload.type === 'content_block_delta' && payload.delta?.type === 'text_delta') {
+      return payload.delta.text || null;
+    }
+    return null;
+  }
+}
+
+// Deterministic offline provider for tests and local development. By default
+// it echoes the last user message; pass `respond` to script the answer.
+export class MockModelProvider implements ModelProvider {
+  name = 'mock';
+
+  constructor(
+    public type: ModelType = 'openai',
+    private respond: (request: CompletionRequest) => string = request => {
+      const lastUser = [...request.messages].reverse().find(message => message.role === 'user');
+      return `Mock ${request.tier || 'default'} response to: ${contentText(lastUser?.content || '').slice(0, 200)}`;
+    }
+  ) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    return this.result(request, this.respond(request), false);
+  }
+
+  // Streams word by word, stopping as soon as the signal aborts
+  async stream(request: CompletionRequest, onDelta: (text: string) => void): Promise<CompletionResult> {
+    const words = this.respond(request).match(/\S+\s*/g) || [];
+    let text = '';
+
+    for (const word of words) {
+      await Promise.resolve();
+      if (request.signal?.aborted) break;
+      text += word;
+      onDelta(word);
+    }
+
+    return this.result(request, text, !!request.signal?.aborted);
+  }
+
+  private result(request: CompletionRequest, text: string, cancelled: boolean): CompletionResult {
+    return {
+      text,
+      model: `mock-${MODEL_NAMES[this.type][request.tier || 'default']}`,
+      provider: this.name,
+      cancelled,
+      usage: {
+        inputTokens: estimatePromptTokens(request),
+        outputTokens: estimateTokens(text),
+        estimated: true,
+      },
+    };
+  }
+}
+
+// Pick the provider for a model family. MODEL_PROVIDER=mock forces the
+// offline provider; otherwise the matching API key must be configured.
+export function getModelProvider(type: ModelType, options: ProviderOptions = {}): ModelProvider {
+  if (Deno.env.get('MODEL_PROVIDER') === 'mock') {
+    return new MockModelProvider(type);
+  }
+
+  if (type === 'claude') {
+    // CLAUDE_API_KEY is the older name some deployments still use
+    const anthropicApiKey = Deno.env.get('ANTHROPIC_API_KEY') || Deno.env.get('CLAUDE_API_KEY');
+    if (!anthropicApiKey) {
+      throw new ModelProviderError('ANTHROPIC_API_KEY is not configured');
+    }
+    return new AnthropicModelProvider(anthropicApiKey, options);
+  }
+
+  const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
+  if (!openAIApiKey) {
+    throw new ModelProviderError('OPENAI_API_KEY is not configured');
+  }
+  return new OpenAIModelProvider(openAIApiKey, options);
+}
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import {
+  contentHash,
+  NotionPage,
+  NotionSource,
+  RenderedPage,
+  saveNotionNote,
+  SyncedNote,
+  syncNotionDatabase,
+  syncNotionNote,
+} from './notionSync.ts';
+
+type Call = { table: string; op: string; values?: unknown; filters: [string, unknown][] };
+
+// Records every write; selects resolve with `rows[table]`, lookups of a
+// page's existing note with `existingNote`
+const fakeSupabase = (rows: Record<string, unknown[]> = {}, existingNote: { id: string } | null = null) => {
+  const calls: Call[] = [];
+
+  const client = {
+    from: (table: string) => {
+      const call: Call = { table, op: 'select', filters: [] };
+      calls.push(call);
+      const result = () => ({ data: call.op === 'select' ? rows[table] || [] : { id: `${table}-new` }, error: null });
+
+      const builder = {
+        select: () => builder,
+        insert: (values: unknown) => { call.op = 'insert'; call.values = values; return builder; },
+        update: (values: unknown) => { call.op = 'update'; call.values = values; return builder; },
+        upsert: (values: unknown) => { call.op = 'upsert'; call.values = values; return builder; },
+        delete: () => { call.op = 'delete'; return builder; },
+        eq: (column: string, value: unknown) => { call.filters.push([column, value]); return builder; },
+        in: (column: string, value: unknown) => { call.filters.push([column, value]); return builder; },
+        is: () => builder,
+        single: async () => result(),
+        maybeSingle: async () => ({ data: existingNote, error: null }),
+        then: (resolve: (value: unknown) => void) => resolve(result()),
+      };
+      return builder;
+    },
+  } as unknown as SupabaseClient;
+
+  return { client, calls, writes: () => calls.filter((call) => call.op !== 'select') };
+};
+
+const page = (id: string, lastEdited: string): NotionPage => ({ id, url: `https://notion.so/${id}`, last_edited_time: lastEdited });
+
+const fakeSource = (pages: NotionPage[], rendered: RenderedPage = { title: 'Roadmap', content: 'From Notion' }): NotionSource & { rendered: string[] } => {
+  const renderedIds: string[] = [];
+  return {
+    rendered: renderedIds,
+    getPage: async (pageId) => pages.find((p) => p.id === pageId)!,
+    renderPage: async (p) => { renderedIds.push(p.id); return rendered; },
+    queryDatabase: async (_databaseId, cursor) => cursor
+      ? { results: pages.slice(2), has_more: false, next_cursor: null }
+      : { results: pages.slice(0, 2), has_more: pages.length > 2, next_cursor: 'next' },
+  };
+};
+
+const syncedNote = async (changes: Partial<SyncedNote> = {}): Promise<SyncedNote> => ({
+  id: 'note-1',
+  project_id: 'brain-1',
+  user_id: 'user-1',
+  title: 'Roadmap',
+  content: 'Original',
+  notion_page_id: 'page-1',
+  notion_last_edited_time: '2026-10-01T10:00:00.000Z',
+  notion_synced_hash: await contentHash('Original'),
+  tags: ['notion', 'roadmap'],
+  source_document: { type: 'notion', id: 'page-1' },
+  ...changes,
+});
+
+describe('contentHash', () => {
+  it('is the hex sha256 of the content', async () => {
+    expect(await contentHash('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
+
+describe('syncNotionNote', () => {
+  it('leaves notes alone when the page has not changed', async () => {
+    const { client, writes } = fakeSupabase();
+    const source = fakeSource([page('page-1', '2026-10-01T10:00:00.000Z')]);
+
+    expect(await syncNotionNote(client, source, await syncedNote())).toBe('unchanged');
+    expect(source.rendered).toEqual([]);
+    expect(writes()).toHaveLength(1);
+    expect(writes()[0].values).toHaveProperty('notion_checked_at');
+  });
+
+  it('rewrites notes that were not edited here', async () => {
+    const { client, writes } = fakeSupabase();
+    const source = fakeSource([page('page-1', '2026-10-02T10:00:00.000Z')]);
+
+    expect(await syncNotionNote(client, source, await syncedNote())).toBe('updated');
+    expect(writes()[0].values).toMatchObject({
+      content: 'From Notion',
+      notion_last_edited_time: '2026-10-02T10:00:00.000Z',
+      notion_synced_hash: await contentHash('From Notion'),
+    });
+    expect(writes()[1]).toMatchObject({ table: 'notion_sync_conflicts', op: 'delete' });
+  });
+
+  it('parks the Notion version when the note was edited on both sides', async () => {
+    const { client, writes } = fakeSupabase();
+    const source = fakeSource([page('page-1', '2026-10-02T10:00:00.000Z')]);
+
+    expect(await syncNotionNote(client, source, await syncedNote({ content: 'Edited here' }))).toBe('conflict');
+    expect(writes()[0]).toMatchObject({
+      table: 'notion_sync_conflicts',
+      op: 'upsert',
+      values: { note_id: 'note-1', incoming_content: 'From Notion', notion_last_edited_time: '2026-10-02T10:00:00.000Z' },
+    });
+    expect(writes().some((call) => call.table === 'project_notes' && (call.values as Record<string, unknown>).content)).toBe(false);
+  });
+
+  it('keeps the note when the page was deleted in Notion', async () => {
+    const { client } = fakeSupabase();
+    const source = fakeSource([{ ...page('page-1', '2026-10-02T10:00:00.000Z'), archived: true }]);
+
+    expect(await syncNotionNote(client, source, await syncedNote())).toBe('removed');
+  });
+});
+
+describe('saveNotionNote', () => {
+  it('updates the note a page was imported into before', async () => {
+    const { client, writes } = fakeSupabase({}, { id: 'note-1' });
+
+    const { created } = await saveNotionNote(client, {
+      projectId: 'brain-1', userId: 'user-1', page: page('page-1', '2026-10-02T10:00:00.000Z'), title: 'Roadmap', content: ' New ',
+    });
+
+    expect(created).toBe(false);
+    expect(writes()[0]).toMatchObject({ op: 'update', values: { content: 'New', notion_page_id: 'page-1' }, filters: [['id', 'note-1']] });
+  });
+});
+
+describe('syncNotionDatabase', () => {
+  it('imports rows that are not in the brain yet, up to the limit', async () => {
+    const rows = ['row-1', 'row-2', 'row-3', 'row-4'].map((id) => page(id, '2026-10-02T10:00:00.000Z'));
+    const { client, writes } = fakeSupabase({ project_notes: [{ notion_page_id: 'row-1' }] });
+    const source = fakeSource(rows, { title: 'Row', content: 'Row body', tags: ['Q4', 'notion'], properties: { Status: 'Done' } });
+
+    const result = await syncNotionDatabase(
+      client, source, { id: 'db-1', project_id: 'brain-1', user_id: 'user-2', database_id: 'notion-db' }, 2
+    );
+
+    expect(result).toEqual({ imported: 2, failed: 0 });
+    expect(source.rendered).toEqual(['row-2', 'row-3']);
+    expect(writes().map((call) => call.op)).toEqual(['insert', 'insert']);
+    expect(writes()[0].values).toMatchObject({
+      project_id: 'brain-1',
+      user_id: 'user-2',
+      notion_page_id: 'row-2',
+      tags: ['notion', 'imported', 'notion-import', 'Q4'],
+      source_document: { type: 'notion', id: 'row-2', properties: { Status: 'Done' } },
+    });
+  });
+});
@@ -0,0 +1,301 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+// Keeps notes imported from Notion up to date. A note whose page changed in
+// Notion is rewritten in place, unless the note was edited here since the last
+// sync; then the Notion version is parked in notion_sync_conflicts and the
+// note is left alone until someone picks a side (resolve_notion_conflict()).
+// Synced databases additionally import rows that are not in the brain yet.
+
+export const NOTION_NOTE_TAGS = ['notion', 'imported', 'notion-import'];
+
+// Rows imported per database and run; the rest follow on the next run
+export const MAX_NEW_ROWS_PER_RUN = 20;
+
+// Database pages of 100 rows looked at per run, newest rows first
+const MAX_QUERY_PAGES = 10;
+
+export interface NotionPage {
+  id: string;
+  url?: string;
+  last_edited_time: string;
+  archived?: boolean;
+  in_trash?: boolean;
+}
+
+// A page converted to a note; tags and properties come from database rows
+export interface RenderedPage {
+  title: string;
+  content: string;
+  tags?: string[];
+  properties?: Record<string, unknown>;
+}
+
+export interface NotionSource {
+  getPage(pageId: string): Promise<NotionPage>;
+  renderPage(page: NotionPage, target: { projectId: string; userId: string }): Promise<RenderedPage>;
+  queryDatabase(databaseId: string, startCursor?: string | null): Promise<{
+    results: NotionPage[];
+    has_more: boolean;
+    next_cursor: string | null;
+  }>;
+}
+
+export interface SyncedNote {
+  id: string;
+  project_id: string;
+  user_id: string;
+  title: string;
+  content: string | null;
+  notion_page_id: string;
+  notion_last_edited_time: string | null;
+  notion_synced_hash: string | null;
+  tags: string[] | null;
+  source_document: Record<string, unknown> | null;
+}
+
+export interface SyncedDatabase {
+  id: string;
+  project_id: string;
+  user_id: string;
+  database_id: string;
+}
+
+export type NoteSyncStatus = 'unchanged' | 'updated' | 'conflict' | 'removed' | 'failed';
+
+export type NoteSyncCounts = Record<NoteSyncStatus, number>;
+
+export const SYNCED_NOTE_COLUMNS =
+  'id, project_id, user_id, title, content, notion_page_id, notion_last_edited_time, notion_synced_hash, tags, source_document';
+
+// Hex sha256 of the content; matches encode(sha256(...), 'hex') in SQL
+export async function contentHash(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Columns that tie a note to the version of the page it was written from
+export async function notionNoteFields(page: NotionPage, content: string) {
+  return {
+    notion_page_id: page.id,
+    notion_last_edited_time: page.last_edited_time,
+    notion_synced_hash: await contentHash(content),
+    notion_checked_at: new Date().toISOString(),
+  };
+}
+
+// Tags and metadata of a note after a sync. Tags added here are kept, and
+// property values replace the ones from the previous sync.
+function mergedNoteMetadata(
+  note: { tags: string[] | null; source_document: Record<string, unknown> | null },
+  rendered: RenderedPage
+) {
+  const tags = [...(note.tags || [])];
+  for (const tag of rendered.tags || []) {
+    if (!tags.some((existing) => existing.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+  }
+
+  const sourceDocument = { ...(note.source_document || {}) };
+  if (rendered.properties && Object.keys(rendered.properties).length > 0) {
+    sourceDocument.properties = rendered.properties;
+  } else {
+    delete sourceDocument.properties;
+  }
+
+  return { tags, source_document: sourceDocument };
+}
+
+// Saves a page as a note of the brain. A page that is already in the brain
+// updates its note, so importing it again never creates a duplicate.
+export async function saveNotionNote(
+  supabase: SupabaseClient,
+  options: { projectId: string; userId: string; page: NotionPage } & RenderedPage
+): Promise<{ note: { id: string }; created: boolean }> {
+  const { projectId, userId, page, title } = options;
+  const content = options.content.trim();
+  const rendered = { ...options, content };
+  const fields = await notionNoteFields(page, content);
+
+  const { data: existing, error: existingError } = await supabase
+    .from('project_notes')
+    .select('id, tags, source_document')
+    .eq('project_id', projectId)
+    .eq('notion_page_id', page.id)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (existingError) throw existingError;
+
+  if (existing) {
+    const { data: note, error } = await supabase
+      .from('project_notes')
+      .update({
+        title,
+        content,
+        ...mergedNoteMetadata(existing, rendered),
+        ...fields,
+        revision_cause: 'import',
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', existing.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await supabase.from('notion_sync_conflicts').delete().eq('note_id', existing.id);
+    return { note, created: false };
+  }
+
+  const { data: note, error } = await supabase
+    .from('project_notes')
+    .insert({
+      title,
+      content,
+      project_id: projectId,
+      user_id: userId,
+      ...mergedNoteMetadata(
+        { tags: NOTION_NOTE_TAGS, source_document: { type: 'notion', url: page.url || '', name: title, id: page.id } },
+        rendered
+      ),
+      ...fields,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return { note, created: true };
+}
+
+// Brings one note up to date with its page
+export async function syncNotionNote(
+  supabase: SupabaseClient,
+  source: NotionSource,
+  note: SyncedNote
+): Promise<NoteSyncStatus> {
+  const checkedAt = new Date().toISOString();
+  const page = await source.getPage(note.notion_page_id);
+
+  const markChecked = async () => {
+    const { error } = await supabase.from('project_notes').update({ notion_checked_at: checkedAt }).eq('id', note.id);
+    if (error) throw error;
+  };
+
+  // Deleting a page in Notion leaves the note as the last copy
+  if (page.archived || page.in_trash) {
+    await markChecked();
+    return 'removed';
+  }
+
+  if (note.notion_last_edited_time && Date.parse(page.last_edited_time) <= Date.parse(note.notion_last_edited_time)) {
+    await markChecked();
+    return 'unchanged';
+  }
+
+  const rendered = await source.renderPage(page, { projectId: note.project_id, userId: note.user_id });
+  const title = rendered.title;
+  const content = rendered.content.trim();
+  const localContent = note.content || '';
+
+  if (localContent === content || (await contentHash(localContent)) === note.notion_synced_hash) {
+    const { error } = await supabase
+      .from('project_notes')
+      .update({
+        title,
+        content,
+        ...mergedNoteMetadata(note, rendered),
+        ...(await notionNoteFields(page, content)),
+        revision_cause: 'import',
+        updated_at: checkedAt,
+      })
+      .eq('id', note.id);
+    if (error) throw error;
+
+    await supabase.from('notion_sync_conflicts').delete().eq('note_id', note.id);
+    return 'updated';
+  }
+
+  // Edited on both sides: keep the note and offer the Notion version
+  const { error } = await supabase
+    .from('notion_sync_conflicts')
+    .upsert({
+      note_id: note.id,
+      project_id: note.project_id,
+      incoming_title: title,
+      incoming_content: content,
+      notion_last_edited_time: page.last_edited_time,
+      detected_at: checkedAt,
+    }, { onConflict: 'note_id' });
+  if (error) throw error;
+
+  await markChecked();
+  return 'conflict';
+}
+
+// Syncs notes one by one with the Notion connection of whoever imported them.
+// A note that fails is still marked as checked so it cannot hold up the rest.
+export async function syncNotionNotes(
+  supabase: SupabaseClient,
+  sourceFor: (ownerId: string) => Promise<NotionSource>,
+  notes: SyncedNote[]
+): Promise<NoteSyncCounts> {
+  const counts: NoteSyncCounts = { unchanged: 0, updated: 0, conflict: 0, removed: 0, failed: 0 };
+
+  for (const note of notes) {
+    try {
+      counts[await syncNotionNote(supabase, await sourceFor(note.user_id), note)]++;
+    } catch (error) {
+      console.error(`Error syncing note ${note.id} from Notion page ${note.notion_page_id}:`, error);
+      counts.failed++;
+      await supabase.from('project_notes').update({ notion_checked_at: new Date().toISOString() }).eq('id', note.id);
+    }
+  }
+
+  return counts;
+}
+
+// Imports database rows that have no note in the brain yet. Rows whose note
+// was moved to the trash count as imported and are not brought back.
+export async function syncNotionDatabase(
+  supabase: SupabaseClient,
+  source: NotionSource,
+  database: SyncedDatabase,
+  limit = MAX_NEW_ROWS_PER_RUN
+): Promise<{ imported: number; failed: number }> {
+  const rows: NotionPage[] = [];
+  let cursor: string | null = null;
+
+  for (let page = 0; page < MAX_QUERY_PAGES; page++) {
+    const result = await source.queryDatabase(database.database_id, cursor);
+    rows.push(...result.results.filter((row) => !row.archived && !row.in_trash));
+    if (!result.has_more || !result.next_cursor) break;
+    cursor = result.next_cursor;
+  }
+
+  const known = new Set<string>();
+  for (let i = 0; i < rows.length; i += 100) {
+    const { data, error } = await supabase
+      .from('project_notes')
+      .select('notion_page_id')
+      .eq('project_id', database.project_id)
+      .in('notion_page_id', rows.slice(i, i + 100).map((row) => row.id));
+
+    if (error) throw error;
+    (data || []).forEach((note: { notion_page_id: string }) => known.add(note.notion_page_id));
+  }
+
+  let imported = 0;
+  let failed = 0;
+
+  for (const row of rows.filter((row) => !known.has(row.id)).slice(0, limit)) {
+    try {
+      const target = { projectId: database.project_id, userId: database.user_id };
+      await saveNotionNote(supabase, { ...target, page: row, ...(await source.renderPage(row, target)) });
+      imported++;
+    } catch (error) {
+      console.error(`Error importing row ${row.id} of Notion database ${database.database_id}:`, error);
+      failed++;
+    }
+  }
+
+  return { imported, failed };
+}
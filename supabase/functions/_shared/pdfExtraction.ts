@@ -0,0 +1,45 @@
+// pdf.js needs XMLHttpRequest, which Deno does not provide
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import * as pdfjs from "https://cdn.jsdelivr.net/npm/pdfjs-dist@3.4.120/build/pdf.min.js";
+import { DocumentPage, joinPages, normalizePages } from './documentText.ts';
+
+// Text of every page of a PDF, in page order
+export async function extractPdfPages(data: Uint8Array): Promise<DocumentPage[]> {
+  if (data.byteLength === 0) {
+    throw new Error("PDF data is empty");
+  }
+
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  console.log(`PDF loaded with ${pdf.numPages} pages`);
+
+  const pages: DocumentPage[] = [];
+
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const content = await page.getTextContent();
+    // hasEOL marks the end of a line in the PDF's own layout
+    const text = content.items
+      .map(item => item.str + (item.hasEOL ? '\n' : ' '))
+      .join('');
+
+    pages.push({ page: i, text });
+
+    // Free memory
+    if (typeof page.cleanup === 'function') {
+      page.cleanup();
+    }
+  }
+
+  return pages;
+}
+
+// Downloads a PDF and returns its text with pages separated by blank lines
+export async function extractPdfTextFromUrl(url: string): Promise<{ text: string; pageCount: number }> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch PDF: ${response.status} ${response.statusText}`);
+  }
+
+  const pages = normalizePages(await extractPdfPages(new Uint8Array(await response.arrayBuffer())));
+  return { text: joinPages(pages), pageCount: pages.length };
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { QuotaError, enforceQuota, getQuotas, parseQuotaError, quotaErrorResponse } from './quotas.ts';
+
+// What enforce_quota() raises once a starter user has used their 25 calls
+const callLimitError = {
+  code: 'PT429',
+  message: 'Your plan allows 25 AI calls a month',
+  details: JSON.stringify({
+    code: 'quota_exceeded',
+    quota: 'api_calls',
+    limit: 25,
+    used: 25,
+    requested: 1,
+    planType: 'starter',
+  }),
+  hint: 'Upgrade to Pro to raise your limit',
+};
+
+// Answers every rpc with `result` and records the calls
+const fakeSupabase = (result: { data?: unknown; error?: unknown }) => {
+  const calls: { name: string; args: Record<string, unknown> }[] = [];
+  const client = {
+    rpc: async (name: string, args: Record<string, unknown>) => {
+      calls.push({ name, args });
+      return { data: result.data ?? null, error: result.error ?? null };
+    },
+  } as unknown as SupabaseClient;
+
+  return { client, calls };
+};
+
+describe('parseQuotaError', () => {
+  it('reads the payload of a quota error raised by the database', () => {
+    expect(parseQuotaError(callLimitError)).toEqual({
+      code: 'quota_exceeded',
+      quota: 'api_calls',
+      limit: 25,
+      used: 25,
+      requested: 1,
+      planType: 'starter',
+      message: 'Your plan allows 25 AI calls a month',
+      hint: 'Upgrade to Pro to raise your limit',
+    });
+  });
+
+  it('ignores other errors', () => {
+    expect(parseQuotaError(null)).toBeNull();
+    expect(parseQuotaError({ code: '23505', message: 'duplicate key' })).toBeNull();
+    expect(parseQuotaError({ code: 'PT402', message: 'Payment required', details: 'not json' })).toBeNull();
+  });
+});
+
+describe('enforceQuota', () => {
+  it('throws a QuotaError that becomes a 429 with the payload', async () => {
+    const { client, calls } = fakeSupabase({ error: callLimitError });
+
+    const error = await enforceQuota(client, 'user-1', 'api_calls').catch(e => e);
+
+    expect(calls).toEqual([{
+      name: 'enforce_quota',
+      args: { p_user_id: 'user-1', p_quota: 'api_calls', p_amount: 1 },
+    }]);
+    expect(error).toBeInstanceOf(QuotaError);
+
+    const response = quotaErrorResponse(error, {})!;
+    expect(response.status).toBe(429);
+    expect(await response.json()).toMatchObject({
+      error: 'Your plan allows 25 AI calls a month',
+      code: 'quota_exceeded',
+      quota: 'api_calls',
+      limit: 25,
+    });
+  });
+
+  it('uses 402 for limits that need a bigger plan', () => {
+    const error = new QuotaError({ ...parseQuotaError(callLimitError)!, quota: 'storage' });
+    expect(quotaErrorResponse(error, {})!.status).toBe(402);
+    expect(quotaErrorResponse(new Error('other'), {})).toBeNull();
+  });
+
+  it('skips service-role calls and does not fail when the check itself fails', async () => {
+    const skipped = fakeSupabase({});
+    await enforceQuota(skipped.client, null, 'api_calls');
+    expect(skipped.calls).toHaveLength(0);
+
+    const failing = fakeSupabase({ error: { code: '42883', message: 'function does not exist' } });
+    await expect(enforceQuota(failing.client, 'user-1', 'api_calls')).resolves.toBeUndefined();
+  });
+});
+
+describe('getQuotas', () => {
+  it('converts the bigint columns and keeps unenforced limits null', async () => {
+    const { client } = fakeSupabase({
+      data: [
+        { quota: 'storage', plan_type: 'pro', quota_limit: '53687091200', used: '1024', overridden: false },
+        { quota: 'brains', plan_type: 'pro', quota_limit: null, used: 3, overridden: true },
+      ],
+    });
+
+    expect(await getQuotas(client, 'user-1')).toEqual([
+      { quota: 'storage', planType: 'pro', limit: 53687091200, used: 1024, overridden: false },
+      { quota: 'brains', planType: 'pro', limit: null, used: 3, overridden: true },
+    ]);
+  });
+});
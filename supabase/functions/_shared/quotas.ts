@@ -0,0 +1,130 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+// Plan limits enforced on the server.
+//
+// Brains, documents and storage are enforced by triggers in the database,
+// which raise SQLSTATE PT402 with a JSON detail (see the plan_quotas
+// migration). The AI functions call enforceQuota() before they call a model,
+// and get PT429 once the month's calls are used up. Both reach the client as
+// the same payload, which it turns into an upgrade prompt.
+
+export type QuotaName = 'brains' | 'documents' | 'storage' | 'api_calls';
+
+export interface QuotaExceeded {
+  code: 'quota_exceeded';
+  quota: QuotaName;
+  limit: number;
+  used: number;
+  requested: number;
+  planType: string | null;
+  message: string;
+  hint: string | null;
+}
+
+export class QuotaError extends Error {
+  constructor(public payload: QuotaExceeded) {
+    super(payload.message);
+    this.name = 'QuotaError';
+  }
+
+  // Running out of calls resets next month; everything else needs a bigger plan
+  get status(): 402 | 429 {
+    return this.payload.quota === 'api_calls' ? 429 : 402;
+  }
+}
+
+// A limit and how much of it the user has used
+export interface QuotaStatus {
+  quota: QuotaName;
+  planType: string | null;
+  // Null when the limit is not enforced
+  limit: number | null;
+  used: number;
+  // Set by an admin instead of coming from the plan
+  overridden: boolean;
+}
+
+interface QuotaRow {
+  quota: QuotaName;
+  plan_type: string | null;
+  quota_limit: number | string | null;
+  used: number | string;
+  overridden: boolean;
+}
+
+export async function getQuotas(supabase: SupabaseClient, userId: string): Promise<QuotaStatus[]> {
+  const { data, error } = await supabase.rpc('user_quotas', { p_user_id: userId });
+  if (error) throw error;
+
+  return ((data || []) as QuotaRow[]).map(row => ({
+    quota: row.quota,
+    planType: row.plan_type,
+    limit: row.quota_limit === null ? null : Number(row.quota_limit),
+    used: Number(row.used) || 0,
+    overridden: !!row.overridden,
+  }));
+}
+
+interface DatabaseError {
+  code?: string;
+  message: string;
+  details?: string | null;
+  hint?: string | null;
+}
+
+// The payload of an error raised by enforce_quota(), or null for any other error
+export function parseQuotaError(error: DatabaseError | null | undefined): QuotaExceeded | null {
+  if (!error || (error.code !== 'PT402' && error.code !== 'PT429')) return null;
+
+  try {
+    const details = JSON.parse(error.details || '');
+    if (details?.code !== 'quota_exceeded') return null;
+
+    return {
+      code: 'quota_exceeded',
+      quota: details.quota,
+      limit: Number(details.limit),
+      used: Number(details.used),
+      requested: Number(details.requested),
+      planType: details.planType ?? null,
+      message: error.message,
+      hint: error.hint ?? null,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Throws QuotaError when `amount` more would go over the user's limit.
+// Service-role calls that act for no user are not limited.
+export async function enforceQuota(
+  supabase: SupabaseClient,
+  userId: string | null,
+  quota: QuotaName,
+  amount = 1
+): Promise<void> {
+  if (!userId) return;
+
+  const { error } = await supabase.rpc('enforce_quota', {
+    p_user_id: userId,
+    p_quota: quota,
+    p_amount: amount,
+  });
+  if (!error) return;
+
+  const exceeded = parseQuotaError(error);
+  if (exceeded) throw new QuotaError(exceeded);
+
+  // A failing check is logged rather than taking the feature down with it
+  console.error('Error checking quota:', error);
+}
+
+// JSON 402/429 response for QuotaError, or null so callers can fall through to their own handling
+export function quotaErrorResponse(error: unknown, headers: Record<string, string>): Response | null {
+  if (!(error instanceof QuotaError)) return null;
+
+  return new Response(
+    JSON.stringify({ error: error.message, ...error.payload }),
+    { status: error.status, headers: { ...headers, 'Content-Type': 'application/json' } }
+  );
+}
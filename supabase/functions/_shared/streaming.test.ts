@@ -0,0 +1,75 @@
+
+import { describe, it, expect } from 'vitest';
+import { createSSEParser, createSSEResponse, streamCompletion, SSEWriter } from './streaming.ts';
+import { MockModelProvider } from './models.ts';
+
+const recordingWriter = () => {
+  const events: { event: string; data: unknown }[] = [];
+  const writer: SSEWriter = {
+    signal: new AbortController().signal,
+    send: (event, data) => events.push({ event, data })
+  };
+  return { writer, events };
+};
+
+describe('createSSEParser', () => {
+  it('keeps incomplete messages until the rest arrives', () => {
+    const parser = createSSEParser();
+
+    expect(parser.push('event: delta\ndata: {"te')).toEqual([]);
+    expect(parser.push('xt":"Hi"}\n\ndata: [DONE]\n\n')).toEqual([
+      { event: 'delta', data: '{"text":"Hi"}' },
+      { event: 'message', data: '[DONE]' }
+    ]);
+  });
+
+  it('handles CRLF line endings and ignores comments', () => {
+    const parser = createSSEParser();
+
+    expect(parser.push(': ping\r\n\r\ndata: one\r\n\r\n')).toEqual([{ event: 'message', data: 'one' }]);
+  });
+});
+
+describe('streamCompletion', () => {
+  it('forwards each delta and returns the full text', async () => {
+    const provider = new MockModelProvider('openai', () => 'Hello there world');
+    const { writer, events } = recordingWriter();
+
+    const result = await streamCompletion(provider, { messages: [{ role: 'user', content: 'Hi' }] }, writer);
+
+    expect(result.text).toBe('Hello there world');
+    expect(result.cancelled).toBe(false);
+    expect(events).toEqual([
+      { event: 'delta', data: { text: 'Hello ' } },
+      { event: 'delta', data: { text: 'there ' } },
+      { event: 'delta', data: { text: 'world' } }
+    ]);
+  });
+});
+
+describe('createSSEResponse', () => {
+  it('serialises events and reports handler errors as an error event', async () => {
+    const response = createSSEResponse({ 'X-Test': '1' }, async (writer) => {
+      writer.send('delta', { text: 'partial' });
+      throw new Error('Model failed');
+    });
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(response.headers.get('X-Test')).toBe('1');
+    expect(await response.text()).toBe(
+      'event: delta\ndata: {"text":"partial"}\n\nevent: error\ndata: {"error":"Model failed"}\n\n'
+    );
+  });
+
+  it('aborts the writer signal when the client cancels', async () => {
+    let signal: AbortSignal | undefined;
+    const response = createSSEResponse({}, (writer) => {
+      signal = writer.signal;
+      return new Promise(resolve => writer.signal.addEventListener('abort', () => resolve()));
+    });
+
+    await response.body!.cancel();
+
+    expect(signal?.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,120 @@
+
+// Server-sent event helpers shared by the functions that stream model output
+// (project-chat, chat-with-pdf, summarize-pdf, generate-summary).
+//
+// Clients opt in with `stream: true` in the request body and receive:
+//   event: start  - optional metadata known before the model answers
+//   event: delta  - { text } for each piece of generated text
+//   event: done   - the same payload the non-streaming response would return
+//   event: error  - { error } if something failed after the stream started
+
+import type { CompletionRequest, CompletionResult, ModelProvider } from './models.ts';
+
+export interface SSEMessage {
+  event: string;
+  data: string;
+}
+
+export interface SSEWriter {
+  // Aborted when the client disconnects; streamCompletion passes it to the model request
+  signal: AbortSignal;
+  send: (event: string, data: unknown) => void;
+}
+
+// Incrementally splits an event stream into messages. Chunks may end in the
+// middle of a message, so the incomplete tail is kept until the next push.
+export function createSSEParser() {
+  let buffer = '';
+
+  return {
+    push(chunk: string): SSEMessage[] {
+      buffer += chunk.replace(/\r\n/g, '\n');
+      const messages: SSEMessage[] = [];
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+
+        let event = 'message';
+        const dataLines: string[] = [];
+        for (const line of block.split('\n')) {
+          if (line.startsWith('event:')) {
+            event = line.slice(6).trim();
+          } else if (line.startsWith('data:')) {
+            dataLines.push(line.slice(5).replace(/^ /, ''));
+          }
+        }
+
+        if (dataLines.length > 0) {
+          messages.push({ event, data: dataLines.join('\n') });
+        }
+      }
+
+      return messages;
+    }
+  };
+}
+
+// Wraps a handler in an event-stream response. Errors thrown by the handler are
+// reported as an `error` event because the 200 status has already been sent.
+export function createSSEResponse(
+  headers: Record<string, string>,
+  handler: (writer: SSEWriter) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const writer: SSEWriter = {
+        signal: abortController.signal,
+        send(event, data) {
+          if (closed) return;
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        }
+      };
+
+      handler(writer)
+        .catch(error => {
+          if (abortController.signal.aborted) return;
+          console.error('Error while streaming response:', error);
+          writer.send('error', { error: error?.message || 'Unknown error occurred' });
+        })
+        .finally(() => {
+          if (closed) return;
+          closed = true;
+          controller.close();
+        });
+    },
+    cancel() {
+      console.log('Client closed the stream, aborting upstream request');
+      closed = true;
+      abortController.abort();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...headers,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
+// Streams a completion to the client as `delta` events. A client disconnect
+// aborts the model request and resolves with `cancelled: true` instead of throwing.
+export function streamCompletion(
+  provider: ModelProvider,
+  request: CompletionRequest,
+  writer: SSEWriter
+): Promise<CompletionResult> {
+  return provider.stream(
+    { ...request, signal: writer.signal },
+    delta => writer.send('delta', { text: delta })
+  );
+}
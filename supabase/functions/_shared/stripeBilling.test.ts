@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest';
+import { planTypeForPrice, StripeSubscription, subscriptionState, UnmappedPriceError } from './stripeBilling.ts';
+
+const tiers = [
+  { plan_type: 'starter', stripe_price_ids: [] },
+  { plan_type: 'pro', stripe_price_ids: ['price_pro_monthly'] },
+];
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+const subscription = (status: string, fields: Partial<StripeSubscription> = {}): StripeSubscription => ({
+  id: 'sub_1',
+  status,
+  customer: { id: 'cus_1' },
+  current_period_end: 1793534400,
+  items: { data: [{ quantity: 1, price: { id: 'price_pro_monthly' } }] },
+  ...fields,
+});
+
+describe('planTypeForPrice', () => {
+  it('maps listed prices, lookup keys and price metadata to tiers', () => {
+    expect(planTypeForPrice({ id: 'price_pro_monthly' }, tiers)).toBe('pro');
+    expect(planTypeForPrice({ id: 'price_x', lookup_key: 'starter' }, tiers)).toBe('starter');
+    expect(planTypeForPrice({ id: 'price_y', metadata: { plan_type: 'pro' } }, tiers)).toBe('pro');
+  });
+
+  it('maps prices it does not know to no plan and logs them', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(planTypeForPrice({ id: 'price_new', lookup_key: 'enterprise' }, tiers)).toBeNull();
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('price_new'));
+
+    error.mockRestore();
+  });
+});
+
+describe('subscriptionState', () => {
+  it('gives active and trialing subscriptions the plan of their price', () => {
+    expect(subscriptionState(subscription('active'), tiers, now)).toMatchObject({
+      plan_type: 'pro',
+      is_active: true,
+      stripe_customer_id: 'cus_1',
+      current_period_end: '2026-11-01T12:00:00.000Z',
+      trial_ends_at: null,
+      grace_period_ends_at: null,
+    });
+    expect(subscriptionState(subscription('trialing', { trial_end: 1792670400 }), tiers, now))
+      .toMatchObject({ plan_type: 'pro', is_active: true, trial_ends_at: '2026-10-22T12:00:00.000Z' });
+  });
+
+  it('keeps a past-due plan until a grace period that retries do not extend', () => {
+    const first = subscriptionState(subscription('past_due'), tiers, now);
+    expect(first).toMatchObject({ plan_type: 'pro', is_active: true, grace_period_ends_at: '2026-10-26T12:00:00.000Z' });
+
+    const retry = subscriptionState(subscription('past_due'), tiers, new Date('2026-10-22T12:00:00Z'), first.grace_period_ends_at);
+    expect(retry.grace_period_ends_at).toBe(first.grace_period_ends_at);
+
+    const expired = subscriptionState(subscription('past_due'), tiers, new Date('2026-10-27T12:00:00Z'), first.grace_period_ends_at);
+    expect(expired).toMatchObject({ plan_type: 'starter', is_active: false });
+  });
+
+  it('falls back to starter once the subscription stops paying', () => {
+    for (const status of ['canceled', 'unpaid', 'incomplete', 'incomplete_expired', 'paused']) {
+      expect(subscriptionState(subscription(status), tiers, now)).toMatchObject({ plan_type: 'starter', is_active: false });
+    }
+  });
+
+  it('refuses to grant a plan for a paying subscription on an unknown price', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const unknown = subscription('active', { items: { data: [{ quantity: 1, price: { id: 'price_new' } }] } });
+
+    expect(() => subscriptionState(unknown, tiers, now)).toThrow(UnmappedPriceError);
+    expect(subscriptionState({ ...unknown, status: 'canceled' }, tiers, now)).toMatchObject({ plan_type: 'starter' });
+
+    error.mockRestore();
+  });
+
+  it('records a pending cancellation without ending the plan', () => {
+    expect(subscriptionState(subscription('active', { cancel_at_period_end: true }), tiers, now))
+      .toMatchObject({ plan_type: 'pro', is_active: true, cancel_at_period_end: true });
+  });
+});
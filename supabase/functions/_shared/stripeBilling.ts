@@ -0,0 +1,231 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+// Mirrors Stripe subscriptions onto user_subscriptions and workspaces. Used by
+// process-stripe-webhook for every lifecycle event and by
+// confirm-stripe-checkout right after checkout, so both write the same fields.
+
+// How long a past-due subscription keeps its plan while Stripe retries the payment
+export const GRACE_PERIOD_DAYS = 7;
+
+// Statuses that pay for the plan of their price
+const PAID_STATUSES = ['active', 'trialing'];
+
+// The parts of a Stripe price and subscription this module reads
+export interface StripePrice {
+  id: string;
+  lookup_key?: string | null;
+  metadata?: Record<string, string> | null;
+}
+
+export interface StripeSubscription {
+  id: string;
+  status: string;
+  customer: string | { id: string } | null;
+  cancel_at_period_end?: boolean | null;
+  current_period_end?: number | null;
+  trial_end?: number | null;
+  metadata?: Record<string, string> | null;
+  items?: { data?: { quantity?: number | null; price?: StripePrice | null }[] };
+}
+
+export interface PlanTier {
+  plan_type: string;
+  stripe_price_ids: string[] | null;
+}
+
+export type BillingTarget =
+  | { kind: 'user'; userId: string }
+  | { kind: 'workspace'; workspaceId: string };
+
+export interface SubscriptionState {
+  plan_type: string;
+  is_active: boolean;
+  status: string;
+  price_id: string | null;
+  subscription_id: string;
+  stripe_customer_id: string | null;
+  current_period_end: string | null;
+  cancel_at_period_end: boolean;
+  trial_ends_at: string | null;
+  grace_period_ends_at: string | null;
+}
+
+export type ApplyResult =
+  | { applied: true; state: SubscriptionState }
+  | { applied: false; reason: string };
+
+const toIso = (seconds: number | null | undefined) =>
+  seconds ? new Date(seconds * 1000).toISOString() : null;
+
+export const customerId = (customer: StripeSubscription['customer']) =>
+  typeof customer === 'string' ? customer : customer?.id ?? null;
+
+// A paying subscription whose price buys no known plan. The event that
+// carried it fails, so Stripe delivers it again once the price is listed in
+// subscription_tiers.stripe_price_ids.
+export class UnmappedPriceError extends Error {
+  constructor(public priceId: string | null) {
+    super(`Price ${priceId ?? '(none)'} is not mapped to a plan`);
+    this.name = 'UnmappedPriceError';
+  }
+}
+
+// The plan a price buys: listed in subscription_tiers.stripe_price_ids, else
+// named by the price's lookup_key or metadata. Null for prices it does not
+// know, which never grant a paid plan by default.
+export function planTypeForPrice(price: StripePrice | null | undefined, tiers: PlanTier[]): string | null {
+  if (price) {
+    const listed = tiers.find(tier => tier.stripe_price_ids?.includes(price.id));
+    if (listed) return listed.plan_type;
+
+    const named = [price.lookup_key, price.metadata?.plan_type]
+      .find(name => name && tiers.some(tier => tier.plan_type === name));
+    if (named) return named;
+  }
+
+  console.error(`Price ${price?.id ?? '(none)'} is not mapped to a plan`);
+  return null;
+}
+
+// What a subscription means for the plan right now. `previousGraceEndsAt` is
+// the grace period already running from an earlier failed payment, so
+// retries don't extend it.
+export function subscriptionState(
+  subscription: StripeSubscription,
+  tiers: PlanTier[],
+  now: Date,
+  previousGraceEndsAt: string | null = null
+): SubscriptionState {
+  const price = subscription.items?.data?.[0]?.price ?? null;
+
+  let isActive = PAID_STATUSES.includes(subscription.status);
+  let graceEndsAt: string | null = null;
+  if (subscription.status === 'past_due') {
+    graceEndsAt = previousGraceEndsAt
+      ?? new Date(now.getTime() + GRACE_PERIOD_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    isActive = new Date(graceEndsAt) > now;
+  }
+
+  const planType = isActive ? planTypeForPrice(price, tiers) : 'starter';
+  if (!planType) throw new UnmappedPriceError(price?.id ?? null);
+
+  return {
+    plan_type: planType,
+    is_active: isActive,
+    status: subscription.status,
+    price_id: price?.id ?? null,
+    subscription_id: subscription.id,
+    stripe_customer_id: customerId(subscription.customer),
+    current_period_end: toIso(subscription.current_period_end),
+    cancel_at_period_end: !!subscription.cancel_at_period_end,
+    trial_ends_at: subscription.status === 'trialing' ? toIso(subscription.trial_end) : null,
+    grace_period_ends_at: graceEndsAt,
+  };
+}
+
+// Who a subscription pays for: the workspace or user in its metadata, else
+// whoever already holds the subscription or the Stripe customer. Invoices and
+// charges pass what they know: the subscription id and metadata, if any, and
+// the customer.
+export async function findBillingTarget(
+  supabase: SupabaseClient,
+  subscription: { id: string | null; customer: StripeSubscription['customer']; metadata?: Record<string, string> | null }
+): Promise<BillingTarget | null> {
+  if (subscription.metadata?.workspaceId) {
+    return { kind: 'workspace', workspaceId: subscription.metadata.workspaceId };
+  }
+  if (subscription.metadata?.userId) {
+    return { kind: 'user', userId: subscription.metadata.userId };
+  }
+
+  const customer = customerId(subscription.customer);
+  const lookups: [BillingTarget['kind'], string, string | null][] = [
+    ['workspace', 'subscription_id', subscription.id],
+    ['user', 'subscription_id', subscription.id],
+    ['workspace', 'stripe_customer_id', customer],
+    ['user', 'stripe_customer_id', customer],
+  ];
+
+  for (const [kind, column, value] of lookups) {
+    if (!value) continue;
+
+    const { data, error } = kind === 'workspace'
+      ? await supabase.from('workspaces').select('id').eq(column, value).maybeSingle()
+      : await supabase.from('user_subscriptions').select('user_id').eq(column, value).maybeSingle();
+    if (error) throw error;
+    if (data) {
+      return kind === 'workspace'
+        ? { kind, workspaceId: data.id }
+        : { kind, userId: data.user_id };
+    }
+  }
+
+  return null;
+}
+
+// Writes a subscription onto its user or workspace. `eventCreated` is the
+// creation time of the event the subscription came from; events older than
+// the last one applied are skipped, since Stripe does not deliver in order.
+// Subscriptions fetched live from Stripe pass nothing and always apply.
+export async function applySubscription(
+  supabase: SupabaseClient,
+  target: BillingTarget,
+  subscription: StripeSubscription,
+  { eventCreated, now = new Date() }: { eventCreated?: number; now?: Date } = {}
+): Promise<ApplyResult> {
+  const table = target.kind === 'workspace' ? 'workspaces' : 'user_subscriptions';
+  const key = target.kind === 'workspace' ? 'id' : 'user_id';
+  const keyValue = target.kind === 'workspace' ? target.workspaceId : target.userId;
+
+  const { data: tiers, error: tiersError } = await supabase
+    .from('subscription_tiers')
+    .select('plan_type, stripe_price_ids');
+  if (tiersError) throw tiersError;
+
+  const { data: current, error: currentError } = await supabase
+    .from(table)
+    .select('subscription_id, is_active, grace_period_ends_at, stripe_synced_at')
+    .eq(key, keyValue)
+    .maybeSingle();
+  if (currentError) throw currentError;
+
+  if (target.kind === 'workspace' && !current) {
+    return { applied: false, reason: `Workspace ${target.workspaceId} not found` };
+  }
+
+  const sameSubscription = current?.subscription_id === subscription.id;
+  const syncedAt = eventCreated ? new Date(eventCreated * 1000) : now;
+  if (eventCreated && sameSubscription && current?.stripe_synced_at &&
+      new Date(current.stripe_synced_at) > syncedAt) {
+    return { applied: false, reason: `A newer event for ${subscription.id} was already applied` };
+  }
+
+  const state = subscriptionState(
+    subscription,
+    tiers || [],
+    now,
+    sameSubscription ? current?.grace_period_ends_at ?? null : null
+  );
+
+  // The end of a subscription that has since been replaced by a paying one,
+  // e.g. after cancelling and subscribing again, must not downgrade anyone
+  if (current?.subscription_id && !sameSubscription && current.is_active && !state.is_active) {
+    return { applied: false, reason: `${subscription.id} was replaced by ${current.subscription_id}` };
+  }
+
+  const values: Record<string, unknown> = {
+    ...state,
+    stripe_synced_at: syncedAt.toISOString(),
+    updated_at: now.toISOString(),
+  };
+  if (target.kind === 'workspace') {
+    values.seats = Math.max(1, subscription.items?.data?.[0]?.quantity ?? 1);
+  }
+
+  const { error: writeError } = current
+    ? await supabase.from(table).update(values).eq(key, keyValue)
+    : await supabase.from(table).insert({ ...values, user_id: keyValue });
+  if (writeError) throw writeError;
+
+  return { applied: true, state };
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { purgeCutoff, purgeOrphanedFiles, purgeTrashItem, removeStoredFiles } from './trash.ts';
+
+// Records rpc calls and storage removals; `failingBucket` rejects every removal
+const fakeSupabase = (rpcData: unknown, failingBucket?: string) => {
+  const rpcCalls: { fn: string; args: unknown }[] = [];
+  const removals: { bucket: string; paths: string[] }[] = [];
+
+  const client = {
+    rpc: async (fn: string, args: unknown) => {
+      rpcCalls.push({ fn, args });
+      return { data: rpcData, error: null };
+    },
+    storage: {
+      from: (bucket: string) => ({
+        remove: async (paths: string[]) => {
+          removals.push({ bucket, paths });
+          return bucket === failingBucket
+            ? { data: null, error: { message: 'Bucket not found' } }
+            : { data: paths, error: null };
+        },
+      }),
+    },
+  } as unknown as SupabaseClient;
+
+  return { client, rpcCalls, removals };
+};
+
+describe('purgeCutoff', () => {
+  it('is thirty days before now', () => {
+    expect(purgeCutoff(new Date('2026-10-31T12:00:00.000Z'))).toBe('2026-10-01T12:00:00.000Z');
+  });
+});
+
+describe('removeStoredFiles', () => {
+  it('removes files bucket by bucket and skips failed buckets', async () => {
+    const { client, removals } = fakeSupabase(null, 'project_images');
+
+    const removed = await removeStoredFiles(client, [
+      { bucket: 'project_documents', path: 'user/brain-1/report.pdf' },
+      { bucket: 'project_images', path: 'brain-1/photo.jpg' },
+      { bucket: 'project_documents', path: 'user/brain-1/notes.pdf' },
+    ]);
+
+    expect(removals).toEqual([
+      { bucket: 'project_documents', paths: ['user/brain-1/report.pdf', 'user/brain-1/notes.pdf'] },
+      { bucket: 'project_images', paths: ['brain-1/photo.jpg'] },
+    ]);
+    expect(removed).toBe(2);
+  });
+});
+
+describe('purgeTrashItem', () => {
+  it('purges a brain in one call and then removes its files', async () => {
+    const { client, rpcCalls, removals } = fakeSupabase([
+      { bucket: 'project_images', path: 'brain-1/photo.jpg' },
+    ]);
+
+    await expect(purgeTrashItem(client, 'project', 'brain-1')).resolves.toEqual({ filesRemoved: 1 });
+    expect(rpcCalls).toEqual([{ fn: 'purge_project', args: { p_project_id: 'brain-1' } }]);
+    expect(removals).toHaveLength(1);
+  });
+
+  it('purges single items through purge_trash_item', async () => {
+    const { client, rpcCalls, removals } = fakeSupabase([]);
+
+    await purgeTrashItem(client, 'note', 'note-1');
+
+    expect(rpcCalls).toEqual([{ fn: 'purge_trash_item', args: { p_item_type: 'note', p_item_id: 'note-1' } }]);
+    expect(removals).toHaveLength(0);
+  });
+});
+
+describe('purgeOrphanedFiles', () => {
+  it('removes the image files no row points to', async () => {
+    const { client, rpcCalls, removals } = fakeSupabase([
+      { bucket: 'project_images', path: 'gone-brain/photo.jpg' },
+    ]);
+
+    await expect(purgeOrphanedFiles(client)).resolves.toEqual({ filesRemoved: 1 });
+    expect(rpcCalls).toEqual([{ fn: 'orphaned_image_files', args: undefined }]);
+    expect(removals).toEqual([{ bucket: 'project_images', paths: ['gone-brain/photo.jpg'] }]);
+  });
+});
@@ -0,0 +1,117 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+// Permanent deletion of trashed brains and items. The database side runs in
+// purge_project() / purge_trash_item(), one transaction each; the files they
+// return are removed from storage afterwards, so a failed delete never loses
+// files of content that still exists.
+
+export type TrashItemType = 'project' | 'note' | 'document' | 'image';
+
+// Keep in sync with TRASH_RETENTION_DAYS in src/utils/trashUtils.ts
+export const TRASH_RETENTION_DAYS = 30;
+
+const STORAGE_REMOVE_BATCH_SIZE = 100;
+
+const TRASH_TABLES: Record<TrashItemType, string> = {
+  project: 'projects',
+  note: 'project_notes',
+  document: 'project_documents',
+  image: 'project_images',
+};
+
+export interface StoredFile {
+  bucket: string;
+  path: string;
+}
+
+// Items deleted before this moment have been in the trash long enough to purge
+export function purgeCutoff(now: Date = new Date()): string {
+  return new Date(now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+// Removes files bucket by bucket. Failures are logged rather than thrown: the
+// rows are already gone, so there is nothing left to roll back.
+export async function removeStoredFiles(supabase: SupabaseClient, files: StoredFile[]): Promise<number> {
+  const pathsByBucket = new Map<string, string[]>();
+  for (const file of files) {
+    if (!file.path) continue;
+    pathsByBucket.set(file.bucket, [...(pathsByBucket.get(file.bucket) || []), file.path]);
+  }
+
+  let removed = 0;
+
+  for (const [bucket, paths] of pathsByBucket) {
+    for (let i = 0; i < paths.length; i += STORAGE_REMOVE_BATCH_SIZE) {
+      const batch = paths.slice(i, i + STORAGE_REMOVE_BATCH_SIZE);
+      const { error } = await supabase.storage.from(bucket).remove(batch);
+
+      if (error) {
+        console.error(`Error removing ${batch.length} files from ${bucket}:`, error);
+        continue;
+      }
+      removed += batch.length;
+    }
+  }
+
+  return removed;
+}
+
+// Permanently deletes one trashed brain or item with its files
+export async function purgeTrashItem(
+  supabase: SupabaseClient,
+  itemType: TrashItemType,
+  itemId: string
+): Promise<{ filesRemoved: number }> {
+  const { data, error } = itemType === 'project'
+    ? await supabase.rpc('purge_project', { p_project_id: itemId })
+    : await supabase.rpc('purge_trash_item', { p_item_type: itemType, p_item_id: itemId });
+
+  if (error) throw error;
+
+  return { filesRemoved: await removeStoredFiles(supabase, (data || []) as StoredFile[]) };
+}
+
+// Purges everything that has been in the trash for longer than the retention
+// window. Brains go first so their items are not purged one by one.
+export async function purgeExpiredTrash(
+  supabase: SupabaseClient,
+  options: { now?: Date; limit?: number } = {}
+): Promise<{ purged: number; failed: number }> {
+  const cutoff = purgeCutoff(options.now);
+  const limit = options.limit ?? 50;
+
+  let purged = 0;
+  let failed = 0;
+
+  for (const itemType of Object.keys(TRASH_TABLES) as TrashItemType[]) {
+    const { data: items, error } = await supabase
+      .from(TRASH_TABLES[itemType])
+      .select('id')
+      .lt('deleted_at', cutoff)
+      .order('deleted_at', { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+
+    for (const item of items || []) {
+      try {
+        await purgeTrashItem(supabase, itemType, item.id);
+        purged++;
+      } catch (err) {
+        console.error(`Error purging ${itemType} ${item.id}:`, err);
+        failed++;
+      }
+    }
+  }
+
+  return { purged, failed };
+}
+
+// Removes image files that no row points to any more, see orphaned_image_files()
+export async function purgeOrphanedFiles(supabase: SupabaseClient): Promise<{ filesRemoved: number }> {
+  const { data, error } = await supabase.rpc('orphaned_image_files');
+
+  if (error) throw error;
+
+  return { filesRemoved: await removeStoredFiles(supabase, (data || []) as StoredFile[]) };
+}
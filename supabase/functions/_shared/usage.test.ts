@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { MockModelProvider } from './models.ts';
+import { EmbeddingProvider } from './embeddings.ts';
+import { UsageBucket, meterEmbeddings, meterUsage, summarizeUsage } from './usage.ts';
+
+// Records inserted rows; `error` makes every insert fail
+const fakeSupabase = (error: { message: string } | null = null) => {
+  const inserts: { table: string; row: Record<string, unknown> }[] = [];
+  const client = {
+    from: (table: string) => ({
+      insert: async (row: Record<string, unknown>) => {
+        inserts.push({ table, row });
+        return { data: null, error };
+      },
+    }),
+  } as unknown as SupabaseClient;
+
+  return { client, inserts };
+};
+
+const request = { messages: [{ role: 'user' as const, content: 'Summarise the quarter' }] };
+
+describe('meterUsage', () => {
+  it('records tokens, cost, feature and brain for each call', async () => {
+    const { client, inserts } = fakeSupabase();
+    const provider = meterUsage(new MockModelProvider('openai'), client, {
+      actingUserId: 'user-1',
+      projectId: 'project-1',
+      feature: 'summary',
+    });
+
+    const result = await provider.complete(request);
+
+    expect(inserts).toEqual([{
+      table: 'user_usage_stats',
+      row: {
+        user_id: 'user-1',
+        project_id: 'project-1',
+        action_type: 'model_call',
+        feature: 'summary',
+        provider: 'mock',
+        model: 'mock-gpt-4o-mini',
+        input_tokens: result.usage.inputTokens,
+        output_tokens: result.usage.outputTokens,
+        cost_usd: 0,
+        estimated: true,
+      },
+    }]);
+  });
+
+  it('records cancelled streams and never fails the call when recording does', async () => {
+    const { client, inserts } = fakeSupabase({ message: 'insert failed' });
+    const controller = new AbortController();
+    const provider = meterUsage(new MockModelProvider('claude', () => 'one two three'), client, {
+      actingUserId: 'user-1',
+      feature: 'chat',
+    });
+
+    const result = await provider.stream({ ...request, signal: controller.signal }, () => controller.abort());
+
+    expect(result).toMatchObject({ text: 'one ', cancelled: true });
+    expect(inserts[0].row).toMatchObject({ feature: 'chat', project_id: null, output_tokens: 1 });
+  });
+
+  it('records nothing for calls made for no user', async () => {
+    const { client, inserts } = fakeSupabase();
+    await meterUsage(new MockModelProvider(), client, { actingUserId: null, feature: 'clean' }).complete(request);
+
+    expect(inserts).toEqual([]);
+  });
+});
+
+describe('meterEmbeddings', () => {
+  const embeddingProvider: EmbeddingProvider = {
+    name: 'openai',
+    model: 'text-embedding-3-small',
+    dimensions: 2,
+    embed: async (texts) => ({
+      embeddings: texts.map(() => [0, 1]),
+      usage: { inputTokens: 50_000 * texts.length, outputTokens: 0, estimated: false },
+    }),
+  };
+
+  it('records embedded tokens and their cost as an embedding call', async () => {
+    const { client, inserts } = fakeSupabase();
+    const provider = meterEmbeddings(embeddingProvider, client, {
+      actingUserId: 'user-1',
+      projectId: 'project-1',
+      feature: 'indexing',
+    });
+
+    const result = await provider.embed(['First note', 'Second note']);
+
+    expect(result.embeddings).toHaveLength(2);
+    expect(inserts).toEqual([{
+      table: 'user_usage_stats',
+      row: {
+        user_id: 'user-1',
+        project_id: 'project-1',
+        action_type: 'embedding_call',
+        feature: 'indexing',
+        provider: 'openai',
+        model: 'text-embedding-3-small',
+        input_tokens: 100_000,
+        output_tokens: 0,
+        cost_usd: 0.002,
+        estimated: false,
+      },
+    }]);
+  });
+
+  it('records nothing when there is nothing to embed', async () => {
+    const { client, inserts } = fakeSupabase();
+    await meterEmbeddings(embeddingProvider, client, { actingUserId: 'user-1', feature: 'chat' }).embed([]);
+
+    expect(inserts).toEqual([]);
+  });
+});
+
+describe('summarizeUsage', () => {
+  const bucket = (day: string, feature: UsageBucket['feature'], projectId: string | null, cost: number): UsageBucket => ({
+    day,
+    feature,
+    project_id: projectId,
+    calls: 2,
+    input_tokens: '1000',
+    output_tokens: 500,
+    cost_usd: String(cost),
+  });
+
+  it('breaks usage down by feature, brain and day', () => {
+    const summary = summarizeUsage([
+      bucket('2026-10-01', 'chat', 'brain-1', 0.02),
+      bucket('2026-10-03', 'summary', 'brain-2', 0.05),
+      bucket('2026-10-03', 'chat', 'deleted-brain', 0.01),
+      bucket('2026-10-03', null, null, 0),
+    ], {
+      since: new Date('2026-10-01T00:00:00.000Z'),
+      now: new Date('2026-10-03T15:00:00.000Z'),
+      projectNames: { 'brain-1': 'Research', 'brain-2': 'Launch' },
+    });
+
+    expect(summary.totals).toEqual({ calls: 8, inputTokens: 4000, outputTokens: 2000, costUsd: 0.08 });
+    expect(summary.today).toEqual({ calls: 6, inputTokens: 3000, outputTokens: 1500, costUsd: 0.06 });
+    expect(summary.byFeature.map(({ feature, costUsd }) => [feature, costUsd])).toEqual([
+      ['summary', 0.05],
+      ['chat', 0.03],
+      ['other', 0],
+    ]);
+    expect(summary.byProject.map(({ projectName, costUsd }) => [projectName, costUsd])).toEqual([
+      ['Launch', 0.05],
+      ['Research', 0.02],
+      [null, 0.01],
+    ]);
+    expect(summary.byDay.map(({ day, tokensByFeature }) => [day, tokensByFeature])).toEqual([
+      ['2026-10-01', { chat: 1500 }],
+      ['2026-10-02', {}],
+      ['2026-10-03', { summary: 1500, chat: 1500, other: 1500 }],
+    ]);
+  });
+});
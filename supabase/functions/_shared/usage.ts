@@ -0,0 +1,206 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { CompletionRequest, CompletionResult, ModelProvider, estimateCost } from './models.ts';
+import { EmbeddingProvider } from './embeddings.ts';
+
+// Metering of model calls.
+//
+// Every function that calls a model wraps its provider with meterUsage(), which
+// records one user_usage_stats row per call with the provider, model, tokens,
+// estimated cost, feature and brain. Embedding providers are wrapped with
+// meterEmbeddings() the same way. user-statistics folds those rows into the
+// breakdowns the usage charts show (see summarizeUsage).
+
+export type UsageFeature = 'chat' | 'summary' | 'clean' | 'metadata' | 'image_analysis' | 'indexing';
+
+export const USAGE_FEATURES: UsageFeature[] = ['chat', 'summary', 'clean', 'metadata', 'image_analysis', 'indexing'];
+
+// action_type of metered rows. Rows logged before metering are
+// 'openai_api_call' and only count as calls. Embedding rows add to tokens and
+// cost but are not AI calls against the plan's monthly limit.
+export const MODEL_CALL_ACTION = 'model_call';
+export const EMBEDDING_CALL_ACTION = 'embedding_call';
+export const API_CALL_ACTIONS = ['openai_api_call', MODEL_CALL_ACTION];
+
+export interface UsageContext {
+  // The user the call is made for (see resolveActingUserId); null for
+  // service-role calls that act for no user, which are not recorded
+  actingUserId: string | null;
+  projectId?: string | null;
+  feature: UsageFeature;
+}
+
+export function usageRow(context: UsageContext, result: CompletionResult, action = MODEL_CALL_ACTION) {
+  return {
+    user_id: context.actingUserId,
+    project_id: context.projectId || null,
+    action_type: action,
+    feature: context.feature,
+    provider: result.provider,
+    model: result.model,
+    input_tokens: result.usage.inputTokens,
+    output_tokens: result.usage.outputTokens,
+    cost_usd: estimateCost(result.model, result.usage),
+    estimated: result.usage.estimated,
+  };
+}
+
+export async function recordUsage(
+  supabase: SupabaseClient,
+  context: UsageContext,
+  result: CompletionResult,
+  action = MODEL_CALL_ACTION
+): Promise<void> {
+  if (!context.actingUserId) return;
+
+  try {
+    const { error } = await supabase.from('user_usage_stats').insert(usageRow(context, result, action));
+    if (error) {
+      console.error('Error recording model usage:', error);
+    }
+  } catch (error) {
+    // Metering never blocks the answer
+    console.error('Error recording model usage:', error);
+  }
+}
+
+// Wraps a provider so every completion and stream is recorded once it ends.
+// Streams the user cancels are recorded with what they used up to then.
+export function meterUsage(
+  provider: ModelProvider,
+  supabase: SupabaseClient,
+  context: UsageContext
+): ModelProvider {
+  return {
+    type: provider.type,
+    name: provider.name,
+    async complete(request: CompletionRequest) {
+      const result = await provider.complete(request);
+      await recordUsage(supabase, context, result);
+      return result;
+    },
+    async stream(request: CompletionRequest, onDelta: (text: string) => void) {
+      const result = await provider.stream(request, onDelta);
+      await recordUsage(supabase, context, result);
+      return result;
+    },
+  };
+}
+
+// Wraps an embedding provider so every batch it sends is recorded
+export function meterEmbeddings(
+  provider: EmbeddingProvider,
+  supabase: SupabaseClient,
+  context: UsageContext
+): EmbeddingProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+    dimensions: provider.dimensions,
+    async embed(texts: string[]) {
+      const result = await provider.embed(texts);
+      if (texts.length > 0) {
+        await recordUsage(supabase, context, {
+          text: '',
+          model: provider.model,
+          provider: provider.name,
+          usage: result.usage,
+          cancelled: false,
+        }, EMBEDDING_CALL_ACTION);
+      }
+      return result;
+    },
+  };
+}
+
+// One row of get_usage_breakdown(): usage grouped by day, feature and brain
+export interface UsageBucket {
+  day: string;
+  feature: UsageFeature | null;
+  project_id: string | null;
+  calls: number | string;
+  input_tokens: number | string;
+  output_tokens: number | string;
+  cost_usd: number | string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  totals: UsageTotals;
+  today: UsageTotals;
+  // 'other' collects calls logged before metering
+  byFeature: (UsageTotals & { feature: UsageFeature | 'other' })[];
+  // A null projectId collects calls outside a brain and brains since deleted
+  byProject: (UsageTotals & { projectId: string | null; projectName: string | null })[];
+  // Every day of the period, oldest first, with tokens used per feature
+  byDay: (UsageTotals & { day: string; tokensByFeature: Partial<Record<UsageFeature | 'other', number>> })[];
+}
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 });
+
+function addBucket(totals: UsageTotals, bucket: UsageBucket) {
+  totals.calls += Number(bucket.calls) || 0;
+  totals.inputTokens += Number(bucket.input_tokens) || 0;
+  totals.outputTokens += Number(bucket.output_tokens) || 0;
+  totals.costUsd = Math.round((totals.costUsd + (Number(bucket.cost_usd) || 0)) * 1_000_000) / 1_000_000;
+}
+
+const utcDay = (date: Date) => date.toISOString().slice(0, 10);
+
+const byCost = (a: UsageTotals, b: UsageTotals) =>
+  b.costUsd - a.costUsd || (b.inputTokens + b.outputTokens) - (a.inputTokens + a.outputTokens) || b.calls - a.calls;
+
+// Folds grouped usage into totals and the per-feature, per-brain and per-day
+// breakdowns, most expensive first. Days are UTC dates from `since` to `now`.
+export function summarizeUsage(
+  buckets: UsageBucket[],
+  { since, now, projectNames = {} }: { since: Date; now: Date; projectNames?: Record<string, string> }
+): UsageSummary {
+  const totals = emptyTotals();
+  const features = new Map<UsageFeature | 'other', UsageTotals>();
+  const projects = new Map<string | null, UsageTotals>();
+  const days = new Map<string, UsageSummary['byDay'][number]>();
+
+  for (let day = new Date(utcDay(since)); utcDay(day) <= utcDay(now); day.setUTCDate(day.getUTCDate() + 1)) {
+    days.set(utcDay(day), { day: utcDay(day), ...emptyTotals(), tokensByFeature: {} });
+  }
+
+  for (const bucket of buckets) {
+    const feature = bucket.feature || 'other';
+    const projectId = bucket.project_id && projectNames[bucket.project_id] ? bucket.project_id : null;
+
+    addBucket(totals, bucket);
+
+    if (!features.has(feature)) features.set(feature, emptyTotals());
+    addBucket(features.get(feature)!, bucket);
+
+    if (!projects.has(projectId)) projects.set(projectId, emptyTotals());
+    addBucket(projects.get(projectId)!, bucket);
+
+    const day = days.get(bucket.day.slice(0, 10));
+    if (day) {
+      addBucket(day, bucket);
+      day.tokensByFeature[feature] = (day.tokensByFeature[feature] || 0) +
+        (Number(bucket.input_tokens) || 0) + (Number(bucket.output_tokens) || 0);
+    }
+  }
+
+  const today = days.get(utcDay(now));
+
+  return {
+    totals,
+    today: today
+      ? { calls: today.calls, inputTokens: today.inputTokens, outputTokens: today.outputTokens, costUsd: today.costUsd }
+      : emptyTotals(),
+    byFeature: [...features].map(([feature, usage]) => ({ feature, ...usage })).sort(byCost),
+    byProject: [...projects]
+      .map(([projectId, usage]) => ({ projectId, projectName: projectId ? projectNames[projectId] : null, ...usage }))
+      .sort(byCost),
+    byDay: [...days.values()],
+  };
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { requireWorkspaceRole, seatQuantity } from './workspaces.ts';
+
+const seats = [
+  { workspace_id: 'acme', user_id: 'alice', role: 'admin' },
+  { workspace_id: 'acme', user_id: 'bob', role: 'member' },
+];
+
+// Just enough of the client for the workspace_members lookup
+const fakeSupabase = {
+  from: () => {
+    const filters: [string, string][] = [];
+    const query = {
+      select: () => query,
+      eq: (column: string, value: string) => {
+        filters.push([column, value]);
+        return query;
+      },
+      maybeSingle: async () => ({
+        data: seats.find(row => filters.every(([column, value]) => row[column as keyof typeof row] === value)) ?? null,
+        error: null,
+      }),
+    };
+    return query;
+  },
+} as unknown as SupabaseClient;
+
+const caller = (userId: string) => ({ userId, email: null, isServiceRole: false });
+
+describe('seatQuantity', () => {
+  it('never buys fewer seats than there are members', () => {
+    expect(seatQuantity(10, 3)).toBe(10);
+    expect(seatQuantity(2, 3)).toBe(3);
+    expect(seatQuantity(undefined, 0)).toBe(1);
+    expect(seatQuantity('4', 2)).toBe(2);
+  });
+});
+
+describe('requireWorkspaceRole', () => {
+  it('returns the caller role when it meets the minimum', async () => {
+    await expect(requireWorkspaceRole(fakeSupabase, caller('alice'), 'acme', 'admin')).resolves.toBe('admin');
+    await expect(requireWorkspaceRole(fakeSupabase, caller('bob'), 'acme')).resolves.toBe('member');
+  });
+
+  it('rejects members below the role and outsiders', async () => {
+    await expect(requireWorkspaceRole(fakeSupabase, caller('bob'), 'acme', 'admin'))
+      .rejects.toMatchObject({ status: 403 });
+    await expect(requireWorkspaceRole(fakeSupabase, caller('mallory'), 'acme'))
+      .rejects.toMatchObject({ status: 403 });
+  });
+});
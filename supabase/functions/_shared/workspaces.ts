@@ -0,0 +1,50 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { AuthError, AuthenticatedCaller } from './auth.ts';
+
+// Team workspaces pay for one Stripe subscription whose quantity is the
+// number of seats. create-stripe-checkout buys or changes seats and
+// process-stripe-webhook mirrors the subscription onto the workspace row
+// through stripeBilling.ts.
+
+export type WorkspaceRole = 'owner' | 'admin' | 'member';
+
+const WORKSPACE_ROLE_RANK: Record<WorkspaceRole, number> = {
+  member: 1,
+  admin: 2,
+  owner: 3,
+};
+
+// Seats to buy: what was asked for, but never fewer than the current members
+export function seatQuantity(requestedSeats: unknown, memberCount: number): number {
+  const requested = Number.isInteger(requestedSeats) ? requestedSeats as number : 0;
+  return Math.max(requested, memberCount, 1);
+}
+
+// Throws 403 unless the caller has at least `minimumRole` in the workspace
+export async function requireWorkspaceRole(
+  supabase: SupabaseClient,
+  caller: AuthenticatedCaller,
+  workspaceId: string,
+  minimumRole: WorkspaceRole = 'member'
+): Promise<WorkspaceRole> {
+  if (caller.isServiceRole) return 'owner';
+
+  const { data: member, error } = await supabase
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', caller.userId!)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!member || !(member.role in WORKSPACE_ROLE_RANK)) {
+    throw new AuthError('You are not a member of this workspace', 403);
+  }
+
+  const role = member.role as WorkspaceRole;
+  if (WORKSPACE_ROLE_RANK[role] < WORKSPACE_ROLE_RANK[minimumRole]) {
+    throw new AuthError(`This action requires the ${minimumRole} role in this workspace`, 403);
+  }
+
+  return role;
+}
@@ -1,8 +1,14 @@
 
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { getModelProvider, resolveModelType } from "../_shared/models.ts";
+import { authenticateRequest, authErrorResponse, requireProjectAccess } from "../_shared/auth.ts";
+import { meterUsage } from "../_shared/usage.ts";
+import { enforceQuota, quotaErrorResponse } from "../_shared/quotas.ts";
 
-const anthropicApiKey = Deno.env.get('ANTHROPIC_API_KEY');
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -16,7 +22,16 @@ serve(async (req) => {
   }
 
   try {
-    const { pdfUrl, fileName, userQuestion, documentContext } = await req.json();
+    // Only signed-in users can spend model credits
+    const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+    const caller = await authenticateRequest(supabase, req);
+    
+    const { pdfUrl, fileName, userQuestion, documentContext, model, projectId } = await req.json();
+
+    // Usage is counted against the brain the call was made from
+    if (projectId) {
+      await requireProjectAccess(supabase, caller, projectId, 'viewer');
+    }
     
     if (!userQuestion) {
       return new Response(
@@ -25,12 +40,13 @@ serve(async (req) => {
       );
     }
     
-    if (!anthropicApiKey) {
-      return new Response(
-        JSON.stringify({ error: 'ANTHROPIC_API_KEY is not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    const modelType = resolveModelType(model, null, 'claude');
+    await enforceQuota(supabase, caller.userId, 'api_calls');
+    const provider = meterUsage(getModelProvider(modelType), supabase, {
+      actingUserId: caller.userId,
+      projectId,
+      feature: 'chat'
+    });
     
     console.log(`Ask Question: ${userQuestion}`);
     console.log(`Document: ${fileName || 'Unnamed document'}`);
@@ -40,45 +56,23 @@ serve(async (req) => {
       console.log('Using document context to answer the question...');
       
       try {
-        const response = await fetch('https://api.anthropic.com/v1/messages', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'x-api-key': anthropicApiKey,
-            'anthropic-version': '2023-06-01'
-          },
-          body: JSON.stringify({
-            model: "claude-3-7-sonnet-20250219",
-            max_tokens: 1500,
-            system: `You are an AI assistant that helps users answer questions about PDF documents. 
+        const { text: answer } = await provider.complete({
+          maxTokens: 1500,
+          system: `You are an AI assistant that helps users answer questions about PDF documents. 
                 The current document is: "${fileName || 'Document'}".
                 Use the following content from the document to answer the user's questions. 
                 If you don't know the answer based on the provided document content, admit that you don't know rather than making up information.
                 
                 Document content:
                 ${documentContext}`,
-            messages: [
-              {
-                role: "user",
-                content: userQuestion
-              }
-            ]
-          })
+          messages: [
+            {
+              role: "user",
+              content: userQuestion
+            }
+          ]
         });
         
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`Claude API error: ${response.status}. Details: ${errorText}`);
-        }
-        
-        const data = await response.json();
-        
-        if (!data.content || !data.content[0] || !data.content[0].text) {
-          throw new Error('Invalid response format from Claude API');
-        }
-        
-        const answer = data.content[0].text;
-        
         console.log("Answer generated successfully");
         
         return new Response(
@@ -89,10 +83,10 @@ serve(async (req) => {
           { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       } catch (apiError) {
-        console.error('Error calling Claude API:', apiError);
+        console.error(`Error calling ${modelType} API:`, apiError);
         return new Response(
           JSON.stringify({ 
-            error: `Error calling Claude API: ${apiError.message || 'Unknown API error'}`,
+            error: `Error calling ${modelType} API: ${apiError.message || 'Unknown API error'}`,
             details: apiError.stack || ''
           }),
           { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -109,6 +103,11 @@ serve(async (req) => {
     }
     
   } catch (error) {
+    const authResponse = authErrorResponse(error, corsHeaders);
+    if (authResponse) return authResponse;
+    const quotaResponse = quotaErrorResponse(error, corsHeaders);
+    if (quotaResponse) return quotaResponse;
+
     console.error('Error in ask-pdf-question function:', error);
     return new Response(
       JSON.stringify({ 
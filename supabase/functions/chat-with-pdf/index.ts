@@ -1,55 +1,22 @@
 
-import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-// Add PDF parsing library
-import * as pdfjs from "https://cdn.jsdelivr.net/npm/pdfjs-dist@3.4.120/build/pdf.min.js";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { createSSEResponse, streamCompletion } from "../_shared/streaming.ts";
+import { meterUsage } from "../_shared/usage.ts";
+import { enforceQuota, quotaErrorResponse } from "../_shared/quotas.ts";
+import { CompletionRequest, getModelProvider, getProjectDefaultModel, resolveModelType } from "../_shared/models.ts";
+import { authenticateRequest, authErrorResponse, requireProjectAccess } from "../_shared/auth.ts";
+import { loadDocumentText } from "../_shared/documentText.ts";
+import { extractPdfTextFromUrl } from "../_shared/pdfExtraction.ts";
 
-const anthropicApiKey = Deno.env.get('ANTHROPIC_API_KEY');
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Function to fetch and extract text from a PDF URL
-async function extractTextFromPdf(url) {
-  try {
-    console.log(`Fetching PDF from: ${url}`);
-    
-    // Fetch the PDF
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch PDF: ${response.status} ${response.statusText}`);
-    }
-    
-    // Get the PDF as ArrayBuffer
-    const pdfData = await response.arrayBuffer();
-    
-    // Load the PDF with pdf.js
-    const loadingTask = pdfjs.getDocument({ data: new Uint8Array(pdfData) });
-    const pdf = await loadingTask.promise;
-    
-    console.log(`PDF loaded with ${pdf.numPages} pages`);
-    
-    // Extract text from each page
-    let textContent = '';
-    for (let i = 1; i <= pdf.numPages; i++) {
-      const page = await pdf.getPage(i);
-      const content = await page.getTextContent();
-      const strings = content.items.map(item => item.str);
-      textContent += strings.join(' ') + '\n';
-    }
-    
-    console.log(`Extracted ${textContent.length} characters from PDF`);
-    
-    return textContent;
-  } catch (error) {
-    console.error('Error extracting text from PDF:', error);
-    throw new Error(`Failed to extract text from PDF: ${error.message}`);
-  }
-}
-
 serve(async (req) => {
   console.log("Edge function received request");
   
@@ -60,11 +27,14 @@ serve(async (req) => {
   }
 
   try {
+    const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+    const caller = await authenticateRequest(supabase, req);
+    
     const requestBody = await req.json();
-    const { pdfUrl, fileName, message, documentContext, model = 'openai' } = requestBody;
+    const { pdfUrl, fileName, message, documentContext, documentId, model, stream = false } = requestBody;
+    let { projectId } = requestBody;
     
     console.log(`Chat with PDF request received for: ${fileName || 'unnamed document'}`);
-    console.log(`Using model: ${model}`);
     console.log(`User message: ${message}`);
     console.log(`Document context length: ${documentContext ? documentContext.length : 0} characters`);
     
@@ -75,34 +45,48 @@ serve(async (req) => {
       );
     }
     
+    // Stored text of an uploaded document is preferred over parsing the PDF again
+    const storedDocument = documentId ? await loadDocumentText(supabase, documentId) : null;
+    if (storedDocument) {
+      projectId = storedDocument.projectId;
+    }
+    
     // Check if we should use provided document context or extract from PDF URL
-    if ((!documentContext || documentContext.trim() === '') && !pdfUrl) {
+    if (!storedDocument && (!documentContext || documentContext.trim() === '') && !pdfUrl) {
       return new Response(
-        JSON.stringify({ error: 'Either document context or PDF URL is required' }),
+        JSON.stringify({ error: 'Either a document, document context or PDF URL is required' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
     
-    // Check if the requested model's API key is available
-    if ((model === 'claude' && !anthropicApiKey) || (model === 'openai' && !openAIApiKey)) {
-      const missingKey = model === 'claude' ? 'ANTHROPIC_API_KEY' : 'OPENAI_API_KEY';
-      return new Response(
-        JSON.stringify({ error: `${missingKey} is not configured` }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+    // Documents that belong to a brain can only be discussed by its members
+    if (projectId) {
+      await requireProjectAccess(supabase, caller, projectId, 'viewer');
     }
     
+    const modelType = resolveModelType(model, await getProjectDefaultModel(supabase, projectId), 'openai');
+    await enforceQuota(supabase, caller.userId, 'api_calls');
+    const provider = meterUsage(getModelProvider(modelType), supabase, {
+      actingUserId: caller.userId,
+      projectId,
+      feature: 'chat'
+    });
+    console.log(`Using model: ${modelType}`);
+    
     // Prepare the context for the AI
     let contextContent = '';
     
-    if (documentContext && documentContext.trim() !== '') {
+    if (storedDocument) {
+      console.log(`Using stored text of document ${documentId} (${storedDocument.text.length} characters)`);
+      contextContent = storedDocument.text;
+    } else if (documentContext && documentContext.trim() !== '') {
       console.log(`Using provided document context (${documentContext.length} characters)`);
       contextContent = documentContext;
     } else if (pdfUrl) {
       // Extract text from the PDF URL
       try {
         console.log('No document context provided, extracting from PDF URL...');
-        contextContent = await extractTextFromPdf(pdfUrl);
+        contextContent = (await extractPdfTextFromUrl(pdfUrl)).text;
         console.log(`Successfully extracted ${contextContent.length} characters from PDF`);
       } catch (extractError) {
         console.error('Error extracting PDF text:', extractError);
@@ -144,103 +128,45 @@ serve(async (req) => {
       5. Format your responses in a clear, easy-to-read manner with proper spacing.
       6. For technical or complex documents, explain terms when appropriate.`;
 
-    // Call the selected API
-    try {
-      console.log(`Calling ${model.toUpperCase()} API...`);
-      let data;
-      
-      if (model === 'claude' && anthropicApiKey) {
-        // Call Claude API
-        const response = await fetch('https://api.anthropic.com/v1/messages', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'x-api-key': anthropicApiKey,
-            'anthropic-version': '2023-06-01'
-          },
-          body: JSON.stringify({
-            model: "claude-3-7-sonnet-20250219",
-            max_tokens: 1500,
-            system: systemMessage,
-            messages: [
-              {
-                role: "user",
-                content: message
-              }
-            ]
-          })
-        });
+    const chatRequest: CompletionRequest = {
+      system: systemMessage,
+      messages: [{ role: 'user', content: message }],
+      maxTokens: 1500,
+      temperature: 0.7
+    };
+    
+    if (stream) {
+      console.log(`Streaming ${modelType.toUpperCase()} response...`);
+      return createSSEResponse(corsHeaders, async (writer) => {
+        const { text, cancelled } = await streamCompletion(provider, chatRequest, writer);
         
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error(`Claude API error: ${response.status}`, errorText);
-          throw new Error(`Claude API error: ${response.status}. Details: ${errorText}`);
+        if (cancelled) {
+          console.log(`Stream cancelled by the client after ${text.length} characters`);
+          return;
         }
         
-        data = await response.json();
-        console.log('Claude API response received successfully');
-        
-        if (!data.content || !data.content[0] || !data.content[0].text) {
-          console.error('Invalid response from Claude API:', data);
-          throw new Error('Invalid response format from Claude API');
-        }
-        
-        return new Response(
-          JSON.stringify({ 
-            success: true, 
-            answer: data.content[0].text,
-          }),
-          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      } else if (openAIApiKey) {
-        // Call OpenAI API
-        const response = await fetch('https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${openAIApiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: 'gpt-4o-mini',
-            messages: [
-              {
-                role: 'system',
-                content: systemMessage
-              },
-              {
-                role: 'user',
-                content: message
-              }
-            ],
-            temperature: 0.7,
-          }),
-        });
-        
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error(`OpenAI API error: ${response.status}`, errorText);
-          throw new Error(`OpenAI API error: ${response.status}. Details: ${errorText}`);
-        }
-        
-        data = await response.json();
-        console.log('OpenAI API response received successfully');
-        
-        return new Response(
-          JSON.stringify({ 
-            success: true, 
-            answer: data.choices[0].message.content,
-          }),
-          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      } else {
-        throw new Error('No valid API key available for AI models');
-      }
+        writer.send('done', { success: true, answer: text });
+      });
+    }
+
+    // Call the selected API
+    try {
+      console.log(`Calling ${modelType.toUpperCase()} API...`);
+      const { text: answer } = await provider.complete(chatRequest);
+      
+      return new Response(
+        JSON.stringify({ 
+          success: true, 
+          answer,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
       
     } catch (apiError) {
-      console.error(`Error calling ${model.toUpperCase()} API:`, apiError);
+      console.error(`Error calling ${modelType.toUpperCase()} API:`, apiError);
       return new Response(
         JSON.stringify({ 
-          error: `Error calling ${model.toUpperCase()} API: ${apiError.message || 'Unknown API error'}`,
+          error: `Error calling ${modelType.toUpperCase()} API: ${apiError.message || 'Unknown API error'}`,
           details: apiError.stack || ''
         }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -248,6 +174,11 @@ serve(async (req) => {
     }
     
   } catch (error) {
+    const authResponse = authErrorResponse(error, corsHeaders);
+    if (authResponse) return authResponse;
+    const quotaResponse = quotaErrorResponse(error, corsHeaders);
+    if (quotaResponse) return quotaResponse;
+
     console.error('Error in chat-with-pdf function:', error);
     return new Response(
       JSON.stringify({ 
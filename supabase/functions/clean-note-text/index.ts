@@ -1,6 +1,11 @@
 
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { getModelProvider, resolveModelType } from "../_shared/models.ts";
+import { authenticateRequest, authErrorResponse, requireProjectAccess } from "../_shared/auth.ts";
+import { meterUsage } from "../_shared/usage.ts";
+import { enforceQuota, quotaErrorResponse } from "../_shared/quotas.ts";
 
 // Define the prompts directly in the edge function instead of importing from src/utils/aiPrompts.ts
 const textFormattingPrompts = {
@@ -11,8 +16,8 @@ const textFormattingPrompts = {
   enhance: `Enhance this text by improving clarity, flow, and organization. Fix grammar and spelling issues, improve sentence structure, add appropriate headings, and organize content logically. Do not add new information that wasn't in the original text.`
 };
 
-const anthropicApiKey = Deno.env.get('ANTHROPIC_API_KEY');
-const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -26,7 +31,16 @@ serve(async (req) => {
   }
 
   try {
-    const { noteContent, cleanType, model = 'claude' } = await req.json();
+    // Only signed-in users can spend model credits
+    const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+    const caller = await authenticateRequest(supabase, req);
+    
+    const { noteContent, cleanType, model, projectId } = await req.json();
+
+    // Usage is counted against the brain the call was made from
+    if (projectId) {
+      await requireProjectAccess(supabase, caller, projectId, 'viewer');
+    }
     
     if (!noteContent) {
       return new Response(
@@ -42,78 +56,26 @@ serve(async (req) => {
       );
     }
 
-    console.log(`Cleaning note text with ${model} model, type: ${cleanType}`);
+    const modelType = resolveModelType(model, null, 'claude');
+    console.log(`Cleaning note text with ${modelType} model, type: ${cleanType}`);
     
     // Use the appropriate prompt from our local prompts object
     const prompt = textFormattingPrompts[cleanType] + `\n\nHere is the text to clean:\n${noteContent}`;
 
-    let result;
-    if (model === 'claude') {
-      if (!anthropicApiKey) {
-        return new Response(
-          JSON.stringify({ error: 'ANTHROPIC_API_KEY is not configured' }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': anthropicApiKey,
-          'anthropic-version': '2023-06-01'
-        },
-        body: JSON.stringify({
-          model: "claude-3-haiku-20240307",
-          max_tokens: 4000,
-          messages: [
-            {
-              role: "user",
-              content: prompt
-            }
-          ]
-        })
-      });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Claude API error: ${response.status}. Details: ${errorText}`);
-      }
-      
-      const data = await response.json();
-      result = data.content[0].text;
-    } else {
-      if (!openaiApiKey) {
-        return new Response(
-          JSON.stringify({ error: 'OPENAI_API_KEY is not configured' }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
+    await enforceQuota(supabase, caller.userId, 'api_calls');
+    const provider = meterUsage(getModelProvider(modelType), supabase, {
+      actingUserId: caller.userId,
+      projectId,
+      feature: 'clean'
+    });
 
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${openaiApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o-mini',
-          messages: [
-            { role: 'system', content: 'You are a helpful assistant that cleans and improves text content.' },
-            { role: 'user', content: prompt }
-          ],
-          max_tokens: 4000,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`OpenAI API error: ${response.status}. Details: ${errorText}`);
-      }
-      
-      const data = await response.json();
-      result = data.choices[0].message.content;
-    }
+    const { text: result } = await provider.complete({
+      tier: 'fast',
+      // Claude has always been prompted without a system message here
+      system: modelType === 'openai' ? 'You are a helpful assistant that cleans and improves text content.' : undefined,
+      messages: [{ role: 'user', content: prompt }],
+      maxTokens: 4000,
+    });
 
     return new Response(
       JSON.stringify({ 
@@ -124,6 +86,11 @@ serve(async (req) => {
     );
     
   } catch (error) {
+    const authResponse = authErrorResponse(error, corsHeaders);
+    if (authResponse) return authResponse;
+    const quotaResponse = quotaErrorResponse(error, corsHeaders);
+    if (quotaResponse) return quotaResponse;
+
     console.error('Error in clean-note-text function:', error);
     return new Response(
       JSON.stringify({ 
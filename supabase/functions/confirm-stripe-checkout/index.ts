@@ -0,0 +1,96 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import Stripe from 'https://esm.sh/stripe@12.4.0';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { authenticateRequest, authErrorResponse, resolveActingUserId } from '../_shared/auth.ts';
+import { applySubscription, BillingTarget, StripeSubscription } from '../_shared/stripeBilling.ts';
+import { requireWorkspaceRole } from '../_shared/workspaces.ts';
+
+// Applies a finished checkout right away when Stripe redirects back, so the
+// new plan shows without waiting for the webhook. The subscription is read
+// from Stripe, never from the request, and only its buyer can confirm it.
+
+const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY') || '';
+const stripe = new Stripe(stripeSecretKey, {
+  apiVersion: '2023-10-16',
+});
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+        status: 405,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') || '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+    );
+    const caller = await authenticateRequest(supabase, req);
+
+    const { sessionId } = await req.json();
+    if (!sessionId) {
+      return new Response(JSON.stringify({ error: 'Missing required parameter: sessionId' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const session = await stripe.checkout.sessions.retrieve(sessionId);
+    const workspaceId = session.metadata?.workspaceId || null;
+
+    // Workspace seats are confirmed by its admins, personal plans by the
+    // user the checkout was started for
+    let target: BillingTarget;
+    if (workspaceId) {
+      await requireWorkspaceRole(supabase, caller, workspaceId, 'admin');
+      target = { kind: 'workspace', workspaceId };
+    } else {
+      const userId = resolveActingUserId(caller, session.client_reference_id || session.metadata?.userId);
+      target = { kind: 'user', userId };
+    }
+
+    if (session.status !== 'complete' || !session.subscription) {
+      return new Response(JSON.stringify({ error: 'This checkout has not completed' }), {
+        status: 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const subscription = await stripe.subscriptions.retrieve(session.subscription.toString());
+    const result = await applySubscription(supabase, target, subscription as unknown as StripeSubscription);
+
+    if (!result.applied) {
+      console.warn(`Checkout ${sessionId} not applied: ${result.reason}`);
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      workspaceId,
+      planType: result.applied ? result.state.plan_type : null,
+    }), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error, corsHeaders);
+    if (authResponse) return authResponse;
+
+    console.error('Error confirming checkout:', error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
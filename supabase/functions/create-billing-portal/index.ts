@@ -0,0 +1,106 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import Stripe from 'https://esm.sh/stripe@12.4.0';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { authenticateRequest, authErrorResponse } from '../_shared/auth.ts';
+import { customerId } from '../_shared/stripeBilling.ts';
+import { requireWorkspaceRole } from '../_shared/workspaces.ts';
+
+// Opens the Stripe billing portal, where customers update their card, see
+// invoices, switch plans or cancel. Changes made there come back through
+// process-stripe-webhook like any other subscription change.
+
+const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY') || '';
+const stripe = new Stripe(stripeSecretKey, {
+  apiVersion: '2023-10-16',
+});
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+        status: 405,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') || '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+    );
+    const caller = await authenticateRequest(supabase, req);
+
+    const { workspaceId } = await req.json().catch(() => ({}));
+
+    // Workspace billing belongs to its admins; everyone else manages their own
+    let billing: { stripe_customer_id: string | null; subscription_id: string | null } | null;
+    if (workspaceId) {
+      await requireWorkspaceRole(supabase, caller, workspaceId, 'admin');
+
+      const { data, error } = await supabase
+        .from('workspaces')
+        .select('stripe_customer_id, subscription_id')
+        .eq('id', workspaceId)
+        .maybeSingle();
+      if (error) throw error;
+      billing = data;
+    } else {
+      if (!caller.userId) {
+        return new Response(JSON.stringify({ error: 'A user session is required' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const { data, error } = await supabase
+        .from('user_subscriptions')
+        .select('stripe_customer_id, subscription_id')
+        .eq('user_id', caller.userId)
+        .maybeSingle();
+      if (error) throw error;
+      billing = data;
+    }
+
+    // Subscriptions from before customers were recorded only know their id
+    let customer = billing?.stripe_customer_id ?? null;
+    if (!customer && billing?.subscription_id) {
+      const subscription = await stripe.subscriptions.retrieve(billing.subscription_id);
+      customer = customerId(subscription.customer);
+    }
+
+    if (!customer) {
+      return new Response(JSON.stringify({ error: 'There is no billing account to manage yet' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const session = await stripe.billingPortal.sessions.create({
+      customer,
+      return_url: `${req.headers.get('origin')}/subscription`,
+    });
+
+    return new Response(JSON.stringify({ url: session.url }), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error, corsHeaders);
+    if (authResponse) return authResponse;
+
+    console.error('Error creating billing portal session:', error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -1,6 +1,9 @@
 
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import Stripe from 'https://esm.sh/stripe@12.4.0';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { authenticateRequest, authErrorResponse, resolveActingUserId } from '../_shared/auth.ts';
+import { requireWorkspaceRole, seatQuantity } from '../_shared/workspaces.ts';
 
 // Initialize Stripe with the secret key
 const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY') || '';
@@ -28,16 +31,65 @@ serve(async (req: Request) => {
       });
     }
 
-    const { userId, priceId } = await req.json();
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') || '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+    );
+    const caller = await authenticateRequest(supabase, req);
 
-    if (!userId) {
-      return new Response(JSON.stringify({ error: 'User ID is required' }), {
-        status: 400,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
+    const { userId: requestedUserId, priceId, workspaceId, seats: requestedSeats } = await req.json();
+
+    // The subscription is always attached to the signed-in user
+    const userId = resolveActingUserId(caller, requestedUserId);
+
+    // Workspace subscriptions are billed per seat and managed by its admins
+    let quantity = 1;
+    if (workspaceId) {
+      await requireWorkspaceRole(supabase, caller, workspaceId, 'admin');
+
+      const { data: workspace, error: workspaceError } = await supabase
+        .from('workspaces')
+        .select('id, subscription_id, is_active')
+        .eq('id', workspaceId)
+        .single();
+      if (workspaceError) throw workspaceError;
+
+      const { count: memberCount, error: countError } = await supabase
+        .from('workspace_members')
+        .select('user_id', { count: 'exact', head: true })
+        .eq('workspace_id', workspaceId);
+      if (countError) throw countError;
+
+      quantity = seatQuantity(requestedSeats, memberCount || 0);
+
+      // A paying workspace changes the quantity of its subscription instead of
+      // checking out again; Stripe prorates the difference
+      if (workspace.subscription_id && workspace.is_active) {
+        const subscription = await stripe.subscriptions.retrieve(workspace.subscription_id);
+        await stripe.subscriptions.update(workspace.subscription_id, {
+          items: [{ id: subscription.items.data[0].id, quantity }],
+          proration_behavior: 'create_prorations',
+        });
+
+        const { error: updateError } = await supabase
+          .from('workspaces')
+          .update({ seats: quantity, updated_at: new Date().toISOString() })
+          .eq('id', workspaceId);
+        if (updateError) throw updateError;
+
+        console.log(`Updated workspace ${workspaceId} to ${quantity} seats`);
+        return new Response(JSON.stringify({ url: null, seats: quantity }), {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
     }
 
-    console.log('Creating checkout session for user:', userId);
+    console.log('Creating checkout session for user:', userId, workspaceId ? `and workspace ${workspaceId}` : '');
+
+    // The webhook reads these to know who, or which workspace, the subscription is for
+    const metadata: Record<string, string> = { userId };
+    if (workspaceId) metadata.workspaceId = workspaceId;
 
     // Create checkout session config
     const sessionConfig: any = {
@@ -46,8 +98,9 @@ serve(async (req: Request) => {
       success_url: `${req.headers.get('origin')}/dashboard?subscription=success&session_id={CHECKOUT_SESSION_ID}`,
       cancel_url: `${req.headers.get('origin')}/dashboard?subscription=canceled`,
       client_reference_id: userId,
-      metadata: {
-        userId: userId,
+      metadata,
+      subscription_data: {
+        metadata,
       },
     };
 
@@ -57,7 +110,7 @@ serve(async (req: Request) => {
       sessionConfig.line_items = [
         {
           price: priceId,
-          quantity: 1,
+          quantity,
         },
       ];
     } else {
@@ -67,16 +120,21 @@ serve(async (req: Request) => {
         {
           price_data: {
             currency: 'usd',
-            product_data: {
-              name: 'Pro Plan Subscription',
-              description: 'Monthly subscription to the Pro plan',
-            },
+            product_data: workspaceId
+              ? {
+                  name: 'Pro Workspace Seat',
+                  description: 'Monthly Pro plan for one workspace member',
+                }
+              : {
+                  name: 'Pro Plan Subscription',
+                  description: 'Monthly subscription to the Pro plan',
+                },
             unit_amount: 1999, // $19.99
             recurring: {
               interval: 'month',
             },
           },
-          quantity: 1,
+          quantity,
         },
       ];
     }
@@ -92,6 +150,9 @@ serve(async (req: Request) => {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   } catch (error) {
+    const authResponse = authErrorResponse(error, corsHeaders);
+    if (authResponse) return authResponse;
+
     console.error('Error creating checkout session:', error);
     return new Response(JSON.stringify({ error: error.message }), {
       status: 500,
@@ -0,0 +1,89 @@
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { AuthError, authenticateRequest, authErrorResponse, requireProjectAccess } from "../_shared/auth.ts";
+import { extractDocumentText, processPendingExtractions } from "../_shared/documentText.ts";
+import { extractPdfPages } from "../_shared/pdfExtraction.ts";
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Extracts and stores the text of uploaded documents. Called by the client
+// right after an upload with { documentId } (retry: true to redo a finished
+// one), and on a schedule without a body to pick up anything left pending.
+// Only the service role may drain every project; users must edit the brain.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    let body: { documentId?: string; projectId?: string; retry?: boolean; limit?: number } = {};
+    try {
+      body = await req.json();
+    } catch (_e) {
+      // Scheduled invocations send no body
+    }
+
+    const { documentId, projectId, retry = false, limit } = body;
+
+    const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+    const caller = await authenticateRequest(supabase, req);
+
+    if (documentId) {
+      const { data: document, error } = await supabase
+        .from('project_documents')
+        .select('project_id, extraction_status, page_count')
+        .eq('id', documentId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!document) throw new AuthError('Document not found', 404);
+
+      await requireProjectAccess(supabase, caller, document.project_id, 'editor');
+
+      const result = await extractDocumentText(supabase, documentId, extractPdfPages, { force: retry });
+
+      // Someone else is already extracting it, or it was done before
+      const response = result || {
+        documentId,
+        status: document.extraction_status,
+        pageCount: document.page_count ?? undefined,
+      };
+
+      console.log(`Document ${documentId} extraction: ${response.status}`);
+
+      return new Response(
+        JSON.stringify({ success: response.status !== 'failed', ...response }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (projectId || !caller.isServiceRole) {
+      await requireProjectAccess(supabase, caller, projectId, 'editor');
+    }
+
+    const result = await processPendingExtractions(supabase, extractPdfPages, { projectId, limit });
+
+    console.log(`Extracted ${result.ready} documents, ${result.failed} failed`);
+
+    return new Response(
+      JSON.stringify({ success: true, ...result }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    const authResponse = authErrorResponse(error, corsHeaders);
+    if (authResponse) return authResponse;
+
+    console.error('Error in extract-document-text function:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Unknown error occurred' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,7 +1,12 @@
 
-import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import * as pdfjs from "https://cdn.jsdelivr.net/npm/pdfjs-dist@3.4.120/build/pdf.min.js";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { authenticateRequest, authErrorResponse } from "../_shared/auth.ts";
+import { joinPages, normalizePages } from "../_shared/documentText.ts";
+import { extractPdfPages } from "../_shared/pdfExtraction.ts";
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -18,6 +23,9 @@ serve(async (req) => {
   }
 
   try {
+    // Only signed-in users can use the extraction service
+    await authenticateRequest(createClient(supabaseUrl!, supabaseServiceKey!), req);
+    
     // Parse request body
     let body;
     try {
@@ -66,34 +74,10 @@ serve(async (req) => {
       
       // Get the PDF as ArrayBuffer
       const pdfData = await response.arrayBuffer();
-      
-      // Initialize pdf.js
       console.log("PDF data received, size:", pdfData.byteLength);
       
-      if (pdfData.byteLength === 0) {
-        throw new Error("PDF data is empty");
-      }
-      
-      // Load the PDF with pdf.js
-      const loadingTask = pdfjs.getDocument({ data: new Uint8Array(pdfData) });
-      const pdf = await loadingTask.promise;
-      
-      console.log(`PDF loaded with ${pdf.numPages} pages`);
-      
-      // Extract text from each page
-      let textContent = '';
-      for (let i = 1; i <= pdf.numPages; i++) {
-        console.log(`Processing page ${i}/${pdf.numPages}`);
-        const page = await pdf.getPage(i);
-        const content = await page.getTextContent();
-        const strings = content.items.map(item => item.str);
-        textContent += strings.join(' ') + '\n';
-        
-        // Free memory
-        if (page && typeof page.cleanup === 'function') {
-          page.cleanup();
-        }
-      }
+      const pages = normalizePages(await extractPdfPages(new Uint8Array(pdfData)));
+      const textContent = joinPages(pages);
       
       console.log(`Extraction complete: ${textContent.length} characters extracted`);
       
@@ -101,7 +85,8 @@ serve(async (req) => {
         JSON.stringify({ 
           success: true, 
           text: textContent,
-          pageCount: pdf.numPages
+          pages,
+          pageCount: pages.length
         }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
@@ -115,6 +100,9 @@ serve(async (req) => {
     }
     
   } catch (error) {
+    const authResponse = authErrorResponse(error, corsHeaders);
+    if (authResponse) return authResponse;
+
     console.error('Error in extract-pdf-text function:', error.message, error.stack);
     return new Response(
       JSON.stringify({ 
@@ -1,12 +1,20 @@
 
-import { validateRequestParams, logApiUsage, corsHeaders } from "./utils.ts";
+import { validateRequestParams, corsHeaders, getSupabaseClient } from "./utils.ts";
 import { processImage } from "./imageProcessor.ts";
-import { processText } from "./textProcessor.ts";
+import { processText, streamText } from "./textProcessor.ts";
+import { createSSEResponse } from "../_shared/streaming.ts";
 import { saveNoteSummary, saveImageSummary } from "./storage.ts";
+import { getModelProvider, getProjectDefaultModel, resolveModelType } from "../_shared/models.ts";
+import { meterUsage } from "../_shared/usage.ts";
+import { enforceQuota, quotaErrorResponse } from "../_shared/quotas.ts";
+import { AuthError, authenticateRequest, authErrorResponse, requireProjectAccess, resolveActingUserId } from "../_shared/auth.ts";
 
 // Main request handler
 export async function handleRequest(req: Request): Promise<Response> {
   try {
+    const supabase = getSupabaseClient();
+    const caller = await authenticateRequest(supabase, req);
+    
     // Parse request body with error handling
     let reqBody;
     try {
@@ -20,7 +28,7 @@ export async function handleRequest(req: Request): Promise<Response> {
     }
     
     // Validate parameters
-    let type, content, projectId, userId, noteId, imageUrl;
+    let type, content, projectId, userId, noteId, imageUrl, imageId;
     try {
       const params = validateRequestParams(reqBody);
       type = params.type;
@@ -29,6 +37,7 @@ export async function handleRequest(req: Request): Promise<Response> {
       userId = params.userId;
       noteId = params.noteId;
       imageUrl = params.imageUrl;
+      imageId = params.imageId;
     } catch (validationError: any) {
       console.error('Validation error:', validationError.message);
       return new Response(JSON.stringify({ error: validationError.message }), {
@@ -37,12 +46,66 @@ export async function handleRequest(req: Request): Promise<Response> {
       });
     }
     
-    // Log the OpenAI API call
-    try {
-      await logApiUsage(userId);
-    } catch (logError: any) {
-      console.warn('Error logging API usage (non-fatal):', logError.message);
-      // Continue execution even if logging fails
+    // Summaries are saved into the brain, so read-only members cannot create them
+    userId = resolveActingUserId(caller, userId);
+    await requireProjectAccess(supabase, caller, projectId, 'editor');
+    
+    if (type === 'note') {
+      const { data: note } = await supabase
+        .from('project_notes')
+        .select('project_id')
+        .eq('id', noteId)
+        .maybeSingle();
+      
+      if (!note || note.project_id !== projectId) {
+        throw new AuthError('Note not found', 404);
+      }
+    }
+    
+    // Images recorded in project_images are summarized from their own file
+    if (type === 'image' && imageId) {
+      const { data: image } = await supabase
+        .from('project_images')
+        .select('project_id, storage_path')
+        .eq('id', imageId)
+        .maybeSingle();
+      
+      if (!image || image.project_id !== projectId) {
+        throw new AuthError('Image not found', 404);
+      }
+      
+      imageUrl = supabase.storage.from('project_images').getPublicUrl(image.storage_path).data.publicUrl;
+    }
+    
+    const modelType = resolveModelType(
+      reqBody.model,
+      await getProjectDefaultModel(supabase, projectId),
+      'openai'
+    );
+    console.log('Using model:', modelType);
+    
+    await enforceQuota(supabase, userId, 'api_calls');
+    const provider = meterUsage(getModelProvider(modelType), supabase, {
+      actingUserId: userId,
+      projectId,
+      feature: type === 'image' ? 'image_analysis' : 'summary'
+    });
+    
+    // Note summaries can be streamed; image analysis is short and returns in one piece
+    if (reqBody.stream && type !== 'image') {
+      console.log('Streaming summary for:', type);
+      return createSSEResponse(corsHeaders, async (writer) => {
+        const { text, cancelled } = await streamText(content, provider, writer);
+        
+        // A cancelled summary is incomplete, so it is not saved over the previous one
+        if (cancelled) {
+          console.log(`Summary stream cancelled by the client after ${text.length} characters`);
+          return;
+        }
+        
+        await saveNoteSummary(noteId, projectId, userId, text);
+        writer.send('done', { summary: text });
+      });
     }
     
     // Generate summary based on content type
@@ -52,11 +115,11 @@ export async function handleRequest(req: Request): Promise<Response> {
     try {
       if (type === 'image') {
         console.log('Processing image:', imageUrl);
-        summary = await processImage(imageUrl);
+        summary = await processImage(imageUrl, provider);
         console.log('Image processing complete, saving summary...');
-        await saveImageSummary(imageUrl, projectId, userId, summary);
+        await saveImageSummary(imageUrl, imageId, projectId, userId, summary);
       } else {
-        summary = await processText(content);
+        summary = await processText(content, provider);
         await saveNoteSummary(noteId, projectId, userId, summary);
       }
     } catch (processingError: any) {
@@ -75,6 +138,11 @@ export async function handleRequest(req: Request): Promise<Response> {
       status: 200
     });
   } catch (error: any) {
+    const authResponse = authErrorResponse(error, corsHeaders);
+    if (authResponse) return authResponse;
+    const quotaResponse = quotaErrorResponse(error, corsHeaders);
+    if (quotaResponse) return quotaResponse;
+    
     console.error('Error in handleRequest:', error);
     return new Response(JSON.stringify({ error: error.message || 'Unknown error in request handler' }), {
       status: 500,
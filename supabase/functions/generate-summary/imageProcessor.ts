@@ -1,11 +1,11 @@
 
-import { openAIApiKey, corsHeaders } from "./utils.ts";
+import { ModelProvider } from "../_shared/models.ts";
 
 // Define image analysis prompt directly in the function
 const imageAnalysisPrompt = `You are an AI assistant specialized in analyzing images and extracting information. Please describe this image in detail, including any text, objects, people, or other elements visible in it.`;
 
-// Process and analyze an image using OpenAI's API
-export async function processImage(imageUrl: string): Promise<string> {
+// Process and analyze an image with the provider's vision tier
+export async function processImage(imageUrl: string, provider: ModelProvider): Promise<string> {
   try {
     console.log('Processing image URL:', imageUrl);
     
@@ -41,8 +41,7 @@ export async function processImage(imageUrl: string): Promise<string> {
     
     console.log('Successfully converted image to base64 data URL');
     
-    // Call OpenAI to analyze the image
-    const summary = await analyzeImageWithOpenAI(dataUrl);
+    const summary = await analyzeImage(dataUrl, provider);
     return summary;
   } catch (error) {
     console.error('Error processing image:', error);
@@ -50,57 +49,26 @@ export async function processImage(imageUrl: string): Promise<string> {
   }
 }
 
-// Analyze image with OpenAI
-async function analyzeImageWithOpenAI(dataUrl: string): Promise<string> {
-  if (!openAIApiKey) {
-    throw new Error('OpenAI API key is not configured');
-  }
-
+async function analyzeImage(dataUrl: string, provider: ModelProvider): Promise<string> {
   try {
-    // Set up messages for OpenAI with image using our prompt
-    const messages = [
-      {
-        role: 'system',
-        content: imageAnalysisPrompt
-      },
-      {
-        role: 'user',
-        content: [
-          { type: 'text', text: 'Please describe this image in detail.' },
-          { type: 'image_url', image_url: { url: dataUrl } }
-        ]
-      }
-    ];
-    
-    // Call OpenAI API with proper error handling
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: messages,
-        max_tokens: 500,
-      }),
+    const { text } = await provider.complete({
+      tier: 'vision',
+      system: imageAnalysisPrompt,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Please describe this image in detail.' },
+            { type: 'image', url: dataUrl }
+          ]
+        }
+      ],
+      maxTokens: 500,
     });
     
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('OpenAI API error:', response.status, errorText);
-      throw new Error(`OpenAI API error (${response.status}): ${errorText}`);
-    }
-    
-    const data = await response.json();
-    
-    if (!data.choices || !data.choices[0] || !data.choices[0].message || !data.choices[0].message.content) {
-      throw new Error('Invalid response format from OpenAI API');
-    }
-    
-    return data.choices[0].message.content;
+    return text;
   } catch (error) {
-    console.error('Error in analyzeImageWithOpenAI:', error);
+    console.error('Error in analyzeImage:', error);
     throw new Error(`Failed to analyze image: ${error.message}`);
   }
 }
@@ -54,9 +54,10 @@ export async function saveNoteSummary(
   }
 }
 
-// Save image summary to database
+// Save image summary to database, keyed by the image record when there is one
 export async function saveImageSummary(
   imageUrl: string, 
+  imageId: string | undefined,
   projectId: string, 
   userId: string, 
   summary: string
@@ -65,12 +66,15 @@ export async function saveImageSummary(
   const supabase = getSupabaseClient();
   
   // First check if the record exists
-  const { data: existingData, error: lookupError } = await supabase
+  const lookup = supabase
     .from('image_summaries')
     .select('id')
-    .eq('image_url', imageUrl)
-    .eq('project_id', projectId)
-    .maybeSingle();
+    .eq('project_id', projectId);
+  
+  const { data: existingData, error: lookupError } = await (imageId
+    ? lookup.eq('image_id', imageId)
+    : lookup.eq('image_url', imageUrl)
+  ).maybeSingle();
   
   if (lookupError) {
     console.error('Error checking for existing image summary:', lookupError);
@@ -93,6 +97,7 @@ export async function saveImageSummary(
       .from('image_summaries')
       .insert({
         image_url: imageUrl,
+        image_id: imageId ?? null,
         project_id: projectId,
         user_id: userId,
         summary: summary,
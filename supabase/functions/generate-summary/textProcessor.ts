@@ -1,5 +1,6 @@
 
-import { openAIApiKey, corsHeaders } from "./utils.ts";
+import { SSEWriter, streamCompletion } from "../_shared/streaming.ts";
+import { CompletionRequest, CompletionResult, ModelProvider } from "../_shared/models.ts";
 
 // Define summary prompt directly in the function instead of importing
 const summaryPrompt = `You are an expert BCG consultant summarizing business documents in a structured format.
@@ -15,48 +16,34 @@ Create summaries with these specific sections:
 
 FORMAT YOUR SUMMARY AS CLEAN MARKDOWN with these exact section headings. Maintain a professional, consulting tone throughout.`;
 
-// Process and summarize text content using OpenAI's API
-export async function processText(content: string): Promise<string> {
-  try {
-    console.log('Content length:', content.length);
-    
-    // Set up messages for OpenAI for text summarization with structured format
-    const messages = [
-      {
-        role: 'system',
-        content: summaryPrompt
-      },
+function summaryRequest(content: string): CompletionRequest {
+  console.log('Content length:', content.length);
+  
+  return {
+    system: summaryPrompt,
+    messages: [
       {
         role: 'user',
         content: `Please summarize the following note: ${content}`
       }
-    ];
-    
-    // Call OpenAI API to summarize the text
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: messages,
-        temperature: 0.7,
-        max_tokens: 500,
-      }),
-    });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('OpenAI API error:', response.status, errorText);
-      throw new Error(`OpenAI API error: ${response.statusText}`);
-    }
-    
-    const data = await response.json();
-    return data.choices[0].message.content;
+    ],
+    temperature: 0.7,
+    maxTokens: 500,
+  };
+}
+
+// Process and summarize text content with the selected model
+export async function processText(content: string, provider: ModelProvider): Promise<string> {
+  try {
+    const { text } = await provider.complete(summaryRequest(content));
+    return text;
   } catch (error) {
     console.error('Error processing text:', error);
     throw new Error(`Error processing text: ${error.message}`);
   }
 }
+
+// Stream the summary to the client as it is generated
+export function streamText(content: string, provider: ModelProvider, writer: SSEWriter): Promise<CompletionResult> {
+  return streamCompletion(provider, summaryRequest(content), writer);
+}
@@ -1,6 +1,7 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { authenticateRequest, authErrorResponse, resolveActingUserId } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,16 +15,14 @@ serve(async (req) => {
   }
 
   try {
-    const { userId } = await req.json();
-    
-    if (!userId) {
-      throw new Error("Missing required parameter: userId");
-    }
-    
     // Initialize Supabase client
     const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
     const supabase = createClient(supabaseUrl, supabaseKey);
+    const caller = await authenticateRequest(supabase, req);
+    
+    const { userId: requestedUserId } = await req.json();
+    const userId = resolveActingUserId(caller, requestedUserId);
     
     // Revoke the token with Google (if possible)
     const { data: connection } = await supabase
@@ -70,6 +69,9 @@ serve(async (req) => {
       }
     );
   } catch (error) {
+    const authResponse = authErrorResponse(error, corsHeaders);
+    if (authResponse) return authResponse;
+
     console.error("Error in google-drive-disconnect function:", error);
     
     return new Response(
@@ -1,6 +1,7 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { authenticateRequest, authErrorResponse, resolveActingUserId } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,16 +15,20 @@ serve(async (req) => {
   }
 
   try {
-    const { code, userId, redirectUri } = await req.json();
-    
-    if (!code || !userId) {
-      throw new Error("Missing required parameters: code and userId");
-    }
-    
     // Initialize Supabase client
     const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
     const supabase = createClient(supabaseUrl, supabaseKey);
+    const caller = await authenticateRequest(supabase, req);
+    
+    const { code, userId: requestedUserId, redirectUri } = await req.json();
+    
+    if (!code) {
+      throw new Error("Missing required parameter: code");
+    }
+    
+    // The connection is always stored for the signed-in user
+    const userId = resolveActingUserId(caller, requestedUserId);
     
     // Fixed Google Drive credentials
     const clientId = '312467123740-kapmie1lpqg4h5chlg3lh4pcs6iosfaa.apps.googleusercontent.com';
@@ -147,6 +152,9 @@ serve(async (req) => {
       }
     );
   } catch (error) {
+    const authResponse = authErrorResponse(error, corsHeaders);
+    if (authResponse) return authResponse;
+
     console.error("Error in google-drive-exchange-token function:", error);
     
     return new Response(
@@ -1,12 +1,19 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { authenticateRequest, authErrorResponse, requireProjectAccess, resolveActingUserId } from "../_shared/auth.ts";
+import { createDriveFetch, DriveImportResult, importDriveFile, listDriveFiles } from "../_shared/googleDrive.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Files per request, so each call finishes well within the function time limit
+const MAX_FILES_PER_IMPORT = 10;
+
+// Browses the user's Google Drive ({ folderId, pageToken, search }) and, with
+// action 'import', copies the given files into a brain the user can edit.
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -14,98 +21,57 @@ serve(async (req) => {
   }
 
   try {
-    const { userId, folderId } = await req.json();
-    
-    if (!userId) {
-      throw new Error("Missing required parameter: userId");
-    }
-    
     // Initialize Supabase client
     const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
     const supabase = createClient(supabaseUrl, supabaseKey);
-    
-    // Get the user's Google Drive connection
-    const { data: connection, error: connectionError } = await supabase
-      .from('google_drive_connections')
-      .select('*')
-      .eq('user_id', userId)
-      .single();
-      
-    if (connectionError || !connection) {
-      throw new Error("Google Drive connection not found");
-    }
-    
-    // Use the access token to fetch files
-    const fileListUrl = folderId
-      ? `https://www.googleapis.com/drive/v3/files?q='${folderId}'+in+parents&fields=files(id,name,mimeType,webViewLink,thumbnailLink,size,modifiedTime)&pageSize=100`
-      : `https://www.googleapis.com/drive/v3/files?fields=files(id,name,mimeType,webViewLink,thumbnailLink,size,modifiedTime)&pageSize=100`;
-    
-    const response = await fetch(fileListUrl, {
-      headers: {
-        'Authorization': `Bearer ${connection.access_token}`,
-      },
-    });
-    
-    if (!response.ok) {
-      const errorData = await response.json();
-      
-      // Check if token has expired (401 error)
-      if (response.status === 401) {
-        // Token expired, need to refresh
-        if (connection.refresh_token) {
-          try {
-            const refreshResponse = await refreshAccessToken(connection.refresh_token);
-            
-            // Update the access token in the database
-            const { error: updateError } = await supabase
-              .from('google_drive_connections')
-              .update({
-                access_token: refreshResponse.access_token,
-                expires_at: new Date(Date.now() + refreshResponse.expires_in * 1000).toISOString(),
-                updated_at: new Date().toISOString(),
-              })
-              .eq('user_id', userId);
-              
-            if (updateError) {
-              throw new Error(`Failed to update access token: ${updateError.message}`);
-            }
-            
-            // Retry the request with the new token
-            const retryResponse = await fetch(fileListUrl, {
-              headers: {
-                'Authorization': `Bearer ${refreshResponse.access_token}`,
-              },
-            });
-            
-            if (!retryResponse.ok) {
-              throw new Error(`Google API error after refresh: ${await retryResponse.text()}`);
-            }
-            
-            const retryData = await retryResponse.json();
-            
-            return new Response(
-              JSON.stringify(retryData),
-              {
-                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-                status: 200,
-              }
-            );
-          } catch (refreshError) {
-            console.error("Error refreshing token:", refreshError);
-            throw new Error(`Token refresh failed: ${refreshError.message}`);
-          }
-        } else {
-          throw new Error("Access token expired and no refresh token available");
+    const caller = await authenticateRequest(supabase, req);
+
+    const {
+      action = 'list',
+      userId: requestedUserId,
+      folderId,
+      pageToken,
+      search,
+      projectId,
+      fileIds,
+    } = await req.json();
+    const userId = resolveActingUserId(caller, requestedUserId);
+
+    const driveFetch = await createDriveFetch(supabase, userId);
+
+    if (action === 'import') {
+      if (!projectId || !Array.isArray(fileIds) || fileIds.length === 0) {
+        throw new Error('projectId and fileIds are required');
+      }
+      if (fileIds.length > MAX_FILES_PER_IMPORT) {
+        throw new Error(`Import at most ${MAX_FILES_PER_IMPORT} files at a time`);
+      }
+
+      await requireProjectAccess(supabase, caller, projectId, 'editor');
+
+      // One failed file does not stop the others; each reports its own result
+      const results: DriveImportResult[] = [];
+      for (const fileId of fileIds) {
+        try {
+          results.push(await importDriveFile(supabase, driveFetch, fileId, { projectId, userId }));
+        } catch (error) {
+          console.error(`Error importing Google Drive file ${fileId}:`, error);
+          results.push({ fileId, name: fileId, status: 'failed', error: error.message || 'Import failed' });
         }
       }
-      
-      console.error("Google API error:", errorData);
-      throw new Error(`Google API error: ${JSON.stringify(errorData)}`);
+
+      return new Response(
+        JSON.stringify({ success: true, results }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        }
+      );
     }
-    
-    const data = await response.json();
-    
+
+    const data = await listDriveFiles(driveFetch, { folderId, pageToken, search });
+
     return new Response(
       JSON.stringify(data),
       {
@@ -114,8 +80,11 @@ serve(async (req) => {
       }
     );
   } catch (error) {
+    const authResponse = authErrorResponse(error, corsHeaders);
+    if (authResponse) return authResponse;
+
     console.error("Error in google-drive-import function:", error);
-    
+
     return new Response(
       JSON.stringify({
         success: false,
@@ -128,33 +97,3 @@ serve(async (req) => {
     );
   }
 });
-
-// Helper function to refresh an access token
-async function refreshAccessToken(refreshToken: string) {
-  const clientId = '312467123740-kapmie1lpqg4h5chlg3lh4pcs6iosfaa.apps.googleusercontent.com';
-  const clientSecret = Deno.env.get('GOOGLE_DRIVE_CLIENT_SECRET') || '';
-  
-  if (!clientSecret) {
-    throw new Error("Missing Google Drive client secret");
-  }
-  
-  const response = await fetch('https://oauth2.googleapis.com/token', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: new URLSearchParams({
-      client_id: clientId,
-      client_secret: clientSecret,
-      refresh_token: refreshToken,
-      grant_type: 'refresh_token',
-    }).toString(),
-  });
-  
-  if (!response.ok) {
-    const errorData = await response.json();
-    throw new Error(`Refresh token error: ${JSON.stringify(errorData)}`);
-  }
-  
-  return await response.json();
-}
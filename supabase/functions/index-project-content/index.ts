@@ -0,0 +1,87 @@
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { getEmbeddingProvider } from "../_shared/embeddings.ts";
+import { meterEmbeddings } from "../_shared/usage.ts";
+import { processIndexQueue } from "../_shared/contentIndex.ts";
+import { authenticateRequest, authErrorResponse, requireProjectAccess } from "../_shared/auth.ts";
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Drains the content index queue. Called on a schedule for all projects, or
+// with a projectId (and optionally reindex: true) to (re)build one brain's index.
+// Only the service role may drain every project; users must edit the brain.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    let body: { projectId?: string; reindex?: boolean; limit?: number } = {};
+    try {
+      body = await req.json();
+    } catch (_e) {
+      // Scheduled invocations send no body
+    }
+
+    const { projectId, reindex = false, limit } = body;
+
+    if (reindex && !projectId) {
+      return new Response(
+        JSON.stringify({ error: 'projectId is required to reindex' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+    const caller = await authenticateRequest(supabase, req);
+
+    if (projectId || !caller.isServiceRole) {
+      await requireProjectAccess(supabase, caller, projectId, 'editor');
+    }
+
+    // Scheduled drains act for nobody and are not recorded
+    const provider = meterEmbeddings(getEmbeddingProvider(), supabase, {
+      actingUserId: caller.userId,
+      projectId,
+      feature: 'indexing',
+    });
+
+    if (reindex) {
+      const { data: queuedCount, error: queueError } = await supabase.rpc(
+        'queue_project_content_indexing',
+        { p_project_id: projectId }
+      );
+
+      if (queueError) {
+        throw new Error(`Failed to queue project content: ${queueError.message}`);
+      }
+
+      console.log(`Queued ${queuedCount} items of project ${projectId} for reindexing`);
+    }
+
+    const result = await processIndexQueue(supabase, provider, { projectId, limit });
+
+    console.log(`Indexed ${result.indexed} items (${result.chunks} chunks), ${result.failed} failed, using ${provider.model}`);
+
+    return new Response(
+      JSON.stringify({ success: true, model: provider.model, ...result }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    const authResponse = authErrorResponse(error, corsHeaders);
+    if (authResponse) return authResponse;
+
+    console.error('Error in index-project-content function:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Unknown error occurred' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
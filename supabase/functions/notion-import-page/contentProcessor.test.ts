@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ConversionContext, processBlocksRecursively, richTextToMarkdown } from './contentProcessor.ts';
+import { pageMetadata } from './propertyProcessor.ts';
+
+// Recorded Notion API payloads: `results` of the page's children, and the
+// children of every block that has them, keyed by block id
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+const recordedContext = (name: string, rehostImage?: ConversionContext['rehostImage']): ConversionContext => {
+  const { children } = JSON.parse(fixture(name));
+  return {
+    fetchChildren: async (blockId) => {
+      if (!children[blockId]) throw new Error(`No recorded children for ${blockId}`);
+      return children[blockId].results;
+    },
+    rehostImage,
+  };
+};
+
+const convert = (name: string, rehostImage?: ConversionContext['rehostImage']) =>
+  processBlocksRecursively(JSON.parse(fixture(name)).results, recordedContext(name, rehostImage));
+
+describe('processBlocksRecursively', () => {
+  it('keeps formatting, links, mentions, equations, lists and media of a page', async () => {
+    const markdown = await convert('formatted-page.json', async () => 'https://cdn.example/img.png');
+
+    expect(`${markdown}\n`).toBe(fixture('formatted-page.md'));
+  });
+
+  it('renders tables, columns, toggles and synced blocks', async () => {
+    expect(`${await convert('layout-page.json')}\n`).toBe(fixture('layout-page.md'));
+  });
+
+  it('keeps the Notion URL of an image that could not be copied', async () => {
+    const markdown = await convert('formatted-page.json', async () => {
+      throw new Error('Storage unavailable');
+    });
+
+    expect(markdown).toContain('![Launch timeline](https://prod-files-secure.s3.us-west-2.amazonaws.com/7d1e/5f0a9b2c-3333/timeline.png?');
+  });
+
+  it('marks blocks whose children cannot be loaded instead of failing the page', async () => {
+    const { results } = JSON.parse(fixture('layout-page.json'));
+    const markdown = await processBlocksRecursively(results, {
+      fetchChildren: async () => {
+        throw new Error('Notion API error: rate limited');
+      },
+    });
+
+    expect(markdown.match(/\*\[Error loading nested content\]\*/g)).toHaveLength(results.length);
+  });
+});
+
+describe('richTextToMarkdown', () => {
+  const text = (content: string, annotations: Record<string, boolean> = {}) => ({
+    type: 'text',
+    plain_text: content,
+    href: null,
+    annotations: { bold: false, italic: false, strikethrough: false, underline: false, code: false, ...annotations },
+  });
+
+  it('merges runs Notion split with the same formatting and keeps spaces outside markers', () => {
+    expect(richTextToMarkdown([text('very ', { bold: true }), text('important ', { bold: true }), text('note')]))
+      .toBe('**very important** note');
+  });
+});
+
+describe('pageMetadata', () => {
+  it('turns database properties into tags and metadata', () => {
+    const { tags, properties } = pageMetadata(JSON.parse(fixture('database-row.json')));
+
+    expect(tags).toEqual(['In progress', 'Release', 'Q4', 'High']);
+    expect(properties).toEqual({
+      Status: 'In progress',
+      Tags: ['Release', 'Q4', 'release'],
+      Priority: 'High',
+      Due: '2026-11-03',
+      Owner: ['Dana Lee'],
+      Estimate: 8,
+      Shipped: false,
+      Spec: 'https://example.com/spec',
+      Summary: 'Second major release',
+      Score: 42,
+      Ticket: 'REL-17',
+      Related: ['3c1d2e4f-2222-4b3c-8d4e-000000000002'],
+      Updated: '2026-10-02T16:40:00.000Z',
+    });
+  });
+
+  it('gives pages outside a database neither', () => {
+    const page = { ...JSON.parse(fixture('database-row.json')), parent: { type: 'workspace', workspace: true } };
+
+    expect(pageMetadata(page)).toEqual({ tags: [], properties: {} });
+  });
+});
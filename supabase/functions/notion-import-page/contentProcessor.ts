@@ -63,133 +63,264 @@ export function extractPageTitle(pageData: any, blocksData: any): string {
   return pageTitle;
 }
 
-// Process a single block
-export async function processBlock(block: any, accessToken: string, level = 0): Promise<string> {
-  const indent = '  '.repeat(level);
-  
+// Blocks, rich text and pages as the Notion API returns them
+export type NotionObject = Record<string, any>;
+
+// What block conversion needs besides the blocks themselves: their children,
+// and a place to copy Notion-hosted images to before their URLs expire
+export interface ConversionContext {
+  fetchChildren(blockId: string): Promise<NotionObject[]>;
+  rehostImage?(url: string, block: NotionObject): Promise<string | null>;
+}
+
+const LIST_ITEM_TYPES = new Set(['bulleted_list_item', 'numbered_list_item', 'to_do']);
+
+// Public link to a page or block in Notion
+export function notionUrl(id: string): string {
+  return `https://www.notion.so/${id.replace(/-/g, '')}`;
+}
+
+export function richTextToPlainText(richText: NotionObject[] = []): string {
+  return richText.map((text: NotionObject) => text.plain_text ?? '').join('');
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*])/g, '\\$1');
+}
+
+// Wraps text in a marker, keeping surrounding spaces outside: "**bold** "
+function wrap(text: string, marker: string): string {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/);
+  if (!match || !match[2]) return text;
+  return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+}
+
+function sameFormatting(a: NotionObject, b: NotionObject): boolean {
+  return a.type !== 'equation' && b.type !== 'equation'
+    && (a.href ?? null) === (b.href ?? null)
+    && JSON.stringify(a.annotations ?? {}) === JSON.stringify(b.annotations ?? {});
+}
+
+// Rich text with its annotations, links, mentions and inline equations.
+// Neighbouring runs with the same formatting are merged first, so Notion's
+// split runs do not turn into "**a****b**".
+export function richTextToMarkdown(richText: NotionObject[] = []): string {
+  const runs: NotionObject[] = [];
+  for (const item of richText) {
+    const previous = runs[runs.length - 1];
+    if (previous && sameFormatting(previous, item)) {
+      runs[runs.length - 1] = { ...previous, plain_text: (previous.plain_text ?? '') + (item.plain_text ?? '') };
+    } else {
+      runs.push(item);
+    }
+  }
+
+  return runs.map((item) => {
+    if (item.type === 'equation') {
+      return `$${item.equation?.expression ?? item.plain_text ?? ''}$`;
+    }
+
+    const annotations = item.annotations ?? {};
+    const raw: string = item.plain_text ?? '';
+    let text = annotations.code ? wrap(raw, '`') : escapeMarkdown(raw);
+
+    if (annotations.bold) text = wrap(text, '**');
+    if (annotations.italic) text = wrap(text, '_');
+    if (annotations.strikethrough) text = wrap(text, '~~');
+
+    // Mentions of pages and databases carry their Notion URL in href
+    return item.href && raw.trim() ? `[${text}](${item.href})` : text;
+  }).join('');
+}
+
+// Prefixes every non-empty line, for nesting under list items and quotes
+function indentLines(text: string, prefix: string): string {
+  return text.split('\n').map((line) => line ? prefix + line : line).join('\n');
+}
+
+function quoteLines(text: string): string {
+  return text.split('\n').map((line) => line ? `> ${line}` : '>').join('\n');
+}
+
+// A list item with its children indented below it. Nested lists follow on
+// the next line; other content needs a blank line to stay inside the item.
+function listItem(line: string, children: string, indent: string): string {
+  if (!children) return line;
+  const separator = /^(- |\d+\. )/.test(children) ? '\n' : '\n\n';
+  return `${line}${separator}${indentLines(children, indent)}`;
+}
+
+function joinParts(...parts: string[]): string {
+  return parts.filter(Boolean).join('\n\n');
+}
+
+function linkTo(label: string, url: string): string {
+  return `[${label.replace(/[[\]]/g, '\\$&') || url}](${url})`;
+}
+
+async function childContent(block: NotionObject, context: ConversionContext): Promise<string> {
+  if (!block.has_children) return '';
+  return processBlocksRecursively(await context.fetchChildren(block.id), context);
+}
+
+function fileUrl(value: NotionObject): string {
+  return value?.type === 'external' ? value.external?.url ?? '' : value?.file?.url ?? '';
+}
+
+async function renderImage(block: NotionObject, context: ConversionContext): Promise<string> {
+  const image = block.image ?? {};
+  const caption = richTextToPlainText(image.caption);
+  let url = fileUrl(image);
+
+  // Files Notion hosts come with links that expire after an hour
+  if (url && image.type === 'file' && context.rehostImage) {
+    try {
+      url = (await context.rehostImage(url, block)) || url;
+    } catch (error) {
+      console.error(`Error copying image ${block.id} from Notion:`, error);
+    }
+  }
+
+  if (!url) return '*[Image from Notion - not imported]*';
+  return `![${(caption || 'Image from Notion').replace(/[[\]]/g, '')}](${url})`;
+}
+
+function renderTableRow(cells: NotionObject[][], width: number, rowHeader: boolean): string {
+  const rendered = Array.from({ length: width }, (_, index) => {
+    const cell = richTextToMarkdown(cells[index] ?? []).replace(/\|/g, '\\|').replace(/\n/g, ' ').trim();
+    return rowHeader && index === 0 && cell ? `**${cell}**` : cell;
+  });
+  return `| ${rendered.join(' | ')} |`;
+}
+
+async function renderTable(block: NotionObject, context: ConversionContext): Promise<string> {
+  const rows = (await context.fetchChildren(block.id)).filter((row: NotionObject) => row.type === 'table_row');
+  const width = block.table?.table_width
+    || Math.max(1, ...rows.map((row: NotionObject) => row.table_row.cells.length));
+  const rowHeader = Boolean(block.table?.has_row_header);
+
+  // Markdown tables always have a header row; without one in Notion it stays empty
+  const bodyRows = block.table?.has_column_header ? rows.slice(1) : rows;
+  const header = block.table?.has_column_header && rows.length > 0
+    ? renderTableRow(rows[0].table_row.cells, width, false)
+    : renderTableRow([], width, false);
+
+  return [
+    header,
+    `|${' --- |'.repeat(width)}`,
+    ...bodyRows.map((row: NotionObject) => renderTableRow(row.table_row.cells, width, rowHeader)),
+  ].join('\n');
+}
+
+// Converts one block, including its children, to Markdown. `number` is the
+// position of a numbered list item within its list.
+export async function processBlock(block: NotionObject, context: ConversionContext, number = 1): Promise<string> {
+  const value = block[block.type] ?? {};
+  const text = richTextToMarkdown(value.rich_text);
+
   switch (block.type) {
     case 'paragraph':
-      if (block.paragraph.rich_text && block.paragraph.rich_text.length > 0) {
-        return `${indent}${block.paragraph.rich_text.map((text: any) => text.plain_text).join('')}\n\n`;
-      } else {
-        return `${indent}\n\n`;
-      }
+      return joinParts(text, await childContent(block, context));
     case 'heading_1':
-      if (block.heading_1.rich_text && block.heading_1.rich_text.length > 0) {
-        return `${indent}# ${block.heading_1.rich_text.map((text: any) => text.plain_text).join('')}\n\n`;
-      }
-      break;
     case 'heading_2':
-      if (block.heading_2.rich_text && block.heading_2.rich_text.length > 0) {
-        return `${indent}## ${block.heading_2.rich_text.map((text: any) => text.plain_text).join('')}\n\n`;
-      }
-      break;
-    case 'heading_3':
-      if (block.heading_3.rich_text && block.heading_3.rich_text.length > 0) {
-        return `${indent}### ${block.heading_3.rich_text.map((text: any) => text.plain_text).join('')}\n\n`;
-      }
-      break;
+    case 'heading_3': {
+      const level = Number(block.type.slice(-1));
+      // Toggle headings keep their content below them
+      return joinParts(text && `${'#'.repeat(level)} ${text}`, await childContent(block, context));
+    }
     case 'bulleted_list_item':
-      if (block.bulleted_list_item.rich_text && block.bulleted_list_item.rich_text.length > 0) {
-        return `${indent}- ${block.bulleted_list_item.rich_text.map((text: any) => text.plain_text).join('')}\n`;
-      }
-      break;
+    case 'toggle':
+      return listItem(`- ${text}`, await childContent(block, context), '  ');
     case 'numbered_list_item':
-      if (block.numbered_list_item.rich_text && block.numbered_list_item.rich_text.length > 0) {
-        return `${indent}1. ${block.numbered_list_item.rich_text.map((text: any) => text.plain_text).join('')}\n`;
-      }
-      break;
+      return listItem(`${number}. ${text}`, await childContent(block, context), '   ');
     case 'to_do':
-      if (block.to_do.rich_text && block.to_do.rich_text.length > 0) {
-        const checkbox = block.to_do.checked ? '[x]' : '[ ]';
-        return `${indent}- ${checkbox} ${block.to_do.rich_text.map((text: any) => text.plain_text).join('')}\n`;
-      }
-      break;
-    case 'toggle':
-      if (block.toggle.rich_text && block.toggle.rich_text.length > 0) {
-        return `${indent}**Toggle: ${block.toggle.rich_text.map((text: any) => text.plain_text).join('')}**\n\n`;
-      }
-      break;
-    case 'child_page':
-      return `${indent}**Child Page: ${block.child_page.title || 'Untitled'}**\n\n`;
+      return listItem(`- [${value.checked ? 'x' : ' '}] ${text}`, await childContent(block, context), '  ');
     case 'quote':
-      if (block.quote.rich_text && block.quote.rich_text.length > 0) {
-        return `${indent}> ${block.quote.rich_text.map((text: any) => text.plain_text).join('')}\n\n`;
-      }
-      break;
-    case 'code':
-      if (block.code.rich_text && block.code.rich_text.length > 0) {
-        return `${indent}\`\`\`${block.code.language || ''}\n${block.code.rich_text.map((text: any) => text.plain_text).join('')}\n\`\`\`\n\n`;
-      }
-      break;
+      return quoteLines(joinParts(text, await childContent(block, context)));
+    case 'callout': {
+      const icon = value.icon?.type === 'emoji' ? `${value.icon.emoji} ` : '';
+      return quoteLines(joinParts(`${icon}${text}`, await childContent(block, context)));
+    }
+    case 'code': {
+      const code = richTextToPlainText(value.rich_text);
+      const longestRun = Math.max(2, ...(code.match(/`+/g) ?? []).map((run) => run.length));
+      const fence = '`'.repeat(longestRun + 1);
+      const language = value.language && value.language !== 'plain text' ? value.language : '';
+      const caption = richTextToMarkdown(value.caption);
+      return joinParts(`${fence}${language}\n${code}\n${fence}`, caption && `_${caption}_`);
+    }
+    case 'equation':
+      return `$$\n${value.expression ?? ''}\n$$`;
     case 'divider':
-      return `${indent}---\n\n`;
-    case 'callout':
-      if (block.callout.rich_text && block.callout.rich_text.length > 0) {
-        const emoji = block.callout.icon?.emoji ? `${block.callout.icon.emoji} ` : '';
-        return `${indent}> ${emoji}**Callout:** ${block.callout.rich_text.map((text: any) => text.plain_text).join('')}\n\n`;
-      }
-      break;
+      return '---';
     case 'image':
-      // Handle image blocks - extract the URL if possible
-      let imageSource = '';
-      let imageAlt = 'Image from Notion';
-      
-      // Check what type of image it is (external URL, file, etc.)
-      if (block.image.type === 'external' && block.image.external?.url) {
-        imageSource = block.image.external.url;
-      } else if (block.image.type === 'file' && block.image.file?.url) {
-        imageSource = block.image.file.url;
-      }
-      
-      // Check if there's a caption to use as alt text
-      if (block.image.caption && block.image.caption.length > 0) {
-        imageAlt = block.image.caption.map((cap: any) => cap.plain_text).join('');
-      }
-      
-      if (imageSource) {
-        // Return markdown image format
-        return `${indent}![${imageAlt}](${imageSource})\n\n`;
-      } else {
-        // If we can't get the image URL, provide a nicer message
-        return `${indent}*[Image from Notion - not imported]*\n\n`;
-      }
+      return renderImage(block, context);
+    case 'video':
+    case 'audio':
+    case 'file':
+    case 'pdf': {
+      const url = fileUrl(value);
+      const label = richTextToPlainText(value.caption) || value.name || `${block.type[0].toUpperCase()}${block.type.slice(1)} from Notion`;
+      return url ? linkTo(label, url) : '';
+    }
+    case 'bookmark':
+    case 'embed':
+    case 'link_preview':
+      return value.url ? linkTo(richTextToPlainText(value.caption) || value.url, value.url) : '';
+    case 'child_page':
+      return linkTo(value.title || 'Untitled', notionUrl(block.id));
+    case 'child_database':
+      return linkTo(value.title || 'Untitled Database', notionUrl(block.id));
+    case 'link_to_page': {
+      const targetId = value.page_id ?? value.database_id;
+      return targetId ? linkTo('Linked page', notionUrl(targetId)) : '';
+    }
     case 'table':
-      return `${indent}[Table content not fully supported]\n\n`;
+      return renderTable(block, context);
     case 'column_list':
-      return `${indent}[Column layout not fully supported]\n\n`;
+    case 'column':
+      // Markdown has no columns; their content follows one another
+      return childContent(block, context);
+    case 'synced_block': {
+      // Copies of a synced block show the content of the original
+      const sourceId = value.synced_from?.block_id;
+      if (!sourceId) return childContent(block, context);
+      return processBlocksRecursively(await context.fetchChildren(sourceId), context);
+    }
+    case 'table_of_contents':
+    case 'breadcrumb':
+    case 'template':
+      return '';
     default:
-      return `${indent}[${block.type} block type not supported]\n\n`;
+      return `*[${block.type} block not imported]*`;
   }
-  
-  return '';
 }
 
-// Process blocks recursively, including nested blocks
-export async function processBlocksRecursively(blocks: any[], accessToken: string, level = 0): Promise<string> {
-  let blockContent = '';
-  
+// Converts a list of sibling blocks. Items of the same list are kept on
+// consecutive lines; everything else is separated by a blank line.
+export async function processBlocksRecursively(blocks: NotionObject[], context: ConversionContext): Promise<string> {
+  const parts: { type: string; markdown: string }[] = [];
+  let number = 0;
+
   for (const block of blocks) {
-    // Process the current block based on its type
-    blockContent += await processBlock(block, accessToken, level);
-    
-    // Check if the block has children
-    if (block.has_children) {
-      try {
-        // Import the function to fetch child blocks
-        const { fetchChildBlocks } = await import('./notionApi.ts');
-        
-        // Fetch the children blocks
-        const childrenData = await fetchChildBlocks(block.id, accessToken);
-        
-        // Process the children blocks with an increased level
-        blockContent += await processBlocksRecursively(childrenData.results, accessToken, level + 1);
-      } catch (err) {
-        console.error(`Error fetching children for block ${block.id}:`, err);
-        blockContent += `\n\n*[Error loading nested content]*\n\n`;
-      }
+    number = block.type === 'numbered_list_item' ? number + 1 : 0;
+
+    let markdown: string;
+    try {
+      markdown = await processBlock(block, context, number);
+    } catch (err) {
+      console.error(`Error converting block ${block.id}:`, err);
+      markdown = '*[Error loading nested content]*';
     }
+
+    if (markdown.trim()) parts.push({ type: block.type, markdown });
   }
-  
-  return blockContent;
+
+  return parts.map((part, index) => {
+    if (index === 0) return part.markdown;
+    const previous = parts[index - 1];
+    const sameList = LIST_ITEM_TYPES.has(part.type) && LIST_ITEM_TYPES.has(previous.type)
+      && (part.type === 'numbered_list_item') === (previous.type === 'numbered_list_item');
+    return `${sameList ? '\n' : '\n\n'}${part.markdown}`;
+  }).join('');
 }
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { createImageRehoster } from './imageRehost.ts';
+
+const NOTION_URL = 'https://prod-files-secure.s3.us-west-2.amazonaws.com/7d1e/5f0a9b2c/timeline%20v2.png';
+
+// Records uploads, inserts and removals; `existingPath` is already in the gallery
+const fakeSupabase = (options: { existingPath?: boolean; insertError?: { message: string } } = {}) => {
+  const uploads: string[] = [];
+  const inserts: Record<string, unknown>[] = [];
+  const removals: string[][] = [];
+
+  const client = {
+    from: () => ({
+      select: () => ({
+        eq: () => ({
+          maybeSingle: async () => ({ data: options.existingPath ? { id: 'image-1' } : null, error: null }),
+        }),
+      }),
+      insert: async (values: Record<string, unknown>) => {
+        inserts.push(values);
+        return { error: options.insertError ?? null };
+      },
+    }),
+    storage: {
+      from: () => ({
+        upload: async (path: string) => {
+          uploads.push(path);
+          return { data: { path }, error: null };
+        },
+        getPublicUrl: (path: string) => ({ data: { publicUrl: `https://cdn.example/project_images/${path}` } }),
+        remove: async (paths: string[]) => {
+          removals.push(paths);
+          return { data: paths, error: null };
+        },
+      }),
+    },
+  } as unknown as SupabaseClient;
+
+  return { client, uploads, inserts, removals };
+};
+
+const target = { projectId: 'brain-1', userId: 'user-1' };
+
+const imageFetch = (type = 'image/png') => {
+  const fetched: string[] = [];
+  const fetchImage = async (url: string) => {
+    fetched.push(url);
+    return new Response(new Uint8Array([137, 80, 78, 71]), { headers: { 'Content-Type': type } });
+  };
+  return { fetchImage, fetched };
+};
+
+describe('createImageRehoster', () => {
+  it('copies a Notion image into the gallery once per page', async () => {
+    const { client, uploads, inserts } = fakeSupabase();
+    const { fetchImage, fetched } = imageFetch();
+    const rehost = createImageRehoster(client, target, fetchImage);
+
+    const url = await rehost(`${NOTION_URL}?X-Amz-Signature=first`);
+    await rehost(`${NOTION_URL}?X-Amz-Signature=second`);
+
+    expect(fetched).toHaveLength(1);
+    expect(uploads[0]).toMatch(/^brain-1\/notion-[0-9a-f]{16}-timeline_v2\.png$/);
+    expect(url).toBe(`https://cdn.example/project_images/${uploads[0]}`);
+    expect(inserts[0]).toMatchObject({ project_id: 'brain-1', user_id: 'user-1', file_name: 'timeline v2.png', mime_type: 'image/png', size_bytes: 4 });
+  });
+
+  it('reuses the copy from an earlier sync without downloading again', async () => {
+    const { client, uploads } = fakeSupabase({ existingPath: true });
+    const { fetchImage, fetched } = imageFetch();
+
+    const url = await createImageRehoster(client, target, fetchImage)(`${NOTION_URL}?X-Amz-Signature=new`);
+
+    expect(fetched).toHaveLength(0);
+    expect(uploads).toHaveLength(0);
+    expect(url).toMatch(/^https:\/\/cdn\.example\/project_images\/brain-1\/notion-/);
+  });
+
+  it('refuses files that are not images and removes uploads it cannot record', async () => {
+    await expect(createImageRehoster(fakeSupabase().client, target, imageFetch('text/html').fetchImage)(NOTION_URL))
+      .rejects.toThrow('Not an image');
+
+    const { client, uploads, removals } = fakeSupabase({ insertError: { message: 'permission denied' } });
+    await expect(createImageRehoster(client, target, imageFetch().fetchImage)(NOTION_URL))
+      .rejects.toMatchObject({ message: 'permission denied' });
+    expect(removals).toEqual([[uploads[0]]]);
+  });
+});
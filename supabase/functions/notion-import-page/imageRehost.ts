@@ -0,0 +1,90 @@
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { MAX_IMAGE_SIZE, storageFileName } from "../_shared/googleDrive.ts";
+import { contentHash } from "../_shared/notionSync.ts";
+
+const IMAGES_BUCKET = 'project_images';
+
+type FetchImage = (url: string) => Promise<Response>;
+
+// Copies an image Notion hosts into the brain's gallery and returns its
+// permanent URL. The storage path is derived from the file's address in
+// Notion without the expiring signature, so syncing the page again reuses
+// the copy, and an image replaced in Notion gets a new one.
+async function rehostImage(
+  supabase: SupabaseClient,
+  target: { projectId: string; userId: string },
+  url: string,
+  fetchImage: FetchImage
+): Promise<string> {
+  const source = new URL(url);
+  const key = (await contentHash(`${source.origin}${source.pathname}`)).slice(0, 16);
+  const fileName = decodeURIComponent(source.pathname.split('/').pop() || '') || 'Notion image';
+  const storagePath = `${target.projectId}/notion-${key}-${storageFileName(fileName)}`;
+  const publicUrl = () => supabase.storage.from(IMAGES_BUCKET).getPublicUrl(storagePath).data.publicUrl;
+
+  const { data: existing, error: existingError } = await supabase
+    .from('project_images')
+    .select('id')
+    .eq('storage_path', storagePath)
+    .maybeSingle();
+
+  if (existingError) throw existingError;
+  if (existing) return publicUrl();
+
+  const response = await fetchImage(url);
+  if (!response.ok) throw new Error(`Notion returned ${response.status} for image`);
+
+  const mimeType = (response.headers.get('content-type') || '').split(';')[0].trim();
+  if (!mimeType.startsWith('image/')) {
+    await response.body?.cancel();
+    throw new Error(`Not an image: ${mimeType || 'unknown type'}`);
+  }
+
+  const data = new Uint8Array(await response.arrayBuffer());
+  if (data.byteLength > MAX_IMAGE_SIZE) {
+    throw new Error(`Image is larger than ${Math.round(MAX_IMAGE_SIZE / (1024 * 1024))}MB`);
+  }
+
+  const { error: uploadError } = await supabase.storage
+    .from(IMAGES_BUCKET)
+    .upload(storagePath, data, { contentType: mimeType, upsert: false });
+  if (uploadError) throw uploadError;
+
+  const { error } = await supabase
+    .from('project_images')
+    .insert({
+      project_id: target.projectId,
+      user_id: target.userId,
+      storage_path: storagePath,
+      file_name: fileName,
+      mime_type: mimeType,
+      size_bytes: data.byteLength,
+    });
+
+  if (error) {
+    await supabase.storage.from(IMAGES_BUCKET).remove([storagePath]);
+    throw error;
+  }
+
+  return publicUrl();
+}
+
+// Image rehosting for ConversionContext. An image used twice on a page is
+// copied once.
+export function createImageRehoster(
+  supabase: SupabaseClient,
+  target: { projectId: string; userId: string },
+  fetchImage: FetchImage = fetch
+) {
+  const copies = new Map<string, Promise<string>>();
+
+  return (url: string): Promise<string> => {
+    const source = new URL(url);
+    const key = `${source.origin}${source.pathname}`;
+    if (!copies.has(key)) {
+      copies.set(key, rehostImage(supabase, target, url, fetchImage));
+    }
+    return copies.get(key)!;
+  };
+}
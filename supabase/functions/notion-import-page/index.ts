@@ -4,12 +4,11 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { corsHeaders, createErrorResponse, createSuccessResponse } from "./utils.ts";
 import { 
   fetchPageDetails, 
-  fetchPageBlocks, 
-  verifyProjectAccess, 
   getNotionAccessToken 
 } from "./notionApi.ts";
-import { extractPageTitle, processBlocksRecursively } from "./contentProcessor.ts";
+import { renderNotionPage } from "./renderPage.ts";
 import { saveNotionPageAsNote } from "./saveToDatabase.ts";
+import { AuthError, authenticateRequest, requireProjectAccess, resolveActingUserId } from "../_shared/auth.ts";
 
 // Process a single Notion page and save it as a note
 async function processPage(
@@ -22,23 +21,17 @@ async function processPage(
   try {
     console.log(`Starting to process Notion page ${pageId}`);
     
-    // Fetch page details and blocks from Notion
+    // Fetch page details from Notion and convert its blocks and properties
     const pageData = await fetchPageDetails(pageId, accessToken);
-    const blocksData = await fetchPageBlocks(pageId, accessToken);
-    
-    // Extract page title from the data
-    const pageTitle = extractPageTitle(pageData, blocksData);
-    
-    // Process blocks to extract content
-    const content = await processBlocksRecursively(blocksData.results, accessToken);
+    const renderedPage = await renderNotionPage(supabase, pageData, accessToken, { projectId, userId });
+    const pageTitle = renderedPage.title;
     
     console.log(`Processed content for page "${pageTitle}" (${pageId}), saving to database...`);
     
     // Save the processed page as a note
     const noteData = await saveNotionPageAsNote(
       supabase, 
-      pageTitle, 
-      content, 
+      renderedPage, 
       projectId, 
       userId, 
       pageData,
@@ -70,6 +63,18 @@ serve(async (req) => {
   }
 
   try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+    
+    if (!supabaseUrl || !supabaseKey) {
+      console.error("Missing Supabase environment variables");
+      return createErrorResponse("Server configuration error", 500);
+    }
+    
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const caller = await authenticateRequest(supabase, req);
+    
     // Parse request body
     let body;
     try {
@@ -80,18 +85,13 @@ serve(async (req) => {
       return createErrorResponse("Invalid request body: " + err.message, 400);
     }
     
-    const { userId, pageId, pageIds, projectId } = body;
+    const { userId: requestedUserId, pageId, pageIds, projectId } = body;
     
     // Check if this is a batch import or single import
     const isBatchImport = Array.isArray(pageIds) && pageIds.length > 0;
     const singlePageId = !isBatchImport ? pageId : null;
     
     // Validate required parameters
-    if (!userId) {
-      console.error("Missing userId in request");
-      return createErrorResponse("Missing required parameter: userId", 400);
-    }
-    
     if (!projectId) {
       console.error("Missing projectId in request");
       return createErrorResponse("Missing required parameter: projectId", 400);
@@ -102,26 +102,11 @@ serve(async (req) => {
       return createErrorResponse("Missing required parameter: pageId or pageIds", 400);
     }
     
-    console.log(`Notion import request received: userId=${userId}, projectId=${projectId}, isBatch=${isBatchImport}, pageCount=${isBatchImport ? pageIds.length : 1}`);
+    // Pages are imported with the caller's own Notion connection into a brain they can edit
+    const userId = resolveActingUserId(caller, requestedUserId);
+    await requireProjectAccess(supabase, caller, projectId, 'editor');
     
-    // Initialize Supabase client
-    const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
-    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
-    
-    if (!supabaseUrl || !supabaseKey) {
-      console.error("Missing Supabase environment variables");
-      return createErrorResponse("Server configuration error", 500);
-    }
-    
-    const supabase = createClient(supabaseUrl, supabaseKey);
-    
-    try {
-      // Verify project access
-      await verifyProjectAccess(supabase, projectId, userId);
-    } catch (error) {
-      console.error("Project access verification failed:", error);
-      return createErrorResponse("Project access verification failed: " + error.message, 403);
-    }
+    console.log(`Notion import request received: userId=${userId}, projectId=${projectId}, isBatch=${isBatchImport}, pageCount=${isBatchImport ? pageIds.length : 1}`);
     
     let accessToken;
     try {
@@ -187,6 +172,10 @@ serve(async (req) => {
     });
     
   } catch (error) {
+    if (error instanceof AuthError) {
+      return createErrorResponse(error.message, error.status);
+    }
+    
     console.error("Unexpected error in notion-import-page function:", error);
     return createErrorResponse(error.message || "Unknown error occurred", 500);
   }
@@ -1,5 +1,6 @@
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { ConversionContext, NotionObject } from "./contentProcessor.ts";
 
 // Fetch page details from Notion API
 export async function fetchPageDetails(pageId: string, accessToken: string) {
@@ -21,60 +22,75 @@ export async function fetchPageDetails(pageId: string, accessToken: string) {
   return await pageResponse.json();
 }
 
-// Fetch page blocks (content) from Notion API
-export async function fetchPageBlocks(pageId: string, accessToken: string) {
-  const blockResponse = await fetch(`https://api.notion.com/v1/blocks/${pageId}/children?page_size=100`, {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-      'Notion-Version': '2022-06-28',
-      'Content-Type': 'application/json',
-    },
-  });
+// Fetch every child block of a page or block, following Notion's pagination
+export async function fetchAllChildBlocks(blockId: string, accessToken: string) {
+  const results: NotionObject[] = [];
+  let cursor: string | null = null;
   
-  if (!blockResponse.ok) {
-    const errorData = await blockResponse.json();
-    console.error("Notion API error (blocks):", errorData);
-    throw new Error(`Notion API error: ${errorData.message || 'Unknown error'}`);
-  }
+  do {
+    const params = new URLSearchParams({ page_size: '100' });
+    if (cursor) params.set('start_cursor', cursor);
+    
+    const childrenResponse = await fetch(`https://api.notion.com/v1/blocks/${blockId}/children?${params.toString()}`, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Notion-Version': '2022-06-28',
+      },
+    });
+    
+    if (!childrenResponse.ok) {
+      const errorData = await childrenResponse.json().catch(() => ({}));
+      console.error(`Notion API error (children of ${blockId}):`, errorData);
+      throw new Error(`Notion API error: ${errorData.message || `Error fetching children for block ${blockId}`}`);
+    }
+    
+    const page = await childrenResponse.json();
+    results.push(...(page.results || []));
+    cursor = page.has_more ? page.next_cursor : null;
+  } while (cursor);
   
-  return await blockResponse.json();
+  return results;
 }
 
-// Fetch children blocks for a specific block
-export async function fetchChildBlocks(blockId: string, accessToken: string) {
-  const childrenResponse = await fetch(`https://api.notion.com/v1/blocks/${blockId}/children`, {
+// Fetch page blocks (content) from Notion API
+export async function fetchPageBlocks(pageId: string, accessToken: string) {
+  return { results: await fetchAllChildBlocks(pageId, accessToken) };
+}
+
+// Block conversion backed by the Notion API
+export function createConversionContext(
+  accessToken: string,
+  rehostImage?: ConversionContext['rehostImage']
+): ConversionContext {
+  return {
+    fetchChildren: (blockId) => fetchAllChildBlocks(blockId, accessToken),
+    rehostImage,
+  };
+}
+
+// Query one page of database rows, newest first
+export async function queryDatabase(databaseId: string, accessToken: string, startCursor?: string | null) {
+  const queryResponse = await fetch(`https://api.notion.com/v1/databases/${databaseId}/query`, {
+    method: 'POST',
     headers: {
       'Authorization': `Bearer ${accessToken}`,
       'Notion-Version': '2022-06-28',
+      'Content-Type': 'application/json',
     },
+    body: JSON.stringify({
+      sorts: [{ timestamp: 'created_time', direction: 'descending' }],
+      page_size: 100,
+      ...(startCursor ? { start_cursor: startCursor } : {}),
+    }),
   });
   
-  if (!childrenResponse.ok) {
-    throw new Error(`Error fetching children for block ${blockId}`);
-  }
-  
-  return await childrenResponse.json();
-}
-
-// Verify user has access to the project
-export async function verifyProjectAccess(supabase: any, projectId: string, userId: string) {
-  const { data: projectAccess, error: projectError } = await supabase.rpc(
-    'is_project_member',
-    { project_id: projectId, user_id: userId }
-  );
-  
-  const { data: projectOwner, error: ownerError } = await supabase
-    .from('projects')
-    .select('owner_id')
-    .eq('id', projectId)
-    .single();
-    
-  if ((projectError && ownerError) || (!projectAccess && projectOwner?.owner_id !== userId)) {
-    throw new Error("You don't have access to this project");
+  if (!queryResponse.ok) {
+    const errorData = await queryResponse.json();
+    console.error("Notion API error (database query):", errorData);
+    throw new Error(`Notion API error: ${errorData.message || 'Unknown error'}`);
   }
   
-  return true;
+  return await queryResponse.json();
 }
 
 // Get Notion access token for a user
@@ -0,0 +1,93 @@
+
+import { NotionObject, richTextToPlainText } from "./contentProcessor.ts";
+
+export type NotionPropertyValue = string | number | boolean | string[] | null;
+
+// Property types whose values become tags of the note
+const TAG_PROPERTY_TYPES = new Set(['select', 'multi_select', 'status']);
+
+// Plain value of one database property, as stored in the note's metadata
+export function propertyValue(property: NotionObject): NotionPropertyValue {
+  const type = property?.type;
+  const value = property?.[type];
+
+  switch (type) {
+    case 'title':
+    case 'rich_text':
+      return richTextToPlainText(value) || null;
+    case 'number':
+    case 'checkbox':
+    case 'url':
+    case 'email':
+    case 'phone_number':
+    case 'created_time':
+    case 'last_edited_time':
+      return value ?? null;
+    case 'select':
+    case 'status':
+      return value?.name ?? null;
+    case 'multi_select':
+      return (value ?? []).map((option: NotionObject) => option.name);
+    case 'date':
+      if (!value?.start) return null;
+      return value.end ? `${value.start} → ${value.end}` : value.start;
+    case 'people':
+      return (value ?? []).map((person: NotionObject) => person.name || person.id);
+    case 'created_by':
+    case 'last_edited_by':
+      return value?.name || value?.id || null;
+    case 'files':
+      return (value ?? []).map((file: NotionObject) => file.name);
+    case 'relation':
+      return (value ?? []).map((page: NotionObject) => page.id);
+    case 'formula':
+      return value?.type === 'date' ? value.date?.start ?? null : value?.[value?.type] ?? null;
+    case 'rollup':
+      if (value?.type === 'array') {
+        return (value.array ?? [])
+          .map(propertyValue)
+          .flat()
+          .filter((item: NotionPropertyValue) => item !== null && item !== '')
+          .map(String);
+      }
+      return value?.type === 'date' ? value.date?.start ?? null : value?.[value?.type] ?? null;
+    case 'unique_id':
+      if (value?.number == null) return null;
+      return value.prefix ? `${value.prefix}-${value.number}` : String(value.number);
+    default:
+      return null;
+  }
+}
+
+// Database rows carry properties besides their title: select-like values
+// become tags, and every filled-in property is kept as note metadata.
+// Pages outside a database have only a title and give neither.
+export function pageMetadata(page: NotionObject): { tags: string[]; properties: Record<string, NotionPropertyValue> } {
+  const tags: string[] = [];
+  const properties: Record<string, NotionPropertyValue> = {};
+
+  if (page?.parent?.type !== 'database_id') return { tags, properties };
+
+  for (const [name, property] of Object.entries<NotionObject>(page.properties ?? {})) {
+    if (property.type === 'title') continue;
+
+    const value = propertyValue(property);
+    if (value === null || value === '' || (Array.isArray(value) && value.length === 0)) continue;
+
+    properties[name] = value;
+    if (TAG_PROPERTY_TYPES.has(property.type)) {
+      tags.push(...(Array.isArray(value) ? value : [String(value)]));
+    }
+  }
+
+  const seen = new Set<string>();
+  return {
+    tags: tags.map((tag) => tag.trim()).filter((tag) => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    }),
+    properties,
+  };
+}
@@ -0,0 +1,27 @@
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { createConversionContext, fetchPageBlocks } from "./notionApi.ts";
+import { extractPageTitle, NotionObject, processBlocksRecursively } from "./contentProcessor.ts";
+import { pageMetadata } from "./propertyProcessor.ts";
+import { createImageRehoster } from "./imageRehost.ts";
+
+// Turn a Notion page into the title, Markdown content, tags and property
+// metadata of a note in the given brain. Images Notion hosts are copied into
+// that brain's gallery.
+export async function renderNotionPage(
+  supabase: SupabaseClient,
+  pageData: NotionObject,
+  accessToken: string,
+  target: { projectId: string; userId: string }
+) {
+  const blocksData = await fetchPageBlocks(pageData.id, accessToken);
+  const context = createConversionContext(accessToken, createImageRehoster(supabase, target));
+  const { tags, properties } = pageMetadata(pageData);
+  
+  return {
+    title: extractPageTitle(pageData, blocksData),
+    content: await processBlocksRecursively(blocksData.results, context),
+    tags,
+    properties,
+  };
+}
@@ -1,16 +1,17 @@
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { RenderedPage, saveNotionNote } from "../_shared/notionSync.ts";
 
 // Save the processed Notion page as a note in the database
 export async function saveNotionPageAsNote(
   supabase: any,
-  pageTitle: string, 
-  content: string, 
+  renderedPage: RenderedPage, 
   projectId: string, 
   userId: string, 
   pageData: any,
   pageId: string
 ) {
+  const pageTitle = renderedPage.title;
   console.log(`Saving Notion page "${pageTitle}" as note...`);
   
   try {
@@ -19,8 +20,7 @@ export async function saveNotionPageAsNote(
       throw new Error("Page title cannot be empty");
     }
     
-    if (!content) {
-      content = ""; // Default to empty string if no content
+    if (!renderedPage.content) {
       console.log("Warning: Page content is empty");
     }
     
@@ -32,39 +32,20 @@ export async function saveNotionPageAsNote(
       throw new Error("User ID cannot be empty");
     }
     
-    // Prepare source document data
-    const sourceDocument = {
-      type: 'notion',
-      url: pageData?.url || '',
-      name: pageTitle,
-      id: pageId
-    };
-    
-    console.log(`Inserting note into database for project: ${projectId}, user: ${userId}`);
-    
-    const { data: noteData, error: noteError } = await supabase
-      .from('project_notes')
-      .insert({
-        title: pageTitle,
-        content: content.trim(),
-        project_id: projectId,
-        user_id: userId,
-        tags: ['notion', 'imported', 'notion-import'],
-        source_document: sourceDocument
-      })
-      .select()
-      .single();
-    
-    if (noteError) {
-      console.error("Error creating note:", noteError);
-      throw new Error(`Failed to create note: ${noteError.message}`);
-    }
+    // Pages already in the brain update their note instead of adding another
+    const { note: noteData, created } = await saveNotionNote(supabase, {
+      projectId,
+      userId,
+      page: { ...pageData, id: pageData?.id || pageId },
+      ...renderedPage,
+      content: renderedPage.content || "",
+    });
     
     if (!noteData) {
-      throw new Error("Note was created but no data was returned");
+      throw new Error("Note was saved but no data was returned");
     }
     
-    console.log(`Successfully created note with ID: ${noteData.id}`);
+    console.log(`Successfully ${created ? 'created' : 'updated'} note with ID: ${noteData.id}`);
     return noteData;
   } catch (error) {
     console.error("Error in saveNotionPageAsNote:", error);
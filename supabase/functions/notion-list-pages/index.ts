@@ -1,6 +1,7 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { authenticateRequest, authErrorResponse, resolveActingUserId } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,8 +15,14 @@ serve(async (req) => {
   }
 
   try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const caller = await authenticateRequest(supabase, req);
+    
     const { 
-      userId, 
+      userId: requestedUserId, 
       pageSize = 50, 
       startCursor = null,
       workspaceFilter = null,
@@ -24,18 +31,12 @@ serve(async (req) => {
       databaseId = null
     } = await req.json();
     
-    if (!userId) {
-      throw new Error("Missing required parameter: userId");
-    }
+    // Users can only browse their own Notion connection
+    const userId = resolveActingUserId(caller, requestedUserId);
     
     console.log(`Processing request for userId: ${userId}, pageSize: ${pageSize}, startCursor: ${startCursor}`);
     console.log(`Filters: workspace=${workspaceFilter}, parentType=${parentTypeFilter}, search=${searchQuery}, databaseId=${databaseId}`);
     
-    // Initialize Supabase client
-    const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
-    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
-    const supabase = createClient(supabaseUrl, supabaseKey);
-    
     // Get the Notion access token from the database
     const { data: connectionData, error: connectionError } = await supabase
       .from('notion_connections')
@@ -366,6 +367,9 @@ serve(async (req) => {
       );
     }
   } catch (error) {
+    const authResponse = authErrorResponse(error, corsHeaders);
+    if (authResponse) return authResponse;
+
     console.error("Error in notion-list-pages function:", error);
     
     return new Response(
@@ -0,0 +1,129 @@
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { AuthError, authenticateRequest, authErrorResponse, requireProjectAccess } from "../_shared/auth.ts";
+import {
+  NotionSource,
+  SYNCED_NOTE_COLUMNS,
+  SyncedDatabase,
+  syncNotionDatabase,
+  syncNotionNotes,
+} from "../_shared/notionSync.ts";
+import { fetchPageDetails, getNotionAccessToken, queryDatabase } from "../notion-import-page/notionApi.ts";
+import { renderNotionPage } from "../notion-import-page/renderPage.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Notes checked per run, least recently checked first
+const NOTES_PER_RUN = 50;
+
+// Notion reads through one member's connection, rendered like notion-import-page
+function createNotionSource(supabase: SupabaseClient, accessToken: string): NotionSource {
+  return {
+    getPage: (pageId) => fetchPageDetails(pageId, accessToken),
+    renderPage: (page, target) => renderNotionPage(supabase, page, accessToken, target),
+    queryDatabase: (databaseId, startCursor) => queryDatabase(databaseId, accessToken, startCursor),
+  };
+}
+
+// One source per member for the whole run, so tokens are looked up once
+function sourceCache(supabase: SupabaseClient) {
+  const sources = new Map<string, Promise<NotionSource>>();
+  return (ownerId: string) => {
+    if (!sources.has(ownerId)) {
+      sources.set(ownerId, getNotionAccessToken(supabase, ownerId).then((accessToken) => createNotionSource(supabase, accessToken)));
+    }
+    return sources.get(ownerId)!;
+  };
+}
+
+// Pulls Notion edits into imported notes and new rows of synced databases into
+// their brains. Called hourly by pg_cron without a body for every brain (service
+// role only), or with { projectId } when an editor asks for a sync now.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    let body: { projectId?: string } = {};
+    try {
+      body = await req.json();
+    } catch (_e) {
+      // Scheduled invocations send no body
+    }
+
+    const { projectId } = body;
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const caller = await authenticateRequest(supabase, req);
+
+    if (projectId) {
+      await requireProjectAccess(supabase, caller, projectId, 'editor');
+    } else if (!caller.isServiceRole) {
+      throw new AuthError('Only the scheduler can sync every brain', 403);
+    }
+
+    let notesQuery = supabase
+      .from('project_notes')
+      .select(SYNCED_NOTE_COLUMNS)
+      .not('notion_page_id', 'is', null)
+      .is('deleted_at', null)
+      .order('notion_checked_at', { ascending: true, nullsFirst: true })
+      .limit(NOTES_PER_RUN);
+    let databasesQuery = supabase
+      .from('notion_synced_databases')
+      .select('id, project_id, user_id, database_id')
+      .order('last_synced_at', { ascending: true, nullsFirst: true });
+
+    if (projectId) {
+      notesQuery = notesQuery.eq('project_id', projectId);
+      databasesQuery = databasesQuery.eq('project_id', projectId);
+    }
+
+    const [{ data: notes, error: notesError }, { data: databases, error: databasesError }] =
+      await Promise.all([notesQuery, databasesQuery]);
+    if (notesError) throw notesError;
+    if (databasesError) throw databasesError;
+
+    const sourceFor = sourceCache(supabase);
+    const notesResult = await syncNotionNotes(supabase, sourceFor, notes || []);
+
+    let imported = 0;
+    for (const database of (databases || []) as SyncedDatabase[]) {
+      let lastError: string | null = null;
+      try {
+        const result = await syncNotionDatabase(supabase, await sourceFor(database.user_id), database);
+        imported += result.imported;
+        if (result.failed > 0) lastError = `${result.failed} rows could not be imported`;
+      } catch (error) {
+        console.error(`Error syncing Notion database ${database.database_id}:`, error);
+        lastError = error.message || 'Sync failed';
+      }
+
+      await supabase
+        .from('notion_synced_databases')
+        .update({ last_synced_at: new Date().toISOString(), last_error: lastError })
+        .eq('id', database.id);
+    }
+
+    console.log(`Notion sync: ${JSON.stringify(notesResult)}, ${imported} database rows imported`);
+
+    return new Response(
+      JSON.stringify({ success: true, notes: notesResult, imported }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    const authResponse = authErrorResponse(error, corsHeaders);
+    if (authResponse) return authResponse;
+
+    console.error('Error in notion-sync function:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Unknown error occurred' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
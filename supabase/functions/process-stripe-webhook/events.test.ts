@@ -0,0 +1,315 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { StripeSubscription } from '../_shared/stripeBilling.ts';
+import { processStripeEvent, StripeEvent } from './events.ts';
+import { computeStripeSignature, verifyStripeSignature } from './signature.ts';
+
+// Recorded Stripe events, delivered the way the webhook receives them:
+// signed with the endpoint secret and verified before processing
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+const USER_ID = 'b1946ac9-2c5e-4f6e-9d8a-0c1f2d3e4a5b';
+const WORKSPACE_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+const SUBSCRIPTION_ID = 'sub_1RAb3cDkiO3r5OEtPz7wLm4Q';
+const secret = 'whsec_test_5f1c2e8d9a7b4c3e';
+
+type Row = Record<string, unknown>;
+let db: Record<string, Row[]>;
+let liveSubscription: StripeSubscription;
+let retrieveCalls: number;
+let failRetrieve: boolean;
+let now: Date;
+
+// In-memory tables behind the few query shapes the webhook uses, and
+// claim_stripe_event with the semantics of the migration
+const fakeSupabase = {
+  from: (table: string) => {
+    const filters: [string, unknown][] = [];
+    let update: Row | null = null;
+    const rows = () => db[table].filter(row => filters.every(([column, value]) => row[column] === value));
+
+    const query = {
+      select: () => query,
+      eq: (column: string, value: unknown) => {
+        filters.push([column, value]);
+        return query;
+      },
+      update: (values: Row) => {
+        update = values;
+        return query;
+      },
+      insert: async (values: Row) => {
+        db[table].push({ ...values });
+        return { data: null, error: null };
+      },
+      maybeSingle: async () => ({ data: rows()[0] ?? null, error: null }),
+      then: (resolve: (result: unknown) => void) => {
+        if (update) rows().forEach(row => Object.assign(row, update));
+        resolve({ data: update ? null : rows(), error: null });
+      },
+    };
+    return query;
+  },
+  rpc: async (name: string, args: Row) => {
+    expect(name).toBe('claim_stripe_event');
+    const existing = db.stripe_events.find(row => row.id === args.p_event_id);
+    if (!existing) {
+      db.stripe_events.push({ id: args.p_event_id, type: args.p_type, status: 'processing', attempts: 1 });
+      return { data: true, error: null };
+    }
+    if (existing.status !== 'failed') return { data: false, error: null };
+
+    Object.assign(existing, { status: 'processing', attempts: (existing.attempts as number) + 1, detail: null });
+    return { data: true, error: null };
+  },
+} as unknown as SupabaseClient;
+
+const context = {
+  supabase: fakeSupabase,
+  retrieveSubscription: async (subscriptionId: string) => {
+    retrieveCalls++;
+    if (failRetrieve) throw new Error('Stripe API unavailable');
+    expect(subscriptionId).toBe(liveSubscription.id);
+    return liveSubscription;
+  },
+  now: () => now,
+};
+
+const deliver = async (name: string) => {
+  const payload = fixture(name);
+  const timestamp = Math.floor(now.getTime() / 1000);
+  const header = `t=${timestamp},v1=${await computeStripeSignature(payload, secret, timestamp)}`;
+  const event = await verifyStripeSignature<StripeEvent>(payload, header, secret, { now: now.getTime() });
+
+  return processStripeEvent(context, event);
+};
+
+const userRow = () => db.user_subscriptions.find(row => row.user_id === USER_ID);
+const invoiceRow = () => db.billing_invoices.find(row => row.id === 'in_1RAb3cDkiO3r5OEt8hY2kQ1m');
+const loggedEvent = (id: string) => db.stripe_events.find(row => row.id === id);
+
+beforeEach(() => {
+  db = {
+    subscription_tiers: [
+      { plan_type: 'starter', stripe_price_ids: [] },
+      { plan_type: 'pro', stripe_price_ids: ['price_1R6ZG0DkiO3r5OEtxXnJaSP3'] },
+    ],
+    user_subscriptions: [],
+    workspaces: [],
+    billing_invoices: [],
+    stripe_events: [],
+  };
+  liveSubscription = JSON.parse(fixture('subscription.active.json'));
+  retrieveCalls = 0;
+  failRetrieve = false;
+  now = new Date('2026-10-01T09:00:30Z');
+});
+
+describe('processStripeEvent', () => {
+  it('gives the buyer the plan of the price when checkout completes', async () => {
+    await expect(deliver('checkout.session.completed.json')).resolves.toMatchObject({ status: 'processed' });
+
+    expect(userRow()).toMatchObject({
+      plan_type: 'pro',
+      is_active: true,
+      status: 'active',
+      subscription_id: SUBSCRIPTION_ID,
+      stripe_customer_id: 'cus_R8mZ1xKq4nVb2T',
+      price_id: 'price_1R6ZG0DkiO3r5OEtxXnJaSP3',
+      current_period_end: '2026-11-01T09:00:00.000Z',
+      cancel_at_period_end: false,
+    });
+    expect(loggedEvent('evt_1RAb3eDkiO3r5OEtC0mpl3te')).toMatchObject({ status: 'processed' });
+  });
+
+  it('handles a redelivered event once', async () => {
+    await deliver('checkout.session.completed.json');
+    const outcome = await deliver('checkout.session.completed.json');
+
+    expect(outcome.status).toBe('duplicate');
+    expect(retrieveCalls).toBe(1);
+    expect(db.user_subscriptions).toHaveLength(1);
+    expect(loggedEvent('evt_1RAb3eDkiO3r5OEtC0mpl3te')).toMatchObject({ attempts: 1 });
+  });
+
+  it('processes an event again after it failed', async () => {
+    failRetrieve = true;
+    await expect(deliver('checkout.session.completed.json')).rejects.toThrow('Stripe API unavailable');
+    expect(loggedEvent('evt_1RAb3eDkiO3r5OEtC0mpl3te')).toMatchObject({
+      status: 'failed',
+      detail: 'Stripe API unavailable',
+    });
+
+    failRetrieve = false;
+    await expect(deliver('checkout.session.completed.json')).resolves.toMatchObject({ status: 'processed' });
+    expect(loggedEvent('evt_1RAb3eDkiO3r5OEtC0mpl3te')).toMatchObject({ status: 'processed', attempts: 2 });
+    expect(userRow()).toMatchObject({ plan_type: 'pro' });
+  });
+
+  it('fails a checkout for a price mapped to no plan until the price is added', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    db.subscription_tiers[1].stripe_price_ids = [];
+
+    await expect(deliver('checkout.session.completed.json')).rejects.toThrow('is not mapped to a plan');
+    expect(userRow()).toBeUndefined();
+    expect(loggedEvent('evt_1RAb3eDkiO3r5OEtC0mpl3te')).toMatchObject({ status: 'failed' });
+
+    db.subscription_tiers[1].stripe_price_ids = ['price_1R6ZG0DkiO3r5OEtxXnJaSP3'];
+    await expect(deliver('checkout.session.completed.json')).resolves.toMatchObject({ status: 'processed' });
+    expect(userRow()).toMatchObject({ plan_type: 'pro' });
+
+    error.mockRestore();
+  });
+
+  it('gives trials the plan and records when they end', async () => {
+    await deliver('customer.subscription.created.trialing.json');
+
+    expect(userRow()).toMatchObject({
+      plan_type: 'pro',
+      is_active: true,
+      status: 'trialing',
+      trial_ends_at: '2026-10-15T09:00:00.000Z',
+    });
+  });
+
+  it('follows a prorated plan change to the new price', async () => {
+    await deliver('checkout.session.completed.json');
+    now = new Date('2026-10-11T09:00:30Z');
+    await deliver('customer.subscription.updated.plan_change.json');
+
+    // The annual price is not listed on the tier but names its plan in metadata
+    expect(userRow()).toMatchObject({
+      plan_type: 'pro',
+      is_active: true,
+      price_id: 'price_1RZk2bDkiO3r5OEtYearPro',
+      current_period_end: '2027-10-11T09:00:00.000Z',
+    });
+  });
+
+  it('keeps the plan until the period ends when cancelled at period end', async () => {
+    await deliver('checkout.session.completed.json');
+    await deliver('customer.subscription.updated.cancel_at_period_end.json');
+
+    expect(userRow()).toMatchObject({ plan_type: 'pro', is_active: true, cancel_at_period_end: true });
+  });
+
+  it('keeps the plan for a grace period when a renewal payment fails', async () => {
+    await deliver('checkout.session.completed.json');
+
+    liveSubscription = JSON.parse(fixture('subscription.past_due.json'));
+    now = new Date('2026-11-01T10:00:30Z');
+    await deliver('invoice.payment_failed.json');
+
+    expect(userRow()).toMatchObject({
+      plan_type: 'pro',
+      is_active: true,
+      status: 'past_due',
+      grace_period_ends_at: '2026-11-08T10:00:30.000Z',
+    });
+  });
+
+  it('downgrades when the subscription ends and ignores older events that arrive late', async () => {
+    await deliver('checkout.session.completed.json');
+    now = new Date('2026-11-22T09:00:30Z');
+    await deliver('customer.subscription.deleted.json');
+
+    expect(userRow()).toMatchObject({ plan_type: 'starter', is_active: false, status: 'canceled' });
+
+    const late = await deliver('customer.subscription.updated.cancel_at_period_end.json');
+    expect(late.status).toBe('ignored');
+    expect(userRow()).toMatchObject({ plan_type: 'starter', is_active: false });
+  });
+
+  it('does not let the end of a replaced subscription downgrade the user', async () => {
+    db.user_subscriptions.push({
+      user_id: USER_ID,
+      plan_type: 'pro',
+      is_active: true,
+      subscription_id: 'sub_1RNewerDkiO3r5OEtRe5ubd0',
+    });
+
+    const outcome = await deliver('customer.subscription.deleted.json');
+
+    expect(outcome).toMatchObject({ status: 'ignored' });
+    expect(userRow()).toMatchObject({ plan_type: 'pro', subscription_id: 'sub_1RNewerDkiO3r5OEtRe5ubd0' });
+  });
+
+  it('records refunds on the invoice without changing the plan', async () => {
+    await deliver('checkout.session.completed.json');
+    await deliver('invoice.paid.json');
+    const outcome = await deliver('charge.refunded.json');
+
+    expect(outcome.status).toBe('processed');
+    expect(invoiceRow()).toMatchObject({ status: 'paid', amount_paid: 1999, amount_refunded: 1999 });
+    expect(userRow()).toMatchObject({ plan_type: 'pro', is_active: true });
+  });
+
+  it('records paid invoices with the period they bill and their downloads', async () => {
+    await deliver('checkout.session.completed.json');
+    await deliver('invoice.paid.json');
+
+    expect(invoiceRow()).toMatchObject({
+      user_id: USER_ID,
+      workspace_id: null,
+      number: '9F3A27C1-0001',
+      status: 'paid',
+      billing_reason: 'subscription_create',
+      currency: 'usd',
+      amount_paid: 1999,
+      period_start: '2026-10-01T09:00:00.000Z',
+      period_end: '2026-11-01T09:00:00.000Z',
+      invoice_pdf: 'https://pay.stripe.com/invoice/acct_1R6Z/test_YWNjdF8xUjZaRzBEaw/pdf?s=ap',
+    });
+  });
+
+  it('adds the receipt and card of a charge, even when it arrives before its invoice', async () => {
+    await deliver('checkout.session.completed.json');
+    await deliver('charge.succeeded.json');
+
+    expect(invoiceRow()).toMatchObject({
+      status: 'paid',
+      amount_paid: 1999,
+      receipt_url: 'https://pay.stripe.com/receipts/invoices/CAcaFwoVYWNjdF8xUjZa?s=ap',
+    });
+    expect(userRow()?.payment_method).toEqual({ brand: 'visa', last4: '4242', exp_month: 12, exp_year: 2028 });
+
+    await deliver('invoice.paid.json');
+    expect(invoiceRow()).toMatchObject({
+      number: '9F3A27C1-0001',
+      receipt_url: 'https://pay.stripe.com/receipts/invoices/CAcaFwoVYWNjdF8xUjZa?s=ap',
+    });
+  });
+
+  it('fails billing that arrives before its checkout so Stripe delivers it again', async () => {
+    await expect(deliver('charge.succeeded.json')).rejects.toThrow('before the checkout');
+    expect(loggedEvent('evt_3RAb3cDkiO3r5OEt0Ch4rgeS')).toMatchObject({ status: 'failed' });
+
+    await deliver('checkout.session.completed.json');
+    await expect(deliver('charge.succeeded.json')).resolves.toMatchObject({ status: 'processed' });
+  });
+
+  it('shows a card added in the billing portal', async () => {
+    await deliver('checkout.session.completed.json');
+    await deliver('payment_method.attached.json');
+
+    expect(userRow()?.payment_method).toEqual({ brand: 'mastercard', last4: '4444', exp_month: 3, exp_year: 2030 });
+  });
+
+  it('mirrors seat changes onto the workspace that pays for them', async () => {
+    db.workspaces.push({ id: WORKSPACE_ID, plan_type: 'pro', is_active: true, seats: 3 });
+
+    await deliver('customer.subscription.updated.workspace_seats.json');
+
+    expect(db.workspaces[0]).toMatchObject({
+      plan_type: 'pro',
+      is_active: true,
+      seats: 5,
+      subscription_id: 'sub_1RGh9kDkiO3r5OEtW0rkSp4c',
+      stripe_customer_id: 'cus_R9nA2yLr5oWc3U',
+    });
+    // A workspace subscription leaves the buyer's own plan alone
+    expect(db.user_subscriptions).toHaveLength(0);
+  });
+});
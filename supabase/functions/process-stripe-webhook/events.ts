@@ -0,0 +1,234 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import {
+  applySubscription,
+  BillingTarget,
+  findBillingTarget,
+  StripeSubscription,
+} from '../_shared/stripeBilling.ts';
+import {
+  recordCharge,
+  recordInvoice,
+  recordPaymentMethod,
+  refId,
+  StripeCard,
+  StripeCharge,
+  StripeInvoice,
+} from './invoices.ts';
+
+// Processes verified Stripe events exactly once. Each event is claimed in
+// stripe_events before it is handled and marked processed, ignored or
+// failed afterwards; Stripe redelivers failed events and the claim lets
+// those through while duplicates of handled ones are skipped.
+
+// The fields of checkout sessions and invoices the handlers read; the
+// object of a customer.subscription.* event is the subscription itself
+export interface StripeEventObject {
+  id: string;
+  mode?: string;
+  subscription?: string | { id: string } | null;
+  client_reference_id?: string | null;
+  metadata?: Record<string, string> | null;
+  [field: string]: unknown;
+}
+
+export interface StripeEvent {
+  id: string;
+  type: string;
+  created: number;
+  data: { object: StripeEventObject };
+}
+
+export interface WebhookContext {
+  supabase: SupabaseClient;
+  // Fetches the current state of a subscription from Stripe
+  retrieveSubscription: (subscriptionId: string) => Promise<StripeSubscription>;
+  now?: () => Date;
+}
+
+export interface EventOutcome {
+  status: 'processed' | 'ignored' | 'duplicate';
+  detail?: string;
+}
+
+const ignored = (detail: string): EventOutcome => ({ status: 'ignored', detail });
+
+async function applyTo(
+  context: WebhookContext,
+  target: BillingTarget | null,
+  subscription: StripeSubscription,
+  eventCreated?: number
+): Promise<EventOutcome> {
+  if (!target) {
+    return ignored(`No user or workspace holds subscription ${subscription.id}`);
+  }
+
+  const result = await applySubscription(context.supabase, target, subscription, {
+    eventCreated,
+    now: context.now?.(),
+  });
+  if (!result.applied) return ignored(result.reason);
+
+  const holder = target.kind === 'workspace' ? `workspace ${target.workspaceId}` : `user ${target.userId}`;
+  return {
+    status: 'processed',
+    detail: `${holder} is ${result.state.plan_type} (${result.state.status})`,
+  };
+}
+
+// Invoices, charges and cards name the subscription and customer they
+// belong to; the holder is whoever pays for either. Billing of a subscription
+// can arrive before the checkout that says who it is for, so `required`
+// fails the event and Stripe delivers it again once the checkout is recorded.
+async function holderOf(
+  context: WebhookContext,
+  object: StripeEventObject,
+  required: boolean
+): Promise<BillingTarget | null> {
+  const target = await findBillingTarget(context.supabase, {
+    id: refId(object.subscription),
+    customer: object.customer as StripeSubscription['customer'],
+    metadata: (object.subscription_details as StripeInvoice['subscription_details'])?.metadata,
+  });
+
+  if (!target && required) {
+    throw new Error(`${object.id} arrived before the checkout of its subscription was recorded`);
+  }
+  return target;
+}
+
+// Subscription events carry the subscription as it was when the event was
+// created, so they go through the ordering check. Checkouts and invoices
+// only point at the subscription, which is fetched fresh instead.
+async function handleStripeEvent(context: WebhookContext, event: StripeEvent): Promise<EventOutcome> {
+  const object = event.data.object;
+
+  switch (event.type) {
+    case 'checkout.session.completed': {
+      const subscriptionId = refId(object.subscription);
+      if (object.mode !== 'subscription' || !subscriptionId) {
+        return ignored('Checkout did not create a subscription');
+      }
+
+      const subscription = await context.retrieveSubscription(subscriptionId);
+      const userId = object.client_reference_id || object.metadata?.userId;
+      const target: BillingTarget | null = object.metadata?.workspaceId
+        ? { kind: 'workspace', workspaceId: object.metadata.workspaceId }
+        : userId
+          ? { kind: 'user', userId }
+          : await findBillingTarget(context.supabase, subscription);
+
+      return applyTo(context, target, subscription);
+    }
+
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted': {
+      const subscription = object as unknown as StripeSubscription;
+      return applyTo(context, await findBillingTarget(context.supabase, subscription), subscription, event.created);
+    }
+
+    // Drafts change until they are finalized and are not shown before
+    case 'invoice.finalized':
+    case 'invoice.updated':
+    case 'invoice.voided':
+    case 'invoice.marked_uncollectible': {
+      const invoice = object as unknown as StripeInvoice;
+      if (invoice.status === 'draft') return ignored('Draft invoices are recorded once finalized');
+
+      const target = await holderOf(context, object, !!refId(invoice.subscription));
+      if (!target) return ignored(`No user or workspace holds invoice ${invoice.id}`);
+
+      return await recordInvoice(context.supabase, target, invoice, event.created)
+        ? { status: 'processed', detail: `Invoice ${invoice.id} is ${invoice.status}` }
+        : ignored(`A newer event for ${invoice.id} was already applied`);
+    }
+
+    // A failed payment makes the subscription past_due, which starts the
+    // grace period; a later successful one makes it active again
+    case 'invoice.paid':
+    case 'invoice.payment_failed': {
+      const invoice = object as unknown as StripeInvoice;
+      const subscriptionId = refId(invoice.subscription);
+      const target = await holderOf(context, object, !!subscriptionId);
+      if (!target) return ignored(`No user or workspace holds invoice ${invoice.id}`);
+
+      await recordInvoice(context.supabase, target, invoice, event.created);
+      if (!subscriptionId) {
+        return { status: 'processed', detail: `Invoice ${invoice.id} is ${invoice.status}` };
+      }
+
+      const subscription = await context.retrieveSubscription(subscriptionId);
+      return applyTo(context, target, subscription);
+    }
+
+    // Receipts, refunds and the paying card. Access follows the subscription
+    // status: a refund on its own keeps the plan, and cancelling with a
+    // refund arrives as customer.subscription.deleted.
+    case 'charge.succeeded':
+    case 'charge.refunded': {
+      const charge = object as unknown as StripeCharge;
+      const target = await holderOf(context, object, !!refId(charge.invoice));
+      if (!target) return ignored(`No user or workspace holds charge ${charge.id}`);
+
+      await recordCharge(context.supabase, target, charge);
+      if (event.type === 'charge.succeeded' && charge.payment_method_details?.card) {
+        await recordPaymentMethod(context.supabase, target, charge.payment_method_details.card);
+      }
+      return {
+        status: 'processed',
+        detail: event.type === 'charge.refunded'
+          ? `Charge ${charge.id} refunded ${charge.amount_refunded} ${charge.currency}`
+          : `Receipt for charge ${charge.id} recorded`,
+      };
+    }
+
+    // A card added in the billing portal replaces the one shown before the
+    // next payment is made with it
+    case 'payment_method.attached': {
+      const card = object.card as StripeCard | undefined;
+      if (!card) return ignored('Only cards are shown');
+
+      const target = await holderOf(context, object, false);
+      if (!target) return ignored(`No user or workspace holds payment method ${object.id}`);
+
+      await recordPaymentMethod(context.supabase, target, card);
+      return { status: 'processed', detail: `Showing ${card.brand} ending in ${card.last4}` };
+    }
+
+    default:
+      return ignored(`Unhandled event type ${event.type}`);
+  }
+}
+
+export async function processStripeEvent(context: WebhookContext, event: StripeEvent): Promise<EventOutcome> {
+  const { supabase } = context;
+
+  const { data: claimed, error: claimError } = await supabase.rpc('claim_stripe_event', {
+    p_event_id: event.id,
+    p_type: event.type,
+    p_created: new Date(event.created * 1000).toISOString(),
+    p_payload: event,
+  });
+  if (claimError) throw claimError;
+
+  if (!claimed) {
+    return { status: 'duplicate', detail: `Event ${event.id} was already handled` };
+  }
+
+  const finish = async (status: 'processed' | 'ignored' | 'failed', detail: string | null) => {
+    const { error } = await supabase
+      .from('stripe_events')
+      .update({ status, detail, processed_at: new Date().toISOString() })
+      .eq('id', event.id);
+    if (error) console.error(`Error recording outcome of ${event.id}:`, error);
+  };
+
+  try {
+    const outcome = await handleStripeEvent(context, event);
+    await finish(outcome.status === 'processed' ? 'processed' : 'ignored', outcome.detail ?? null);
+    return outcome;
+  } catch (error) {
+    await finish('failed', error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+}
@@ -0,0 +1,174 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { BillingTarget, customerId } from '../_shared/stripeBilling.ts';
+
+// Mirrors invoices, their receipts and refunds into billing_invoices, and the
+// paying card onto the user or workspace, for the billing section of the
+// subscription page.
+
+type StripeRef = string | { id: string } | null | undefined;
+
+// The parts of Stripe invoices, charges and cards this module reads
+export interface StripeInvoice {
+  id: string;
+  customer: string | { id: string } | null;
+  subscription?: StripeRef;
+  subscription_details?: { metadata?: Record<string, string> | null } | null;
+  number: string | null;
+  status: string;
+  billing_reason?: string | null;
+  currency: string;
+  amount_due: number;
+  amount_paid: number;
+  created: number;
+  period_start?: number | null;
+  period_end?: number | null;
+  lines?: { data?: { period?: { start: number; end: number } | null }[] };
+  hosted_invoice_url?: string | null;
+  invoice_pdf?: string | null;
+}
+
+export interface StripeCard {
+  brand: string;
+  last4: string;
+  exp_month: number;
+  exp_year: number;
+}
+
+export interface StripeCharge {
+  id: string;
+  customer: string | { id: string } | null;
+  invoice?: StripeRef;
+  amount: number;
+  amount_refunded: number;
+  currency: string;
+  created: number;
+  receipt_url?: string | null;
+  payment_method_details?: { card?: StripeCard | null } | null;
+}
+
+export const refId = (value: StripeRef) =>
+  typeof value === 'string' ? value : value?.id ?? null;
+
+const toIso = (seconds: number | null | undefined) =>
+  seconds ? new Date(seconds * 1000).toISOString() : null;
+
+const holderColumns = (target: BillingTarget) =>
+  target.kind === 'workspace'
+    ? { user_id: null, workspace_id: target.workspaceId }
+    : { user_id: target.userId, workspace_id: null };
+
+// The invoice fields of a billing_invoices row. Subscription invoices bill
+// the period of their line items; the invoice's own period is the one before.
+export function invoiceFields(invoice: StripeInvoice) {
+  const period = invoice.lines?.data?.[0]?.period;
+
+  return {
+    stripe_customer_id: customerId(invoice.customer),
+    subscription_id: refId(invoice.subscription),
+    number: invoice.number,
+    status: invoice.status,
+    billing_reason: invoice.billing_reason ?? null,
+    currency: invoice.currency,
+    amount_due: invoice.amount_due,
+    amount_paid: invoice.amount_paid,
+    period_start: toIso(period?.start ?? invoice.period_start),
+    period_end: toIso(period?.end ?? invoice.period_end),
+    hosted_invoice_url: invoice.hosted_invoice_url ?? null,
+    invoice_pdf: invoice.invoice_pdf ?? null,
+    stripe_created_at: toIso(invoice.created),
+  };
+}
+
+// Writes an invoice as of the event that carried it. Returns false when a
+// newer event for the invoice was already applied.
+export async function recordInvoice(
+  supabase: SupabaseClient,
+  target: BillingTarget,
+  invoice: StripeInvoice,
+  eventCreated: number
+): Promise<boolean> {
+  const { data: current, error: currentError } = await supabase
+    .from('billing_invoices')
+    .select('stripe_synced_at')
+    .eq('id', invoice.id)
+    .maybeSingle();
+  if (currentError) throw currentError;
+
+  const syncedAt = new Date(eventCreated * 1000);
+  if (current?.stripe_synced_at && new Date(current.stripe_synced_at) > syncedAt) {
+    return false;
+  }
+
+  const values = {
+    ...invoiceFields(invoice),
+    stripe_synced_at: syncedAt.toISOString(),
+    updated_at: new Date().toISOString(),
+  };
+
+  const { error } = current
+    ? await supabase.from('billing_invoices').update(values).eq('id', invoice.id)
+    : await supabase.from('billing_invoices').insert({ id: invoice.id, ...holderColumns(target), ...values });
+  if (error) throw error;
+
+  return true;
+}
+
+// Adds the receipt and refunds of a charge to its invoice. A charge can
+// arrive before its invoice, so it starts the row, and the invoice event
+// fills in the rest.
+export async function recordCharge(
+  supabase: SupabaseClient,
+  target: BillingTarget,
+  charge: StripeCharge
+): Promise<void> {
+  const invoiceId = refId(charge.invoice);
+  if (!invoiceId) return;
+
+  const values = {
+    receipt_url: charge.receipt_url ?? null,
+    amount_refunded: charge.amount_refunded,
+    updated_at: new Date().toISOString(),
+  };
+
+  const { data: current, error: currentError } = await supabase
+    .from('billing_invoices')
+    .select('id')
+    .eq('id', invoiceId)
+    .maybeSingle();
+  if (currentError) throw currentError;
+
+  const { error } = current
+    ? await supabase.from('billing_invoices').update(values).eq('id', invoiceId)
+    : await supabase.from('billing_invoices').insert({
+        id: invoiceId,
+        ...holderColumns(target),
+        stripe_customer_id: customerId(charge.customer),
+        status: 'paid',
+        currency: charge.currency,
+        amount_due: charge.amount,
+        amount_paid: charge.amount,
+        stripe_created_at: toIso(charge.created),
+        ...values,
+      });
+  if (error) throw error;
+}
+
+// Remembers the card shown in the billing section. Only brand, last digits
+// and expiry are kept.
+export async function recordPaymentMethod(
+  supabase: SupabaseClient,
+  target: BillingTarget,
+  card: StripeCard
+): Promise<void> {
+  const paymentMethod = {
+    brand: card.brand,
+    last4: card.last4,
+    exp_month: card.exp_month,
+    exp_year: card.exp_year,
+  };
+
+  const { error } = target.kind === 'workspace'
+    ? await supabase.from('workspaces').update({ payment_method: paymentMethod }).eq('id', target.workspaceId)
+    : await supabase.from('user_subscriptions').update({ payment_method: paymentMethod }).eq('user_id', target.userId);
+  if (error) throw error;
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { computeStripeSignature, StripeSignatureError, verifyStripeSignature } from './signature.ts';
+
+const secret = 'whsec_test_5f1c2e8d9a7b4c3e';
+const payload = readFileSync(join(__dirname, 'fixtures', 'checkout.session.completed.json'), 'utf8');
+const signedAt = 1790845260;
+const now = signedAt * 1000;
+
+const header = async (body = payload, key = secret, timestamp = signedAt) =>
+  `t=${timestamp},v1=${await computeStripeSignature(body, key, timestamp)}`;
+
+describe('verifyStripeSignature', () => {
+  it('returns the event when the body is signed with the endpoint secret', async () => {
+    const event = await verifyStripeSignature<{ id: string }>(payload, await header(), secret, { now });
+
+    expect(event.id).toBe('evt_1RAb3eDkiO3r5OEtC0mpl3te');
+  });
+
+  it('accepts any matching v1 signature while the secret is being rolled', async () => {
+    const rolled = `${await header(payload, 'whsec_old')},v1=${await computeStripeSignature(payload, secret, signedAt)},v0=legacy`;
+
+    await expect(verifyStripeSignature(payload, rolled, secret, { now })).resolves.toBeTruthy();
+  });
+
+  it('rejects a modified body or another secret', async () => {
+    const tampered = payload.replace('"paid"', '"unpaid"');
+
+    await expect(verifyStripeSignature(tampered, await header(), secret, { now }))
+      .rejects.toBeInstanceOf(StripeSignatureError);
+    await expect(verifyStripeSignature(payload, await header(payload, 'whsec_other'), secret, { now }))
+      .rejects.toBeInstanceOf(StripeSignatureError);
+  });
+
+  it('rejects replays signed outside the tolerance', async () => {
+    await expect(verifyStripeSignature(payload, await header(), secret, { now: now + 301_000 }))
+      .rejects.toThrow('outside the tolerance');
+    await expect(verifyStripeSignature(payload, await header(), secret, { now: now + 301_000, toleranceSeconds: 600 }))
+      .resolves.toBeTruthy();
+  });
+
+  it('rejects missing and malformed headers', async () => {
+    await expect(verifyStripeSignature(payload, null, secret, { now })).rejects.toThrow('Missing');
+    await expect(verifyStripeSignature(payload, 'v1=abc', secret, { now })).rejects.toThrow('Malformed');
+    await expect(verifyStripeSignature(payload, `t=${signedAt}`, secret, { now })).rejects.toThrow('Malformed');
+  });
+});
@@ -0,0 +1,41 @@
+
+import { describe, it, expect } from 'vitest';
+import { extractCitedIndices, groupChunksIntoSources } from './citations.ts';
+import type { RetrievedChunk } from '../_shared/contentIndex.ts';
+
+const chunk = (sourceType: RetrievedChunk['source_type'], sourceId: string, title: string, page?: number): RetrievedChunk => ({
+  id: `${sourceId}-${page ?? 0}-${Math.random()}`,
+  source_type: sourceType,
+  source_id: sourceId,
+  chunk_index: 0,
+  content: 'content',
+  metadata: { title, page },
+  similarity: 0.5,
+});
+
+describe('extractCitedIndices', () => {
+  it('finds single, grouped and adjacent citations', () => {
+    expect(extractCitedIndices('Budget is 40k [2]. Risks are listed [1, 3][4].')).toEqual([1, 2, 3, 4]);
+  });
+
+  it('ignores markdown links and text without citations', () => {
+    expect(extractCitedIndices('See [the roadmap](https://example.com) for details.')).toEqual([]);
+  });
+});
+
+describe('groupChunksIntoSources', () => {
+  it('numbers sources in order and groups chunks of the same source and page', () => {
+    const sources = groupChunksIntoSources([
+      chunk('document', 'doc-1', 'Contract.pdf', 40),
+      chunk('note', 'note-1', 'Kickoff'),
+      chunk('document', 'doc-1', 'Contract.pdf', 40),
+      chunk('document', 'doc-1', 'Contract.pdf', 2),
+    ]);
+
+    expect(sources.map(s => [s.index, s.type, s.title, s.page, s.chunks.length])).toEqual([
+      [1, 'document', 'Contract.pdf', 40, 2],
+      [2, 'note', 'Kickoff', undefined, 1],
+      [3, 'document', 'Contract.pdf', 2, 1],
+    ]);
+  });
+});
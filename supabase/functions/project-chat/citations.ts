@@ -0,0 +1,108 @@
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import type { ContentSourceType, RetrievedChunk } from '../_shared/contentIndex.ts';
+
+export interface Citation {
+  // Number the model uses to refer to the source, e.g. [2]
+  index: number;
+  type: ContentSourceType;
+  id: string;
+  title: string;
+  page?: number;
+  // File URL for documents and images, so the client can open them directly
+  url?: string;
+}
+
+export interface CitableSource {
+  index: number;
+  type: ContentSourceType;
+  id: string;
+  title: string;
+  page?: number;
+  chunks: RetrievedChunk[];
+}
+
+// Group retrieved chunks by source (and page for PDFs) and number them in order
+// of relevance. Chunks of the same note share a number so the model cites it once.
+export function groupChunksIntoSources(chunks: RetrievedChunk[]): CitableSource[] {
+  const sources: CitableSource[] = [];
+  const byKey = new Map<string, CitableSource>();
+
+  for (const chunk of chunks) {
+    const key = `${chunk.source_type}:${chunk.source_id}:${chunk.metadata.page ?? ''}`;
+    let source = byKey.get(key);
+
+    if (!source) {
+      source = {
+        index: sources.length + 1,
+        type: chunk.source_type,
+        id: chunk.source_id,
+        title: chunk.metadata.title,
+        page: chunk.metadata.page,
+        chunks: [],
+      };
+      byKey.set(key, source);
+      sources.push(source);
+    }
+
+    source.chunks.push(chunk);
+  }
+
+  return sources;
+}
+
+// Find the source numbers cited in an answer, e.g. "[1]", "[2, 3]" or "[1][4]"
+export function extractCitedIndices(text: string): number[] {
+  const cited = new Set<number>();
+
+  for (const match of text.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    for (const value of match[1].split(',')) {
+      cited.add(parseInt(value.trim(), 10));
+    }
+  }
+
+  return [...cited].sort((a, b) => a - b);
+}
+
+// Build the citations for the sources actually referenced in the answer
+export async function buildCitations(
+  supabase: SupabaseClient,
+  sources: CitableSource[],
+  answer: string
+): Promise<Citation[]> {
+  const cited = new Set(extractCitedIndices(answer));
+  const citedSources = sources.filter(source => cited.has(source.index));
+
+  if (citedSources.length === 0) {
+    return [];
+  }
+
+  const documentIds = citedSources.filter(s => s.type === 'document').map(s => s.id);
+  const imageIds = citedSources.filter(s => s.type === 'image').map(s => s.id);
+  const urls = new Map<string, string>();
+
+  if (documentIds.length > 0) {
+    const { data } = await supabase
+      .from('project_documents')
+      .select('id, file_url')
+      .in('id', documentIds);
+    data?.forEach(doc => urls.set(doc.id, doc.file_url));
+  }
+
+  if (imageIds.length > 0) {
+    const { data } = await supabase
+      .from('image_summaries')
+      .select('id, image_url')
+      .in('id', imageIds);
+    data?.forEach(image => urls.set(image.id, image.image_url));
+  }
+
+  return citedSources.map(source => ({
+    index: source.index,
+    type: source.type,
+    id: source.id,
+    title: source.title,
+    ...(source.page ? { page: source.page } : {}),
+    ...(urls.has(source.id) ? { url: urls.get(source.id) } : {}),
+  }));
+}
@@ -0,0 +1,141 @@
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import type { Citation } from './citations.ts';
+
+// How many previous turns are sent back to the model with each question
+export const MAX_HISTORY_MESSAGES = 20;
+
+const MAX_TITLE_LENGTH = 60;
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export class ConversationAccessError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ConversationAccessError';
+  }
+}
+
+// Derive a thread title from the first question
+export function titleFromMessage(message: string): string {
+  const singleLine = message.replace(/\s+/g, ' ').trim();
+  if (singleLine.length <= MAX_TITLE_LENGTH) {
+    return singleLine || 'New conversation';
+  }
+  return singleLine.substring(0, MAX_TITLE_LENGTH - 3).trimEnd() + '...';
+}
+
+// Return the conversation to continue. Only the user who started a thread
+// can post to it, even when it is shared.
+export async function getConversation(
+  supabase: SupabaseClient,
+  conversationId: string,
+  projectId: string,
+  userId: string
+): Promise<{ id: string; title: string; isNew: boolean }> {
+  const { data, error } = await supabase
+    .from('chat_conversations')
+    .select('id, title, project_id, user_id')
+    .eq('id', conversationId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!data || data.project_id !== projectId) {
+    throw new ConversationAccessError('Conversation not found', 404);
+  }
+
+  if (data.user_id !== userId) {
+    throw new ConversationAccessError('You can only continue your own conversations', 403);
+  }
+
+  return { id: data.id, title: data.title, isNew: false };
+}
+
+// Start a thread titled after its first question
+export async function createConversation(
+  supabase: SupabaseClient,
+  projectId: string,
+  userId: string,
+  firstMessage: string
+): Promise<{ id: string; title: string; isNew: boolean }> {
+  const { data, error } = await supabase
+    .from('chat_conversations')
+    .insert({
+      project_id: projectId,
+      user_id: userId,
+      title: titleFromMessage(firstMessage),
+    })
+    .select('id, title')
+    .single();
+
+  if (error) throw error;
+
+  return { id: data.id, title: data.title, isNew: true };
+}
+
+// Remove a thread that was started for a question that got no answer, so
+// failed calls do not leave empty threads behind
+export async function discardConversation(
+  supabase: SupabaseClient,
+  conversation: { id: string; isNew: boolean }
+): Promise<void> {
+  if (!conversation.isNew) return;
+
+  const { error } = await supabase
+    .from('chat_conversations')
+    .delete()
+    .eq('id', conversation.id);
+
+  if (error) {
+    console.error('Error discarding empty conversation:', error);
+  }
+}
+
+// Load the most recent turns of a conversation, oldest first
+export async function loadConversationHistory(
+  supabase: SupabaseClient,
+  conversationId: string,
+  limit = MAX_HISTORY_MESSAGES
+): Promise<ChatTurn[]> {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select('role, content')
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return (data || []).reverse() as ChatTurn[];
+}
+
+// Store a question and its answer, and bump the conversation to the top of the list
+export async function saveExchange(
+  supabase: SupabaseClient,
+  conversationId: string,
+  question: string,
+  answer: string,
+  citations: Citation[] = []
+): Promise<void> {
+  const askedAt = new Date();
+  // Keep the answer strictly after the question so ordering by created_at is stable
+  const answeredAt = new Date(askedAt.getTime() + 1);
+
+  const { error: insertError } = await supabase.from('chat_messages').insert([
+    { conversation_id: conversationId, role: 'user', content: question, created_at: askedAt.toISOString() },
+    { conversation_id: conversationId, role: 'assistant', content: answer, citations, created_at: answeredAt.toISOString() },
+  ]);
+
+  if (insertError) throw insertError;
+
+  const { error: updateError } = await supabase
+    .from('chat_conversations')
+    .update({ updated_at: answeredAt.toISOString() })
+    .eq('id', conversationId);
+
+  if (updateError) throw updateError;
+}
@@ -2,11 +2,36 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { getEmbeddingProvider } from "../_shared/embeddings.ts";
+import { ensureProjectQueued, processIndexQueue, retrieveRelevantChunks } from "../_shared/contentIndex.ts";
+import {
+  ConversationAccessError,
+  createConversation,
+  discardConversation,
+  getConversation,
+  loadConversationHistory,
+  saveExchange
+} from "./conversations.ts";
+import { buildCitations, groupChunksIntoSources } from "./citations.ts";
+import { createSSEResponse, streamCompletion } from "../_shared/streaming.ts";
+import { CompletionRequest, getModelProvider, resolveModelType } from "../_shared/models.ts";
+import { authenticateRequest, authErrorResponse, requireProjectAccess, resolveActingUserId } from "../_shared/auth.ts";
+import { meterEmbeddings, meterUsage } from "../_shared/usage.ts";
+import { enforceQuota, quotaErrorResponse } from "../_shared/quotas.ts";
 
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
 const supabaseUrl = Deno.env.get('SUPABASE_URL');
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
+// Number of retrieved chunks included in the prompt (~1500 chars each)
+const MAX_CONTEXT_CHUNKS = 8;
+
+const SOURCE_LABELS = {
+  note: 'Note',
+  document: 'Document',
+  update: 'Update',
+  image: 'Image',
+};
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
@@ -18,41 +43,20 @@ serve(async (req) => {
   }
 
   try {
-    const { projectId, message, userId, description, aiPersona } = await req.json();
-    
-    console.log(`Processing chat request for project: ${projectId}`);
-    
     // Initialize Supabase client
     const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+    const caller = await authenticateRequest(supabase, req);
     
-    // Check if user can make this API call
-    const { data: usageData, error: usageError } = await supabase.functions.invoke('track-usage', {
-      body: { 
-        userId: userId,
-        action: 'log_api_call'
-      }
-    });
+    const { projectId, message, userId: requestedUserId, conversationId, description, aiPersona, model, stream = false } = await req.json();
     
-    if (usageError) {
-      console.error('Error checking API usage:', usageError);
-      return new Response(
-        JSON.stringify({ error: 'Failed to verify API usage limits' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    console.log(`Processing chat request for project: ${projectId}`);
     
-    // Check if the user has reached their limit
-    if (usageData.limitReached && !usageData.canMakeCall) {
-      console.log(`User ${userId} has reached their daily API limit`);
-      return new Response(
-        JSON.stringify({ 
-          error: 'Daily API limit reached',
-          limitReached: true,
-          dailyApiCalls: usageData.dailyApiCalls
-        }),
-        { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    // The chat reads the whole brain, so the caller must be able to see it
+    const userId = resolveActingUserId(caller, requestedUserId);
+    await requireProjectAccess(supabase, caller, projectId, 'viewer');
+    
+    // Refuse before anything streams once the month's calls are used up; the call itself is metered once it ends
+    await enforceQuota(supabase, userId, 'api_calls');
     
     // Verify project exists and get the latest data
     const { data: projectData, error: projectError } = await supabase
@@ -69,30 +73,68 @@ serve(async (req) => {
       );
     }
     
-    // Fetch project context
-    const { data: notes } = await supabase
-      .from('project_notes')
-      .select('content, title, tags, is_favorite, is_important, is_archived')
-      .eq('project_id', projectId)
-      .order('is_favorite', { ascending: false })
-      .order('is_important', { ascending: false });
-
-    const { data: imageSummaries } = await supabase
-      .from('image_summaries')
-      .select('summary, is_favorite, is_important, is_archived')
-      .eq('project_id', projectId);
+    // Resolve the thread this message continues and its previous turns. A new
+    // thread is only created right before the model is called.
+    let conversation = null;
+    let history = [];
+    try {
+      if (conversationId) {
+        conversation = await getConversation(supabase, conversationId, projectId, userId);
+        history = await loadConversationHistory(supabase, conversation.id);
+      }
+    } catch (conversationError) {
+      if (conversationError instanceof ConversationAccessError) {
+        return new Response(
+          JSON.stringify({ error: conversationError.message }),
+          { status: conversationError.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      throw conversationError;
+    }
+    
+    console.log(`Using ${conversation ? `conversation ${conversation.id}` : 'a new conversation'} with ${history.length} previous messages`);
+    
+    // Make sure the brain is indexed and pick up anything edited since the last run
+    const embeddingProvider = getEmbeddingProvider();
+    await ensureProjectQueued(supabase, projectId);
+    
+    try {
+      const indexResult = await processIndexQueue(
+        supabase,
+        meterEmbeddings(embeddingProvider, supabase, { actingUserId: userId, projectId, feature: 'indexing' }),
+        { projectId, limit: 25 }
+      );
+      if (indexResult.indexed > 0 || indexResult.failed > 0) {
+        console.log(`Indexed ${indexResult.indexed} pending items (${indexResult.failed} failed)`);
+      }
+    } catch (indexError) {
+      // Answer from the existing index rather than failing the chat
+      console.error('Error processing content index queue:', indexError);
+    }
     
-    const { data: documents } = await supabase
-      .from('project_documents')
-      .select('file_name, content_text, is_favorite, is_important, is_archived')
-      .eq('project_id', projectId);
+    // Retrieve the chunks most relevant to the question. Follow-ups like "and the second one?"
+    // carry little meaning on their own, so the previous question is included in the search.
+    const previousQuestion = [...history].reverse().find(turn => turn.role === 'user')?.content;
+    const retrievalQuery = previousQuestion ? `${previousQuestion}\n${message}` : message;
+    
+    const relevantChunks = await retrieveRelevantChunks(
+      supabase,
+      meterEmbeddings(embeddingProvider, supabase, { actingUserId: userId, projectId, feature: 'chat' }),
+      projectId,
+      retrievalQuery,
+      MAX_CONTEXT_CHUNKS
+    );
+    
+    const sources = groupChunksIntoSources(relevantChunks);
+    
+    console.log(`Retrieved ${relevantChunks.length} relevant chunks from ${sources.length} sources`);
     
     const { data: updatesData } = await supabase
       .from('project_updates')
       .select('content, created_at, user_id, is_important, is_archived')
       .eq('project_id', projectId)
       .order('created_at', { ascending: false })
-      .limit(10);
+      .limit(5);
 
     // Process updates if they exist
     let updatesWithUserNames = [];
@@ -127,38 +169,19 @@ serve(async (req) => {
     Project Description:
     ${projectData.description || 'No project description available.'}
     
-    Project Notes:
-    ${notes?.map(note => {
-      const metadata = [];
-      if (note.is_favorite) metadata.push('FAVORITE');
-      if (note.is_important) metadata.push('IMPORTANT');
-      if (note.is_archived) metadata.push('ARCHIVED');
-      
-      const metadataStr = metadata.length > 0 ? ` [${metadata.join(', ')}]` : '';
-      return `Title: ${note.title}${metadataStr}\nContent: ${note.content}\nTags: ${note.tags?.join(', ') || 'No tags'}`;
-    }).join('\n\n') || 'No notes available.'}
-    
-    Image Analysis:
-    ${imageSummaries?.map(img => {
+    Sources (most relevant first):
+    ${sources.map(source => {
+      const flags = source.chunks[0].metadata;
       const metadata = [];
-      if (img.is_favorite) metadata.push('FAVORITE');
-      if (img.is_important) metadata.push('IMPORTANT');
-      if (img.is_archived) metadata.push('ARCHIVED');
+      if (flags.is_favorite) metadata.push('FAVORITE');
+      if (flags.is_important) metadata.push('IMPORTANT');
+      if (flags.is_archived) metadata.push('ARCHIVED');
       
       const metadataStr = metadata.length > 0 ? ` [${metadata.join(', ')}]` : '';
-      return `${img.summary}${metadataStr}`;
-    }).join('\n') || 'No image summaries available.'}
-    
-    Project Documents:
-    ${documents?.map(doc => {
-      const metadata = [];
-      if (doc.is_favorite) metadata.push('FAVORITE');
-      if (doc.is_important) metadata.push('IMPORTANT');
-      if (doc.is_archived) metadata.push('ARCHIVED');
-      
-      const metadataStr = metadata.length > 0 ? ` [${metadata.join(', ')}]` : '';
-      return `Document: ${doc.file_name}${metadataStr}\nContent: ${doc.content_text?.substring(0, 500)}${doc.content_text?.length > 500 ? '...' : ''}`;
-    }).join('\n\n') || 'No documents available.'}
+      const pageStr = source.page ? `, page ${source.page}` : '';
+      const excerpts = source.chunks.map(chunk => chunk.content).join('\n...\n');
+      return `[${source.index}] ${SOURCE_LABELS[source.type]}: ${source.title}${pageStr}${metadataStr}\n${excerpts}`;
+    }).join('\n\n---\n\n') || 'No matching notes, documents, images or updates found.'}
     
     Recent Updates:
     ${updatesWithUserNames.map(update => {
@@ -176,12 +199,12 @@ serve(async (req) => {
     const systemMessage = `You are a Project Management Officer (PMO) assistant who helps discuss and analyze projects. 
     You are currently working on the project: "${projectData.title}".
     
-    Use the following context about the project's notes, images, documents and updates to inform your responses:
+    Use the following context to inform your responses. The numbered sources were retrieved from the project's notes, images, documents and updates because they relate to the user's question:
     
     ${projectContext}
     
     When discussing the project:
-    1. Reference specific notes, images, documents or updates when relevant
+    1. Cite the sources you rely on with their number in square brackets, e.g. [1] or [2, 3], right after the claim. Only cite numbers listed in the sources above
     2. Pay special attention to items marked as FAVORITE or IMPORTANT - these are critical project materials
     3. Be aware of ARCHIVED items but don't focus on them unless explicitly asked
     4. Provide actionable insights and suggestions
@@ -189,41 +212,99 @@ serve(async (req) => {
     6. Be concise but informative
     7. ONLY discuss the current project, do not mention other projects like "Hotel booking funnel optimization" unless it's actually this project`;
 
-    // Use OpenAI API
-    console.log('Selected model: openai');
-    const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: systemMessage
-          },
-          {
-            role: 'user',
-            content: message
-          }
-        ],
-        temperature: 0.7,
-      }),
-    });
+    const chatRequest: CompletionRequest = {
+      system: systemMessage,
+      messages: [
+        ...history,
+        {
+          role: 'user',
+          content: message
+        }
+      ],
+      temperature: 0.7
+    };
+
+    // The thread is removed again if the model gives no answer
+    conversation ??= await createConversation(supabase, projectId, userId, message);
+
+    // Citations are resolved from whatever was generated, so a cancelled stream keeps its sources
+    const finishExchange = async (answer: string) => {
+      const citations = await buildCitations(supabase, sources, answer);
 
-    if (!openaiResponse.ok) {
-      throw new Error(`OpenAI API error: ${openaiResponse.statusText}`);
+      try {
+        await saveExchange(supabase, conversation.id, message, answer, citations);
+      } catch (saveError) {
+        // The user still gets the answer; it just won't be in the thread history
+        console.error('Error saving conversation messages:', saveError);
+      }
+
+      return citations;
+    };
+
+    const modelType = resolveModelType(model, projectData.default_model, 'openai');
+    const provider = meterUsage(getModelProvider(modelType), supabase, { actingUserId: userId, projectId, feature: 'chat' });
+    console.log(`Selected model: ${modelType}${stream ? ' (streaming)' : ''}`);
+
+    if (stream) {
+      return createSSEResponse(corsHeaders, async (writer) => {
+        writer.send('start', {
+          conversationId: conversation.id,
+          conversationTitle: conversation.title
+        });
+
+        let completion;
+        try {
+          completion = await streamCompletion(provider, chatRequest, writer);
+        } catch (streamError) {
+          await discardConversation(supabase, conversation);
+          throw streamError;
+        }
+
+        const { text, cancelled } = completion;
+        if (!text) {
+          await discardConversation(supabase, conversation);
+          return;
+        }
+
+        const citations = await finishExchange(text);
+        if (cancelled) {
+          console.log(`Stream cancelled by the client after ${text.length} characters`);
+          return;
+        }
+
+        writer.send('done', {
+          response: text,
+          citations,
+          conversationId: conversation.id,
+          conversationTitle: conversation.title
+        });
+      });
     }
 
-    const openaiData = await openaiResponse.json();
-    const aiResponse = openaiData.choices[0].message.content;
+    let aiResponse: string;
+    try {
+      ({ text: aiResponse } = await provider.complete(chatRequest));
+    } catch (completionError) {
+      await discardConversation(supabase, conversation);
+      throw completionError;
+    }
+
+    const citations = await finishExchange(aiResponse);
 
-    return new Response(JSON.stringify({ response: aiResponse }), {
+    return new Response(JSON.stringify({ 
+      response: aiResponse,
+      citations,
+      conversationId: conversation.id,
+      conversationTitle: conversation.title
+    }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   } catch (error) {
+    const authResponse = authErrorResponse(error, corsHeaders);
+    if (authResponse) return authResponse;
+    const quotaResponse = quotaErrorResponse(error, corsHeaders);
+    if (quotaResponse) return quotaResponse;
+
     console.error('Error in project-chat function:', error);
     return new Response(JSON.stringify({ error: error.message }), {
       status: 500,
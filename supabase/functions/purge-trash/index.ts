@@ -0,0 +1,108 @@
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { AuthError, authenticateRequest, authErrorResponse, requireProjectAccess } from "../_shared/auth.ts";
+import { purgeExpiredTrash, purgeOrphanedFiles, purgeTrashItem, TrashItemType } from "../_shared/trash.ts";
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const ITEM_TABLES: Record<Exclude<TrashItemType, 'project'>, string> = {
+  note: 'project_notes',
+  document: 'project_documents',
+  image: 'project_images',
+};
+
+// Permanently deletes what is in the trash. Called by the client with
+// { itemType, itemId } for "Delete forever", and daily by pg_cron without a body
+// to purge everything older than the retention window along with image files
+// no row points to (service role only).
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    let body: { itemType?: TrashItemType; itemId?: string } = {};
+    try {
+      body = await req.json();
+    } catch (_e) {
+      // Scheduled invocations send no body
+    }
+
+    const { itemType, itemId } = body;
+
+    const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+    const caller = await authenticateRequest(supabase, req);
+
+    if (!itemType && !itemId) {
+      if (!caller.isServiceRole) {
+        throw new AuthError('Only the scheduler can purge the whole trash', 403);
+      }
+
+      const result = await purgeExpiredTrash(supabase);
+      const { filesRemoved } = await purgeOrphanedFiles(supabase);
+      console.log(`Purged ${result.purged} trashed items, ${result.failed} failed, ${filesRemoved} orphaned files`);
+
+      return new Response(
+        JSON.stringify({ success: true, ...result, orphanedFilesRemoved: filesRemoved }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!itemId || !(itemType === 'project' || itemType in ITEM_TABLES)) {
+      return new Response(
+        JSON.stringify({ error: 'itemType and itemId are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (itemType === 'project') {
+      // Trashed brains give nobody a role, so check ownership directly
+      const { data: project, error } = await supabase
+        .from('projects')
+        .select('owner_id, deleted_at')
+        .eq('id', itemId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!project || !project.deleted_at) throw new AuthError('Brain not found in the trash', 404);
+      if (!caller.isServiceRole && project.owner_id !== caller.userId) {
+        throw new AuthError('Only the owner can delete this brain', 403);
+      }
+    } else {
+      const { data: item, error } = await supabase
+        .from(ITEM_TABLES[itemType])
+        .select('project_id, deleted_at')
+        .eq('id', itemId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!item || !item.deleted_at) throw new AuthError(`${itemType} not found in the trash`, 404);
+
+      await requireProjectAccess(supabase, caller, item.project_id, 'editor');
+    }
+
+    const { filesRemoved } = await purgeTrashItem(supabase, itemType, itemId);
+    console.log(`Purged ${itemType} ${itemId} and ${filesRemoved} files`);
+
+    return new Response(
+      JSON.stringify({ success: true, filesRemoved }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    const authResponse = authErrorResponse(error, corsHeaders);
+    if (authResponse) return authResponse;
+
+    console.error('Error in purge-trash function:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Unknown error occurred' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
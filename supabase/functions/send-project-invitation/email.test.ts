@@ -0,0 +1,32 @@
+
+import { describe, it, expect } from 'vitest';
+import { renderInvitationEmail } from './email.ts';
+
+const invitation = {
+  to: 'new.user@example.com',
+  projectTitle: 'Q4 <Launch>',
+  inviterName: 'Sam Lee',
+  role: 'editor',
+  acceptUrl: 'https://app.test/accept-invite?token=abc123',
+  expiresAt: '2026-10-26T09:00:00.000Z',
+};
+
+describe('renderInvitationEmail', () => {
+  it('includes the accept link, role and expiry in the text body', () => {
+    const email = renderInvitationEmail(invitation);
+
+    expect(email.to).toBe('new.user@example.com');
+    expect(email.subject).toBe('Sam Lee invited you to "Q4 <Launch>" on Bra3n');
+    expect(email.text).toContain('as an editor');
+    expect(email.text).toContain('Accept the invitation: https://app.test/accept-invite?token=abc123');
+    expect(email.text).toContain('Mon, 26 Oct 2026 09:00:00 GMT');
+  });
+
+  it('escapes user-provided values in the HTML body', () => {
+    const email = renderInvitationEmail({ ...invitation, inviterName: null, role: 'viewer' });
+
+    expect(email.html).toContain('Q4 &lt;Launch&gt;');
+    expect(email.html).toContain('A teammate invited you');
+    expect(email.html).toContain('as a viewer');
+  });
+});
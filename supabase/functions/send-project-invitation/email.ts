@@ -0,0 +1,55 @@
+import { escapeHtml, MailMessage } from '../_shared/mail.ts';
+
+export interface InvitationEmail {
+  to: string;
+  projectTitle: string;
+  inviterName: string | null;
+  role: string;
+  acceptUrl: string;
+  expiresAt: string;
+}
+
+const ROLE_DESCRIPTIONS: Record<string, string> = {
+  admin: 'manage members and settings',
+  editor: 'add and edit notes, documents and images',
+  viewer: 'read and chat with its content',
+};
+
+export function renderInvitationEmail({
+  to,
+  projectTitle,
+  inviterName,
+  role,
+  acceptUrl,
+  expiresAt,
+}: InvitationEmail): MailMessage {
+  const inviter = inviterName || 'A teammate';
+  const expires = new Date(expiresAt).toUTCString();
+  const canDo = ROLE_DESCRIPTIONS[role] || 'collaborate on it';
+  const asRole = `${/^[aeiou]/i.test(role) ? 'an' : 'a'} ${role}`;
+
+  const text = [
+    `${inviter} invited you to join the brain "${projectTitle}" on Bra3n as ${asRole}.`,
+    `You will be able to ${canDo}.`,
+    '',
+    `Accept the invitation: ${acceptUrl}`,
+    '',
+    `If you don't have an account yet, you can create one with this email address from the same link.`,
+    `The invitation expires on ${expires}.`,
+  ].join('\n');
+
+  const html = `
+    <p>${escapeHtml(inviter)} invited you to join the brain <strong>${escapeHtml(projectTitle)}</strong> on Bra3n as ${escapeHtml(asRole)}.</p>
+    <p>You will be able to ${escapeHtml(canDo)}.</p>
+    <p><a href="${escapeHtml(acceptUrl)}">Accept the invitation</a></p>
+    <p>If you don't have an account yet, you can create one with this email address from the same link.
+    The invitation expires on ${escapeHtml(expires)}.</p>
+  `.trim();
+
+  return {
+    to,
+    subject: `${inviter} invited you to "${projectTitle}" on Bra3n`,
+    text,
+    html,
+  };
+}
@@ -0,0 +1,166 @@
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { AuthError, authenticateRequest, authErrorResponse, requireProjectAccess } from "../_shared/auth.ts";
+import { getMailTransport } from "../_shared/mail.ts";
+import { renderInvitationEmail } from "./email.ts";
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+// Where the accept link points. Required: the request's Origin is chosen by
+// the caller and must not decide where invitees send their token.
+const siteUrl = Deno.env.get('SITE_URL');
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const INVITATION_ROLES = ['admin', 'editor', 'viewer'];
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const jsonResponse = (body: unknown, status = 200) => new Response(
+  JSON.stringify(body),
+  { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+);
+
+// Creates an invitation for { projectId, email, role } or resends { invitationId }.
+// Resending keeps the link but restarts the expiry.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (!siteUrl) {
+      throw new Error('SITE_URL is not configured');
+    }
+
+    const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+    const caller = await authenticateRequest(supabase, req);
+
+    const { projectId, email, role = 'viewer', invitationId } = await req.json();
+    const expiresAt = new Date(Date.now() + INVITATION_TTL_MS).toISOString();
+
+    let invitation;
+
+    if (invitationId) {
+      const { data: existing, error: existingError } = await supabase
+        .from('project_invitations')
+        .select('id, project_id, status')
+        .eq('id', invitationId)
+        .maybeSingle();
+
+      if (existingError) throw existingError;
+      if (!existing) throw new AuthError('Invitation not found', 404);
+
+      await requireProjectAccess(supabase, caller, existing.project_id, 'admin');
+
+      if (existing.status !== 'pending') {
+        return jsonResponse({ error: `This invitation has already been ${existing.status}` }, 400);
+      }
+
+      const { data, error } = await supabase
+        .from('project_invitations')
+        .update({ expires_at: expiresAt })
+        .eq('id', invitationId)
+        .select('*')
+        .single();
+
+      if (error) throw error;
+      invitation = data;
+    } else {
+      const normalizedEmail = typeof email === 'string' ? email.trim().toLowerCase() : '';
+
+      if (!EMAIL_PATTERN.test(normalizedEmail)) {
+        return jsonResponse({ error: 'A valid email address is required' }, 400);
+      }
+      if (!INVITATION_ROLES.includes(role)) {
+        return jsonResponse({ error: `Role must be one of ${INVITATION_ROLES.join(', ')}` }, 400);
+      }
+
+      await requireProjectAccess(supabase, caller, projectId, 'admin');
+
+      // Inviting the same address again refreshes the open invitation instead of adding another
+      const { data: pending, error: pendingError } = await supabase
+        .from('project_invitations')
+        .select('id')
+        .eq('project_id', projectId)
+        .eq('status', 'pending')
+        .eq('email', normalizedEmail)
+        .maybeSingle();
+
+      if (pendingError) throw pendingError;
+
+      const { data, error } = pending
+        ? await supabase
+            .from('project_invitations')
+            .update({ role, expires_at: expiresAt, invited_by: caller.userId })
+            .eq('id', pending.id)
+            .select('*')
+            .single()
+        : await supabase
+            .from('project_invitations')
+            .insert({
+              project_id: projectId,
+              email: normalizedEmail,
+              role,
+              expires_at: expiresAt,
+              invited_by: caller.userId,
+            })
+            .select('*')
+            .single();
+
+      if (error) throw error;
+      invitation = data;
+    }
+
+    const [{ data: project }, { data: inviter }] = await Promise.all([
+      supabase.from('projects').select('title').eq('id', invitation.project_id).single(),
+      invitation.invited_by
+        ? supabase.from('profiles').select('full_name').eq('id', invitation.invited_by).maybeSingle()
+        : Promise.resolve({ data: null }),
+    ]);
+
+    const acceptUrl = `${siteUrl.replace(/\/+$/, '')}/accept-invite?token=${encodeURIComponent(invitation.token)}`;
+
+    const transport = getMailTransport();
+    await transport.send(renderInvitationEmail({
+      to: invitation.email,
+      projectTitle: project?.title || 'Untitled brain',
+      inviterName: inviter?.full_name || null,
+      role: invitation.role,
+      acceptUrl,
+      expiresAt: invitation.expires_at,
+    }));
+
+    const { error: sentError } = await supabase
+      .from('project_invitations')
+      .update({ last_sent_at: new Date().toISOString() })
+      .eq('id', invitation.id);
+
+    if (sentError) {
+      console.error('Error recording invitation send time:', sentError);
+    }
+
+    console.log(`Sent invitation ${invitation.id} for project ${invitation.project_id} via ${transport.name}`);
+
+    return jsonResponse({
+      success: true,
+      invitation: {
+        id: invitation.id,
+        email: invitation.email,
+        role: invitation.role,
+        status: invitation.status,
+        expires_at: invitation.expires_at,
+      },
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error, corsHeaders);
+    if (authResponse) return authResponse;
+
+    console.error('Error in send-project-invitation function:', error);
+    return jsonResponse({ error: error.message || 'Unknown error occurred' }, error.status || 500);
+  }
+});
@@ -1,6 +1,7 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.25.0";
+import { AuthError, authenticateRequest, authErrorResponse } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -24,6 +25,12 @@ serve(async (req) => {
     // Create a Supabase admin client with the service role key
     const adminClient = createClient(supabaseUrl, supabaseServiceKey);
     
+    // Rewrites the subscription tiers for everyone, so only trusted server calls may run it
+    const caller = await authenticateRequest(adminClient, req, supabaseServiceKey);
+    if (!caller.isServiceRole) {
+      throw new AuthError('Only the service role can set up subscription tables', 403);
+    }
+    
     // Execute a quick query to verify our tables exist
     const { data: tierData, error: tierError } = await adminClient
       .from('subscription_tiers')
@@ -90,10 +97,11 @@ serve(async (req) => {
         max_api_calls: 9999, // Effectively unlimited API calls
         max_brains: 2, // Changed from 3 to 2
         max_documents: 9999, // Effectively unlimited documents
+        max_storage_bytes: 1024 * 1024 * 1024, // 1 GB of documents and images
         features: [
           'Create up to 2 brains', // Updated to reflect the new limit
           'Unlimited AI API calls', 
-          'Document uploads', 
+          'Document uploads with 1 GB of storage', 
           'Image analysis'
         ],
         is_default: true
@@ -110,10 +118,13 @@ serve(async (req) => {
         max_api_calls: 9999, // Effectively unlimited API calls
         max_brains: 9999,   // Effectively unlimited brains
         max_documents: 9999, // Effectively unlimited documents
+        max_storage_bytes: 50 * 1024 * 1024 * 1024, // 50 GB of documents and images
         features: [
           'Unlimited brains',
+          '50 GB of storage',
           'Unlimited API calls',
           'Share brains with team members',
+          'Team workspaces billed per seat',
           'Advanced AI features',
           'Priority support',
           'Early access to new features'
@@ -130,6 +141,9 @@ serve(async (req) => {
     );
     
   } catch (error) {
+    const authResponse = authErrorResponse(error, corsHeaders);
+    if (authResponse) return authResponse;
+
     console.error('Error setting up subscription tables:', error);
     
     return new Response(
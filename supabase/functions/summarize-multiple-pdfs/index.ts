@@ -1,9 +1,14 @@
 
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { getModelProvider, getProjectDefaultModel, ModelProvider, resolveModelType } from "../_shared/models.ts";
+import { authenticateRequest, authErrorResponse, requireProjectAccess, resolveActingUserId } from "../_shared/auth.ts";
+import { meterUsage } from "../_shared/usage.ts";
+import { enforceQuota, quotaErrorResponse } from "../_shared/quotas.ts";
 
-const anthropicApiKey = Deno.env.get('ANTHROPIC_API_KEY');
-const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -17,7 +22,10 @@ serve(async (req) => {
   }
 
   try {
-    const { pdfUrls, fileNames, projectId, userId, model = 'claude' } = await req.json();
+    const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+    const caller = await authenticateRequest(supabase, req);
+    
+    const { pdfUrls, fileNames, projectId, userId, model } = await req.json();
     
     if (!pdfUrls || !Array.isArray(pdfUrls) || pdfUrls.length === 0) {
       return new Response(
@@ -33,26 +41,18 @@ serve(async (req) => {
       );
     }
     
-    if (!userId) {
-      return new Response(
-        JSON.stringify({ error: 'User ID is required' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    // The summaries are saved into the brain, so read-only members cannot run them
+    const actingUserId = resolveActingUserId(caller, userId);
+    await requireProjectAccess(supabase, caller, projectId, 'editor');
     
-    if (model === 'claude' && !anthropicApiKey) {
-      return new Response(
-        JSON.stringify({ error: 'ANTHROPIC_API_KEY is not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-    
-    if (model === 'openai' && !openaiApiKey) {
-      return new Response(
-        JSON.stringify({ error: 'OPENAI_API_KEY is not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    const modelType = resolveModelType(model, await getProjectDefaultModel(supabase, projectId), 'claude');
+    await enforceQuota(supabase, actingUserId, 'api_calls', pdfUrls.length);
+    const provider = meterUsage(getModelProvider(modelType), supabase, {
+      actingUserId,
+      projectId,
+      feature: 'summary'
+    });
+    console.log(`Summarizing ${pdfUrls.length} PDFs with ${modelType}`);
     
     // Process each PDF in sequence, but send one response
     const results = [];
@@ -71,7 +71,7 @@ serve(async (req) => {
       
       // Create promises for the current batch
       for (let i = startIdx; i < endIdx; i++) {
-        batchPromises.push(processPdf(pdfUrls[i], fileNames[i], model));
+        batchPromises.push(processPdf(pdfUrls[i], fileNames[i], provider));
       }
       
       // Process the batch concurrently
@@ -119,6 +119,11 @@ serve(async (req) => {
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   } catch (error) {
+    const authResponse = authErrorResponse(error, corsHeaders);
+    if (authResponse) return authResponse;
+    const quotaResponse = quotaErrorResponse(error, corsHeaders);
+    if (quotaResponse) return quotaResponse;
+
     console.error('Error in summarize-multiple-pdfs function:', error);
     return new Response(
       JSON.stringify({ 
@@ -131,100 +136,30 @@ serve(async (req) => {
   }
 });
 
-async function processPdf(pdfUrl: string, fileName: string, model: string): Promise<string> {
+async function processPdf(pdfUrl: string, fileName: string, provider: ModelProvider): Promise<string> {
   try {
     console.log(`Processing PDF: ${fileName}`);
     
-    let apiResponse;
-    let summary;
-    
-    // Call the appropriate AI API based on the model parameter
-    if (model === 'claude') {
-      // Call Claude API
-      apiResponse = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': anthropicApiKey,
-          'anthropic-version': '2023-06-01'
-        },
-        body: JSON.stringify({
-          model: "claude-3-haiku-20240307",
-          max_tokens: 1500,
-          messages: [
-            {
-              role: "user",
-              content: [
-                {
-                  type: "text",
-                  text: `Please provide a comprehensive summary of this PDF document (${pdfUrl}). 
-                  
-                  Include the following in your summary:
-                  1. The main purpose and key points of the document
-                  2. Important facts, figures, and findings
-                  3. Any conclusions or recommendations
-                  
-                  Format your response in a clear, structured way using paragraphs, bullet points, and headings as appropriate.`
-                }
-              ]
-            }
-          ]
-        })
-      });
-      
-      if (!apiResponse.ok) {
-        const errorText = await apiResponse.text();
-        throw new Error(`Claude API error: ${apiResponse.status} - ${errorText}`);
-      }
-      
-      const data = await apiResponse.json();
-      if (!data.content || !data.content[0] || !data.content[0].text) {
-        throw new Error('Invalid response format from Claude API');
-      }
-      
-      summary = data.content[0].text;
-    } else {
-      // Call OpenAI API
-      apiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${openaiApiKey}`
-        },
-        body: JSON.stringify({
-          model: "gpt-4o-mini",
-          messages: [
-            {
-              role: "system",
-              content: "You are a helpful assistant that provides comprehensive summaries of PDF documents."
-            },
-            {
-              role: "user",
-              content: `Please provide a comprehensive summary of this PDF document (${pdfUrl}). 
-              
-              Include the following in your summary:
-              1. The main purpose and key points of the document
-              2. Important facts, figures, and findings
-              3. Any conclusions or recommendations
-              
-              Format your response in a clear, structured way using paragraphs, bullet points, and headings as appropriate.`
-            }
-          ]
-        })
-      });
-      
-      if (!apiResponse.ok) {
-        const errorText = await apiResponse.text();
-        throw new Error(`OpenAI API error: ${apiResponse.status} - ${errorText}`);
-      }
-      
-      const data = await apiResponse.json();
-      if (!data.choices || !data.choices[0] || !data.choices[0].message || !data.choices[0].message.content) {
-        throw new Error('Invalid response format from OpenAI API');
-      }
-      
-      summary = data.choices[0].message.content;
-    }
+    const { text: summary } = await provider.complete({
+      tier: 'fast',
+      maxTokens: 1500,
+      system: provider.type === 'openai'
+        ? "You are a helpful assistant that provides comprehensive summaries of PDF documents."
+        : undefined,
+      messages: [
+        {
+          role: "user",
+          content: `Please provide a comprehensive summary of this PDF document (${pdfUrl}). 
+          
+          Include the following in your summary:
+          1. The main purpose and key points of the document
+          2. Important facts, figures, and findings
+          3. Any conclusions or recommendations
+          
+          Format your response in a clear, structured way using paragraphs, bullet points, and headings as appropriate.`
+        }
+      ]
+    });
     
     return summary;
   } catch (error) {
@@ -1,8 +1,19 @@
 
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { createSSEResponse, streamCompletion } from "../_shared/streaming.ts";
+import { meterUsage } from "../_shared/usage.ts";
+import { enforceQuota, quotaErrorResponse } from "../_shared/quotas.ts";
+import { CompletionRequest, getModelProvider, getProjectDefaultModel, resolveModelType } from "../_shared/models.ts";
+import { authenticateRequest, authErrorResponse, requireProjectAccess } from "../_shared/auth.ts";
+import { loadDocumentText } from "../_shared/documentText.ts";
 
-const anthropicApiKey = Deno.env.get('ANTHROPIC_API_KEY');
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+// Characters of stored document text sent to the model
+const MAX_DOCUMENT_TEXT_LENGTH = 75000;
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -16,87 +27,89 @@ serve(async (req) => {
   }
 
   try {
-    const { pdfUrl, fileName, projectId } = await req.json();
+    const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+    const caller = await authenticateRequest(supabase, req);
+    
+    const requestBody = await req.json();
+    const { pdfUrl, fileName, documentId, model, stream = false } = requestBody;
+    let { projectId } = requestBody;
     
-    if (!pdfUrl) {
+    if (!pdfUrl && !documentId) {
       return new Response(
-        JSON.stringify({ error: 'PDF URL is required' }),
+        JSON.stringify({ error: 'PDF URL or document is required' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
     
-    if (!anthropicApiKey) {
-      return new Response(
-        JSON.stringify({ error: 'ANTHROPIC_API_KEY is not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+    // Summarize the stored text when the document has been extracted
+    const storedDocument = documentId ? await loadDocumentText(supabase, documentId) : null;
+    if (storedDocument) {
+      projectId = storedDocument.projectId;
     }
     
+    if (projectId) {
+      await requireProjectAccess(supabase, caller, projectId, 'viewer');
+    }
+    
+    const documentSource = storedDocument
+      ? `The document content is:
+                
+                ${storedDocument.text.substring(0, MAX_DOCUMENT_TEXT_LENGTH)}${storedDocument.text.length > MAX_DOCUMENT_TEXT_LENGTH ? '\n\n[The document has been truncated.]' : ''}`
+      : `The PDF URL is: ${pdfUrl}`;
+    
+    const modelType = resolveModelType(model, await getProjectDefaultModel(supabase, projectId), 'claude');
+    await enforceQuota(supabase, caller.userId, 'api_calls');
+    const provider = meterUsage(getModelProvider(modelType), supabase, {
+      actingUserId: caller.userId,
+      projectId,
+      feature: 'summary'
+    });
+    
     console.log(`Summarizing PDF: ${fileName}`);
-    console.log(`PDF URL: ${pdfUrl}`);
+    console.log(storedDocument ? `Using stored text of document ${documentId}` : `PDF URL: ${pdfUrl}`);
+    console.log(`Using model: ${modelType}`);
     
-    // Call Claude API with improved error handling
-    try {
-      console.log("Calling Claude API...");
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': anthropicApiKey,
-          'anthropic-version': '2023-06-01'
-        },
-        body: JSON.stringify({
-          model: "claude-3-7-sonnet-20250219",
-          max_tokens: 1500,
-          messages: [
-            {
-              role: "user",
-              content: [
-                {
-                  type: "text",
-                  text: `You are an expert BCG consultant analyzing the PDF document "${fileName}".
-                  
-                  The PDF URL is: ${pdfUrl}
-                  
-                  Create a comprehensive analysis of this document with the following sections:
-                  
-                  1. Executive Summary: A brief 2-3 sentence overview highlighting the core strategic message and business implications
-                  2. Description: A clear explanation of the content and its business context without unnecessary details
-                  3. Key Learning Points: The critical strategic insights from the document, presented as focused bullet points
-                  4. Warnings: Any potential risks, challenges, or red flags that should be considered (if relevant, otherwise omit this section)
-                  5. Next Steps: Recommended actions and strategic priorities based on this information (if relevant, otherwise omit this section)
-                  
-                  FORMAT YOUR SUMMARY AS CLEAN MARKDOWN with these exact section headings. Maintain a professional, consulting tone throughout.
-                  
-                  Be concise, data-driven, and focus on actionable insights with a strategic perspective. If you cannot properly access or read the PDF, clearly state this issue rather than generating an inaccurate summary.`
-                }
-              ]
-            }
-          ]
-        })
+    const summaryRequest: CompletionRequest = {
+      maxTokens: 1500,
+      messages: [
+        {
+          role: 'user',
+          content: `You are an expert BCG consultant analyzing the PDF document "${fileName}".
+                
+                ${documentSource}
+                
+                Create a comprehensive analysis of this document with the following sections:
+                
+                1. Executive Summary: A brief 2-3 sentence overview highlighting the core strategic message and business implications
+                2. Description: A clear explanation of the content and its business context without unnecessary details
+                3. Key Learning Points: The critical strategic insights from the document, presented as focused bullet points
+                4. Warnings: Any potential risks, challenges, or red flags that should be considered (if relevant, otherwise omit this section)
+                5. Next Steps: Recommended actions and strategic priorities based on this information (if relevant, otherwise omit this section)
+                
+                FORMAT YOUR SUMMARY AS CLEAN MARKDOWN with these exact section headings. Maintain a professional, consulting tone throughout.
+                
+                Be concise, data-driven, and focus on actionable insights with a strategic perspective. If you cannot properly access or read the PDF, clearly state this issue rather than generating an inaccurate summary.`
+        }
+      ]
+    };
+    
+    if (stream) {
+      console.log("Streaming summary...");
+      return createSSEResponse(corsHeaders, async (writer) => {
+        const { text, cancelled } = await streamCompletion(provider, summaryRequest, writer);
+        
+        if (cancelled) {
+          console.log(`Summary stream cancelled by the client after ${text.length} characters`);
+          return;
+        }
+        
+        writer.send('done', { success: true, summary: text });
       });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`Claude API error: ${response.status}`, errorText);
-        return new Response(
-          JSON.stringify({ error: `Claude API error: ${response.status}. Details: ${errorText}` }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      
-      const data = await response.json();
-      console.log("Claude API response received:", JSON.stringify(data).slice(0, 200) + "...");
-      
-      if (!data.content || !data.content[0] || !data.content[0].text) {
-        console.error('Invalid response from Claude API:', data);
-        return new Response(
-          JSON.stringify({ error: 'Invalid response format from Claude API' }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      
-      const summary = data.content[0].text;
+    }
+    
+    try {
+      console.log("Calling model API...");
+      const { text: summary } = await provider.complete(summaryRequest);
       
       console.log("Summary generated successfully");
       
@@ -108,10 +121,10 @@ serve(async (req) => {
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     } catch (apiError) {
-      console.error('Error calling Claude API:', apiError);
+      console.error('Error calling model API:', apiError);
       return new Response(
         JSON.stringify({ 
-          error: `Error calling Claude API: ${apiError.message || 'Unknown API error'}`,
+          error: `Error calling model API: ${apiError.message || 'Unknown API error'}`,
           details: apiError.stack || ''
         }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -119,6 +132,11 @@ serve(async (req) => {
     }
     
   } catch (error) {
+    const authResponse = authErrorResponse(error, corsHeaders);
+    if (authResponse) return authResponse;
+    const quotaResponse = quotaErrorResponse(error, corsHeaders);
+    if (quotaResponse) return quotaResponse;
+
     console.error('Error in summarize-pdf function:', error);
     return new Response(
       JSON.stringify({ 
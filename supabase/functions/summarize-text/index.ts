@@ -1,9 +1,21 @@
 
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
-const claudeApiKey = Deno.env.get('CLAUDE_API_KEY');
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import {
+  getModelProvider,
+  getProjectDefaultModel,
+  ModelProvider,
+  ModelProviderError,
+  ModelType,
+  resolveModelType
+} from "../_shared/models.ts";
+import { authenticateRequest, authErrorResponse, requireProjectAccess } from "../_shared/auth.ts";
+import { meterUsage } from "../_shared/usage.ts";
+import { enforceQuota, quotaErrorResponse } from "../_shared/quotas.ts";
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -17,18 +29,30 @@ serve(async (req) => {
   }
 
   try {
-    const { text, model = 'claude', maxLength = 1500, title, projectId, systemPrompt } = await req.json();
+    const supabase = createClient(supabaseUrl!, supabaseServiceKey!);
+    const caller = await authenticateRequest(supabase, req);
+    
+    const { text, model, maxLength = 1500, title, projectId, systemPrompt } = await req.json();
 
     if (!text || text.trim().length === 0) {
       throw new Error('No text provided for summarization');
     }
 
-    console.log(`Summarizing text with ${model}. Length: ${text.length} characters`);
+    if (projectId) {
+      await requireProjectAccess(supabase, caller, projectId, 'viewer');
+    }
+    
+    await enforceQuota(supabase, caller.userId, 'api_calls');
+    const provider = meterUsage(
+      selectProvider(resolveModelType(model, await getProjectDefaultModel(supabase, projectId), 'claude')),
+      supabase,
+      { actingUserId: caller.userId, projectId, feature: 'summary' }
+    );
+
+    console.log(`Summarizing text with ${provider.type}. Length: ${text.length} characters`);
     console.log(`Using title: ${title || 'No title provided'}`);
     console.log(`Project ID: ${projectId || 'No project ID provided'}`);
     
-    let summary;
-    
     // Define the BCG consultant prompt
     const bcgConsultantPrompt = `You are an expert BCG consultant summarizing business documents in a structured format.
 Be concise, data-driven, and focus on actionable insights with a strategic perspective.
@@ -46,26 +70,35 @@ FORMAT YOUR SUMMARY AS CLEAN MARKDOWN with these exact section headings. Maintai
     // Use the provided system prompt if available, otherwise use our BCG consultant prompt
     const promptToUse = systemPrompt || bcgConsultantPrompt;
     
-    if (model === 'claude' && claudeApiKey) {
-      summary = await summarizeWithClaude(text, maxLength, title, promptToUse);
-    } else if (openAIApiKey) {
-      summary = await summarizeWithOpenAI(text, maxLength, title, promptToUse);
-    } else {
-      throw new Error('No API key available for the selected model');
-    }
+    console.log(`Calling ${provider.type} API...`);
+    const completion = await provider.complete({
+      system: promptToUse,
+      messages: [
+        {
+          role: 'user',
+          content: `Please summarize the following ${title ? 'document titled "' + title + '"' : 'text'}:\n\n${text.slice(0, 100000)}`
+        }
+      ],
+      maxTokens: maxLength
+    });
 
     // Format summary text - ensure it has proper markdown formatting
-    summary = formatSummaryText(summary);
+    const summary = formatSummaryText(completion.text);
 
     return new Response(
       JSON.stringify({
         success: true,
         summary,
-        model: model === 'claude' && claudeApiKey ? 'claude' : 'openai',
+        model: provider.type,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   } catch (error) {
+    const authResponse = authErrorResponse(error, corsHeaders);
+    if (authResponse) return authResponse;
+    const quotaResponse = quotaErrorResponse(error, corsHeaders);
+    if (quotaResponse) return quotaResponse;
+
     console.error('Error in summarize-text function:', error);
     return new Response(
       JSON.stringify({
@@ -105,83 +138,14 @@ function formatSummaryText(text) {
   return formatted.trim();
 }
 
-async function summarizeWithClaude(text: string, maxLength: number, title?: string, systemPrompt?: string): Promise<string> {
-  try {
-    console.log("Calling Claude API...");
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': claudeApiKey!,
-        'anthropic-version': '2023-06-01'
-      },
-      body: JSON.stringify({
-        model: 'claude-3-sonnet-20240229',
-        max_tokens: maxLength,
-        messages: [
-          {
-            role: 'user',
-            content: `${systemPrompt}
-
-Here's the ${title ? 'document titled "' + title + '"' : 'text'} to summarize:
-
-${text.slice(0, 100000)}`
-          }
-        ]
-      })
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Claude API error:', response.status, errorText);
-      throw new Error(`Claude API error: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    console.log("Claude response received successfully");
-    return data.content[0].text;
-  } catch (error) {
-    console.error("Error in Claude summarization:", error);
-    throw error;
-  }
-}
-
-async function summarizeWithOpenAI(text: string, maxLength: number, title?: string, systemPrompt?: string): Promise<string> {
+// Claude has always been optional for this function, so a missing Anthropic
+// key falls back to OpenAI instead of failing the request
+function selectProvider(modelType: ModelType): ModelProvider {
   try {
-    console.log("Calling OpenAI API...");
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt
-          },
-          {
-            role: 'user',
-            content: `Please summarize the following ${title ? 'document titled "' + title + '"' : 'text'}:\n\n${text.slice(0, 100000)}`
-          }
-        ],
-        max_tokens: maxLength
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('OpenAI API error:', response.status, errorText);
-      throw new Error(`OpenAI API error: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    console.log("OpenAI response received successfully");
-    return data.choices[0].message.content;
+    return getModelProvider(modelType);
   } catch (error) {
-    console.error("Error in OpenAI summarization:", error);
-    throw error;
+    if (!(error instanceof ModelProviderError) || modelType !== 'claude') throw error;
+    console.warn(`${error.message}, falling back to OpenAI`);
+    return getModelProvider('openai');
   }
 }
@@ -1,6 +1,9 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.25.0";
+import { authenticateRequest, authErrorResponse, resolveActingUserId } from "../_shared/auth.ts";
+import { API_CALL_ACTIONS } from "../_shared/usage.ts";
+import { getQuotas } from "../_shared/quotas.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -19,6 +22,7 @@ serve(async (req) => {
     
     // Create a Supabase admin client with the service role key
     const adminClient = createClient(supabaseUrl, supabaseServiceKey);
+    const caller = await authenticateRequest(adminClient, req);
     
     // First, enable real-time for the user_usage_stats table if not already enabled
     try {
@@ -43,88 +47,14 @@ serve(async (req) => {
       body = await req.json();
     } catch (e) {
       console.error('Error parsing request body:', e);
-      body = { action: null, userId: null };
+      body = { userId: null };
     }
     
-    const { action, userId } = body || {};
+    const { userId } = body || {};
     
-    // If no userId is provided, try to extract from the request header
-    let userIdToUse = userId;
-    if (!userIdToUse) {
-      try {
-        // Create a client using the request's authorization to extract the user
-        const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY') || '';
-        const clientWithAuth = createClient(
-          supabaseUrl,
-          supabaseAnonKey,
-          {
-            global: {
-              headers: { Authorization: req.headers.get('Authorization')! },
-            },
-          }
-        );
-        
-        const { data: { user }, error: authError } = await clientWithAuth.auth.getUser();
-        
-        if (authError || !user) {
-          console.error('Authentication error:', authError);
-          // Return empty/mock data for unauthenticated requests
-          return new Response(
-            JSON.stringify({ 
-              apiCalls: 0,
-              dailyApiCalls: 0,
-              status: "unauthenticated",
-              message: "Please log in to see your usage statistics"
-            }),
-            { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 200 }
-          );
-        }
-        
-        userIdToUse = user.id;
-      } catch (error) {
-        console.error('Error extracting user from token:', error);
-        // Return empty data if auth fails
-        return new Response(
-          JSON.stringify({ 
-            apiCalls: 0,
-            dailyApiCalls: 0,
-            status: "error",
-            message: "Failed to authenticate user"
-          }),
-          { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 200 }
-        );
-      }
-    }
-    
-    if (!userIdToUse) {
-      return new Response(
-        JSON.stringify({ 
-          apiCalls: 0,
-          dailyApiCalls: 0,
-          status: "error",
-          message: "User ID is required"
-        }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 200 }
-      );
-    }
-
-    // Log the API call if requested 
-    if (action === 'log_api_call') {
-      try {
-        const { error: logError } = await adminClient.from('user_usage_stats').insert({
-          user_id: userIdToUse,
-          action_type: 'openai_api_call',
-        });
-
-        if (logError) {
-          console.error('Error logging API call:', logError);
-          // Continue execution to still return statistics even if logging fails
-        }
-      } catch (error) {
-        console.error('Error inserting API call record:', error);
-        // Continue execution to still return statistics
-      }
-    }
+    // Other functions check a user's usage with the service role; users only see their own.
+    // Calls are recorded by the functions themselves once they end (see _shared/usage.ts).
+    const userIdToUse = resolveActingUserId(caller, userId);
 
     // Get user usage statistics - using admin client
     const now = new Date();
@@ -138,7 +68,7 @@ serve(async (req) => {
         .from('user_usage_stats')
         .select('*', { count: 'exact', head: true })
         .eq('user_id', userIdToUse)
-        .eq('action_type', 'openai_api_call')
+        .in('action_type', API_CALL_ACTIONS)
         .gte('created_at', firstDayOfMonth.toISOString());
       
       if (!apiError) {
@@ -157,7 +87,7 @@ serve(async (req) => {
         .from('user_usage_stats')
         .select('*', { count: 'exact', head: true })
         .eq('user_id', userIdToUse)
-        .eq('action_type', 'openai_api_call')
+        .in('action_type', API_CALL_ACTIONS)
         .gte('created_at', startOfDay.toISOString());
       
       if (!dailyApiError) {
@@ -169,16 +99,32 @@ serve(async (req) => {
       console.error('Error in daily API call count query:', error);
     }
     
+    // The monthly limit of the user's plan, or their admin override
+    let apiCallLimit: number | null = null;
+    try {
+      const quotas = await getQuotas(adminClient, userIdToUse);
+      apiCallLimit = quotas.find(quota => quota.quota === 'api_calls')?.limit ?? null;
+    } catch (error) {
+      console.error('Error fetching quotas:', error);
+    }
+    
+    const limitReached = apiCallLimit !== null && apiCallCount >= apiCallLimit;
+    
     return new Response(
       JSON.stringify({ 
         apiCalls: apiCallCount,
         dailyApiCalls: dailyApiCallCount,
+        apiCallLimit,
         status: "success",
-        canMakeCall: true
+        limitReached,
+        canMakeCall: !limitReached
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
+    const authResponse = authErrorResponse(error, corsHeaders);
+    if (authResponse) return authResponse;
+
     console.error('Error in edge function:', error);
     return new Response(
       JSON.stringify({ 
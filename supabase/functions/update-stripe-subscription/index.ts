@@ -0,0 +1,107 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import Stripe from 'https://esm.sh/stripe@12.4.0';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { authenticateRequest, authErrorResponse, resolveActingUserId } from '../_shared/auth.ts';
+import { applySubscription, BillingTarget, StripeSubscription } from '../_shared/stripeBilling.ts';
+import { requireWorkspaceRole } from '../_shared/workspaces.ts';
+
+// Cancels a subscription at the end of its period, or resumes one that is
+// set to cancel. The result is mirrored right away so the billing section
+// shows it; the webhook confirms it shortly after.
+
+const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY') || '';
+const stripe = new Stripe(stripeSecretKey, {
+  apiVersion: '2023-10-16',
+});
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+        status: 405,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') || '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+    );
+    const caller = await authenticateRequest(supabase, req);
+
+    const { action, workspaceId } = await req.json();
+    if (action !== 'cancel' && action !== 'resume') {
+      return new Response(JSON.stringify({ error: 'action must be "cancel" or "resume"' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Workspace subscriptions belong to its admins; everyone else changes their own
+    let target: BillingTarget;
+    let subscriptionId: string | null;
+    if (workspaceId) {
+      await requireWorkspaceRole(supabase, caller, workspaceId, 'admin');
+      target = { kind: 'workspace', workspaceId };
+
+      const { data, error } = await supabase
+        .from('workspaces')
+        .select('subscription_id')
+        .eq('id', workspaceId)
+        .maybeSingle();
+      if (error) throw error;
+      subscriptionId = data?.subscription_id ?? null;
+    } else {
+      const userId = resolveActingUserId(caller);
+      target = { kind: 'user', userId };
+
+      const { data, error } = await supabase
+        .from('user_subscriptions')
+        .select('subscription_id')
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (error) throw error;
+      subscriptionId = data?.subscription_id ?? null;
+    }
+
+    if (!subscriptionId) {
+      return new Response(JSON.stringify({ error: 'There is no subscription to change' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const subscription = await stripe.subscriptions.update(subscriptionId, {
+      cancel_at_period_end: action === 'cancel',
+    });
+    await applySubscription(supabase, target, subscription as unknown as StripeSubscription);
+
+    console.log(`${action === 'cancel' ? 'Cancelled' : 'Resumed'} subscription ${subscriptionId}`);
+    return new Response(JSON.stringify({
+      cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      currentPeriodEnd: new Date(subscription.current_period_end * 1000).toISOString(),
+    }), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error, corsHeaders);
+    if (authResponse) return authResponse;
+
+    console.error('Error updating subscription:', error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -1,6 +1,9 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.25.0";
+import { authenticateRequest, authErrorResponse, resolveActingUserId } from "../_shared/auth.ts";
+import { API_CALL_ACTIONS, summarizeUsage, UsageBucket, UsageSummary } from "../_shared/usage.ts";
+import { getQuotas, QuotaStatus } from "../_shared/quotas.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -19,6 +22,7 @@ serve(async (req) => {
     
     // Create a Supabase admin client with the service role key
     const adminClient = createClient(supabaseUrl, supabaseServiceKey);
+    const caller = await authenticateRequest(adminClient, req);
     
     // Parse the request body safely
     let body;
@@ -29,57 +33,8 @@ serve(async (req) => {
       body = { userId: null };
     }
     
-    // Get userId from request body or auth header
-    let userId = body?.userId;
-    if (!userId) {
-      try {
-        // Create a client using the request's authorization to extract the user
-        const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY') || '';
-        const clientWithAuth = createClient(
-          supabaseUrl,
-          supabaseAnonKey,
-          {
-            global: {
-              headers: { Authorization: req.headers.get('Authorization')! },
-            },
-          }
-        );
-        
-        const { data: { user }, error: authError } = await clientWithAuth.auth.getUser();
-        
-        if (authError || !user) {
-          console.error('Authentication error:', authError);
-          return new Response(
-            JSON.stringify({ 
-              status: "error",
-              message: "Authentication failed"
-            }),
-            { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 401 }
-          );
-        }
-        
-        userId = user.id;
-      } catch (error) {
-        console.error('Error extracting user from token:', error);
-        return new Response(
-          JSON.stringify({ 
-            status: "error",
-            message: "Failed to authenticate user"
-          }),
-          { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 401 }
-        );
-      }
-    }
-    
-    if (!userId) {
-      return new Response(
-        JSON.stringify({ 
-          status: "error",
-          message: "User ID is required"
-        }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 400 }
-      );
-    }
+    // Users only see their own statistics
+    const userId = resolveActingUserId(caller, body?.userId);
 
     // Get statistics
     const now = new Date();
@@ -93,7 +48,7 @@ serve(async (req) => {
         .from('user_usage_stats')
         .select('*', { count: 'exact', head: true })
         .eq('user_id', userId)
-        .eq('action_type', 'openai_api_call')
+        .in('action_type', API_CALL_ACTIONS)
         .gte('created_at', firstDayOfMonth.toISOString());
       
       if (!apiError) {
@@ -112,7 +67,7 @@ serve(async (req) => {
         .from('user_usage_stats')
         .select('*', { count: 'exact', head: true })
         .eq('user_id', userId)
-        .eq('action_type', 'openai_api_call')
+        .in('action_type', API_CALL_ACTIONS)
         .gte('created_at', startOfDay.toISOString());
       
       if (!dailyApiError) {
@@ -186,6 +141,45 @@ serve(async (req) => {
       console.error('Error in documents count query:', error);
     }
     
+    // 5. Get tokens and cost for the current month by feature, brain and day
+    let usage: UsageSummary | null = null;
+    try {
+      const { data: buckets, error: usageError } = await adminClient.rpc('get_usage_breakdown', {
+        p_user_id: userId,
+        p_since: firstDayOfMonth.toISOString()
+      });
+      
+      if (usageError) throw usageError;
+      
+      const brainIds = [...new Set((buckets as UsageBucket[] || []).map(bucket => bucket.project_id).filter(Boolean))];
+      const projectNames: Record<string, string> = {};
+      if (brainIds.length > 0) {
+        const { data: projects, error: namesError } = await adminClient
+          .from('projects')
+          .select('id, title')
+          .in('id', brainIds);
+        
+        if (namesError) {
+          console.error('Error fetching brain names:', namesError);
+        }
+        (projects || []).forEach(project => {
+          projectNames[project.id] = project.title;
+        });
+      }
+      
+      usage = summarizeUsage(buckets || [], { since: firstDayOfMonth, now, projectNames });
+    } catch (error) {
+      console.error('Error in usage breakdown query:', error);
+    }
+    
+    // 6. Get the plan's limits, which the server enforces, with what is used of each
+    let quotas: QuotaStatus[] = [];
+    try {
+      quotas = await getQuotas(adminClient, userId);
+    } catch (error) {
+      console.error('Error in quotas query:', error);
+    }
+    
     return new Response(
       JSON.stringify({ 
         apiCalls: apiCallCount,
@@ -193,11 +187,16 @@ serve(async (req) => {
         ownedBrains: ownedProjectsCount,
         sharedBrains: sharedProjectsCount,
         documents: documentsCount,
+        usage,
+        quotas,
         status: "success"
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
+    const authResponse = authErrorResponse(error, corsHeaders);
+    if (authResponse) return authResponse;
+
     console.error('Error in user-statistics function:', error);
     return new Response(
       JSON.stringify({ 
@@ -0,0 +1,186 @@
+-- Retrieval index for project chat: notes, documents, updates and image summaries
+-- are split into chunks and embedded so project-chat can fetch the relevant
+-- passages for each question instead of stuffing everything into the prompt.
+
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS public.content_chunks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    source_type TEXT NOT NULL CHECK (source_type IN ('note', 'document', 'update', 'image')),
+    source_id UUID NOT NULL,
+    chunk_index INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    -- Title, page number and flags of the source item at indexing time
+    metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+    embedding extensions.vector(1536) NOT NULL,
+    embedding_model TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (source_type, source_id, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS content_chunks_project_id_idx
+    ON public.content_chunks (project_id, embedding_model);
+
+CREATE INDEX IF NOT EXISTS content_chunks_embedding_idx
+    ON public.content_chunks USING hnsw (embedding extensions.vector_cosine_ops);
+
+-- Items waiting to be (re)indexed. Rows are added by triggers whenever a
+-- source is created or edited and consumed by the index-project-content function.
+CREATE TABLE IF NOT EXISTS public.content_index_queue (
+    source_type TEXT NOT NULL CHECK (source_type IN ('note', 'document', 'update', 'image')),
+    source_id UUID NOT NULL,
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    queued_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (source_type, source_id)
+);
+
+CREATE INDEX IF NOT EXISTS content_index_queue_project_id_idx
+    ON public.content_index_queue (project_id, queued_at);
+
+ALTER TABLE public.content_chunks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.content_index_queue ENABLE ROW LEVEL SECURITY;
+
+-- Chunks are written by edge functions with the service role; members can only read them
+CREATE POLICY "Project members can read content chunks"
+ON public.content_chunks FOR SELECT
+USING (
+    EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.owner_id = auth.uid())
+    OR public.is_project_member(project_id, auth.uid())
+);
+
+-- Queue a source for (re)indexing, or drop its chunks when it is deleted
+CREATE OR REPLACE FUNCTION public.queue_content_indexing()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_source_type TEXT := TG_ARGV[0];
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        DELETE FROM public.content_chunks
+        WHERE source_type = v_source_type AND source_id = OLD.id;
+
+        DELETE FROM public.content_index_queue
+        WHERE source_type = v_source_type AND source_id = OLD.id;
+
+        RETURN OLD;
+    END IF;
+
+    IF NEW.project_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO public.content_index_queue (source_type, source_id, project_id)
+    VALUES (v_source_type, NEW.id, NEW.project_id)
+    ON CONFLICT (source_type, source_id)
+    DO UPDATE SET queued_at = now(), attempts = 0, last_error = NULL;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS project_notes_content_index ON public.project_notes;
+CREATE TRIGGER project_notes_content_index
+AFTER INSERT OR DELETE OR UPDATE OF title, content, tags, is_favorite, is_important, is_archived
+ON public.project_notes
+FOR EACH ROW EXECUTE FUNCTION public.queue_content_indexing('note');
+
+DROP TRIGGER IF EXISTS project_documents_content_index ON public.project_documents;
+CREATE TRIGGER project_documents_content_index
+AFTER INSERT OR DELETE OR UPDATE OF file_name, content_text, is_favorite, is_important, is_archived
+ON public.project_documents
+FOR EACH ROW EXECUTE FUNCTION public.queue_content_indexing('document');
+
+DROP TRIGGER IF EXISTS project_updates_content_index ON public.project_updates;
+CREATE TRIGGER project_updates_content_index
+AFTER INSERT OR DELETE OR UPDATE OF content, tags, is_important, is_archived
+ON public.project_updates
+FOR EACH ROW EXECUTE FUNCTION public.queue_content_indexing('update');
+
+DROP TRIGGER IF EXISTS image_summaries_content_index ON public.image_summaries;
+CREATE TRIGGER image_summaries_content_index
+AFTER INSERT OR DELETE OR UPDATE OF summary, is_favorite, is_important, is_archived
+ON public.image_summaries
+FOR EACH ROW EXECUTE FUNCTION public.queue_content_indexing('image');
+
+-- Queue every item of a project, used to backfill brains created before indexing existed
+CREATE OR REPLACE FUNCTION public.queue_project_content_indexing(p_project_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    INSERT INTO public.content_index_queue (source_type, source_id, project_id)
+    SELECT 'note', id, project_id FROM public.project_notes WHERE project_id = p_project_id
+    UNION ALL
+    SELECT 'document', id, project_id FROM public.project_documents WHERE project_id = p_project_id
+    UNION ALL
+    SELECT 'update', id, project_id FROM public.project_updates WHERE project_id = p_project_id
+    UNION ALL
+    SELECT 'image', id, project_id FROM public.image_summaries WHERE project_id = p_project_id
+    ON CONFLICT (source_type, source_id)
+    DO UPDATE SET queued_at = now(), attempts = 0, last_error = NULL;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+-- Reindexing spends embedding calls; only index-project-content queues it,
+-- after checking that the caller can edit the brain
+REVOKE ALL ON FUNCTION public.queue_project_content_indexing(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.queue_project_content_indexing(UUID) TO service_role;
+
+-- Top-k chunks of a project by cosine similarity to the query embedding.
+-- The HNSW index is shared by every project and the project filter is applied
+-- to what it returns, so a plain scan can come back short for a small brain.
+-- Iterative scans (pgvector 0.8) keep walking the index until enough rows pass the filter;
+-- relaxed order lets them do so cheaply, so the rows are sorted again at the end.
+CREATE OR REPLACE FUNCTION public.match_content_chunks(
+    p_project_id UUID,
+    p_query_embedding extensions.vector(1536),
+    p_embedding_model TEXT,
+    p_match_count INTEGER DEFAULT 8
+)
+RETURNS TABLE (
+    id UUID,
+    source_type TEXT,
+    source_id UUID,
+    chunk_index INTEGER,
+    content TEXT,
+    metadata JSONB,
+    similarity FLOAT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+SET hnsw.ef_search = 100
+SET hnsw.iterative_scan = relaxed_order
+AS $$
+    WITH matches AS MATERIALIZED (
+        SELECT
+            c.id,
+            c.source_type,
+            c.source_id,
+            c.chunk_index,
+            c.content,
+            c.metadata,
+            c.embedding <=> p_query_embedding AS distance
+        FROM public.content_chunks c
+        WHERE c.project_id = p_project_id
+          AND c.embedding_model = p_embedding_model
+        ORDER BY c.embedding <=> p_query_embedding
+        LIMIT p_match_count
+    )
+    SELECT id, source_type, source_id, chunk_index, content, metadata, 1 - distance AS similarity
+    FROM matches
+    ORDER BY distance;
+$$;
@@ -0,0 +1,82 @@
+-- Persistent brain chat: one conversation per thread, owned by the user who
+-- started it. Owners can share a thread with the other members of the brain.
+
+CREATE TABLE IF NOT EXISTS public.chat_conversations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    title TEXT NOT NULL DEFAULT 'New conversation',
+    is_shared BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS chat_conversations_project_user_idx
+    ON public.chat_conversations (project_id, user_id, updated_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.chat_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    conversation_id UUID NOT NULL REFERENCES public.chat_conversations(id) ON DELETE CASCADE,
+    role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+    content TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS chat_messages_conversation_idx
+    ON public.chat_messages (conversation_id, created_at);
+
+ALTER TABLE public.chat_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_messages ENABLE ROW LEVEL SECURITY;
+
+-- Whether the current user can access a project as owner or member
+CREATE OR REPLACE FUNCTION public.can_access_project(p_project_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (SELECT 1 FROM public.projects WHERE id = p_project_id AND owner_id = auth.uid())
+        OR public.is_project_member(p_project_id, auth.uid());
+$$;
+
+CREATE POLICY "Users can read their own and shared conversations"
+ON public.chat_conversations FOR SELECT
+USING (
+    user_id = auth.uid()
+    OR (is_shared AND public.can_access_project(project_id))
+);
+
+CREATE POLICY "Users can start conversations in their projects"
+ON public.chat_conversations FOR INSERT
+WITH CHECK (user_id = auth.uid() AND public.can_access_project(project_id));
+
+-- A thread stays in a brain its owner can access
+CREATE POLICY "Users can update their own conversations"
+ON public.chat_conversations FOR UPDATE
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid() AND public.can_access_project(project_id));
+
+CREATE POLICY "Users can delete their own conversations"
+ON public.chat_conversations FOR DELETE
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can read messages of visible conversations"
+ON public.chat_messages FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM public.chat_conversations c
+        WHERE c.id = conversation_id
+          AND (c.user_id = auth.uid() OR (c.is_shared AND public.can_access_project(c.project_id)))
+    )
+);
+
+-- Messages are written by the project-chat function; users can only remove their own
+CREATE POLICY "Users can delete messages of their own conversations"
+ON public.chat_messages FOR DELETE
+USING (
+    EXISTS (
+        SELECT 1 FROM public.chat_conversations c
+        WHERE c.id = conversation_id AND c.user_id = auth.uid()
+    )
+);
@@ -0,0 +1,3 @@
+-- Sources cited by an assistant answer: [{ index, type, id, title, page?, url? }]
+ALTER TABLE public.chat_messages
+    ADD COLUMN IF NOT EXISTS citations JSONB NOT NULL DEFAULT '[]'::jsonb;
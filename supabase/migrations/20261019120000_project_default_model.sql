@@ -0,0 +1,4 @@
+-- Default AI model for each brain. NULL keeps each feature's own default.
+ALTER TABLE public.projects
+    ADD COLUMN IF NOT EXISTS default_model TEXT
+    CHECK (default_model IN ('claude', 'openai'));
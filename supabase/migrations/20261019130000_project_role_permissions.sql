@@ -0,0 +1,177 @@
+-- Role-based permissions for brain members.
+--
+--   viewer  read everything in the brain and chat with it
+--   editor  also create, edit and delete notes, documents, images and updates
+--   admin   also manage members, edit the brain settings and archive it
+--   owner   also permanently delete the brain
+--
+-- The same matrix is mirrored in src/utils/permissions.ts for the UI and in
+-- supabase/functions/_shared/auth.ts for the edge functions.
+
+-- Rows written before roles were enforced used 'member' for regular collaborators
+UPDATE public.project_members SET role = 'editor' WHERE role NOT IN ('admin', 'editor', 'viewer');
+
+ALTER TABLE public.project_members
+    DROP CONSTRAINT IF EXISTS project_members_role_check;
+ALTER TABLE public.project_members
+    ADD CONSTRAINT project_members_role_check CHECK (role IN ('admin', 'editor', 'viewer'));
+
+-- The current user's role in a project, or NULL when they cannot access it
+CREATE OR REPLACE FUNCTION public.project_role(p_project_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN EXISTS (SELECT 1 FROM public.projects WHERE id = p_project_id AND owner_id = auth.uid()) THEN 'owner'
+        ELSE (SELECT role FROM public.project_members WHERE project_id = p_project_id AND user_id = auth.uid() LIMIT 1)
+    END;
+$$;
+
+-- Whether the current user has at least p_minimum_role in a project
+CREATE OR REPLACE FUNCTION public.has_project_role(p_project_id UUID, p_minimum_role TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(
+        array_position(ARRAY['viewer', 'editor', 'admin', 'owner'], public.project_role(p_project_id))
+            >= array_position(ARRAY['viewer', 'editor', 'admin', 'owner'], p_minimum_role),
+        false
+    );
+$$;
+
+-- Replace the earlier owner/member policies on every table covered by the matrix
+DO $$
+DECLARE
+    policy RECORD;
+BEGIN
+    FOR policy IN
+        SELECT policyname, tablename FROM pg_policies
+        WHERE schemaname = 'public'
+          AND tablename IN (
+              'projects', 'project_members', 'project_notes', 'project_documents',
+              'project_updates', 'image_summaries', 'image_tags', 'note_summaries'
+          )
+    LOOP
+        EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', policy.policyname, policy.tablename);
+    END LOOP;
+END $$;
+
+ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.project_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.project_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.project_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.project_updates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.image_summaries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.image_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.note_summaries ENABLE ROW LEVEL SECURITY;
+
+-- Brains
+
+CREATE POLICY "Members can read their brains"
+ON public.projects FOR SELECT
+USING (owner_id = auth.uid() OR public.can_access_project(id));
+
+CREATE POLICY "Users can create their own brains"
+ON public.projects FOR INSERT
+WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Admins can edit brain settings"
+ON public.projects FOR UPDATE
+USING (public.has_project_role(id, 'admin'))
+WITH CHECK (public.has_project_role(id, 'admin'));
+
+-- Admins edit the settings, not who owns the brain: ownership decides who can
+-- delete it for good and remove members, so owner_id is not writable by users
+REVOKE UPDATE ON public.projects FROM authenticated;
+GRANT UPDATE (title, description, ai_persona, default_model, is_archived, is_favorite, updated_at)
+    ON public.projects TO authenticated;
+
+CREATE POLICY "Owners can delete their brains"
+ON public.projects FOR DELETE
+USING (owner_id = auth.uid());
+
+-- Members
+
+CREATE POLICY "Members can see who else is in the brain"
+ON public.project_members FOR SELECT
+USING (public.can_access_project(project_id));
+
+CREATE POLICY "Admins can add members"
+ON public.project_members FOR INSERT
+WITH CHECK (public.has_project_role(project_id, 'admin'));
+
+CREATE POLICY "Admins can change member roles"
+ON public.project_members FOR UPDATE
+USING (public.has_project_role(project_id, 'admin'))
+WITH CHECK (public.has_project_role(project_id, 'admin'));
+
+CREATE POLICY "Admins can remove members and members can leave"
+ON public.project_members FOR DELETE
+USING (user_id = auth.uid() OR public.has_project_role(project_id, 'admin'));
+
+-- Content: everyone in the brain reads it, editors and above change it
+
+DO $$
+DECLARE
+    content_table TEXT;
+BEGIN
+    FOREACH content_table IN ARRAY ARRAY[
+        'project_notes', 'project_documents', 'project_updates', 'image_tags', 'note_summaries'
+    ]
+    LOOP
+        EXECUTE format(
+            'CREATE POLICY "Members can read brain content" ON public.%I FOR SELECT
+             USING (public.can_access_project(project_id))',
+            content_table
+        );
+        EXECUTE format(
+            'CREATE POLICY "Editors can add brain content" ON public.%I FOR INSERT
+             WITH CHECK (user_id = auth.uid() AND public.has_project_role(project_id, ''editor''))',
+            content_table
+        );
+        EXECUTE format(
+            'CREATE POLICY "Editors can edit brain content" ON public.%I FOR UPDATE
+             USING (public.has_project_role(project_id, ''editor''))
+             WITH CHECK (public.has_project_role(project_id, ''editor''))',
+            content_table
+        );
+        EXECUTE format(
+            'CREATE POLICY "Editors can delete brain content" ON public.%I FOR DELETE
+             USING (public.has_project_role(project_id, ''editor''))',
+            content_table
+        );
+    END LOOP;
+END $$;
+
+-- Image summaries may predate brains, in which case only their author can see them
+
+CREATE POLICY "Members can read image summaries"
+ON public.image_summaries FOR SELECT
+USING (user_id = auth.uid() OR (project_id IS NOT NULL AND public.can_access_project(project_id)));
+
+CREATE POLICY "Editors can add image summaries"
+ON public.image_summaries FOR INSERT
+WITH CHECK (
+    user_id = auth.uid()
+    AND (project_id IS NULL OR public.has_project_role(project_id, 'editor'))
+);
+
+CREATE POLICY "Editors can edit image summaries"
+ON public.image_summaries FOR UPDATE
+USING (
+    (project_id IS NULL AND user_id = auth.uid())
+    OR (project_id IS NOT NULL AND public.has_project_role(project_id, 'editor'))
+);
+
+CREATE POLICY "Editors can delete image summaries"
+ON public.image_summaries FOR DELETE
+USING (
+    (project_id IS NULL AND user_id = auth.uid())
+    OR (project_id IS NOT NULL AND public.has_project_role(project_id, 'editor'))
+);
@@ -0,0 +1,127 @@
+-- Email invitations to a brain for people who may not have an account yet.
+-- The send-project-invitation function creates them and emails a link with
+-- the token; the invitee accepts it after signing up or signing in.
+
+CREATE TABLE IF NOT EXISTS public.project_invitations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    -- Stored trimmed and lowercased so lookups can match it exactly
+    email TEXT NOT NULL CHECK (email = lower(btrim(email))),
+    role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('admin', 'editor', 'viewer')),
+    -- 64 hex characters from two random UUIDs; only ever sent to the invitee
+    token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'revoked')),
+    invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    expires_at TIMESTAMPTZ NOT NULL DEFAULT now() + interval '7 days',
+    last_sent_at TIMESTAMPTZ,
+    accepted_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- At most one open invitation per address and brain
+CREATE UNIQUE INDEX IF NOT EXISTS project_invitations_pending_email_idx
+    ON public.project_invitations (project_id, email)
+    WHERE status = 'pending';
+
+ALTER TABLE public.project_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Invitations are created and resent by the edge function; admins list and revoke them
+CREATE POLICY "Admins can read brain invitations"
+ON public.project_invitations FOR SELECT
+USING (public.has_project_role(project_id, 'admin'));
+
+CREATE POLICY "Admins can revoke brain invitations"
+ON public.project_invitations FOR UPDATE
+USING (public.has_project_role(project_id, 'admin'))
+WITH CHECK (public.has_project_role(project_id, 'admin') AND status = 'revoked');
+
+-- Revoking only changes the status; the invitee, role and expiry stay as sent
+REVOKE UPDATE ON public.project_invitations FROM authenticated;
+GRANT UPDATE (status) ON public.project_invitations TO authenticated;
+
+-- What the accept page shows before the invitee signs in. Knowing the token
+-- is what grants access, so this is callable without a session.
+CREATE OR REPLACE FUNCTION public.get_project_invitation(p_token TEXT)
+RETURNS TABLE (
+    project_id UUID,
+    project_title TEXT,
+    email TEXT,
+    role TEXT,
+    status TEXT,
+    expires_at TIMESTAMPTZ,
+    invited_by_name TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT i.project_id, p.title, i.email, i.role, i.status, i.expires_at, pr.full_name
+    FROM public.project_invitations i
+    JOIN public.projects p ON p.id = i.project_id
+    LEFT JOIN public.profiles pr ON pr.id = i.invited_by
+    WHERE i.token = p_token;
+$$;
+
+-- Adds the signed-in user to the brain with the invited role and returns the brain id
+CREATE OR REPLACE FUNCTION public.accept_project_invitation(p_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_invitation public.project_invitations%ROWTYPE;
+    v_email TEXT;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Sign in to accept this invitation';
+    END IF;
+
+    SELECT * INTO v_invitation FROM public.project_invitations WHERE token = p_token FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invitation not found';
+    END IF;
+
+    IF v_invitation.status = 'accepted' AND v_invitation.accepted_by = auth.uid() THEN
+        RETURN v_invitation.project_id;
+    END IF;
+
+    IF v_invitation.status <> 'pending' THEN
+        RAISE EXCEPTION 'This invitation has already been %', v_invitation.status;
+    END IF;
+
+    IF v_invitation.expires_at < now() THEN
+        RAISE EXCEPTION 'This invitation has expired';
+    END IF;
+
+    SELECT email INTO v_email FROM auth.users WHERE id = auth.uid();
+
+    IF lower(v_email) <> lower(v_invitation.email) THEN
+        RAISE EXCEPTION 'This invitation was sent to %. Sign in with that address to accept it.', v_invitation.email;
+    END IF;
+
+    -- Existing members keep their current role; the owner needs no membership row
+    INSERT INTO public.project_members (project_id, user_id, role)
+    SELECT v_invitation.project_id, auth.uid(), v_invitation.role
+    WHERE NOT EXISTS (
+        SELECT 1 FROM public.project_members
+        WHERE project_id = v_invitation.project_id AND user_id = auth.uid()
+    )
+    AND NOT EXISTS (
+        SELECT 1 FROM public.projects
+        WHERE id = v_invitation.project_id AND owner_id = auth.uid()
+    );
+
+    UPDATE public.project_invitations
+    SET status = 'accepted', accepted_by = auth.uid(), accepted_at = now()
+    WHERE id = v_invitation.id;
+
+    RETURN v_invitation.project_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_project_invitation(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_project_invitation(TEXT) TO authenticated;
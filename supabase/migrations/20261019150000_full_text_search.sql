@@ -0,0 +1,163 @@
+-- Full-text search over notes, documents, image summaries and updates across
+-- every brain the caller can read. Each table gets a GIN index on a weighted
+-- tsvector (titles rank above bodies, tags below both) and
+-- search_brain_content() ranks matches and returns highlighted snippets.
+--
+-- The vectors are expression indexes rather than stored columns so that
+-- select('*') on these tables does not start returning them. The functions
+-- below must be used verbatim in queries for the planner to pick the index.
+
+CREATE OR REPLACE FUNCTION public.note_search_vector(p_title TEXT, p_content TEXT, p_tags TEXT[])
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT setweight(to_tsvector('english', coalesce(p_title, '')), 'A') ||
+           setweight(to_tsvector('english', coalesce(p_content, '')), 'B') ||
+           setweight(to_tsvector('english', coalesce(array_to_string(p_tags, ' '), '')), 'C');
+$$;
+
+-- Extracted PDF text can be very long; a tsvector is capped at 1MB
+CREATE OR REPLACE FUNCTION public.document_search_vector(p_file_name TEXT, p_content_text TEXT)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT setweight(to_tsvector('english', coalesce(p_file_name, '')), 'A') ||
+           setweight(to_tsvector('english', left(coalesce(p_content_text, ''), 500000)), 'B');
+$$;
+
+CREATE OR REPLACE FUNCTION public.image_search_vector(p_summary TEXT)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT setweight(to_tsvector('english', coalesce(p_summary, '')), 'B');
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_search_vector(p_content TEXT, p_tags TEXT[])
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT setweight(to_tsvector('english', coalesce(p_content, '')), 'B') ||
+           setweight(to_tsvector('english', coalesce(array_to_string(p_tags, ' '), '')), 'C');
+$$;
+
+CREATE INDEX IF NOT EXISTS project_notes_search_idx
+    ON public.project_notes USING GIN (public.note_search_vector(title, content, tags));
+CREATE INDEX IF NOT EXISTS project_documents_search_idx
+    ON public.project_documents USING GIN (public.document_search_vector(file_name, content_text));
+CREATE INDEX IF NOT EXISTS image_summaries_search_idx
+    ON public.image_summaries USING GIN (public.image_search_vector(summary));
+CREATE INDEX IF NOT EXISTS project_updates_search_idx
+    ON public.project_updates USING GIN (public.update_search_vector(content, tags));
+
+-- p_query uses web search syntax ("quoted phrases", -excluded, or). Filters
+-- are optional: p_types limits to 'note', 'document', 'image' and 'update',
+-- p_tag matches note, update and image tags (documents have none), and
+-- p_from/p_to bound created_at. Runs as the caller so the read policies
+-- decide which brains are searched. Snippets mark matches with <mark></mark>.
+CREATE OR REPLACE FUNCTION public.search_brain_content(
+    p_query TEXT,
+    p_types TEXT[] DEFAULT NULL,
+    p_project_id UUID DEFAULT NULL,
+    p_tag TEXT DEFAULT NULL,
+    p_from TIMESTAMPTZ DEFAULT NULL,
+    p_to TIMESTAMPTZ DEFAULT NULL,
+    p_limit INTEGER DEFAULT 30
+)
+RETURNS TABLE (
+    result_type TEXT,
+    id UUID,
+    project_id UUID,
+    project_title TEXT,
+    title TEXT,
+    snippet TEXT,
+    url TEXT,
+    tags TEXT[],
+    created_at TIMESTAMPTZ,
+    rank REAL
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    WITH q AS (
+        SELECT websearch_to_tsquery('english', p_query) AS query
+    ),
+    matches AS (
+        SELECT 'note'::text AS result_type, n.id, n.project_id, n.title,
+               coalesce(n.content, '') AS body, NULL::text AS url, n.tags, n.created_at,
+               ts_rank_cd(note_search_vector(n.title, n.content, n.tags), q.query) AS rank
+        FROM project_notes n, q
+        WHERE note_search_vector(n.title, n.content, n.tags) @@ q.query
+          AND NOT n.is_archived
+          AND (p_types IS NULL OR 'note' = ANY(p_types))
+          AND (p_tag IS NULL OR p_tag = ANY(n.tags))
+
+        UNION ALL
+
+        SELECT 'document', d.id, d.project_id, d.file_name,
+               left(coalesce(d.content_text, ''), 500000), d.file_url, NULL::text[], d.created_at,
+               ts_rank_cd(document_search_vector(d.file_name, d.content_text), q.query)
+        FROM project_documents d, q
+        WHERE document_search_vector(d.file_name, d.content_text) @@ q.query
+          AND NOT d.is_archived
+          AND (p_types IS NULL OR 'document' = ANY(p_types))
+          AND p_tag IS NULL
+
+        UNION ALL
+
+        SELECT 'image', i.id, i.project_id, regexp_replace(split_part(i.image_url, '?', 1), '^.*/', ''),
+               i.summary, i.image_url,
+               ARRAY(
+                   SELECT t.tag FROM image_tags t
+                   WHERE t.image_url = i.image_url AND t.project_id = i.project_id
+                   ORDER BY t.tag
+               ),
+               i.created_at,
+               ts_rank_cd(image_search_vector(i.summary), q.query)
+        FROM image_summaries i, q
+        WHERE image_search_vector(i.summary) @@ q.query
+          AND i.project_id IS NOT NULL
+          AND NOT i.is_archived
+          AND (p_types IS NULL OR 'image' = ANY(p_types))
+          AND (p_tag IS NULL OR EXISTS (
+              SELECT 1 FROM image_tags t
+              WHERE t.image_url = i.image_url AND t.project_id = i.project_id AND t.tag = p_tag
+          ))
+
+        UNION ALL
+
+        SELECT 'update', u.id, u.project_id, left(u.content, 80),
+               u.content, NULL::text, u.tags, u.created_at,
+               ts_rank_cd(update_search_vector(u.content, u.tags), q.query)
+        FROM project_updates u, q
+        WHERE update_search_vector(u.content, u.tags) @@ q.query
+          AND NOT u.is_archived
+          AND (p_types IS NULL OR 'update' = ANY(p_types))
+          AND (p_tag IS NULL OR p_tag = ANY(u.tags))
+    ),
+    -- Rank first and only build snippets for the rows that are returned
+    top AS (
+        SELECT m.*
+        FROM matches m
+        WHERE (p_project_id IS NULL OR m.project_id = p_project_id)
+          AND (p_from IS NULL OR m.created_at >= p_from)
+          AND (p_to IS NULL OR m.created_at < p_to)
+        ORDER BY m.rank DESC, m.created_at DESC
+        LIMIT least(greatest(coalesce(p_limit, 30), 1), 100)
+    )
+    SELECT top.result_type, top.id, top.project_id, p.title, top.title,
+           ts_headline('english', top.body, q.query,
+               'StartSel="<mark>", StopSel="</mark>", MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'),
+           top.url, top.tags, top.created_at, top.rank
+    FROM top
+    JOIN projects p ON p.id = top.project_id
+    CROSS JOIN q
+    ORDER BY top.rank DESC, top.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_brain_content(TEXT, TEXT[], UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER) TO authenticated;
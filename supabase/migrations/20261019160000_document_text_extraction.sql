@@ -0,0 +1,97 @@
+-- Text of uploaded PDFs is extracted once by the extract-document-text function
+-- right after upload and stored, so summaries, chat, search and the content
+-- index read it instead of parsing the PDF again.
+
+ALTER TABLE public.project_documents
+    ADD COLUMN IF NOT EXISTS extraction_status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (extraction_status IN ('pending', 'processing', 'ready', 'failed')),
+    ADD COLUMN IF NOT EXISTS extraction_error TEXT,
+    ADD COLUMN IF NOT EXISTS extraction_attempts INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS extraction_started_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS extracted_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS page_count INTEGER;
+
+-- Documents that already have text keep it readable; the next runs extract the
+-- rest, and the pages of these (page_count stays null) for page citations
+UPDATE public.project_documents
+SET extraction_status = 'ready', extracted_at = updated_at
+WHERE content_text IS NOT NULL AND content_text <> '';
+
+-- Only PDFs are extracted; anything else without text would stay pending forever
+UPDATE public.project_documents
+SET extraction_status = 'failed',
+    extraction_error = 'Text extraction is only supported for PDF documents'
+WHERE document_type IS DISTINCT FROM 'pdf'
+  AND extraction_status = 'pending';
+
+CREATE INDEX IF NOT EXISTS project_documents_extraction_status_idx
+    ON public.project_documents (extraction_status, created_at)
+    WHERE extraction_status IN ('pending', 'processing', 'failed');
+
+-- One row per PDF page. content_text on the document is these pages joined.
+CREATE TABLE IF NOT EXISTS public.project_document_pages (
+    document_id UUID NOT NULL REFERENCES public.project_documents(id) ON DELETE CASCADE,
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    page_number INTEGER NOT NULL CHECK (page_number > 0),
+    content TEXT NOT NULL DEFAULT '',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (document_id, page_number)
+);
+
+CREATE INDEX IF NOT EXISTS project_document_pages_project_id_idx
+    ON public.project_document_pages (project_id);
+
+ALTER TABLE public.project_document_pages ENABLE ROW LEVEL SECURITY;
+
+-- Pages are written by the extraction function with the service role
+CREATE POLICY "Viewers can read document pages"
+ON public.project_document_pages FOR SELECT
+USING (public.has_project_role(project_id, 'viewer'));
+
+-- Scheduled edge function calls. pg_cron runs the job and pg_net posts an empty
+-- body with the service role key, which the functions treat as a scheduled run.
+-- The project URL and key come from Vault secrets named project_url and
+-- service_role_key, created once per environment:
+--   SELECT vault.create_secret('https://<ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+CREATE OR REPLACE FUNCTION public.invoke_scheduled_function(p_function TEXT)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_url TEXT;
+    v_key TEXT;
+BEGIN
+    SELECT decrypted_secret INTO v_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+    SELECT decrypted_secret INTO v_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+    IF v_url IS NULL OR v_key IS NULL THEN
+        RAISE WARNING 'Vault secrets project_url and service_role_key are needed to call %', p_function;
+        RETURN NULL;
+    END IF;
+
+    RETURN net.http_post(
+        url := rtrim(v_url, '/') || '/functions/v1/' || p_function,
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || v_key
+        ),
+        body := '{}'::jsonb
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.invoke_scheduled_function(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Picks up documents whose extraction never started (the upload's call failed),
+-- stalled, or failed fewer than three times
+SELECT cron.schedule(
+    'extract-pending-documents',
+    '*/10 * * * *',
+    $$SELECT public.invoke_scheduled_function('extract-document-text')$$
+);
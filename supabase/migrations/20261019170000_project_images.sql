@@ -0,0 +1,98 @@
+-- Images get a row of their own instead of being discovered by listing the
+-- project_images bucket. Summaries and tags point at the row by id, so a
+-- rename only changes file_name and a delete is seen by every member.
+
+CREATE TABLE IF NOT EXISTS public.project_images (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL,
+    storage_path TEXT NOT NULL UNIQUE,
+    file_name TEXT NOT NULL,
+    mime_type TEXT,
+    size_bytes BIGINT NOT NULL DEFAULT 0,
+    width INTEGER,
+    height INTEGER,
+    caption TEXT,
+    is_favorite BOOLEAN NOT NULL DEFAULT false,
+    is_important BOOLEAN NOT NULL DEFAULT false,
+    is_archived BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS project_images_project_id_idx
+    ON public.project_images (project_id, created_at DESC);
+
+ALTER TABLE public.project_images ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read brain content"
+ON public.project_images FOR SELECT
+USING (public.can_access_project(project_id));
+
+CREATE POLICY "Editors can add brain content"
+ON public.project_images FOR INSERT
+WITH CHECK (user_id = auth.uid() AND public.has_project_role(project_id, 'editor'));
+
+CREATE POLICY "Editors can edit brain content"
+ON public.project_images FOR UPDATE
+USING (public.has_project_role(project_id, 'editor'))
+WITH CHECK (public.has_project_role(project_id, 'editor'));
+
+CREATE POLICY "Editors can delete brain content"
+ON public.project_images FOR DELETE
+USING (public.has_project_role(project_id, 'editor'));
+
+-- Existing images: every object in the bucket lives under <project id>/<file name>.
+-- The old client deleted an image by removing its summary and tags and hiding the
+-- file in the browser, so only objects that still have a summary or a tag are
+-- known to be live. The rest go to the trash in 20261019180000_trash.sql.
+INSERT INTO public.project_images (project_id, user_id, storage_path, file_name, mime_type, size_bytes, created_at, updated_at)
+SELECT p.id,
+       COALESCE(o.owner, p.owner_id),
+       o.name,
+       storage.filename(o.name),
+       o.metadata->>'mimetype',
+       COALESCE((o.metadata->>'size')::BIGINT, 0),
+       COALESCE(o.created_at, now()),
+       COALESCE(o.updated_at, o.created_at, now())
+FROM storage.objects o
+JOIN public.projects p ON p.id::TEXT = (storage.foldername(o.name))[1]
+WHERE o.bucket_id = 'project_images'
+  AND (
+      EXISTS (
+          SELECT 1 FROM public.image_summaries s
+          WHERE s.project_id = p.id
+            AND right(split_part(s.image_url, '?', 1), length(o.name) + 16) = '/project_images/' || o.name
+      )
+      OR EXISTS (
+          SELECT 1 FROM public.image_tags t
+          WHERE t.project_id = p.id
+            AND right(split_part(t.image_url, '?', 1), length(o.name) + 16) = '/project_images/' || o.name
+      )
+  )
+ON CONFLICT (storage_path) DO NOTHING;
+
+-- Summaries and tags were keyed by the public URL of the image, sometimes with a
+-- cache-busting query string. Rows that match no image (a summary of an image
+-- outside the bucket, or of one already removed) keep a NULL image_id.
+ALTER TABLE public.image_summaries
+    ADD COLUMN IF NOT EXISTS image_id UUID REFERENCES public.project_images(id) ON DELETE CASCADE;
+ALTER TABLE public.image_tags
+    ADD COLUMN IF NOT EXISTS image_id UUID REFERENCES public.project_images(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS image_summaries_image_id_idx ON public.image_summaries (image_id);
+CREATE INDEX IF NOT EXISTS image_tags_image_id_idx ON public.image_tags (image_id);
+
+UPDATE public.image_summaries s
+SET image_id = i.id
+FROM public.project_images i
+WHERE s.image_id IS NULL
+  AND split_part(s.image_url, '?', 1) LIKE '%/project_images/%'
+  AND right(split_part(s.image_url, '?', 1), length(i.storage_path) + 16) = '/project_images/' || i.storage_path;
+
+UPDATE public.image_tags t
+SET image_id = i.id
+FROM public.project_images i
+WHERE t.image_id IS NULL
+  AND split_part(t.image_url, '?', 1) LIKE '%/project_images/%'
+  AND right(split_part(t.image_url, '?', 1), length(i.storage_path) + 16) = '/project_images/' || i.storage_path;
@@ -0,0 +1,408 @@
+-- Deleting a brain, note, document or image moves it to the trash. It stays
+-- restorable for 30 days, after which the purge-trash function removes it and
+-- its files for good. purge_project() and purge_trash_item() do the permanent
+-- delete in one transaction and return the storage objects to remove.
+
+ALTER TABLE public.projects
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS deleted_by UUID;
+ALTER TABLE public.project_notes
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS deleted_by UUID;
+ALTER TABLE public.project_documents
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS deleted_by UUID;
+ALTER TABLE public.project_images
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS deleted_by UUID;
+
+CREATE INDEX IF NOT EXISTS projects_deleted_at_idx
+    ON public.projects (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS project_notes_deleted_at_idx
+    ON public.project_notes (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS project_documents_deleted_at_idx
+    ON public.project_documents (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS project_images_deleted_at_idx
+    ON public.project_images (deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Images the project_images backfill left out: files without a summary or tag,
+-- which the old client may only have hidden in the browser. They wait in the
+-- trash, restorable like any deleted image, until purge-trash removes them.
+INSERT INTO public.project_images (project_id, user_id, storage_path, file_name, mime_type, size_bytes, created_at, updated_at, deleted_at)
+SELECT p.id,
+       COALESCE(o.owner, p.owner_id),
+       o.name,
+       storage.filename(o.name),
+       o.metadata->>'mimetype',
+       COALESCE((o.metadata->>'size')::BIGINT, 0),
+       COALESCE(o.created_at, now()),
+       COALESCE(o.updated_at, o.created_at, now()),
+       now()
+FROM storage.objects o
+JOIN public.projects p ON p.id::TEXT = (storage.foldername(o.name))[1]
+WHERE o.bucket_id = 'project_images'
+  AND NOT EXISTS (SELECT 1 FROM public.project_images i WHERE i.storage_path = o.name)
+ON CONFLICT (storage_path) DO NOTHING;
+
+-- A brain in the trash gives nobody a role, so all of its content disappears
+-- from every policy at once. Only restore_from_trash() still looks at it.
+CREATE OR REPLACE FUNCTION public.project_role(p_project_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN p.deleted_at IS NOT NULL THEN NULL
+        WHEN p.owner_id = auth.uid() THEN 'owner'
+        ELSE (SELECT role FROM public.project_members WHERE project_id = p.id AND user_id = auth.uid() LIMIT 1)
+    END
+    FROM public.projects p
+    WHERE p.id = p_project_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_access_project(p_project_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.projects p
+        WHERE p.id = p_project_id
+          AND p.deleted_at IS NULL
+          AND (p.owner_id = auth.uid() OR public.is_project_member(p.id, auth.uid()))
+    );
+$$;
+
+DROP POLICY IF EXISTS "Members can read their brains" ON public.projects;
+CREATE POLICY "Members can read their brains"
+ON public.projects FOR SELECT
+USING ((owner_id = auth.uid() AND deleted_at IS NULL) OR public.can_access_project(id));
+
+-- Trashed items are hidden from everyone until they are restored
+
+DO $$
+DECLARE
+    content_table TEXT;
+BEGIN
+    FOREACH content_table IN ARRAY ARRAY['project_notes', 'project_documents', 'project_images']
+    LOOP
+        EXECUTE format('DROP POLICY IF EXISTS "Members can read brain content" ON public.%I', content_table);
+        EXECUTE format(
+            'CREATE POLICY "Members can read brain content" ON public.%I FOR SELECT
+             USING (deleted_at IS NULL AND public.can_access_project(project_id))',
+            content_table
+        );
+    END LOOP;
+END $$;
+
+DROP POLICY IF EXISTS "Members can read image summaries" ON public.image_summaries;
+CREATE POLICY "Members can read image summaries"
+ON public.image_summaries FOR SELECT
+USING (
+    (user_id = auth.uid() OR (project_id IS NOT NULL AND public.can_access_project(project_id)))
+    AND (image_id IS NULL OR EXISTS (
+        SELECT 1 FROM public.project_images i WHERE i.id = image_id AND i.deleted_at IS NULL
+    ))
+);
+
+DROP POLICY IF EXISTS "Members can read brain content" ON public.image_tags;
+CREATE POLICY "Members can read brain content"
+ON public.image_tags FOR SELECT
+USING (
+    public.can_access_project(project_id)
+    AND (image_id IS NULL OR EXISTS (
+        SELECT 1 FROM public.project_images i WHERE i.id = image_id AND i.deleted_at IS NULL
+    ))
+);
+
+-- Drops a trashed item from the chat index, or queues it again once restored.
+-- Images are indexed through their summaries.
+CREATE OR REPLACE FUNCTION public.sync_trashed_item_index(p_item_type TEXT, p_item_id UUID, p_restored BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_source_ids UUID[];
+    v_project_id UUID;
+BEGIN
+    IF p_item_type = 'image' THEN
+        SELECT array_agg(id), (array_agg(project_id))[1] INTO v_source_ids, v_project_id
+        FROM public.image_summaries WHERE image_id = p_item_id;
+    ELSIF p_item_type = 'note' THEN
+        SELECT ARRAY[id], project_id INTO v_source_ids, v_project_id FROM public.project_notes WHERE id = p_item_id;
+    ELSE
+        SELECT ARRAY[id], project_id INTO v_source_ids, v_project_id FROM public.project_documents WHERE id = p_item_id;
+    END IF;
+
+    IF v_source_ids IS NULL OR v_project_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    IF p_restored THEN
+        INSERT INTO public.content_index_queue (source_type, source_id, project_id)
+        SELECT p_item_type, source_id, v_project_id FROM unnest(v_source_ids) AS source_id
+        ON CONFLICT (source_type, source_id)
+        DO UPDATE SET queued_at = now(), attempts = 0, last_error = NULL;
+    ELSE
+        DELETE FROM public.content_chunks WHERE source_type = p_item_type AND source_id = ANY(v_source_ids);
+        DELETE FROM public.content_index_queue WHERE source_type = p_item_type AND source_id = ANY(v_source_ids);
+    END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.sync_trashed_item_index(TEXT, UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- The brain an item belongs to, whether or not the item is in the trash
+CREATE OR REPLACE FUNCTION public.trash_item_project(p_item_type TEXT, p_item_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT CASE p_item_type
+        WHEN 'note' THEN (SELECT project_id FROM public.project_notes WHERE id = p_item_id)
+        WHEN 'document' THEN (SELECT project_id FROM public.project_documents WHERE id = p_item_id)
+        WHEN 'image' THEN (SELECT project_id FROM public.project_images WHERE id = p_item_id)
+    END;
+$$;
+
+REVOKE ALL ON FUNCTION public.trash_item_project(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Owners trash brains; editors trash notes, documents and images
+CREATE OR REPLACE FUNCTION public.move_to_trash(p_item_type TEXT, p_item_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_project_id UUID;
+BEGIN
+    IF p_item_type = 'project' THEN
+        IF NOT public.has_project_role(p_item_id, 'owner') THEN
+            RAISE EXCEPTION 'Only the owner can delete this brain';
+        END IF;
+
+        UPDATE public.projects SET deleted_at = now(), deleted_by = auth.uid()
+        WHERE id = p_item_id AND deleted_at IS NULL;
+        RETURN;
+    END IF;
+
+    IF p_item_type NOT IN ('note', 'document', 'image') THEN
+        RAISE EXCEPTION 'Unknown item type: %', p_item_type;
+    END IF;
+
+    v_project_id := public.trash_item_project(p_item_type, p_item_id);
+
+    IF v_project_id IS NULL OR NOT public.has_project_role(v_project_id, 'editor') THEN
+        RAISE EXCEPTION 'You cannot delete this %', p_item_type;
+    END IF;
+
+    EXECUTE format(
+        'UPDATE public.%I SET deleted_at = now(), deleted_by = $1 WHERE id = $2 AND deleted_at IS NULL',
+        CASE p_item_type WHEN 'note' THEN 'project_notes' WHEN 'document' THEN 'project_documents' ELSE 'project_images' END
+    ) USING auth.uid(), p_item_id;
+
+    PERFORM public.sync_trashed_item_index(p_item_type, p_item_id, false);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.restore_from_trash(p_item_type TEXT, p_item_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_project_id UUID;
+BEGIN
+    IF p_item_type = 'project' THEN
+        -- project_role() ignores trashed brains, so check ownership directly
+        UPDATE public.projects SET deleted_at = NULL, deleted_by = NULL
+        WHERE id = p_item_id AND owner_id = auth.uid() AND deleted_at IS NOT NULL;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Brain not found in your trash';
+        END IF;
+        RETURN;
+    END IF;
+
+    IF p_item_type NOT IN ('note', 'document', 'image') THEN
+        RAISE EXCEPTION 'Unknown item type: %', p_item_type;
+    END IF;
+
+    v_project_id := public.trash_item_project(p_item_type, p_item_id);
+
+    IF v_project_id IS NULL OR NOT public.has_project_role(v_project_id, 'editor') THEN
+        RAISE EXCEPTION 'You cannot restore this %', p_item_type;
+    END IF;
+
+    EXECUTE format(
+        'UPDATE public.%I SET deleted_at = NULL, deleted_by = NULL WHERE id = $1',
+        CASE p_item_type WHEN 'note' THEN 'project_notes' WHEN 'document' THEN 'project_documents' ELSE 'project_images' END
+    ) USING p_item_id;
+
+    PERFORM public.sync_trashed_item_index(p_item_type, p_item_id, true);
+END;
+$$;
+
+-- What the current user can restore: their own trashed brains, and trashed
+-- items of brains they can edit
+CREATE OR REPLACE FUNCTION public.get_trash()
+RETURNS TABLE (
+    item_type TEXT,
+    id UUID,
+    project_id UUID,
+    project_title TEXT,
+    title TEXT,
+    deleted_at TIMESTAMPTZ,
+    deleted_by_name TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT t.item_type, t.id, t.project_id, p.title, t.title, t.deleted_at, pr.full_name
+    FROM (
+        SELECT 'project' AS item_type, id, id AS project_id, title, deleted_at, deleted_by
+        FROM public.projects
+        WHERE deleted_at IS NOT NULL AND owner_id = auth.uid()
+
+        UNION ALL
+
+        SELECT 'note', id, project_id, title, deleted_at, deleted_by
+        FROM public.project_notes
+        WHERE deleted_at IS NOT NULL AND public.has_project_role(project_id, 'editor')
+
+        UNION ALL
+
+        SELECT 'document', id, project_id, file_name, deleted_at, deleted_by
+        FROM public.project_documents
+        WHERE deleted_at IS NOT NULL AND public.has_project_role(project_id, 'editor')
+
+        UNION ALL
+
+        SELECT 'image', id, project_id, file_name, deleted_at, deleted_by
+        FROM public.project_images
+        WHERE deleted_at IS NOT NULL AND public.has_project_role(project_id, 'editor')
+    ) t
+    JOIN public.projects p ON p.id = t.project_id
+    LEFT JOIN public.profiles pr ON pr.id = t.deleted_by
+    ORDER BY t.deleted_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.move_to_trash(TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.restore_from_trash(TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_trash() TO authenticated;
+
+-- Permanently deletes a brain and everything in it. Returns the files to remove
+-- from storage, which the caller does once this transaction has committed.
+CREATE OR REPLACE FUNCTION public.purge_project(p_project_id UUID)
+RETURNS TABLE (bucket TEXT, path TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+        SELECT 'project_documents'::TEXT, d.file_path FROM public.project_documents d
+        WHERE d.project_id = p_project_id AND d.file_path IS NOT NULL
+        UNION ALL
+        SELECT 'project_images'::TEXT, i.storage_path FROM public.project_images i
+        WHERE i.project_id = p_project_id;
+
+    DELETE FROM public.content_chunks WHERE project_id = p_project_id;
+    DELETE FROM public.content_index_queue WHERE project_id = p_project_id;
+    DELETE FROM public.image_tags WHERE project_id = p_project_id;
+    DELETE FROM public.image_summaries WHERE project_id = p_project_id;
+    DELETE FROM public.project_images WHERE project_id = p_project_id;
+    DELETE FROM public.note_summaries WHERE project_id = p_project_id;
+    DELETE FROM public.project_notes WHERE project_id = p_project_id;
+    DELETE FROM public.project_document_pages WHERE project_id = p_project_id;
+    DELETE FROM public.project_documents WHERE project_id = p_project_id;
+    DELETE FROM public.project_updates WHERE project_id = p_project_id;
+    DELETE FROM public.chat_conversations WHERE project_id = p_project_id;
+    DELETE FROM public.project_invitations WHERE project_id = p_project_id;
+    DELETE FROM public.project_members WHERE project_id = p_project_id;
+    DELETE FROM public.projects WHERE id = p_project_id;
+END;
+$$;
+
+-- Permanently deletes a trashed note, document or image and returns its file
+CREATE OR REPLACE FUNCTION public.purge_trash_item(p_item_type TEXT, p_item_id UUID)
+RETURNS TABLE (bucket TEXT, path TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF p_item_type = 'note' THEN
+        IF EXISTS (SELECT 1 FROM public.project_notes WHERE id = p_item_id AND deleted_at IS NOT NULL) THEN
+            DELETE FROM public.note_summaries WHERE note_id = p_item_id;
+            DELETE FROM public.project_notes WHERE id = p_item_id;
+        END IF;
+    ELSIF p_item_type = 'document' THEN
+        RETURN QUERY
+            WITH deleted AS (
+                DELETE FROM public.project_documents d
+                WHERE d.id = p_item_id AND d.deleted_at IS NOT NULL
+                RETURNING d.file_path
+            )
+            SELECT 'project_documents'::TEXT, deleted.file_path FROM deleted WHERE deleted.file_path IS NOT NULL;
+    ELSIF p_item_type = 'image' THEN
+        -- Its summaries and tags go with it
+        RETURN QUERY
+            WITH deleted AS (
+                DELETE FROM public.project_images i
+                WHERE i.id = p_item_id AND i.deleted_at IS NOT NULL
+                RETURNING i.storage_path
+            )
+            SELECT 'project_images'::TEXT, deleted.storage_path FROM deleted;
+    ELSE
+        RAISE EXCEPTION 'Unknown item type: %', p_item_type;
+    END IF;
+END;
+$$;
+
+-- Image files no project_images row points to, such as those of brains deleted
+-- before the trash existed. Files younger than a day are skipped so an upload is
+-- not caught between storing its file and writing its row.
+CREATE OR REPLACE FUNCTION public.orphaned_image_files(p_limit INTEGER DEFAULT 500)
+RETURNS TABLE (bucket TEXT, path TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT 'project_images'::TEXT, o.name
+    FROM storage.objects o
+    WHERE o.bucket_id = 'project_images'
+      AND o.created_at < now() - INTERVAL '1 day'
+      AND NOT EXISTS (SELECT 1 FROM public.project_images i WHERE i.storage_path = o.name)
+    ORDER BY o.created_at
+    LIMIT p_limit;
+$$;
+
+-- Only the purge-trash function (service role) deletes for good
+REVOKE ALL ON FUNCTION public.purge_project(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.purge_trash_item(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.orphaned_image_files(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.purge_project(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.purge_trash_item(TEXT, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.orphaned_image_files(INTEGER) TO service_role;
+
+-- Purges expired trash and orphaned image files once a day, through
+-- invoke_scheduled_function() from 20261019160000_document_text_extraction.sql
+SELECT cron.schedule(
+    'purge-trash',
+    '30 3 * * *',
+    $$SELECT public.invoke_scheduled_function('purge-trash')$$
+);
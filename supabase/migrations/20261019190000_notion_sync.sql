@@ -0,0 +1,132 @@
+-- Notes imported from Notion remember their page and the page's
+-- last_edited_time, so the notion-sync function can pull later edits into the
+-- same note. notion_synced_hash is the sha256 of the content as last written
+-- by a sync: when the note no longer matches it, it was edited here too and
+-- the incoming version waits in notion_sync_conflicts for someone to choose.
+
+ALTER TABLE public.project_notes
+    ADD COLUMN IF NOT EXISTS notion_page_id TEXT,
+    ADD COLUMN IF NOT EXISTS notion_last_edited_time TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS notion_synced_hash TEXT,
+    ADD COLUMN IF NOT EXISTS notion_checked_at TIMESTAMPTZ;
+
+-- Earlier imports kept the page id in source_document. When a page was
+-- imported more than once, the newest note becomes the synced one.
+UPDATE public.project_notes n
+SET notion_page_id = latest.page_id,
+    notion_synced_hash = encode(sha256(convert_to(COALESCE(n.content, ''), 'UTF8')), 'hex')
+FROM (
+    SELECT DISTINCT ON (project_id, source_document->>'id')
+        id, source_document->>'id' AS page_id
+    FROM public.project_notes
+    WHERE source_document->>'type' = 'notion'
+      AND source_document->>'id' IS NOT NULL
+      AND deleted_at IS NULL
+    ORDER BY project_id, source_document->>'id', created_at DESC
+) latest
+WHERE n.id = latest.id
+  AND n.notion_page_id IS NULL;
+
+-- One live note per page and brain; re-importing a page updates that note
+CREATE UNIQUE INDEX IF NOT EXISTS project_notes_notion_page_idx
+    ON public.project_notes (project_id, notion_page_id)
+    WHERE notion_page_id IS NOT NULL AND deleted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS project_notes_notion_checked_idx
+    ON public.project_notes (notion_checked_at NULLS FIRST)
+    WHERE notion_page_id IS NOT NULL AND deleted_at IS NULL;
+
+-- The Notion version of a note that changed on both sides
+CREATE TABLE IF NOT EXISTS public.notion_sync_conflicts (
+    note_id UUID PRIMARY KEY REFERENCES public.project_notes(id) ON DELETE CASCADE,
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    incoming_title TEXT NOT NULL,
+    incoming_content TEXT NOT NULL,
+    notion_last_edited_time TIMESTAMPTZ NOT NULL,
+    detected_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notion_sync_conflicts_project_idx
+    ON public.notion_sync_conflicts (project_id);
+
+ALTER TABLE public.notion_sync_conflicts ENABLE ROW LEVEL SECURITY;
+
+-- Written by notion-sync and resolve_notion_conflict() only
+CREATE POLICY "Members can read Notion sync conflicts"
+ON public.notion_sync_conflicts FOR SELECT
+USING (public.can_access_project(project_id));
+
+-- Notion databases whose new rows are imported into a brain automatically,
+-- using the Notion connection of the member who added them
+CREATE TABLE IF NOT EXISTS public.notion_synced_databases (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL,
+    database_id TEXT NOT NULL,
+    database_title TEXT NOT NULL DEFAULT 'Untitled Database',
+    last_synced_at TIMESTAMPTZ,
+    last_error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (project_id, database_id)
+);
+
+ALTER TABLE public.notion_synced_databases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read synced Notion databases"
+ON public.notion_synced_databases FOR SELECT
+USING (public.can_access_project(project_id));
+
+CREATE POLICY "Admins can sync Notion databases"
+ON public.notion_synced_databases FOR INSERT
+WITH CHECK (user_id = auth.uid() AND public.has_project_role(project_id, 'admin'));
+
+CREATE POLICY "Admins can stop syncing Notion databases"
+ON public.notion_synced_databases FOR DELETE
+USING (public.has_project_role(project_id, 'admin'));
+
+-- Settles a conflict. Taking the Notion version overwrites the note; keeping
+-- the local one leaves it alone until the page changes in Notion again.
+CREATE OR REPLACE FUNCTION public.resolve_notion_conflict(p_note_id UUID, p_use_notion BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_conflict public.notion_sync_conflicts%ROWTYPE;
+BEGIN
+    SELECT * INTO v_conflict FROM public.notion_sync_conflicts WHERE note_id = p_note_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'This note has no pending Notion changes';
+    END IF;
+
+    IF NOT public.has_project_role(v_conflict.project_id, 'editor') THEN
+        RAISE EXCEPTION 'Only editors can resolve Notion changes';
+    END IF;
+
+    IF p_use_notion THEN
+        UPDATE public.project_notes
+        SET title = v_conflict.incoming_title,
+            content = v_conflict.incoming_content,
+            notion_last_edited_time = v_conflict.notion_last_edited_time,
+            notion_synced_hash = encode(sha256(convert_to(v_conflict.incoming_content, 'UTF8')), 'hex'),
+            updated_at = now()
+        WHERE id = p_note_id;
+    ELSE
+        UPDATE public.project_notes
+        SET notion_last_edited_time = v_conflict.notion_last_edited_time
+        WHERE id = p_note_id;
+    END IF;
+
+    DELETE FROM public.notion_sync_conflicts WHERE note_id = p_note_id;
+END;
+$$;
+
+-- Syncs every brain with Notion hourly, through invoke_scheduled_function()
+-- from 20261019160000_document_text_extraction.sql
+SELECT cron.schedule(
+    'notion-sync',
+    '15 * * * *',
+    $$SELECT public.invoke_scheduled_function('notion-sync')$$
+);
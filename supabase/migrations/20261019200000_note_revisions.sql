@@ -0,0 +1,188 @@
+-- Every change to a note's title, content or tags is kept as a revision, so
+-- an edit or AI rewrite that went wrong can be undone. A revision is a copy of
+-- the note as it was after the change, with who made it and why.
+--
+-- Writers say why through project_notes.revision_cause ('ai_clean' after the
+-- AI cleaned the text, 'import' for Notion syncs, ...). The trigger records it
+-- on the revision and clears it again, so the column is always NULL at rest
+-- and a later write without it counts as a manual edit. New notes with a
+-- source document count as imports.
+--
+-- Users may only claim 'manual', 'ai_clean' or 'ai_metadata'. Imports and
+-- restores are recorded for the service role, or for the functions below,
+-- which set the cause for their own transaction in notes.revision_cause.
+
+ALTER TABLE public.project_notes
+    ADD COLUMN IF NOT EXISTS revision_cause TEXT
+        CHECK (revision_cause IN ('manual', 'ai_clean', 'ai_metadata', 'import', 'restore'));
+
+CREATE TABLE IF NOT EXISTS public.note_revisions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- Deferred so the revision of a new note can be written before the note
+    note_id UUID NOT NULL REFERENCES public.project_notes(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    title TEXT,
+    content TEXT,
+    tags TEXT[],
+    cause TEXT NOT NULL CHECK (cause IN ('manual', 'ai_clean', 'ai_metadata', 'import', 'restore')),
+    author_id UUID,
+    restored_from UUID REFERENCES public.note_revisions(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS note_revisions_note_idx
+    ON public.note_revisions (note_id, created_at DESC);
+
+ALTER TABLE public.note_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Written by the trigger below only
+CREATE POLICY "Members can read note revisions"
+ON public.note_revisions FOR SELECT
+USING (public.can_access_project(project_id));
+
+-- History starts with the notes as they are now
+INSERT INTO public.note_revisions (note_id, project_id, title, content, tags, cause, author_id, created_at)
+SELECT id, project_id, title, content, tags,
+       CASE WHEN source_document IS NOT NULL THEN 'import' ELSE 'manual' END,
+       user_id, COALESCE(updated_at, created_at)
+FROM public.project_notes
+WHERE NOT EXISTS (SELECT 1 FROM public.note_revisions r WHERE r.note_id = project_notes.id);
+
+CREATE OR REPLACE FUNCTION public.record_note_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_changed BOOLEAN;
+    v_cause TEXT;
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        v_changed := TRUE;
+    ELSE
+        v_changed := NEW.title IS DISTINCT FROM OLD.title
+            OR NEW.content IS DISTINCT FROM OLD.content
+            OR NEW.tags IS DISTINCT FROM OLD.tags;
+    END IF;
+
+    IF v_changed THEN
+        v_cause := NULLIF(current_setting('notes.revision_cause', true), '');
+
+        IF v_cause IS NULL
+           AND (auth.role() = 'service_role' OR NEW.revision_cause IN ('manual', 'ai_clean', 'ai_metadata')) THEN
+            v_cause := NEW.revision_cause;
+        END IF;
+
+        INSERT INTO public.note_revisions (note_id, project_id, title, content, tags, cause, author_id, restored_from)
+        VALUES (
+            NEW.id,
+            NEW.project_id,
+            NEW.title,
+            NEW.content,
+            NEW.tags,
+            COALESCE(
+                v_cause,
+                CASE WHEN TG_OP = 'INSERT' AND NEW.source_document IS NOT NULL THEN 'import' ELSE 'manual' END
+            ),
+            -- Functions write with the service role and act for the note's owner
+            COALESCE(auth.uid(), NEW.user_id),
+            CASE WHEN v_cause = 'restore'
+                THEN NULLIF(current_setting('notes.restored_from', true), '')::UUID
+            END
+        );
+    END IF;
+
+    NEW.revision_cause := NULL;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS project_notes_record_revision ON public.project_notes;
+CREATE TRIGGER project_notes_record_revision
+BEFORE INSERT OR UPDATE OF title, content, tags, revision_cause
+ON public.project_notes
+FOR EACH ROW EXECUTE FUNCTION public.record_note_revision();
+
+-- Puts a note back the way it was in one of its revisions. The restore is a
+-- revision of its own, so it can be undone as well.
+CREATE OR REPLACE FUNCTION public.restore_note_revision(p_revision_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_revision public.note_revisions%ROWTYPE;
+BEGIN
+    SELECT * INTO v_revision FROM public.note_revisions WHERE id = p_revision_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Revision not found';
+    END IF;
+
+    IF NOT public.has_project_role(v_revision.project_id, 'editor') THEN
+        RAISE EXCEPTION 'Only editors can restore earlier versions of a note';
+    END IF;
+
+    PERFORM set_config('notes.revision_cause', 'restore', true);
+    PERFORM set_config('notes.restored_from', p_revision_id::TEXT, true);
+
+    UPDATE public.project_notes
+    SET title = v_revision.title,
+        content = v_revision.content,
+        tags = v_revision.tags,
+        updated_at = now()
+    WHERE id = v_revision.note_id
+      AND deleted_at IS NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Restore the note from the trash first';
+    END IF;
+
+    PERFORM set_config('notes.revision_cause', '', true);
+    PERFORM set_config('notes.restored_from', '', true);
+END;
+$$;
+
+-- Taking the Notion version of a conflicting note is an import
+CREATE OR REPLACE FUNCTION public.resolve_notion_conflict(p_note_id UUID, p_use_notion BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_conflict public.notion_sync_conflicts%ROWTYPE;
+BEGIN
+    SELECT * INTO v_conflict FROM public.notion_sync_conflicts WHERE note_id = p_note_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'This note has no pending Notion changes';
+    END IF;
+
+    IF NOT public.has_project_role(v_conflict.project_id, 'editor') THEN
+        RAISE EXCEPTION 'Only editors can resolve Notion changes';
+    END IF;
+
+    IF p_use_notion THEN
+        PERFORM set_config('notes.revision_cause', 'import', true);
+
+        UPDATE public.project_notes
+        SET title = v_conflict.incoming_title,
+            content = v_conflict.incoming_content,
+            notion_last_edited_time = v_conflict.notion_last_edited_time,
+            notion_synced_hash = encode(sha256(convert_to(v_conflict.incoming_content, 'UTF8')), 'hex'),
+            updated_at = now()
+        WHERE id = p_note_id;
+
+        PERFORM set_config('notes.revision_cause', '', true);
+    ELSE
+        UPDATE public.project_notes
+        SET notion_last_edited_time = v_conflict.notion_last_edited_time
+        WHERE id = p_note_id;
+    END IF;
+
+    DELETE FROM public.notion_sync_conflicts WHERE note_id = p_note_id;
+END;
+$$;
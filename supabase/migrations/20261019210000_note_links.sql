@@ -0,0 +1,211 @@
+-- Notes link to other notes, documents and images of their brain by name:
+-- [[Meeting notes]], [[Q3 report.pdf]] or [[Meeting notes|see here]]. The
+-- links are kept in note_links whenever a note's content changes, which gives
+-- every note, document and image its backlinks.
+--
+-- A name resolves to a note with that title first, then a document, then an
+-- image, ignoring case. Links to names nothing has yet are kept without a
+-- target and connect as soon as something gets that name. Renaming a target
+-- rewrites the links to it in every linking note, so they keep working.
+
+CREATE TABLE IF NOT EXISTS public.note_links (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    source_note_id UUID NOT NULL REFERENCES public.project_notes(id) ON DELETE CASCADE,
+    -- The name as written between the brackets
+    label TEXT NOT NULL,
+    target_type TEXT CHECK (target_type IN ('note', 'document', 'image')),
+    target_id UUID,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (source_note_id, label)
+);
+
+CREATE INDEX IF NOT EXISTS note_links_target_idx
+    ON public.note_links (target_type, target_id);
+
+CREATE INDEX IF NOT EXISTS note_links_unresolved_idx
+    ON public.note_links (project_id, lower(label))
+    WHERE target_id IS NULL;
+
+ALTER TABLE public.note_links ENABLE ROW LEVEL SECURITY;
+
+-- Written by the triggers below only
+CREATE POLICY "Members can read note links"
+ON public.note_links FOR SELECT
+USING (public.can_access_project(project_id));
+
+-- What a [[name]] in a brain points to, if anything
+CREATE OR REPLACE FUNCTION public.resolve_link_target(p_project_id UUID, p_label TEXT)
+RETURNS TABLE (target_type TEXT, target_id UUID)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT candidate.kind, candidate.item_id
+    FROM (
+        SELECT 'note'::TEXT AS kind, id AS item_id, 1 AS preference, updated_at AS changed_at
+        FROM public.project_notes
+        WHERE project_id = p_project_id AND deleted_at IS NULL AND lower(title) = lower(p_label)
+        UNION ALL
+        SELECT 'document', id, 2, created_at
+        FROM public.project_documents
+        WHERE project_id = p_project_id AND deleted_at IS NULL AND lower(file_name) = lower(p_label)
+        UNION ALL
+        SELECT 'image', id, 3, created_at
+        FROM public.project_images
+        WHERE project_id = p_project_id AND deleted_at IS NULL AND lower(file_name) = lower(p_label)
+    ) candidate
+    ORDER BY candidate.preference, candidate.changed_at DESC
+    LIMIT 1;
+$$;
+
+-- Reads every brain, so it is only called by the link triggers
+REVOKE ALL ON FUNCTION public.resolve_link_target(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Brings the links of a note in line with its content. Links that were
+-- already there keep their target, so a rename elsewhere cannot move them.
+CREATE OR REPLACE FUNCTION public.sync_note_links(p_note_id UUID, p_project_id UUID, p_content TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_labels TEXT[];
+BEGIN
+    SELECT COALESCE(array_agg(DISTINCT btrim(m[1])), '{}')
+    INTO v_labels
+    FROM regexp_matches(COALESCE(p_content, ''), '\[\[([^]|\n]+)(\|[^]\n]*)?\]\]', 'g') AS m
+    WHERE btrim(m[1]) <> '';
+
+    DELETE FROM public.note_links
+    WHERE source_note_id = p_note_id
+      AND NOT (label = ANY (v_labels));
+
+    INSERT INTO public.note_links (project_id, source_note_id, label, target_type, target_id)
+    SELECT p_project_id, p_note_id, written.label, target.target_type, target.target_id
+    FROM unnest(v_labels) AS written(label)
+    LEFT JOIN LATERAL public.resolve_link_target(p_project_id, written.label) target ON TRUE
+    ON CONFLICT (source_note_id, label) DO UPDATE
+    SET target_type = COALESCE(note_links.target_type, EXCLUDED.target_type),
+        target_id = COALESCE(note_links.target_id, EXCLUDED.target_id);
+END;
+$$;
+
+-- Writes links of any note; only refresh_note_links() calls it
+REVOKE ALL ON FUNCTION public.sync_note_links(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.refresh_note_links()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM public.sync_note_links(NEW.id, NEW.project_id, NEW.content);
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS project_notes_links ON public.project_notes;
+CREATE TRIGGER project_notes_links
+AFTER INSERT OR UPDATE OF content
+ON public.project_notes
+FOR EACH ROW EXECUTE FUNCTION public.refresh_note_links();
+
+-- Keeps links pointing at a note, document or image (TG_ARGV[0]) whose name
+-- is in the column TG_ARGV[1]: renames are written into the linking notes,
+-- a new name picks up links waiting for it, and deleting the item leaves its
+-- links without a target.
+CREATE OR REPLACE FUNCTION public.update_links_to_target()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_type TEXT := TG_ARGV[0];
+    v_column TEXT := TG_ARGV[1];
+    v_old_name TEXT;
+    v_new_name TEXT;
+    v_link RECORD;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        UPDATE public.note_links
+        SET target_type = NULL, target_id = NULL
+        WHERE target_type = v_type AND target_id = OLD.id;
+
+        RETURN OLD;
+    END IF;
+
+    v_new_name := to_jsonb(NEW) ->> v_column;
+
+    IF TG_OP = 'UPDATE' THEN
+        v_old_name := to_jsonb(OLD) ->> v_column;
+
+        IF v_new_name IS NOT DISTINCT FROM v_old_name OR btrim(COALESCE(v_new_name, '')) = '' THEN
+            RETURN NEW;
+        END IF;
+
+        FOR v_link IN
+            SELECT id, source_note_id, label
+            FROM public.note_links
+            WHERE target_type = v_type AND target_id = NEW.id AND label <> v_new_name
+        LOOP
+            -- The note may already link to something else under the new name
+            DELETE FROM public.note_links
+            WHERE source_note_id = v_link.source_note_id AND label = v_new_name;
+
+            UPDATE public.note_links SET label = v_new_name WHERE id = v_link.id;
+
+            UPDATE public.project_notes
+            SET content = replace(
+                replace(content, '[[' || v_link.label || ']]', '[[' || v_new_name || ']]'),
+                '[[' || v_link.label || '|', '[[' || v_new_name || '|'
+            )
+            WHERE id = v_link.source_note_id;
+        END LOOP;
+    END IF;
+
+    IF v_new_name IS NOT NULL AND to_jsonb(NEW) ->> 'deleted_at' IS NULL THEN
+        UPDATE public.note_links
+        SET target_type = v_type, target_id = NEW.id
+        WHERE project_id = NEW.project_id
+          AND target_id IS NULL
+          AND lower(label) = lower(v_new_name);
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS project_notes_link_target ON public.project_notes;
+CREATE TRIGGER project_notes_link_target
+AFTER INSERT OR DELETE OR UPDATE OF title
+ON public.project_notes
+FOR EACH ROW EXECUTE FUNCTION public.update_links_to_target('note', 'title');
+
+DROP TRIGGER IF EXISTS project_documents_link_target ON public.project_documents;
+CREATE TRIGGER project_documents_link_target
+AFTER INSERT OR DELETE OR UPDATE OF file_name
+ON public.project_documents
+FOR EACH ROW EXECUTE FUNCTION public.update_links_to_target('document', 'file_name');
+
+DROP TRIGGER IF EXISTS project_images_link_target ON public.project_images;
+CREATE TRIGGER project_images_link_target
+AFTER INSERT OR DELETE OR UPDATE OF file_name
+ON public.project_images
+FOR EACH ROW EXECUTE FUNCTION public.update_links_to_target('image', 'file_name');
+
+-- Links already written in notes, e.g. by Obsidian imports
+DO $$
+DECLARE
+    v_note RECORD;
+BEGIN
+    FOR v_note IN
+        SELECT id, project_id, content FROM public.project_notes WHERE content LIKE '%[[%'
+    LOOP
+        PERFORM public.sync_note_links(v_note.id, v_note.project_id, v_note.content);
+    END LOOP;
+END $$;
@@ -0,0 +1,55 @@
+-- Model calls are metered by tokens and estimated cost instead of being
+-- counted as one 'openai_api_call' row each. Every AI function records a
+-- 'model_call' row with the provider, model, tokens, cost, feature and brain
+-- (see supabase/functions/_shared/usage.ts). Older rows keep counting as calls.
+-- Embedding requests are recorded as 'embedding_call' rows: they show in the
+-- usage breakdown with their tokens and cost, but are not AI calls.
+
+ALTER TABLE public.user_usage_stats
+    ADD COLUMN IF NOT EXISTS project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS feature TEXT
+        CHECK (feature IN ('chat', 'summary', 'clean', 'metadata', 'image_analysis', 'indexing')),
+    ADD COLUMN IF NOT EXISTS provider TEXT,
+    ADD COLUMN IF NOT EXISTS model TEXT,
+    ADD COLUMN IF NOT EXISTS input_tokens INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS output_tokens INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+    -- True when the provider did not report usage and it was approximated
+    ADD COLUMN IF NOT EXISTS estimated BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS user_usage_stats_user_created_idx
+    ON public.user_usage_stats (user_id, created_at);
+
+-- A user's usage since a point in time, grouped by UTC day, feature and brain,
+-- for user-statistics to fold into its breakdowns
+CREATE OR REPLACE FUNCTION public.get_usage_breakdown(p_user_id UUID, p_since TIMESTAMPTZ)
+RETURNS TABLE (
+    day DATE,
+    feature TEXT,
+    project_id UUID,
+    calls BIGINT,
+    input_tokens BIGINT,
+    output_tokens BIGINT,
+    cost_usd NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        (u.created_at AT TIME ZONE 'UTC')::date,
+        u.feature,
+        u.project_id,
+        count(*),
+        COALESCE(sum(u.input_tokens), 0),
+        COALESCE(sum(u.output_tokens), 0),
+        COALESCE(sum(u.cost_usd), 0)
+    FROM public.user_usage_stats u
+    WHERE u.user_id = p_user_id
+      AND u.created_at >= p_since
+      AND u.action_type IN ('openai_api_call', 'model_call', 'embedding_call')
+    GROUP BY 1, 2, 3;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_usage_breakdown(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,350 @@
+-- Plan limits are enforced by the database instead of only being shown by the
+-- client. Inserting a brain or document, or storing a file, checks the brain
+-- owner's plan in a trigger, and the AI functions check the monthly call limit
+-- before they call a model (see supabase/functions/_shared/quotas.ts).
+--
+-- A limit that is reached raises SQLSTATE PT402 (brains, documents, storage)
+-- or PT429 (AI calls), which PostgREST returns as HTTP 402 or 429. The detail
+-- is a JSON payload the client turns into an upgrade prompt (src/utils/quotas.ts).
+
+ALTER TABLE public.subscription_tiers
+    ADD COLUMN IF NOT EXISTS max_storage_bytes BIGINT NOT NULL DEFAULT 1073741824;
+
+UPDATE public.subscription_tiers
+SET max_storage_bytes = 53687091200
+WHERE plan_type = 'pro' AND max_storage_bytes = 1073741824;
+
+-- Per-user limits set by an admin, e.g. for a customer on a custom deal.
+-- Each column replaces the plan's limit when it is not null. There are no
+-- write policies: overrides are only set with the service role.
+CREATE TABLE IF NOT EXISTS public.user_quota_overrides (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    max_brains INTEGER,
+    max_documents INTEGER,
+    max_api_calls INTEGER,
+    max_storage_bytes BIGINT,
+    reason TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_quota_overrides ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own quota overrides" ON public.user_quota_overrides;
+CREATE POLICY "Users can read their own quota overrides"
+ON public.user_quota_overrides FOR SELECT
+USING (user_id = auth.uid());
+
+-- The brain a stored file belongs to: documents are stored under
+-- <user id>/<brain id>/ and images under <brain id>/
+CREATE OR REPLACE FUNCTION public.storage_object_project(p_bucket TEXT, p_name TEXT)
+RETURNS UUID
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN folder ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN folder::UUID
+    END
+    FROM (SELECT CASE p_bucket
+        WHEN 'project_documents' THEN split_part(p_name, '/', 2)
+        WHEN 'project_images' THEN split_part(p_name, '/', 1)
+    END AS folder) f;
+$$;
+
+-- Bytes stored in the brains of a user, as recorded by storage for each file.
+-- The size columns of project_documents and project_images are not used:
+-- files can exist without a row, and the columns are only a copy.
+CREATE OR REPLACE FUNCTION public.storage_used_by(p_user_id UUID)
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(sum((o.metadata->>'size')::BIGINT), 0)::BIGINT
+    FROM storage.objects o
+    JOIN public.projects p ON p.id = public.storage_object_project(o.bucket_id, o.name)
+    WHERE o.bucket_id IN ('project_documents', 'project_images')
+      AND p.owner_id = p_user_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.storage_used_by(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.storage_used_by(UUID) TO service_role;
+
+-- The tier whose limits apply to a user: the plan of their active
+-- subscription, or else the default tier. Later migrations that change who
+-- gets which plan replace only this function.
+CREATE OR REPLACE FUNCTION public.user_plan(p_user_id UUID)
+RETURNS SETOF public.subscription_tiers
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT t.*
+    FROM public.subscription_tiers t
+    LEFT JOIN public.user_subscriptions s
+        ON s.user_id = p_user_id AND s.is_active AND s.plan_type = t.plan_type
+    ORDER BY (s.id IS NOT NULL) DESC, t.is_default DESC NULLS LAST, t.created_at
+    LIMIT 1;
+$$;
+
+REVOKE ALL ON FUNCTION public.user_plan(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.user_plan(UUID) TO service_role;
+
+-- Every limit of a user with what they use of it. Brains and documents in the
+-- trash do not count, but their files keep using storage until they are purged.
+-- AI calls are counted from the start of the calendar month (UTC).
+CREATE OR REPLACE FUNCTION public.user_quotas(p_user_id UUID)
+RETURNS TABLE (
+    quota TEXT,
+    plan_type TEXT,
+    quota_limit BIGINT,
+    used BIGINT,
+    overridden BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH plan AS (
+        SELECT * FROM public.user_plan(p_user_id)
+    ),
+    owned AS (
+        SELECT id, deleted_at FROM public.projects WHERE owner_id = p_user_id
+    ),
+    counts AS (
+        SELECT
+            (SELECT count(*) FROM owned WHERE deleted_at IS NULL) AS brains,
+            (SELECT count(*) FROM public.project_documents d
+             JOIN owned o ON o.id = d.project_id AND o.deleted_at IS NULL
+             WHERE d.deleted_at IS NULL) AS documents,
+            public.storage_used_by(p_user_id) AS storage,
+            (SELECT count(*) FROM public.user_usage_stats u
+             WHERE u.user_id = p_user_id
+               AND u.action_type IN ('openai_api_call', 'model_call')
+               AND u.created_at >= date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC') AS api_calls
+    )
+    SELECT q.quota, plan.plan_type, COALESCE(q.override, q.plan_limit), q.used, q.override IS NOT NULL
+    FROM plan
+    CROSS JOIN counts c
+    LEFT JOIN public.user_quota_overrides o ON o.user_id = p_user_id
+    CROSS JOIN LATERAL (VALUES
+        ('brains', plan.max_brains::BIGINT, o.max_brains::BIGINT, c.brains::BIGINT),
+        ('documents', plan.max_documents::BIGINT, o.max_documents::BIGINT, c.documents::BIGINT),
+        ('storage', plan.max_storage_bytes, o.max_storage_bytes, c.storage::BIGINT),
+        ('api_calls', plan.max_api_calls::BIGINT, o.max_api_calls::BIGINT, c.api_calls::BIGINT)
+    ) AS q(quota, plan_limit, override, used);
+$$;
+
+REVOKE ALL ON FUNCTION public.user_quotas(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.user_quotas(UUID) TO service_role;
+
+-- Raises PT402 or PT429 when adding `p_amount` (brains, documents, bytes or
+-- calls) would go over the user's limit
+CREATE OR REPLACE FUNCTION public.enforce_quota(p_user_id UUID, p_quota TEXT, p_amount BIGINT DEFAULT 1)
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_quota RECORD;
+BEGIN
+    IF p_user_id IS NULL OR COALESCE(p_amount, 0) <= 0 THEN
+        RETURN;
+    END IF;
+
+    SELECT * INTO v_quota FROM public.user_quotas(p_user_id) q WHERE q.quota = p_quota;
+
+    -- Without any subscription tier there is no plan to enforce
+    IF NOT FOUND OR v_quota.quota_limit IS NULL OR v_quota.used + p_amount <= v_quota.quota_limit THEN
+        RETURN;
+    END IF;
+
+    RAISE EXCEPTION USING
+        ERRCODE = CASE WHEN p_quota = 'api_calls' THEN 'PT429' ELSE 'PT402' END,
+        MESSAGE = CASE p_quota
+            WHEN 'brains' THEN format('Your plan allows %s brains', v_quota.quota_limit)
+            WHEN 'documents' THEN format('Your plan allows %s documents', v_quota.quota_limit)
+            WHEN 'storage' THEN 'This upload would go over your plan''s storage limit'
+            ELSE format('Your plan allows %s AI calls a month', v_quota.quota_limit)
+        END,
+        DETAIL = json_build_object(
+            'code', 'quota_exceeded',
+            'quota', p_quota,
+            'limit', v_quota.quota_limit,
+            'used', v_quota.used,
+            'requested', p_amount,
+            'planType', v_quota.plan_type
+        )::TEXT,
+        HINT = CASE WHEN v_quota.plan_type = 'pro' OR v_quota.overridden
+            THEN 'Contact support to raise your limit'
+            ELSE 'Upgrade to Pro to raise your limit'
+        END;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.enforce_quota(UUID, TEXT, BIGINT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.enforce_quota(UUID, TEXT, BIGINT) TO service_role;
+
+-- Checks a brain owner's limits before an upload, raising like the triggers do
+CREATE OR REPLACE FUNCTION public.check_upload_quota(p_project_id UUID, p_bytes BIGINT, p_is_document BOOLEAN DEFAULT true)
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_owner_id UUID;
+BEGIN
+    IF NOT public.has_project_role(p_project_id, 'editor') THEN
+        RAISE EXCEPTION 'You cannot add to this brain';
+    END IF;
+
+    SELECT owner_id INTO v_owner_id FROM public.projects WHERE id = p_project_id;
+
+    IF p_is_document THEN
+        PERFORM public.enforce_quota(v_owner_id, 'documents', 1);
+    END IF;
+    PERFORM public.enforce_quota(v_owner_id, 'storage', p_bytes);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.check_upload_quota(UUID, BIGINT, BOOLEAN) TO authenticated;
+
+-- A brain counts once it is created, restored from the trash or handed to a
+-- new owner
+CREATE OR REPLACE FUNCTION public.enforce_brain_quota()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.deleted_at IS NULL AND (
+        TG_OP = 'INSERT'
+        OR OLD.deleted_at IS NOT NULL
+        OR OLD.owner_id IS DISTINCT FROM NEW.owner_id
+    ) THEN
+        PERFORM public.enforce_quota(NEW.owner_id, 'brains', 1);
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS projects_enforce_quota ON public.projects;
+CREATE TRIGGER projects_enforce_quota
+    BEFORE INSERT OR UPDATE OF deleted_at, owner_id ON public.projects
+    FOR EACH ROW EXECUTE FUNCTION public.enforce_brain_quota();
+
+-- Documents count against the brain owner's plan, whoever uploads them
+CREATE OR REPLACE FUNCTION public.enforce_document_quota()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_owner_id UUID;
+BEGIN
+    SELECT owner_id INTO v_owner_id FROM public.projects WHERE id = NEW.project_id;
+
+    IF NEW.deleted_at IS NULL AND (TG_OP = 'INSERT' OR OLD.deleted_at IS NOT NULL) THEN
+        PERFORM public.enforce_quota(v_owner_id, 'documents', 1);
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS project_documents_enforce_quota ON public.project_documents;
+CREATE TRIGGER project_documents_enforce_quota
+    BEFORE INSERT OR UPDATE OF deleted_at ON public.project_documents
+    FOR EACH ROW EXECUTE FUNCTION public.enforce_document_quota();
+
+-- Files count against the brain owner's storage when they are stored, so
+-- the limit holds whether or not a document or image row is added for them.
+-- Users can only store files in brains they can edit, and new files outside
+-- a brain's folder are refused because nothing would count them.
+CREATE OR REPLACE FUNCTION public.enforce_storage_quota()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_project_id UUID;
+    v_owner_id UUID;
+    v_added BIGINT := COALESCE((NEW.metadata->>'size')::BIGINT, 0);
+BEGIN
+    IF NEW.bucket_id NOT IN ('project_documents', 'project_images') THEN
+        RETURN NEW;
+    END IF;
+
+    v_project_id := public.storage_object_project(NEW.bucket_id, NEW.name);
+    SELECT owner_id INTO v_owner_id FROM public.projects WHERE id = v_project_id;
+
+    IF v_owner_id IS NULL THEN
+        IF TG_OP = 'INSERT' THEN
+            RAISE EXCEPTION 'Files must be stored in the folder of a brain' USING ERRCODE = '42501';
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    -- Edge functions store files with the service role and check access themselves
+    IF auth.uid() IS NOT NULL AND NOT public.has_project_role(v_project_id, 'editor') THEN
+        RAISE EXCEPTION 'You cannot add to this brain' USING ERRCODE = '42501';
+    END IF;
+
+    -- Storage may record the size of a new file in a second write, and an
+    -- overwritten file only adds the difference
+    IF TG_OP = 'UPDATE' AND OLD.bucket_id = NEW.bucket_id AND OLD.name = NEW.name THEN
+        v_added := v_added - COALESCE((OLD.metadata->>'size')::BIGINT, 0);
+    END IF;
+
+    PERFORM public.enforce_quota(v_owner_id, 'storage', v_added);
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS objects_enforce_storage_quota ON storage.objects;
+CREATE TRIGGER objects_enforce_storage_quota
+    BEFORE INSERT OR UPDATE OF bucket_id, name, metadata ON storage.objects
+    FOR EACH ROW EXECUTE FUNCTION public.enforce_storage_quota();
+
+-- file_size and size_bytes are copied from the stored file, whatever the
+-- insert or update says, so they always show what counts against the plan
+CREATE OR REPLACE FUNCTION public.set_stored_file_size()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_TABLE_NAME = 'project_documents' THEN
+        NEW.file_size := (
+            SELECT (o.metadata->>'size')::BIGINT FROM storage.objects o
+            WHERE o.bucket_id = 'project_documents' AND o.name = NEW.file_path
+        );
+    ELSE
+        NEW.size_bytes := COALESCE((
+            SELECT (o.metadata->>'size')::BIGINT FROM storage.objects o
+            WHERE o.bucket_id = 'project_images' AND o.name = NEW.storage_path
+        ), 0);
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS project_documents_stored_file_size ON public.project_documents;
+CREATE TRIGGER project_documents_stored_file_size
+    BEFORE INSERT OR UPDATE OF file_path, file_size ON public.project_documents
+    FOR EACH ROW EXECUTE FUNCTION public.set_stored_file_size();
+
+DROP TRIGGER IF EXISTS project_images_stored_file_size ON public.project_images;
+CREATE TRIGGER project_images_stored_file_size
+    BEFORE INSERT OR UPDATE OF storage_path, size_bytes ON public.project_images
+    FOR EACH ROW EXECUTE FUNCTION public.set_stored_file_size();
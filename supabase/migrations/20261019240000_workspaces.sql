@@ -0,0 +1,298 @@
+-- Team workspaces. A workspace owns brains and pays for one Stripe
+-- subscription whose quantity is its number of seats. Every member takes a
+-- seat, and a seat in an active Pro workspace gives its holder the Pro plan.
+-- Brains without a workspace stay personal and keep their owner's own plan.
+--
+--   member  works in every brain of the workspace as an editor
+--   admin   also manages members and seats, and administers its brains
+--   owner   also deletes the workspace
+--
+-- Brain roles from the workspace are mirrored in
+-- supabase/functions/_shared/auth.ts for the edge functions.
+
+CREATE TABLE IF NOT EXISTS public.workspaces (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+    created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    plan_type TEXT NOT NULL DEFAULT 'starter' CHECK (plan_type IN ('starter', 'pro')),
+    is_active BOOLEAN NOT NULL DEFAULT false,
+    -- The quantity of the Stripe subscription; a workspace without one has a single seat
+    seats INTEGER NOT NULL DEFAULT 1 CHECK (seats >= 1),
+    stripe_customer_id TEXT,
+    subscription_id TEXT UNIQUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.workspace_members (
+    workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS workspace_members_user_idx ON public.workspace_members (user_id);
+
+ALTER TABLE public.projects
+    ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.workspaces(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS projects_workspace_idx
+    ON public.projects (workspace_id) WHERE workspace_id IS NOT NULL;
+
+-- Membership lookups bypass RLS so the policies below do not recurse
+
+CREATE OR REPLACE FUNCTION public.workspace_role(p_workspace_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT role FROM public.workspace_members
+    WHERE workspace_id = p_workspace_id AND user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_workspace_role(p_workspace_id UUID, p_minimum_role TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(
+        array_position(ARRAY['member', 'admin', 'owner'], public.workspace_role(p_workspace_id))
+            >= array_position(ARRAY['member', 'admin', 'owner'], p_minimum_role),
+        false
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_workspace_member(p_workspace_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.workspace_members
+        WHERE workspace_id = p_workspace_id AND user_id = p_user_id
+    );
+$$;
+
+-- Creates a workspace with the current user as its owner and returns its id
+CREATE OR REPLACE FUNCTION public.create_workspace(p_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_workspace_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+    END IF;
+
+    INSERT INTO public.workspaces (name, created_by)
+    VALUES (trim(p_name), auth.uid())
+    RETURNING id INTO v_workspace_id;
+
+    INSERT INTO public.workspace_members (workspace_id, user_id, role)
+    VALUES (v_workspace_id, auth.uid(), 'owner');
+
+    RETURN v_workspace_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_workspace(TEXT) TO authenticated;
+
+-- Every member needs a seat. Fewer seats than members (after a downgrade)
+-- keeps everyone in but blocks new members until seats are added.
+CREATE OR REPLACE FUNCTION public.workspace_members_enforce_seats()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_workspace RECORD;
+    v_used INTEGER;
+BEGIN
+    -- Lock the workspace so two invitations cannot take the last seat together
+    SELECT name, CASE WHEN is_active THEN seats ELSE 1 END AS seats
+    INTO v_workspace
+    FROM public.workspaces WHERE id = NEW.workspace_id
+    FOR UPDATE;
+
+    SELECT count(*) INTO v_used FROM public.workspace_members WHERE workspace_id = NEW.workspace_id;
+
+    IF v_used + 1 > v_workspace.seats THEN
+        RAISE EXCEPTION USING
+            ERRCODE = 'PT402',
+            MESSAGE = format('All %s seats of %s are taken', v_workspace.seats, v_workspace.name),
+            DETAIL = json_build_object('code', 'seats_exceeded', 'seats', v_workspace.seats, 'used', v_used)::TEXT,
+            HINT = 'Add seats to the workspace subscription to invite more members';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS workspace_members_enforce_seats ON public.workspace_members;
+CREATE TRIGGER workspace_members_enforce_seats
+    BEFORE INSERT ON public.workspace_members
+    FOR EACH ROW EXECUTE FUNCTION public.workspace_members_enforce_seats();
+
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read their workspaces"
+ON public.workspaces FOR SELECT
+USING (public.workspace_role(id) IS NOT NULL);
+
+-- Billing columns are written by the Stripe webhook only
+CREATE POLICY "Admins can rename workspaces"
+ON public.workspaces FOR UPDATE
+USING (public.has_workspace_role(id, 'admin'))
+WITH CHECK (public.has_workspace_role(id, 'admin'));
+
+REVOKE UPDATE ON public.workspaces FROM authenticated;
+GRANT UPDATE (name, updated_at) ON public.workspaces TO authenticated;
+
+CREATE POLICY "Owners can delete workspaces"
+ON public.workspaces FOR DELETE
+USING (public.has_workspace_role(id, 'owner'));
+
+CREATE POLICY "Members can see who else is in the workspace"
+ON public.workspace_members FOR SELECT
+USING (public.workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Admins can add workspace members"
+ON public.workspace_members FOR INSERT
+WITH CHECK (role <> 'owner' AND public.has_workspace_role(workspace_id, 'admin'));
+
+CREATE POLICY "Admins can change workspace roles"
+ON public.workspace_members FOR UPDATE
+USING (role <> 'owner' AND public.has_workspace_role(workspace_id, 'admin'))
+WITH CHECK (role <> 'owner' AND public.has_workspace_role(workspace_id, 'admin'));
+
+-- The owner stays until the workspace is deleted
+CREATE POLICY "Admins can remove workspace members and members can leave"
+ON public.workspace_members FOR DELETE
+USING (role <> 'owner' AND (user_id = auth.uid() OR public.has_workspace_role(workspace_id, 'admin')));
+
+-- Workspace members get a role in every brain of the workspace. The higher of
+-- that and a role granted on the brain itself wins.
+CREATE OR REPLACE FUNCTION public.project_role(p_project_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN p.deleted_at IS NOT NULL THEN NULL
+        WHEN p.owner_id = auth.uid() THEN 'owner'
+        ELSE (
+            SELECT r.role
+            FROM (VALUES
+                ((SELECT role FROM public.project_members WHERE project_id = p.id AND user_id = auth.uid() LIMIT 1)),
+                ((SELECT CASE wm.role WHEN 'member' THEN 'editor' ELSE 'admin' END
+                  FROM public.workspace_members wm
+                  WHERE wm.workspace_id = p.workspace_id AND wm.user_id = auth.uid()))
+            ) AS r(role)
+            WHERE r.role IS NOT NULL
+            ORDER BY array_position(ARRAY['viewer', 'editor', 'admin', 'owner'], r.role) DESC
+            LIMIT 1
+        )
+    END
+    FROM public.projects p
+    WHERE p.id = p_project_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_access_project(p_project_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.projects p
+        WHERE p.id = p_project_id
+          AND p.deleted_at IS NULL
+          AND (
+              p.owner_id = auth.uid()
+              OR public.is_project_member(p.id, auth.uid())
+              OR (p.workspace_id IS NOT NULL AND public.is_workspace_member(p.workspace_id, auth.uid()))
+          )
+    );
+$$;
+
+-- Brains can only be created in, or moved to, a workspace the user belongs to
+
+DROP POLICY IF EXISTS "Users can create their own brains" ON public.projects;
+CREATE POLICY "Users can create their own brains"
+ON public.projects FOR INSERT
+WITH CHECK (
+    owner_id = auth.uid()
+    AND (workspace_id IS NULL OR public.workspace_role(workspace_id) IS NOT NULL)
+);
+
+DROP POLICY IF EXISTS "Admins can edit brain settings" ON public.projects;
+CREATE POLICY "Admins can edit brain settings"
+ON public.projects FOR UPDATE
+USING (public.has_project_role(id, 'admin'))
+WITH CHECK (
+    public.has_project_role(id, 'admin')
+    AND (workspace_id IS NULL OR public.workspace_role(workspace_id) IS NOT NULL)
+);
+
+-- Moving a brain into a workspace shares it with every member there, so only
+-- its owner can do that; admins keep editing the settings
+CREATE OR REPLACE FUNCTION public.projects_guard_workspace()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NOT NULL AND OLD.owner_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'Only the owner can move a brain between workspaces' USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS projects_guard_workspace ON public.projects;
+CREATE TRIGGER projects_guard_workspace
+    BEFORE UPDATE OF workspace_id ON public.projects
+    FOR EACH ROW
+    WHEN (OLD.workspace_id IS DISTINCT FROM NEW.workspace_id)
+    EXECUTE FUNCTION public.projects_guard_workspace();
+
+GRANT UPDATE (workspace_id) ON public.projects TO authenticated;
+
+-- A seat in an active Pro workspace counts as the Pro plan, unless the
+-- user's own subscription already is one
+CREATE OR REPLACE FUNCTION public.user_plan(p_user_id UUID)
+RETURNS SETOF public.subscription_tiers
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT t.*
+    FROM public.subscription_tiers t
+    LEFT JOIN public.user_subscriptions s
+        ON s.user_id = p_user_id AND s.is_active AND s.plan_type = t.plan_type
+    LEFT JOIN LATERAL (
+        SELECT 1 AS seat
+        FROM public.workspace_members wm
+        JOIN public.workspaces w ON w.id = wm.workspace_id
+        WHERE wm.user_id = p_user_id AND w.is_active AND w.plan_type = t.plan_type
+        LIMIT 1
+    ) ws ON true
+    ORDER BY (s.id IS NOT NULL OR ws.seat IS NOT NULL) DESC, t.is_default DESC NULLS LAST, t.created_at
+    LIMIT 1;
+$$;
@@ -0,0 +1,127 @@
+-- Stripe lifecycle. process-stripe-webhook records every event it receives in
+-- stripe_events and claims it before acting, so a redelivered event is
+-- applied once. Subscriptions are mirrored onto user_subscriptions and
+-- workspaces with enough detail to show trials, pending cancellations and
+-- failed payments, and the plan follows the Stripe price instead of
+-- "any active subscription is Pro".
+--
+--   active, trialing    the plan of the price
+--   past_due            keeps the plan for a grace period while Stripe retries
+--   anything else       starter
+
+CREATE TABLE IF NOT EXISTS public.stripe_events (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL,
+    stripe_created_at TIMESTAMPTZ NOT NULL,
+    status TEXT NOT NULL DEFAULT 'processing'
+        CHECK (status IN ('processing', 'processed', 'ignored', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 1,
+    -- Why an event was ignored, or the error that failed it
+    detail TEXT,
+    payload JSONB NOT NULL,
+    received_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    processed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS stripe_events_type_idx
+    ON public.stripe_events (type, stripe_created_at DESC);
+
+-- Only the webhook, with the service role, reads or writes the log
+ALTER TABLE public.stripe_events ENABLE ROW LEVEL SECURITY;
+
+-- Prices that buy each plan. Prices not listed here fall back to their
+-- lookup_key or metadata.plan_type in the webhook.
+ALTER TABLE public.subscription_tiers
+    ADD COLUMN IF NOT EXISTS stripe_price_ids TEXT[] NOT NULL DEFAULT '{}';
+
+UPDATE public.subscription_tiers
+SET stripe_price_ids = ARRAY['price_1R6ZG0DkiO3r5OEtxXnJaSP3']
+WHERE plan_type = 'pro' AND stripe_price_ids = '{}';
+
+ALTER TABLE public.user_subscriptions
+    ADD COLUMN IF NOT EXISTS stripe_customer_id TEXT,
+    ADD COLUMN IF NOT EXISTS status TEXT,
+    ADD COLUMN IF NOT EXISTS price_id TEXT,
+    ADD COLUMN IF NOT EXISTS current_period_end TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS cancel_at_period_end BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS grace_period_ends_at TIMESTAMPTZ,
+    -- Creation time of the Stripe event last applied, to drop older ones
+    -- that arrive late
+    ADD COLUMN IF NOT EXISTS stripe_synced_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS user_subscriptions_subscription_idx
+    ON public.user_subscriptions (subscription_id);
+CREATE INDEX IF NOT EXISTS user_subscriptions_customer_idx
+    ON public.user_subscriptions (stripe_customer_id);
+
+ALTER TABLE public.workspaces
+    ADD COLUMN IF NOT EXISTS status TEXT,
+    ADD COLUMN IF NOT EXISTS price_id TEXT,
+    ADD COLUMN IF NOT EXISTS current_period_end TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS cancel_at_period_end BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS trial_ends_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS grace_period_ends_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS stripe_synced_at TIMESTAMPTZ;
+
+-- Records an event and returns true when the caller should process it: the
+-- first delivery, a retry of one that failed, or one whose processing
+-- stalled. Everything else is a duplicate delivery.
+CREATE OR REPLACE FUNCTION public.claim_stripe_event(
+    p_event_id TEXT,
+    p_type TEXT,
+    p_created TIMESTAMPTZ,
+    p_payload JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_claimed TEXT;
+BEGIN
+    INSERT INTO public.stripe_events (id, type, stripe_created_at, payload)
+    VALUES (p_event_id, p_type, p_created, p_payload)
+    ON CONFLICT (id) DO UPDATE
+        SET status = 'processing',
+            attempts = stripe_events.attempts + 1,
+            detail = NULL,
+            received_at = now(),
+            processed_at = NULL
+        WHERE stripe_events.status = 'failed'
+           OR (stripe_events.status = 'processing'
+               AND stripe_events.received_at < now() - interval '10 minutes')
+    RETURNING id INTO v_claimed;
+
+    RETURN v_claimed IS NOT NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_stripe_event(TEXT, TEXT, TIMESTAMPTZ, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_stripe_event(TEXT, TEXT, TIMESTAMPTZ, JSONB) TO service_role;
+
+-- A past-due subscription keeps its plan until the grace period ends, even
+-- if no further event arrives to downgrade it
+CREATE OR REPLACE FUNCTION public.user_plan(p_user_id UUID)
+RETURNS SETOF public.subscription_tiers
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT t.*
+    FROM public.subscription_tiers t
+    LEFT JOIN public.user_subscriptions s
+        ON s.user_id = p_user_id AND s.is_active AND s.plan_type = t.plan_type
+       AND (s.grace_period_ends_at IS NULL OR s.grace_period_ends_at > now())
+    LEFT JOIN LATERAL (
+        SELECT 1 AS seat
+        FROM public.workspace_members wm
+        JOIN public.workspaces w ON w.id = wm.workspace_id
+        WHERE wm.user_id = p_user_id AND w.is_active AND w.plan_type = t.plan_type
+          AND (w.grace_period_ends_at IS NULL OR w.grace_period_ends_at > now())
+        LIMIT 1
+    ) ws ON true
+    ORDER BY (s.id IS NOT NULL OR ws.seat IS NOT NULL) DESC, t.is_default DESC NULLS LAST, t.created_at
+    LIMIT 1;
+$$;
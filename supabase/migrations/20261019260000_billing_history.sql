@@ -0,0 +1,55 @@
+-- Billing history. process-stripe-webhook mirrors invoices, their receipts
+-- and refunds, and the card that pays, so the billing section of the
+-- subscription page reads everything from the database without calling
+-- Stripe. Invoices belong to a user, or to a workspace for seat
+-- subscriptions; workspace invoices are visible to its admins.
+
+CREATE TABLE IF NOT EXISTS public.billing_invoices (
+    -- The Stripe invoice id
+    id TEXT PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    stripe_customer_id TEXT,
+    subscription_id TEXT,
+    number TEXT,
+    status TEXT NOT NULL CHECK (status IN ('draft', 'open', 'paid', 'uncollectible', 'void')),
+    billing_reason TEXT,
+    currency TEXT NOT NULL,
+    -- Amounts in the smallest currency unit, as Stripe reports them
+    amount_due BIGINT NOT NULL DEFAULT 0,
+    amount_paid BIGINT NOT NULL DEFAULT 0,
+    amount_refunded BIGINT NOT NULL DEFAULT 0,
+    period_start TIMESTAMPTZ,
+    period_end TIMESTAMPTZ,
+    hosted_invoice_url TEXT,
+    invoice_pdf TEXT,
+    receipt_url TEXT,
+    stripe_created_at TIMESTAMPTZ NOT NULL,
+    -- Creation time of the Stripe event last applied, as on user_subscriptions
+    stripe_synced_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CHECK ((user_id IS NULL) <> (workspace_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS billing_invoices_user_idx
+    ON public.billing_invoices (user_id, stripe_created_at DESC);
+CREATE INDEX IF NOT EXISTS billing_invoices_workspace_idx
+    ON public.billing_invoices (workspace_id, stripe_created_at DESC);
+
+ALTER TABLE public.billing_invoices ENABLE ROW LEVEL SECURITY;
+
+-- Written by the Stripe webhook only
+CREATE POLICY "Users can read their invoices"
+ON public.billing_invoices FOR SELECT
+USING (
+    user_id = auth.uid()
+    OR (workspace_id IS NOT NULL AND public.has_workspace_role(workspace_id, 'admin'))
+);
+
+-- The card of the latest payment or the last one added in the billing
+-- portal: {brand, last4, exp_month, exp_year}
+ALTER TABLE public.user_subscriptions
+    ADD COLUMN IF NOT EXISTS payment_method JSONB;
+
+ALTER TABLE public.workspaces
+    ADD COLUMN IF NOT EXISTS payment_method JSONB;